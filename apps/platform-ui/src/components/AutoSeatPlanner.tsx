@@ -0,0 +1,413 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  ApiResponse,
+  AutoSeatRequest,
+  Guest,
+  GuestListResponse,
+  GuestTag,
+  SeatingOverviewResponse,
+  SeatingPlan,
+  SeatingTable,
+  TagListResponse,
+} from '../types';
+
+interface AutoSeatPlannerProps {
+  weddingId: string;
+  /** Event whose seating chart is planned; omit for the main chart */
+  eventId?: string;
+  tables: SeatingTable[];
+  onApplied: () => void | Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2 border border-neutral-dark/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50';
+
+/**
+ * Automatic seating planner.
+ * The couple sets constraints, previews the proposed chart with its score and
+ * any constraints it breaks, then applies it, replacing all current assignments
+ * of the chart.
+ */
+export function AutoSeatPlanner({ weddingId, eventId, tables, onApplied, onClose }: AutoSeatPlannerProps) {
+  const chartQuery = eventId ? `?eventId=${encodeURIComponent(eventId)}` : '';
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [tags, setTags] = useState<GuestTag[]>([]);
+  const [keepHouseholdsTogether, setKeepHouseholdsTogether] = useState(true);
+  const [fillInOrder, setFillInOrder] = useState(false);
+  const [includePending, setIncludePending] = useState(false);
+  const [keepCurrentSeats, setKeepCurrentSeats] = useState(false);
+  const [togetherTagIds, setTogetherTagIds] = useState<Set<string>>(new Set());
+  const [apartPairs, setApartPairs] = useState<Array<[string, string]>>([]);
+  const [apartFirst, setApartFirst] = useState('');
+  const [apartSecond, setApartSecond] = useState('');
+  const [pins, setPins] = useState<Array<{ guestId: string; tableId: string }>>([]);
+  const [pinGuestId, setPinGuestId] = useState('');
+  const [pinTableId, setPinTableId] = useState('');
+  const [plan, setPlan] = useState<SeatingPlan | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const [guestResponse, tagResponse] = await Promise.all([
+        fetch(`/api/weddings/${weddingId}/guests`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        fetch(`/api/weddings/${weddingId}/tags`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      ]);
+      const guestData: ApiResponse<GuestListResponse> = await guestResponse.json();
+      const tagData: ApiResponse<TagListResponse> = await tagResponse.json();
+      if (guestData.ok) {
+        setGuests(guestData.data.guests);
+      }
+      if (tagData.ok) {
+        setTags(tagData.data.tags);
+      }
+    } catch {
+      setError('Unable to load guests and tags');
+    }
+  }, [weddingId]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [fetchOptions]);
+
+  // Any change to the constraints makes the current preview stale
+  useEffect(() => {
+    setPlan(null);
+  }, [keepHouseholdsTogether, fillInOrder, includePending, keepCurrentSeats, togetherTagIds, apartPairs, pins]);
+
+  const guestName = (guestId: string) =>
+    guests.find((g) => g.id === guestId)?.name ?? 'Unknown guest';
+  const tableName = (tableId: string) =>
+    tables.find((t) => t.id === tableId)?.name ?? 'Unknown table';
+
+  const seatableGuests = guests.filter(
+    (g) => g.rsvpStatus === 'attending' || (includePending && g.rsvpStatus === 'pending'),
+  );
+
+  const toggleTag = (tagId: string) => {
+    const next = new Set(togetherTagIds);
+    if (next.has(tagId)) {
+      next.delete(tagId);
+    } else {
+      next.add(tagId);
+    }
+    setTogetherTagIds(next);
+  };
+
+  const addApartPair = () => {
+    if (!apartFirst || !apartSecond || apartFirst === apartSecond) return;
+    setApartPairs([...apartPairs, [apartFirst, apartSecond]]);
+    setApartFirst('');
+    setApartSecond('');
+  };
+
+  const addPin = () => {
+    if (!pinGuestId || !pinTableId) return;
+    setPins([...pins.filter((p) => p.guestId !== pinGuestId), { guestId: pinGuestId, tableId: pinTableId }]);
+    setPinGuestId('');
+    setPinTableId('');
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const request: AutoSeatRequest = {
+        constraints: {
+          keepHouseholdsTogether,
+          keepTogether: [...togetherTagIds].map((tagId) => ({ tagId })),
+          keepApart: apartPairs.map((guestIds) => ({ guestIds })),
+          pins,
+          fillInOrder,
+        },
+        includePending,
+        keepCurrentSeats,
+      };
+      const response = await fetch(`/api/weddings/${weddingId}/seating/auto-assign${chartQuery}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(request),
+      });
+
+      const data: ApiResponse<SeatingPlan> = await response.json();
+
+      if (data.ok) {
+        setPlan(data.data);
+      } else {
+        setError(
+          data.error === 'TABLE_NOT_FOUND'
+            ? 'A pinned table no longer exists. Refresh and try again.'
+            : 'Unable to plan seating',
+        );
+      }
+    } catch {
+      setError('Unable to plan seating');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    if (!confirm('Apply this plan? It replaces every current table assignment in this seating chart.')) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/seating/auto-assign/apply${chartQuery}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ assignments: plan.assignments }),
+      });
+
+      const data: ApiResponse<SeatingOverviewResponse> = await response.json();
+
+      if (data.ok) {
+        setPlan(null);
+        await onApplied();
+      } else {
+        setError(
+          data.error === 'TABLE_CAPACITY_EXCEEDED'
+            || data.error === 'TABLE_NOT_FOUND'
+            || data.error === 'GUEST_NOT_FOUND'
+            || data.error === 'GUEST_NOT_ATTENDING_EVENT'
+            ? 'Your tables or guests changed since this preview. Preview the plan again.'
+            : 'Unable to apply the seating plan',
+        );
+      }
+    } catch {
+      setError('Unable to apply the seating plan');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-neutral-50 rounded-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-serif text-lg text-neutral-dark">Auto-seat</h3>
+          <p className="text-sm text-neutral-dark/60">
+            Seats {includePending ? 'attending and pending' : 'attending'} guests
+            ({seatableGuests.length}) across your tables. Nothing changes until you apply.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-neutral-dark/60 hover:text-neutral-dark transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 text-primary">
+          {error}
+        </div>
+      )}
+
+      {/* Options */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {[
+          { label: 'Keep households together', checked: keepHouseholdsTogether, onChange: setKeepHouseholdsTogether },
+          { label: 'Fill tables in order', checked: fillInOrder, onChange: setFillInOrder },
+          { label: "Include guests who haven't responded", checked: includePending, onChange: setIncludePending },
+          { label: 'Keep guests who are already seated', checked: keepCurrentSeats, onChange: setKeepCurrentSeats },
+        ].map((option) => (
+          <label key={option.label} className="flex items-center gap-2 text-neutral-dark cursor-pointer">
+            <input
+              type="checkbox"
+              checked={option.checked}
+              onChange={(e) => option.onChange(e.target.checked)}
+              className="rounded border-neutral-dark/20 text-primary focus:ring-primary/50"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      {/* Keep tag groups together */}
+      {tags.length > 0 && (
+        <div>
+          <p className="text-sm text-neutral-dark/60 mb-2">Seat each tag group together</p>
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                onClick={() => toggleTag(tag.id)}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  togetherTagIds.has(tag.id)
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-neutral-dark/20 text-neutral-dark/70 hover:border-primary/50'
+                }`}
+              >
+                {tag.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Keep apart */}
+      <div>
+        <p className="text-sm text-neutral-dark/60 mb-2">Keep apart</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select value={apartFirst} onChange={(e) => setApartFirst(e.target.value)} className={inputClassName}>
+            <option value="">Select a guest</option>
+            {seatableGuests.map((g) => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+          <select value={apartSecond} onChange={(e) => setApartSecond(e.target.value)} className={inputClassName}>
+            <option value="">Select a guest</option>
+            {seatableGuests.filter((g) => g.id !== apartFirst).map((g) => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addApartPair}
+            disabled={!apartFirst || !apartSecond}
+            className="px-4 py-2 border border-neutral-dark/20 text-neutral-dark rounded-lg hover:bg-neutral-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add pair
+          </button>
+        </div>
+        {apartPairs.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {apartPairs.map(([a, b], index) => (
+              <li key={`${a}-${b}`} className="flex items-center justify-between text-sm text-neutral-dark">
+                {guestName(a)} and {guestName(b)}
+                <button
+                  onClick={() => setApartPairs(apartPairs.filter((_, i) => i !== index))}
+                  className="text-neutral-dark/40 hover:text-primary transition-colors"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Pins */}
+      <div>
+        <p className="text-sm text-neutral-dark/60 mb-2">Seat a guest at a specific table</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select value={pinGuestId} onChange={(e) => setPinGuestId(e.target.value)} className={inputClassName}>
+            <option value="">Select a guest</option>
+            {seatableGuests.map((g) => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+          <select value={pinTableId} onChange={(e) => setPinTableId(e.target.value)} className={inputClassName}>
+            <option value="">Select a table</option>
+            {tables.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addPin}
+            disabled={!pinGuestId || !pinTableId}
+            className="px-4 py-2 border border-neutral-dark/20 text-neutral-dark rounded-lg hover:bg-neutral-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add
+          </button>
+        </div>
+        {pins.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {pins.map((pin) => (
+              <li key={pin.guestId} className="flex items-center justify-between text-sm text-neutral-dark">
+                {guestName(pin.guestId)} at {tableName(pin.tableId)}
+                <button
+                  onClick={() => setPins(pins.filter((p) => p.guestId !== pin.guestId))}
+                  className="text-neutral-dark/40 hover:text-primary transition-colors"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handlePreview}
+          disabled={isPreviewing || tables.length === 0}
+          className="px-4 py-2 bg-primary text-neutral-50 rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isPreviewing ? 'Planning...' : 'Preview plan'}
+        </button>
+      </div>
+
+      {/* Preview */}
+      {plan && (
+        <div className="border-t border-neutral-dark/10 pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-serif text-lg text-neutral-dark">Proposed seating</h4>
+            <span className="text-sm text-neutral-dark/60">
+              Score <span className="text-2xl font-serif text-accent">{plan.score}</span> / 100
+            </span>
+          </div>
+
+          {plan.unmetConstraints.length > 0 && (
+            <ul className="bg-primary/10 border border-primary/20 rounded-lg p-4 text-primary text-sm space-y-1">
+              {plan.unmetConstraints.map((constraint, index) => (
+                <li key={index}>{constraint.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {tables.map((table) => {
+              const seated = plan.assignments.filter((a) => a.tableId === table.id);
+              return (
+                <div key={table.id} className="bg-white rounded-lg p-4">
+                  <p className="font-serif text-neutral-dark">
+                    {table.name}{' '}
+                    <span className="text-sm text-neutral-dark/60">
+                      ({seated.length} / {table.capacity})
+                    </span>
+                  </p>
+                  <p className="text-sm text-neutral-dark/70 mt-1">
+                    {seated.length > 0 ? seated.map((a) => guestName(a.guestId)).join(', ') : 'Empty'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleApply}
+              disabled={isApplying}
+              className="px-4 py-2 bg-primary text-neutral-50 rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isApplying ? 'Applying...' : 'Apply plan'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
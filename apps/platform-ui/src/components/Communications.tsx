@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { getAuthToken } from '../lib/auth';
+import { useCampaignProgress } from '../lib/useCampaignProgress';
+import { useSegments, fetchSegmentGuestIds } from '../lib/useSegments';
 import type {
   Guest,
   GuestListResponse,
@@ -24,7 +26,9 @@ export function Communications({ weddingId }: CommunicationsProps) {
   const [error, setError] = useState<string | null>(null);
   const [sendingType, setSendingType] = useState<'save_the_date' | 'thank_you' | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
-  const [sendResult, setSendResult] = useState<{ sent: number; failed: number } | null>(null);
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const { progress, error: progressError } = useCampaignProgress(weddingId, campaignId);
+  const { segments } = useSegments(weddingId);
 
   const parseGuests = (
     payload:
@@ -114,6 +118,18 @@ export function Communications({ weddingId }: CommunicationsProps) {
     }
   };
 
+  // Select whoever is in a saved segment right now
+  const handleSelectSegment = async (segmentId: string) => {
+    if (!segmentId) return;
+    const guestIds = await fetchSegmentGuestIds(weddingId, segmentId);
+    if (guestIds) {
+      setSelectedGuestIds(new Set(guestIds));
+      setError(null);
+    } else {
+      setError('Unable to load segment');
+    }
+  };
+
   const handleInitiateSend = (type: 'save_the_date' | 'thank_you') => {
     if (selectedGuestIds.size === 0) {
       setError('Please select at least one guest');
@@ -145,7 +161,7 @@ export function Communications({ weddingId }: CommunicationsProps) {
       const data: ApiResponse<SendSaveTheDateResponse | SendThankYouResponse> = await response.json();
 
       if (data.ok) {
-        setSendResult({ sent: data.data.sent, failed: data.data.failed });
+        setCampaignId(data.data.campaignId);
         setSelectedGuestIds(new Set());
       } else {
         setError('Failed to send emails. Please try again.');
@@ -158,10 +174,14 @@ export function Communications({ weddingId }: CommunicationsProps) {
   };
 
   const handleCloseResult = () => {
-    setSendResult(null);
+    setCampaignId(null);
     setSendingType(null);
   };
 
+  const messageLabel = sendingType === 'save_the_date' ? 'Save-the-date' : 'Thank-you';
+  // Suppressed guests are skipped, so they count as processed alongside sent and failed
+  const processed = progress ? progress.sent + progress.failed + progress.suppressed : 0;
+
   if (isLoading) {
     return (
       <div className="text-center py-16">
@@ -178,27 +198,62 @@ export function Communications({ weddingId }: CommunicationsProps) {
         <p className="text-neutral-500 mt-1">Send save-the-dates and thank-you messages to your guests.</p>
       </div>
 
-      {error && (
+      {(error || progressError) && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
-          {error}
+          {error || progressError}
         </div>
       )}
 
-      {sendResult && (
+      {campaignId && (
         <div className="mb-6 p-4 bg-accent-50 border border-accent-200 rounded-lg">
           <div className="flex items-center justify-between">
-            <div>
-              <p className="font-medium text-accent-800">
-                {sendResult.sent} email{sendResult.sent !== 1 ? 's' : ''} sent successfully
-                {sendResult.failed > 0 && `, ${sendResult.failed} failed`}
-              </p>
-              <p className="text-sm text-accent-700 mt-1">
-                {sendingType === 'save_the_date' ? 'Save-the-date' : 'Thank-you'} messages have been sent.
-              </p>
+            <div className="flex-1">
+              {progress?.completed ? (
+                <>
+                  <p className="font-medium text-accent-800">
+                    {progress.sent} email{progress.sent !== 1 ? 's' : ''} sent successfully
+                    {progress.failed > 0 && `, ${progress.failed} failed`}
+                    {progress.suppressed > 0 && `, ${progress.suppressed} skipped (suppressed address)`}
+                  </p>
+                  <p className="text-sm text-accent-700 mt-1">
+                    {messageLabel} messages have been sent.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="font-medium text-accent-800">
+                    Sending {messageLabel.toLowerCase()} messages...
+                  </p>
+                  <p className="text-sm text-accent-700 mt-1">
+                    {progress
+                      ? `${processed} of ${progress.total} processed: ${progress.sent} sent, ${progress.failed} failed, ${progress.suppressed} skipped (suppressed address). You can leave this page; sending continues in the background.`
+                      : 'Queued. You can leave this page; sending continues in the background.'}
+                  </p>
+                  {progress && progress.total > 0 && (
+                    <div className="mt-3 h-2 bg-accent-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-accent-500 transition-all"
+                        style={{ width: `${(processed / progress.total) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+              {progress && progress.failed + progress.suppressed > 0 && (
+                <ul className="mt-3 text-sm text-neutral-600 space-y-1">
+                  {progress.results
+                    .filter((result) => result.status === 'failed' || result.status === 'suppressed')
+                    .map((result) => (
+                      <li key={result.guestId}>
+                        {result.guestName}: {result.error || 'Failed to send email'}
+                      </li>
+                    ))}
+                </ul>
+              )}
             </div>
             <button
               onClick={handleCloseResult}
-              className="text-accent-600 hover:text-accent-700"
+              className="text-accent-600 hover:text-accent-700 self-start ml-4"
             >
               <XIcon className="w-5 h-5" />
             </button>
@@ -255,12 +310,29 @@ export function Communications({ weddingId }: CommunicationsProps) {
       <div className="bg-neutral-50 rounded-xl p-6 border border-neutral-200">
         <div className="flex items-center justify-between mb-4">
           <h3 className="font-medium text-neutral-800">Select Recipients</h3>
-          <button
-            onClick={handleSelectAll}
-            className="text-sm text-primary-600 hover:text-primary-700"
-          >
-            {selectedGuestIds.size === guests.length ? 'Deselect all' : 'Select all'}
-          </button>
+          <div className="flex items-center gap-4">
+            {segments.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleSelectSegment(e.target.value)}
+                aria-label="Select a segment"
+                className="px-3 py-1 border border-neutral-300 rounded-lg bg-neutral-50 text-sm"
+              >
+                <option value="">Select a segment...</option>
+                {segments.map((segment) => (
+                  <option key={segment.id} value={segment.id}>
+                    {segment.name} ({segment.guestCount})
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleSelectAll}
+              className="text-sm text-primary-600 hover:text-primary-700"
+            >
+              {selectedGuestIds.size === guests.length ? 'Deselect all' : 'Select all'}
+            </button>
+          </div>
         </div>
 
         {guests.length === 0 ? (
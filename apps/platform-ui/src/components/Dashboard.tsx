@@ -10,6 +10,10 @@ import { FaqSettings } from './FaqSettings';
 import { PasscodeSettings } from './PasscodeSettings';
 import { HeroSettings } from './HeroSettings';
 import { MealSettings } from './MealSettings';
+import { RsvpQuestionSettings } from './RsvpQuestionSettings';
+import { RsvpDeadlineSettings } from './RsvpDeadlineSettings';
+import { RsvpNotificationSettings } from './RsvpNotificationSettings';
+import { RsvpLookupSettings } from './RsvpLookupSettings';
 import { RegistrySettings } from './RegistrySettings';
 import { AccommodationsSettings } from './AccommodationsSettings';
 import { EmailStatisticsDashboard } from './EmailStatistics';
@@ -30,7 +34,7 @@ import { getAuthToken } from '../lib/auth';
 import { getWeddingSiteUrl } from '../lib/urls';
 import type { Wedding, ApiResponse, RenderConfig } from '../types';
 
-type View = 'dashboard' | 'create-wedding' | 'guests' | 'rsvp' | 'template' | 'features' | 'announcement' | 'event-details' | 'faq' | 'passcode' | 'hero' | 'meal-options' | 'registry' | 'accommodations' | 'email-stats' | 'photo-stats' | 'guestbook' | 'music' | 'seating' | 'communications' | 'email-templates' | 'gallery' | 'photo-moderation' | 'video' | 'social' | 'language' | 'domain';
+type View = 'dashboard' | 'create-wedding' | 'guests' | 'rsvp' | 'template' | 'features' | 'announcement' | 'event-details' | 'faq' | 'passcode' | 'hero' | 'meal-options' | 'rsvp-questions' | 'rsvp-deadline' | 'rsvp-notifications' | 'rsvp-lookup' | 'registry' | 'accommodations' | 'email-stats' | 'photo-stats' | 'guestbook' | 'music' | 'seating' | 'communications' | 'email-templates' | 'gallery' | 'photo-moderation' | 'video' | 'social' | 'language' | 'domain';
 
 /**
  * Admin Dashboard component.
@@ -207,6 +211,34 @@ export function Dashboard() {
             onMealConfigChanged={fetchWeddings}
           />
         );
+      case 'rsvp-questions':
+        return (
+          <RsvpQuestionSettings
+            wedding={selectedWedding}
+            onQuestionsChanged={fetchWeddings}
+          />
+        );
+      case 'rsvp-deadline':
+        return (
+          <RsvpDeadlineSettings
+            wedding={selectedWedding}
+            onDeadlineChanged={fetchWeddings}
+          />
+        );
+      case 'rsvp-notifications':
+        return (
+          <RsvpNotificationSettings
+            wedding={selectedWedding}
+            onPreferenceChanged={fetchWeddings}
+          />
+        );
+      case 'rsvp-lookup':
+        return (
+          <RsvpLookupSettings
+            wedding={selectedWedding}
+            onLookupChanged={fetchWeddings}
+          />
+        );
       case 'email-stats':
         return (
           <EmailStatisticsDashboard
@@ -236,6 +268,7 @@ export function Dashboard() {
         return (
           <SeatingManager
             weddingId={selectedWedding.id}
+            events={selectedWedding.eventDetails?.events}
           />
         );
       case 'communications':
@@ -374,6 +407,10 @@ export function Dashboard() {
             onNavigateToPasscode={() => setView('passcode')}
             onNavigateToHero={() => setView('hero')}
             onNavigateToMealOptions={() => setView('meal-options')}
+            onNavigateToRsvpQuestions={() => setView('rsvp-questions')}
+            onNavigateToRsvpDeadline={() => setView('rsvp-deadline')}
+            onNavigateToRsvpNotifications={() => setView('rsvp-notifications')}
+            onNavigateToRsvpLookup={() => setView('rsvp-lookup')}
             onNavigateToEmailStats={() => setView('email-stats')}
             onNavigateToPhotoStats={() => setView('photo-stats')}
             onNavigateToGuestbook={() => setView('guestbook')}
@@ -594,6 +631,10 @@ interface WeddingSidebarProps {
   onNavigateToPasscode: () => void;
   onNavigateToHero: () => void;
   onNavigateToMealOptions: () => void;
+  onNavigateToRsvpQuestions: () => void;
+  onNavigateToRsvpDeadline: () => void;
+  onNavigateToRsvpNotifications: () => void;
+  onNavigateToRsvpLookup: () => void;
   onNavigateToEmailStats: () => void;
   onNavigateToPhotoStats: () => void;
   onNavigateToGuestbook: () => void;
@@ -635,6 +676,10 @@ function WeddingSidebar({
   onNavigateToPasscode,
   onNavigateToHero,
   onNavigateToMealOptions,
+  onNavigateToRsvpQuestions,
+  onNavigateToRsvpDeadline,
+  onNavigateToRsvpNotifications,
+  onNavigateToRsvpLookup,
   onNavigateToEmailStats,
   onNavigateToPhotoStats,
   onNavigateToGuestbook,
@@ -786,6 +831,34 @@ function WeddingSidebar({
           onClick: onNavigateToMealOptions,
           visible: wedding.features.RSVP,
         },
+        {
+          label: 'RSVP questions',
+          icon: <ListBulletIcon className="w-4 h-4" />,
+          view: 'rsvp-questions',
+          onClick: onNavigateToRsvpQuestions,
+          visible: wedding.features.RSVP,
+        },
+        {
+          label: 'RSVP deadline',
+          icon: <ClockIcon className="w-4 h-4" />,
+          view: 'rsvp-deadline',
+          onClick: onNavigateToRsvpDeadline,
+          visible: wedding.features.RSVP,
+        },
+        {
+          label: 'RSVP notifications',
+          icon: <InboxIcon className="w-4 h-4" />,
+          view: 'rsvp-notifications',
+          onClick: onNavigateToRsvpNotifications,
+          visible: wedding.features.RSVP,
+        },
+        {
+          label: 'Find your invitation',
+          icon: <MagnifyingGlassIcon className="w-4 h-4" />,
+          view: 'rsvp-lookup',
+          onClick: onNavigateToRsvpLookup,
+          visible: wedding.features.RSVP,
+        },
         {
           label: 'Seating chart',
           icon: <TableIcon className="w-4 h-4" />,
@@ -1263,6 +1336,78 @@ function ForkKnifeIcon({ className }: { className?: string }) {
   );
 }
 
+function ListBulletIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={1.5}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M8.25 6.75h12M8.25 12h12m-12 5.25h12M3.75 6.75h.007v.008H3.75V6.75zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zM3.75 12h.007v.008H3.75V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm-.375 5.25h.007v.008H3.75v-.008zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z"
+      />
+    </svg>
+  );
+}
+
+function ClockIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={1.5}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z"
+      />
+    </svg>
+  );
+}
+
+function InboxIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={1.5}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M2.25 13.5h3.86a2.25 2.25 0 012.012 1.244l.256.512a2.25 2.25 0 002.013 1.244h3.218a2.25 2.25 0 002.013-1.244l.256-.512a2.25 2.25 0 012.013-1.244h3.859m-19.5.338V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18v-4.162c0-.224-.034-.447-.1-.661L19.24 5.338a2.25 2.25 0 00-2.15-1.588H6.911a2.25 2.25 0 00-2.15 1.588L2.35 13.177a2.25 2.25 0 00-.1.661z"
+      />
+    </svg>
+  );
+}
+
+function MagnifyingGlassIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={1.5}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z"
+      />
+    </svg>
+  );
+}
+
 function BuildingIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -1,6 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { getAuthToken } from '../lib/auth';
-import type { EmailStatistics, ApiResponse, EmailStatisticsResponse } from '../types';
+import type {
+  EmailStatistics,
+  EmailTypeStatistics,
+  ApiResponse,
+  EmailStatisticsResponse,
+  DeadLetteredEmail,
+  EmailSuppression,
+  EmailSuppressionReason,
+} from '../types';
 
 interface EmailStatisticsProps {
   weddingId: string;
@@ -9,7 +17,9 @@ interface EmailStatisticsProps {
 /**
  * Email delivery statistics dashboard component.
  * PRD: "Dashboard shows email delivery statistics"
- * Shows total sent, delivered, failed counts and breakdown by email type.
+ * Shows total sent, delivered, failed counts, open and click rates (from
+ * SendGrid tracking) and a breakdown by email type, plus emails that failed
+ * for good and can be retried or discarded, and addresses no longer emailed.
  */
 export function EmailStatisticsDashboard({ weddingId }: EmailStatisticsProps) {
   const [statistics, setStatistics] = useState<EmailStatistics | null>(null);
@@ -132,6 +142,20 @@ export function EmailStatisticsDashboard({ weddingId }: EmailStatisticsProps) {
         </div>
       )}
 
+      {/* Engagement (only once tracking has reported something) */}
+      {(statistics.opened > 0 || statistics.clicked > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+          <RateBar label="Open rate" rate={statistics.openRate ?? 0} />
+          <RateBar label="Click rate" rate={statistics.clickRate ?? 0} />
+        </div>
+      )}
+
+      {(statistics.spamReports > 0 || statistics.unsubscribes > 0) && (
+        <p className="text-sm text-primary-600 mb-8">
+          {statistics.spamReports} marked as spam, {statistics.unsubscribes} unsubscribed
+        </p>
+      )}
+
       {/* Breakdown by type */}
       <div className="space-y-6">
         <h2 className="text-lg text-neutral-800">Breakdown by email type</h2>
@@ -145,9 +169,25 @@ export function EmailStatisticsDashboard({ weddingId }: EmailStatisticsProps) {
             title="Reminders"
             stats={statistics.byType.reminder}
           />
+          {statistics.byType.save_the_date.sent > 0 && (
+            <TypeBreakdownCard
+              title="Save-the-dates"
+              stats={statistics.byType.save_the_date}
+            />
+          )}
+          {statistics.byType.thank_you.sent > 0 && (
+            <TypeBreakdownCard
+              title="Thank-yous"
+              stats={statistics.byType.thank_you}
+            />
+          )}
         </div>
       </div>
 
+      <FailedEmails weddingId={weddingId} />
+
+      <SuppressedAddresses weddingId={weddingId} />
+
       {/* Empty state */}
       {statistics.totalSent === 0 && (
         <div className="text-center py-12 bg-neutral-50 border border-neutral-200 rounded-lg mt-8">
@@ -173,6 +213,246 @@ export function EmailStatisticsDashboard({ weddingId }: EmailStatisticsProps) {
   );
 }
 
+const EMAIL_TYPE_LABELS: Record<DeadLetteredEmail['emailType'], string> = {
+  invitation: 'Invitation',
+  reminder: 'Reminder',
+  save_the_date: 'Save-the-date',
+  thank_you: 'Thank-you',
+  update: 'Update',
+  rsvp_confirmation: 'RSVP confirmation',
+  rsvp_notification: 'RSVP notification',
+};
+
+/**
+ * Emails the worker gave up on after its retries (or straight away, for
+ * errors a retry cannot fix such as a rejected address)
+ */
+function FailedEmails({ weddingId }: { weddingId: string }) {
+  const [emails, setEmails] = useState<DeadLetteredEmail[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/invitations/dead-letters`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data: ApiResponse<DeadLetteredEmail[]> = await response.json();
+      if (data.ok) {
+        setEmails(data.data);
+      }
+    } catch {
+      // The statistics above are still useful without this list
+    }
+  }, [weddingId]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleAction = async (email: DeadLetteredEmail, action: 'retry' | 'discard') => {
+    setBusyId(email.id);
+    setError(null);
+    try {
+      const token = getAuthToken();
+      const response = await fetch(
+        action === 'retry'
+          ? `/api/weddings/${weddingId}/invitations/dead-letters/${encodeURIComponent(email.id)}/retry`
+          : `/api/weddings/${weddingId}/invitations/dead-letters/${encodeURIComponent(email.id)}`,
+        {
+          method: action === 'retry' ? 'POST' : 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      const data: ApiResponse<{ success: boolean }> = await response.json();
+      if (!data.ok) {
+        setError(action === 'retry' ? 'Unable to retry this email.' : 'Unable to discard this email.');
+      }
+    } catch {
+      setError(action === 'retry' ? 'Unable to retry this email.' : 'Unable to discard this email.');
+    } finally {
+      setBusyId(null);
+      await fetchEmails();
+    }
+  };
+
+  if (emails.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mt-8">
+      <div>
+        <h2 className="text-lg text-neutral-800">Emails that could not be sent</h2>
+        <p className="text-sm text-neutral-500 mt-1">
+          These failed after several attempts. Retry them once the problem is fixed, or discard them.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-primary-600">{error}</p>}
+
+      <ul className="bg-neutral-50 border border-neutral-200 rounded-lg divide-y divide-neutral-200">
+        {emails.map((email) => (
+          <li key={email.id} className="p-4 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-neutral-800">
+                {EMAIL_TYPE_LABELS[email.emailType] ?? email.emailType}
+                {email.toEmail
+                  ? ` to ${email.toName || email.toEmail}`
+                  : email.guestCount !== undefined
+                    ? ` to ${email.guestCount} guest${email.guestCount !== 1 ? 's' : ''}`
+                    : ''}
+              </p>
+              <p className="text-sm text-primary-600 break-words">{email.failedReason}</p>
+              <p className="text-xs text-neutral-400 mt-1">
+                {email.attemptsMade} attempt{email.attemptsMade !== 1 ? 's' : ''}, last on{' '}
+                {new Date(email.failedAt).toLocaleString(undefined, {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                })}
+              </p>
+            </div>
+            <div className="flex gap-3 shrink-0">
+              <button
+                onClick={() => handleAction(email, 'retry')}
+                disabled={busyId === email.id}
+                className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => handleAction(email, 'discard')}
+                disabled={busyId === email.id}
+                className="text-sm text-neutral-500 hover:text-neutral-700 disabled:opacity-50"
+              >
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const SUPPRESSION_REASON_LABELS: Record<EmailSuppressionReason, string> = {
+  hard_bounce: 'Bounced',
+  spam_report: 'Reported as spam',
+  unsubscribed: 'Unsubscribed',
+};
+
+/**
+ * Addresses that bounced, reported spam or unsubscribed. Sends skip them
+ * until the couple un-suppresses the address, e.g. after fixing a typo.
+ */
+function SuppressedAddresses({ weddingId }: { weddingId: string }) {
+  const [suppressions, setSuppressions] = useState<EmailSuppression[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/invitations/suppressions`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data: ApiResponse<EmailSuppression[]> = await response.json();
+      if (data.ok) {
+        setSuppressions(data.data);
+      }
+    } catch {
+      // The statistics above are still useful without this list
+    }
+  }, [weddingId]);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  const handleRemove = async (suppression: EmailSuppression) => {
+    setBusyId(suppression.id);
+    setError(null);
+    try {
+      const token = getAuthToken();
+      const response = await fetch(
+        `/api/weddings/${weddingId}/invitations/suppressions/${encodeURIComponent(suppression.id)}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      const data: ApiResponse<{ success: boolean }> = await response.json();
+      if (!data.ok) {
+        setError('Unable to un-suppress this address.');
+      }
+    } catch {
+      setError('Unable to un-suppress this address.');
+    } finally {
+      setBusyId(null);
+      await fetchSuppressions();
+    }
+  };
+
+  if (suppressions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mt-8">
+      <div>
+        <h2 className="text-lg text-neutral-800">Addresses we no longer email</h2>
+        <p className="text-sm text-neutral-500 mt-1">
+          Bounced and spam-reporting addresses get no email at all; unsubscribed guests still get their
+          invitation and RSVP confirmation. Un-suppress an address once you have fixed it in the guest list.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-primary-600">{error}</p>}
+
+      <ul className="bg-neutral-50 border border-neutral-200 rounded-lg divide-y divide-neutral-200">
+        {suppressions.map((suppression) => (
+          <li key={suppression.id} className="p-4 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-neutral-800 break-all">{suppression.email}</p>
+              <p className="text-sm text-primary-600 break-words">
+                {SUPPRESSION_REASON_LABELS[suppression.reason]}
+                {suppression.detail ? `: ${suppression.detail}` : ''}
+              </p>
+              <p className="text-xs text-neutral-400 mt-1">
+                Since{' '}
+                {new Date(suppression.createdAt).toLocaleString(undefined, {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                })}
+              </p>
+            </div>
+            <button
+              onClick={() => handleRemove(suppression)}
+              disabled={busyId === suppression.id}
+              className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50 shrink-0"
+            >
+              Un-suppress
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 interface StatCardProps {
   label: string;
   value: number;
@@ -198,9 +478,39 @@ function StatCard({ label, value, icon, color }: StatCardProps) {
   );
 }
 
+function RateBar({ label, rate }: { label: string; rate: number }) {
+  return (
+    <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-neutral-600">{label}</span>
+        <span className="text-2xl font-medium text-neutral-800">{rate}%</span>
+      </div>
+      <div className="w-full bg-neutral-200 rounded-full h-2">
+        <div
+          className="bg-primary-500 h-2 rounded-full transition-all duration-500"
+          style={{ width: `${rate}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * "12 min", "3 h", "2 days"
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  if (minutes < 48 * 60) {
+    return `${Math.round(minutes / 60)} h`;
+  }
+  return `${Math.round(minutes / (24 * 60))} days`;
+}
+
 interface TypeBreakdownCardProps {
   title: string;
-  stats: { sent: number; delivered: number; failed: number };
+  stats: EmailTypeStatistics;
 }
 
 function TypeBreakdownCard({ title, stats }: TypeBreakdownCardProps) {
@@ -220,6 +530,30 @@ function TypeBreakdownCard({ title, stats }: TypeBreakdownCardProps) {
           <span className="text-sm text-neutral-500">Failed</span>
           <span className="text-primary-600">{stats.failed}</span>
         </div>
+        {stats.opened > 0 && (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-neutral-500">Opened</span>
+              <span className="text-neutral-800">
+                {stats.opened}
+                {stats.openRate !== undefined && ` (${stats.openRate}%)`}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-neutral-500">Clicked</span>
+              <span className="text-neutral-800">
+                {stats.clicked}
+                {stats.clickRate !== undefined && ` (${stats.clickRate}%)`}
+              </span>
+            </div>
+            {stats.medianMinutesToOpen !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-neutral-500">Typical time to open</span>
+                <span className="text-neutral-800">{formatMinutes(stats.medianMinutesToOpen)}</span>
+              </div>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
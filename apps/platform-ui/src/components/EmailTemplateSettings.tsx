@@ -4,7 +4,15 @@ import type {
   Wedding,
   ApiResponse,
   EmailTemplateContent,
+  EmailTemplateError,
+  EmailTemplateValidationError,
+  EmailTemplateSet,
   EmailTemplatesConfig,
+  Guest,
+  GuestListResponse,
+  LanguageOption,
+  PreviewEmailTemplateResponse,
+  SupportedLanguage,
   UpdateEmailTemplatesResponse,
 } from '../types';
 
@@ -45,6 +53,22 @@ const MERGE_FIELDS = [
   { field: '{{wedding_venue}}', description: 'Venue name' },
   { field: '{{wedding_city}}', description: 'Venue city' },
   { field: '{{rsvp_link}}', description: 'RSVP link (invitation email only)' },
+  { field: '{{rsvp_deadline}}', description: 'RSVP-by date (if you set one)' },
+  { field: '{{table_name}}', description: 'Guest\'s table (once seated)' },
+  { field: '{{meal_choice}}', description: 'Guest\'s meal choice' },
+  { field: '{{plus_one_names}}', description: 'Names of the guest\'s plus-ones' },
+  { field: '{{event_list}}', description: 'Events the guest is invited to' },
+];
+
+const TEMPLATE_BLOCKS = [
+  {
+    example: '{{#if attending}}...{{else}}...{{/if}}',
+    description: 'Show text only to some guests. Works with attending, not_attending, pending or any merge field (shown when it has a value).',
+  },
+  {
+    example: '{{#each events}}{{event_name}}: {{event_date}} at {{event_time}}{{/each}}',
+    description: 'Repeat text for each event the guest is invited to. Inside, use {{event_name}}, {{event_date}}, {{event_time}}, {{event_venue}} and {{event_city}}.',
+  },
 ];
 
 const DEFAULT_TEMPLATES: Record<TemplateType, EmailTemplateContent> = {
@@ -89,12 +113,20 @@ export function EmailTemplateSettings({
   onTemplatesChanged,
 }: EmailTemplateSettingsProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<TemplateType>('invitation');
+  /** Language variant being edited; '' edits the templates every other guest gets */
+  const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage | ''>('');
+  const [languages, setLanguages] = useState<LanguageOption[]>([]);
   const [templates, setTemplates] = useState<EmailTemplatesConfig>({});
   const [initialTemplates, setInitialTemplates] = useState<EmailTemplatesConfig>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<EmailTemplateError[]>([]);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [previewGuestId, setPreviewGuestId] = useState('');
+  const [preview, setPreview] = useState<PreviewEmailTemplateResponse | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const hasChanges = JSON.stringify(templates) !== JSON.stringify(initialTemplates);
 
@@ -132,8 +164,72 @@ export function EmailTemplateSettings({
     loadTemplates();
   }, [wedding.id]);
 
+  useEffect(() => {
+    const loadGuests = async () => {
+      try {
+        const token = getAuthToken();
+        const response = await fetch(`/api/weddings/${wedding.id}/guests`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        const data: ApiResponse<GuestListResponse> = await response.json();
+
+        if (data.ok) {
+          setGuests(data.data.guests);
+          setPreviewGuestId((current) => current || data.data.guests[0]?.id || '');
+        }
+      } catch {
+        // Ignore - previews need a guest, but editing does not
+      }
+    };
+
+    loadGuests();
+  }, [wedding.id]);
+
+  useEffect(() => {
+    const loadLanguages = async () => {
+      try {
+        const response = await fetch('/api/weddings/languages/list');
+        const data: ApiResponse<{ languages: LanguageOption[]; defaultLanguage: string }> = await response.json();
+
+        if (data.ok) {
+          setLanguages(data.data.languages);
+        }
+      } catch {
+        // Ignore - the default templates can still be edited
+      }
+    };
+
+    loadLanguages();
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [selectedTemplate, selectedLanguage]);
+
+  // Templates being edited: the default set, or one language's variants
+  const selectedSet: EmailTemplateSet = selectedLanguage
+    ? templates.byLanguage?.[selectedLanguage] ?? {}
+    : templates;
+
+  const updateSelectedSet = (set: EmailTemplateSet) => {
+    if (!selectedLanguage) {
+      setTemplates({ ...set, byLanguage: templates.byLanguage });
+      return;
+    }
+    const { [selectedLanguage]: removed, ...otherLanguages } = templates.byLanguage ?? {};
+    const byLanguage = Object.keys(set).length > 0 ? { ...otherLanguages, [selectedLanguage]: set } : otherLanguages;
+    setTemplates({ ...templates, byLanguage: Object.keys(byLanguage).length > 0 ? byLanguage : undefined });
+  };
+
+  const isSelectedLanguage = (fieldError: EmailTemplateError) =>
+    (fieldError.language ?? '') === selectedLanguage;
+
   const getCurrentTemplate = (): EmailTemplateContent => {
-    return templates[selectedTemplate] ?? DEFAULT_TEMPLATES[selectedTemplate];
+    // A new language variant starts from the default template, ready to translate
+    return selectedSet[selectedTemplate] ?? templates[selectedTemplate] ?? DEFAULT_TEMPLATES[selectedTemplate];
   };
 
   const updateTemplate = (field: keyof EmailTemplateContent, value: string) => {
@@ -142,16 +238,70 @@ export function EmailTemplateSettings({
       ...current,
       [field]: value,
     };
-    setTemplates({
-      ...templates,
+    updateSelectedSet({
+      ...selectedSet,
       [selectedTemplate]: updated,
     });
+    setFieldErrors(fieldErrors.filter(
+      (fieldError) =>
+        !isSelectedLanguage(fieldError) || fieldError.templateType !== selectedTemplate || fieldError.field !== field,
+    ));
     setSuccessMessage(null);
   };
 
+  const getFieldErrors = (field: keyof EmailTemplateContent): string[] =>
+    fieldErrors
+      .filter((fieldError) =>
+        isSelectedLanguage(fieldError) && fieldError.templateType === selectedTemplate && fieldError.field === field,
+      )
+      .map((fieldError) => fieldError.message);
+
+  const handlePreview = async () => {
+    if (!previewGuestId) return;
+    setIsPreviewing(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/email-templates/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          templateType: selectedTemplate,
+          guestId: previewGuestId,
+          template: selectedSet[selectedTemplate],
+          language: selectedLanguage || undefined,
+        }),
+      });
+
+      const data: ApiResponse<PreviewEmailTemplateResponse> | EmailTemplateValidationError =
+        await response.json();
+
+      if (data.ok) {
+        setPreview(data.data);
+      } else {
+        setPreview(null);
+        if ('errors' in data && data.errors) {
+          setFieldErrors(data.errors);
+        }
+        setError('message' in data && data.message ? data.message : 'Unable to preview this email. Please try again.');
+      }
+    } catch {
+      setError('Unable to preview this email. Please try again.');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const resetToDefault = () => {
-    const { [selectedTemplate]: removed, ...rest } = templates;
-    setTemplates(rest);
+    const { [selectedTemplate]: removed, ...rest } = selectedSet;
+    updateSelectedSet(rest);
+    setFieldErrors(fieldErrors.filter(
+      (fieldError) => !isSelectedLanguage(fieldError) || fieldError.templateType !== selectedTemplate,
+    ));
     setSuccessMessage(null);
   };
 
@@ -173,12 +323,19 @@ export function EmailTemplateSettings({
         }),
       });
 
-      const data: ApiResponse<UpdateEmailTemplatesResponse> = await response.json();
+      const data: ApiResponse<UpdateEmailTemplatesResponse> | EmailTemplateValidationError =
+        await response.json();
 
       if (data.ok) {
         setSuccessMessage('Email templates saved successfully.');
         setInitialTemplates(templates);
+        setFieldErrors([]);
         onTemplatesChanged?.();
+      } else if ('errors' in data && data.errors && data.errors.length > 0) {
+        setFieldErrors(data.errors);
+        setSelectedTemplate(data.errors[0].templateType);
+        setSelectedLanguage(data.errors[0].language ?? '');
+        setError('Some merge tags need fixing before your templates can be saved.');
       } else {
         setError('Unable to save email templates. Please try again.');
       }
@@ -190,7 +347,7 @@ export function EmailTemplateSettings({
   };
 
   const currentTemplate = getCurrentTemplate();
-  const isCustomized = !!templates[selectedTemplate];
+  const isCustomized = !!selectedSet[selectedTemplate];
 
   if (isLoading) {
     return (
@@ -225,6 +382,30 @@ export function EmailTemplateSettings({
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
         {/* Template selector sidebar */}
         <div className="lg:col-span-1">
+          {languages.length > 1 && (
+            <div className="mb-6">
+              <label htmlFor="template-language" className="block text-sm font-medium text-neutral-700 mb-3">
+                Language
+              </label>
+              <select
+                id="template-language"
+                value={selectedLanguage}
+                onChange={(e) => setSelectedLanguage(e.target.value as SupportedLanguage | '')}
+                className="w-full px-4 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">All guests</option>
+                {languages.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.name}{templates.byLanguage?.[language.code] ? ' (customized)' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-neutral-500 mt-2">
+                Guests who read this language get these versions. Emails you don't customize here use the version for all guests.
+              </p>
+            </div>
+          )}
+
           <h3 className="text-sm font-medium text-neutral-700 mb-3">Email type</h3>
           <div className="space-y-2">
             {(Object.keys(TEMPLATE_INFO) as TemplateType[]).map((type) => (
@@ -243,7 +424,7 @@ export function EmailTemplateSettings({
                 <span className="block text-xs text-neutral-500 mt-0.5">
                   {TEMPLATE_INFO[type].description}
                 </span>
-                {templates[type] && (
+                {selectedSet[type] && (
                   <span className="inline-block mt-1 text-xs text-primary-600">
                     Customized
                   </span>
@@ -282,6 +463,9 @@ export function EmailTemplateSettings({
                   className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   placeholder="Email subject"
                 />
+                {getFieldErrors('subject').map((message) => (
+                  <p key={message} className="mt-1 text-sm text-red-600">{message}</p>
+                ))}
               </div>
 
               <div>
@@ -295,6 +479,9 @@ export function EmailTemplateSettings({
                   className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   placeholder="Dear {{guest_name}},"
                 />
+                {getFieldErrors('greeting').map((message) => (
+                  <p key={message} className="mt-1 text-sm text-red-600">{message}</p>
+                ))}
               </div>
 
               <div>
@@ -308,6 +495,9 @@ export function EmailTemplateSettings({
                   className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   placeholder="Your message..."
                 />
+                {getFieldErrors('bodyText').map((message) => (
+                  <p key={message} className="mt-1 text-sm text-red-600">{message}</p>
+                ))}
               </div>
 
               <div>
@@ -321,6 +511,9 @@ export function EmailTemplateSettings({
                   className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   placeholder="With love,&#10;{{partner_names}}"
                 />
+                {getFieldErrors('closing').map((message) => (
+                  <p key={message} className="mt-1 text-sm text-red-600">{message}</p>
+                ))}
               </div>
             </div>
 
@@ -339,6 +532,63 @@ export function EmailTemplateSettings({
                   </div>
                 ))}
               </div>
+              <h4 className="text-sm font-medium text-neutral-700 mt-4 mb-2">
+                Conditions and lists
+              </h4>
+              <div className="space-y-2">
+                {TEMPLATE_BLOCKS.map(({ example, description }) => (
+                  <div key={example} className="text-sm">
+                    <code className="text-primary-600 bg-primary-50 px-1 py-0.5 rounded">
+                      {example}
+                    </code>
+                    <p className="text-neutral-500 mt-0.5">{description}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview against a real guest */}
+            <div className="mt-6">
+              <h4 className="text-sm font-medium text-neutral-700 mb-2">Preview</h4>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={previewGuestId}
+                  onChange={(e) => {
+                    setPreviewGuestId(e.target.value);
+                    setPreview(null);
+                  }}
+                  className="px-4 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  aria-label="Guest to preview"
+                >
+                  {guests.length === 0 && <option value="">Add a guest to preview</option>}
+                  {guests.map((guest) => (
+                    <option key={guest.id} value={guest.id}>
+                      {guest.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handlePreview}
+                  disabled={isPreviewing || !previewGuestId}
+                  className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPreviewing ? 'Rendering...' : 'Preview for this guest'}
+                </button>
+              </div>
+              {preview && (
+                <div className="mt-4 border border-neutral-200 rounded-lg overflow-hidden bg-white">
+                  <div className="px-4 py-2 border-b border-neutral-200 text-sm">
+                    <span className="text-neutral-500">Subject: </span>
+                    <span className="text-neutral-800">{preview.subject}</span>
+                  </div>
+                  <iframe
+                    title="Email preview"
+                    srcDoc={preview.bodyHtml}
+                    sandbox=""
+                    className="w-full h-[480px]"
+                  />
+                </div>
+              )}
             </div>
           </div>
 
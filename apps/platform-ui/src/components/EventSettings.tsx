@@ -1,6 +1,14 @@
 import { useState, useEffect } from 'react';
 import { getAuthToken } from '../lib/auth';
-import type { Wedding, EventDetailsData, WeddingEvent, WeddingEventType, ApiResponse, RenderConfig } from '../types';
+import type {
+  Wedding,
+  EventDetailsData,
+  WeddingEvent,
+  WeddingEventType,
+  ApiResponse,
+  RenderConfig,
+  UpdateTimeZoneResponse,
+} from '../types';
 
 interface EventSettingsProps {
   wedding: Wedding;
@@ -23,6 +31,8 @@ interface EventFormData {
   address: string;
   city: string;
   timezone: string;
+  /** RSVP-by date for this event; empty uses the wedding deadline */
+  rsvpDeadline: string;
 }
 
 const DEFAULT_EVENT: Omit<EventFormData, 'id'> = {
@@ -35,8 +45,30 @@ const DEFAULT_EVENT: Omit<EventFormData, 'id'> = {
   address: '',
   city: '',
   timezone: '',
+  rsvpDeadline: '',
 };
 
+const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern Time (ET)' },
+  { value: 'America/Chicago', label: 'Central Time (CT)' },
+  { value: 'America/Denver', label: 'Mountain Time (MT)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (PT)' },
+  { value: 'America/Phoenix', label: 'Arizona Time' },
+  { value: 'America/Anchorage', label: 'Alaska Time' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii Time' },
+  { value: 'Europe/London', label: 'London (GMT)' },
+  { value: 'Europe/Paris', label: 'Paris (CET)' },
+  { value: 'Asia/Tokyo', label: 'Tokyo (JST)' },
+  { value: 'Australia/Sydney', label: 'Sydney (AEST)' },
+];
+
+// Time zone options, keeping a saved zone that is not in the list
+function getTimeZoneOptions(current: string) {
+  return current && !TIME_ZONE_OPTIONS.some((option) => option.value === current)
+    ? [...TIME_ZONE_OPTIONS, { value: current, label: current }]
+    : TIME_ZONE_OPTIONS;
+}
+
 function createEmptyEvent(type: WeddingEventType): EventFormData {
   return {
     id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -49,6 +81,7 @@ function createEmptyEvent(type: WeddingEventType): EventFormData {
     address: '',
     city: '',
     timezone: '',
+    rsvpDeadline: '',
   };
 }
 
@@ -68,6 +101,19 @@ export function EventSettings({
 
   // Multi-event form state
   const [events, setEvents] = useState<EventFormData[]>([]);
+  const [showLocalTime, setShowLocalTime] = useState(false);
+
+  // Wedding time zone state
+  const [timeZone, setTimeZone] = useState(wedding.timezone || '');
+  const [savedTimeZone, setSavedTimeZone] = useState(wedding.timezone || '');
+  const [isSavingTimeZone, setIsSavingTimeZone] = useState(false);
+  const [timeZoneSuccess, setTimeZoneSuccess] = useState(false);
+  const [timeZoneError, setTimeZoneError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTimeZone(wedding.timezone || '');
+    setSavedTimeZone(wedding.timezone || '');
+  }, [wedding.id, wedding.timezone]);
 
   // Fetch current event details from render_config
   useEffect(() => {
@@ -88,6 +134,7 @@ export function EventSettings({
 
       if (data.ok && data.data.eventDetails) {
         const ed = data.data.eventDetails;
+        setShowLocalTime(ed.showLocalTime === true);
 
         // Check if we have multi-event data
         if (ed.events && ed.events.length > 0) {
@@ -102,6 +149,7 @@ export function EventSettings({
             address: e.address,
             city: e.city,
             timezone: e.timezone || '',
+            rsvpDeadline: e.rsvpDeadline || '',
           })));
         } else {
           // Convert legacy single-event to multi-event format
@@ -116,6 +164,7 @@ export function EventSettings({
             address: ed.address,
             city: ed.city,
             timezone: ed.timezone || '',
+            rsvpDeadline: '',
           }]);
         }
       } else {
@@ -178,6 +227,7 @@ export function EventSettings({
         address: e.address,
         city: e.city,
         ...(e.timezone && { timezone: e.timezone }),
+        ...(e.rsvpDeadline && { rsvpDeadline: e.rsvpDeadline }),
       }));
 
       // Use first event for top-level fields (backwards compatibility)
@@ -190,6 +240,7 @@ export function EventSettings({
         address: primaryEvent.address,
         city: primaryEvent.city,
         ...(primaryEvent.timezone && { timezone: primaryEvent.timezone }),
+        ...(showLocalTime && { showLocalTime }),
         events: weddingEvents,
       };
 
@@ -219,6 +270,39 @@ export function EventSettings({
     }
   };
 
+  const handleSaveTimeZone = async () => {
+    setIsSavingTimeZone(true);
+    setTimeZoneError(null);
+    setTimeZoneSuccess(false);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/timezone`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ timezone: timeZone }),
+      });
+
+      const data: ApiResponse<UpdateTimeZoneResponse> = await response.json();
+
+      if (data.ok) {
+        setSavedTimeZone(timeZone);
+        setTimeZoneSuccess(true);
+        onEventDetailsChanged();
+        setTimeout(() => setTimeZoneSuccess(false), 3000);
+      } else {
+        setTimeZoneError('error' in data ? data.error : 'Failed to save time zone');
+      }
+    } catch {
+      setTimeZoneError('Failed to save time zone');
+    } finally {
+      setIsSavingTimeZone(false);
+    }
+  };
+
   const isEventValid = (event: EventFormData) =>
     event.date && event.startTime && event.endTime && event.venue && event.address && event.city;
 
@@ -246,12 +330,49 @@ export function EventSettings({
       </div>
 
       <div className="space-y-8">
+        {/* Wedding time zone */}
+        <div className="border border-neutral-200 rounded-lg p-6 bg-neutral-50">
+          <label className="block text-lg font-medium text-neutral-800 mb-1">
+            Wedding time zone
+          </label>
+          <p className="text-sm text-neutral-500 mb-4">
+            Event times, RSVP deadlines and scheduled emails are all in this time zone,
+            so guests abroad see the same times you do.
+          </p>
+          <div className="flex gap-3">
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="flex-1 px-4 py-3 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-neutral-50"
+            >
+              <option value="">Select time zone...</option>
+              {getTimeZoneOptions(timeZone).map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSaveTimeZone}
+              disabled={isSavingTimeZone || !timeZone || timeZone === savedTimeZone}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingTimeZone ? 'Saving...' : 'Save time zone'}
+            </button>
+          </div>
+          {timeZoneError && (
+            <p className="text-sm text-red-600 mt-2">{timeZoneError}</p>
+          )}
+          {timeZoneSuccess && (
+            <p className="text-sm text-green-600 mt-2">Time zone saved</p>
+          )}
+        </div>
+
         {events.map((event, index) => (
           <EventCard
             key={event.id}
             event={event}
             index={index}
             canRemove={events.length > 1}
+            showRsvpDeadline={events.length > 1 && wedding.features.RSVP}
             onRemove={() => removeEvent(index)}
             onChange={(field, value) => handleEventChange(index, field, value)}
           />
@@ -268,6 +389,22 @@ export function EventSettings({
           </button>
         )}
 
+        {/* Visitor time hint */}
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={showLocalTime}
+            onChange={(e) => setShowLocalTime(e.target.checked)}
+            className="mt-1 w-4 h-4 rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-neutral-700">Show guests their local time</span>
+            <span className="block text-sm text-neutral-500">
+              Guests in another time zone also see each event time on their own clock
+            </span>
+          </span>
+        </label>
+
         {/* Error message */}
         {error && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
@@ -295,7 +432,7 @@ export function EventSettings({
 
         {!isValid && (
           <p className="text-sm text-neutral-500">
-            All fields except timezone are required for each event
+            All fields except time zone are required for each event
           </p>
         )}
       </div>
@@ -307,11 +444,12 @@ interface EventCardProps {
   event: EventFormData;
   index: number;
   canRemove: boolean;
+  showRsvpDeadline: boolean;
   onRemove: () => void;
   onChange: (field: keyof EventFormData, value: string) => void;
 }
 
-function EventCard({ event, index, canRemove, onRemove, onChange }: EventCardProps) {
+function EventCard({ event, index, canRemove, showRsvpDeadline, onRemove, onChange }: EventCardProps) {
   const typeLabel = event.type === 'ceremony' ? 'Ceremony' : event.type === 'reception' ? 'Reception' : 'Event';
 
   return (
@@ -430,33 +568,43 @@ function EventCard({ event, index, canRemove, onRemove, onChange }: EventCardPro
           />
         </div>
 
-        {/* Timezone (optional) */}
+        {/* Time zone (optional) */}
         <div>
           <label className="block text-sm font-medium text-neutral-700 mb-1">
-            Timezone (optional)
+            Time zone (optional)
           </label>
           <select
             value={event.timezone}
             onChange={(e) => onChange('timezone', e.target.value)}
             className="w-full px-4 py-3 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-neutral-50"
           >
-            <option value="">Select timezone...</option>
-            <option value="America/New_York">Eastern Time (ET)</option>
-            <option value="America/Chicago">Central Time (CT)</option>
-            <option value="America/Denver">Mountain Time (MT)</option>
-            <option value="America/Los_Angeles">Pacific Time (PT)</option>
-            <option value="America/Phoenix">Arizona Time</option>
-            <option value="America/Anchorage">Alaska Time</option>
-            <option value="Pacific/Honolulu">Hawaii Time</option>
-            <option value="Europe/London">London (GMT)</option>
-            <option value="Europe/Paris">Paris (CET)</option>
-            <option value="Asia/Tokyo">Tokyo (JST)</option>
-            <option value="Australia/Sydney">Sydney (AEST)</option>
+            <option value="">Same as wedding</option>
+            {getTimeZoneOptions(event.timezone).map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
           </select>
           <p className="text-sm text-neutral-500 mt-1">
-            Used for calendar invite timezone display
+            Only needed when this event is in a different time zone from the wedding
           </p>
         </div>
+
+        {/* Per-event RSVP deadline (optional) */}
+        {showRsvpDeadline && (
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">
+              RSVP by (optional)
+            </label>
+            <input
+              type="date"
+              value={event.rsvpDeadline}
+              onChange={(e) => onChange('rsvpDeadline', e.target.value)}
+              className="w-full px-4 py-3 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-neutral-50"
+            />
+            <p className="text-sm text-neutral-500 mt-1">
+              Leave empty to use your RSVP deadline for the whole wedding
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
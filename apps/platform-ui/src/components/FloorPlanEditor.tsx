@@ -0,0 +1,676 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  ApiResponse,
+  FloorPlanLayout,
+  FloorPlanPlacement,
+  FloorPlanTableLayout,
+  SeatingOverviewResponse,
+  SeatingSeat,
+  SeatingTableShape,
+  VenueFixture,
+  VenueFixtureKind,
+} from '../types';
+
+interface FloorPlanEditorProps {
+  weddingId: string;
+  /** Event whose seating chart is laid out; omit for the main chart */
+  eventId?: string;
+  overview: SeatingOverviewResponse;
+  onSaved: () => void | Promise<void>;
+  onClose: () => void;
+}
+
+type Selection = { type: 'table' | 'fixture'; id: string };
+
+/** Footprint a table gets when it is placed or its shape changes */
+const DEFAULT_TABLE_SIZE: Record<SeatingTableShape, { width: number; height: number }> = {
+  round: { width: 80, height: 80 },
+  rectangle: { width: 160, height: 70 },
+  head: { width: 240, height: 60 },
+};
+
+const SHAPE_LABELS: Record<SeatingTableShape, string> = {
+  round: 'Round',
+  rectangle: 'Rectangular',
+  head: 'Head table',
+};
+
+const FIXTURE_DEFAULTS: Record<VenueFixtureKind, { label: string; width: number; height: number }> = {
+  dance_floor: { label: 'Dance floor', width: 200, height: 200 },
+  stage: { label: 'Stage', width: 240, height: 100 },
+  bar: { label: 'Bar', width: 160, height: 50 },
+  other: { label: 'Other', width: 100, height: 100 },
+};
+
+/** Distance between a table's edge and the center of its seats */
+const SEAT_OFFSET = 14;
+
+const inputClassName =
+  'w-full px-3 py-2 border border-neutral-dark/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50';
+
+/**
+ * Lay out one seat per place around a table: evenly around a round table,
+ * along both long sides of a rectangle, and along the back of a head table
+ */
+function generateSeats(shape: SeatingTableShape, count: number, width: number, height: number): SeatingSeat[] {
+  const spread = (n: number, length: number) =>
+    Array.from({ length: n }, (_, i) => ((i + 1) * length) / (n + 1) - length / 2);
+
+  if (shape === 'round') {
+    const radius = width / 2 + SEAT_OFFSET;
+    return Array.from({ length: count }, (_, i) => {
+      const angle = (2 * Math.PI * i) / count;
+      return { number: i + 1, x: Math.round(radius * Math.sin(angle)), y: Math.round(-radius * Math.cos(angle)) };
+    });
+  }
+
+  const edge = height / 2 + SEAT_OFFSET;
+  if (shape === 'head') {
+    return spread(count, width).map((x, i) => ({ number: i + 1, x: Math.round(x), y: -edge }));
+  }
+
+  const top = Math.ceil(count / 2);
+  return [
+    ...spread(top, width).map((x) => ({ x: Math.round(x), y: -edge })),
+    ...spread(count - top, width).map((x) => ({ x: Math.round(x), y: edge })),
+  ].map((seat, i) => ({ number: i + 1, ...seat }));
+}
+
+/**
+ * Floor plan editor for the seating chart.
+ * Tables and venue fixtures are dragged onto a scaled drawing of the room and
+ * moved around on it; the whole layout is saved at once.
+ */
+export function FloorPlanEditor({ weddingId, eventId, overview, onSaved, onClose }: FloorPlanEditorProps) {
+  const chartQuery = eventId ? `?eventId=${encodeURIComponent(eventId)}` : '';
+  const [layout, setLayout] = useState<FloorPlanLayout | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [dragging, setDragging] = useState<(Selection & { dx: number; dy: number }) | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const fetchLayout = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/seating/layout${chartQuery}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: ApiResponse<FloorPlanLayout> = await response.json();
+
+      if (data.ok) {
+        setLayout(data.data);
+        setHasChanges(false);
+      } else {
+        setError('Unable to load the floor plan');
+      }
+    } catch {
+      setError('Unable to load the floor plan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId, chartQuery]);
+
+  useEffect(() => {
+    fetchLayout();
+  }, [fetchLayout]);
+
+  // Keep the tray in step with tables added or deleted while the editor is open
+  useEffect(() => {
+    setLayout((current) => {
+      if (!current) return current;
+      const known = new Map(current.tables.map((t) => [t.tableId, t]));
+      return {
+        ...current,
+        tables: overview.tables.map(
+          ({ table }) =>
+            known.get(table.id) ?? {
+              tableId: table.id,
+              shape: table.shape,
+              width: table.width,
+              height: table.height,
+              placement: table.placement,
+              seats: table.seats,
+            },
+        ),
+      };
+    });
+  }, [overview]);
+
+  const updateLayout = (update: (current: FloorPlanLayout) => FloorPlanLayout) => {
+    setLayout((current) => (current ? update(current) : current));
+    setHasChanges(true);
+  };
+
+  const updateTable = (tableId: string, changes: Partial<FloorPlanTableLayout>) =>
+    updateLayout((current) => ({
+      ...current,
+      tables: current.tables.map((t) => (t.tableId === tableId ? { ...t, ...changes } : t)),
+    }));
+
+  const updateFixture = (fixtureId: string, changes: Partial<VenueFixture>) =>
+    updateLayout((current) => ({
+      ...current,
+      fixtures: current.fixtures.map((f) => (f.id === fixtureId ? { ...f, ...changes } : f)),
+    }));
+
+  /**
+   * Convert a pointer position to room coordinates, clamped to the room
+   */
+  const toRoomPoint = (clientX: number, clientY: number) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm || !layout) return null;
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return {
+      x: Math.round(Math.min(Math.max(point.x, 0), layout.room.width)),
+      y: Math.round(Math.min(Math.max(point.y, 0), layout.room.height)),
+    };
+  };
+
+  const placementOf = (target: Selection): FloorPlanPlacement | undefined =>
+    target.type === 'table'
+      ? layout?.tables.find((t) => t.tableId === target.id)?.placement
+      : layout?.fixtures.find((f) => f.id === target.id)?.placement;
+
+  const movePlacement = (target: Selection, x: number, y: number) => {
+    const rotation = placementOf(target)?.rotation ?? 0;
+    if (target.type === 'table') {
+      updateTable(target.id, { placement: { x, y, rotation } });
+    } else {
+      updateFixture(target.id, { placement: { x, y, rotation } });
+    }
+  };
+
+  // Dropping from the tray: an unplaced table or a new fixture
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const point = toRoomPoint(e.clientX, e.clientY);
+    if (!point) return;
+
+    const tableId = e.dataTransfer.getData('application/x-seating-table');
+    const fixtureKind = e.dataTransfer.getData('application/x-venue-fixture') as VenueFixtureKind;
+
+    if (tableId) {
+      movePlacement({ type: 'table', id: tableId }, point.x, point.y);
+      setSelection({ type: 'table', id: tableId });
+    } else if (fixtureKind in FIXTURE_DEFAULTS) {
+      const defaults = FIXTURE_DEFAULTS[fixtureKind];
+      const fixture: VenueFixture = {
+        id: crypto.randomUUID(),
+        kind: fixtureKind,
+        label: defaults.label,
+        width: defaults.width,
+        height: defaults.height,
+        placement: { ...point, rotation: 0 },
+      };
+      updateLayout((current) => ({ ...current, fixtures: [...current.fixtures, fixture] }));
+      setSelection({ type: 'fixture', id: fixture.id });
+    }
+  };
+
+  // Moving something already on the floor plan
+  const handlePointerDown = (e: React.PointerEvent, target: Selection) => {
+    e.stopPropagation();
+    const point = toRoomPoint(e.clientX, e.clientY);
+    const placement = placementOf(target);
+    if (!point || !placement) return;
+    setSelection(target);
+    setDragging({ ...target, dx: placement.x - point.x, dy: placement.y - point.y });
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging || !layout) return;
+    const point = toRoomPoint(e.clientX, e.clientY);
+    if (!point) return;
+    movePlacement(
+      dragging,
+      Math.min(Math.max(point.x + dragging.dx, 0), layout.room.width),
+      Math.min(Math.max(point.y + dragging.dy, 0), layout.room.height),
+    );
+  };
+
+  const handleSave = async () => {
+    if (!layout) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/seating/layout${chartQuery}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(layout),
+      });
+      const data: ApiResponse<FloorPlanLayout> = await response.json();
+
+      if (data.ok) {
+        setLayout(data.data);
+        setHasChanges(false);
+        await onSaved();
+      } else {
+        setError('Unable to save the floor plan. Check that everything fits inside the room.');
+      }
+    } catch {
+      setError('Unable to save the floor plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssignSeat = async (guestId: string, seatNumber: number | null) => {
+    setError(null);
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/seating/assignments/${guestId}/seat${chartQuery}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ seatNumber }),
+      });
+      const data = await response.json();
+
+      if (data.ok) {
+        await onSaved();
+      } else {
+        setError(data.error === 'SEAT_TAKEN' ? 'Another guest is already in that seat' : 'Unable to assign the seat');
+      }
+    } catch {
+      setError('Unable to assign the seat');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-neutral-50 rounded-lg p-6 text-center text-neutral-dark/60">
+        Loading floor plan...
+      </div>
+    );
+  }
+
+  if (!layout) {
+    return (
+      <div className="bg-neutral-50 rounded-lg p-6 text-center text-primary">
+        {error ?? 'Unable to load the floor plan'}
+      </div>
+    );
+  }
+
+  const tableInfo = new Map(overview.tables.map((entry) => [entry.table.id, entry]));
+  const unplacedTables = layout.tables.filter((t) => !t.placement);
+  const selectedTable =
+    selection?.type === 'table' ? layout.tables.find((t) => t.tableId === selection.id) : undefined;
+  const selectedFixture =
+    selection?.type === 'fixture' ? layout.fixtures.find((f) => f.id === selection.id) : undefined;
+  const selectedTableInfo = selectedTable ? tableInfo.get(selectedTable.tableId) : undefined;
+
+  return (
+    <div className="bg-neutral-50 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-serif text-lg text-neutral-dark">Floor plan</h3>
+          <p className="text-sm text-neutral-dark/60">
+            Drag tables and fixtures into the room. Guests see the layout on your site, without names.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-neutral-dark/60 hover:text-neutral-dark transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !hasChanges}
+            className="px-4 py-2 bg-primary text-neutral-50 rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save floor plan'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 text-primary">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        {/* Tray: room size, unplaced tables and fixtures */}
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm text-neutral-dark/60 mb-1">Room size</p>
+            <div className="flex gap-2">
+              {(['width', 'height'] as const).map((side) => (
+                <input
+                  key={side}
+                  type="number"
+                  min={100}
+                  max={10000}
+                  value={layout.room[side]}
+                  onChange={(e) =>
+                    updateLayout((current) => ({
+                      ...current,
+                      room: { ...current.room, [side]: parseInt(e.target.value) || 100 },
+                    }))
+                  }
+                  className={inputClassName}
+                  title={side === 'width' ? 'Room width' : 'Room height'}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-neutral-dark/60 mb-1">Tables to place</p>
+            {unplacedTables.length === 0 ? (
+              <p className="text-sm text-neutral-dark/40">All tables are on the floor plan.</p>
+            ) : (
+              <div className="space-y-2">
+                {unplacedTables.map((t) => (
+                  <div
+                    key={t.tableId}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('application/x-seating-table', t.tableId)}
+                    className="px-3 py-2 bg-white border border-neutral-dark/20 rounded-lg cursor-grab text-neutral-dark"
+                  >
+                    {tableInfo.get(t.tableId)?.table.name}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm text-neutral-dark/60 mb-1">Venue fixtures</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(FIXTURE_DEFAULTS) as VenueFixtureKind[]).map((kind) => (
+                <div
+                  key={kind}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('application/x-venue-fixture', kind)}
+                  className="px-3 py-1 bg-white border border-neutral-dark/20 rounded-full text-sm cursor-grab text-neutral-dark"
+                >
+                  {FIXTURE_DEFAULTS[kind].label}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Canvas */}
+        <div className="lg:col-span-2">
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${layout.room.width} ${layout.room.height}`}
+            className="w-full bg-white border border-neutral-dark/20 rounded-lg touch-none select-none"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerDown={() => setSelection(null)}
+          >
+            {layout.fixtures.map((fixture) => (
+              <g
+                key={fixture.id}
+                transform={`translate(${fixture.placement.x} ${fixture.placement.y}) rotate(${fixture.placement.rotation})`}
+                onPointerDown={(e) => handlePointerDown(e, { type: 'fixture', id: fixture.id })}
+                className="cursor-move"
+              >
+                <rect
+                  x={-fixture.width / 2}
+                  y={-fixture.height / 2}
+                  width={fixture.width}
+                  height={fixture.height}
+                  className={`fill-neutral-dark/5 ${selection?.id === fixture.id ? 'stroke-primary' : 'stroke-neutral-dark/30'}`}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                />
+                <text textAnchor="middle" dominantBaseline="middle" className="fill-neutral-dark/60 text-[14px]">
+                  {fixture.label ?? FIXTURE_DEFAULTS[fixture.kind].label}
+                </text>
+              </g>
+            ))}
+
+            {layout.tables.map((t) => {
+              if (!t.placement) return null;
+              const info = tableInfo.get(t.tableId);
+              const isSelected = selection?.id === t.tableId;
+              return (
+                <g
+                  key={t.tableId}
+                  transform={`translate(${t.placement.x} ${t.placement.y}) rotate(${t.placement.rotation})`}
+                  onPointerDown={(e) => handlePointerDown(e, { type: 'table', id: t.tableId })}
+                  className="cursor-move"
+                >
+                  {t.shape === 'round' ? (
+                    <circle
+                      r={t.width / 2}
+                      className={`fill-accent/20 ${isSelected ? 'stroke-primary' : 'stroke-accent'}`}
+                      strokeWidth={2}
+                    />
+                  ) : (
+                    <rect
+                      x={-t.width / 2}
+                      y={-t.height / 2}
+                      width={t.width}
+                      height={t.height}
+                      rx={4}
+                      className={`fill-accent/20 ${isSelected ? 'stroke-primary' : 'stroke-accent'}`}
+                      strokeWidth={2}
+                    />
+                  )}
+                  {t.seats.map((seat) => {
+                    const guest = info?.guests.find((g) => g.seatNumber === seat.number);
+                    return (
+                      <circle
+                        key={seat.number}
+                        cx={seat.x}
+                        cy={seat.y}
+                        r={8}
+                        className={guest ? 'fill-accent' : 'fill-white stroke-accent'}
+                        strokeWidth={1.5}
+                      >
+                        <title>{`${seat.label ?? `Seat ${seat.number}`}${guest ? `: ${guest.name}` : ''}`}</title>
+                      </circle>
+                    );
+                  })}
+                  <text textAnchor="middle" dominantBaseline="middle" className="fill-neutral-dark text-[13px]">
+                    {info?.table.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+
+        {/* Selection panel */}
+        <div className="space-y-3">
+          {selectedTable && selectedTableInfo && (
+            <>
+              <h4 className="font-serif text-neutral-dark">{selectedTableInfo.table.name}</h4>
+              <div>
+                <label className="block text-sm text-neutral-dark/60 mb-1">Shape</label>
+                <select
+                  value={selectedTable.shape}
+                  onChange={(e) => {
+                    const shape = e.target.value as SeatingTableShape;
+                    updateTable(selectedTable.tableId, { shape, ...DEFAULT_TABLE_SIZE[shape], seats: [] });
+                  }}
+                  className={inputClassName}
+                >
+                  {(Object.keys(SHAPE_LABELS) as SeatingTableShape[]).map((shape) => (
+                    <option key={shape} value={shape}>{SHAPE_LABELS[shape]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-dark/60 mb-1">Rotation (degrees)</label>
+                <input
+                  type="number"
+                  value={selectedTable.placement?.rotation ?? 0}
+                  onChange={(e) =>
+                    selectedTable.placement &&
+                    updateTable(selectedTable.tableId, {
+                      placement: { ...selectedTable.placement, rotation: parseInt(e.target.value) || 0 },
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() =>
+                    updateTable(selectedTable.tableId, {
+                      seats: generateSeats(
+                        selectedTable.shape,
+                        selectedTableInfo.table.capacity,
+                        selectedTable.width,
+                        selectedTable.height,
+                      ),
+                    })
+                  }
+                  className="px-3 py-2 border border-neutral-dark/20 text-neutral-dark rounded-lg hover:bg-neutral-100 transition-colors text-sm"
+                >
+                  {selectedTable.seats.length > 0 ? 'Reset seats' : 'Add seats'}
+                </button>
+                <button
+                  onClick={() => {
+                    updateTable(selectedTable.tableId, { placement: undefined });
+                    setSelection(null);
+                  }}
+                  className="px-3 py-2 text-neutral-dark/60 hover:text-primary transition-colors text-sm"
+                >
+                  Remove from floor plan
+                </button>
+              </div>
+
+              {selectedTable.seats.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-neutral-dark/60">Seat names</p>
+                  {selectedTable.seats.map((seat) => (
+                    <input
+                      key={seat.number}
+                      type="text"
+                      value={seat.label ?? ''}
+                      placeholder={`Seat ${seat.number}`}
+                      maxLength={40}
+                      onChange={(e) =>
+                        updateTable(selectedTable.tableId, {
+                          seats: selectedTable.seats.map((s) =>
+                            s.number === seat.number ? { ...s, label: e.target.value || undefined } : s,
+                          ),
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {selectedTable.seats.length > 0 && selectedTableInfo.guests.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-neutral-dark/60">
+                    {hasChanges ? 'Save the floor plan to seat guests' : 'Guests at this table'}
+                  </p>
+                  {selectedTableInfo.guests.map((guest) => (
+                    <div key={guest.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-neutral-dark">{guest.name}</span>
+                      <select
+                        value={guest.seatNumber ?? ''}
+                        disabled={hasChanges}
+                        onChange={(e) =>
+                          handleAssignSeat(guest.id, e.target.value ? parseInt(e.target.value) : null)
+                        }
+                        className="px-2 py-1 border border-neutral-dark/20 rounded-lg text-sm disabled:opacity-50"
+                      >
+                        <option value="">No seat</option>
+                        {selectedTable.seats.map((seat) => (
+                          <option key={seat.number} value={seat.number}>
+                            {seat.label ?? `Seat ${seat.number}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {selectedFixture && (
+            <>
+              <h4 className="font-serif text-neutral-dark">{FIXTURE_DEFAULTS[selectedFixture.kind].label}</h4>
+              <div>
+                <label className="block text-sm text-neutral-dark/60 mb-1">Label</label>
+                <input
+                  type="text"
+                  value={selectedFixture.label ?? ''}
+                  maxLength={40}
+                  onChange={(e) => updateFixture(selectedFixture.id, { label: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {(['width', 'height'] as const).map((side) => (
+                  <div key={side}>
+                    <label className="block text-sm text-neutral-dark/60 mb-1">
+                      {side === 'width' ? 'Width' : 'Depth'}
+                    </label>
+                    <input
+                      type="number"
+                      min={10}
+                      value={selectedFixture[side]}
+                      onChange={(e) => updateFixture(selectedFixture.id, { [side]: parseInt(e.target.value) || 10 })}
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-dark/60 mb-1">Rotation (degrees)</label>
+                <input
+                  type="number"
+                  value={selectedFixture.placement.rotation}
+                  onChange={(e) =>
+                    updateFixture(selectedFixture.id, {
+                      placement: { ...selectedFixture.placement, rotation: parseInt(e.target.value) || 0 },
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                onClick={() => {
+                  updateLayout((current) => ({
+                    ...current,
+                    fixtures: current.fixtures.filter((f) => f.id !== selectedFixture.id),
+                  }));
+                  setSelection(null);
+                }}
+                className="px-3 py-2 text-neutral-dark/60 hover:text-primary transition-colors text-sm"
+              >
+                Remove fixture
+              </button>
+            </>
+          )}
+
+          {!selection && (
+            <p className="text-sm text-neutral-dark/40">
+              Select a table or fixture to change its shape, seats or rotation.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
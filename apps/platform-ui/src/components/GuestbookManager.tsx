@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { getAuthToken } from '../lib/auth';
+import { useInfiniteScroll } from '../lib/useInfiniteScroll';
 import type {
   GuestbookMessage,
   GuestbookMessagesResponse,
@@ -11,38 +12,63 @@ interface GuestbookManagerProps {
   weddingId: string;
 }
 
+type MessageFilter = 'all' | 'pending' | 'approved' | 'rejected';
+
+const PAGE_SIZE = 50;
+
 /**
  * Guestbook management component for admin dashboard.
  * PRD: "Admin can moderate guestbook messages"
  */
 export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
   const [messages, setMessages] = useState<GuestbookMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
   const [summary, setSummary] = useState<GuestbookSummaryResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('all');
+  const [filter, setFilter] = useState<MessageFilter>('all');
   const [moderating, setModerating] = useState<string | null>(null);
+  // Ignore pages that arrive after the filter changed or the list was reloaded
+  const listVersion = useRef(0);
+
+  /**
+   * Fetch one page of messages for the current filter.
+   * Without a cursor the list is replaced; with one the page is appended.
+   */
+  const fetchMessages = useCallback(async (cursor?: string) => {
+    const version = cursor ? listVersion.current : ++listVersion.current;
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (filter !== 'all') {
+      params.set('status', filter);
+    }
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
 
-  const fetchMessages = useCallback(async () => {
     try {
       const token = getAuthToken();
-      const response = await fetch(`/api/weddings/${weddingId}/guestbook/messages`, {
+      const response = await fetch(`/api/weddings/${weddingId}/guestbook/messages?${params}`, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
       });
 
       const data: ApiResponse<GuestbookMessagesResponse> = await response.json();
+      if (version !== listVersion.current) {
+        return;
+      }
 
       if (data.ok) {
-        setMessages(data.data.messages);
+        setMessages((prev) => (cursor ? [...prev, ...data.data.messages] : data.data.messages));
+        setNextCursor(data.data.nextCursor);
       } else {
         setError('Unable to load guestbook messages');
       }
     } catch {
       setError('Unable to load guestbook messages');
     }
-  }, [weddingId]);
+  }, [weddingId, filter]);
 
   const fetchSummary = useCallback(async () => {
     try {
@@ -74,6 +100,17 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
     fetchAll();
   }, [fetchAll]);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+    setIsLoadingMore(true);
+    await fetchMessages(nextCursor);
+    setIsLoadingMore(false);
+  }, [nextCursor, isLoadingMore, fetchMessages]);
+
+  const sentinelRef = useInfiniteScroll(loadMore, !!nextCursor && !isLoadingMore);
+
   const handleModerate = async (messageId: string, status: 'approved' | 'rejected') => {
     setModerating(messageId);
     try {
@@ -90,11 +127,17 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
         },
       );
 
-      const data = await response.json();
+      const data: ApiResponse<{ message: GuestbookMessage }> = await response.json();
 
       if (data.ok) {
-        // Refresh messages and summary
-        await fetchAll();
+        // Update in place so the loaded pages and scroll position are kept
+        const updated = data.data.message;
+        setMessages((prev) =>
+          filter === 'all'
+            ? prev.map((m) => (m.id === updated.id ? updated : m))
+            : prev.filter((m) => m.id !== updated.id),
+        );
+        await fetchSummary();
       } else {
         setError('Unable to moderate message');
       }
@@ -125,7 +168,8 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
       const data = await response.json();
 
       if (data.ok) {
-        await fetchAll();
+        setMessages((prev) => prev.filter((m) => m.id !== messageId));
+        await fetchSummary();
       } else {
         setError('Unable to delete message');
       }
@@ -134,11 +178,6 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
     }
   };
 
-  const filteredMessages = messages.filter((m) => {
-    if (filter === 'all') return true;
-    return m.status === filter;
-  });
-
   if (isLoading) {
     return (
       <div className="text-center py-16">
@@ -213,7 +252,7 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
       </div>
 
       {/* Messages list */}
-      {filteredMessages.length === 0 ? (
+      {messages.length === 0 ? (
         <div className="text-center py-12 bg-neutral-50 border border-neutral-200 rounded-lg">
           <MessageIcon className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
           <h3 className="text-lg text-neutral-700 mb-2">
@@ -227,7 +266,7 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredMessages.map((message) => (
+          {messages.map((message) => (
             <MessageCard
               key={message.id}
               message={message}
@@ -237,6 +276,22 @@ export function GuestbookManager({ weddingId }: GuestbookManagerProps) {
               isModerating={moderating === message.id}
             />
           ))}
+
+          {/* Next page loads when this scrolls into view */}
+          {nextCursor && (
+            <div ref={sentinelRef} className="py-4 text-center">
+              {isLoadingMore ? (
+                <div className="w-6 h-6 border-2 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto" />
+              ) : (
+                <button
+                  onClick={loadMore}
+                  className="text-sm text-neutral-500 hover:text-neutral-700"
+                >
+                  Load more messages
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -9,14 +9,21 @@ import type {
   CsvImportResponse,
   CsvImportRowResult,
   SendInvitationsResponse,
-  SendInvitationResult,
   GuestTag,
   TagListResponse,
   EmailOutbox,
   EmailOutboxResponse,
   EmailStatus,
+  Household,
+  HouseholdListResponse,
+  CreateHouseholdRequest,
+  LanguageOption,
+  SupportedLanguage,
+  CalendarFeedResponse,
 } from '../types';
 import { getAuthToken } from '../lib/auth';
+import { useCampaignProgress } from '../lib/useCampaignProgress';
+import { useSegments, fetchSegmentGuestIds } from '../lib/useSegments';
 
 interface GuestsProps {
   weddingId: string;
@@ -34,6 +41,8 @@ interface EmailStatusInfo {
   type: string;
   bounceType?: 'hard' | 'soft';
   bounceReason?: string;
+  /** First open, when SendGrid tracking reported one */
+  openedAt?: string;
 }
 
 /**
@@ -54,12 +63,42 @@ function getLatestEmailStatus(guestId: string, emailOutbox: EmailOutbox[]): Emai
     type: latest.emailType,
     bounceType: latest.bounceType,
     bounceReason: latest.bounceReason,
+    openedAt: latest.openedAt,
   };
 }
 
+/**
+ * Guests who opened their invitation but haven't RSVP'd yet: the ones to nudge.
+ * Household members count when their household contact opened the shared invitation.
+ */
+function getOpenedWithoutRsvp(
+  guests: Guest[],
+  households: Household[],
+  emailOutbox: EmailOutbox[],
+): Set<string> {
+  const openedGuestIds = new Set(
+    emailOutbox
+      .filter((e) => e.emailType === 'invitation' && e.openedAt)
+      .map((e) => e.guestId),
+  );
+  const openedHouseholdIds = new Set(
+    households
+      .filter((h) => h.primaryGuestId && openedGuestIds.has(h.primaryGuestId))
+      .map((h) => h.id),
+  );
+
+  return new Set(
+    guests
+      .filter((g) => g.rsvpStatus === 'pending')
+      .filter((g) => openedGuestIds.has(g.id) || (g.householdId && openedHouseholdIds.has(g.householdId)))
+      .map((g) => g.id),
+  );
+}
+
 export function Guests({ weddingId }: GuestsProps) {
   const [guests, setGuests] = useState<Guest[]>([]);
   const [tags, setTags] = useState<GuestTag[]>([]);
+  const [households, setHouseholds] = useState<Household[]>([]);
   const [emailOutbox, setEmailOutbox] = useState<EmailOutbox[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -69,7 +108,12 @@ export function Guests({ weddingId }: GuestsProps) {
   const [showSendInvites, setShowSendInvites] = useState(false);
   const [showTagManager, setShowTagManager] = useState(false);
   const [filterTagIds, setFilterTagIds] = useState<string[]>([]);
+  const [showOpenedNoRsvp, setShowOpenedNoRsvp] = useState(false);
+  const [filterSegmentId, setFilterSegmentId] = useState('');
+  const [segmentGuestIds, setSegmentGuestIds] = useState<Set<string>>(new Set());
+  const { segments } = useSegments(weddingId);
   const [showAssignTags, setShowAssignTags] = useState(false);
+  const [showGroupHousehold, setShowGroupHousehold] = useState(false);
   const [editingGuest, setEditingGuest] = useState<Guest | null>(null);
   const [showActionsMenu, setShowActionsMenu] = useState(false);
   const actionsMenuRef = useRef<HTMLDivElement | null>(null);
@@ -105,6 +149,21 @@ export function Guests({ weddingId }: GuestsProps) {
     }
   }, [weddingId]);
 
+  const fetchHouseholds = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/households`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: ApiResponse<HouseholdListResponse> = await response.json();
+      if (data.ok) {
+        setHouseholds(data.data.households);
+      }
+    } catch {
+      // Silently fail, households are optional
+    }
+  }, [weddingId]);
+
   const fetchGuests = useCallback(async () => {
     setIsLoading(true);
     setError(null);
@@ -133,8 +192,9 @@ export function Guests({ weddingId }: GuestsProps) {
   useEffect(() => {
     fetchGuests();
     fetchTags();
+    fetchHouseholds();
     fetchEmailOutbox();
-  }, [fetchGuests, fetchTags, fetchEmailOutbox]);
+  }, [fetchGuests, fetchTags, fetchHouseholds, fetchEmailOutbox]);
 
   useEffect(() => {
     if (!showActionsMenu) return;
@@ -165,6 +225,9 @@ export function Guests({ weddingId }: GuestsProps) {
   const handleGuestAdded = (newGuest: Guest) => {
     setGuests((prev) => [...prev, newGuest].sort((a, b) => a.name.localeCompare(b.name)));
     setShowAddForm(false);
+    if (newGuest.householdId) {
+      fetchHouseholds(); // Refresh member lists
+    }
   };
 
   const handleGuestDeleted = (guestId: string) => {
@@ -195,7 +258,7 @@ export function Guests({ weddingId }: GuestsProps) {
 
   const handleSelectAll = () => {
     // When filtering, select/deselect only the visible (filtered) guests
-    const targetGuests = filterTagIds.length > 0 ? filteredGuests : guests;
+    const targetGuests = isFiltering ? filteredGuests : guests;
     const allVisibleSelected = targetGuests.every((g) => selectedGuestIds.has(g.id));
 
     if (allVisibleSelected) {
@@ -234,6 +297,13 @@ export function Guests({ weddingId }: GuestsProps) {
     fetchGuests();
   };
 
+  const handleHouseholdCreated = () => {
+    setShowGroupHousehold(false);
+    setSelectedGuestIds(new Set());
+    fetchGuests(); // Refresh to update household membership
+    fetchHouseholds();
+  };
+
   const handleTagsAssigned = () => {
     setShowAssignTags(false);
     setSelectedGuestIds(new Set());
@@ -248,12 +318,38 @@ export function Guests({ weddingId }: GuestsProps) {
 
   const clearFilter = () => {
     setFilterTagIds([]);
+    setShowOpenedNoRsvp(false);
+    setFilterSegmentId('');
   };
 
+  // Segment membership depends on guest data, so re-evaluate whenever guests reload
+  useEffect(() => {
+    if (!filterSegmentId) {
+      setSegmentGuestIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    fetchSegmentGuestIds(weddingId, filterSegmentId).then((guestIds) => {
+      if (cancelled) return;
+      if (guestIds) {
+        setSegmentGuestIds(new Set(guestIds));
+      } else {
+        setError('Unable to load segment');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weddingId, filterSegmentId, guests]);
+
   const handleExportCsv = async () => {
     try {
       const token = getAuthToken();
-      const response = await fetch(`/api/weddings/${weddingId}/guests/export`, {
+      // Export just the chosen segment, if any
+      const query = filterSegmentId ? `?segmentId=${encodeURIComponent(filterSegmentId)}` : '';
+      const response = await fetch(`/api/weddings/${weddingId}/guests/export${query}`, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -288,7 +384,7 @@ export function Guests({ weddingId }: GuestsProps) {
    */
   const handleExportEmails = () => {
     // Use filtered guests if filtering, otherwise use all guests
-    const guestsToExport = filterTagIds.length > 0 ? filteredGuests : guests;
+    const guestsToExport = isFiltering ? filteredGuests : guests;
 
     if (guestsToExport.length === 0) return;
 
@@ -302,11 +398,14 @@ export function Guests({ weddingId }: GuestsProps) {
     };
 
     // Build CSV content - simple format for mail merge
+    // Household members without an email are reached through their contact
     const headers = ['Name', 'Email'];
-    const rows = guestsToExport.map((guest) => [
-      escapeCsvField(guest.name),
-      escapeCsvField(guest.email),
-    ]);
+    const rows = guestsToExport
+      .filter((guest) => guest.email)
+      .map((guest) => [
+        escapeCsvField(guest.name),
+        escapeCsvField(guest.email ?? ''),
+      ]);
 
     const csv = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
 
@@ -329,7 +428,7 @@ export function Guests({ weddingId }: GuestsProps) {
    */
   const handlePrint = () => {
     // Use filtered guests if filtering, otherwise use all guests
-    const guestsToPrint = filterTagIds.length > 0 ? filteredGuests : guests;
+    const guestsToPrint = isFiltering ? filteredGuests : guests;
 
     if (guestsToPrint.length === 0) return;
 
@@ -498,6 +597,8 @@ export function Guests({ weddingId }: GuestsProps) {
         day: 'numeric',
       })}
       ${filterTagIds.length > 0 ? ` • Filtered by: ${tags.filter((t) => filterTagIds.includes(t.id)).map((t) => t.name).join(', ')}` : ''}
+      ${showOpenedNoRsvp ? ' • Opened invitation, no RSVP yet' : ''}
+      ${filterSegmentId ? ` • Segment: ${segments.find((s) => s.id === filterSegmentId)?.name ?? ''}` : ''}
     </div>
   </div>
 
@@ -537,7 +638,7 @@ export function Guests({ weddingId }: GuestsProps) {
           return `
         <tr>
           <td class="name">${guest.name}</td>
-          <td class="email">${guest.email}</td>
+          <td class="email">${guest.email ?? ''}</td>
           <td>
             <span class="status status-${guest.rsvpStatus}">${formatStatus(guest.rsvpStatus)}</span>
           </td>
@@ -576,9 +677,14 @@ export function Guests({ weddingId }: GuestsProps) {
     printWindow.document.close();
   };
 
-  // Filter guests by selected tags
-  const filteredGuests = filterTagIds.length > 0
-    ? guests.filter((g) => g.tagIds?.some((tid) => filterTagIds.includes(tid)))
+  // Filter guests by selected tags and segment, and optionally to those who opened their invitation but haven't RSVP'd
+  const openedNoRsvpIds = getOpenedWithoutRsvp(guests, households, emailOutbox);
+  const isFiltering = filterTagIds.length > 0 || showOpenedNoRsvp || filterSegmentId !== '';
+  const filteredGuests = isFiltering
+    ? guests.filter((g) =>
+        (filterTagIds.length === 0 || g.tagIds?.some((tid) => filterTagIds.includes(tid))) &&
+        (!showOpenedNoRsvp || openedNoRsvpIds.has(g.id)) &&
+        (!filterSegmentId || segmentGuestIds.has(g.id)))
     : guests;
   const selectedCount = selectedGuestIds.size;
   const hasSelection = selectedCount > 0;
@@ -653,6 +759,24 @@ export function Guests({ weddingId }: GuestsProps) {
                     <TagIcon className="w-4 h-4" />
                     Tags
                   </button>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => {
+                      if (!hasSelection) return;
+                      setShowGroupHousehold(true);
+                      setShowActionsMenu(false);
+                    }}
+                    disabled={!hasSelection}
+                    className={`flex w-full items-center gap-2 px-4 py-2 text-sm ${
+                      hasSelection
+                        ? 'text-neutral-700 hover:bg-neutral-100'
+                        : 'text-neutral-400 cursor-not-allowed'
+                    }`}
+                  >
+                    <UsersIcon className="w-4 h-4" />
+                    Group as household{hasSelection ? ` (${selectedCount})` : ''}
+                  </button>
                   <div className="my-1 border-t border-neutral-200" />
                   <button
                     type="button"
@@ -684,7 +808,7 @@ export function Guests({ weddingId }: GuestsProps) {
                         ? 'text-neutral-700 hover:bg-neutral-100'
                         : 'text-neutral-400 cursor-not-allowed'
                     }`}
-                    title={filterTagIds.length > 0 ? `Export ${filteredGuests.length} filtered emails` : 'Export all emails'}
+                    title={isFiltering ? `Export ${filteredGuests.length} filtered emails` : 'Export all emails'}
                   >
                     <MailIcon className="w-4 h-4" />
                     Emails
@@ -766,6 +890,15 @@ export function Guests({ weddingId }: GuestsProps) {
         />
       )}
 
+      {showGroupHousehold && (
+        <GroupHouseholdDialog
+          weddingId={weddingId}
+          guests={guests.filter((g) => selectedGuestIds.has(g.id))}
+          onSuccess={handleHouseholdCreated}
+          onCancel={() => setShowGroupHousehold(false)}
+        />
+      )}
+
       {showCsvImport && (
         <CsvImportForm
           weddingId={weddingId}
@@ -777,6 +910,7 @@ export function Guests({ weddingId }: GuestsProps) {
       {showAddForm && (
         <AddGuestForm
           weddingId={weddingId}
+          households={households}
           onSuccess={handleGuestAdded}
           onCancel={() => setShowAddForm(false)}
         />
@@ -828,6 +962,45 @@ export function Guests({ weddingId }: GuestsProps) {
         </div>
       )}
 
+      {/* Saved segments: select everyone in one to send to or export them */}
+      {segments.length > 0 && (
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <label htmlFor="guest-segment-filter" className="text-sm text-neutral-500">
+            Segment:
+          </label>
+          <select
+            id="guest-segment-filter"
+            value={filterSegmentId}
+            onChange={(e) => setFilterSegmentId(e.target.value)}
+            className="px-3 py-1 border border-neutral-300 rounded-lg bg-neutral-50 text-sm"
+          >
+            <option value="">All guests</option>
+            {segments.map((segment) => (
+              <option key={segment.id} value={segment.id}>
+                {segment.name} ({segment.guestCount})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Guests to nudge: opened their invitation but haven't answered */}
+      {(openedNoRsvpIds.size > 0 || showOpenedNoRsvp) && (
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setShowOpenedNoRsvp((prev) => !prev)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              showOpenedNoRsvp
+                ? 'bg-primary-500 text-neutral-50'
+                : 'text-neutral-700 bg-neutral-100 hover:bg-neutral-200'
+            }`}
+            title="Guests who opened their invitation but haven't RSVP'd yet"
+          >
+            Opened invitation, no RSVP ({openedNoRsvpIds.size})
+          </button>
+        </div>
+      )}
+
       {isLoading ? (
         <LoadingState />
       ) : guests.length === 0 ? (
@@ -843,6 +1016,7 @@ export function Guests({ weddingId }: GuestsProps) {
         <GuestList
           guests={filteredGuests}
           tags={tags}
+          households={households}
           emailOutbox={emailOutbox}
           weddingId={weddingId}
           onDelete={handleGuestDeleted}
@@ -858,17 +1032,20 @@ export function Guests({ weddingId }: GuestsProps) {
 
 interface AddGuestFormProps {
   weddingId: string;
+  households: Household[];
   onSuccess: (guest: Guest) => void;
   onCancel: () => void;
 }
 
-function AddGuestForm({ weddingId, onSuccess, onCancel }: AddGuestFormProps) {
+function AddGuestForm({ weddingId, households, onSuccess, onCancel }: AddGuestFormProps) {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [householdId, setHouseholdId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const canSubmit = name.trim() && email.trim();
+  // Household members (e.g. children) may go without an email; the household contact receives it
+  const canSubmit = name.trim() && (email.trim() || householdId);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -881,7 +1058,8 @@ function AddGuestForm({ weddingId, onSuccess, onCancel }: AddGuestFormProps) {
       const token = getAuthToken();
       const body: CreateGuestRequest = {
         name: name.trim(),
-        email: email.trim(),
+        email: email.trim() || undefined,
+        householdId: householdId || undefined,
       };
 
       const response = await fetch(`/api/weddings/${weddingId}/guests`, {
@@ -938,7 +1116,7 @@ function AddGuestForm({ weddingId, onSuccess, onCancel }: AddGuestFormProps) {
               htmlFor="guestEmail"
               className="block text-sm font-medium text-neutral-700 mb-1"
             >
-              Email
+              Email{householdId && <span className="text-neutral-400 font-normal"> (optional)</span>}
             </label>
             <input
               id="guestEmail"
@@ -951,6 +1129,33 @@ function AddGuestForm({ weddingId, onSuccess, onCancel }: AddGuestFormProps) {
           </div>
         </div>
 
+        {households.length > 0 && (
+          <div>
+            <label
+              htmlFor="guestHousehold"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              Household
+            </label>
+            <select
+              id="guestHousehold"
+              value={householdId}
+              onChange={(e) => setHouseholdId(e.target.value)}
+              className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white"
+            >
+              <option value="">None</option>
+              {households.map((household) => (
+                <option key={household.id} value={household.id}>
+                  {household.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-neutral-500 mt-1">
+              Household members share one invitation and RSVP link.
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="p-3 bg-primary-50 border border-primary-200 rounded-lg text-primary-800 text-sm">
             {error}
@@ -996,6 +1201,7 @@ interface ColumnMapping {
   nameColumn: number;
   emailColumn: number;
   partySizeColumn: number | null;
+  postalCodeColumn: number | null;
 }
 
 /**
@@ -1009,6 +1215,7 @@ function CsvImportForm({ weddingId, onSuccess, onCancel }: CsvImportFormProps) {
     nameColumn: 0,
     emailColumn: 1,
     partySizeColumn: null,
+    postalCodeColumn: null,
   });
   const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -1076,11 +1283,13 @@ function CsvImportForm({ weddingId, onSuccess, onCancel }: CsvImportFormProps) {
         const nameIdx = lowerHeaders.findIndex(h => h.includes('name'));
         const emailIdx = lowerHeaders.findIndex(h => h.includes('email') || h.includes('e-mail'));
         const partyIdx = lowerHeaders.findIndex(h => h.includes('party') || h.includes('size') || h.includes('guests'));
+        const postalIdx = lowerHeaders.findIndex(h => h.includes('postal') || h.includes('zip') || h.includes('postcode'));
 
         setMapping({
           nameColumn: nameIdx >= 0 ? nameIdx : 0,
           emailColumn: emailIdx >= 0 ? emailIdx : 1,
           partySizeColumn: partyIdx >= 0 ? partyIdx : null,
+          postalCodeColumn: postalIdx >= 0 ? postalIdx : null,
         });
 
         setStep('map');
@@ -1108,6 +1317,9 @@ function CsvImportForm({ weddingId, onSuccess, onCancel }: CsvImportFormProps) {
         partySize: mapping.partySizeColumn !== null
           ? parseInt(row[mapping.partySizeColumn], 10) || 1
           : 1,
+        postalCode: mapping.postalCodeColumn !== null
+          ? row[mapping.postalCodeColumn] || undefined
+          : undefined,
       }));
 
       const token = getAuthToken();
@@ -1208,7 +1420,7 @@ function CsvImportForm({ weddingId, onSuccess, onCancel }: CsvImportFormProps) {
           <p className="text-neutral-600 text-sm mb-4">
             Match your CSV columns to the guest fields. We detected {csvData.rows.length} rows.
           </p>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
             <div>
               <label className="block text-sm font-medium text-neutral-700 mb-1">
                 Name column
@@ -1255,6 +1467,24 @@ function CsvImportForm({ weddingId, onSuccess, onCancel }: CsvImportFormProps) {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                Postal code column <span className="text-neutral-400">(optional)</span>
+              </label>
+              <select
+                value={mapping.postalCodeColumn ?? ''}
+                onChange={(e) => setMapping({
+                  ...mapping,
+                  postalCodeColumn: e.target.value ? parseInt(e.target.value, 10) : null,
+                })}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">None</option>
+                {csvData.headers.map((header, idx) => (
+                  <option key={idx} value={idx}>{header || `Column ${idx + 1}`}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="mb-4">
@@ -1398,17 +1628,67 @@ interface EditGuestDialogProps {
  */
 function EditGuestDialog({ weddingId, guest, emailStatus, onSuccess, onResend, onCancel }: EditGuestDialogProps) {
   const [name, setName] = useState(guest.name);
-  const [email, setEmail] = useState(guest.email);
+  const [email, setEmail] = useState(guest.email ?? '');
   const [plusOneAllowance, setPlusOneAllowance] = useState(guest.plusOneAllowance ?? 0);
+  const [postalCode, setPostalCode] = useState(guest.postalCode ?? '');
+  const [preferredLanguage, setPreferredLanguage] = useState<SupportedLanguage | ''>(guest.preferredLanguage ?? '');
+  const [languages, setLanguages] = useState<LanguageOption[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isResending, setIsResending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [resendSuccess, setResendSuccess] = useState(false);
+  const [isResettingFeed, setIsResettingFeed] = useState(false);
+  const [feedReset, setFeedReset] = useState(false);
 
-  const canSubmit = name.trim() && email.trim();
-  const emailChanged = email.trim() !== guest.email;
+  // Only household members may go without an email
+  const canSubmit = name.trim() && (email.trim() || (guest.householdId && !guest.email));
+  const emailChanged = email.trim() !== (guest.email ?? '');
   const hasBounceOrFailure = emailStatus && (emailStatus.status === 'bounced' || emailStatus.status === 'failed');
 
+  useEffect(() => {
+    const loadLanguages = async () => {
+      try {
+        const response = await fetch('/api/weddings/languages/list');
+        const data: ApiResponse<{ languages: LanguageOption[]; defaultLanguage: string }> = await response.json();
+        if (data.ok) {
+          setLanguages(data.data.languages);
+        }
+      } catch {
+        // Ignore - the guest keeps getting emails in the site's language
+      }
+    };
+
+    loadLanguages();
+  }, []);
+
+  // Revokes the guest's calendar subscription link, e.g. if it was shared by mistake
+  const handleResetCalendarFeed = async () => {
+    setIsResettingFeed(true);
+    setError(null);
+    setFeedReset(false);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/guests/${guest.id}/calendar-feed/reset`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data: ApiResponse<CalendarFeedResponse> = await response.json();
+
+      if (data.ok) {
+        setFeedReset(true);
+      } else {
+        setError('Unable to reset calendar link. Please try again.');
+      }
+    } catch {
+      setError('Unable to reset calendar link. Please try again.');
+    } finally {
+      setIsResettingFeed(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent, shouldResend = false) => {
     e.preventDefault();
     if (!canSubmit) return;
@@ -1421,8 +1701,10 @@ function EditGuestDialog({ weddingId, guest, emailStatus, onSuccess, onResend, o
       const token = getAuthToken();
       const body: UpdateGuestRequest = {
         name: name.trim(),
-        email: email.trim(),
+        email: email.trim() || undefined,
         plusOneAllowance,
+        postalCode: postalCode.trim(),
+        preferredLanguage: preferredLanguage || null,
       };
 
       const response = await fetch(`/api/weddings/${weddingId}/guests/${guest.id}`, {
@@ -1451,7 +1733,8 @@ function EditGuestDialog({ weddingId, guest, emailStatus, onSuccess, onResend, o
               body: JSON.stringify({ guestIds: [guest.id] }),
             });
             const resendData: ApiResponse<SendInvitationsResponse> = await resendResponse.json();
-            if (resendData.ok && resendData.data.sent > 0) {
+            // The invitation is queued for the worker; a queued send counts as success here
+            if (resendData.ok && resendData.data.total > 0) {
               setResendSuccess(true);
               // Brief delay to show success before closing
               setTimeout(() => {
@@ -1589,6 +1872,66 @@ function EditGuestDialog({ weddingId, guest, emailStatus, onSuccess, onResend, o
               className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             />
           </div>
+          <div>
+            <label
+              htmlFor="editGuestPostalCode"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              Postal code
+            </label>
+            <p className="text-xs text-neutral-500 mb-2">
+              Optional. Lets guests who share a name find their invitation on your site.
+            </p>
+            <input
+              id="editGuestPostalCode"
+              type="text"
+              value={postalCode}
+              onChange={(e) => setPostalCode(e.target.value)}
+              className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          {languages.length > 1 && (
+            <div>
+              <label
+                htmlFor="editGuestLanguage"
+                className="block text-sm font-medium text-neutral-700 mb-1"
+              >
+                Email language
+              </label>
+              <select
+                id="editGuestLanguage"
+                value={preferredLanguage}
+                onChange={(e) => setPreferredLanguage(e.target.value as SupportedLanguage | '')}
+                className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">Same as your site</option>
+                {languages.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.nativeName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <p className="block text-sm font-medium text-neutral-700 mb-1">Calendar link</p>
+            <p className="text-xs text-neutral-500 mb-2">
+              Guests can subscribe to their events from their RSVP page. Resetting stops the old link
+              from working; the guest gets the new one on their RSVP page.
+            </p>
+            <button
+              type="button"
+              onClick={handleResetCalendarFeed}
+              disabled={isResettingFeed || isSubmitting || isResending}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isResettingFeed ? 'Resetting...' : 'Reset calendar link'}
+            </button>
+            {feedReset && (
+              <p className="text-xs text-accent-600 mt-1">✓ Calendar link reset</p>
+            )}
+          </div>
 
           {error && (
             <div className="p-3 bg-primary-50 border border-primary-200 rounded-lg text-primary-800 text-sm">
@@ -1697,6 +2040,7 @@ function CheckCircleIcon({ className }: { className?: string }) {
 interface GuestListProps {
   guests: Guest[];
   tags: GuestTag[];
+  households: Household[];
   emailOutbox: EmailOutbox[];
   weddingId: string;
   onDelete: (guestId: string) => void;
@@ -1709,6 +2053,7 @@ interface GuestListProps {
 function GuestList({
   guests,
   tags,
+  households,
   emailOutbox,
   weddingId,
   onDelete,
@@ -1745,6 +2090,7 @@ function GuestList({
             key={guest.id}
             guest={guest}
             tags={tags}
+            household={households.find((h) => h.id === guest.householdId)}
             emailStatus={getLatestEmailStatus(guest.id, emailOutbox)}
             weddingId={weddingId}
             onDelete={onDelete}
@@ -1761,6 +2107,7 @@ function GuestList({
 interface GuestRowProps {
   guest: Guest;
   tags: GuestTag[];
+  household?: Household;
   emailStatus: EmailStatusInfo | null;
   weddingId: string;
   onDelete: (guestId: string) => void;
@@ -1769,7 +2116,7 @@ interface GuestRowProps {
   onToggleSelect: () => void;
 }
 
-function GuestRow({ guest, tags, emailStatus, weddingId, onDelete, onEdit, isSelected, onToggleSelect }: GuestRowProps) {
+function GuestRow({ guest, tags, household, emailStatus, weddingId, onDelete, onEdit, isSelected, onToggleSelect }: GuestRowProps) {
   // Get the tags for this guest
   const guestTags = tags.filter((t) => guest.tagIds?.includes(t.id));
   const [isDeleting, setIsDeleting] = useState(false);
@@ -1817,7 +2164,18 @@ function GuestRow({ guest, tags, emailStatus, weddingId, onDelete, onEdit, isSel
         <div>
           <p className="text-neutral-800 font-medium">{guest.name}</p>
           <div className="flex items-center gap-2">
-            <p className="text-sm text-neutral-500">{guest.email}</p>
+            <p className="text-sm text-neutral-500">
+              {guest.email ?? (household ? 'Invited with household' : '')}
+            </p>
+            {household && (
+              <span
+                className="px-1.5 py-0.5 rounded text-xs bg-neutral-200 text-neutral-700"
+                title={household.primaryGuestId === guest.id ? 'Receives the household invitation' : undefined}
+              >
+                {household.name}
+                {household.primaryGuestId === guest.id && ' · contact'}
+              </span>
+            )}
             {guestTags.length > 0 && (
               <div className="flex gap-1">
                 {guestTags.map((tag) => (
@@ -1928,12 +2286,17 @@ function InviteStatusBadge({
     };
 
     const config = statusConfig[emailStatus.status];
+    const opened = Boolean(emailStatus.openedAt) &&
+      (emailStatus.status === 'sent' || emailStatus.status === 'delivered');
 
     // Build tooltip with bounce reason if available
     let tooltip = `${emailStatus.type === 'reminder' ? 'Reminder' : 'Invitation'} ${emailStatus.status}`;
     if (emailStatus.status === 'bounced' && emailStatus.bounceReason) {
       tooltip += `: ${emailStatus.bounceReason}`;
     }
+    if (opened && emailStatus.openedAt) {
+      tooltip += `, opened ${new Date(emailStatus.openedAt).toLocaleString()}`;
+    }
 
     return (
       <span
@@ -1941,7 +2304,7 @@ function InviteStatusBadge({
         title={tooltip}
       >
         {config.icon}
-        {config.label}
+        {opened ? 'Opened' : config.label}
       </span>
     );
   }
@@ -2168,7 +2531,8 @@ interface SendInvitesDialogProps {
 function SendInvitesDialog({ weddingId, guests, onSuccess, onCancel }: SendInvitesDialogProps) {
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<SendInvitationResult[] | null>(null);
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const { progress, error: progressError } = useCampaignProgress(weddingId, campaignId);
 
   const handleSend = async () => {
     setIsSending(true);
@@ -2188,7 +2552,7 @@ function SendInvitesDialog({ weddingId, guests, onSuccess, onCancel }: SendInvit
       const data: ApiResponse<SendInvitationsResponse> = await response.json();
 
       if (data.ok) {
-        setResults(data.data.results);
+        setCampaignId(data.data.campaignId);
       } else {
         setError('message' in data ? (data as { message?: string }).message || 'Failed to send invitations' : 'Failed to send invitations');
       }
@@ -2199,20 +2563,45 @@ function SendInvitesDialog({ weddingId, guests, onSuccess, onCancel }: SendInvit
     }
   };
 
-  // Results view
-  if (results) {
-    const sent = results.filter((r) => r.success).length;
-    const failed = results.filter((r) => !r.success).length;
+  // Progress and results view
+  // Invitations are sent by the worker; this polls until every guest is sent, failed or suppressed
+  if (campaignId) {
+    const sent = progress?.sent ?? 0;
+    const failed = progress?.failed ?? 0;
+    const suppressed = progress?.suppressed ?? 0;
+    const failedResults = progress?.results.filter((r) => r.status === 'failed' || r.status === 'suppressed') ?? [];
 
     return (
       <div className="fixed inset-0 bg-neutral-900/50 flex items-center justify-center z-50">
         <div className="bg-neutral-50 rounded-xl shadow-xl max-w-lg w-full mx-4 p-6">
           <div className="flex items-center gap-2 mb-4">
-            <CheckCircleIcon className="w-6 h-6 text-accent-600" />
-            <h3 className="text-lg text-neutral-800">Invitations sent</h3>
+            {progress?.completed ? (
+              <>
+                <CheckCircleIcon className="w-6 h-6 text-accent-600" />
+                <h3 className="text-lg text-neutral-800">Invitations sent</h3>
+              </>
+            ) : (
+              <>
+                <div className="w-5 h-5 border-2 border-primary-500 border-t-transparent rounded-full animate-spin" />
+                <h3 className="text-lg text-neutral-800">Sending invitations...</h3>
+              </>
+            )}
           </div>
 
-          <div className="grid grid-cols-2 gap-4 mb-6">
+          {!progress?.completed && (
+            <p className="text-sm text-neutral-600 mb-4">
+              {progress ? `${sent + failed + suppressed} of ${progress.total} processed. ` : ''}
+              You can close this window; sending continues in the background.
+            </p>
+          )}
+
+          {progressError && (
+            <div className="p-3 bg-primary-50 border border-primary-200 rounded-lg text-primary-800 text-sm mb-4">
+              {progressError}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4 mb-6">
             <div className="bg-accent-50 border border-accent-200 rounded-lg p-4 text-center">
               <p className="text-2xl font-semibold text-accent-700">{sent}</p>
               <p className="text-sm text-accent-600">Sent successfully</p>
@@ -2221,16 +2610,27 @@ function SendInvitesDialog({ weddingId, guests, onSuccess, onCancel }: SendInvit
               <p className="text-2xl font-semibold text-neutral-700">{failed}</p>
               <p className="text-sm text-neutral-600">Failed</p>
             </div>
+            <div className="bg-neutral-100 border border-neutral-200 rounded-lg p-4 text-center">
+              <p className="text-2xl font-semibold text-neutral-700">{suppressed}</p>
+              <p className="text-sm text-neutral-600">Skipped (suppressed)</p>
+            </div>
           </div>
 
-          {failed > 0 && (
+          {suppressed > 0 && (
+            <p className="text-sm text-neutral-600 mb-4">
+              {suppressed} {suppressed === 1 ? 'guest was' : 'guests were'} skipped because their address is
+              suppressed. Fix the address, then un-suppress it from the email delivery statistics page.
+            </p>
+          )}
+
+          {failed + suppressed > 0 && (
             <div className="mb-6">
-              <p className="text-sm font-medium text-neutral-700 mb-2">Failed invitations</p>
+              <p className="text-sm font-medium text-neutral-700 mb-2">Not sent</p>
               <div className="border border-neutral-200 rounded-lg overflow-hidden max-h-32 overflow-y-auto">
                 <table className="w-full text-sm">
                   <tbody className="divide-y divide-neutral-200">
-                    {results.filter((r) => !r.success).map((result, idx) => (
-                      <tr key={idx}>
+                    {failedResults.map((result) => (
+                      <tr key={result.guestId}>
                         <td className="px-3 py-2 text-neutral-800">{result.guestName}</td>
                         <td className="px-3 py-2 text-neutral-500">{result.error}</td>
                       </tr>
@@ -2637,6 +3037,153 @@ function AssignTagsDialog({
   );
 }
 
+interface GroupHouseholdDialogProps {
+  weddingId: string;
+  guests: Guest[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Dialog for grouping selected guests into a household that shares one invitation and RSVP link.
+ * The contact receives the invitation and can answer for every member.
+ */
+function GroupHouseholdDialog({
+  weddingId,
+  guests,
+  onSuccess,
+  onCancel,
+}: GroupHouseholdDialogProps) {
+  const contactCandidates = guests.filter((g) => g.email);
+  const [name, setName] = useState(() => {
+    const lastName = guests[0]?.name.trim().split(/\s+/).pop();
+    return lastName ? `The ${lastName} household` : '';
+  });
+  const [primaryGuestId, setPrimaryGuestId] = useState(contactCandidates[0]?.id ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const alreadyGrouped = guests.filter((g) => g.householdId);
+  const canSubmit = name.trim() && primaryGuestId && alreadyGrouped.length === 0;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const body: CreateHouseholdRequest = {
+        name: name.trim(),
+        guestIds: guests.map((g) => g.id),
+        primaryGuestId,
+      };
+
+      const response = await fetch(`/api/weddings/${weddingId}/households`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data: ApiResponse<Household> = await response.json();
+
+      if (data.ok) {
+        onSuccess();
+      } else if ('error' in data && data.error === 'GUEST_IN_OTHER_HOUSEHOLD') {
+        setError('A selected guest already belongs to another household');
+      } else {
+        setError('Unable to create household');
+      }
+    } catch {
+      setError('Unable to create household');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-neutral-900/50 flex items-center justify-center z-50">
+      <div className="bg-neutral-50 rounded-xl shadow-xl max-w-md w-full mx-4 p-6">
+        <h3 className="text-lg text-neutral-800 mb-2">Group as household</h3>
+        <p className="text-neutral-600 mb-6">
+          {guests.length} {guests.length === 1 ? 'guest' : 'guests'} will share one invitation and RSVP link.
+          Everyone still chooses their own meal and RSVP.
+        </p>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label htmlFor="householdName" className="block text-sm font-medium text-neutral-700 mb-1">
+              Household name
+            </label>
+            <input
+              id="householdName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="The Smith family"
+              className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label htmlFor="householdContact" className="block text-sm font-medium text-neutral-700 mb-1">
+              Send the invitation to
+            </label>
+            {contactCandidates.length > 0 ? (
+              <select
+                id="householdContact"
+                value={primaryGuestId}
+                onChange={(e) => setPrimaryGuestId(e.target.value)}
+                className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white"
+              >
+                {contactCandidates.map((guest) => (
+                  <option key={guest.id} value={guest.id}>
+                    {guest.name} ({guest.email})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-neutral-500">
+                At least one selected guest needs an email address.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {alreadyGrouped.length > 0 && (
+          <div className="p-3 bg-primary-50 border border-primary-200 rounded-lg text-primary-800 text-sm mb-4">
+            {alreadyGrouped.map((g) => g.name).join(', ')}{' '}
+            {alreadyGrouped.length === 1 ? 'is' : 'are'} already in a household.
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-primary-50 border border-primary-200 rounded-lg text-primary-800 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button onClick={onCancel} className="btn-secondary" disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit || isSaving}
+            className="btn-primary disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Create household'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function XIcon({ className }: { className?: string }) {
   return (
     <svg
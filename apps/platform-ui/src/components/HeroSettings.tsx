@@ -78,6 +78,7 @@ export function HeroSettings({
   const [invitationStyle, setInvitationStyle] = useState('classic');
   const [invitationMessage, setInvitationMessage] = useState('');
   const [showDate, setShowDate] = useState(true);
+  const [showCountdown, setShowCountdown] = useState(false);
 
   // Track initial values for change detection
   const [initialHeadline, setInitialHeadline] = useState('');
@@ -85,6 +86,7 @@ export function HeroSettings({
   const [initialInvitationStyle, setInitialInvitationStyle] = useState('classic');
   const [initialInvitationMessage, setInitialInvitationMessage] = useState('');
   const [initialShowDate, setInitialShowDate] = useState(true);
+  const [initialShowCountdown, setInitialShowCountdown] = useState(false);
 
   // Fetch current hero content from render_config
   useEffect(() => {
@@ -113,6 +115,7 @@ export function HeroSettings({
             invitationStyle?: string;
             invitationMessage?: string;
             showDate?: boolean;
+            showCountdown?: boolean;
           };
           const h = heroData.headline || `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
           const s = heroData.subheadline || '';
@@ -122,17 +125,20 @@ export function HeroSettings({
           const message = heroData.invitationMessage || '';
           const messageTrimmed = message.trim();
           const dateVisibility = heroData.showDate !== false;
+          const countdownVisibility = heroData.showCountdown === true;
 
           setHeadline(h);
           setSubheadline(s);
           setInvitationStyle(style);
           setInvitationMessage(message);
           setShowDate(dateVisibility);
+          setShowCountdown(countdownVisibility);
           setInitialHeadline(h);
           setInitialSubheadline(s);
           setInitialInvitationStyle(style);
           setInitialInvitationMessage(messageTrimmed);
           setInitialShowDate(dateVisibility);
+          setInitialShowCountdown(countdownVisibility);
         }
       }
     } catch {
@@ -164,6 +170,7 @@ export function HeroSettings({
         invitationStyle: safeInvitationStyle,
         invitationMessage: trimmedInvitationMessage,
         showDate,
+        showCountdown,
       };
 
       const response = await fetch(`/api/weddings/${wedding.id}/hero`, {
@@ -184,6 +191,7 @@ export function HeroSettings({
         setInitialInvitationStyle(safeInvitationStyle);
         setInitialInvitationMessage(trimmedInvitationMessage);
         setInitialShowDate(showDate);
+        setInitialShowCountdown(showCountdown);
         onHeroChanged();
         // Clear success message after 3 seconds
         setTimeout(() => setSaveSuccess(false), 3000);
@@ -204,7 +212,8 @@ export function HeroSettings({
     || normalizedSubheadline !== initialSubheadline
     || invitationStyle !== initialInvitationStyle
     || normalizedInvitationMessage !== initialInvitationMessage
-    || showDate !== initialShowDate;
+    || showDate !== initialShowDate
+    || showCountdown !== initialShowCountdown;
   const isValid = normalizedHeadline.length > 0;
 
   if (isLoading) {
@@ -221,6 +230,7 @@ export function HeroSettings({
     const date = new Date(wedding.eventDetails.date);
     if (Number.isNaN(date.getTime())) return wedding.eventDetails.date;
     return date.toLocaleDateString('en-US', {
+      timeZone: 'UTC',
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -373,6 +383,37 @@ export function HeroSettings({
           </div>
         </div>
 
+        {/* Show countdown toggle */}
+        <div className="p-4 bg-neutral-50 border border-neutral-200 rounded-lg">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <h3 className="text-neutral-800 font-medium">Show countdown</h3>
+              <p className="text-sm text-neutral-500 mt-1">
+                Display the number of days to go, counted in your wedding's time zone.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowCountdown((prev) => !prev)}
+              className={`
+                relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent
+                transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2
+                ${showCountdown ? 'bg-primary-500' : 'bg-neutral-300'}
+              `}
+              role="switch"
+              aria-checked={showCountdown}
+            >
+              <span
+                className={`
+                  pointer-events-none inline-block h-5 w-5 transform rounded-full bg-neutral-50 shadow ring-0
+                  transition duration-200 ease-in-out
+                  ${showCountdown ? 'translate-x-5' : 'translate-x-0'}
+                `}
+              />
+            </button>
+          </div>
+        </div>
+
         {/* Preview */}
         <div className="p-6 bg-neutral-50 border border-neutral-200 rounded-lg">
           <p className="text-xs text-neutral-500 uppercase tracking-wide mb-3">Preview</p>
@@ -1,53 +1,71 @@
 import { useState, useEffect, useCallback } from 'react';
 import { SongRequest, SongRequestListResponse, ApiResponse, Wedding } from '../types';
 import { getAuthToken } from '../lib/auth';
+import { useInfiniteScroll } from '../lib/useInfiniteScroll';
 
 interface MusicRequestsProps {
   weddingId: string;
   wedding: Wedding;
 }
 
+const PAGE_SIZE = 50;
+
 /**
  * Music requests management component.
  * PRD: "Admin can view song requests" and "Admin can export playlist for DJ"
  */
 export function MusicRequests({ weddingId, wedding }: MusicRequestsProps) {
   const [songRequests, setSongRequests] = useState<SongRequest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
 
   const parseSongRequests = (
     payload: ApiResponse<SongRequestListResponse> | SongRequestListResponse,
-  ): SongRequest[] | null => {
+  ): SongRequestListResponse | null => {
     if ('ok' in payload) {
       if (payload.ok) {
-        return payload.data.songRequests ?? [];
+        return payload.data;
       }
       return null;
     }
 
     if (Array.isArray(payload.songRequests)) {
-      return payload.songRequests;
+      return payload;
     }
 
     return null;
   };
 
-  const fetchSongRequests = useCallback(async () => {
+  /**
+   * Fetch one page of song requests.
+   * Without a cursor the list is replaced; with one the page is appended.
+   */
+  const fetchSongRequests = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
     try {
       const token = getAuthToken();
-      const response = await fetch(`/api/weddings/${weddingId}/music/requests`, {
+      const response = await fetch(`/api/weddings/${weddingId}/music/requests?${params}`, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
       });
 
       const data: ApiResponse<SongRequestListResponse> | SongRequestListResponse = await response.json();
-      const parsedRequests = response.ok ? parseSongRequests(data) : null;
+      const page = response.ok ? parseSongRequests(data) : null;
 
-      if (parsedRequests !== null) {
-        setSongRequests(parsedRequests);
+      if (page !== null) {
+        const requests = page.songRequests ?? [];
+        setSongRequests((prev) => (cursor ? [...prev, ...requests] : requests));
+        setTotal(page.total ?? requests.length);
+        setNextCursor(page.nextCursor);
         setError(null);
       } else {
         setError('Unable to load song requests');
@@ -63,6 +81,17 @@ export function MusicRequests({ weddingId, wedding }: MusicRequestsProps) {
     fetchSongRequests();
   }, [fetchSongRequests]);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+    setIsLoadingMore(true);
+    await fetchSongRequests(nextCursor);
+    setIsLoadingMore(false);
+  }, [nextCursor, isLoadingMore, fetchSongRequests]);
+
+  const sentinelRef = useInfiniteScroll(loadMore, !!nextCursor && !isLoadingMore);
+
   const handleDelete = async (requestId: string) => {
     if (!confirm('Are you sure you want to remove this song request?')) {
       return;
@@ -81,6 +110,7 @@ export function MusicRequests({ weddingId, wedding }: MusicRequestsProps) {
 
       if (data.ok) {
         setSongRequests((prev) => prev.filter((r) => r.id !== requestId));
+        setTotal((prev) => Math.max(0, prev - 1));
       }
     } catch {
       // Ignore errors
@@ -171,7 +201,7 @@ export function MusicRequests({ weddingId, wedding }: MusicRequestsProps) {
         <div>
           <h2 className="text-2xl text-neutral-800 mb-1">Song Requests</h2>
           <p className="text-neutral-500">
-            {songRequests.length} song{songRequests.length !== 1 ? 's' : ''} requested by guests
+            {total} song{total !== 1 ? 's' : ''} requested by guests
           </p>
         </div>
         {songRequests.length > 0 && (
@@ -240,6 +270,22 @@ export function MusicRequests({ weddingId, wedding }: MusicRequestsProps) {
               ))}
             </tbody>
           </table>
+
+          {/* Next page loads when this scrolls into view */}
+          {nextCursor && (
+            <div ref={sentinelRef} className="py-4 text-center border-t border-neutral-200">
+              {isLoadingMore ? (
+                <div className="w-6 h-6 border-2 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto" />
+              ) : (
+                <button
+                  onClick={loadMore}
+                  className="text-sm text-neutral-500 hover:text-neutral-700"
+                >
+                  Load more song requests
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
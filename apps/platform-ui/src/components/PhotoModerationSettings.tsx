@@ -336,6 +336,14 @@ function PhotoCard({ photo, status, isModrating, onApprove, onReject, onRemove }
   return (
     <div className="p-4 rounded-lg border border-neutral-200 bg-neutral-50">
       <div className="flex flex-wrap items-start justify-between gap-4">
+        {photo.url && (
+          <img
+            src={photo.url}
+            alt={photo.fileName}
+            loading="lazy"
+            className="w-20 h-20 rounded object-cover bg-neutral-200 flex-shrink-0"
+          />
+        )}
         <div className="flex-1 min-w-0">
           <p className="text-neutral-800 font-medium truncate">{photo.fileName}</p>
           <p className="text-sm text-neutral-500 mt-1">
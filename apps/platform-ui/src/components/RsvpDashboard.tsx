@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import type {
   Guest,
+  RsvpQuestion,
+  RsvpAnswerValue,
   RsvpSummary,
   RsvpSummaryResponse,
   ApiResponse,
@@ -20,6 +22,7 @@ interface RsvpDashboardProps {
 export function RsvpDashboard({ weddingId }: RsvpDashboardProps) {
   const [summary, setSummary] = useState<RsvpSummary | null>(null);
   const [guests, setGuests] = useState<Guest[]>([]);
+  const [questions, setQuestions] = useState<RsvpQuestion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -75,6 +78,7 @@ export function RsvpDashboard({ weddingId }: RsvpDashboardProps) {
       if (data.ok) {
         setSummary(data.data.summary);
         setGuests(data.data.guests);
+        setQuestions([...data.data.questions].sort((a, b) => a.order - b.order));
       } else {
         setError('Unable to load RSVP summary');
       }
@@ -123,7 +127,8 @@ export function RsvpDashboard({ weddingId }: RsvpDashboardProps) {
       ) : (
         <>
           {summary && <SummaryCards summary={summary} />}
-          <GuestResponseList guests={guests} />
+          <QuestionAnswers questions={questions} guests={guests} />
+          <GuestResponseList guests={guests} questions={questions} />
         </>
       )}
     </div>
@@ -171,6 +176,11 @@ function SummaryCards({ summary }: SummaryCardsProps) {
         <SummaryCard
           label="Total invited"
           value={summary.total}
+          subtext={
+            summary.invitations !== summary.total
+              ? `${summary.invitations} ${summary.invitations === 1 ? 'invitation' : 'invitations'}`
+              : undefined
+          }
           variant="neutral"
         />
       </div>
@@ -178,6 +188,89 @@ function SummaryCards({ summary }: SummaryCardsProps) {
   );
 }
 
+interface QuestionAnswersProps {
+  questions: RsvpQuestion[];
+  guests: Guest[];
+}
+
+/**
+ * Answers to the couple's custom RSVP questions: tallies for choices,
+ * total and average for numbers, and every text answer with who gave it
+ */
+function QuestionAnswers({ questions, guests }: QuestionAnswersProps) {
+  if (questions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-neutral-50 border border-neutral-200 rounded-lg mb-8 divide-y divide-neutral-200">
+      <div className="px-4 py-3">
+        <span className="text-sm font-medium text-neutral-700">Your questions</span>
+      </div>
+      {questions.map((question) => {
+        const answered = guests
+          .filter((guest) => guest.rsvpAnswers?.[question.id] !== undefined)
+          .map((guest) => ({ guest, answer: guest.rsvpAnswers![question.id] }));
+
+        return (
+          <div key={question.id} className="px-4 py-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-neutral-800 font-medium">{question.label}</p>
+              <p className="text-xs text-neutral-400">
+                {answered.length} {answered.length === 1 ? 'answer' : 'answers'}
+              </p>
+            </div>
+
+            {(question.type === 'single_choice' || question.type === 'multi_choice') && (
+              <ul className="space-y-1">
+                {(question.options ?? []).map((option) => {
+                  const count = answered.filter(({ answer }) =>
+                    Array.isArray(answer) ? answer.includes(option) : answer === option,
+                  ).length;
+                  return (
+                    <li key={option} className="flex items-center justify-between text-sm">
+                      <span className="text-neutral-600">{option}</span>
+                      <span className="text-neutral-800 font-medium">{count}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {question.type === 'number' && answered.length > 0 && (
+              <NumberAnswerTotals values={answered.map(({ answer }) => Number(answer))} />
+            )}
+
+            {question.type === 'text' && answered.length > 0 && (
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {answered.map(({ guest, answer }) => (
+                  <li key={guest.id} className="text-sm">
+                    <span className="text-neutral-800">{guest.name}:</span>{' '}
+                    <span className="text-neutral-600">{formatAnswer(answer)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NumberAnswerTotals({ values }: { values: number[] }) {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const average = Math.round((total / values.length) * 10) / 10;
+
+  return (
+    <p className="text-sm text-neutral-600">
+      Total <span className="text-neutral-800 font-medium">{total}</span>
+      {' '}&middot;{' '}
+      Average <span className="text-neutral-800 font-medium">{average}</span>
+    </p>
+  );
+}
+
 interface ResponseRateBannerProps {
   responseRate: number;
   responded: number;
@@ -264,9 +357,10 @@ function SummaryCard({ label, value, subtext, variant }: SummaryCardProps) {
 
 interface GuestResponseListProps {
   guests: Guest[];
+  questions: RsvpQuestion[];
 }
 
-function GuestResponseList({ guests }: GuestResponseListProps) {
+function GuestResponseList({ guests, questions }: GuestResponseListProps) {
   if (guests.length === 0) {
     return (
       <div className="text-center py-12 px-6 bg-neutral-50 border border-neutral-200 rounded-lg">
@@ -292,6 +386,7 @@ function GuestResponseList({ guests }: GuestResponseListProps) {
         <GuestSection
           title="Attending"
           guests={attending}
+          questions={questions}
           variant="success"
         />
       )}
@@ -299,6 +394,7 @@ function GuestResponseList({ guests }: GuestResponseListProps) {
         <GuestSection
           title="Not attending"
           guests={notAttending}
+          questions={questions}
           variant="muted"
         />
       )}
@@ -306,6 +402,7 @@ function GuestResponseList({ guests }: GuestResponseListProps) {
         <GuestSection
           title="Awaiting response"
           guests={pending}
+          questions={questions}
           variant="pending"
         />
       )}
@@ -316,10 +413,11 @@ function GuestResponseList({ guests }: GuestResponseListProps) {
 interface GuestSectionProps {
   title: string;
   guests: Guest[];
+  questions: RsvpQuestion[];
   variant: 'success' | 'muted' | 'pending';
 }
 
-function GuestSection({ title, guests, variant }: GuestSectionProps) {
+function GuestSection({ title, guests, questions, variant }: GuestSectionProps) {
   const headerColors = {
     success: 'bg-accent-50 border-accent-200',
     muted: 'bg-neutral-50 border-neutral-200',
@@ -335,7 +433,7 @@ function GuestSection({ title, guests, variant }: GuestSectionProps) {
       </div>
       <ul className="divide-y divide-neutral-200">
         {guests.map((guest) => (
-          <GuestRow key={guest.id} guest={guest} />
+          <GuestRow key={guest.id} guest={guest} questions={questions} />
         ))}
       </ul>
     </div>
@@ -344,10 +442,14 @@ function GuestSection({ title, guests, variant }: GuestSectionProps) {
 
 interface GuestRowProps {
   guest: Guest;
+  questions: RsvpQuestion[];
 }
 
-function GuestRow({ guest }: GuestRowProps) {
+function GuestRow({ guest, questions }: GuestRowProps) {
   const hasPlusOnes = guest.plusOneGuests && guest.plusOneGuests.length > 0;
+  const answeredQuestions = questions.filter(
+    (question) => guest.rsvpAnswers?.[question.id] !== undefined,
+  );
 
   return (
     <li className="px-4 py-4 bg-neutral-50">
@@ -411,10 +513,28 @@ function GuestRow({ guest }: GuestRowProps) {
           </ul>
         </div>
       )}
+
+      {/* Custom question answers */}
+      {answeredQuestions.length > 0 && (
+        <dl className="mt-3 ml-14 pl-4 border-l-2 border-neutral-200 space-y-1">
+          {answeredQuestions.map((question) => (
+            <div key={question.id} className="text-sm">
+              <dt className="inline text-neutral-500">{question.label}:</dt>{' '}
+              <dd className="inline text-neutral-700">
+                {formatAnswer(guest.rsvpAnswers![question.id])}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
     </li>
   );
 }
 
+function formatAnswer(answer: RsvpAnswerValue): string {
+  return Array.isArray(answer) ? answer.join(', ') : String(answer);
+}
+
 function formatDate(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleDateString('en-US', {
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  ApiResponse,
+  RsvpDeadlineConfig,
+  ScheduledEmail,
+  UpdateRsvpDeadlineResponse,
+  Wedding,
+} from '../types';
+
+interface RsvpDeadlineSettingsProps {
+  wedding: Wedding;
+  onDeadlineChanged?: () => void;
+}
+
+/**
+ * Reminder cadence used for a new deadline
+ */
+const DEFAULT_REMINDER_DAYS = [21, 7, 2];
+
+/**
+ * Days before the deadline a couple can pick reminders from
+ */
+const REMINDER_DAY_CHOICES = [30, 21, 14, 7, 3, 2, 1];
+
+const DEFAULT_DEADLINE: RsvpDeadlineConfig = {
+  date: '',
+  allowLateEdits: false,
+  reminderDaysBefore: DEFAULT_REMINDER_DAYS,
+};
+
+/**
+ * RSVP deadline settings for a wedding.
+ * Sets the RSVP-by date, whether late responses are accepted,
+ * and when guests who haven't responded get an automatic reminder.
+ */
+export function RsvpDeadlineSettings({
+  wedding,
+  onDeadlineChanged,
+}: RsvpDeadlineSettingsProps) {
+  const [deadline, setDeadline] = useState<RsvpDeadlineConfig>(DEFAULT_DEADLINE);
+  const [initialDeadline, setInitialDeadline] = useState<RsvpDeadlineConfig>(DEFAULT_DEADLINE);
+  const [scheduledReminders, setScheduledReminders] = useState<ScheduledEmail[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const hasChanges = JSON.stringify(deadline) !== JSON.stringify(initialDeadline);
+  const hasSavedDeadline = !!wedding.rsvpDeadline;
+
+  useEffect(() => {
+    const current = wedding.rsvpDeadline ?? DEFAULT_DEADLINE;
+    setDeadline(current);
+    setInitialDeadline(current);
+  }, [wedding.id, wedding.rsvpDeadline]);
+
+  const updateDeadline = (changes: Partial<RsvpDeadlineConfig>) => {
+    setDeadline((current) => ({ ...current, ...changes }));
+    setSuccessMessage(null);
+  };
+
+  const toggleReminderDay = (day: number) => {
+    const days = deadline.reminderDaysBefore.includes(day)
+      ? deadline.reminderDaysBefore.filter((d) => d !== day)
+      : [...deadline.reminderDaysBefore, day];
+    updateDeadline({ reminderDaysBefore: days.sort((a, b) => b - a) });
+  };
+
+  const saveDeadline = async (rsvpDeadline: RsvpDeadlineConfig | null) => {
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/rsvp-deadline`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ rsvpDeadline }),
+      });
+
+      const data: ApiResponse<UpdateRsvpDeadlineResponse> = await response.json();
+
+      if (data.ok) {
+        const saved = data.data.wedding.rsvpDeadline ?? DEFAULT_DEADLINE;
+        setDeadline(saved);
+        setInitialDeadline(saved);
+        setScheduledReminders(data.data.scheduledReminders);
+        setSuccessMessage(rsvpDeadline ? 'RSVP deadline saved.' : 'RSVP deadline removed.');
+        onDeadlineChanged?.();
+      } else {
+        setError('message' in data ? (data as { message?: string }).message || 'Unable to update the RSVP deadline. Please try again.' : 'Unable to update the RSVP deadline. Please try again.');
+      }
+    } catch {
+      setError('Unable to update the RSVP deadline. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!deadline.date) {
+      setError('Choose the date guests should respond by.');
+      return;
+    }
+    saveDeadline(deadline);
+  };
+
+  const handleRemove = () => {
+    saveDeadline(null);
+  };
+
+  const disabled = !wedding.features.RSVP;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl text-neutral-800">RSVP deadline</h1>
+        <p className="text-neutral-500 mt-1">
+          Let guests know when to respond by, and remind those who haven't.
+        </p>
+      </div>
+
+      {disabled && (
+        <div className="mb-6 p-4 bg-neutral-50 border border-neutral-200 rounded-lg text-neutral-600">
+          RSVP is currently disabled for your site. Enable it in Site features
+          to set an RSVP deadline.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {successMessage}
+          {scheduledReminders && scheduledReminders.length > 0 && (
+            <span>
+              {' '}
+              {scheduledReminders.length} automatic reminder{scheduledReminders.length !== 1 ? 's' : ''} scheduled.
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-6 mb-8">
+        <div className="p-4 bg-neutral-50 border border-neutral-200 rounded-lg space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">
+              Respond by
+            </label>
+            <input
+              type="date"
+              value={deadline.date}
+              onChange={(e) => updateDeadline({ date: e.target.value })}
+              disabled={disabled}
+              className="w-full sm:w-64 px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-neutral-100"
+            />
+            <p className="text-sm text-neutral-500 mt-1">
+              Shown on your site and in the {'{{rsvp_deadline}}'} email merge field.
+              Guests can respond until the end of this day.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={deadline.allowLateEdits}
+              onChange={(e) => updateDeadline({ allowLateEdits: e.target.checked })}
+              disabled={disabled}
+              className="rounded border-neutral-300 text-primary-500 focus:ring-primary-500"
+            />
+            Accept responses and changes after the deadline
+          </label>
+        </div>
+
+        <div className="p-4 bg-neutral-50 border border-neutral-200 rounded-lg">
+          <h2 className="text-lg text-neutral-800 font-medium mb-1">Automatic reminders</h2>
+          <p className="text-sm text-neutral-500 mb-4">
+            Invited guests who haven't responded get a reminder this many days before the deadline.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {REMINDER_DAY_CHOICES.map((day) => {
+              const selected = deadline.reminderDaysBefore.includes(day);
+              return (
+                <button
+                  key={day}
+                  onClick={() => toggleReminderDay(day)}
+                  disabled={disabled}
+                  className={`px-3 py-1.5 text-sm rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    selected
+                      ? 'bg-primary-500 border-primary-500 text-white'
+                      : 'bg-white border-neutral-300 text-neutral-600 hover:border-primary-400'
+                  }`}
+                >
+                  {day} day{day !== 1 ? 's' : ''}
+                </button>
+              );
+            })}
+          </div>
+          {deadline.reminderDaysBefore.length === 0 && (
+            <p className="text-sm text-neutral-500 mt-3">No automatic reminders will be sent.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-4">
+        {hasSavedDeadline && (
+          <button
+            onClick={handleRemove}
+            disabled={isSaving || disabled}
+            className="px-4 py-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Remove deadline
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !hasChanges || disabled}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save deadline'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  ApiResponse,
+  RsvpLookupMode,
+  UpdateRsvpLookupResponse,
+  Wedding,
+} from '../types';
+
+interface RsvpLookupSettingsProps {
+  wedding: Wedding;
+  onLookupChanged?: () => void;
+}
+
+const LOOKUP_OPTIONS: Array<{
+  value: RsvpLookupMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'email_link',
+    label: 'Email them a link',
+    description: 'The guest gets an RSVP link at the email address on your guest list. Links you already sent keep working.',
+  },
+  {
+    value: 'show_form',
+    label: 'Show the RSVP form',
+    description:
+      'The guest goes straight to their RSVP after entering a postal code or email that matches your list.',
+  },
+];
+
+/**
+ * Find your invitation settings for a wedding.
+ * Guests who lost their invitation email can look themselves up by name on the site;
+ * this chooses whether a match is emailed an RSVP link or shown the form directly.
+ */
+export function RsvpLookupSettings({
+  wedding,
+  onLookupChanged,
+}: RsvpLookupSettingsProps) {
+  const [mode, setMode] = useState<RsvpLookupMode>('email_link');
+  const [initialMode, setInitialMode] = useState<RsvpLookupMode>('email_link');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const hasChanges = mode !== initialMode;
+
+  useEffect(() => {
+    const current = wedding.rsvpLookup ?? 'email_link';
+    setMode(current);
+    setInitialMode(current);
+  }, [wedding.id, wedding.rsvpLookup]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/rsvp-lookup`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ rsvpLookup: mode }),
+      });
+
+      const data: ApiResponse<UpdateRsvpLookupResponse> = await response.json();
+
+      if (data.ok) {
+        const saved = data.data.wedding.rsvpLookup ?? 'email_link';
+        setMode(saved);
+        setInitialMode(saved);
+        setSuccessMessage('Invitation lookup setting saved.');
+        onLookupChanged?.();
+      } else {
+        setError('Unable to update the invitation lookup. Please try again.');
+      }
+    } catch {
+      setError('Unable to update the invitation lookup. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = !wedding.features.RSVP;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl text-neutral-800">Find your invitation</h1>
+        <p className="text-neutral-500 mt-1">
+          Guests who lost their invitation email can look themselves up by name on
+          your site's RSVP page. Choose what happens when we find them.
+        </p>
+      </div>
+
+      {disabled && (
+        <div className="mb-6 p-4 bg-neutral-50 border border-neutral-200 rounded-lg text-neutral-600">
+          RSVP is currently disabled for your site. Enable it in Site features
+          to let guests find their invitation.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        {LOOKUP_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer transition-colors ${
+              mode === option.value
+                ? 'border-primary-500 bg-primary-50'
+                : 'border-neutral-200 bg-neutral-50 hover:border-primary-300'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <input
+              type="radio"
+              name="rsvp-lookup"
+              value={option.value}
+              checked={mode === option.value}
+              onChange={() => {
+                setMode(option.value);
+                setSuccessMessage(null);
+              }}
+              disabled={disabled}
+              className="mt-1 text-primary-500 focus:ring-primary-500"
+            />
+            <span>
+              <span className="block text-neutral-800 font-medium">{option.label}</span>
+              <span className="block text-sm text-neutral-500">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <p className="text-sm text-neutral-500 mb-8">
+        Either way, links you already sent keep working, and the site never tells a
+        visitor whether a name is on your list. Add postal codes to your guest list to
+        help guests who share a name tell themselves apart.
+      </p>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !hasChanges || disabled}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save setting'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  ApiResponse,
+  RsvpNotificationPreference,
+  UpdateRsvpNotificationsResponse,
+  Wedding,
+} from '../types';
+
+interface RsvpNotificationSettingsProps {
+  wedding: Wedding;
+  onPreferenceChanged?: () => void;
+}
+
+const PREFERENCE_OPTIONS: Array<{
+  value: RsvpNotificationPreference;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'instant',
+    label: 'Every response',
+    description: 'Get an email as soon as a guest responds or changes their RSVP.',
+  },
+  {
+    value: 'daily',
+    label: 'Daily digest',
+    description: 'Get one email a day listing every response since the last digest.',
+  },
+  {
+    value: 'off',
+    label: 'Off',
+    description: "Don't email us about RSVPs. Responses still appear in your guest list.",
+  },
+];
+
+/**
+ * RSVP notification settings for a wedding.
+ * Chooses how the couple hears about new and changed RSVPs.
+ * Guests always get a confirmation of their own response.
+ */
+export function RsvpNotificationSettings({
+  wedding,
+  onPreferenceChanged,
+}: RsvpNotificationSettingsProps) {
+  const [preference, setPreference] = useState<RsvpNotificationPreference>('instant');
+  const [initialPreference, setInitialPreference] = useState<RsvpNotificationPreference>('instant');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const hasChanges = preference !== initialPreference;
+
+  useEffect(() => {
+    const current = wedding.rsvpNotifications ?? 'instant';
+    setPreference(current);
+    setInitialPreference(current);
+  }, [wedding.id, wedding.rsvpNotifications]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/rsvp-notifications`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ rsvpNotifications: preference }),
+      });
+
+      const data: ApiResponse<UpdateRsvpNotificationsResponse> = await response.json();
+
+      if (data.ok) {
+        const saved = data.data.wedding.rsvpNotifications ?? 'instant';
+        setPreference(saved);
+        setInitialPreference(saved);
+        setSuccessMessage('Notification preference saved.');
+        onPreferenceChanged?.();
+      } else {
+        setError('Unable to update notifications. Please try again.');
+      }
+    } catch {
+      setError('Unable to update notifications. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = !wedding.features.RSVP;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl text-neutral-800">RSVP notifications</h1>
+        <p className="text-neutral-500 mt-1">
+          Choose how you hear about new and changed RSVPs. Guests always get a
+          confirmation of their answers with a link to update them.
+        </p>
+      </div>
+
+      {disabled && (
+        <div className="mb-6 p-4 bg-neutral-50 border border-neutral-200 rounded-lg text-neutral-600">
+          RSVP is currently disabled for your site. Enable it in Site features
+          to receive RSVP notifications.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="space-y-3 mb-8">
+        {PREFERENCE_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer transition-colors ${
+              preference === option.value
+                ? 'border-primary-500 bg-primary-50'
+                : 'border-neutral-200 bg-neutral-50 hover:border-primary-300'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <input
+              type="radio"
+              name="rsvp-notifications"
+              value={option.value}
+              checked={preference === option.value}
+              onChange={() => {
+                setPreference(option.value);
+                setSuccessMessage(null);
+              }}
+              disabled={disabled}
+              className="mt-1 text-primary-500 focus:ring-primary-500"
+            />
+            <span>
+              <span className="block text-neutral-800 font-medium">{option.label}</span>
+              <span className="block text-sm text-neutral-500">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !hasChanges || disabled}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save preference'}
+        </button>
+      </div>
+    </div>
+  );
+}
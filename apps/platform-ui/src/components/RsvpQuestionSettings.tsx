@@ -0,0 +1,458 @@
+import { useEffect, useState } from 'react';
+import { getAuthToken } from '../lib/auth';
+import type {
+  RsvpQuestion,
+  RsvpQuestionType,
+  ApiResponse,
+  UpdateRsvpQuestionsResponse,
+  Wedding,
+} from '../types';
+
+interface RsvpQuestionSettingsProps {
+  wedding: Wedding;
+  onQuestionsChanged?: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<RsvpQuestionType, string> = {
+  text: 'Short answer',
+  single_choice: 'Single choice',
+  multi_choice: 'Multiple choice',
+  number: 'Number',
+};
+
+const isChoiceType = (type: RsvpQuestionType) =>
+  type === 'single_choice' || type === 'multi_choice';
+
+/**
+ * Custom RSVP question builder for a wedding.
+ * Couples add their own questions (shuttle, song, arrival date) to the RSVP form.
+ */
+export function RsvpQuestionSettings({
+  wedding,
+  onQuestionsChanged,
+}: RsvpQuestionSettingsProps) {
+  const [questions, setQuestions] = useState<RsvpQuestion[]>([]);
+  const [initialQuestions, setInitialQuestions] = useState<RsvpQuestion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const events = wedding.eventDetails?.events ?? [];
+  const hasChanges = JSON.stringify(questions) !== JSON.stringify(initialQuestions);
+
+  useEffect(() => {
+    const sorted = [...(wedding.rsvpQuestions?.questions ?? [])].sort((a, b) => a.order - b.order);
+    setQuestions(sorted);
+    setInitialQuestions(sorted);
+  }, [wedding.id, wedding.rsvpQuestions]);
+
+  const updateQuestions = (updated: RsvpQuestion[]) => {
+    setQuestions(updated.map((question, i) => ({ ...question, order: i })));
+    setSuccessMessage(null);
+  };
+
+  const handleAddQuestion = () => {
+    updateQuestions([
+      ...questions,
+      {
+        id: `question-${Date.now()}`,
+        label: '',
+        type: 'text',
+        required: false,
+        order: questions.length,
+      },
+    ]);
+  };
+
+  const handleUpdateQuestion = (index: number, changes: Partial<RsvpQuestion>) => {
+    const updated = [...questions];
+    updated[index] = { ...updated[index], ...changes };
+    updateQuestions(updated);
+  };
+
+  const handleChangeType = (index: number, type: RsvpQuestionType) => {
+    const current = questions[index];
+    handleUpdateQuestion(index, {
+      type,
+      options: isChoiceType(type) ? current.options ?? ['', ''] : undefined,
+    });
+  };
+
+  const handleDeleteQuestion = (index: number) => {
+    updateQuestions(questions.filter((_, i) => i !== index));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const updated = [...questions];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    updateQuestions(updated);
+  };
+
+  const handleSave = async () => {
+    if (!wedding.features.RSVP) {
+      setError('Enable RSVP in Site features to add RSVP questions.');
+      return;
+    }
+
+    for (const question of questions) {
+      if (!question.label.trim()) {
+        setError('Each question needs a label.');
+        return;
+      }
+      if (isChoiceType(question.type)) {
+        const options = (question.options ?? []).map((option) => option.trim()).filter(Boolean);
+        if (options.length < 2 || new Set(options).size !== options.length) {
+          setError(`"${question.label.trim()}" needs at least two different choices.`);
+          return;
+        }
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${wedding.id}/rsvp-questions`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          rsvpQuestions: {
+            questions: questions.map((question, index) => ({
+              id: question.id,
+              label: question.label.trim(),
+              type: question.type,
+              options: isChoiceType(question.type)
+                ? (question.options ?? []).map((option) => option.trim()).filter(Boolean)
+                : undefined,
+              required: question.required,
+              eventId: question.eventId || undefined,
+              order: index,
+            })),
+          },
+        }),
+      });
+
+      const data: ApiResponse<UpdateRsvpQuestionsResponse> = await response.json();
+
+      if (data.ok) {
+        const saved = [...(data.data.wedding.rsvpQuestions?.questions ?? [])].sort((a, b) => a.order - b.order);
+        setQuestions(saved);
+        setInitialQuestions(saved);
+        setSuccessMessage('RSVP questions updated successfully.');
+        onQuestionsChanged?.();
+      } else {
+        setError('message' in data ? (data as { message?: string }).message || 'Unable to update RSVP questions. Please try again.' : 'Unable to update RSVP questions. Please try again.');
+      }
+    } catch {
+      setError('Unable to update RSVP questions. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = !wedding.features.RSVP;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl text-neutral-800">RSVP questions</h1>
+        <p className="text-neutral-500 mt-1">
+          Ask guests anything else you need to know when they RSVP.
+        </p>
+      </div>
+
+      {disabled && (
+        <div className="mb-6 p-4 bg-neutral-50 border border-neutral-200 rounded-lg text-neutral-600">
+          RSVP is currently disabled for your site. Enable it in Site features
+          to ask guests custom questions.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="space-y-4 mb-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg text-neutral-800 font-medium">Questions</h2>
+          <span className="text-sm text-neutral-500">
+            {questions.length} question{questions.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+
+        {questions.length === 0 ? (
+          <div className="text-center py-8 bg-neutral-50 border border-neutral-200 rounded-lg">
+            <p className="text-neutral-600 mb-4">No custom questions yet</p>
+            <button
+              onClick={handleAddQuestion}
+              disabled={disabled}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add your first question
+            </button>
+          </div>
+        ) : (
+          <>
+            {questions.map((question, index) => (
+              <div
+                key={question.id}
+                className="p-4 bg-neutral-50 border border-neutral-200 rounded-lg"
+              >
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <span className="text-sm text-neutral-500 font-medium">
+                    Question {index + 1}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || disabled}
+                      className="p-1 text-neutral-400 hover:text-neutral-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move up"
+                    >
+                      <ChevronUpIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === questions.length - 1 || disabled}
+                      className="p-1 text-neutral-400 hover:text-neutral-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move down"
+                    >
+                      <ChevronDownIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteQuestion(index)}
+                      disabled={disabled}
+                      className="p-1 text-neutral-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Delete"
+                    >
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">
+                      Question
+                    </label>
+                    <input
+                      type="text"
+                      value={question.label}
+                      onChange={(e) => handleUpdateQuestion(index, { label: e.target.value })}
+                      placeholder="Will you use the shuttle?"
+                      disabled={disabled}
+                      className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-neutral-100"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-neutral-700 mb-1">
+                        Answer type
+                      </label>
+                      <select
+                        value={question.type}
+                        onChange={(e) => handleChangeType(index, e.target.value as RsvpQuestionType)}
+                        disabled={disabled}
+                        className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-neutral-100"
+                      >
+                        {(Object.keys(QUESTION_TYPE_LABELS) as RsvpQuestionType[]).map((type) => (
+                          <option key={type} value={type}>
+                            {QUESTION_TYPE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {events.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-neutral-700 mb-1">
+                          Ask guests of
+                        </label>
+                        <select
+                          value={question.eventId ?? ''}
+                          onChange={(e) => handleUpdateQuestion(index, { eventId: e.target.value || undefined })}
+                          disabled={disabled}
+                          className="w-full px-4 py-3 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-neutral-100"
+                        >
+                          <option value="">All events</option>
+                          {events.map((event) => (
+                            <option key={event.id} value={event.id}>
+                              {event.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+
+                  {isChoiceType(question.type) && (
+                    <div>
+                      <label className="block text-sm font-medium text-neutral-700 mb-1">
+                        Choices
+                      </label>
+                      <div className="space-y-2">
+                        {(question.options ?? []).map((option, optionIndex) => (
+                          <div key={optionIndex} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={option}
+                              onChange={(e) => {
+                                const options = [...(question.options ?? [])];
+                                options[optionIndex] = e.target.value;
+                                handleUpdateQuestion(index, { options });
+                              }}
+                              placeholder={`Choice ${optionIndex + 1}`}
+                              disabled={disabled}
+                              className="flex-1 px-4 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-neutral-100"
+                            />
+                            <button
+                              onClick={() =>
+                                handleUpdateQuestion(index, {
+                                  options: (question.options ?? []).filter((_, i) => i !== optionIndex),
+                                })
+                              }
+                              disabled={disabled}
+                              className="p-1 text-neutral-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                              title="Remove choice"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => handleUpdateQuestion(index, { options: [...(question.options ?? []), ''] })}
+                          disabled={disabled}
+                          className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          + Add choice
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <label className="flex items-center gap-2 text-sm text-neutral-700">
+                    <input
+                      type="checkbox"
+                      checked={question.required}
+                      onChange={(e) => handleUpdateQuestion(index, { required: e.target.checked })}
+                      disabled={disabled}
+                      className="rounded border-neutral-300 text-primary-500 focus:ring-primary-500"
+                    />
+                    Required for attending guests
+                  </label>
+                </div>
+              </div>
+            ))}
+
+            <button
+              onClick={handleAddQuestion}
+              disabled={disabled}
+              className="w-full p-4 border-2 border-dashed border-neutral-300 rounded-lg text-neutral-600 hover:border-primary-400 hover:text-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-neutral-300 disabled:hover:text-neutral-600"
+            >
+              <PlusIcon className="w-5 h-5 inline-block mr-2" />
+              Add another question
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-4">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !hasChanges || disabled}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ChevronUpIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={2}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M4.5 15.75l7.5-7.5 7.5 7.5"
+      />
+    </svg>
+  );
+}
+
+function ChevronDownIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={2}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M19.5 8.25l-7.5 7.5-7.5-7.5"
+      />
+    </svg>
+  );
+}
+
+function TrashIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={1.5}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0"
+      />
+    </svg>
+  );
+}
+
+function PlusIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      viewBox="0 0 24 24"
+      strokeWidth={2}
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M12 4.5v15m7.5-7.5h-15"
+      />
+    </svg>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { getAuthToken } from '../lib/auth';
+import { useSegments } from '../lib/useSegments';
 import type {
   Guest,
   GuestListResponse,
@@ -9,8 +10,49 @@ import type {
   ScheduleEmailResponse,
   CancelScheduledEmailResponse,
   EmailType,
+  GuestSegment,
+  GuestSegmentRules,
+  GuestTag,
+  TagListResponse,
+  RsvpStatus,
+  SegmentEmailStatus,
+  SegmentPreviewResponse,
+  Wedding,
+  WeddingEvent,
 } from '../types';
 
+const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  pending: 'Not responded',
+  attending: 'Attending',
+  not_attending: 'Declined',
+};
+
+const SEGMENT_EMAIL_STATUS_LABELS: Record<SegmentEmailStatus, string> = {
+  not_sent: 'Not sent',
+  pending: 'Queued',
+  delivered: 'Delivered, not opened',
+  opened: 'Opened',
+  bounced: 'Bounced',
+  failed: 'Failed',
+};
+
+const PREVIEW_DELAY_MS = 300;
+
+// Current wall-clock date and time in a time zone, as YYYY-MM-DDTHH:MM
+function nowInTimeZone(timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date());
+  const get = (type: string) => parts.find((part) => part.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+}
+
 interface ScheduledEmailsProps {
   weddingId: string;
 }
@@ -22,8 +64,13 @@ interface ScheduledEmailsProps {
  */
 export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
   const [guests, setGuests] = useState<Guest[]>([]);
+  const [tags, setTags] = useState<GuestTag[]>([]);
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
   const [scheduledEmails, setScheduledEmails] = useState<ScheduledEmail[]>([]);
+  // Send times are wall-clock times in the wedding's time zone
+  const [timeZone, setTimeZone] = useState('UTC');
   const [selectedGuestIds, setSelectedGuestIds] = useState<Set<string>>(new Set());
+  const { segments, reload: reloadSegments } = useSegments(weddingId);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -35,6 +82,12 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
   const [scheduleTime, setScheduleTime] = useState('');
   const [isScheduling, setIsScheduling] = useState(false);
 
+  // Recipients: hand-picked guests, or a segment worked out at send time
+  const [recipientMode, setRecipientMode] = useState<'guests' | 'segment'>('guests');
+  const [scheduleSegmentId, setScheduleSegmentId] = useState('');
+  // null: closed; undefined segment: creating a new one
+  const [segmentEditor, setSegmentEditor] = useState<{ segment?: GuestSegment } | null>(null);
+
   // Cancel confirmation state
   const [cancellingId, setCancellingId] = useState<string | null>(null);
 
@@ -108,18 +161,43 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
 
       if (data.ok) {
         setScheduledEmails(data.data.scheduledEmails);
+        setTimeZone(data.data.timezone);
       }
     } catch {
       // Ignore - we'll show empty list
     }
   }, [weddingId]);
 
+  // Tags and events are only needed to build segment rules
+  const fetchSegmentOptions = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const headers = { Authorization: `Bearer ${token}` };
+      const [tagsResponse, weddingResponse] = await Promise.all([
+        fetch(`/api/weddings/${weddingId}/tags`, { headers }),
+        fetch(`/api/weddings/${weddingId}`, { headers }),
+      ]);
+
+      const tagsData: ApiResponse<TagListResponse> = await tagsResponse.json();
+      if (tagsData.ok) {
+        setTags(tagsData.data.tags);
+      }
+
+      const weddingData: ApiResponse<Wedding> = await weddingResponse.json();
+      if (weddingData.ok) {
+        setEvents(weddingData.data.eventDetails?.events ?? []);
+      }
+    } catch {
+      // Ignore - those rules just won't be offered
+    }
+  }, [weddingId]);
+
   const loadData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
-    await Promise.all([fetchGuests(), fetchScheduledEmails()]);
+    await Promise.all([fetchGuests(), fetchScheduledEmails(), fetchSegmentOptions()]);
     setIsLoading(false);
-  }, [fetchGuests, fetchScheduledEmails]);
+  }, [fetchGuests, fetchScheduledEmails, fetchSegmentOptions]);
 
   useEffect(() => {
     loadData();
@@ -147,7 +225,12 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
 
   const handleScheduleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedGuestIds.size === 0) {
+    const toSegment = recipientMode === 'segment';
+    if (toSegment && !scheduleSegmentId) {
+      setError('Please choose a segment');
+      return;
+    }
+    if (!toSegment && selectedGuestIds.size === 0) {
       setError('Please select at least one guest');
       return;
     }
@@ -157,11 +240,11 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
       return;
     }
 
-    // Combine date and time into ISO string
-    const scheduledAt = new Date(`${scheduleDate}T${scheduleTime}`).toISOString();
+    // Wall-clock time in the wedding's time zone; the API works out the instant
+    const scheduledAt = `${scheduleDate}T${scheduleTime}`;
 
     // Validate it's in the future
-    if (new Date(scheduledAt).getTime() <= Date.now()) {
+    if (scheduledAt <= nowInTimeZone(timeZone)) {
       setError('Scheduled time must be in the future');
       return;
     }
@@ -178,7 +261,9 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
           Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          guestIds: Array.from(selectedGuestIds),
+          ...(toSegment
+            ? { segmentId: scheduleSegmentId }
+            : { guestIds: Array.from(selectedGuestIds) }),
           emailType: scheduleEmailType,
           scheduledAt,
         }),
@@ -187,10 +272,14 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
       const data: ApiResponse<ScheduleEmailResponse> = await response.json();
 
       if (data.ok) {
+        const segmentName = segments.find((segment) => segment.id === scheduleSegmentId)?.name;
         setSuccessMessage(
-          `Scheduled ${getEmailTypeLabel(scheduleEmailType)} for ${selectedGuestIds.size} guest${selectedGuestIds.size !== 1 ? 's' : ''}`
+          toSegment
+            ? `Scheduled ${getEmailTypeLabel(scheduleEmailType)} for "${segmentName ?? 'segment'}"`
+            : `Scheduled ${getEmailTypeLabel(scheduleEmailType)} for ${selectedGuestIds.size} guest${selectedGuestIds.size !== 1 ? 's' : ''}`
         );
         setSelectedGuestIds(new Set());
+        setScheduleSegmentId('');
         setShowScheduleForm(false);
         setScheduleDate('');
         setScheduleTime('');
@@ -205,6 +294,38 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
     }
   };
 
+  const handleSegmentSaved = async (segment: GuestSegment) => {
+    setSegmentEditor(null);
+    setScheduleSegmentId(segment.id);
+    await reloadSegments();
+  };
+
+  const handleDeleteSegment = async (segmentId: string) => {
+    setError(null);
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/segments/${segmentId}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data: ApiResponse<{ deleted: boolean }> = await response.json();
+
+      if (data.ok) {
+        setScheduleSegmentId('');
+        await reloadSegments();
+      } else if (data.error === 'SEGMENT_IN_USE') {
+        setError('This segment is used by a pending scheduled email. Cancel that email first.');
+      } else {
+        setError('Failed to delete segment');
+      }
+    } catch {
+      setError('Failed to delete segment');
+    }
+  };
+
   const handleCancelScheduledEmail = async (scheduledEmailId: string) => {
     setCancellingId(scheduledEmailId);
     setError(null);
@@ -261,6 +382,9 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
         return 'bg-accent-100 text-accent-700';
       case 'cancelled':
         return 'bg-neutral-200 text-neutral-600';
+      case 'orphaned':
+      case 'failed':
+        return 'bg-red-100 text-red-700';
       default:
         return 'bg-neutral-100 text-neutral-500';
     }
@@ -269,17 +393,27 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
   const formatDateTime = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleString(undefined, {
+      timeZone,
       dateStyle: 'medium',
       timeStyle: 'short',
     });
   };
 
-  // Get minimum date for the date picker (today)
-  const getMinDate = () => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
+  // Automatic deadline reminders and segment sends go to whoever matches when they fire
+  const formatRecipients = (email: ScheduledEmail) => {
+    if (email.segmentId) {
+      const segment = segments.find((s) => s.id === email.segmentId);
+      return segment ? `Segment "${segment.name}"` : 'Segment';
+    }
+    if (email.guestIds.length === 0 && email.automatic) {
+      return 'Guests who haven\'t responded';
+    }
+    return `${email.guestIds.length} recipient${email.guestIds.length !== 1 ? 's' : ''}`;
   };
 
+  // Get minimum date for the date picker (today at the wedding)
+  const getMinDate = () => nowInTimeZone(timeZone).split('T')[0];
+
   if (isLoading) {
     return (
       <div className="text-center py-16">
@@ -359,10 +493,15 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
                       >
                         {email.status}
                       </span>
+                      {email.automatic && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">
+                          automatic
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-neutral-500 mt-1">
-                      {email.guestIds.length} recipient{email.guestIds.length !== 1 ? 's' : ''} •
-                      Scheduled for {formatDateTime(email.scheduledAt)}
+                      {formatRecipients(email)} •
+                      Scheduled for {formatDateTime(email.scheduledAt)} ({timeZone})
                     </p>
                   </div>
                   <button
@@ -402,9 +541,14 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
                       >
                         {email.status}
                       </span>
+                      {email.automatic && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">
+                          automatic
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-neutral-500 mt-1">
-                      {email.guestIds.length} recipient{email.guestIds.length !== 1 ? 's' : ''}
+                      {formatRecipients(email)}
                       {email.results && (
                         <span>
                           {' '}
@@ -478,55 +622,145 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
                     className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-neutral-50"
                   />
                 </div>
+                <p className="col-span-2 text-sm text-neutral-500">
+                  Times are in {timeZone}
+                </p>
               </div>
 
-              {/* Guest Selection */}
-              <div className="mb-6">
-                <div className="flex items-center justify-between mb-2">
-                  <label className="block text-sm font-medium text-neutral-700">
-                    Select Recipients
+              {/* Recipients */}
+              <div className="mb-4 flex gap-4">
+                <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="recipientMode"
+                    checked={recipientMode === 'guests'}
+                    onChange={() => setRecipientMode('guests')}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  Choose guests
+                </label>
+                <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="recipientMode"
+                    checked={recipientMode === 'segment'}
+                    onChange={() => setRecipientMode('segment')}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  Send to a segment
+                </label>
+              </div>
+
+              {recipientMode === 'segment' ? (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-neutral-700 mb-2">
+                    Segment
                   </label>
-                  <button
-                    type="button"
-                    onClick={handleSelectAll}
-                    className="text-sm text-primary-600 hover:text-primary-700"
-                  >
-                    {selectedGuestIds.size === guests.length ? 'Deselect all' : 'Select all'}
-                  </button>
+                  <div className="flex gap-2">
+                    <select
+                      value={scheduleSegmentId}
+                      onChange={(e) => setScheduleSegmentId(e.target.value)}
+                      className="flex-1 px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-neutral-50"
+                    >
+                      <option value="">Choose a segment...</option>
+                      {segments.map((segment) => (
+                        <option key={segment.id} value={segment.id}>
+                          {segment.name} ({segment.guestCount} now)
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setSegmentEditor({})}
+                      className="px-3 py-2 text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      New
+                    </button>
+                  </div>
+                  {scheduleSegmentId && (
+                    <div className="mt-2 flex gap-3 text-sm">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSegmentEditor({ segment: segments.find((s) => s.id === scheduleSegmentId) })
+                        }
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        Edit segment
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteSegment(scheduleSegmentId)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete segment
+                      </button>
+                    </div>
+                  )}
+                  <p className="mt-2 text-xs text-neutral-500">
+                    The email goes to whoever is in the segment when it is sent, so guests who
+                    RSVP in the meantime drop out.
+                  </p>
+
+                  {segmentEditor && (
+                    <SegmentEditor
+                      weddingId={weddingId}
+                      segment={segmentEditor.segment}
+                      tags={tags}
+                      events={events}
+                      onSaved={handleSegmentSaved}
+                      onCancel={() => setSegmentEditor(null)}
+                    />
+                  )}
                 </div>
+              ) : (
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-neutral-700">
+                      Select Recipients
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleSelectAll}
+                      className="text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      {selectedGuestIds.size === guests.length ? 'Deselect all' : 'Select all'}
+                    </button>
+                  </div>
 
-                {guests.length === 0 ? (
-                  <p className="text-neutral-500 text-center py-4">
-                    No guests have been added yet.
-                  </p>
+                  {guests.length === 0 ? (
+                    <p className="text-neutral-500 text-center py-4">
+                      No guests have been added yet.
+                    </p>
                 ) : (
-                  <div className="space-y-1 max-h-48 overflow-y-auto border border-neutral-200 rounded-lg p-2">
-                    {guests.map((guest) => (
-                      <label
-                        key={guest.id}
-                        className="flex items-center gap-2 p-2 rounded hover:bg-neutral-100 cursor-pointer"
-                      >
-                        <input
-                          type="checkbox"
-                          checked={selectedGuestIds.has(guest.id)}
-                          onChange={() => handleToggleGuest(guest.id)}
-                          className="w-4 h-4 rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
-                        />
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm text-neutral-800 truncate">{guest.name}</p>
-                          <p className="text-xs text-neutral-500 truncate">{guest.email}</p>
-                        </div>
-                      </label>
-                    ))}
-                  </div>
-                )}
+                    <div className="space-y-1 max-h-48 overflow-y-auto border border-neutral-200 rounded-lg p-2">
+                      {guests.map((guest) => (
+                        <label
+                          key={guest.id}
+                          className="flex items-center gap-2 p-2 rounded hover:bg-neutral-100 cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedGuestIds.has(guest.id)}
+                            onChange={() => handleToggleGuest(guest.id)}
+                            className="w-4 h-4 rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-neutral-800 truncate">{guest.name}</p>
+                            <p className="text-xs text-neutral-500 truncate">{guest.email}</p>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )}
 
-                {selectedGuestIds.size > 0 && (
-                  <p className="mt-2 text-sm text-neutral-600">
-                    {selectedGuestIds.size} guest{selectedGuestIds.size !== 1 ? 's' : ''} selected
-                  </p>
-                )}
-              </div>
+                  {selectedGuestIds.size > 0 && (
+                    <p className="mt-2 text-sm text-neutral-600">
+                      {selectedGuestIds.size} guest{selectedGuestIds.size !== 1 ? 's' : ''} selected
+                    </p>
+                  )}
+                </div>
+              )}
 
               {/* Actions */}
               <div className="flex gap-3 justify-end">
@@ -539,7 +773,10 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
                 </button>
                 <button
                   type="submit"
-                  disabled={isScheduling || selectedGuestIds.size === 0}
+                  disabled={
+                    isScheduling ||
+                    (recipientMode === 'segment' ? !scheduleSegmentId : selectedGuestIds.size === 0)
+                  }
                   className="px-4 py-2 bg-primary-600 text-neutral-50 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isScheduling ? 'Scheduling...' : 'Schedule Email'}
@@ -553,6 +790,227 @@ export function ScheduledEmails({ weddingId }: ScheduledEmailsProps) {
   );
 }
 
+interface SegmentEditorProps {
+  weddingId: string;
+  /** Segment to edit; a new one is created when unset */
+  segment?: GuestSegment;
+  tags: GuestTag[];
+  events: WeddingEvent[];
+  onSaved: (segment: GuestSegment) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Builds segment rules with a live count of the guests they match right now
+ */
+function SegmentEditor({ weddingId, segment, tags, events, onSaved, onCancel }: SegmentEditorProps) {
+  const [name, setName] = useState(segment?.name ?? '');
+  const [rules, setRules] = useState<GuestSegmentRules>(segment?.rules ?? {});
+  const [previewCount, setPreviewCount] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const token = getAuthToken();
+        const response = await fetch(`/api/weddings/${weddingId}/segments/preview`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ rules }),
+        });
+        const data: ApiResponse<SegmentPreviewResponse> = await response.json();
+        if (!cancelled) {
+          setPreviewCount(data.ok ? data.data.count : null);
+        }
+      } catch {
+        if (!cancelled) setPreviewCount(null);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [weddingId, rules]);
+
+  // Toggle a value in one of the list rules, dropping the rule when it empties
+  const toggleRuleValue = <K extends 'rsvpStatuses' | 'tagIds' | 'invitedEventIds' | 'notInvitedEventIds' | 'emailStatuses'>(
+    key: K,
+    value: NonNullable<GuestSegmentRules[K]>[number],
+  ) => {
+    setRules((prev) => {
+      const current = (prev[key] ?? []) as string[];
+      const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+      const updated = { ...prev };
+      if (next.length > 0) {
+        (updated as Record<string, unknown>)[key] = next;
+      } else {
+        delete updated[key];
+      }
+      return updated;
+    });
+  };
+
+  const setInviteSent = (value: string) => {
+    setRules((prev) => {
+      const updated = { ...prev };
+      if (value === '') {
+        delete updated.inviteSent;
+      } else {
+        updated.inviteSent = value === 'sent';
+      }
+      return updated;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please name the segment');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const token = getAuthToken();
+      const response = await fetch(
+        segment
+          ? `/api/weddings/${weddingId}/segments/${segment.id}`
+          : `/api/weddings/${weddingId}/segments`,
+        {
+          method: segment ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ name: name.trim(), rules }),
+        }
+      );
+      const data: ApiResponse<GuestSegment> = await response.json();
+      if (data.ok) {
+        onSaved(data.data);
+      } else {
+        setError('Failed to save segment');
+      }
+    } catch {
+      setError('Failed to save segment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChecklist = <K extends 'rsvpStatuses' | 'tagIds' | 'invitedEventIds' | 'notInvitedEventIds' | 'emailStatuses'>(
+    label: string,
+    key: K,
+    options: Array<{ value: NonNullable<GuestSegmentRules[K]>[number]; label: string }>,
+  ) =>
+    options.length > 0 && (
+      <fieldset className="mb-3">
+        <legend className="text-xs font-medium text-neutral-600 mb-1">{label}</legend>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {options.map((option) => (
+            <label key={option.value} className="flex items-center gap-1.5 text-sm text-neutral-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={((rules[key] ?? []) as string[]).includes(option.value)}
+                onChange={() => toggleRuleValue(key, option.value)}
+                className="w-4 h-4 rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    );
+
+  const eventOptions = events.map((event) => ({ value: event.id, label: event.name }));
+
+  return (
+    <div className="mt-4 p-4 border border-neutral-200 rounded-lg bg-neutral-100">
+      <div className="mb-3">
+        <label className="block text-xs font-medium text-neutral-600 mb-1">Segment name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Invited, no reply yet"
+          className="w-full px-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-neutral-50 text-sm"
+        />
+      </div>
+
+      {renderChecklist(
+        'RSVP status',
+        'rsvpStatuses',
+        (Object.keys(RSVP_STATUS_LABELS) as RsvpStatus[]).map((status) => ({
+          value: status,
+          label: RSVP_STATUS_LABELS[status],
+        })),
+      )}
+      {renderChecklist(
+        'Has any of these tags',
+        'tagIds',
+        tags.map((tag) => ({ value: tag.id, label: tag.name })),
+      )}
+      {renderChecklist('Invited to', 'invitedEventIds', eventOptions)}
+      {renderChecklist('Not invited to', 'notInvitedEventIds', eventOptions)}
+
+      <div className="mb-3">
+        <label className="block text-xs font-medium text-neutral-600 mb-1">Invitation</label>
+        <select
+          value={rules.inviteSent === undefined ? '' : rules.inviteSent ? 'sent' : 'not_sent'}
+          onChange={(e) => setInviteSent(e.target.value)}
+          className="px-3 py-1.5 border border-neutral-300 rounded-lg bg-neutral-50 text-sm"
+        >
+          <option value="">Sent or not</option>
+          <option value="sent">Sent</option>
+          <option value="not_sent">Not sent yet</option>
+        </select>
+      </div>
+
+      {renderChecklist(
+        'Invitation email',
+        'emailStatuses',
+        (Object.keys(SEGMENT_EMAIL_STATUS_LABELS) as SegmentEmailStatus[]).map((status) => ({
+          value: status,
+          label: SEGMENT_EMAIL_STATUS_LABELS[status],
+        })),
+      )}
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-neutral-600" aria-live="polite">
+          {previewCount === null
+            ? 'Counting guests...'
+            : `${previewCount} guest${previewCount !== 1 ? 's' : ''} match right now`}
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-neutral-600 hover:text-neutral-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm bg-primary-600 text-neutral-50 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save segment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Icons
 function ChevronLeftIcon({ className }: { className?: string }) {
   return (
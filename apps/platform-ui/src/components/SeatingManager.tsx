@@ -5,10 +5,29 @@ import type {
   SeatingOverviewResponse,
   CreateTableRequest,
   ApiResponse,
+  SeatingPrintKind,
+  SeatingPrintPaperSize,
+  WeddingEvent,
 } from '../types';
+import { AutoSeatPlanner } from './AutoSeatPlanner';
+import { FloorPlanEditor } from './FloorPlanEditor';
+
+const PRINT_KIND_OPTIONS: Array<{ value: SeatingPrintKind; label: string }> = [
+  { value: 'escort-cards', label: 'Escort cards' },
+  { value: 'place-cards', label: 'Place cards' },
+  { value: 'table-signs', label: 'Table signs' },
+];
+
+const PAPER_SIZE_OPTIONS: Array<{ value: SeatingPrintPaperSize; label: string }> = [
+  { value: 'letter', label: 'Letter sheets' },
+  { value: 'a4', label: 'A4 sheets' },
+  { value: 'tent-3.5x2', label: 'Tented cards (3.5 x 2 in)' },
+];
 
 interface SeatingManagerProps {
   weddingId: string;
+  /** The wedding's events; multi-event weddings get a seating chart per event */
+  events?: WeddingEvent[];
 }
 
 /**
@@ -16,7 +35,9 @@ interface SeatingManagerProps {
  * PRD: "Admin can create table assignments"
  * PRD: "Admin can assign guests to tables"
  */
-export function SeatingManager({ weddingId }: SeatingManagerProps) {
+export function SeatingManager({ weddingId, events = [] }: SeatingManagerProps) {
+  // '' is the main chart; otherwise the event whose chart is being edited
+  const [eventId, setEventId] = useState('');
   const [overview, setOverview] = useState<SeatingOverviewResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -31,11 +52,18 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
   const [editName, setEditName] = useState('');
   const [editCapacity, setEditCapacity] = useState(8);
   const [editNotes, setEditNotes] = useState('');
+  const [showAutoSeat, setShowAutoSeat] = useState(false);
+  const [showFloorPlan, setShowFloorPlan] = useState(false);
+  const [printKind, setPrintKind] = useState<SeatingPrintKind>('escort-cards');
+  const [paperSize, setPaperSize] = useState<SeatingPrintPaperSize>('letter');
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const chartQuery = eventId ? `?eventId=${encodeURIComponent(eventId)}` : '';
 
   const fetchOverview = useCallback(async () => {
     try {
       const token = getAuthToken();
-      const response = await fetch(`/api/weddings/${weddingId}/seating`, {
+      const response = await fetch(`/api/weddings/${weddingId}/seating${chartQuery}`, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -51,7 +79,7 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
     } catch {
       setError('Unable to load seating information');
     }
-  }, [weddingId]);
+  }, [weddingId, chartQuery]);
 
   useEffect(() => {
     const loadData = async () => {
@@ -74,6 +102,7 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
         name: newTableName.trim(),
         capacity: newTableCapacity,
         notes: newTableNotes.trim() || undefined,
+        eventId: eventId || undefined,
       };
 
       const response = await fetch(`/api/weddings/${weddingId}/seating/tables`, {
@@ -195,8 +224,23 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
           const capacityErrors = data.data.errors.filter(
             (e: { error: string }) => e.error === 'TABLE_CAPACITY_EXCEEDED'
           );
+          const alreadyAssignedErrors = data.data.errors.filter(
+            (e: { error: string }) => e.error === 'GUEST_ALREADY_ASSIGNED'
+          );
+          const notInvitedErrors = data.data.errors.filter(
+            (e: { error: string }) => e.error === 'GUEST_NOT_INVITED_TO_EVENT'
+          );
+          const notAttendingErrors = data.data.errors.filter(
+            (e: { error: string }) => e.error === 'GUEST_NOT_ATTENDING_EVENT'
+          );
           if (capacityErrors.length > 0) {
             setError(`${data.data.assigned.length} assigned, ${capacityErrors.length} couldn't fit (table full)`);
+          } else if (alreadyAssignedErrors.length > 0) {
+            setError(`${data.data.assigned.length} assigned, ${alreadyAssignedErrors.length} already seated at another table`);
+          } else if (notInvitedErrors.length > 0) {
+            setError(`${data.data.assigned.length} assigned, ${notInvitedErrors.length} not invited to this event`);
+          } else if (notAttendingErrors.length > 0) {
+            setError(`${data.data.assigned.length} assigned, ${notAttendingErrors.length} declined this event`);
           }
         }
       } else {
@@ -212,7 +256,7 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
   const handleUnassignGuest = async (guestId: string) => {
     try {
       const token = getAuthToken();
-      const response = await fetch(`/api/weddings/${weddingId}/seating/unassign`, {
+      const response = await fetch(`/api/weddings/${weddingId}/seating/unassign${chartQuery}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -233,6 +277,46 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
     }
   };
 
+  const handleDownloadPrint = async () => {
+    setIsPrinting(true);
+    setError(null);
+
+    try {
+      const token = getAuthToken();
+      const response = await fetch(
+        `/api/weddings/${weddingId}/seating/print/${printKind}?paper=${paperSize}${eventId ? `&eventId=${encodeURIComponent(eventId)}` : ''}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        setError(
+          printKind === 'table-signs'
+            ? 'Unable to create table signs. Add tables first.'
+            : 'Unable to create cards. Seat guests at tables first.',
+        );
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${printKind}-${paperSize}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch {
+      setError('Unable to create the PDF');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
   const toggleUnassignedGuest = (guestId: string) => {
     const newSet = new Set(selectedUnassignedGuests);
     if (newSet.has(guestId)) {
@@ -243,6 +327,14 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
     setSelectedUnassignedGuests(newSet);
   };
 
+  const handleChangeChart = (nextEventId: string) => {
+    setEventId(nextEventId);
+    setSelectedTableId(null);
+    setSelectedUnassignedGuests(new Set());
+    setShowAutoSeat(false);
+    setShowFloorPlan(false);
+  };
+
   const startEditingTable = (table: SeatingTable) => {
     setEditingTable(table);
     setEditName(table.name);
@@ -275,9 +367,42 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <div className="flex items-center">
+        <div className="flex items-center gap-4">
           <h2 className="font-serif text-2xl text-neutral-dark">Seating Chart</h2>
+          {events.length > 0 && (
+            <select
+              value={eventId}
+              onChange={(e) => handleChangeChart(e.target.value)}
+              aria-label="Seating chart"
+              className="px-4 py-2 border border-neutral-dark/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              <option value="">Whole wedding</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>{event.name}</option>
+              ))}
+            </select>
+          )}
         </div>
+        {(overview?.tables.length ?? 0) > 0 && (
+          <div className="flex gap-2">
+            {!showFloorPlan && (
+              <button
+                onClick={() => setShowFloorPlan(true)}
+                className="px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+              >
+                Floor plan
+              </button>
+            )}
+            {!showAutoSeat && (
+              <button
+                onClick={() => setShowAutoSeat(true)}
+                className="px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+              >
+                Auto-seat
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {error && (
@@ -322,6 +447,66 @@ export function SeatingManager({ weddingId }: SeatingManagerProps) {
         </div>
       )}
 
+      {showAutoSeat && overview && (
+        <AutoSeatPlanner
+          weddingId={weddingId}
+          eventId={eventId || undefined}
+          tables={overview.tables.map(({ table }) => table)}
+          onApplied={async () => {
+            setShowAutoSeat(false);
+            await fetchOverview();
+          }}
+          onClose={() => setShowAutoSeat(false)}
+        />
+      )}
+
+      {showFloorPlan && overview && (
+        <FloorPlanEditor
+          weddingId={weddingId}
+          eventId={eventId || undefined}
+          overview={overview}
+          onSaved={fetchOverview}
+          onClose={() => setShowFloorPlan(false)}
+        />
+      )}
+
+      {/* Print stationery */}
+      {overview && overview.tables.length > 0 && (
+        <div className="bg-neutral-50 rounded-lg p-6">
+          <h3 className="font-serif text-lg text-neutral-dark mb-1">Print</h3>
+          <p className="text-sm text-neutral-dark/60 mb-4">
+            Print-ready PDFs styled after your site's template, using your seating chart and meal choices.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <select
+              value={printKind}
+              onChange={(e) => setPrintKind(e.target.value as SeatingPrintKind)}
+              className="w-full px-4 py-2 border border-neutral-dark/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              {PRINT_KIND_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={paperSize}
+              onChange={(e) => setPaperSize(e.target.value as SeatingPrintPaperSize)}
+              className="w-full px-4 py-2 border border-neutral-dark/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              {PAPER_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDownloadPrint}
+              disabled={isPrinting}
+              className="w-full px-4 py-2 bg-primary text-neutral-50 rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isPrinting ? 'Creating PDF...' : 'Download PDF'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Create Table Form */}
       <div className="bg-neutral-50 rounded-lg p-6">
         <h3 className="font-serif text-lg text-neutral-dark mb-4">Add a table</h3>
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { getAuthToken } from './auth';
+import type { ApiResponse, EmailCampaignProgress } from '../types';
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Polls the progress of a queued bulk send until every guest is sent, failed or suppressed.
+ * Pass null while there is no campaign; progress resets when the ID changes.
+ */
+export function useCampaignProgress(weddingId: string, campaignId: string | null) {
+  const [progress, setProgress] = useState<EmailCampaignProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    setError(null);
+    if (!campaignId) {
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const token = getAuthToken();
+        const response = await fetch(
+          `/api/weddings/${weddingId}/invitations/campaigns/${campaignId}`,
+          { headers: { Authorization: `Bearer ${token}` } },
+        );
+        const data: ApiResponse<EmailCampaignProgress> = await response.json();
+        if (cancelled) return;
+
+        if (!data.ok) {
+          setError('Unable to load send progress.');
+          return;
+        }
+
+        setProgress(data.data);
+        if (data.data.completed) return;
+      } catch {
+        if (cancelled) return;
+        // Keep polling through brief network errors
+      }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    void poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [weddingId, campaignId]);
+
+  return { progress, error };
+}
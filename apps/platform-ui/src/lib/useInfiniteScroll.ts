@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel element scrolls into view.
+ * Pass `enabled = hasMore && !isLoadingMore`: the observer is re-attached each time
+ * a page finishes loading, so a sentinel that is still visible keeps loading pages.
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+  onLoadMore: () => void,
+  enabled: boolean,
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAuthToken } from './auth';
+import type { ApiResponse, GuestListResponse, GuestSegment, SegmentListResponse } from '../types';
+
+/**
+ * Loads a wedding's saved guest segments with their current guest counts.
+ * Call reload after creating, editing or deleting one.
+ */
+export function useSegments(weddingId: string) {
+  const [segments, setSegments] = useState<GuestSegment[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`/api/weddings/${weddingId}/segments`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: ApiResponse<SegmentListResponse> = await response.json();
+      if (data.ok) {
+        setSegments(data.data.segments);
+      }
+    } catch {
+      // Ignore - segments are optional
+    }
+  }, [weddingId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { segments, reload };
+}
+
+/**
+ * IDs of the guests in a segment right now, or null if they could not be loaded
+ */
+export async function fetchSegmentGuestIds(
+  weddingId: string,
+  segmentId: string,
+): Promise<string[] | null> {
+  try {
+    const token = getAuthToken();
+    const response = await fetch(`/api/weddings/${weddingId}/segments/${segmentId}/guests`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data: ApiResponse<GuestListResponse> = await response.json();
+    return data.ok ? data.data.guests.map((guest) => guest.id) : null;
+  } catch {
+    return null;
+  }
+}
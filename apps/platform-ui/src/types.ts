@@ -176,6 +176,8 @@ export interface WeddingEvent {
   address: string;
   city: string;
   timezone?: string;
+  /** RSVP-by date for this event (YYYY-MM-DD); falls back to the wedding deadline */
+  rsvpDeadline?: string;
 }
 
 /**
@@ -189,7 +191,10 @@ export interface EventDetailsData {
   venue: string;
   address: string;
   city: string;
+  /** Superseded by Wedding.timezone; still used for weddings that never set one */
   timezone?: string;
+  /** Show each event time in the visitor's own time zone too, when it differs */
+  showLocalTime?: boolean;
   /** Array of individual events (ceremony, reception, etc.) */
   events?: WeddingEvent[];
 }
@@ -214,6 +219,8 @@ export interface RenderConfig {
   ogImageUrl?: string;
   /** Site language for i18n */
   language?: string;
+  /** Wedding's IANA time zone; site dates and times are shown in it */
+  timezone?: string;
   wedding: {
     slug: string;
     partnerNames: [string, string];
@@ -342,6 +349,12 @@ export interface Wedding {
   faq?: FaqConfig;
   passcodeConfig?: PasscodeConfig;
   mealConfig?: MealConfig;
+  rsvpQuestions?: RsvpQuestionsConfig;
+  rsvpDeadline?: RsvpDeadlineConfig;
+  /** How the couple hears about new and changed RSVPs (defaults to 'instant') */
+  rsvpNotifications?: RsvpNotificationPreference;
+  /** What happens when a guest finds their invitation on the site (defaults to 'email_link') */
+  rsvpLookup?: RsvpLookupMode;
   registry?: RegistryConfig;
   accommodations?: AccommodationsConfig;
   emailTemplates?: EmailTemplatesConfig;
@@ -352,6 +365,11 @@ export interface Wedding {
   socialConfig?: SocialConfig;
   /** Site language for i18n */
   language?: string;
+  /**
+   * IANA time zone of the venue. Event times, RSVP deadlines and scheduled
+   * sends are wall-clock times in this zone (falls back to eventDetails.timezone, then UTC)
+   */
+  timezone?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -398,6 +416,8 @@ export interface HeroContentData {
   invitationMessage?: string;
   /** Toggle for showing the wedding date in the invitation */
   showDate?: boolean;
+  /** Toggle for a days-to-go countdown, counted in the wedding's time zone */
+  showCountdown?: boolean;
 }
 
 /**
@@ -436,7 +456,10 @@ export interface Guest {
   id: string;
   weddingId: string;
   name: string;
-  email: string;
+  /** Unset only for household members; the household contact receives their emails */
+  email?: string;
+  /** Household (invitation party) this guest belongs to */
+  householdId?: string;
   partySize: number;
   rsvpStatus: RsvpStatus;
   dietaryNotes?: string;
@@ -448,11 +471,19 @@ export interface Guest {
   plusOneGuests?: PlusOneGuest[];
   /** Selected meal option ID for the primary guest (if meal selection is enabled) */
   mealOptionId?: string;
+  /** Answers to the wedding's custom RSVP questions */
+  rsvpAnswers?: RsvpAnswerMap;
   /**
    * Guest has opted out of being shown in photos
    * PRD: "Guest can opt out of photo display"
    */
   photoOptOut?: boolean;
+  /** Mailing postal code; lets guests verify themselves when looking up their invitation */
+  postalCode?: string;
+  /** Language for the guest's emails; unset means the wedding site's language */
+  preferredLanguage?: SupportedLanguage;
+  /** Signed into the guest's calendar feed URL; incremented to revoke old URLs */
+  calendarFeedVersion?: number;
   inviteSentAt?: string;
   rsvpSubmittedAt?: string;
   createdAt: string;
@@ -464,9 +495,14 @@ export interface Guest {
  */
 export interface CreateGuestRequest {
   name: string;
-  email: string;
+  /** Required unless the guest is added to a household */
+  email?: string;
   partySize?: number;
   plusOneAllowance?: number;
+  /** Add the guest as a member of this household */
+  householdId?: string;
+  postalCode?: string;
+  preferredLanguage?: SupportedLanguage;
 }
 
 /**
@@ -478,6 +514,17 @@ export interface UpdateGuestRequest {
   partySize?: number;
   dietaryNotes?: string;
   plusOneAllowance?: number;
+  postalCode?: string;
+  /** null clears the preference */
+  preferredLanguage?: SupportedLanguage | null;
+}
+
+/**
+ * Response when a guest's calendar feed link is reset
+ */
+export interface CalendarFeedResponse {
+  /** New webcal:// feed URL; the previous one stops working */
+  calendarFeedUrl: string;
 }
 
 /**
@@ -488,6 +535,54 @@ export interface GuestListResponse {
   total: number;
 }
 
+// ============================================================================
+// Household Types (Invitation Parties)
+// ============================================================================
+
+/**
+ * A household / invitation party: several named guests sharing one invitation
+ * and one RSVP link. Each member is a Guest with their own RSVP answers; the
+ * contact receives emails and holds the shared RSVP token.
+ */
+export interface Household {
+  id: string;
+  weddingId: string;
+  name: string;
+  /** Member who receives the invitation and holds the shared RSVP token */
+  primaryGuestId?: string;
+  /** Guest IDs of every member, including the contact */
+  memberIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request body for creating a household from existing guests
+ */
+export interface CreateHouseholdRequest {
+  name: string;
+  guestIds: string[];
+  /** Defaults to the first listed guest with an email */
+  primaryGuestId?: string;
+}
+
+/**
+ * Request body for updating a household
+ * `guestIds` replaces the member list; removed members must have an email
+ */
+export interface UpdateHouseholdRequest {
+  name?: string;
+  guestIds?: string[];
+  primaryGuestId?: string;
+}
+
+/**
+ * Household list response
+ */
+export interface HouseholdListResponse {
+  households: Household[];
+}
+
 // ============================================================================
 // RSVP Summary Types (Admin Dashboard)
 // ============================================================================
@@ -496,11 +591,15 @@ export interface GuestListResponse {
  * RSVP summary counts for admin dashboard
  */
 export interface RsvpSummary {
+  /** People invited: every household member counts, not just the email recipient */
   total: number;
   attending: number;
   notAttending: number;
   pending: number;
+  /** Attending headcount */
   totalPartySize: number;
+  /** Invitations sent out: households plus guests not in a household */
+  invitations: number;
 }
 
 /**
@@ -509,6 +608,8 @@ export interface RsvpSummary {
 export interface RsvpSummaryResponse {
   summary: RsvpSummary;
   guests: Guest[];
+  /** Custom RSVP questions, so answers on each guest can be tallied */
+  questions: RsvpQuestion[];
 }
 
 // ============================================================================
@@ -522,6 +623,7 @@ export interface CsvGuestRow {
   name: string;
   email: string;
   partySize?: number;
+  postalCode?: string;
 }
 
 /**
@@ -563,7 +665,7 @@ export type EmailStatus = 'pending' | 'sent' | 'delivered' | 'bounced' | 'failed
 /**
  * Type of email sent
  */
-export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update';
+export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update' | 'rsvp_confirmation';
 
 /**
  * Bounce type from email provider webhooks
@@ -593,6 +695,16 @@ export interface EmailOutbox {
   bounceReason?: string;
   errorMessage?: string;
   attempts: number;
+  /** First open (from webhook); a click without a tracked open also counts */
+  openedAt?: string;
+  openCount: number;
+  /** First link click (from webhook) */
+  clickedAt?: string;
+  clickCount: number;
+  /** Recipient marked the email as spam (from webhook) */
+  spamReportedAt?: string;
+  /** Recipient unsubscribed through the email (from webhook) */
+  unsubscribedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -604,26 +716,11 @@ export interface EmailOutboxResponse {
   emails: EmailOutbox[];
 }
 
-/**
- * Result of sending a single invitation
- */
-export interface SendInvitationResult {
-  guestId: string;
-  guestName: string;
-  email: string;
-  success: boolean;
-  error?: string;
-}
-
 /**
  * Response from send invitations endpoint
+ * Invitations are sent by the worker; poll the campaign for progress.
  */
-export interface SendInvitationsResponse {
-  sent: number;
-  failed: number;
-  total: number;
-  results: SendInvitationResult[];
-}
+export type SendInvitationsResponse = EmailCampaignStartedResponse;
 
 // ============================================================================
 // Save-the-Date Email Types
@@ -636,26 +733,10 @@ export interface SendSaveTheDateRequest {
   guestIds: string[];
 }
 
-/**
- * Result of sending a single save-the-date email
- */
-export interface SendSaveTheDateResult {
-  guestId: string;
-  guestName: string;
-  email: string;
-  success: boolean;
-  error?: string;
-}
-
 /**
  * Response from send save-the-date endpoint
  */
-export interface SendSaveTheDateResponse {
-  sent: number;
-  failed: number;
-  total: number;
-  results: SendSaveTheDateResult[];
-}
+export type SendSaveTheDateResponse = EmailCampaignStartedResponse;
 
 // ============================================================================
 // Thank-You Email Types
@@ -669,24 +750,60 @@ export interface SendThankYouRequest {
 }
 
 /**
- * Result of sending a single thank-you email
+ * Response from send thank-you endpoint
+ */
+export type SendThankYouResponse = EmailCampaignStartedResponse;
+
+// ============================================================================
+// Email Campaign Types
+// Bulk sends run on the worker queue; the dashboard polls their progress
+// ============================================================================
+
+/**
+ * Email types sent as a campaign
+ */
+export type CampaignEmailType = 'invitation' | 'save_the_date' | 'thank_you';
+
+/**
+ * Response when a bulk send has been queued
+ */
+export interface EmailCampaignStartedResponse {
+  campaignId: string;
+  total: number;
+}
+
+/**
+ * Delivery state of one selected guest in a campaign
+ * suppressed: skipped because the address is on the suppression list
+ */
+export type EmailCampaignRecipientStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
+
+/**
+ * Outcome for one selected guest
  */
-export interface SendThankYouResult {
+export interface EmailCampaignRecipientResult {
   guestId: string;
   guestName: string;
   email: string;
-  success: boolean;
+  status: EmailCampaignRecipientStatus;
   error?: string;
 }
 
 /**
- * Response from send thank-you endpoint
+ * Progress of a campaign
  */
-export interface SendThankYouResponse {
+export interface EmailCampaignProgress {
+  campaignId: string;
+  emailType: CampaignEmailType;
+  total: number;
+  pending: number;
   sent: number;
   failed: number;
-  total: number;
-  results: SendThankYouResult[];
+  suppressed: number;
+  /** True once every selected guest is sent, failed or suppressed */
+  completed: boolean;
+  results: EmailCampaignRecipientResult[];
+  createdAt: string;
 }
 
 // ============================================================================
@@ -694,20 +811,36 @@ export interface SendThankYouResponse {
 // PRD: "Admin can schedule emails for future send"
 // ============================================================================
 
+/**
+ * Scheduled email lifecycle status.
+ * 'orphaned' marks sends interrupted before runs could be resumed; boot
+ * reconciliation now re-queues interrupted sends instead, so it is no longer set.
+ * 'failed' means every attempt failed; the job waits in the dead-letter queue.
+ */
+export type ScheduledEmailStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'cancelled'
+  | 'orphaned'
+  | 'failed';
+
 /**
  * A scheduled email record for tracking scheduled sends
  */
 export interface ScheduledEmail {
   id: string;
   weddingId: string;
-  /** Array of guest IDs to send to */
+  /** Array of guest IDs to send to (empty when sent to a segment) */
   guestIds: string[];
+  /** Segment evaluated at send time instead of guestIds */
+  segmentId?: string;
   /** Type of email to send */
   emailType: EmailType;
   /** ISO timestamp when the email should be sent */
   scheduledAt: string;
   /** Status of the scheduled email */
-  status: 'pending' | 'processing' | 'completed' | 'cancelled';
+  status: ScheduledEmailStatus;
   /** When the scheduled email was created */
   createdAt: string;
   /** When the scheduled email was last updated */
@@ -720,13 +853,17 @@ export interface ScheduledEmail {
     failed: number;
     total: number;
   };
+  /** Created by the RSVP deadline reminder cadence rather than by hand */
+  automatic?: boolean;
 }
 
 /**
  * Request body for scheduling emails
+ * Either guestIds or segmentId; a segment's guests are worked out when the email is sent.
  */
 export interface ScheduleEmailRequest {
-  guestIds: string[];
+  guestIds?: string[];
+  segmentId?: string;
   emailType: EmailType;
   /** ISO timestamp when the email should be sent */
   scheduledAt: string;
@@ -745,6 +882,8 @@ export interface ScheduleEmailResponse {
  */
 export interface ScheduledEmailsListResponse {
   scheduledEmails: ScheduledEmail[];
+  /** Wedding's time zone, for showing send times as the couple scheduled them */
+  timezone: string;
 }
 
 /**
@@ -768,17 +907,39 @@ export interface EmailStatistics {
   delivered: number;
   failed: number;
   pending: number;
+  opened: number;
+  clicked: number;
+  spamReports: number;
+  unsubscribes: number;
   /** Open rate - percentage of delivered emails that were opened (if tracking enabled) */
   openRate?: number;
+  /** Click rate - percentage of delivered emails with a link clicked */
+  clickRate?: number;
   /** Breakdown by email type */
   byType: {
-    invitation: { sent: number; delivered: number; failed: number };
-    reminder: { sent: number; delivered: number; failed: number };
-    save_the_date: { sent: number; delivered: number; failed: number };
-    thank_you: { sent: number; delivered: number; failed: number };
+    invitation: EmailTypeStatistics;
+    reminder: EmailTypeStatistics;
+    save_the_date: EmailTypeStatistics;
+    thank_you: EmailTypeStatistics;
   };
 }
 
+/**
+ * Delivery and engagement statistics for one email type
+ * Rates are whole percentages of delivered emails, left out until one is delivered.
+ */
+export interface EmailTypeStatistics {
+  sent: number;
+  delivered: number;
+  failed: number;
+  opened: number;
+  clicked: number;
+  openRate?: number;
+  clickRate?: number;
+  /** Median minutes from sending to first open, once an email has been opened */
+  medianMinutesToOpen?: number;
+}
+
 /**
  * Response from email statistics endpoint
  */
@@ -786,6 +947,45 @@ export interface EmailStatisticsResponse {
   statistics: EmailStatistics;
 }
 
+/**
+ * An email the worker gave up on (permanent failure or out of retries),
+ * waiting in the dead-letter queue to be retried or discarded
+ */
+export interface DeadLetteredEmail {
+  id: string;
+  queueName: string;
+  /** 'rsvp_notification' is a new-RSVP notification to the couple */
+  emailType: EmailType | 'rsvp_notification';
+  toEmail?: string;
+  toName?: string;
+  subject?: string;
+  /** Number of guests, for scheduled sends */
+  guestCount?: number;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+/**
+ * Why an address is suppressed
+ * - hard_bounce: the address does not exist; stops all mail
+ * - spam_report: the guest marked an email as spam; stops all mail
+ * - unsubscribed: the guest opted out; stops non-essential mail only
+ */
+export type EmailSuppressionReason = 'hard_bounce' | 'spam_report' | 'unsubscribed';
+
+/**
+ * An address on the wedding's suppression list
+ */
+export interface EmailSuppression {
+  id: string;
+  weddingId: string;
+  email: string;
+  reason: EmailSuppressionReason;
+  detail?: string;
+  createdAt: string;
+}
+
 // ============================================================================
 // Photo Moderation Types
 // ============================================================================
@@ -821,6 +1021,10 @@ export interface PhotoMetadata {
   moderationStatus: PhotoModerationStatus;
   /** When the photo was moderated */
   moderatedAt?: string;
+  /** Signed URL for viewing the photo (expires at urlExpiresAt) */
+  url?: string;
+  /** ISO timestamp when the signed URL stops working */
+  urlExpiresAt?: string;
 }
 
 /**
@@ -946,6 +1150,144 @@ export interface UpdateMealOptionsResponse {
   renderConfig: RenderConfig;
 }
 
+// ============================================================================
+// Custom RSVP Question Types
+// ============================================================================
+
+/**
+ * Answer format for a custom RSVP question
+ */
+export type RsvpQuestionType = 'text' | 'single_choice' | 'multi_choice' | 'number';
+
+/**
+ * A question the couple adds to the RSVP form (e.g., "Will you use the shuttle?")
+ */
+export interface RsvpQuestion {
+  id: string;
+  label: string;
+  type: RsvpQuestionType;
+  /** Choices for single_choice and multi_choice questions */
+  options?: string[];
+  /** Guests attending (the question's event, if set) must answer */
+  required: boolean;
+  /** Only ask guests invited to this event; unset asks everyone */
+  eventId?: string;
+  order: number;
+}
+
+/**
+ * Custom RSVP question configuration for a wedding
+ */
+export interface RsvpQuestionsConfig {
+  questions: RsvpQuestion[];
+}
+
+/**
+ * A guest's answer: text and single_choice are strings, multi_choice a list of options
+ */
+export type RsvpAnswerValue = string | number | string[];
+
+/**
+ * A guest's answers keyed by question ID
+ */
+export type RsvpAnswerMap = Record<string, RsvpAnswerValue>;
+
+/**
+ * Request to update custom RSVP questions
+ */
+export interface UpdateRsvpQuestionsRequest {
+  rsvpQuestions: RsvpQuestionsConfig;
+}
+
+/**
+ * Response after updating custom RSVP questions
+ */
+export interface UpdateRsvpQuestionsResponse {
+  wedding: Wedding;
+}
+
+// ============================================================================
+// RSVP Deadline Types
+// ============================================================================
+
+/**
+ * RSVP deadline configuration for a wedding
+ */
+export interface RsvpDeadlineConfig {
+  /** Last day to respond (YYYY-MM-DD, inclusive) */
+  date: string;
+  /** Keep accepting responses and edits after the deadline */
+  allowLateEdits: boolean;
+  /** Remind guests who haven't responded this many days before the deadline */
+  reminderDaysBefore: number[];
+}
+
+/**
+ * Request to set or clear the RSVP deadline
+ */
+export interface UpdateRsvpDeadlineRequest {
+  rsvpDeadline: RsvpDeadlineConfig | null;
+}
+
+/**
+ * Response after updating the RSVP deadline
+ */
+export interface UpdateRsvpDeadlineResponse {
+  wedding: Wedding;
+  scheduledReminders: ScheduledEmail[];
+}
+
+// ============================================================================
+// RSVP Notification Types
+// ============================================================================
+
+/**
+ * How the couple is told about new and changed RSVPs
+ * - instant: one email per submission
+ * - daily: one digest email per day with every response since the last one
+ * - off: no emails
+ */
+export type RsvpNotificationPreference = 'instant' | 'daily' | 'off';
+
+/**
+ * Request to update the couple's RSVP notification preference
+ */
+export interface UpdateRsvpNotificationsRequest {
+  rsvpNotifications: RsvpNotificationPreference;
+}
+
+/**
+ * Response after updating the RSVP notification preference
+ */
+export interface UpdateRsvpNotificationsResponse {
+  wedding: Wedding;
+}
+
+// ============================================================================
+// RSVP Lookup Types (Find Your Invitation)
+// ============================================================================
+
+/**
+ * What happens when a guest finds their invitation on the wedding site
+ * - email_link: a short-lived RSVP link is emailed to the guest (or their household contact)
+ * - show_form: the guest is taken straight to the RSVP form once their postal code or email checks out
+ */
+export type RsvpLookupMode = 'email_link' | 'show_form';
+
+/**
+ * Request to update what happens when a guest finds their invitation
+ */
+export interface UpdateRsvpLookupRequest {
+  rsvpLookup: RsvpLookupMode;
+}
+
+/**
+ * Response after updating the invitation lookup setting
+ */
+export interface UpdateRsvpLookupResponse {
+  wedding: Wedding;
+}
+
 // ============================================================================
 // Guest Tag Types (Segmentation)
 // ============================================================================
@@ -976,6 +1318,70 @@ export interface AssignTagsRequest {
   tagIds: string[];
 }
 
+// ============================================================================
+// Guest Segment Types
+// Saved audiences defined by rules and evaluated whenever they are used
+// ============================================================================
+
+/**
+ * Where a guest's latest invitation email stands.
+ * 'delivered' covers sent and delivered emails that have not been opened.
+ */
+export type SegmentEmailStatus =
+  | 'not_sent'
+  | 'pending'
+  | 'delivered'
+  | 'opened'
+  | 'bounced'
+  | 'failed';
+
+/**
+ * Rules a guest must match to be in a segment.
+ * Every rule that is set must match; a list matches if any of its values does.
+ */
+export interface GuestSegmentRules {
+  /** RSVP status is one of these */
+  rsvpStatuses?: RsvpStatus[];
+  /** Has at least one of these tags */
+  tagIds?: string[];
+  /** Invited to at least one of these events */
+  invitedEventIds?: string[];
+  /** Invited to none of these events */
+  notInvitedEventIds?: string[];
+  /** Invitation has (true) or has not (false) been sent */
+  inviteSent?: boolean;
+  /** Latest invitation email status is one of these */
+  emailStatuses?: SegmentEmailStatus[];
+}
+
+/**
+ * A saved guest segment with the number of guests currently in it
+ */
+export interface GuestSegment {
+  id: string;
+  weddingId: string;
+  name: string;
+  rules: GuestSegmentRules;
+  guestCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Response containing segment list
+ */
+export interface SegmentListResponse {
+  segments: GuestSegment[];
+}
+
+/**
+ * Guests matching a set of rules right now
+ */
+export interface SegmentPreviewResponse {
+  count: number;
+  guestIds: string[];
+}
+
 // ============================================================================
 // Guestbook Types
 // ============================================================================
@@ -1003,6 +1409,8 @@ export interface GuestbookMessage {
  */
 export interface GuestbookMessagesResponse {
   messages: GuestbookMessage[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -1036,7 +1444,10 @@ export interface SongRequest {
  */
 export interface SongRequestListResponse {
   songRequests: SongRequest[];
+  /** Total number of song requests for the wedding (across all pages) */
   total: number;
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 // ============================================================================
@@ -1049,13 +1460,125 @@ export interface SongRequestListResponse {
 export interface SeatingTable {
   id: string;
   weddingId: string;
+  /** WeddingEvent this table belongs to; absent for the main chart */
+  eventId?: string;
   name: string;
   capacity: number;
   notes?: string;
   order: number;
+  shape: SeatingTableShape;
+  width: number;
+  height: number;
+  placement?: FloorPlanPlacement;
+  seats: SeatingSeat[];
   createdAt: string;
 }
 
+/**
+ * Table shape on the floor plan
+ * - head: long table with guests seated along one side, facing the room
+ */
+export type SeatingTableShape = 'round' | 'rectangle' | 'head';
+
+/**
+ * Position of a table or fixture on the floor plan
+ * x/y are the center in floor plan units from the room's top-left corner;
+ * rotation is clockwise in degrees
+ */
+export interface FloorPlanPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+/**
+ * A fixed seat at a table
+ * x/y are relative to the table's center, before the table is rotated
+ */
+export interface SeatingSeat {
+  /** Seat number within the table, matched by SeatingAssignment.seatNumber */
+  number: number;
+  /** Optional name shown instead of the number (e.g., "Bride", "Groom") */
+  label?: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Kind of venue fixture
+ */
+export type VenueFixtureKind = 'dance_floor' | 'stage' | 'bar' | 'other';
+
+/**
+ * Something in the room that isn't a table (dance floor, stage, bar)
+ */
+export interface VenueFixture {
+  id: string;
+  kind: VenueFixtureKind;
+  label?: string;
+  width: number;
+  height: number;
+  placement: FloorPlanPlacement;
+}
+
+/**
+ * Room size in floor plan units
+ */
+export interface FloorPlanRoom {
+  width: number;
+  height: number;
+}
+
+/**
+ * A table's floor plan settings, saved together with the rest of the layout
+ */
+export interface FloorPlanTableLayout {
+  tableId: string;
+  shape: SeatingTableShape;
+  width: number;
+  height: number;
+  placement?: FloorPlanPlacement;
+  seats: SeatingSeat[];
+}
+
+/**
+ * The wedding's floor plan: room, table layouts and venue fixtures
+ */
+export interface FloorPlanLayout {
+  room: FloorPlanRoom;
+  tables: FloorPlanTableLayout[];
+  fixtures: VenueFixture[];
+}
+
+/**
+ * Request to save the floor plan
+ * Tables not listed keep their current layout
+ */
+export type SaveFloorPlanRequest = FloorPlanLayout;
+
+/**
+ * Printable seating stationery
+ * - escort-cards: alphabetical cards telling each guest their table
+ * - place-cards: folded cards for each seat, with the guest's meal icon
+ * - table-signs: one number sign per table
+ */
+export type SeatingPrintKind = 'escort-cards' | 'place-cards' | 'table-signs';
+
+/**
+ * Paper to print on
+ * - letter / a4: sheets of cards with cut and fold marks (table signs fill the page)
+ * - tent-3.5x2: pre-cut tented cards, one card per page, folded to 3.5 x 2 inches
+ */
+export type SeatingPrintPaperSize = 'letter' | 'a4' | 'tent-3.5x2';
+
+/**
+ * Request to seat an assigned guest in one of their table's named seats
+ * (null clears the seat, leaving the guest at the table)
+ */
+export interface AssignSeatRequest {
+  seatNumber: number | null;
+}
+
 /**
  * Seating configuration for display
  */
@@ -1080,6 +1603,8 @@ export interface CreateTableRequest {
   name: string;
   capacity: number;
   notes?: string;
+  /** WeddingEvent whose chart gets the table (omit for the main chart) */
+  eventId?: string;
 }
 
 /**
@@ -1131,6 +1656,76 @@ export interface SeatingOverviewResponse {
   };
 }
 
+/**
+ * Constraints for the automatic seating planner (all optional)
+ * Constraints are soft: the planner returns its best plan and lists any it had to break
+ */
+export interface AutoSeatConstraints {
+  /** Seat each household at one table (default true) */
+  keepHouseholdsTogether?: boolean;
+  /** Groups to seat together: everyone with a tag (e.g. "College Friends"), or a hand-picked set of guests */
+  keepTogether?: Array<{ tagId?: string; guestIds?: string[] }>;
+  /** Pairs of guests who must not share a table */
+  keepApart?: Array<{ guestIds: [string, string] }>;
+  /** Guests who must sit at a specific table */
+  pins?: Array<{ guestId: string; tableId: string }>;
+  /** Fill tables one at a time in display order instead of spreading guests out */
+  fillInOrder?: boolean;
+}
+
+/**
+ * Request to preview an automatic seating plan
+ */
+export interface AutoSeatRequest {
+  constraints?: AutoSeatConstraints;
+  /** Also seat guests who haven't responded yet (default: attending guests only) */
+  includePending?: boolean;
+  /** Keep guests who are already seated at their current table */
+  keepCurrentSeats?: boolean;
+}
+
+/**
+ * One guest's table in a seating plan
+ */
+export interface SeatingPlanAssignment {
+  guestId: string;
+  tableId: string;
+}
+
+/**
+ * Kind of constraint a seating plan could not meet
+ * - capacity: not enough free seats for everyone
+ */
+export type UnmetSeatingConstraintType = 'capacity' | 'keep_together' | 'keep_apart' | 'pin';
+
+/**
+ * A constraint the seating plan breaks, with the guests involved
+ */
+export interface UnmetSeatingConstraint {
+  type: UnmetSeatingConstraintType;
+  guestIds: string[];
+  message: string;
+}
+
+/**
+ * Proposed seating from the automatic planner (nothing is saved until it is applied)
+ */
+export interface SeatingPlan {
+  assignments: SeatingPlanAssignment[];
+  /** Guests the plan could not find a seat for */
+  unseatedGuestIds: string[];
+  /** 0-100: share of guests seated and constraints met */
+  score: number;
+  unmetConstraints: UnmetSeatingConstraint[];
+}
+
+/**
+ * Request to apply a seating plan, replacing every current table assignment
+ */
+export interface ApplySeatingPlanRequest {
+  assignments: SeatingPlanAssignment[];
+}
+
 // ============================================================================
 // Gallery Types (Admin-curated photos)
 // PRD: "Admin can upload curated photos"
@@ -1185,10 +1780,9 @@ export interface EmailTemplateContent {
 }
 
 /**
- * Email templates configuration for a wedding
- * Each email type can have its own customized template
+ * One customized template per email type
  */
-export interface EmailTemplatesConfig {
+export interface EmailTemplateSet {
   /** Custom invitation email template */
   invitation?: EmailTemplateContent;
   /** Custom reminder email template */
@@ -1201,6 +1795,20 @@ export interface EmailTemplatesConfig {
   thankYouNotAttended?: EmailTemplateContent;
 }
 
+/**
+ * Email templates configuration for a wedding
+ * Guests whose language has a variant get that one; everyone else gets the top-level template.
+ */
+export interface EmailTemplatesConfig extends EmailTemplateSet {
+  /** Templates for guests who read a particular language */
+  byLanguage?: Partial<Record<SupportedLanguage, EmailTemplateSet>>;
+}
+
+/**
+ * Email template type, as keyed in EmailTemplateSet
+ */
+export type EmailTemplateType = keyof EmailTemplateSet;
+
 /**
  * Response after updating email templates
  */
@@ -1208,6 +1816,46 @@ export interface UpdateEmailTemplatesResponse {
   wedding: Wedding;
 }
 
+/**
+ * A problem with one part of a custom email template
+ */
+export interface EmailTemplateError {
+  templateType: EmailTemplateType;
+  field: keyof EmailTemplateContent;
+  /** Set when the problem is in a language variant */
+  language?: SupportedLanguage;
+  message: string;
+}
+
+/**
+ * Error body when a template has invalid merge tags
+ */
+export interface EmailTemplateValidationError extends ApiError {
+  message: string;
+  errors?: EmailTemplateError[];
+}
+
+/**
+ * Request to render a template for one guest
+ */
+export interface PreviewEmailTemplateRequest {
+  templateType: EmailTemplateType;
+  guestId: string;
+  /** Unsaved template to preview (defaults to the saved one) */
+  template?: EmailTemplateContent;
+  /** Language variant being previewed (defaults to the guest's language) */
+  language?: SupportedLanguage;
+}
+
+/**
+ * A template rendered for one guest
+ */
+export interface PreviewEmailTemplateResponse {
+  subject: string;
+  bodyText: string;
+  bodyHtml: string;
+}
+
 // ============================================================================
 // Video Embed Types
 // PRD: "Admin can embed videos"
@@ -1409,6 +2057,33 @@ export interface LanguageListResponse {
  */
 export const INVALID_LANGUAGE = 'INVALID_LANGUAGE' as const;
 
+// ============================================================================
+// Time Zone Types
+// ============================================================================
+
+/**
+ * Request to set the wedding's time zone
+ */
+export interface UpdateTimeZoneRequest {
+  /** IANA time zone name, e.g. Europe/Lisbon */
+  timezone: string;
+}
+
+/**
+ * Response after setting the time zone
+ */
+export interface UpdateTimeZoneResponse {
+  wedding: Wedding;
+  renderConfig: RenderConfig;
+  /** Automatic deadline reminders, rescheduled for the new zone */
+  scheduledReminders: ScheduledEmail[];
+}
+
+/**
+ * Unknown time zone error
+ */
+export const INVALID_TIMEZONE = 'INVALID_TIMEZONE' as const;
+
 // ============================================================================
 // Custom Domain Types
 // PRD: "Admin can connect custom domain"
@@ -0,0 +1,75 @@
+import type { Context } from '@netlify/functions';
+import {
+  handleCors,
+  parseJsonBody,
+  successResponse,
+  errorResponse,
+  ErrorCodes,
+} from './utils/response';
+import { apiPost, getStatusFromResponse } from './utils/platform-api';
+
+interface RsvpLookupRequest {
+  slug: string;
+  name: string;
+  lastName?: string;
+  postalCode?: string;
+  email?: string;
+  passcode?: string;
+}
+
+interface RsvpLookupResponse {
+  status: 'link_sent' | 'found' | 'needs_verification';
+  sentTo?: string;
+  token?: string;
+}
+
+/**
+ * POST /rsvp-lookup
+ *
+ * Find your invitation: guests who lost their invitation email look
+ * themselves up by name and get an RSVP link (or the RSVP form)
+ * The visitor's IP is forwarded so the Platform API rate limits per visitor
+ */
+export default async function handler(request: Request, context: Context): Promise<Response> {
+  // Handle CORS
+  const corsResponse = handleCors(request);
+  if (corsResponse) return corsResponse;
+
+  // Only allow POST
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  // Parse request body
+  const body = await parseJsonBody<RsvpLookupRequest>(request);
+
+  if (!body || !body.slug || !body.name?.trim()) {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, 400);
+  }
+
+  try {
+    // Call Platform API to look up the invitation
+    const response = await apiPost<RsvpLookupResponse>(
+      '/rsvp/lookup',
+      {
+        slug: body.slug,
+        name: body.name,
+        lastName: body.lastName || undefined,
+        postalCode: body.postalCode || undefined,
+        email: body.email || undefined,
+        passcode: body.passcode || undefined,
+      },
+      context.ip ? { 'X-Forwarded-For': context.ip } : undefined,
+    );
+
+    if (!response.ok) {
+      const status = getStatusFromResponse(response);
+      return errorResponse(response.error || ErrorCodes.INTERNAL_ERROR, status);
+    }
+
+    return successResponse(response.data);
+  } catch (error) {
+    console.error('Error looking up invitation:', error);
+    return errorResponse(ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
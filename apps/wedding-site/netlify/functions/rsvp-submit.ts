@@ -26,6 +26,15 @@ interface RsvpSubmitRequest {
     mealOptionId?: string;
   }>;
   photoOptOut?: boolean;
+  answers?: Record<string, string | number | string[]>;
+  householdMembers?: Array<{
+    guestId: string;
+    rsvpStatus: 'pending' | 'attending' | 'not_attending';
+    dietaryNotes?: string;
+    mealOptionId?: string;
+    eventRsvps?: RsvpSubmitRequest['eventRsvps'];
+    answers?: RsvpSubmitRequest['answers'];
+  }>;
 }
 
 interface RsvpSubmitResponse {
@@ -33,7 +42,7 @@ interface RsvpSubmitResponse {
   guest: {
     id: string;
     name: string;
-    email: string;
+    email?: string;
     partySize: number;
     rsvpStatus: string;
     dietaryNotes: string | null;
@@ -87,6 +96,8 @@ export default async function handler(request: Request, _context: Context): Prom
       mealOptionId: body.mealOptionId,
       eventRsvps: body.eventRsvps,
       photoOptOut: body.photoOptOut,
+      answers: body.answers,
+      householdMembers: body.householdMembers,
     });
 
     if (!response.ok) {
@@ -0,0 +1,63 @@
+import type { Context } from '@netlify/functions';
+import {
+  handleCors,
+  getQueryParam,
+  parseJsonBody,
+  successResponse,
+  errorResponse,
+  ErrorCodes,
+} from './utils/response';
+import { apiPost, getStatusFromResponse } from './utils/platform-api';
+
+interface UnsubscribeRequest {
+  token: string;
+}
+
+interface UnsubscribeResponse {
+  partnerNames: [string, string];
+}
+
+/**
+ * POST /unsubscribe?token=...
+ *
+ * Unsubscribe a guest from a wedding's non-essential emails
+ * Mail clients POST here directly for one-click unsubscribes (List-Unsubscribe-Post,
+ * form-encoded body); the unsubscribe page sends the token as JSON instead.
+ * The visitor's IP is forwarded so the Platform API rate limits per visitor
+ */
+export default async function handler(request: Request, context: Context): Promise<Response> {
+  // Handle CORS
+  const corsResponse = handleCors(request);
+  if (corsResponse) return corsResponse;
+
+  // Only allow POST, so link scanners following the URL never unsubscribe anyone
+  if (request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const isJson = request.headers.get('content-type')?.includes('application/json');
+  const body = isJson ? await parseJsonBody<UnsubscribeRequest>(request) : null;
+  const token = body?.token || getQueryParam(request, 'token');
+
+  if (!token) {
+    return errorResponse(ErrorCodes.INVALID_TOKEN, 400);
+  }
+
+  try {
+    const response = await apiPost<UnsubscribeResponse>(
+      '/unsubscribe',
+      { token },
+      context.ip ? { 'X-Forwarded-For': context.ip } : undefined,
+    );
+
+    if (!response.ok) {
+      const status = getStatusFromResponse(response);
+      return errorResponse(response.error || ErrorCodes.INTERNAL_ERROR, status);
+    }
+
+    return successResponse(response.data);
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    return errorResponse(ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
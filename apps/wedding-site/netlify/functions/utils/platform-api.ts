@@ -65,16 +65,19 @@ export async function apiGet<T>(
 
 /**
  * Make a POST request to the Platform API
+ * Extra headers (e.g. the visitor's IP for per-visitor rate limits) are sent along
  */
 export async function apiPost<T>(
   endpoint: string,
   body?: unknown,
+  headers?: Record<string, string>,
 ): Promise<PlatformApiResponse<T>> {
   try {
     const response = await fetch(`${PLATFORM_API_URL}/api${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...headers,
       },
       body: body ? JSON.stringify(body) : undefined,
     });
@@ -99,6 +102,7 @@ export function getStatusFromResponse(response: PlatformApiResponse<unknown>): n
     case 'INVALID_TOKEN':
     case 'DOMAIN_NOT_FOUND':
     case 'PHOTO_UPLOAD_INVALID':
+    case 'RSVP_LOOKUP_NO_MATCH':
       return 404;
     case 'FEATURE_DISABLED':
       return 403;
@@ -1,6 +1,13 @@
 // API client for wedding site
 
-import type { RenderConfig, RsvpViewData, ApiResponse } from '../types';
+import type {
+  RenderConfig,
+  RsvpViewData,
+  RsvpLookupRequest,
+  RsvpLookupResponse,
+  UnsubscribeResponse,
+  ApiResponse,
+} from '../types';
 
 const API_BASE = '/api';
 
@@ -180,6 +187,36 @@ export async function verifyPasscode(
   }
 }
 
+// Errors come back as codes (e.g. RSVP_LOOKUP_NO_MATCH) so the page can explain what to do next
+export async function lookupInvitation(
+  data: RsvpLookupRequest
+): Promise<ApiResponse<RsvpLookupResponse>> {
+  try {
+    const response = await fetch(`${API_BASE}/rsvp-lookup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    return (await response.json()) as ApiResponse<RsvpLookupResponse>;
+  } catch {
+    return { ok: false, error: 'INTERNAL_ERROR' };
+  }
+}
+
+// Errors come back as codes (e.g. INVALID_TOKEN) so the page can explain what went wrong
+export async function unsubscribe(token: string): Promise<ApiResponse<UnsubscribeResponse>> {
+  try {
+    const response = await fetch(`${API_BASE}/unsubscribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    });
+    return (await response.json()) as ApiResponse<UnsubscribeResponse>;
+  } catch {
+    return { ok: false, error: 'INTERNAL_ERROR' };
+  }
+}
+
 export async function fetchDomainLookup(domain: string): Promise<DomainLookupResult | null> {
   try {
     const response = await fetchJson<ApiResponse<DomainLookupResult>>(
@@ -193,3 +230,12 @@ export async function fetchDomainLookup(domain: string): Promise<DomainLookupRes
     return null;
   }
 }
+
+export type CalendarProvider = 'google' | 'outlook' | 'yahoo' | 'ics';
+
+// Add-to-calendar link for one event; the API redirects to the provider
+export function getCalendarLinkUrl(slug: string, provider: CalendarProvider, eventId?: string): string {
+  const base = `${API_BASE}/calendar/${encodeURIComponent(slug)}`;
+  const url = provider === 'ics' ? `${base}/download.ics` : `${base}/${provider}`;
+  return eventId && provider !== 'ics' ? `${url}?event=${encodeURIComponent(eventId)}` : url;
+}
@@ -15,6 +15,23 @@ export interface TranslationStrings {
   video: string;
   rsvpTitle: string;
   rsvpRespondButton: string;
+  /** {date} is replaced with the formatted RSVP deadline */
+  rsvpDeadline: string;
+  lookupTitle: string;
+  lookupDescription: string;
+  lookupNameLabel: string;
+  lookupLastNameLabel: string;
+  lookupVerifyHint: string;
+  lookupPostalCodeLabel: string;
+  lookupEmailLabel: string;
+  lookupPasscodeLabel: string;
+  lookupSubmitButton: string;
+  /** {email} is replaced with the masked address the link was sent to */
+  lookupLinkSent: string;
+  lookupNeedsVerification: string;
+  lookupNoMatch: string;
+  lookupInvalidPasscode: string;
+  lookupErrorMessage: string;
   faqTitle: string;
   registryTitle: string;
   registryViewRegistry: string;
@@ -49,11 +66,21 @@ export interface TranslationStrings {
   eventDetailsReception: string;
   eventDetailsAddToCalendar: string;
   eventDetailsGetDirections: string;
+  /** {time} is replaced with the event time on the visitor's clock */
+  eventDetailsYourTime: string;
   galleryTitle: string;
   videoTitle: string;
   heroJoinUs: string;
+  /** {days} is replaced with the number of days until the wedding */
+  heroCountdown: string;
+  heroCountdownOneDay: string;
+  heroCountdownToday: string;
   seatingTitle: string;
   seatingYourTable: string;
+  seatingFloorPlan: string;
+  seatingDanceFloor: string;
+  seatingStage: string;
+  seatingBar: string;
   loading: string;
   error: string;
   submit: string;
@@ -77,6 +104,21 @@ const en: TranslationStrings = {
   video: 'Video',
   rsvpTitle: 'RSVP',
   rsvpRespondButton: 'Respond to our invitation',
+  rsvpDeadline: 'Kindly respond by {date}',
+  lookupTitle: 'Find your invitation',
+  lookupDescription: 'Lost your invitation email? Enter your name as it appears on your invitation and we\'ll help you RSVP.',
+  lookupNameLabel: 'Your name',
+  lookupLastNameLabel: 'Last name (optional)',
+  lookupVerifyHint: 'Add your postal code or email so we can be sure it\'s you.',
+  lookupPostalCodeLabel: 'Postal code (optional)',
+  lookupEmailLabel: 'Email (optional)',
+  lookupPasscodeLabel: 'Site passcode',
+  lookupSubmitButton: 'Find my invitation',
+  lookupLinkSent: 'If you\'re on the guest list, an RSVP link is on its way to the email the couple has for you. If nothing arrives, add your last name and postal code or email, or contact the couple.',
+  lookupNeedsVerification: 'Please add your last name and your postal code or email so we can find your invitation.',
+  lookupNoMatch: 'We couldn\'t find an invitation under that name. Check the spelling, or contact the couple.',
+  lookupInvalidPasscode: 'That passcode isn\'t right. Please try again.',
+  lookupErrorMessage: 'Something went wrong. Please try again in a minute.',
   faqTitle: 'Frequently Asked Questions',
   registryTitle: 'Gift Registry',
   registryViewRegistry: 'View Registry',
@@ -111,11 +153,19 @@ const en: TranslationStrings = {
   eventDetailsReception: 'Reception',
   eventDetailsAddToCalendar: 'Add to Calendar',
   eventDetailsGetDirections: 'Get Directions',
+  eventDetailsYourTime: '{time} your time',
   galleryTitle: 'Photo Gallery',
   videoTitle: 'Our Story',
   heroJoinUs: 'Join us in celebrating our love',
+  heroCountdown: '{days} days to go',
+  heroCountdownOneDay: '1 day to go',
+  heroCountdownToday: 'Today is the day!',
   seatingTitle: 'Seating Chart',
   seatingYourTable: 'Your Table',
+  seatingFloorPlan: 'Floor plan',
+  seatingDanceFloor: 'Dance floor',
+  seatingStage: 'Stage',
+  seatingBar: 'Bar',
   loading: 'Loading...',
   error: 'An error occurred',
   submit: 'Submit',
@@ -139,6 +189,21 @@ const es: TranslationStrings = {
   video: 'Video',
   rsvpTitle: 'Confirmar asistencia',
   rsvpRespondButton: 'Responder a nuestra invitación',
+  rsvpDeadline: 'Por favor, responde antes del {date}',
+  lookupTitle: 'Encuentra tu invitación',
+  lookupDescription: '¿Perdiste el correo de tu invitación? Escribe tu nombre tal como aparece en tu invitación y te ayudaremos a confirmar tu asistencia.',
+  lookupNameLabel: 'Tu nombre',
+  lookupLastNameLabel: 'Apellido (opcional)',
+  lookupVerifyHint: 'Añade tu código postal o correo electrónico para confirmar que eres tú.',
+  lookupPostalCodeLabel: 'Código postal (opcional)',
+  lookupEmailLabel: 'Correo electrónico (opcional)',
+  lookupPasscodeLabel: 'Contraseña del sitio',
+  lookupSubmitButton: 'Buscar mi invitación',
+  lookupLinkSent: 'Si estás en la lista de invitados, te llegará un enlace de confirmación al correo que tienen los novios. Si no llega, añade tu apellido y tu código postal o correo electrónico, o contacta a los novios.',
+  lookupNeedsVerification: 'Añade tu apellido y tu código postal o correo electrónico para encontrar tu invitación.',
+  lookupNoMatch: 'No encontramos una invitación con ese nombre. Revisa la ortografía o contacta a los novios.',
+  lookupInvalidPasscode: 'La contraseña no es correcta. Inténtalo de nuevo.',
+  lookupErrorMessage: 'Algo salió mal. Inténtalo de nuevo en un minuto.',
   faqTitle: 'Preguntas frecuentes',
   registryTitle: 'Lista de regalos',
   registryViewRegistry: 'Ver lista',
@@ -173,11 +238,19 @@ const es: TranslationStrings = {
   eventDetailsReception: 'Recepción',
   eventDetailsAddToCalendar: 'Añadir al calendario',
   eventDetailsGetDirections: 'Obtener direcciones',
+  eventDetailsYourTime: '{time} en tu hora local',
   galleryTitle: 'Galería de fotos',
   videoTitle: 'Nuestra historia',
   heroJoinUs: 'Únete a nosotros para celebrar nuestro amor',
+  heroCountdown: 'Faltan {days} días',
+  heroCountdownOneDay: 'Falta 1 día',
+  heroCountdownToday: '¡Hoy es el día!',
   seatingTitle: 'Ubicación de mesas',
   seatingYourTable: 'Tu mesa',
+  seatingFloorPlan: 'Plano del salón',
+  seatingDanceFloor: 'Pista de baile',
+  seatingStage: 'Escenario',
+  seatingBar: 'Barra',
   loading: 'Cargando...',
   error: 'Ocurrió un error',
   submit: 'Enviar',
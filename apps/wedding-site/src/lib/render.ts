@@ -3,9 +3,11 @@
 import type {
   RenderConfig, Section, Theme, FaqConfig, RegistryConfig,
   AccommodationsConfig, GuestbookConfig, GalleryConfig, VideoConfig,
-  SeatingConfig, EventDetailsData, Announcement
+  SeatingConfig, SeatingTableDisplay, SeatingFloorPlan, EventDetailsData, WeddingEvent, Announcement
 } from '../types';
 import { t, type TranslationStrings } from './i18n';
+import { getCalendarLinkUrl, type CalendarProvider } from './api';
+import { daysUntil, formatVenueTime, formatVisitorTime, getEventTimeZone, getSiteTimeZone } from './time-zone';
 
 type SectionData = Section['data'];
 
@@ -15,25 +17,38 @@ type RenderOptions = {
 };
 
 // Escape HTML to prevent XSS
-function escapeHtml(str: string): string {
+export function escapeHtml(str: string): string {
   const div = document.createElement('div');
   div.textContent = str;
   return div.innerHTML;
 }
 
-// Format date for display
+// Escape text for a double-quoted attribute value (innerHTML leaves quotes as-is)
+export function escapeAttribute(str: string): string {
+  return escapeHtml(str).replace(/"/g, '&quot;');
+}
+
+// Format a calendar date (YYYY-MM-DD) for display
+// Read at UTC noon and shown in UTC so the visitor's time zone never shifts the day
 function formatDate(dateStr: string, lang: string): string {
-  try {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString(lang, {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  } catch {
-    return dateStr;
-  }
+  const date = new Date(`${dateStr.slice(0, 10)}T12:00:00Z`);
+  if (isNaN(date.getTime())) return dateStr;
+  return date.toLocaleDateString(lang, {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+// Days-to-go line for the hero, counted from today at the venue
+function formatCountdown(config: RenderConfig, strings: TranslationStrings): string {
+  const days = config.wedding.date ? daysUntil(config.wedding.date, getSiteTimeZone(config)) : null;
+  if (days === null || days < 0) return '';
+  if (days === 0) return strings.heroCountdownToday;
+  if (days === 1) return strings.heroCountdownOneDay;
+  return strings.heroCountdown.replace('{days}', String(days));
 }
 
 const INVITATION_STYLES = new Set(['classic', 'modern', 'minimal']);
@@ -47,6 +62,8 @@ function getInvitationStyle(data: SectionData): string {
 function buildStrings(lang: string): TranslationStrings {
   return {
     eventDetailsTitle: t('eventDetailsTitle', lang),
+    eventDetailsAddToCalendar: t('eventDetailsAddToCalendar', lang),
+    eventDetailsYourTime: t('eventDetailsYourTime', lang),
     eventDetailsGetDirections: t('eventDetailsGetDirections', lang),
     rsvpTitle: t('rsvpTitle', lang),
     rsvpRespondButton: t('rsvpRespondButton', lang),
@@ -76,7 +93,14 @@ function buildStrings(lang: string): TranslationStrings {
     musicSubmitButton: t('musicSubmitButton', lang),
     galleryTitle: t('galleryTitle', lang),
     videoTitle: t('videoTitle', lang),
+    heroCountdown: t('heroCountdown', lang),
+    heroCountdownOneDay: t('heroCountdownOneDay', lang),
+    heroCountdownToday: t('heroCountdownToday', lang),
     seatingTitle: t('seatingTitle', lang),
+    seatingFloorPlan: t('seatingFloorPlan', lang),
+    seatingDanceFloor: t('seatingDanceFloor', lang),
+    seatingStage: t('seatingStage', lang),
+    seatingBar: t('seatingBar', lang),
   } as TranslationStrings;
 }
 
@@ -105,6 +129,7 @@ function renderHero(
   const subheadline = (data.subheadline as string) || '';
   const invitationMessage = (data.invitationMessage as string) || '';
   const showDate = (data.showDate as boolean | undefined) !== false;
+  const countdown = data.showCountdown === true ? formatCountdown(config, strings) : '';
   const invitationStyle = getInvitationStyle(data);
   const venueLine = [config.wedding.venue, config.wedding.city].filter(Boolean).join(', ');
   const showDivider = Boolean((showDate && config.wedding.date) || venueLine);
@@ -122,6 +147,7 @@ function renderHero(
           ${showDivider ? `<span class="hero-divider" aria-hidden="true"></span>` : ''}
           ${showDate && config.wedding.date ? `<p class="hero-date">${formatDate(config.wedding.date, config.language || 'en')}</p>` : ''}
           ${venueLine ? `<p class="hero-location">${escapeHtml(venueLine)}</p>` : ''}
+          ${countdown ? `<p class="hero-countdown">${escapeHtml(countdown)}</p>` : ''}
         </div>
         ${showRsvpCta ? `<a href="${escapeHtml(rsvpUrl)}" class="btn btn-primary hero-rsvp">${strings.rsvpRespondButton}</a>` : ''}
       </div>
@@ -129,44 +155,114 @@ function renderHero(
   `;
 }
 
-// Render event details section
-function renderEventDetails(eventDetails: EventDetailsData, strings: TranslationStrings): string {
-  const { venue, address, city, date, startTime, endTime } = eventDetails;
+const CALENDAR_PROVIDERS: { provider: CalendarProvider; label: string }[] = [
+  { provider: 'google', label: 'Google' },
+  { provider: 'outlook', label: 'Outlook' },
+  { provider: 'yahoo', label: 'Yahoo' },
+  { provider: 'ics', label: 'Apple / iCal' },
+];
+
+// Render add-to-calendar links for one event (the .ics file holds every event)
+function renderCalendarLinks(slug: string, eventId: string | undefined, strings: TranslationStrings): string {
+  const links = CALENDAR_PROVIDERS.map(({ provider, label }) => `
+    <a href="${escapeAttribute(getCalendarLinkUrl(slug, provider, eventId))}"
+       ${provider === 'ics' ? 'download' : 'target="_blank" rel="noopener noreferrer"'}
+       class="event-calendar-link">${label}</a>
+  `).join('');
+
+  return `
+    <div class="event-calendar-links">
+      <span class="event-calendar-label">${strings.eventDetailsAddToCalendar}:</span>
+      ${links}
+    </div>
+  `;
+}
+
+// Event times in venue time, e.g. "4:00 PM - 11:00 PM EDT"
+function formatEventTime(date: string, startTime: string, endTime: string, timeZone: string, lang: string): string {
+  if (!date) {
+    return endTime ? `${startTime} - ${endTime}` : startTime;
+  }
+  const start = formatVenueTime(date, startTime, timeZone, lang, !endTime);
+  return endTime ? `${start} - ${formatVenueTime(date, endTime, timeZone, lang)}` : start;
+}
+
+// Render one event card; the legacy single event has no id or name
+function renderEventCard(
+  event: Omit<WeddingEvent, 'id' | 'type' | 'name'> & { id?: string; name?: string },
+  config: RenderConfig,
+  strings: TranslationStrings,
+  showLocalTime: boolean
+): string {
+  const { id, name, venue, address, city, date, startTime, endTime } = event;
+  const lang = config.language || 'en';
+  const timeZone = getEventTimeZone(getSiteTimeZone(config), event.timezone);
+  const formattedDate = date ? formatDate(date, lang) : '';
+  const visitorTime = showLocalTime && date && startTime ? formatVisitorTime(date, startTime, timeZone, lang) : null;
+
+  return `
+    <div class="event-card">
+      <div class="event-info">
+        ${name ? `<h3 class="event-name">${escapeHtml(name)}</h3>` : ''}
+        ${formattedDate ? `<p class="event-date">${escapeHtml(formattedDate)}</p>` : ''}
+        ${startTime ? `<p class="event-time">${escapeHtml(formatEventTime(date, startTime, endTime, timeZone, lang))}</p>` : ''}
+        ${visitorTime ? `<p class="event-local-time">${escapeHtml(strings.eventDetailsYourTime.replace('{time}', visitorTime))}</p>` : ''}
+        ${venue ? `<p class="event-venue">${escapeHtml(venue)}</p>` : ''}
+        ${address ? `<p class="event-address">${escapeHtml(address)}</p>` : ''}
+        ${city ? `<p class="event-city">${escapeHtml(city)}</p>` : ''}
+      </div>
+      ${address ? `
+        <a href="https://maps.google.com/?q=${encodeURIComponent(`${address}, ${city || ''}`)}"
+           target="_blank"
+           rel="noopener noreferrer"
+           class="btn btn-secondary">
+          ${strings.eventDetailsGetDirections}
+        </a>
+      ` : ''}
+      ${config.features.CALENDAR_INVITE && date && startTime ? renderCalendarLinks(config.wedding.slug, id, strings) : ''}
+    </div>
+  `;
+}
+
+// Render event details section, one card per event
+function renderEventDetails(
+  eventDetails: EventDetailsData,
+  config: RenderConfig,
+  strings: TranslationStrings
+): string {
+  const events = eventDetails.events?.length
+    ? [...eventDetails.events].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    : [eventDetails];
 
   return `
     <section class="section event-details-section" id="event-details">
       <h2 class="section-title">${strings.eventDetailsTitle}</h2>
-      <div class="event-card">
-        <div class="event-info">
-          ${date ? `<p class="event-date">${escapeHtml(date)}</p>` : ''}
-          ${startTime ? `<p class="event-time">${escapeHtml(startTime)}${endTime ? ` - ${escapeHtml(endTime)}` : ''}</p>` : ''}
-          ${venue ? `<p class="event-venue">${escapeHtml(venue)}</p>` : ''}
-          ${address ? `<p class="event-address">${escapeHtml(address)}</p>` : ''}
-          ${city ? `<p class="event-city">${escapeHtml(city)}</p>` : ''}
-        </div>
-        ${address ? `
-          <a href="https://maps.google.com/?q=${encodeURIComponent(`${address}, ${city || ''}`)}"
-             target="_blank"
-             rel="noopener noreferrer"
-             class="btn btn-secondary">
-            ${strings.eventDetailsGetDirections}
-          </a>
-        ` : ''}
+      <div class="event-list">
+        ${events.map(event => renderEventCard(event, config, strings, eventDetails.showLocalTime === true)).join('')}
       </div>
     </section>
   `;
 }
 
 // Render RSVP section
-function renderRsvp(data: SectionData, _slug: string, strings: TranslationStrings): string {
+function renderRsvp(
+  data: SectionData,
+  config: RenderConfig,
+  strings: TranslationStrings,
+  options?: RenderOptions
+): string {
   const title = (data.title as string) || strings.rsvpTitle;
   const description = (data.description as string) || '';
+  const deadline = config.rsvpDeadline
+    ? strings.rsvpDeadline.replace('{date}', formatDate(config.rsvpDeadline, config.language || 'en'))
+    : '';
 
   return `
     <section class="section rsvp-section" id="rsvp">
       <h2 class="section-title">${escapeHtml(title)}</h2>
       ${description ? `<p class="section-description">${escapeHtml(description)}</p>` : ''}
-      <a href="/rsvp" class="btn btn-primary">${strings.rsvpRespondButton}</a>
+      ${deadline ? `<p class="rsvp-deadline">${escapeHtml(deadline)}</p>` : ''}
+      <a href="${escapeHtml(options?.rsvpUrl || '/rsvp')}" class="btn btn-primary">${strings.rsvpRespondButton}</a>
     </section>
   `;
 }
@@ -391,11 +487,68 @@ function renderVideo(video: VideoConfig, strings: TranslationStrings): string {
   `;
 }
 
-// Render seating section
-function renderSeating(seating: SeatingConfig, strings: TranslationStrings): string {
-  if (!seating.tables?.length) return '';
+// Render the room layout: fixtures, placed tables and their seats (no guest names)
+function renderFloorPlan(
+  tables: SeatingTableDisplay[],
+  floorPlan: SeatingFloorPlan | undefined,
+  strings: TranslationStrings
+): string {
+  const placed = tables.filter(table => table.placement);
+  if (!floorPlan || placed.length === 0) return '';
+
+  const { room, fixtures } = floorPlan;
+  const fixtureLabels: Record<string, string> = {
+    dance_floor: strings.seatingDanceFloor,
+    stage: strings.seatingStage,
+    bar: strings.seatingBar,
+  };
+  const transform = (p: { x: number; y: number; rotation: number }) =>
+    `translate(${p.x} ${p.y}) rotate(${p.rotation})`;
+
+  const fixtureShapes = fixtures
+    .map(fixture => `
+      <g class="floor-plan-fixture" transform="${transform(fixture.placement)}">
+        <rect x="${-fixture.width / 2}" y="${-fixture.height / 2}" width="${fixture.width}" height="${fixture.height}" />
+        <text>${escapeHtml(fixture.label ?? fixtureLabels[fixture.kind] ?? '')}</text>
+      </g>
+    `)
+    .join('');
+
+  const tableShapes = placed
+    .map(table => {
+      const width = table.width ?? 80;
+      const height = table.height ?? 80;
+      const shape = table.shape === 'round' || !table.shape
+        ? `<circle r="${width / 2}" />`
+        : `<rect x="${-width / 2}" y="${-height / 2}" width="${width}" height="${height}" rx="4" />`;
+      const seats = (table.seats ?? [])
+        .map(seat => `<circle class="floor-plan-seat" cx="${seat.x}" cy="${seat.y}" r="8" />`)
+        .join('');
+      return `
+        <g class="floor-plan-table" transform="${transform(table.placement!)}">
+          ${shape}
+          ${seats}
+          <text>${escapeHtml(table.name)}</text>
+        </g>
+      `;
+    })
+    .join('');
 
-  const tables = seating.tables
+  return `
+    <svg class="seating-floor-plan" viewBox="0 0 ${room.width} ${room.height}" role="img" aria-label="${escapeAttribute(strings.seatingFloorPlan)}">
+      ${fixtureShapes}
+      ${tableShapes}
+    </svg>
+  `;
+}
+
+// Render one seating chart: its floor plan and table cards
+function renderSeatingChart(
+  chartTables: SeatingTableDisplay[],
+  floorPlan: SeatingFloorPlan | undefined,
+  strings: TranslationStrings
+): string {
+  const tables = [...chartTables]
     .sort((a, b) => a.order - b.order)
     .map(table => `
       <div class="seating-table">
@@ -406,10 +559,31 @@ function renderSeating(seating: SeatingConfig, strings: TranslationStrings): str
     `)
     .join('');
 
+  return `
+    ${renderFloorPlan(chartTables, floorPlan, strings)}
+    <div class="seating-grid">${tables}</div>
+  `;
+}
+
+// Render seating section: the main chart, then one chart per event
+function renderSeating(seating: SeatingConfig, strings: TranslationStrings): string {
+  const events = seating.events ?? [];
+  if (!seating.tables?.length && events.length === 0) return '';
+
+  const eventCharts = events
+    .map(chart => `
+      <div class="seating-event">
+        <h3 class="seating-event-title">${escapeHtml(chart.eventName)}</h3>
+        ${renderSeatingChart(chart.tables, chart.floorPlan, strings)}
+      </div>
+    `)
+    .join('');
+
   return `
     <section class="section seating-section" id="seating">
       <h2 class="section-title">${strings.seatingTitle}</h2>
-      <div class="seating-grid">${tables}</div>
+      ${seating.tables?.length ? renderSeatingChart(seating.tables, seating.floorPlan, strings) : ''}
+      ${eventCharts}
     </section>
   `;
 }
@@ -447,12 +621,12 @@ export function renderWeddingPage(config: RenderConfig, options?: RenderOptions)
         break;
       case 'event_details':
         if (config.eventDetails) {
-          sections.push(renderEventDetails(config.eventDetails, strings));
+          sections.push(renderEventDetails(config.eventDetails, config, strings));
         }
         break;
       case 'rsvp':
         if (config.features.RSVP) {
-          sections.push(renderRsvp(section.data, slug, strings));
+          sections.push(renderRsvp(section.data, config, strings, options));
         }
         break;
       case 'faq':
@@ -0,0 +1,105 @@
+// Wedding time zone helpers for the site
+// Dates and times are the couple's wall-clock times at the venue, so they are
+// shown in the wedding's zone, never the visitor's.
+
+import type { RenderConfig } from '../types';
+
+const FALLBACK_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isKnownTimeZone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The wedding's time zone, falling back to the one on older event details
+export function getSiteTimeZone(config: Pick<RenderConfig, 'timezone' | 'eventDetails'>): string {
+  const timeZone = config.timezone || config.eventDetails?.timezone;
+  return isKnownTimeZone(timeZone) ? timeZone : FALLBACK_TIME_ZONE;
+}
+
+// Time zone of one event; events elsewhere than the wedding set their own
+export function getEventTimeZone(siteTimeZone: string, eventTimeZone: string | undefined): string {
+  return isKnownTimeZone(eventTimeZone) ? eventTimeZone : siteTimeZone;
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Instant of a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone
+function zonedTimeToUtc(date: string, time: string, timeZone: string): Date | null {
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  if (isNaN(wallClock)) return null;
+  // Guess with the offset at the wall-clock time, then correct once for DST changes in between
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffset(new Date(guess), timeZone));
+}
+
+// Today's date (YYYY-MM-DD) in a time zone
+function todayInTimeZone(timeZone: string, now: Date): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+// Whole days from today at the venue until a date; negative once it has passed
+export function daysUntil(date: string, timeZone: string, now: Date = new Date()): number | null {
+  const target = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  const today = Date.parse(`${todayInTimeZone(timeZone, now)}T00:00:00Z`);
+  return isNaN(target) ? null : Math.round((target - today) / DAY_MS);
+}
+
+// Venue time, with its zone by default, e.g. "4:00 PM EDT"
+export function formatVenueTime(date: string, time: string, timeZone: string, lang: string, showZone = true): string {
+  const instant = zonedTimeToUtc(date, time, timeZone);
+  if (!instant) return time;
+  return instant.toLocaleTimeString(lang, {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(showZone ? { timeZoneName: 'short' as const } : {}),
+  });
+}
+
+// The same moment on the visitor's clock, or null when the visitor keeps venue time
+export function formatVisitorTime(date: string, time: string, timeZone: string, lang: string): string | null {
+  const instant = zonedTimeToUtc(date, time, timeZone);
+  if (!instant) return null;
+
+  const visitorTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isKnownTimeZone(visitorTimeZone) || timeZoneOffset(instant, visitorTimeZone) === timeZoneOffset(instant, timeZone)) {
+    return null;
+  }
+
+  return instant.toLocaleString(lang, {
+    timeZone: visitorTimeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
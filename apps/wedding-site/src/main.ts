@@ -4,15 +4,24 @@ import {
   fetchDomainLookup,
   fetchSiteConfig,
   fetchRsvpView,
+  lookupInvitation,
   submitGuestbookMessage,
   submitMusicRequest,
   verifyPasscode,
   requestPhotoUploadToken,
   completePhotoUpload,
+  unsubscribe,
 } from './lib/api';
-import { renderInvitationPage, renderWeddingPage, applyTheme } from './lib/render';
+import { renderInvitationPage, renderWeddingPage, applyTheme, escapeHtml, escapeAttribute } from './lib/render';
 import { t } from './lib/i18n';
-import type { RenderConfig } from './types';
+import type {
+  RenderConfig,
+  RsvpAnswerMap,
+  RsvpGuestView,
+  RsvpMemberResponse,
+  RsvpQuestion,
+  RsvpStatus,
+} from './types';
 import './styles/main.css';
 
 const PASSCODE_STORAGE_PREFIX = 'weddingSitePasscode:';
@@ -43,8 +52,12 @@ function getRsvpTokenFromUrl(): string | undefined {
   return token || undefined;
 }
 
-function buildRsvpUrl(token?: string): string {
-  return token ? `/rsvp?token=${encodeURIComponent(token)}` : '/rsvp';
+// Without a token the RSVP page offers the invitation lookup, so keep the slug when we know it
+function buildRsvpUrl(token?: string, slug?: string): string {
+  if (token) {
+    return `/rsvp?token=${encodeURIComponent(token)}`;
+  }
+  return slug ? `/w/${encodeURIComponent(slug)}/rsvp` : '/rsvp';
 }
 
 async function resolveWeddingSlug(): Promise<string | null> {
@@ -74,17 +87,28 @@ function getRoute(): { page: string; slug?: string; token?: string } {
     return { page: 'photo-upload', slug: photoMatch[1] };
   }
 
+  // Invitation lookup for a wedding: /w/slug-here/rsvp
+  const lookupMatch = path.match(/^\/w\/([^/]+)\/rsvp\/?$/);
+  if (lookupMatch) {
+    return { page: 'rsvp', slug: lookupMatch[1] };
+  }
+
   // Wedding page: /w/slug-here
   const weddingMatch = path.match(/^\/w\/([^/]+)\/?$/);
   if (weddingMatch) {
     return { page: 'wedding', slug: weddingMatch[1] };
   }
 
-  // RSVP page: /rsvp?token=xxx
+  // RSVP page: /rsvp?token=xxx (without a token: find your invitation)
   if (path === '/rsvp' || path === '/rsvp/') {
     return { page: 'rsvp', token: params.get('token') || undefined };
   }
 
+  // Unsubscribe page: /unsubscribe?token=xxx (link in reminder and announcement emails)
+  if (path === '/unsubscribe' || path === '/unsubscribe/') {
+    return { page: 'unsubscribe', token: params.get('token') || undefined };
+  }
+
   // Home page
   if (path === '/' || path === '') {
     return { page: 'home' };
@@ -371,7 +395,7 @@ function renderWeddingContent(config: RenderConfig): void {
   }
 
   // Render content
-  const rsvpUrl = buildRsvpUrl(getRsvpTokenFromUrl());
+  const rsvpUrl = buildRsvpUrl(getRsvpTokenFromUrl(), config.wedding.slug);
   const html = renderWeddingPage(config, { rsvpUrl });
   showContent(`<div class="wedding-page">${html}</div>`);
 
@@ -396,10 +420,118 @@ async function renderWedding(slug: string): Promise<void> {
   renderWeddingContent(config);
 }
 
+// Find your invitation: guests without their RSVP link look themselves up by name
+async function renderRsvpLookupPage(routeSlug?: string): Promise<void> {
+  const slug = routeSlug || await resolveWeddingSlug();
+  const config = slug ? await fetchSiteConfig(slug) : null;
+
+  if (!slug || !config) {
+    renderErrorPage('RSVP token is required. Please use the link from your invitation.');
+    return;
+  }
+
+  if (!config.features.RSVP) {
+    renderErrorPage('RSVP is not enabled for this wedding.');
+    return;
+  }
+
+  applyTheme(config.theme);
+
+  const names = config.wedding.partnerNames;
+  document.title = `RSVP - ${names[0]} & ${names[1]}`;
+
+  const lang = config.language || 'en';
+  // The API checks the passcode itself, so ask for it even if this visitor already unlocked the site
+  const needsPasscode = config.passcodeProtected && config.features.PASSCODE_SITE;
+
+  showContent(`
+    <div class="rsvp-page rsvp-lookup-page">
+      <h1>${t('lookupTitle', lang)}</h1>
+      <p>${t('lookupDescription', lang)}</p>
+
+      <form id="rsvp-lookup-form" class="rsvp-form">
+        <div class="form-group">
+          <label for="lookup-name">${t('lookupNameLabel', lang)}</label>
+          <input type="text" id="lookup-name" name="name" autocomplete="name" maxlength="200" required>
+        </div>
+
+        <div class="rsvp-lookup-verify" id="rsvp-lookup-verify">
+          <p class="form-help">${t('lookupVerifyHint', lang)}</p>
+          <div class="form-group">
+            <label for="lookup-last-name">${t('lookupLastNameLabel', lang)}</label>
+            <input type="text" id="lookup-last-name" name="lastName" autocomplete="family-name" maxlength="200">
+          </div>
+          <div class="form-group">
+            <label for="lookup-postal-code">${t('lookupPostalCodeLabel', lang)}</label>
+            <input type="text" id="lookup-postal-code" name="postalCode" autocomplete="postal-code" maxlength="200">
+          </div>
+          <div class="form-group">
+            <label for="lookup-email">${t('lookupEmailLabel', lang)}</label>
+            <input type="email" id="lookup-email" name="email" autocomplete="email" maxlength="200">
+          </div>
+        </div>
+
+        ${needsPasscode ? `
+          <div class="form-group">
+            <label for="lookup-passcode">${t('lookupPasscodeLabel', lang)}</label>
+            <input type="password" id="lookup-passcode" name="passcode" autocomplete="current-password" required>
+          </div>
+        ` : ''}
+
+        <button type="submit" class="btn btn-primary">${t('lookupSubmitButton', lang)}</button>
+        <p class="form-status" id="rsvp-lookup-status" role="alert"></p>
+      </form>
+    </div>
+  `);
+
+  const form = document.getElementById('rsvp-lookup-form') as HTMLFormElement | null;
+  const status = document.getElementById('rsvp-lookup-status');
+  const submitBtn = form?.querySelector('button[type="submit"]') as HTMLButtonElement | null;
+
+  form?.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const formData = new FormData(form);
+    const field = (name: string) => (formData.get(name) || '').toString().trim() || undefined;
+
+    if (submitBtn) submitBtn.disabled = true;
+    updateFormStatus(status, t('loading', lang));
+
+    const result = await lookupInvitation({
+      slug,
+      name: field('name') || '',
+      lastName: field('lastName'),
+      postalCode: field('postalCode'),
+      email: field('email'),
+      passcode: field('passcode'),
+    });
+
+    if (result.ok && result.data.status === 'found' && result.data.token) {
+      window.location.href = buildRsvpUrl(result.data.token);
+      return;
+    }
+
+    if (result.ok && result.data.status === 'link_sent') {
+      updateFormStatus(status, t('lookupLinkSent', lang), 'success');
+      form.reset();
+    } else if (result.ok) {
+      updateFormStatus(status, t('lookupNeedsVerification', lang), 'error');
+      document.getElementById('lookup-last-name')?.focus();
+    } else if (result.error === 'RSVP_LOOKUP_NO_MATCH') {
+      updateFormStatus(status, t('lookupNoMatch', lang), 'error');
+    } else if (result.error === 'INVALID_PASSCODE') {
+      updateFormStatus(status, t('lookupInvalidPasscode', lang), 'error');
+    } else {
+      updateFormStatus(status, t('lookupErrorMessage', lang), 'error');
+    }
+
+    if (submitBtn) submitBtn.disabled = false;
+  });
+}
+
 // Render RSVP page (simplified - full implementation would be more complex)
-async function renderRsvpPage(token?: string): Promise<void> {
+async function renderRsvpPage(token?: string, slug?: string): Promise<void> {
   if (!token) {
-    renderErrorPage('RSVP token is required. Please use the link from your invitation.');
+    await renderRsvpLookupPage(slug);
     return;
   }
 
@@ -416,12 +548,33 @@ async function renderRsvpPage(token?: string): Promise<void> {
   // Update page title
   document.title = `RSVP - ${data.wedding.partnerNames[0]} & ${data.wedding.partnerNames[1]}`;
 
+  // Other household members the guest can answer for (each keeps their own answers)
+  const otherMembers = (data.household?.members ?? []).filter((member) => member.id !== data.guest.id);
+  const questions = data.questions ?? [];
+  const deadline = data.rsvpDeadline ? formatDeadline(data.rsvpDeadline) : '';
+
+  if (data.rsvpClosed) {
+    showContent(`
+      <div class="rsvp-page">
+        <h1>RSVP</h1>
+        <p>Hello, ${escapeHtml(data.guest.name)}!</p>
+        <p>RSVPs closed on ${deadline}. Please contact ${data.wedding.partnerNames[0]} & ${data.wedding.partnerNames[1]} directly if your plans have changed.</p>
+        ${renderTableAssignments(data.guest)}
+        ${renderCalendarFeed(data.calendarFeedUrl)}
+      </div>
+    `);
+    return;
+  }
+
   // Simplified RSVP form (full implementation would include all features)
   showContent(`
     <div class="rsvp-page">
       <h1>RSVP</h1>
-      <p>Hello, ${data.guest.name}!</p>
+      <p>Hello, ${escapeHtml(data.guest.name)}!</p>
       <p>Please respond to the wedding invitation of ${data.wedding.partnerNames[0]} & ${data.wedding.partnerNames[1]}.</p>
+      ${deadline ? `<p class="rsvp-deadline">Kindly respond by ${deadline}.</p>` : ''}
+      ${renderTableAssignments(data.guest)}
+      ${renderCalendarFeed(data.calendarFeedUrl)}
 
       <form id="rsvp-form" class="rsvp-form">
         <input type="hidden" name="token" value="${token}">
@@ -445,6 +598,13 @@ async function renderRsvpPage(token?: string): Promise<void> {
           <textarea id="dietary-notes" name="dietaryNotes" rows="3"></textarea>
         </div>
 
+        ${renderQuestionFields(questionsFor(questions, data.guest), data.guest, 'answer')}
+
+        ${otherMembers.length > 0 ? `
+          <p>You can also respond for everyone in ${escapeHtml(data.household!.name)}.</p>
+          ${otherMembers.map((member) => renderHouseholdMemberFields(member, questions)).join('')}
+        ` : ''}
+
         <button type="submit" class="btn btn-primary">Submit RSVP</button>
         <p class="form-status" id="rsvp-status" role="alert"></p>
       </form>
@@ -470,6 +630,8 @@ async function renderRsvpPage(token?: string): Promise<void> {
           rsvpStatus: formData.get('rsvpStatus'),
           partySize: 1,
           dietaryNotes: formData.get('dietaryNotes'),
+          answers: readQuestionAnswers(formData, questionsFor(questions, data.guest), 'answer'),
+          householdMembers: readHouseholdMemberResponses(formData, otherMembers, questions),
         }),
       });
 
@@ -480,6 +642,10 @@ async function renderRsvpPage(token?: string): Promise<void> {
           status.textContent = 'Thank you! Your RSVP has been submitted.';
           status.className = 'form-status success';
         }
+      } else if (result.error === 'INVALID_RSVP_ANSWER') {
+        updateFormStatus(status, 'Please answer every required question (*).', 'error');
+      } else if (result.error === 'RSVP_DEADLINE_PASSED') {
+        updateFormStatus(status, 'Sorry, the RSVP deadline has passed.', 'error');
       } else {
         throw new Error(result.error);
       }
@@ -494,6 +660,177 @@ async function renderRsvpPage(token?: string): Promise<void> {
   });
 }
 
+// The guest's table at each event they are seated for (one line per seating chart)
+// Subscribing keeps the guest's calendar in step with schedule changes
+function renderCalendarFeed(calendarFeedUrl: string | undefined): string {
+  if (!calendarFeedUrl) return '';
+
+  return `
+    <p class="rsvp-calendar-feed">
+      <a href="${escapeAttribute(calendarFeedUrl)}">Subscribe to the wedding calendar</a>
+      to keep every event you're invited to up to date.
+    </p>
+  `;
+}
+
+function renderTableAssignments(guest: RsvpGuestView): string {
+  const assignments = guest.tableAssignments ?? [];
+  if (assignments.length === 0) return '';
+
+  const items = assignments
+    .map((a) => {
+      const seat = a.seatLabel ?? (a.seatNumber ? `Seat ${a.seatNumber}` : '');
+      return `
+        <li>
+          ${a.eventName ? `<strong>${escapeHtml(a.eventName)}:</strong> ` : ''}${escapeHtml(a.tableName)}${seat ? ` (${escapeHtml(seat)})` : ''}
+          ${a.tableNotes ? `<span class="table-notes">${escapeHtml(a.tableNotes)}</span>` : ''}
+        </li>
+      `;
+    })
+    .join('');
+
+  return `
+    <div class="rsvp-tables">
+      <h2>${assignments.length > 1 ? 'Your Tables' : 'Your Table'}</h2>
+      <ul>${items}</ul>
+    </div>
+  `;
+}
+
+// Format an RSVP deadline (YYYY-MM-DD) at local noon so the day never shifts
+function formatDeadline(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+// Custom questions a guest is asked: everyone's, plus those for events they are invited to
+function questionsFor(questions: RsvpQuestion[], guest: RsvpGuestView): RsvpQuestion[] {
+  return questions.filter((question) =>
+    !question.eventId || !guest.invitedEventIds?.length || guest.invitedEventIds.includes(question.eventId),
+  );
+}
+
+// Inputs for custom questions, named <prefix>-<question ID> and prefilled with earlier answers
+function renderQuestionFields(questions: RsvpQuestion[], guest: RsvpGuestView, prefix: string): string {
+  return questions.map((question) => {
+    const name = `${prefix}-${question.id}`;
+    const answer = guest.rsvpAnswers?.[question.id];
+    const label = `${escapeHtml(question.label)}${question.required ? ' *' : ''}`;
+
+    switch (question.type) {
+      case 'single_choice':
+      case 'multi_choice': {
+        const inputType = question.type === 'single_choice' ? 'radio' : 'checkbox';
+        const chosen = Array.isArray(answer) ? answer : [answer];
+        return `
+          <div class="form-group">
+            <label>${label}</label>
+            <div class="radio-group">
+              ${(question.options ?? []).map((option) => `
+                <label>
+                  <input type="${inputType}" name="${name}" value="${escapeAttribute(option)}"${chosen.includes(option) ? ' checked' : ''}>
+                  ${escapeHtml(option)}
+                </label>
+              `).join('')}
+            </div>
+          </div>
+        `;
+      }
+      case 'number':
+        return `
+          <div class="form-group">
+            <label for="${name}">${label}</label>
+            <input type="number" step="any" id="${name}" name="${name}" value="${answer ?? ''}">
+          </div>
+        `;
+      default:
+        return `
+          <div class="form-group">
+            <label for="${name}">${label}</label>
+            <input type="text" id="${name}" name="${name}" maxlength="1000" value="${escapeAttribute(String(answer ?? ''))}">
+          </div>
+        `;
+    }
+  }).join('');
+}
+
+// Collect custom question answers from inputs named <prefix>-<question ID>; blank answers are left out
+function readQuestionAnswers(
+  formData: FormData,
+  questions: RsvpQuestion[],
+  prefix: string,
+): RsvpAnswerMap | undefined {
+  if (questions.length === 0) return undefined;
+
+  const answers: RsvpAnswerMap = {};
+  for (const question of questions) {
+    const name = `${prefix}-${question.id}`;
+    if (question.type === 'multi_choice') {
+      const chosen = formData.getAll(name).filter((value): value is string => typeof value === 'string');
+      if (chosen.length > 0) answers[question.id] = chosen;
+      continue;
+    }
+
+    const value = formData.get(name);
+    if (typeof value !== 'string' || !value.trim()) continue;
+    if (question.type === 'number') {
+      const number = Number(value);
+      if (Number.isFinite(number)) answers[question.id] = number;
+    } else {
+      answers[question.id] = value.trim();
+    }
+  }
+  return answers;
+}
+
+// RSVP fields for one other household member, named by member ID
+function renderHouseholdMemberFields(member: RsvpGuestView, questions: RsvpQuestion[]): string {
+  const status = member.rsvpStatus;
+  return `
+    <fieldset class="form-group household-member">
+      <legend>${escapeHtml(member.name)}</legend>
+      <div class="radio-group">
+        <label>
+          <input type="radio" name="member-status-${member.id}" value="attending"${status === 'attending' ? ' checked' : ''}>
+          Attending
+        </label>
+        <label>
+          <input type="radio" name="member-status-${member.id}" value="not_attending"${status === 'not_attending' ? ' checked' : ''}>
+          Cannot attend
+        </label>
+      </div>
+      <label for="member-dietary-${member.id}">Dietary restrictions or notes</label>
+      <textarea id="member-dietary-${member.id}" name="member-dietary-${member.id}" rows="2">${escapeHtml(member.dietaryNotes ?? '')}</textarea>
+      ${renderQuestionFields(questionsFor(questions, member), member, `member-answer-${member.id}`)}
+    </fieldset>
+  `;
+}
+
+// Collect answers for household members; members left unanswered are not sent
+function readHouseholdMemberResponses(
+  formData: FormData,
+  members: RsvpGuestView[],
+  questions: RsvpQuestion[],
+): RsvpMemberResponse[] | undefined {
+  const responses: RsvpMemberResponse[] = [];
+  for (const member of members) {
+    const status = formData.get(`member-status-${member.id}`);
+    if (status !== 'attending' && status !== 'not_attending') continue;
+    const dietaryNotes = formData.get(`member-dietary-${member.id}`);
+    responses.push({
+      guestId: member.id,
+      rsvpStatus: status as RsvpStatus,
+      dietaryNotes: typeof dietaryNotes === 'string' && dietaryNotes.trim() ? dietaryNotes.trim() : undefined,
+      answers: readQuestionAnswers(formData, questionsFor(questions, member), `member-answer-${member.id}`),
+    });
+  }
+  return responses.length > 0 ? responses : undefined;
+}
+
 function updateFormStatus(status: HTMLElement | null, message: string, state?: 'success' | 'error'): void {
   if (!status) return;
   status.textContent = message;
@@ -702,6 +1039,61 @@ async function renderPhotoUploadPage(slug: string): Promise<void> {
   });
 }
 
+// Render unsubscribe page
+// Asks for a click rather than unsubscribing on load, so link scanners can't unsubscribe guests
+function renderUnsubscribePage(token?: string): void {
+  if (!token) {
+    renderErrorPage('This unsubscribe link is incomplete. Please use the link from your email.');
+    return;
+  }
+
+  document.title = 'Unsubscribe';
+
+  showContent(`
+    <div class="rsvp-page unsubscribe-page">
+      <h1>Unsubscribe</h1>
+      <p>Stop receiving reminders, save-the-dates and thank-you notes for this wedding.
+      You'll still get your invitation and a confirmation when you RSVP.</p>
+      <form id="unsubscribe-form" class="rsvp-form">
+        <button type="submit" class="btn btn-primary">Unsubscribe</button>
+        <p class="form-status" id="unsubscribe-status" role="alert"></p>
+      </form>
+    </div>
+  `);
+
+  const form = document.getElementById('unsubscribe-form') as HTMLFormElement | null;
+  const status = document.getElementById('unsubscribe-status');
+  const submitBtn = form?.querySelector('button[type="submit"]') as HTMLButtonElement | null;
+
+  form?.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    if (submitBtn) submitBtn.disabled = true;
+    updateFormStatus(status, 'Unsubscribing...');
+
+    const result = await unsubscribe(token);
+
+    if (result.ok) {
+      const names = result.data.partnerNames;
+      updateFormStatus(
+        status,
+        `You're unsubscribed from ${names[0]} & ${names[1]}'s wedding emails.`,
+        'success',
+      );
+      submitBtn?.remove();
+      return;
+    }
+
+    updateFormStatus(
+      status,
+      result.error === 'INVALID_TOKEN'
+        ? 'This unsubscribe link is not valid. Please use the link from your email.'
+        : 'Something went wrong. Please try again in a minute.',
+      'error',
+    );
+    if (submitBtn) submitBtn.disabled = false;
+  });
+}
+
 // Main app initialization
 async function init(): Promise<void> {
   const route = getRoute();
@@ -718,7 +1110,10 @@ async function init(): Promise<void> {
       }
       break;
     case 'rsvp':
-      await renderRsvpPage(route.token);
+      await renderRsvpPage(route.token, route.slug);
+      break;
+    case 'unsubscribe':
+      renderUnsubscribePage(route.token);
       break;
     case 'photo-upload':
       if (route.slug) {
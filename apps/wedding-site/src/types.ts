@@ -91,6 +91,8 @@ export interface WeddingEvent {
   address: string;
   city: string;
   timezone?: string;
+  order?: number;
+  rsvpDeadline?: string;
 }
 
 export interface EventDetailsData {
@@ -101,6 +103,7 @@ export interface EventDetailsData {
   address: string;
   city: string;
   timezone?: string;
+  showLocalTime?: boolean;
   events?: WeddingEvent[];
 }
 
@@ -116,6 +119,21 @@ export interface MealConfig {
   options: MealOption[];
 }
 
+// Custom question the couple added to the RSVP form
+export type RsvpQuestionType = 'text' | 'single_choice' | 'multi_choice' | 'number';
+
+export interface RsvpQuestion {
+  id: string;
+  label: string;
+  type: RsvpQuestionType;
+  options?: string[];
+  required: boolean;
+  eventId?: string;
+  order: number;
+}
+
+export type RsvpAnswerMap = Record<string, string | number | string[]>;
+
 export interface GuestbookMessage {
   id: string;
   weddingId: string;
@@ -161,6 +179,21 @@ export interface VideoConfig {
   videos: VideoEmbed[];
 }
 
+export type SeatingTableShape = 'round' | 'rectangle' | 'head';
+
+export interface FloorPlanPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+export interface SeatingSeat {
+  number: number;
+  label?: string;
+  x: number;
+  y: number;
+}
+
 export interface SeatingTableDisplay {
   id: string;
   name: string;
@@ -168,16 +201,48 @@ export interface SeatingTableDisplay {
   notes?: string;
   order: number;
   guestCount: number;
+  shape?: SeatingTableShape;
+  width?: number;
+  height?: number;
+  placement?: FloorPlanPlacement;
+  seats?: SeatingSeat[];
+}
+
+export type VenueFixtureKind = 'dance_floor' | 'stage' | 'bar' | 'other';
+
+export interface VenueFixture {
+  id: string;
+  kind: VenueFixtureKind;
+  label?: string;
+  width: number;
+  height: number;
+  placement: FloorPlanPlacement;
+}
+
+export interface SeatingFloorPlan {
+  room: { width: number; height: number };
+  fixtures: VenueFixture[];
 }
 
 export interface SeatingConfig {
   tables: SeatingTableDisplay[];
+  floorPlan?: SeatingFloorPlan;
+  /** Per-event charts of multi-event weddings */
+  events?: Array<{
+    eventId: string;
+    eventName: string;
+    tables: SeatingTableDisplay[];
+    floorPlan?: SeatingFloorPlan;
+  }>;
 }
 
 export interface GuestTableAssignment {
+  eventId?: string;
+  eventName?: string;
   tableName: string;
   tableId: string;
   seatNumber?: number;
+  seatLabel?: string;
   tableNotes?: string;
 }
 
@@ -190,6 +255,7 @@ export interface RenderConfig {
   eventDetails?: EventDetailsData;
   faq?: FaqConfig;
   mealConfig?: MealConfig;
+  rsvpDeadline?: string;
   registry?: RegistryConfig;
   accommodations?: AccommodationsConfig;
   guestbook?: GuestbookConfig;
@@ -199,6 +265,7 @@ export interface RenderConfig {
   passcodeProtected?: boolean;
   ogImageUrl?: string;
   language?: string;
+  timezone?: string;
   wedding: {
     slug: string;
     partnerNames: [string, string];
@@ -220,14 +287,16 @@ export interface PlusOneGuest {
 export interface RsvpGuestView {
   id: string;
   name: string;
-  email: string;
+  email?: string;
   partySize: number;
   rsvpStatus: RsvpStatus;
   dietaryNotes?: string;
   plusOneAllowance?: number;
   plusOneGuests?: PlusOneGuest[];
   mealOptionId?: string;
-  tableAssignment?: GuestTableAssignment;
+  rsvpAnswers?: RsvpAnswerMap;
+  invitedEventIds?: string[];
+  tableAssignments?: GuestTableAssignment[];
   photoOptOut?: boolean;
 }
 
@@ -239,11 +308,32 @@ export interface RsvpWeddingView {
   city?: string;
 }
 
+// Household the token holder can answer for (one invitation, one RSVP link)
+export interface RsvpHouseholdView {
+  id: string;
+  name: string;
+  members: RsvpGuestView[];
+}
+
 export interface RsvpViewData {
   guest: RsvpGuestView;
   wedding: RsvpWeddingView;
   theme: Theme;
   mealConfig?: MealConfig;
+  questions?: RsvpQuestion[];
+  household?: RsvpHouseholdView;
+  rsvpDeadline?: string;
+  rsvpClosed?: boolean;
+  calendarFeedUrl?: string;
+}
+
+// RSVP answer for another member of the token holder's household
+export interface RsvpMemberResponse {
+  guestId: string;
+  rsvpStatus: RsvpStatus;
+  dietaryNotes?: string;
+  mealOptionId?: string;
+  answers?: RsvpAnswerMap;
 }
 
 export interface RsvpSubmitRequest {
@@ -254,6 +344,32 @@ export interface RsvpSubmitRequest {
   plusOneGuests?: PlusOneGuest[];
   mealOptionId?: string;
   photoOptOut?: boolean;
+  answers?: RsvpAnswerMap;
+  householdMembers?: RsvpMemberResponse[];
+}
+
+// Find your invitation: guests look themselves up by name
+export interface RsvpLookupRequest {
+  slug: string;
+  name: string;
+  lastName?: string;
+  postalCode?: string;
+  email?: string;
+  passcode?: string;
+}
+
+// link_sent: if the guest is on the list, an RSVP link is on its way; found: show the form with the token;
+// needs_verification: several guests matched or the form needs proof it's them,
+// ask for a last name plus postal code or email
+export type RsvpLookupStatus = 'link_sent' | 'found' | 'needs_verification';
+
+export interface RsvpLookupResponse {
+  status: RsvpLookupStatus;
+  token?: string;
+}
+
+export interface UnsubscribeResponse {
+  partnerNames: [string, string];
 }
 
 // API Types
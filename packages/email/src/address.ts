@@ -0,0 +1,7 @@
+/**
+ * "Name <email>" with the name quoted, or the bare address without a name
+ */
+export function formatAddress(email: string, name?: string): string {
+  if (!name) return email;
+  return `"${name.replace(/["\\]/g, '\\$&')}" <${email}>`;
+}
@@ -0,0 +1,31 @@
+// Email transports shared by the platform API and the worker
+
+export type {
+  EmailProvider,
+  EmailMessage,
+  EmailAttachment,
+  EmailSendResult,
+  EmailTransport,
+  EmailSender,
+  EmailLogger,
+  CapturedEmail,
+} from './types';
+export {
+  EMAIL_PROVIDERS,
+  createEmailTransport,
+  resolveEmailProvider,
+  getEmailCaptureDir,
+  getEmailSender,
+  type EmailTransportOptions,
+} from './transport';
+export { isRetryableStatus, isRetryableError } from './retry';
+export { SendGridTransport } from './transports/sendgrid';
+export { SmtpTransport, type SmtpSettings } from './transports/smtp';
+export { PostmarkTransport } from './transports/postmark';
+export { SesTransport } from './transports/ses';
+export {
+  CaptureTransport,
+  listCapturedEmails,
+  getCapturedEmail,
+  clearCapturedEmails,
+} from './transports/capture';
@@ -0,0 +1,73 @@
+// Telling transient delivery failures apart from permanent ones
+
+/**
+ * HTTP statuses worth retrying: request timeout, rate limiting and server errors.
+ * Every other 4xx means the request itself was refused.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Network-level error codes (Node sockets, DNS, nodemailer connections)
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ECONNECTION',
+  'ESOCKET',
+  'EDNS',
+]);
+
+/**
+ * Whether a thrown error is a transient one (timeout, dropped connection...)
+ * rather than a refusal. Unknown errors are treated as transient so a job
+ * gets its remaining attempts instead of failing on the first surprise.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return true;
+  }
+
+  // fetch aborted by AbortSignal.timeout()
+  if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+    return true;
+  }
+
+  const { code, responseCode, $retryable, $metadata } = error as Error & {
+    code?: string;
+    responseCode?: number;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  // SMTP replies: 4xx are temporary, 5xx permanent
+  if (typeof responseCode === 'number') {
+    return responseCode < 500;
+  }
+
+  // AWS SDK service errors
+  if ($retryable) {
+    return true;
+  }
+  if (typeof $metadata?.httpStatusCode === 'number') {
+    return isRetryableStatus($metadata.httpStatusCode);
+  }
+
+  if (code && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // nodemailer's own codes for refused messages and logins
+  if (code === 'EENVELOPE' || code === 'EMESSAGE' || code === 'EAUTH') {
+    return false;
+  }
+
+  return true;
+}
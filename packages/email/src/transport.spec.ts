@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createEmailTransport,
+  resolveEmailProvider,
+  listCapturedEmails,
+  getCapturedEmail,
+  clearCapturedEmails,
+  isRetryableStatus,
+  isRetryableError,
+} from './index';
+
+const silentLogger = { log: () => {}, error: () => {} };
+
+describe('Email Transport', () => {
+  describe('resolveEmailProvider', () => {
+    it('should use EMAIL_PROVIDER when set', () => {
+      expect(resolveEmailProvider({ EMAIL_PROVIDER: 'Postmark' })).toBe('postmark');
+    });
+
+    it('should fall back to SendGrid when only its API key is set', () => {
+      expect(resolveEmailProvider({ SENDGRID_API_KEY: 'SG.key' })).toBe('sendgrid');
+    });
+
+    it('should capture mail when nothing is configured outside production', () => {
+      expect(resolveEmailProvider({ NODE_ENV: 'development' })).toBe('capture');
+    });
+
+    it('should refuse to run without a provider, or with capture, in production', () => {
+      expect(() => resolveEmailProvider({ NODE_ENV: 'production' })).toThrow('No email provider');
+      expect(() => resolveEmailProvider({ NODE_ENV: 'production', EMAIL_PROVIDER: 'capture' })).toThrow();
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => resolveEmailProvider({ EMAIL_PROVIDER: 'mailchimp' })).toThrow('Unknown EMAIL_PROVIDER');
+    });
+  });
+
+  describe('createEmailTransport', () => {
+    it('should require the selected provider settings', () => {
+      expect(() => createEmailTransport({ env: { EMAIL_PROVIDER: 'smtp' } })).toThrow('SMTP_HOST');
+      expect(() => createEmailTransport({ env: { EMAIL_PROVIDER: 'ses' } })).toThrow('AWS_REGION');
+    });
+  });
+
+  describe('retry classification', () => {
+    it('should retry rate limits and server errors but not other refusals', () => {
+      expect([408, 429, 500, 503].map(isRetryableStatus)).toEqual([true, true, true, true]);
+      expect([400, 401, 403, 422].map(isRetryableStatus)).toEqual([false, false, false, false]);
+    });
+
+    it('should retry network failures and temporary SMTP replies only', () => {
+      const timeout = Object.assign(new Error('aborted'), { name: 'TimeoutError' });
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const mailboxBusy = Object.assign(new Error('try later'), { responseCode: 451 });
+      const noSuchUser = Object.assign(new Error('no such user'), { responseCode: 550 });
+      const badAddress = Object.assign(new Error('no recipients'), { code: 'EENVELOPE' });
+
+      expect(isRetryableError(timeout)).toBe(true);
+      expect(isRetryableError(reset)).toBe(true);
+      expect(isRetryableError(mailboxBusy)).toBe(true);
+      expect(isRetryableError(noSuchUser)).toBe(false);
+      expect(isRetryableError(badAddress)).toBe(false);
+    });
+  });
+
+  describe('capture transport', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should store rendered messages for inspection', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'email-capture-'));
+      const transport = createEmailTransport({
+        env: { EMAIL_PROVIDER: 'capture', EMAIL_CAPTURE_DIR: dir, EMAIL_FROM_NAME: 'Alex & Sam' },
+        logger: silentLogger,
+      });
+
+      const result = await transport.send({
+        to: 'guest@example.com',
+        toName: 'Guest',
+        subject: 'You are invited',
+        htmlBody: '<p>Hi</p>',
+        textBody: 'Hi',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+        attachments: [{ filename: 'invite.ics', contentType: 'text/calendar', content: 'BEGIN:VCALENDAR' }],
+      });
+
+      expect(transport.provider).toBe('capture');
+      expect(result.success).toBe(true);
+
+      const [captured] = await listCapturedEmails(dir);
+      expect(captured).toMatchObject({
+        id: result.messageId,
+        to: 'guest@example.com',
+        subject: 'You are invited',
+        from: { name: 'Alex & Sam' },
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+        attachments: [{ filename: 'invite.ics', contentType: 'text/calendar', content: 'BEGIN:VCALENDAR' }],
+      });
+      expect(await getCapturedEmail(dir, '../secrets')).toBeNull();
+
+      expect(await clearCapturedEmails(dir)).toBe(1);
+      expect(await listCapturedEmails(dir)).toEqual([]);
+    });
+  });
+});
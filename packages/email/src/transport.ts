@@ -0,0 +1,133 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { EmailLogger, EmailProvider, EmailSender, EmailTransport } from './types';
+import { SendGridTransport } from './transports/sendgrid';
+import { SmtpTransport } from './transports/smtp';
+import { PostmarkTransport } from './transports/postmark';
+import { SesTransport } from './transports/ses';
+import { CaptureTransport } from './transports/capture';
+
+export const EMAIL_PROVIDERS: EmailProvider[] = ['sendgrid', 'smtp', 'postmark', 'ses', 'capture'];
+
+const DEFAULT_FROM_EMAIL = 'invites@everbloom.wedding';
+const DEFAULT_FROM_NAME = 'Everbloom Weddings';
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_SMTPS_PORT = 465;
+const DEFAULT_POSTMARK_STREAM = 'outbound';
+
+export interface EmailTransportOptions {
+  /** Environment to read the provider settings from (default process.env) */
+  env?: NodeJS.ProcessEnv;
+  logger?: EmailLogger;
+  /** Give up on a provider request after this long */
+  timeoutMs?: number;
+}
+
+/**
+ * Pick the provider for this environment.
+ * EMAIL_PROVIDER wins; without it SendGrid is used when SENDGRID_API_KEY is set
+ * (existing deployments), and everything else captures mail locally.
+ * @throws Error if EMAIL_PROVIDER is unknown, or nothing is configured in production
+ */
+export function resolveEmailProvider(env: NodeJS.ProcessEnv = process.env): EmailProvider {
+  const isProduction = env.NODE_ENV === 'production';
+  const configured = env.EMAIL_PROVIDER?.trim().toLowerCase();
+
+  if (configured) {
+    const provider = EMAIL_PROVIDERS.find((p) => p === configured);
+    if (!provider) {
+      throw new Error(
+        `Unknown EMAIL_PROVIDER "${env.EMAIL_PROVIDER}". Use one of: ${EMAIL_PROVIDERS.join(', ')}.`,
+      );
+    }
+    if (provider === 'capture' && isProduction) {
+      throw new Error('EMAIL_PROVIDER=capture cannot be used in production.');
+    }
+    return provider;
+  }
+
+  if (env.SENDGRID_API_KEY) {
+    return 'sendgrid';
+  }
+  if (isProduction) {
+    throw new Error('No email provider configured. Set EMAIL_PROVIDER and its settings.');
+  }
+  return 'capture';
+}
+
+/**
+ * Directory the capture transport writes to and the dev endpoint reads from
+ */
+export function getEmailCaptureDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env.EMAIL_CAPTURE_DIR || join(tmpdir(), 'wedding-bestie-emails');
+}
+
+/**
+ * Address emails are sent from: EMAIL_FROM_ADDRESS / EMAIL_FROM_NAME, falling
+ * back to the older SENDGRID_FROM_EMAIL / SENDGRID_FROM_NAME
+ */
+export function getEmailSender(env: NodeJS.ProcessEnv = process.env): EmailSender {
+  return {
+    email: env.EMAIL_FROM_ADDRESS || env.SENDGRID_FROM_EMAIL || DEFAULT_FROM_EMAIL,
+    name: env.EMAIL_FROM_NAME || env.SENDGRID_FROM_NAME || DEFAULT_FROM_NAME,
+  };
+}
+
+/**
+ * Build the transport for this environment (see resolveEmailProvider)
+ * Emails are sent from getEmailSender.
+ * @throws Error if the selected provider is missing a required setting
+ */
+export function createEmailTransport(options: EmailTransportOptions = {}): EmailTransport {
+  const env = options.env ?? process.env;
+  const logger = options.logger ?? console;
+  const provider = resolveEmailProvider(env);
+  const sender = getEmailSender(env);
+
+  const required = (name: string): string => {
+    const value = env[name];
+    if (!value) {
+      throw new Error(`${name} is required when EMAIL_PROVIDER=${provider}.`);
+    }
+    return value;
+  };
+
+  switch (provider) {
+    case 'sendgrid':
+      return new SendGridTransport(required('SENDGRID_API_KEY'), sender, logger, options.timeoutMs);
+    case 'smtp': {
+      const secure = env.SMTP_SECURE === 'true';
+      const port = Number(env.SMTP_PORT);
+      return new SmtpTransport(
+        {
+          host: required('SMTP_HOST'),
+          port: Number.isInteger(port) && port > 0 ? port : secure ? DEFAULT_SMTPS_PORT : DEFAULT_SMTP_PORT,
+          secure,
+          user: env.SMTP_USER || undefined,
+          password: env.SMTP_PASSWORD || undefined,
+        },
+        sender,
+        logger,
+        options.timeoutMs,
+      );
+    }
+    case 'postmark':
+      return new PostmarkTransport(
+        required('POSTMARK_SERVER_TOKEN'),
+        env.POSTMARK_MESSAGE_STREAM || DEFAULT_POSTMARK_STREAM,
+        sender,
+        logger,
+        options.timeoutMs,
+      );
+    case 'ses':
+      return new SesTransport(
+        env.SES_REGION || required('AWS_REGION'),
+        env.SES_CONFIGURATION_SET || undefined,
+        sender,
+        logger,
+        options.timeoutMs,
+      );
+    case 'capture':
+      return new CaptureTransport(getEmailCaptureDir(env), sender, logger);
+  }
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  CapturedEmail,
+  EmailLogger,
+  EmailMessage,
+  EmailSender,
+  EmailSendResult,
+  EmailTransport,
+} from '../types';
+import { isRetryableError } from '../retry';
+
+/**
+ * Capture IDs are UUIDs; anything else is rejected before touching the disk
+ */
+const CAPTURE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Stores each rendered message as a JSON file instead of sending it.
+ * The directory is shared, so mail captured by the worker shows up on the
+ * API's dev endpoint too.
+ */
+export class CaptureTransport implements EmailTransport {
+  readonly provider = 'capture' as const;
+
+  constructor(
+    private readonly dir: string,
+    private readonly sender: EmailSender,
+    private readonly logger: EmailLogger,
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const captured: CapturedEmail = {
+      id: randomUUID(),
+      from: this.sender,
+      capturedAt: new Date().toISOString(),
+      to: message.to,
+      toName: message.toName,
+      subject: message.subject,
+      htmlBody: message.htmlBody,
+      textBody: message.textBody,
+      headers: message.headers,
+      attachments: message.attachments,
+    };
+
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(join(this.dir, `${captured.id}.json`), JSON.stringify(captured, null, 2));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to capture email: ${errorMessage}`);
+      return { success: false, error: errorMessage, retryable: isRetryableError(error) };
+    }
+
+    this.logger.log(`Captured email to ${message.to}: "${message.subject}" (${captured.id})`);
+    return { success: true, messageId: captured.id };
+  }
+}
+
+/**
+ * Captured emails, newest first
+ */
+export async function listCapturedEmails(dir: string): Promise<CapturedEmail[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const emails = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => getCapturedEmail(dir, file.slice(0, -'.json'.length))),
+  );
+
+  return emails
+    .filter((email): email is CapturedEmail => email !== null)
+    .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+}
+
+/**
+ * One captured email, or null if there is none with this ID
+ */
+export async function getCapturedEmail(dir: string, id: string): Promise<CapturedEmail | null> {
+  if (!CAPTURE_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(join(dir, `${id}.json`), 'utf8')) as CapturedEmail;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete every captured email, returning how many there were
+ */
+export async function clearCapturedEmails(dir: string): Promise<number> {
+  const emails = await listCapturedEmails(dir);
+  await Promise.all(emails.map((email) => rm(join(dir, `${email.id}.json`), { force: true })));
+  return emails.length;
+}
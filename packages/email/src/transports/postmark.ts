@@ -0,0 +1,82 @@
+import type {
+  EmailLogger,
+  EmailMessage,
+  EmailSender,
+  EmailSendResult,
+  EmailTransport,
+} from '../types';
+import { isRetryableError, isRetryableStatus } from '../retry';
+import { formatAddress } from '../address';
+
+/**
+ * Postmark response body (ErrorCode 0 means accepted)
+ */
+interface PostmarkResponse {
+  MessageID?: string;
+  ErrorCode?: number;
+  Message?: string;
+}
+
+/**
+ * Postmark single email API
+ */
+export class PostmarkTransport implements EmailTransport {
+  readonly provider = 'postmark' as const;
+
+  constructor(
+    private readonly serverToken: string,
+    private readonly messageStream: string,
+    private readonly sender: EmailSender,
+    private readonly logger: EmailLogger,
+    private readonly timeoutMs?: number,
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const response = await fetch('https://api.postmarkapp.com/email', {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          'X-Postmark-Server-Token': this.serverToken,
+        },
+        signal: this.timeoutMs ? AbortSignal.timeout(this.timeoutMs) : undefined,
+        body: JSON.stringify({
+          From: formatAddress(this.sender.email, this.sender.name),
+          To: formatAddress(message.to, message.toName),
+          Subject: message.subject,
+          HtmlBody: message.htmlBody,
+          TextBody: message.textBody,
+          Headers: Object.entries(message.headers ?? {}).map(([Name, Value]) => ({ Name, Value })),
+          Attachments: message.attachments?.map((attachment) => ({
+            Name: attachment.filename,
+            Content: Buffer.from(attachment.content, 'utf8').toString('base64'),
+            ContentType: attachment.contentType,
+          })),
+          MessageStream: this.messageStream,
+        }),
+      });
+
+      const body = (await response.json().catch(() => ({}))) as PostmarkResponse;
+      if (!response.ok || (body.ErrorCode ?? 0) !== 0) {
+        this.logger.error(
+          `Postmark API error: ${response.status} - ${body.ErrorCode ?? ''} ${body.Message ?? ''}`,
+        );
+        return {
+          success: false,
+          error: `Postmark API error: ${body.ErrorCode ?? response.status}`,
+          // Postmark answers 422 with an ErrorCode for rejected recipients and content
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      const messageId = body.MessageID || `pm-${Date.now()}`;
+      this.logger.log(`Email sent to ${message.to} via Postmark, messageId: ${messageId}`);
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to send email via Postmark: ${errorMessage}`);
+      return { success: false, error: errorMessage, retryable: isRetryableError(error) };
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type {
+  EmailLogger,
+  EmailMessage,
+  EmailSender,
+  EmailSendResult,
+  EmailTransport,
+} from '../types';
+import { isRetryableError, isRetryableStatus } from '../retry';
+
+/**
+ * SendGrid v3 Mail Send API
+ */
+export class SendGridTransport implements EmailTransport {
+  readonly provider = 'sendgrid' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly sender: EmailSender,
+    private readonly logger: EmailLogger,
+    private readonly timeoutMs?: number,
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        signal: this.timeoutMs ? AbortSignal.timeout(this.timeoutMs) : undefined,
+        body: JSON.stringify({
+          personalizations: [
+            {
+              to: [{ email: message.to, name: message.toName }],
+            },
+          ],
+          from: { email: this.sender.email, name: this.sender.name },
+          subject: message.subject,
+          content: [
+            { type: 'text/plain', value: message.textBody },
+            { type: 'text/html', value: message.htmlBody },
+          ],
+          headers: message.headers,
+          attachments: message.attachments?.map((attachment) => ({
+            content: Buffer.from(attachment.content, 'utf8').toString('base64'),
+            filename: attachment.filename,
+            type: attachment.contentType,
+            disposition: 'attachment',
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.logger.error(`SendGrid API error: ${response.status} - ${errorText}`);
+        return {
+          success: false,
+          error: `SendGrid API error: ${response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      // SendGrid returns the message ID in a header
+      const messageId = response.headers.get('X-Message-Id') || `sg-${Date.now()}`;
+      this.logger.log(`Email sent to ${message.to} via SendGrid, messageId: ${messageId}`);
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to send email via SendGrid: ${errorMessage}`);
+      return { success: false, error: errorMessage, retryable: isRetryableError(error) };
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import type {
+  EmailLogger,
+  EmailMessage,
+  EmailSender,
+  EmailSendResult,
+  EmailTransport,
+} from '../types';
+import { isRetryableError } from '../retry';
+import { formatAddress } from '../address';
+
+/**
+ * Amazon SES (v2 API)
+ * Credentials come from the default AWS chain (env vars, instance role...).
+ */
+export class SesTransport implements EmailTransport {
+  readonly provider = 'ses' as const;
+  private readonly client: SESv2Client;
+
+  constructor(
+    region: string,
+    private readonly configurationSet: string | undefined,
+    private readonly sender: EmailSender,
+    private readonly logger: EmailLogger,
+    timeoutMs?: number,
+  ) {
+    this.client = new SESv2Client({
+      region,
+      requestHandler: timeoutMs ? { requestTimeout: timeoutMs } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const result = await this.client.send(
+        new SendEmailCommand({
+          FromEmailAddress: formatAddress(this.sender.email, this.sender.name),
+          Destination: { ToAddresses: [formatAddress(message.to, message.toName)] },
+          Content: {
+            Simple: {
+              Subject: { Data: message.subject, Charset: 'UTF-8' },
+              Body: {
+                Text: { Data: message.textBody, Charset: 'UTF-8' },
+                Html: { Data: message.htmlBody, Charset: 'UTF-8' },
+              },
+              Headers: message.headers
+                ? Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value }))
+                : undefined,
+              Attachments: message.attachments?.map((attachment) => ({
+                FileName: attachment.filename,
+                ContentType: attachment.contentType,
+                RawContent: Buffer.from(attachment.content, 'utf8'),
+                ContentDisposition: 'ATTACHMENT' as const,
+              })),
+            },
+          },
+          ConfigurationSetName: this.configurationSet,
+        }),
+      );
+
+      const messageId = result.MessageId || `ses-${Date.now()}`;
+      this.logger.log(`Email sent to ${message.to} via SES, messageId: ${messageId}`);
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to send email via SES: ${errorMessage}`);
+      return { success: false, error: `SES error: ${errorMessage}`, retryable: isRetryableError(error) };
+    }
+  }
+}
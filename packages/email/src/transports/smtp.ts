@@ -0,0 +1,72 @@
+import { createTransport, type Transporter } from 'nodemailer';
+import type {
+  EmailLogger,
+  EmailMessage,
+  EmailSender,
+  EmailSendResult,
+  EmailTransport,
+} from '../types';
+import { isRetryableError } from '../retry';
+
+/**
+ * Connection settings for a generic SMTP server
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Any SMTP server (Mailgun, Mailpit, a self-hosted relay...)
+ * One pooled connection is shared by every send.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly provider = 'smtp' as const;
+  private readonly transporter: Transporter;
+
+  constructor(
+    settings: SmtpSettings,
+    private readonly sender: EmailSender,
+    private readonly logger: EmailLogger,
+    timeoutMs?: number,
+  ) {
+    this.transporter = createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+      pool: true,
+      connectionTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: { address: this.sender.email, name: this.sender.name },
+        to: message.toName ? { address: message.to, name: message.toName } : message.to,
+        subject: message.subject,
+        text: message.textBody,
+        html: message.htmlBody,
+        headers: message.headers,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType,
+        })),
+      });
+
+      this.logger.log(`Email sent to ${message.to} via SMTP, messageId: ${info.messageId}`);
+      return { success: true, messageId: info.messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to send email via SMTP: ${errorMessage}`);
+      return { success: false, error: errorMessage, retryable: isRetryableError(error) };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// Types shared by the platform API and the worker for sending email
+
+/**
+ * Email providers a transport can be built for
+ * - capture: stores rendered messages on disk instead of sending (development and tests)
+ */
+export type EmailProvider = 'sendgrid' | 'smtp' | 'postmark' | 'ses' | 'capture';
+
+/**
+ * A text file attached to an email, e.g. a calendar invite
+ */
+export interface EmailAttachment {
+  filename: string;
+  /** MIME type, parameters included (e.g. text/calendar; method=REQUEST) */
+  contentType: string;
+  /** UTF-8 text; transports encode it as their provider expects */
+  content: string;
+}
+
+/**
+ * A rendered email ready to hand to a provider
+ */
+export interface EmailMessage {
+  to: string;
+  toName?: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Result of sending an email
+ * Transports never throw for delivery problems; they report them here.
+ */
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  /**
+   * Set on failures: true when sending again later may succeed (timeouts,
+   * rate limits, provider outages), false when it never will (rejected
+   * address, bad credentials, malformed message)
+   */
+  retryable?: boolean;
+}
+
+/**
+ * Sends rendered emails through one provider
+ */
+export interface EmailTransport {
+  readonly provider: EmailProvider;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * Sender shown on every email
+ */
+export interface EmailSender {
+  email: string;
+  name: string;
+}
+
+/**
+ * Minimal logger; Nest's Logger and console both fit
+ */
+export interface EmailLogger {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * A message stored by the capture transport
+ */
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  from: EmailSender;
+  capturedAt: string;
+}
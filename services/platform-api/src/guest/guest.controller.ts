@@ -6,6 +6,7 @@ import {
   Delete,
   Param,
   Body,
+  Query,
   Headers,
   Res,
   NotFoundException,
@@ -15,6 +16,7 @@ import {
 } from '@nestjs/common';
 import { Response } from 'express';
 import { GuestService } from './guest.service';
+import { SegmentService } from './segment.service';
 import { WeddingService } from '../wedding/wedding.service';
 import { AdminAuthService } from '../auth/admin-auth.service';
 import type {
@@ -31,13 +33,16 @@ import type {
   RemoveGuestsFromEventsRequest,
   EventAssignmentsResponse,
   RsvpSummary,
+  CalendarFeedResponse,
 } from '../types';
-import { GUEST_NOT_FOUND, GUEST_ALREADY_EXISTS, CSV_IMPORT_VALIDATION_ERROR, WEDDING_NOT_FOUND, FEATURE_DISABLED, EVENT_NOT_FOUND } from '../types';
+import { GUEST_NOT_FOUND, GUEST_ALREADY_EXISTS, CSV_IMPORT_VALIDATION_ERROR, WEDDING_NOT_FOUND, FEATURE_DISABLED, EVENT_NOT_FOUND, HOUSEHOLD_NOT_FOUND, VALIDATION_ERROR, SEGMENT_NOT_FOUND, INVALID_LANGUAGE } from '../types';
+import { getWeddingTimeZone } from '../utils/wedding-time-zone';
 
 @Controller('weddings/:weddingId/guests')
 export class GuestController {
   constructor(
     private readonly guestService: GuestService,
+    private readonly segmentService: SegmentService,
     private readonly weddingService: WeddingService,
     private readonly adminAuthService: AdminAuthService,
   ) {}
@@ -52,7 +57,7 @@ export class GuestController {
   ): Promise<ApiResponse<GuestListResponse>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const guests = await this.guestService.getGuestsForWedding(weddingId);
     return {
       ok: true,
       data: {
@@ -71,16 +76,17 @@ export class GuestController {
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
   ): Promise<ApiResponse<RsvpSummaryResponse>> {
-    await this.requireWeddingOwner(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
-    const summary = this.guestService.getGuestSummary(weddingId);
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const summary = await this.guestService.getGuestSummary(weddingId);
+    const guests = await this.guestService.getGuestsForWedding(weddingId);
 
     return {
       ok: true,
       data: {
         summary,
         guests,
+        questions: wedding.rsvpQuestions?.questions ?? [],
       },
     };
   }
@@ -104,7 +110,7 @@ export class GuestController {
       });
     }
 
-    const summary = this.guestService.getMealSummary(weddingId);
+    const summary = await this.guestService.getMealSummary(weddingId);
 
     return {
       ok: true,
@@ -127,7 +133,7 @@ export class GuestController {
   ): Promise<void> {
     const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const guests = await this.guestService.getGuestsForWedding(weddingId);
     const attendingGuests = guests.filter((g) => g.rsvpStatus === 'attending');
 
     // Get meal options mapping for readable names
@@ -217,23 +223,28 @@ export class GuestController {
    * Export email addresses for mail merge
    * PRD: "Admin can export email addresses for mailing"
    * Exports just email addresses in a format suitable for mail merge
+   * Pass segmentId to export only the guests currently in a segment.
    */
   @Get('export-emails')
   async exportEmails(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('segmentId') segmentId: string | undefined,
     @Res() res: Response,
   ): Promise<void> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const guests = await this.getExportGuests(weddingId, segmentId);
 
     // Build CSV content - simple format for mail merge
+    // Household members without an email are reached through their contact
     const headers = ['Name', 'Email'];
-    const rows = guests.map((guest) => [
-      this.escapeCsvField(guest.name),
-      this.escapeCsvField(guest.email),
-    ]);
+    const rows = guests
+      .filter((guest) => guest.email)
+      .map((guest) => [
+        this.escapeCsvField(guest.name),
+        this.escapeCsvField(guest.email ?? ''),
+      ]);
 
     const csv = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
 
@@ -246,22 +257,24 @@ export class GuestController {
   /**
    * Export guest list to CSV
    * PRD: "Admin can export guest list to CSV"
+   * Pass segmentId to export only the guests currently in a segment.
    */
   @Get('export')
   async exportGuests(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('segmentId') segmentId: string | undefined,
     @Res() res: Response,
   ): Promise<void> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const guests = await this.getExportGuests(weddingId, segmentId);
 
     // Build CSV content
     const headers = ['Name', 'Email', 'RSVP Status', 'Party Size', 'Dietary Notes', 'Invite Sent', 'RSVP Date'];
     const rows = guests.map((guest) => [
       this.escapeCsvField(guest.name),
-      this.escapeCsvField(guest.email),
+      this.escapeCsvField(guest.email ?? ''),
       guest.rsvpStatus,
       guest.partySize.toString(),
       this.escapeCsvField(guest.dietaryNotes || ''),
@@ -291,7 +304,8 @@ export class GuestController {
   ): Promise<void> {
     const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+    const guests = await this.guestService.getGuestsForWedding(weddingId);
+    const questions = wedding.rsvpQuestions?.questions ?? [];
 
     // Build comprehensive export data
     // Exclude sensitive fields like rsvpTokenHash but include all guest-relevant data
@@ -300,16 +314,24 @@ export class GuestController {
       weddingId: wedding.id,
       weddingName: wedding.name,
       totalGuests: guests.length,
+      rsvpQuestions: questions.map((question) => ({
+        id: question.id,
+        label: question.label,
+        type: question.type,
+        eventId: question.eventId || null,
+      })),
       guests: guests.map((guest) => ({
         id: guest.id,
         name: guest.name,
-        email: guest.email,
+        email: guest.email || null,
+        householdId: guest.householdId || null,
         partySize: guest.partySize,
         rsvpStatus: guest.rsvpStatus,
         dietaryNotes: guest.dietaryNotes || null,
         plusOneAllowance: guest.plusOneAllowance ?? 0,
         plusOneGuests: guest.plusOneGuests || [],
         mealOptionId: guest.mealOptionId || null,
+        rsvpAnswers: guest.rsvpAnswers || {},
         tagIds: guest.tagIds || [],
         inviteSentAt: guest.inviteSentAt || null,
         rsvpSubmittedAt: guest.rsvpSubmittedAt || null,
@@ -324,6 +346,28 @@ export class GuestController {
     res.send(JSON.stringify(exportData, null, 2));
   }
 
+  /**
+   * Guests to export: everyone, or the guests currently in a segment
+   */
+  private async getExportGuests(weddingId: string, segmentId?: string): Promise<Guest[]> {
+    if (!segmentId) {
+      return this.guestService.getGuestsForWedding(weddingId);
+    }
+
+    try {
+      return await this.segmentService.getSegmentGuests(weddingId, segmentId);
+    } catch (error) {
+      if (error instanceof Error && error.message === SEGMENT_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: SEGMENT_NOT_FOUND,
+          message: 'Segment not found',
+        });
+      }
+      throw error;
+    }
+  }
+
   /**
    * Escape a field for CSV output (handle commas, quotes, newlines)
    */
@@ -371,6 +415,7 @@ export class GuestController {
       weddingId,
       body.guests,
       eventDate,
+      getWeddingTimeZone(wedding),
     );
 
     const imported = results.filter((r) => r.success).length;
@@ -400,14 +445,37 @@ export class GuestController {
   ): Promise<ApiResponse<Guest>> {
     const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
+    // Only household members may go without an email; their contact receives it
+    if (!body.email?.trim() && !body.householdId) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Email is required unless the guest belongs to a household',
+      });
+    }
+    if (body.preferredLanguage !== undefined && !this.weddingService.isValidLanguage(body.preferredLanguage)) {
+      throw new BadRequestException({ ok: false, error: INVALID_LANGUAGE });
+    }
+
     try {
       // createGuest returns { guest, rawToken }
       // We discard rawToken here - it will be regenerated when sending invitations
       // Pass event date for token expiry capping
       const eventDate = wedding.eventDetails?.date;
-      const { guest } = await this.guestService.createGuest(weddingId, body, eventDate);
+      const { guest } = await this.guestService.createGuest(
+        weddingId,
+        { ...body, email: body.email?.trim() || undefined },
+        eventDate,
+        getWeddingTimeZone(wedding),
+      );
       return { ok: true, data: guest };
     } catch (error) {
+      if (error instanceof Error && error.message === 'HOUSEHOLD_NOT_FOUND') {
+        throw new NotFoundException({
+          ok: false,
+          error: HOUSEHOLD_NOT_FOUND,
+        });
+      }
       if (error instanceof Error && error.message === 'GUEST_ALREADY_EXISTS') {
         throw new ConflictException({
           ok: false,
@@ -436,7 +504,7 @@ export class GuestController {
   ): Promise<ApiResponse<Guest>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guest = this.guestService.getGuest(guestId);
+    const guest = await this.guestService.getGuest(guestId);
 
     if (!guest || guest.weddingId !== weddingId) {
       throw new NotFoundException({
@@ -460,7 +528,7 @@ export class GuestController {
   ): Promise<ApiResponse<Guest>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guest = this.guestService.getGuest(guestId);
+    const guest = await this.guestService.getGuest(guestId);
     if (!guest || guest.weddingId !== weddingId) {
       throw new NotFoundException({
         ok: false,
@@ -468,6 +536,14 @@ export class GuestController {
       });
     }
 
+    if (
+      body.preferredLanguage !== undefined &&
+      body.preferredLanguage !== null &&
+      !this.weddingService.isValidLanguage(body.preferredLanguage)
+    ) {
+      throw new BadRequestException({ ok: false, error: INVALID_LANGUAGE });
+    }
+
     const updated = await this.guestService.updateGuest(guestId, body);
     if (!updated) {
       throw new NotFoundException({
@@ -479,6 +555,38 @@ export class GuestController {
     return { ok: true, data: updated };
   }
 
+  /**
+   * Reset a guest's calendar feed
+   * The old feed URL stops working (e.g. after it was shared by mistake); the
+   * guest finds the new one on their RSVP page.
+   */
+  @Post(':guestId/calendar-feed/reset')
+  async resetCalendarFeed(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('guestId') guestId: string,
+  ): Promise<ApiResponse<CalendarFeedResponse>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const guest = await this.guestService.getGuest(guestId);
+    if (!guest || guest.weddingId !== weddingId) {
+      throw new NotFoundException({
+        ok: false,
+        error: GUEST_NOT_FOUND,
+      });
+    }
+
+    const updated = await this.guestService.resetCalendarFeed(guest);
+    if (!updated) {
+      throw new NotFoundException({
+        ok: false,
+        error: GUEST_NOT_FOUND,
+      });
+    }
+
+    return { ok: true, data: { calendarFeedUrl: this.guestService.getCalendarFeedUrl(updated) } };
+  }
+
   /**
    * Delete a guest
    */
@@ -490,7 +598,7 @@ export class GuestController {
   ): Promise<ApiResponse<{ deleted: boolean }>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const guest = this.guestService.getGuest(guestId);
+    const guest = await this.guestService.getGuest(guestId);
     if (!guest || guest.weddingId !== weddingId) {
       throw new NotFoundException({
         ok: false,
@@ -536,7 +644,7 @@ export class GuestController {
 
     // Validate guest IDs belong to this wedding
     for (const guestId of body.guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+      const guest = await this.guestService.getGuest(guestId);
       if (!guest || guest.weddingId !== weddingId) {
         throw new NotFoundException({
           ok: false,
@@ -597,7 +705,7 @@ export class GuestController {
 
     // Validate guest IDs belong to this wedding
     for (const guestId of body.guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+      const guest = await this.guestService.getGuest(guestId);
       if (!guest || guest.weddingId !== weddingId) {
         throw new NotFoundException({
           ok: false,
@@ -630,7 +738,7 @@ export class GuestController {
   ): Promise<ApiResponse<EventAssignmentsResponse>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const assignments = this.guestService.getEventAssignments(weddingId);
+    const assignments = await this.guestService.getEventAssignments(weddingId);
 
     // Calculate event counts from assignments
     const eventCounts: Record<string, number> = {};
@@ -674,7 +782,7 @@ export class GuestController {
       });
     }
 
-    const summary = this.guestService.getEventRsvpSummary(weddingId, eventId);
+    const summary = await this.guestService.getEventRsvpSummary(weddingId, eventId);
 
     return {
       ok: true,
@@ -712,7 +820,7 @@ export class GuestController {
       });
     }
 
-    const guests = this.guestService.getGuestsForEvent(weddingId, eventId);
+    const guests = await this.guestService.getGuestsForEvent(weddingId, eventId);
 
     return {
       ok: true,
@@ -1,15 +1,19 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { GuestController } from './guest.controller';
 import { TagController } from './tag.controller';
+import { HouseholdController } from './household.controller';
+import { SegmentController } from './segment.controller';
 import { GuestService } from './guest.service';
 import { TagService } from './tag.service';
+import { HouseholdService } from './household.service';
+import { SegmentService } from './segment.service';
 import { AuthModule } from '../auth/auth.module';
 import { WeddingModule } from '../wedding/wedding.module';
 
 @Module({
   imports: [forwardRef(() => AuthModule), forwardRef(() => WeddingModule)],
-  controllers: [GuestController, TagController],
-  providers: [GuestService, TagService],
-  exports: [GuestService, TagService],
+  controllers: [GuestController, TagController, HouseholdController, SegmentController],
+  providers: [GuestService, TagService, HouseholdService, SegmentService],
+  exports: [GuestService, TagService, HouseholdService, SegmentService],
 })
 export class GuestModule {}
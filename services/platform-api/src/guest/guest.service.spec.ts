@@ -0,0 +1,147 @@
+import { GuestService } from './guest.service';
+import { getSupabaseClient } from '../utils/supabase';
+import type { DbGuest } from '../utils/supabase';
+
+jest.mock('../utils/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+describe('GuestService', () => {
+  let guestService: GuestService;
+  let rpc: jest.Mock;
+  let from: jest.Mock;
+  let query: Record<string, jest.Mock>;
+  let queryResult: { data: unknown; error: unknown };
+
+  // Helper to create a guest row as Supabase returns it
+  const createDbGuest = (overrides?: Partial<DbGuest>): DbGuest =>
+    ({
+      id: 'guest-1',
+      wedding_id: 'wedding-1',
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      party_size: 1,
+      rsvp_status: 'pending',
+      tag_ids: [],
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      ...overrides,
+    }) as DbGuest;
+
+  beforeEach(() => {
+    queryResult = { data: [], error: null };
+    query = {};
+    for (const method of ['select', 'eq', 'overlaps', 'order', 'update', 'in']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    // Awaiting the builder resolves the query
+    (query as unknown as PromiseLike<unknown>).then = ((resolve: (value: unknown) => unknown) =>
+      Promise.resolve(queryResult).then(resolve)) as never;
+
+    rpc = jest.fn().mockResolvedValue({ data: [], error: null });
+    from = jest.fn().mockReturnValue(query);
+    (getSupabaseClient as jest.Mock).mockReturnValue({ rpc, from });
+
+    guestService = new GuestService();
+  });
+
+  describe('assignTagsToGuests', () => {
+    it('should add tags to every guest in one call', async () => {
+      rpc.mockResolvedValue({
+        data: [
+          createDbGuest({ id: 'guest-1', tag_ids: ['tag-a', 'tag-b'] }),
+          createDbGuest({ id: 'guest-2', tag_ids: ['tag-b'] }),
+        ],
+        error: null,
+      });
+
+      const updated = await guestService.assignTagsToGuests(
+        'wedding-1',
+        ['guest-1', 'guest-2'],
+        ['tag-b'],
+      );
+
+      expect(rpc).toHaveBeenCalledTimes(1);
+      expect(rpc).toHaveBeenCalledWith('add_guest_tags', {
+        p_wedding_id: 'wedding-1',
+        p_guest_ids: ['guest-1', 'guest-2'],
+        p_tag_ids: ['tag-b'],
+      });
+      expect(from).not.toHaveBeenCalled();
+      expect(updated.map((g) => g.tagIds)).toEqual([['tag-a', 'tag-b'], ['tag-b']]);
+    });
+
+    it('should skip the database when there is nothing to assign', async () => {
+      expect(await guestService.assignTagsToGuests('wedding-1', [], ['tag-a'])).toEqual([]);
+      expect(await guestService.assignTagsToGuests('wedding-1', ['guest-1'], [])).toEqual([]);
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return no guests when the update fails', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+      expect(await guestService.assignTagsToGuests('wedding-1', ['guest-1'], ['tag-a'])).toEqual([]);
+    });
+  });
+
+  describe('removeTagsFromGuests', () => {
+    it('should remove tags from every guest in one call', async () => {
+      rpc.mockResolvedValue({
+        data: [
+          createDbGuest({ id: 'guest-1', tag_ids: ['tag-a'] }),
+          createDbGuest({ id: 'guest-2', tag_ids: [] }),
+        ],
+        error: null,
+      });
+
+      const updated = await guestService.removeTagsFromGuests(
+        'wedding-1',
+        ['guest-1', 'guest-2'],
+        ['tag-b'],
+      );
+
+      expect(rpc).toHaveBeenCalledTimes(1);
+      expect(rpc).toHaveBeenCalledWith('remove_guest_tags', {
+        p_wedding_id: 'wedding-1',
+        p_guest_ids: ['guest-1', 'guest-2'],
+        p_tag_ids: ['tag-b'],
+      });
+      expect(updated.map((g) => g.tagIds)).toEqual([['tag-a'], undefined]);
+    });
+  });
+
+  describe('removeTagFromAllGuests', () => {
+    it('should remove the tag from the whole wedding in one call', async () => {
+      await guestService.removeTagFromAllGuests('wedding-1', 'tag-a');
+
+      expect(rpc).toHaveBeenCalledTimes(1);
+      expect(rpc).toHaveBeenCalledWith('remove_guest_tags', {
+        p_wedding_id: 'wedding-1',
+        p_guest_ids: null,
+        p_tag_ids: ['tag-a'],
+      });
+    });
+  });
+
+  describe('getGuestsByTags', () => {
+    it('should return the wedding guests having any of the tags', async () => {
+      queryResult = {
+        data: [createDbGuest({ id: 'guest-1', tag_ids: ['tag-a'] })],
+        error: null,
+      };
+
+      const guests = await guestService.getGuestsByTags('wedding-1', ['tag-a', 'tag-b']);
+
+      expect(from).toHaveBeenCalledWith('guests');
+      expect(query.eq).toHaveBeenCalledWith('wedding_id', 'wedding-1');
+      expect(query.overlaps).toHaveBeenCalledWith('tag_ids', ['tag-a', 'tag-b']);
+      expect(guests.map((g) => g.id)).toEqual(['guest-1']);
+    });
+
+    it('should return no guests when the query fails', async () => {
+      queryResult = { data: null, error: { message: 'boom' } };
+
+      expect(await guestService.getGuestsByTags('wedding-1', ['tag-a'])).toEqual([]);
+    });
+  });
+});
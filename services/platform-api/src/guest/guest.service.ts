@@ -1,5 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
+import { getSupabaseClient, DbGuest, DbEventGuestAssignment } from '../utils/supabase';
+import { createCalendarFeedToken, toWebcalUrl, verifyCalendarFeedToken } from '../utils/calendar-feed';
+import { createRsvpSessionToken, verifyRsvpSessionToken } from '../utils/rsvp-session';
+import { addDays, isValidDateString, resolveTimeZone } from '../utils/rsvp-deadline';
+import { endOfDayInTimeZone } from '../utils/wedding-time-zone';
 import type {
   Guest,
   RsvpStatus,
@@ -10,19 +15,39 @@ import type {
   PlusOneGuest,
   EventRsvpMap,
   EventGuestAssignment,
+  RsvpSummary,
+  RsvpAnswerMap,
+  SupportedLanguage,
 } from '../types';
 
+/**
+ * Postgres unique_violation error code (duplicate email per wedding)
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Escape LIKE wildcards so an email can be matched case-insensitively with ilike
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function getCalendarFeedSecret(): string {
+  return process.env.CALENDAR_FEED_SECRET || 'dev-calendar-feed-secret';
+}
+
+function getRsvpSessionSecret(): string {
+  return process.env.RSVP_SESSION_SECRET || 'dev-rsvp-session-secret';
+}
+
+function getWeddingSiteUrl(): string {
+  return process.env.WEDDING_SITE_URL || 'http://localhost:4321';
+}
+
 @Injectable()
 export class GuestService {
   private readonly logger = new Logger(GuestService.name);
 
-  // In-memory store for development
-  private guests: Map<string, Guest> = new Map();
-
-  // In-memory store for event-guest assignments
-  // Key format: "{weddingId}:{eventId}:{guestId}"
-  private eventGuestAssignments: Map<string, EventGuestAssignment> = new Map();
-
   // Default token expiration: 30 days
   private readonly TOKEN_EXPIRY_DAYS = 30;
 
@@ -34,6 +59,57 @@ export class GuestService {
   // Only update if >1 hour since last update
   private readonly LAST_USED_THROTTLE_MS = 60 * 60 * 1000; // 1 hour
 
+  /**
+   * Convert database guest to API type
+   */
+  private dbGuestToGuest(db: DbGuest): Guest {
+    const plusOneGuests = (db.plus_one_guests ?? []) as unknown as PlusOneGuest[];
+    const eventRsvps = (db.event_rsvps ?? {}) as unknown as EventRsvpMap;
+    const rsvpAnswers = (db.rsvp_answers ?? {}) as unknown as RsvpAnswerMap;
+
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      name: db.name,
+      email: db.email ?? undefined,
+      householdId: db.household_id ?? undefined,
+      partySize: db.party_size,
+      rsvpStatus: db.rsvp_status as RsvpStatus,
+      dietaryNotes: db.dietary_notes ?? undefined,
+      rsvpTokenHash: db.rsvp_token_hash ?? undefined,
+      rsvpTokenExpiresAt: db.rsvp_token_expires_at ?? undefined,
+      rsvpTokenCreatedAt: db.rsvp_token_created_at ?? undefined,
+      rsvpTokenLastUsedAt: db.rsvp_token_last_used_at ?? undefined,
+      tagIds: db.tag_ids && db.tag_ids.length > 0 ? db.tag_ids : undefined,
+      plusOneAllowance: db.plus_one_allowance ?? undefined,
+      plusOneGuests: plusOneGuests.length > 0 ? plusOneGuests : undefined,
+      mealOptionId: db.meal_option_id ?? undefined,
+      rsvpAnswers: Object.keys(rsvpAnswers).length > 0 ? rsvpAnswers : undefined,
+      eventRsvps: Object.keys(eventRsvps).length > 0 ? eventRsvps : undefined,
+      invitedEventIds:
+        db.invited_event_ids && db.invited_event_ids.length > 0 ? db.invited_event_ids : undefined,
+      photoOptOut: db.photo_opt_out ?? undefined,
+      postalCode: db.postal_code ?? undefined,
+      preferredLanguage: (db.preferred_language as SupportedLanguage | null) ?? undefined,
+      calendarFeedVersion: db.calendar_feed_version ?? 0,
+      inviteSentAt: db.invite_sent_at ?? undefined,
+      rsvpSubmittedAt: db.rsvp_submitted_at ?? undefined,
+      createdAt: db.created_at,
+      updatedAt: db.updated_at,
+    };
+  }
+
+  /**
+   * Convert database event assignment to API type
+   */
+  private dbAssignmentToAssignment(db: DbEventGuestAssignment): EventGuestAssignment {
+    return {
+      eventId: db.event_id,
+      guestId: db.guest_id,
+      assignedAt: db.assigned_at,
+    };
+  }
+
   /**
    * Generate a secure RSVP token for a guest
    * Returns 32 bytes of random data as hex (64 character string)
@@ -43,15 +119,26 @@ export class GuestService {
     return randomBytes(32).toString('hex');
   }
 
+  /**
+   * Whether RSVP tokens can still be issued for a wedding on this date
+   * @param eventDate - Optional wedding/event date (YYYY-MM-DD)
+   * @param timeZone - The wedding's time zone
+   */
+  canIssueRsvpTokens(eventDate?: string, timeZone?: string): boolean {
+    return this.getTokenExpiry(eventDate, timeZone) !== null;
+  }
+
   /**
    * Calculate token expiration timestamp
-   * If eventDate is provided, cap expiry at eventDate + grace period
+   * If eventDate is provided, cap expiry at the end of the grace period's last
+   * day in the wedding's time zone
    * This prevents tokens from remaining valid long after the wedding
    *
-   * @param eventDate - Optional wedding/event date (ISO string)
+   * @param eventDate - Optional wedding/event date (YYYY-MM-DD)
+   * @param timeZone - The wedding's time zone
    * @returns Token expiration timestamp (ISO string), or null if tokens should not be issued
    */
-  private getTokenExpiry(eventDate?: string): string | null {
+  private getTokenExpiry(eventDate?: string, timeZone?: string): string | null {
     const now = new Date();
 
     // Default expiry: TOKEN_EXPIRY_DAYS from now
@@ -64,15 +151,17 @@ export class GuestService {
     }
 
     // Validate event date
-    const eventDateParsed = new Date(eventDate);
-    if (isNaN(eventDateParsed.getTime())) {
+    const eventDay = eventDate.slice(0, 10);
+    if (!isValidDateString(eventDay)) {
       this.logger.warn(`Invalid eventDate: ${eventDate}, using default expiry`);
       return defaultExpiry.toISOString();
     }
 
-    // Calculate event-based expiry: eventDate + grace period
-    const eventBasedExpiry = new Date(eventDateParsed);
-    eventBasedExpiry.setDate(eventBasedExpiry.getDate() + this.TOKEN_POST_EVENT_GRACE_DAYS);
+    // Calculate event-based expiry: end of eventDate + grace period at the venue
+    const eventBasedExpiry = endOfDayInTimeZone(
+      addDays(eventDay, this.TOKEN_POST_EVENT_GRACE_DAYS),
+      resolveTimeZone(timeZone),
+    );
 
     // If event + grace is in the past, refuse to mint tokens
     // This prevents issuing tokens for weddings that are already over
@@ -126,17 +215,48 @@ export class GuestService {
   }
 
   /**
-   * Verify a token against a stored hash using timing-safe comparison
-   * This prevents timing attacks that could leak information about token structure
+   * Apply a partial update to a guest row and return the mapped result
+   */
+  private async updateGuestRow(
+    guestId: string,
+    changes: Partial<DbGuest>,
+  ): Promise<Guest | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', guestId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to update guest ${guestId}`, error);
+      }
+      return null;
+    }
+
+    return this.dbGuestToGuest(data as DbGuest);
+  }
+
+  /**
+   * Fetch several guests by ID in a single query
    */
-  private verifyToken(candidateToken: string, storedHash: string): boolean {
-    const candidateHash = this.hashToken(candidateToken);
-    // Both hashes are 64 character hex strings (SHA-256)
-    const candidateBuffer = Buffer.from(candidateHash, 'hex');
-    const storedBuffer = Buffer.from(storedHash, 'hex');
+  private async getGuestsByIds(guestIds: string[]): Promise<Guest[]> {
+    if (guestIds.length === 0) {
+      return [];
+    }
 
-    // Timing-safe comparison prevents timing attacks
-    return timingSafeEqual(candidateBuffer, storedBuffer);
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .in('id', guestIds);
+
+    if (error || !data) return [];
+    return data.map((g) => this.dbGuestToGuest(g as DbGuest));
   }
 
   /**
@@ -147,49 +267,81 @@ export class GuestService {
    * @param weddingId - The wedding ID
    * @param request - Guest creation request
    * @param eventDate - Optional event date for token expiry capping
+   * @param timeZone - The wedding's time zone, which the event date is in
+   * @returns rawToken is undefined for household members, who share their contact's RSVP link
    * @throws Error with 'EVENT_EXPIRED' if event + grace period is in the past
+   * @throws Error with 'HOUSEHOLD_NOT_FOUND' if householdId is not in this wedding
    */
   async createGuest(
     weddingId: string,
     request: CreateGuestRequest,
     eventDate?: string,
-  ): Promise<{ guest: Guest; rawToken: string }> {
+    timeZone?: string,
+  ): Promise<{ guest: Guest; rawToken?: string }> {
+    const supabase = getSupabaseClient();
+
+    if (request.householdId) {
+      const { data: household } = await supabase
+        .from('households')
+        .select('id')
+        .eq('id', request.householdId)
+        .eq('wedding_id', weddingId)
+        .maybeSingle();
+
+      if (!household) {
+        throw new Error('HOUSEHOLD_NOT_FOUND');
+      }
+    }
+
     // Check for duplicate email in same wedding
-    const existing = this.findByEmail(weddingId, request.email);
-    if (existing) {
-      throw new Error('GUEST_ALREADY_EXISTS');
+    if (request.email) {
+      const existing = await this.findByEmail(weddingId, request.email);
+      if (existing) {
+        throw new Error('GUEST_ALREADY_EXISTS');
+      }
     }
 
     // Check if tokens can be issued for this event date
-    const tokenExpiry = this.getTokenExpiry(eventDate);
+    const tokenExpiry = this.getTokenExpiry(eventDate, timeZone);
     if (tokenExpiry === null) {
       throw new Error('EVENT_EXPIRED');
     }
 
     const now = new Date().toISOString();
-    const guestId = randomBytes(16).toString('hex');
 
-    // Generate raw token and hash it for storage
-    const rawToken = this.generateRsvpToken();
-    const tokenHash = this.hashToken(rawToken);
-
-    const guest: Guest = {
-      id: guestId,
-      weddingId,
-      name: request.name,
-      email: request.email,
-      partySize: request.partySize ?? 1,
-      rsvpStatus: 'pending' as RsvpStatus,
-      rsvpTokenHash: tokenHash, // Store hash, not raw token
-      rsvpTokenExpiresAt: tokenExpiry,
-      rsvpTokenCreatedAt: now,
-      plusOneAllowance: request.plusOneAllowance,
-      createdAt: now,
-      updatedAt: now,
-    };
+    // Household members answer through the contact's link, so only standalone guests get a token
+    const rawToken = request.householdId ? undefined : this.generateRsvpToken();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .insert({
+        wedding_id: weddingId,
+        name: request.name,
+        email: request.email ?? null,
+        household_id: request.householdId ?? null,
+        party_size: request.partySize ?? 1,
+        rsvp_status: 'pending',
+        rsvp_token_hash: rawToken ? this.hashToken(rawToken) : null, // Store hash, not raw token
+        rsvp_token_expires_at: rawToken ? tokenExpiry : null,
+        rsvp_token_created_at: rawToken ? now : null,
+        plus_one_allowance: request.plusOneAllowance ?? 0,
+        postal_code: request.postalCode?.trim() || null,
+        preferred_language: request.preferredLanguage ?? null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      // A concurrent insert can still win the race past findByEmail
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error('GUEST_ALREADY_EXISTS');
+      }
+      this.logger.error('Failed to create guest', error);
+      throw new Error('Failed to create guest');
+    }
 
-    this.guests.set(guestId, guest);
-    this.logger.log(`Created guest ${guestId} for wedding ${weddingId}`);
+    const guest = this.dbGuestToGuest(data as DbGuest);
+    this.logger.log(`Created guest ${guest.id} for wedding ${weddingId}`);
 
     // Return both guest and raw token (for immediate email sending)
     return { guest, rawToken };
@@ -202,37 +354,94 @@ export class GuestService {
     guestId: string,
     request: UpdateGuestRequest,
   ): Promise<Guest | null> {
-    const guest = this.guests.get(guestId);
-    if (!guest) {
-      return null;
+    const changes: Partial<DbGuest> = {};
+
+    if (request.name !== undefined) changes.name = request.name;
+    if (request.email !== undefined) changes.email = request.email;
+    if (request.partySize !== undefined) changes.party_size = request.partySize;
+    if (request.dietaryNotes !== undefined) changes.dietary_notes = request.dietaryNotes;
+    if (request.plusOneAllowance !== undefined) changes.plus_one_allowance = request.plusOneAllowance;
+    if (request.postalCode !== undefined) changes.postal_code = request.postalCode.trim() || null;
+    if (request.preferredLanguage !== undefined) changes.preferred_language = request.preferredLanguage;
+
+    const updated = await this.updateGuestRow(guestId, changes);
+    if (updated) {
+      this.logger.log(`Updated guest ${guestId}`);
     }
 
-    const updated: Guest = {
-      ...guest,
-      name: request.name ?? guest.name,
-      email: request.email ?? guest.email,
-      partySize: request.partySize ?? guest.partySize,
-      dietaryNotes: request.dietaryNotes ?? guest.dietaryNotes,
-      plusOneAllowance: request.plusOneAllowance !== undefined ? request.plusOneAllowance : guest.plusOneAllowance,
-      updatedAt: new Date().toISOString(),
-    };
+    return updated;
+  }
 
-    this.guests.set(guestId, updated);
-    this.logger.log(`Updated guest ${guestId}`);
+  /**
+   * Record that an invitation email was sent to a guest
+   * For a household contact, every member is marked: they share the one invitation
+   */
+  async markInviteSent(guestId: string): Promise<Guest | null> {
+    const updated = await this.updateGuestRow(guestId, { invite_sent_at: new Date().toISOString() });
+
+    if (updated?.householdId) {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase
+        .from('guests')
+        .update({ invite_sent_at: updated.inviteSentAt, updated_at: new Date().toISOString() })
+        .eq('household_id', updated.householdId)
+        .neq('id', guestId);
+
+      if (error) {
+        this.logger.error(`Failed to mark household ${updated.householdId} invited`, error);
+      }
+    }
 
     return updated;
   }
 
+  /**
+   * The guest's subscribable calendar feed (webcal://)
+   * Served through the wedding site's /api proxy, like unsubscribe links.
+   */
+  getCalendarFeedUrl(guest: Guest): string {
+    const token = createCalendarFeedToken(guest.id, guest.calendarFeedVersion ?? 0, getCalendarFeedSecret());
+    return toWebcalUrl(`${getWeddingSiteUrl()}/api/calendar/feed/${token}/calendar.ics`);
+  }
+
+  /**
+   * The guest a calendar feed token belongs to
+   * Returns null if the token is invalid or the guest's feed was reset since.
+   */
+  async getGuestByCalendarFeedToken(token: string): Promise<Guest | null> {
+    const feed = verifyCalendarFeedToken(token, getCalendarFeedSecret());
+    if (!feed) {
+      return null;
+    }
+
+    const guest = await this.getGuest(feed.guestId);
+    return guest && (guest.calendarFeedVersion ?? 0) === feed.version ? guest : null;
+  }
+
+  /**
+   * Revoke the guest's calendar feed URL; the updated guest has a new one
+   */
+  async resetCalendarFeed(guest: Guest): Promise<Guest | null> {
+    return this.updateGuestRow(guest.id, { calendar_feed_version: (guest.calendarFeedVersion ?? 0) + 1 });
+  }
+
   /**
    * Delete a guest
+   * Event assignments and seating rows are removed by ON DELETE CASCADE
    */
   async deleteGuest(guestId: string): Promise<boolean> {
-    const guest = this.guests.get(guestId);
-    if (!guest) {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .delete()
+      .eq('id', guestId)
+      .select('id');
+
+    if (error || !data || data.length === 0) {
       return false;
     }
 
-    this.guests.delete(guestId);
     this.logger.log(`Deleted guest ${guestId}`);
 
     return true;
@@ -241,55 +450,85 @@ export class GuestService {
   /**
    * Get a guest by ID
    */
-  getGuest(guestId: string): Guest | null {
-    return this.guests.get(guestId) || null;
+  async getGuest(guestId: string): Promise<Guest | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('id', guestId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbGuestToGuest(data as DbGuest);
   }
 
   /**
    * Get all guests for a wedding
    */
-  getGuestsForWedding(weddingId: string): Guest[] {
-    const weddingGuests: Guest[] = [];
-    for (const guest of this.guests.values()) {
-      if (guest.weddingId === weddingId) {
-        weddingGuests.push(guest);
-      }
-    }
+  async getGuestsForWedding(weddingId: string): Promise<Guest[]> {
+    const supabase = getSupabaseClient();
+
     // Sort by name alphabetically
-    return weddingGuests.sort((a, b) => a.name.localeCompare(b.name));
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('name', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map((g) => this.dbGuestToGuest(g as DbGuest));
   }
 
   /**
-   * Find a guest by email in a wedding
+   * Find a guest by email in a wedding (case-insensitive)
    */
-  findByEmail(weddingId: string, email: string): Guest | null {
-    const normalizedEmail = email.toLowerCase();
-    for (const guest of this.guests.values()) {
-      if (
-        guest.weddingId === weddingId &&
-        guest.email.toLowerCase() === normalizedEmail
-      ) {
-        return guest;
-      }
-    }
-    return null;
+  async findByEmail(weddingId: string, email: string): Promise<Guest | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .ilike('email', escapeLikePattern(email.trim()))
+      .limit(1);
+
+    if (error || !data || data.length === 0) return null;
+    return this.dbGuestToGuest(data[0] as DbGuest);
   }
 
   /**
    * Import guests from CSV data
    * PRD: "Admin can import invitees via CSV"
    *
+   * Rows are validated up front and valid rows are written in a single insert.
+   *
    * @param weddingId - The wedding ID
    * @param rows - CSV guest data rows
    * @param eventDate - Optional event date for token expiry capping
+   * @param timeZone - The wedding's time zone, which the event date is in
    */
   async importGuestsFromCsv(
     weddingId: string,
     rows: CsvGuestRow[],
     eventDate?: string,
+    timeZone?: string,
   ): Promise<CsvImportRowResult[]> {
+    const supabase = getSupabaseClient();
     const results: CsvImportRowResult[] = [];
 
+    // Load existing emails once so duplicate checks don't cost a query per row
+    const existingGuests = await this.getGuestsForWedding(weddingId);
+    const seenEmails = new Set(
+      existingGuests.flatMap((g) => (g.email ? [g.email.toLowerCase()] : [])),
+    );
+
+    const tokenExpiry = this.getTokenExpiry(eventDate, timeZone);
+    const now = new Date().toISOString();
+
+    // Rows that passed validation, keyed by normalized email
+    const pending = new Map<string, { result: CsvImportRowResult; insert: Partial<DbGuest> }>();
+
     for (let i = 0; i < rows.length; i++) {
       const row = rows[i];
       const rowNumber = i + 1;
@@ -330,9 +569,9 @@ export class GuestService {
         continue;
       }
 
-      // Check for duplicate in wedding
-      const existing = this.findByEmail(weddingId, row.email.trim());
-      if (existing) {
+      // Check for duplicate in wedding (including earlier rows of this file)
+      const normalizedEmail = row.email.trim().toLowerCase();
+      if (seenEmails.has(normalizedEmail)) {
         results.push({
           row: rowNumber,
           name: row.name,
@@ -343,40 +582,61 @@ export class GuestService {
         continue;
       }
 
-      // Create the guest
-      try {
-        // createGuest returns { guest, rawToken }
-        // We discard rawToken - it will be regenerated when sending invitations
-        const { guest } = await this.createGuest(weddingId, {
-          name: row.name.trim(),
-          email: row.email.trim(),
-          partySize: row.partySize ?? 1,
-        }, eventDate);
-
+      if (tokenExpiry === null) {
         results.push({
           row: rowNumber,
           name: row.name,
           email: row.email,
-          success: true,
-          guest,
+          success: false,
+          error: 'Cannot import guests for past events',
         });
-      } catch (error) {
-        if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
-          results.push({
-            row: rowNumber,
-            name: row.name,
-            email: row.email,
-            success: false,
-            error: 'Cannot import guests for past events',
-          });
-        } else {
-          results.push({
-            row: rowNumber,
-            name: row.name,
-            email: row.email,
-            success: false,
-            error: 'Failed to create guest',
-          });
+        continue;
+      }
+
+      seenEmails.add(normalizedEmail);
+
+      // The raw token is discarded - it will be regenerated when sending invitations
+      const result: CsvImportRowResult = {
+        row: rowNumber,
+        name: row.name,
+        email: row.email,
+        success: false,
+      };
+      results.push(result);
+      pending.set(normalizedEmail, {
+        result,
+        insert: {
+          wedding_id: weddingId,
+          name: row.name.trim(),
+          email: row.email.trim(),
+          party_size: row.partySize ?? 1,
+          postal_code: row.postalCode?.trim() || null,
+          rsvp_status: 'pending',
+          rsvp_token_hash: this.hashToken(this.generateRsvpToken()),
+          rsvp_token_expires_at: tokenExpiry,
+          rsvp_token_created_at: now,
+        },
+      });
+    }
+
+    if (pending.size > 0) {
+      const { data, error } = await supabase
+        .from('guests')
+        .insert([...pending.values()].map((p) => p.insert))
+        .select();
+
+      if (error || !data) {
+        this.logger.error(`CSV import insert failed for wedding ${weddingId}`, error);
+        for (const { result } of pending.values()) {
+          result.error = 'Failed to create guest';
+        }
+      } else {
+        for (const row of data as DbGuest[]) {
+          const entry = row.email ? pending.get(row.email.toLowerCase()) : undefined;
+          if (entry) {
+            entry.result.success = true;
+            entry.result.guest = this.dbGuestToGuest(row);
+          }
         }
       }
     }
@@ -391,35 +651,112 @@ export class GuestService {
   }
 
   /**
-   * Find a guest by RSVP token using timing-safe comparison
-   * The token is hashed and compared against the stored hash
+   * Find a guest by RSVP token
+   * The token is hashed and looked up via the indexed rsvp_token_hash column,
+   * so only hashes are ever compared and the raw token never reaches the database
    * PRD: "Tokens are expirable"
+   * Short-lived session tokens from an invitation lookup are accepted too.
    * @returns Guest if found and token is valid/not expired, null otherwise
    */
-  getGuestByRsvpToken(token: string): Guest | null {
-    for (const guest of this.guests.values()) {
-      if (guest.rsvpTokenHash && this.verifyToken(token, guest.rsvpTokenHash)) {
-        // Check if token is expired
-        if (this.isTokenExpired(guest.rsvpTokenExpiresAt)) {
-          this.logger.warn(`RSVP token expired for guest ${guest.id}`);
-          return null;
-        }
+  async getGuestByRsvpToken(token: string): Promise<Guest | null> {
+    const session = verifyRsvpSessionToken(token, getRsvpSessionSecret());
+    if (session) {
+      return this.getGuest(session.guestId);
+    }
 
-        // Throttle last_used_at updates to prevent write amplification
-        // Only update if >1 hour since last update
-        if (this.shouldUpdateLastUsed(guest.rsvpTokenLastUsedAt)) {
-          const updated: Guest = {
-            ...guest,
-            rsvpTokenLastUsedAt: new Date().toISOString(),
-          };
-          this.guests.set(guest.id, updated);
-          return updated;
-        }
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('rsvp_token_hash', this.hashToken(token))
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const guest = this.dbGuestToGuest(data as DbGuest);
+
+    // Check if token is expired
+    if (this.isTokenExpired(guest.rsvpTokenExpiresAt)) {
+      this.logger.warn(`RSVP token expired for guest ${guest.id}`);
+      return null;
+    }
 
+    // Throttle last_used_at updates to prevent write amplification
+    // Only update if >1 hour since last update
+    if (this.shouldUpdateLastUsed(guest.rsvpTokenLastUsedAt)) {
+      const lastUsedAt = new Date().toISOString();
+      const { error: touchError } = await supabase
+        .from('guests')
+        .update({ rsvp_token_last_used_at: lastUsedAt })
+        .eq('id', guest.id);
+
+      if (touchError) {
+        this.logger.warn(`Failed to record RSVP token use for guest ${guest.id}`);
         return guest;
       }
+
+      return { ...guest, rsvpTokenLastUsedAt: lastUsedAt };
+    }
+
+    return guest;
+  }
+
+  /**
+   * Get every member of a household, sorted by name
+   */
+  async getHouseholdMembers(householdId: string): Promise<Guest[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('name', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map((g) => this.dbGuestToGuest(g as DbGuest));
+  }
+
+  /**
+   * Get the member who receives a household's emails and holds its RSVP token
+   * Falls back to (and records) the first member with an email if no contact is set,
+   * e.g. after the previous contact was deleted
+   */
+  async getHouseholdContact(householdId: string): Promise<Guest | null> {
+    const supabase = getSupabaseClient();
+
+    const { data: household } = await supabase
+      .from('households')
+      .select('primary_guest_id')
+      .eq('id', householdId)
+      .maybeSingle();
+
+    if (!household) {
+      return null;
+    }
+
+    if (household.primary_guest_id) {
+      return this.getGuest(household.primary_guest_id);
     }
-    return null;
+
+    const contact = (await this.getHouseholdMembers(householdId)).find((member) => member.email);
+    if (!contact) {
+      return null;
+    }
+
+    const { error } = await supabase
+      .from('households')
+      .update({ primary_guest_id: contact.id })
+      .eq('id', householdId);
+
+    if (error) {
+      this.logger.warn(`Failed to record contact for household ${householdId}`);
+    }
+
+    return contact;
   }
 
   /**
@@ -429,21 +766,37 @@ export class GuestService {
    * This invalidates any previous RSVP links for security
    * PRD: "Tokens are high entropy, expirable"
    *
+   * A household shares one token: for any member, the token is issued to the
+   * household contact, and the returned guest is the contact.
+   *
    * @param guestId - The guest ID
    * @param eventDate - Optional event date for token expiry capping
-   * @returns Guest with new token and raw token, or null if guest not found
+   * @param timeZone - The wedding's time zone, which the event date is in
+   * @returns Guest with new token and raw token, or null if guest (or household contact) not found
    * @throws Error with 'EVENT_EXPIRED' if event + grace period is in the past
    */
-  regenerateRsvpToken(guestId: string, eventDate?: string): { guest: Guest; rawToken: string } | null {
-    const guest = this.guests.get(guestId);
+  async regenerateRsvpToken(
+    guestId: string,
+    eventDate?: string,
+    timeZone?: string,
+  ): Promise<{ guest: Guest; rawToken: string } | null> {
+    // Check if tokens can be issued for this event date
+    const tokenExpiry = this.getTokenExpiry(eventDate, timeZone);
+    if (tokenExpiry === null) {
+      throw new Error('EVENT_EXPIRED');
+    }
+
+    const guest = await this.getGuest(guestId);
     if (!guest) {
       return null;
     }
 
-    // Check if tokens can be issued for this event date
-    const tokenExpiry = this.getTokenExpiry(eventDate);
-    if (tokenExpiry === null) {
-      throw new Error('EVENT_EXPIRED');
+    if (guest.householdId) {
+      const contact = await this.getHouseholdContact(guest.householdId);
+      if (!contact) {
+        return null;
+      }
+      guestId = contact.id;
     }
 
     const now = new Date().toISOString();
@@ -452,21 +805,58 @@ export class GuestService {
     const rawToken = this.generateRsvpToken();
     const tokenHash = this.hashToken(rawToken);
 
-    const updated: Guest = {
-      ...guest,
-      rsvpTokenHash: tokenHash,
-      rsvpTokenExpiresAt: tokenExpiry,
-      rsvpTokenCreatedAt: now,
-      rsvpTokenLastUsedAt: undefined, // Reset on regeneration
-      updatedAt: now,
-    };
+    const updated = await this.updateGuestRow(guestId, {
+      rsvp_token_hash: tokenHash,
+      rsvp_token_expires_at: tokenExpiry,
+      rsvp_token_created_at: now,
+      rsvp_token_last_used_at: null, // Reset on regeneration
+    });
+
+    if (!updated) {
+      return null;
+    }
 
-    this.guests.set(guestId, updated);
     this.logger.log(`Regenerated RSVP token for guest ${guestId}`);
 
     return { guest: updated, rawToken };
   }
 
+  /**
+   * Issue a short-lived RSVP token for a guest who found their invitation on the site
+   * Unlike regenerateRsvpToken, the stored token is untouched, so the link already
+   * emailed to the guest keeps working. Household members get a token for their
+   * household contact, and the returned guest is the contact.
+   *
+   * @param guestId - The guest ID
+   * @param ttlMs - How long the token is valid for
+   * @param eventDate - Optional event date for token expiry capping
+   * @param timeZone - The wedding's time zone, which the event date is in
+   * @returns Guest and session token, or null if guest (or household contact) not found
+   * @throws Error with 'EVENT_EXPIRED' if event + grace period is in the past
+   */
+  async createRsvpSession(
+    guestId: string,
+    ttlMs: number,
+    eventDate?: string,
+    timeZone?: string,
+  ): Promise<{ guest: Guest; token: string } | null> {
+    const tokenExpiry = this.getTokenExpiry(eventDate, timeZone);
+    if (tokenExpiry === null) {
+      throw new Error('EVENT_EXPIRED');
+    }
+
+    let guest = await this.getGuest(guestId);
+    if (guest?.householdId) {
+      guest = await this.getHouseholdContact(guest.householdId);
+    }
+    if (!guest) {
+      return null;
+    }
+
+    const sessionExpiry = new Date(Math.min(Date.now() + ttlMs, new Date(tokenExpiry).getTime()));
+    return { guest, token: createRsvpSessionToken(guest.id, sessionExpiry, getRsvpSessionSecret()) };
+  }
+
   /**
    * Update guest RSVP status with optional plus-one guests and meal options
    * @param guestId - The guest ID
@@ -488,7 +878,7 @@ export class GuestService {
     mealOptionId?: string,
     photoOptOut?: boolean,
   ): Promise<Guest | null> {
-    const guest = this.guests.get(guestId);
+    const guest = await this.getGuest(guestId);
     if (!guest) {
       return null;
     }
@@ -509,37 +899,65 @@ export class GuestService {
     const expectedPartySize = 1 + plusOnesCount;
     const actualPartySize = rsvpStatus === 'attending' ? Math.max(partySize, expectedPartySize) : partySize;
 
-    const updated: Guest = {
-      ...guest,
-      rsvpStatus,
-      partySize: actualPartySize,
-      dietaryNotes: dietaryNotes ?? guest.dietaryNotes,
-      plusOneGuests: rsvpStatus === 'attending' ? plusOneGuests : undefined,
-      mealOptionId: rsvpStatus === 'attending' ? mealOptionId : undefined,
-      photoOptOut: photoOptOut ?? guest.photoOptOut,
-      rsvpSubmittedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const updated = await this.updateGuestRow(guestId, {
+      rsvp_status: rsvpStatus,
+      party_size: actualPartySize,
+      dietary_notes: dietaryNotes ?? guest.dietaryNotes ?? null,
+      plus_one_guests: (rsvpStatus === 'attending' ? plusOneGuests ?? [] : []) as unknown as Record<string, unknown>[],
+      meal_option_id: rsvpStatus === 'attending' ? mealOptionId ?? null : null,
+      photo_opt_out: photoOptOut ?? guest.photoOptOut ?? false,
+      rsvp_submitted_at: new Date().toISOString(),
+    });
 
-    this.guests.set(guestId, updated);
-    this.logger.log(
-      `Updated RSVP for guest ${guestId}: ${rsvpStatus}${plusOnesCount > 0 ? ` with ${plusOnesCount} plus-one(s)` : ''}${mealOptionId ? ` meal: ${mealOptionId}` : ''}${photoOptOut ? ' (photo opt-out)' : ''}`,
-    );
+    if (updated) {
+      this.logger.log(
+        `Updated RSVP for guest ${guestId}: ${rsvpStatus}${plusOnesCount > 0 ? ` with ${plusOnesCount} plus-one(s)` : ''}${mealOptionId ? ` meal: ${mealOptionId}` : ''}${photoOptOut ? ' (photo opt-out)' : ''}`,
+      );
+    }
 
     return updated;
   }
 
+  /**
+   * Replace a guest's answers to the wedding's custom RSVP questions
+   * Answers must already be validated against the questions
+   */
+  async saveRsvpAnswers(guestId: string, answers: RsvpAnswerMap): Promise<Guest | null> {
+    const updated = await this.updateGuestRow(guestId, {
+      rsvp_answers: answers as unknown as Record<string, unknown>,
+    });
+
+    if (updated) {
+      this.logger.log(`Saved ${Object.keys(answers).length} RSVP answer(s) for guest ${guestId}`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Count invitations: each household is one invitation, as is each guest outside a household
+   */
+  private countInvitations(guests: Guest[]): number {
+    const households = new Set<string>();
+    let standalone = 0;
+
+    for (const guest of guests) {
+      if (guest.householdId) {
+        households.add(guest.householdId);
+      } else {
+        standalone++;
+      }
+    }
+
+    return households.size + standalone;
+  }
+
   /**
    * Get guest count summary for a wedding
+   * Counts are per person: every household member is a guest of their own
    */
-  getGuestSummary(weddingId: string): {
-    total: number;
-    attending: number;
-    notAttending: number;
-    pending: number;
-    totalPartySize: number;
-  } {
-    const guests = this.getGuestsForWedding(weddingId);
+  async getGuestSummary(weddingId: string): Promise<RsvpSummary> {
+    const guests = await this.getGuestsForWedding(weddingId);
 
     const summary = {
       total: guests.length,
@@ -547,6 +965,7 @@ export class GuestService {
       notAttending: 0,
       pending: 0,
       totalPartySize: 0,
+      invitations: this.countInvitations(guests),
     };
 
     for (const guest of guests) {
@@ -571,15 +990,15 @@ export class GuestService {
    * Get meal selection summary for a wedding
    * PRD: "Admin can export meal counts"
    */
-  getMealSummary(weddingId: string): {
+  async getMealSummary(weddingId: string): Promise<{
     counts: {
       byOption: Record<string, number>;
       total: number;
       noSelection: number;
     };
     dietaryNotes: Array<{ guestName: string; notes: string }>;
-  } {
-    const guests = this.getGuestsForWedding(weddingId);
+  }> {
+    const guests = await this.getGuestsForWedding(weddingId);
     const attendingGuests = guests.filter((g) => g.rsvpStatus === 'attending');
 
     const counts: Record<string, number> = {};
@@ -638,32 +1057,14 @@ export class GuestService {
   /**
    * Assign tags to guests
    * PRD: "Admin can create guest tags for segmentation"
+   * Every guest is updated in one statement; guests outside the wedding are skipped.
    */
   async assignTagsToGuests(
+    weddingId: string,
     guestIds: string[],
     tagIds: string[],
   ): Promise<Guest[]> {
-    const updatedGuests: Guest[] = [];
-
-    for (const guestId of guestIds) {
-      const guest = this.guests.get(guestId);
-      if (!guest) {
-        continue;
-      }
-
-      // Merge existing tags with new tags (no duplicates)
-      const existingTags = guest.tagIds || [];
-      const mergedTags = [...new Set([...existingTags, ...tagIds])];
-
-      const updated: Guest = {
-        ...guest,
-        tagIds: mergedTags,
-        updatedAt: new Date().toISOString(),
-      };
-
-      this.guests.set(guestId, updated);
-      updatedGuests.push(updated);
-    }
+    const updatedGuests = await this.updateGuestTags('add_guest_tags', weddingId, guestIds, tagIds);
 
     this.logger.log(
       `Assigned ${tagIds.length} tags to ${updatedGuests.length} guests`,
@@ -676,30 +1077,11 @@ export class GuestService {
    * Remove tags from guests
    */
   async removeTagsFromGuests(
+    weddingId: string,
     guestIds: string[],
     tagIds: string[],
   ): Promise<Guest[]> {
-    const updatedGuests: Guest[] = [];
-
-    for (const guestId of guestIds) {
-      const guest = this.guests.get(guestId);
-      if (!guest) {
-        continue;
-      }
-
-      // Remove specified tags
-      const existingTags = guest.tagIds || [];
-      const filteredTags = existingTags.filter((t) => !tagIds.includes(t));
-
-      const updated: Guest = {
-        ...guest,
-        tagIds: filteredTags.length > 0 ? filteredTags : undefined,
-        updatedAt: new Date().toISOString(),
-      };
-
-      this.guests.set(guestId, updated);
-      updatedGuests.push(updated);
-    }
+    const updatedGuests = await this.updateGuestTags('remove_guest_tags', weddingId, guestIds, tagIds);
 
     this.logger.log(
       `Removed ${tagIds.length} tags from ${updatedGuests.length} guests`,
@@ -712,37 +1094,60 @@ export class GuestService {
    * Get guests filtered by tag IDs
    * PRD: "Admin can filter guests by tag"
    */
-  getGuestsByTags(weddingId: string, tagIds: string[]): Guest[] {
-    const weddingGuests = this.getGuestsForWedding(weddingId);
+  async getGuestsByTags(weddingId: string, tagIds: string[]): Promise<Guest[]> {
+    const supabase = getSupabaseClient();
 
     // Return guests that have at least one of the specified tags
-    return weddingGuests.filter((guest) => {
-      if (!guest.tagIds || guest.tagIds.length === 0) {
-        return false;
-      }
-      return guest.tagIds.some((tagId) => tagIds.includes(tagId));
-    });
+    const { data, error } = await supabase
+      .from('guests')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .overlaps('tag_ids', tagIds)
+      .order('name', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map((g) => this.dbGuestToGuest(g as DbGuest));
   }
 
   /**
    * Remove a specific tag from all guests in a wedding (used when deleting a tag)
    */
   async removeTagFromAllGuests(weddingId: string, tagId: string): Promise<void> {
-    const guests = this.getGuestsForWedding(weddingId);
+    await this.updateGuestTags('remove_guest_tags', weddingId, null, [tagId]);
 
-    for (const guest of guests) {
-      if (guest.tagIds && guest.tagIds.includes(tagId)) {
-        const filteredTags = guest.tagIds.filter((t) => t !== tagId);
-        const updated: Guest = {
-          ...guest,
-          tagIds: filteredTags.length > 0 ? filteredTags : undefined,
-          updatedAt: new Date().toISOString(),
-        };
-        this.guests.set(guest.id, updated);
+    this.logger.log(`Removed tag ${tagId} from all guests in wedding ${weddingId}`);
+  }
+
+  /**
+   * Add or remove tags on many guests with one set-based update
+   * A null guest list means every guest in the wedding that has one of the tags.
+   */
+  private async updateGuestTags(
+    fn: 'add_guest_tags' | 'remove_guest_tags',
+    weddingId: string,
+    guestIds: string[] | null,
+    tagIds: string[],
+  ): Promise<Guest[]> {
+    if (guestIds?.length === 0 || tagIds.length === 0) {
+      return [];
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc(fn, {
+      p_wedding_id: weddingId,
+      p_guest_ids: guestIds,
+      p_tag_ids: tagIds,
+    });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to update tags of guests in wedding ${weddingId}`, error);
       }
+      return [];
     }
 
-    this.logger.log(`Removed tag ${tagId} from all guests in wedding ${weddingId}`);
+    return (data as DbGuest[]).map((g) => this.dbGuestToGuest(g));
   }
 
   // ============================================================================
@@ -757,7 +1162,7 @@ export class GuestService {
     guestId: string,
     eventRsvps: EventRsvpMap,
   ): Promise<Guest | null> {
-    const guest = this.guests.get(guestId);
+    const guest = await this.getGuest(guestId);
     if (!guest) {
       return null;
     }
@@ -785,18 +1190,17 @@ export class GuestService {
       }
     }
 
-    const updated: Guest = {
-      ...guest,
-      eventRsvps: mergedEventRsvps,
-      rsvpStatus: overallStatus,
-      rsvpSubmittedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const updated = await this.updateGuestRow(guestId, {
+      event_rsvps: mergedEventRsvps as unknown as Record<string, unknown>,
+      rsvp_status: overallStatus,
+      rsvp_submitted_at: new Date().toISOString(),
+    });
 
-    this.guests.set(guestId, updated);
-    this.logger.log(
-      `Updated event RSVPs for guest ${guestId}: ${Object.keys(eventRsvps).length} events`,
-    );
+    if (updated) {
+      this.logger.log(
+        `Updated event RSVPs for guest ${guestId}: ${Object.keys(eventRsvps).length} events`,
+      );
+    }
 
     return updated;
   }
@@ -804,53 +1208,55 @@ export class GuestService {
   /**
    * Assign guests to specific events
    * PRD: "Admin can configure event-specific guest lists"
+   * @returns Only the assignments that did not already exist
    */
   async assignGuestsToEvents(
     weddingId: string,
     guestIds: string[],
     eventIds: string[],
   ): Promise<EventGuestAssignment[]> {
-    const assignments: EventGuestAssignment[] = [];
+    const supabase = getSupabaseClient();
+    const guests = (await this.getGuestsByIds(guestIds)).filter(
+      (guest) => guest.weddingId === weddingId,
+    );
+
+    if (guests.length === 0 || eventIds.length === 0) {
+      return [];
+    }
+
     const now = new Date().toISOString();
+    const rows = guests.flatMap((guest) =>
+      eventIds.map((eventId) => ({
+        wedding_id: weddingId,
+        guest_id: guest.id,
+        event_id: eventId,
+        assigned_at: now,
+      })),
+    );
 
-    for (const guestId of guestIds) {
-      const guest = this.guests.get(guestId);
-      if (!guest || guest.weddingId !== weddingId) {
-        continue;
-      }
+    // Existing (guest, event) pairs are skipped by the unique constraint
+    const { data, error } = await supabase
+      .from('event_guest_assignments')
+      .upsert(rows, { onConflict: 'guest_id,event_id', ignoreDuplicates: true })
+      .select();
 
-      for (const eventId of eventIds) {
-        const key = `${weddingId}:${eventId}:${guestId}`;
-
-        // Check if assignment already exists
-        if (!this.eventGuestAssignments.has(key)) {
-          const assignment: EventGuestAssignment = {
-            eventId,
-            guestId,
-            assignedAt: now,
-          };
-          this.eventGuestAssignments.set(key, assignment);
-          assignments.push(assignment);
-        }
-      }
+    if (error) {
+      this.logger.error(`Failed to assign guests to events in wedding ${weddingId}`, error);
+      throw new Error('Failed to assign guests to events');
+    }
 
-      // Update guest's invitedEventIds
+    // Update each guest's invitedEventIds
+    for (const guest of guests) {
       const existingEventIds = guest.invitedEventIds || [];
       const mergedEventIds = [...new Set([...existingEventIds, ...eventIds])];
-
-      const updated: Guest = {
-        ...guest,
-        invitedEventIds: mergedEventIds,
-        updatedAt: now,
-      };
-      this.guests.set(guestId, updated);
+      await this.updateGuestRow(guest.id, { invited_event_ids: mergedEventIds });
     }
 
     this.logger.log(
-      `Assigned ${guestIds.length} guests to ${eventIds.length} events in wedding ${weddingId}`,
+      `Assigned ${guests.length} guests to ${eventIds.length} events in wedding ${weddingId}`,
     );
 
-    return assignments;
+    return (data ?? []).map((row) => this.dbAssignmentToAssignment(row as DbEventGuestAssignment));
   }
 
   /**
@@ -861,56 +1267,62 @@ export class GuestService {
     guestIds: string[],
     eventIds: string[],
   ): Promise<void> {
-    const now = new Date().toISOString();
+    const supabase = getSupabaseClient();
+    const guests = (await this.getGuestsByIds(guestIds)).filter(
+      (guest) => guest.weddingId === weddingId,
+    );
 
-    for (const guestId of guestIds) {
-      const guest = this.guests.get(guestId);
-      if (!guest || guest.weddingId !== weddingId) {
-        continue;
-      }
+    if (guests.length === 0 || eventIds.length === 0) {
+      return;
+    }
 
-      for (const eventId of eventIds) {
-        const key = `${weddingId}:${eventId}:${guestId}`;
-        this.eventGuestAssignments.delete(key);
-      }
+    const { error } = await supabase
+      .from('event_guest_assignments')
+      .delete()
+      .eq('wedding_id', weddingId)
+      .in('guest_id', guests.map((g) => g.id))
+      .in('event_id', eventIds);
+
+    if (error) {
+      this.logger.error(`Failed to remove guests from events in wedding ${weddingId}`, error);
+      throw new Error('Failed to remove guests from events');
+    }
 
-      // Update guest's invitedEventIds
+    // Update each guest's invitedEventIds
+    for (const guest of guests) {
       const existingEventIds = guest.invitedEventIds || [];
       const filteredEventIds = existingEventIds.filter((id) => !eventIds.includes(id));
-
-      const updated: Guest = {
-        ...guest,
-        invitedEventIds: filteredEventIds.length > 0 ? filteredEventIds : undefined,
-        updatedAt: now,
-      };
-      this.guests.set(guestId, updated);
+      await this.updateGuestRow(guest.id, {
+        invited_event_ids: filteredEventIds.length > 0 ? filteredEventIds : null,
+      });
     }
 
     this.logger.log(
-      `Removed ${guestIds.length} guests from ${eventIds.length} events in wedding ${weddingId}`,
+      `Removed ${guests.length} guests from ${eventIds.length} events in wedding ${weddingId}`,
     );
   }
 
   /**
    * Get all event assignments for a wedding
    */
-  getEventAssignments(weddingId: string): EventGuestAssignment[] {
-    const assignments: EventGuestAssignment[] = [];
+  async getEventAssignments(weddingId: string): Promise<EventGuestAssignment[]> {
+    const supabase = getSupabaseClient();
 
-    for (const [key, assignment] of this.eventGuestAssignments.entries()) {
-      if (key.startsWith(`${weddingId}:`)) {
-        assignments.push(assignment);
-      }
-    }
+    const { data, error } = await supabase
+      .from('event_guest_assignments')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('assigned_at', { ascending: true });
 
-    return assignments;
+    if (error || !data) return [];
+    return data.map((row) => this.dbAssignmentToAssignment(row as DbEventGuestAssignment));
   }
 
   /**
    * Get guests invited to a specific event
    */
-  getGuestsForEvent(weddingId: string, eventId: string): Guest[] {
-    const guests = this.getGuestsForWedding(weddingId);
+  async getGuestsForEvent(weddingId: string, eventId: string): Promise<Guest[]> {
+    const guests = await this.getGuestsForWedding(weddingId);
 
     return guests.filter((guest) => {
       // If guest has no invitedEventIds, they're invited to all events (backward compatibility)
@@ -925,17 +1337,11 @@ export class GuestService {
    * Get event-specific RSVP summary for a wedding
    * PRD: "Admin can view per-event attendance breakdown"
    */
-  getEventRsvpSummary(
+  async getEventRsvpSummary(
     weddingId: string,
     eventId: string,
-  ): {
-    total: number;
-    attending: number;
-    notAttending: number;
-    pending: number;
-    totalPartySize: number;
-  } {
-    const guests = this.getGuestsForEvent(weddingId, eventId);
+  ): Promise<RsvpSummary> {
+    const guests = await this.getGuestsForEvent(weddingId, eventId);
 
     const summary = {
       total: guests.length,
@@ -943,6 +1349,7 @@ export class GuestService {
       notAttending: 0,
       pending: 0,
       totalPartySize: 0,
+      invitations: this.countInvitations(guests),
     };
 
     for (const guest of guests) {
@@ -970,12 +1377,7 @@ export class GuestService {
   /**
    * Check if a guest is invited to a specific event
    */
-  isGuestInvitedToEvent(guestId: string, eventId: string): boolean {
-    const guest = this.guests.get(guestId);
-    if (!guest) {
-      return false;
-    }
-
+  isGuestInvitedToEvent(guest: Guest, eventId: string): boolean {
     // If no specific event invitations, guest is invited to all events
     if (!guest.invitedEventIds || guest.invitedEventIds.length === 0) {
       return true;
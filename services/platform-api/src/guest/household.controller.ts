@@ -0,0 +1,222 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { HouseholdService } from './household.service';
+import { WeddingService } from '../wedding/wedding.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import type {
+  ApiResponse,
+  Household,
+  HouseholdListResponse,
+  CreateHouseholdRequest,
+  UpdateHouseholdRequest,
+} from '../types';
+import {
+  HOUSEHOLD_NOT_FOUND,
+  HOUSEHOLD_CONTACT_INVALID,
+  HOUSEHOLD_MEMBER_WITHOUT_EMAIL,
+  GUEST_IN_OTHER_HOUSEHOLD,
+  GUEST_NOT_FOUND,
+  VALIDATION_ERROR,
+  WEDDING_NOT_FOUND,
+} from '../types';
+
+/**
+ * Households (invitation parties): guests grouped under one invitation and one RSVP link
+ */
+@Controller('weddings/:weddingId/households')
+export class HouseholdController {
+  constructor(
+    private readonly householdService: HouseholdService,
+    private readonly weddingService: WeddingService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Get all households for a wedding
+   */
+  @Get()
+  async listHouseholds(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+  ): Promise<ApiResponse<HouseholdListResponse>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const households = await this.householdService.listHouseholds(weddingId);
+    return { ok: true, data: { households } };
+  }
+
+  /**
+   * Group existing guests into a household
+   * The contact (default: first listed guest with an email) receives the shared invitation
+   */
+  @Post()
+  async createHousehold(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: CreateHouseholdRequest,
+  ): Promise<ApiResponse<Household>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    if (!body.name?.trim()) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Household name is required',
+      });
+    }
+    if (!Array.isArray(body.guestIds) || body.guestIds.length === 0) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'At least one guest is required',
+      });
+    }
+
+    try {
+      const household = await this.householdService.createHousehold(weddingId, body);
+      return { ok: true, data: household };
+    } catch (error) {
+      this.rethrowMembershipError(error);
+    }
+  }
+
+  /**
+   * Rename a household, replace its members or change its contact
+   */
+  @Put(':householdId')
+  async updateHousehold(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('householdId') householdId: string,
+    @Body() body: UpdateHouseholdRequest,
+  ): Promise<ApiResponse<Household>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const household = await this.householdService.getHousehold(householdId);
+    if (!household || household.weddingId !== weddingId) {
+      throw new NotFoundException({
+        ok: false,
+        error: HOUSEHOLD_NOT_FOUND,
+      });
+    }
+
+    if (body.name !== undefined && !body.name.trim()) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Household name cannot be empty',
+      });
+    }
+    if (body.guestIds !== undefined && (!Array.isArray(body.guestIds) || body.guestIds.length === 0)) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'A household needs at least one guest; delete it instead',
+      });
+    }
+
+    let updated: Household | null;
+    try {
+      updated = await this.householdService.updateHousehold(household, body);
+    } catch (error) {
+      this.rethrowMembershipError(error);
+    }
+
+    if (!updated) {
+      throw new NotFoundException({
+        ok: false,
+        error: HOUSEHOLD_NOT_FOUND,
+      });
+    }
+
+    return { ok: true, data: updated };
+  }
+
+  /**
+   * Delete a household; members stay on the guest list as individual guests
+   */
+  @Delete(':householdId')
+  async deleteHousehold(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('householdId') householdId: string,
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const household = await this.householdService.getHousehold(householdId);
+    if (!household || household.weddingId !== weddingId) {
+      throw new NotFoundException({
+        ok: false,
+        error: HOUSEHOLD_NOT_FOUND,
+      });
+    }
+
+    try {
+      const deleted = await this.householdService.deleteHousehold(householdId);
+      return { ok: true, data: { deleted } };
+    } catch (error) {
+      this.rethrowMembershipError(error);
+    }
+  }
+
+  /**
+   * Map household membership errors from the service to HTTP errors
+   */
+  private rethrowMembershipError(error: unknown): never {
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'HOUSEHOLD_NOT_FOUND':
+          throw new NotFoundException({ ok: false, error: HOUSEHOLD_NOT_FOUND });
+        case 'GUEST_NOT_FOUND':
+          throw new NotFoundException({ ok: false, error: GUEST_NOT_FOUND });
+        case 'GUEST_IN_OTHER_HOUSEHOLD':
+          throw new ConflictException({
+            ok: false,
+            error: GUEST_IN_OTHER_HOUSEHOLD,
+            message: 'A guest already belongs to another household',
+          });
+        case 'HOUSEHOLD_CONTACT_INVALID':
+          throw new BadRequestException({
+            ok: false,
+            error: HOUSEHOLD_CONTACT_INVALID,
+            message: 'The household contact must be a member with an email address',
+          });
+        case 'HOUSEHOLD_MEMBER_WITHOUT_EMAIL':
+          throw new BadRequestException({
+            ok: false,
+            error: HOUSEHOLD_MEMBER_WITHOUT_EMAIL,
+            message: 'Members without an email address must stay in a household',
+          });
+      }
+    }
+    throw error;
+  }
+
+  /**
+   * Validate auth token and verify user owns the wedding
+   */
+  private async requireWeddingOwner(authHeader: string | undefined, weddingId: string) {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    return { user, wedding };
+  }
+}
@@ -0,0 +1,148 @@
+import { HouseholdService } from './household.service';
+import { getSupabaseClient } from '../utils/supabase';
+import type { DbHousehold } from '../utils/supabase';
+import type { Household } from '../types';
+
+jest.mock('../utils/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+describe('HouseholdService', () => {
+  let householdService: HouseholdService;
+  let rpc: jest.Mock;
+  let from: jest.Mock;
+  let guestsWithEmail: string[];
+  let householdDeletes: number;
+
+  const householdRow: DbHousehold = {
+    id: 'household-1',
+    wedding_id: 'wedding-1',
+    name: 'The Does',
+    primary_guest_id: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  };
+
+  // Helper to create a household as the service returns it
+  const createHousehold = (overrides?: Partial<Household>): Household => ({
+    id: 'household-1',
+    weddingId: 'wedding-1',
+    name: 'The Does',
+    primaryGuestId: 'guest-1',
+    memberIds: ['guest-1', 'guest-2', 'guest-3'],
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  });
+
+  // The contact the service asked set_household_members to record
+  const recordedContact = () => rpc.mock.calls[0][1].p_primary_guest_id;
+
+  beforeEach(() => {
+    guestsWithEmail = ['guest-2', 'guest-3'];
+    householdDeletes = 0;
+
+    // Guest queries answer the contact lookup: which of the listed guests have an email
+    from = jest.fn((table: string) => {
+      const query: Record<string, unknown> = {};
+      let guestIds: string[] = [];
+      for (const method of ['select', 'eq', 'order', 'not', 'insert', 'update']) {
+        query[method] = jest.fn().mockReturnValue(query);
+      }
+      query.in = jest.fn((column: string, values: string[]) => {
+        guestIds = column === 'id' ? values : [];
+        return query;
+      });
+      query.delete = jest.fn(() => {
+        householdDeletes++;
+        return query;
+      });
+      query.single = jest.fn(async () => ({ data: householdRow, error: null }));
+      query.maybeSingle = jest.fn(async () => ({ data: householdRow, error: null }));
+      query.then = (resolve: (value: unknown) => unknown) => {
+        const data = table === 'guests'
+          ? guestIds.filter((id) => guestsWithEmail.includes(id)).map((id) => ({ id }))
+          : [];
+        return Promise.resolve({ data, error: null }).then(resolve);
+      };
+      return query;
+    });
+    rpc = jest.fn().mockResolvedValue({ data: null, error: null });
+    (getSupabaseClient as jest.Mock).mockReturnValue({ from, rpc });
+
+    householdService = new HouseholdService();
+  });
+
+  describe('createHousehold', () => {
+    it('should make the requested guest the contact', async () => {
+      await householdService.createHousehold('wedding-1', {
+        name: 'The Does',
+        guestIds: ['guest-1', 'guest-2', 'guest-3'],
+        primaryGuestId: 'guest-3',
+      });
+
+      expect(rpc).toHaveBeenCalledWith('set_household_members', {
+        p_wedding_id: 'wedding-1',
+        p_household_id: 'household-1',
+        p_guest_ids: ['guest-1', 'guest-2', 'guest-3'],
+        p_primary_guest_id: 'guest-3',
+      });
+    });
+
+    it('should otherwise make the first listed guest with an email the contact', async () => {
+      await householdService.createHousehold('wedding-1', {
+        name: 'The Does',
+        guestIds: ['guest-1', 'guest-3', 'guest-2'],
+      });
+
+      expect(recordedContact()).toBe('guest-3');
+    });
+
+    it('should refuse a household where nobody has an email', async () => {
+      guestsWithEmail = [];
+
+      await expect(
+        householdService.createHousehold('wedding-1', { name: 'The Does', guestIds: ['guest-1', 'guest-2'] }),
+      ).rejects.toThrow('HOUSEHOLD_CONTACT_INVALID');
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it('should not leave an empty household behind when the members are rejected', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'GUEST_IN_OTHER_HOUSEHOLD' } });
+
+      await expect(
+        householdService.createHousehold('wedding-1', { name: 'The Does', guestIds: ['guest-2'] }),
+      ).rejects.toThrow('GUEST_IN_OTHER_HOUSEHOLD');
+      expect(householdDeletes).toBe(1);
+    });
+  });
+
+  describe('updateHousehold', () => {
+    it('should keep the current contact while they remain a member', async () => {
+      await householdService.updateHousehold(createHousehold(), { guestIds: ['guest-3', 'guest-1'] });
+
+      expect(recordedContact()).toBe('guest-1');
+    });
+
+    it('should choose a new contact with an email when the contact leaves', async () => {
+      await householdService.updateHousehold(createHousehold(), { guestIds: ['guest-4', 'guest-3'] });
+
+      expect(recordedContact()).toBe('guest-3');
+    });
+
+    it('should switch to a newly requested contact', async () => {
+      await householdService.updateHousehold(createHousehold(), { primaryGuestId: 'guest-2' });
+
+      expect(rpc).toHaveBeenCalledWith('set_household_members', expect.objectContaining({
+        p_guest_ids: ['guest-1', 'guest-2', 'guest-3'],
+        p_primary_guest_id: 'guest-2',
+      }));
+    });
+
+    it('should leave the members alone when only renaming', async () => {
+      await householdService.updateHousehold(createHousehold(), { name: 'Doe Family' });
+
+      expect(rpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { getSupabaseClient, DbHousehold } from '../utils/supabase';
+import type {
+  Household,
+  CreateHouseholdRequest,
+  UpdateHouseholdRequest,
+} from '../types';
+
+/**
+ * Postgres check_violation error code (a member without an email would lose their household)
+ */
+const CHECK_VIOLATION = '23514';
+
+/**
+ * Errors raised by the set_household_members function
+ */
+const MEMBERSHIP_ERRORS = [
+  'HOUSEHOLD_NOT_FOUND',
+  'HOUSEHOLD_CONTACT_INVALID',
+  'HOUSEHOLD_MEMBER_WITHOUT_EMAIL',
+  'GUEST_NOT_FOUND',
+  'GUEST_IN_OTHER_HOUSEHOLD',
+];
+
+@Injectable()
+export class HouseholdService {
+  private readonly logger = new Logger(HouseholdService.name);
+
+  /**
+   * Convert database household to API type
+   */
+  private dbHouseholdToHousehold(db: DbHousehold, memberIds: string[]): Household {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      name: db.name,
+      primaryGuestId: db.primary_guest_id ?? undefined,
+      memberIds,
+      createdAt: db.created_at,
+      updatedAt: db.updated_at,
+    };
+  }
+
+  /**
+   * Load member guest IDs for several households, keyed by household ID
+   */
+  private async getMemberIds(householdIds: string[]): Promise<Map<string, string[]>> {
+    const members = new Map<string, string[]>(householdIds.map((id) => [id, []]));
+    if (householdIds.length === 0) {
+      return members;
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guests')
+      .select('id, household_id')
+      .in('household_id', householdIds)
+      .order('name', { ascending: true });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error('Failed to load household members', error);
+      }
+      return members;
+    }
+
+    for (const row of data as Array<{ id: string; household_id: string }>) {
+      members.get(row.household_id)?.push(row.id);
+    }
+
+    return members;
+  }
+
+  /**
+   * Replace a household's members and contact atomically
+   */
+  private async setMembers(
+    weddingId: string,
+    householdId: string,
+    guestIds: string[],
+    primaryGuestId: string,
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.rpc('set_household_members', {
+      p_wedding_id: weddingId,
+      p_household_id: householdId,
+      p_guest_ids: guestIds,
+      p_primary_guest_id: primaryGuestId,
+    });
+
+    if (error) {
+      if (MEMBERSHIP_ERRORS.includes(error.message)) {
+        throw new Error(error.message);
+      }
+      this.logger.error(`Failed to set members of household ${householdId}`, error);
+      throw new Error('Failed to set household members');
+    }
+  }
+
+  /**
+   * Pick the contact for a new member list: the requested one,
+   * otherwise the first listed guest with an email
+   */
+  private async chooseContact(
+    guestIds: string[],
+    requested: string | undefined,
+  ): Promise<string> {
+    if (requested) {
+      return requested;
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+      .from('guests')
+      .select('id')
+      .in('id', guestIds)
+      .not('email', 'is', null);
+
+    const withEmail = new Set((data ?? []).map((row: { id: string }) => row.id));
+    const contact = guestIds.find((id) => withEmail.has(id));
+    if (!contact) {
+      throw new Error('HOUSEHOLD_CONTACT_INVALID');
+    }
+
+    return contact;
+  }
+
+  /**
+   * Get all households for a wedding, sorted by name
+   */
+  async listHouseholds(weddingId: string): Promise<Household[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('households')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('name', { ascending: true });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to list households for wedding ${weddingId}`, error);
+      }
+      return [];
+    }
+
+    const rows = data as DbHousehold[];
+    const members = await this.getMemberIds(rows.map((row) => row.id));
+    return rows.map((row) => this.dbHouseholdToHousehold(row, members.get(row.id) ?? []));
+  }
+
+  /**
+   * Get a household by ID
+   */
+  async getHousehold(householdId: string): Promise<Household | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('households')
+      .select('*')
+      .eq('id', householdId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+
+    const members = await this.getMemberIds([householdId]);
+    return this.dbHouseholdToHousehold(data as DbHousehold, members.get(householdId) ?? []);
+  }
+
+  /**
+   * Group existing guests into a new household
+   * @throws Error with a set_household_members error code if the members are invalid
+   */
+  async createHousehold(
+    weddingId: string,
+    request: CreateHouseholdRequest,
+  ): Promise<Household> {
+    const supabase = getSupabaseClient();
+    const primaryGuestId = await this.chooseContact(request.guestIds, request.primaryGuestId);
+
+    const { data, error } = await supabase
+      .from('households')
+      .insert({ wedding_id: weddingId, name: request.name.trim() })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error('Failed to create household', error);
+      throw new Error('Failed to create household');
+    }
+
+    const household = data as DbHousehold;
+
+    try {
+      await this.setMembers(weddingId, household.id, request.guestIds, primaryGuestId);
+    } catch (membersError) {
+      // Don't leave an empty household behind
+      await supabase.from('households').delete().eq('id', household.id);
+      throw membersError;
+    }
+
+    this.logger.log(`Created household ${household.id} for wedding ${weddingId}`);
+
+    return (await this.getHousehold(household.id))!;
+  }
+
+  /**
+   * Rename a household and/or replace its members or contact
+   * @throws Error with a set_household_members error code if the members are invalid
+   */
+  async updateHousehold(
+    household: Household,
+    request: UpdateHouseholdRequest,
+  ): Promise<Household | null> {
+    const supabase = getSupabaseClient();
+
+    if (request.name !== undefined) {
+      const { error } = await supabase
+        .from('households')
+        .update({ name: request.name.trim(), updated_at: new Date().toISOString() })
+        .eq('id', household.id);
+
+      if (error) {
+        this.logger.error(`Failed to rename household ${household.id}`, error);
+        throw new Error('Failed to update household');
+      }
+    }
+
+    if (request.guestIds !== undefined || request.primaryGuestId !== undefined) {
+      const guestIds = request.guestIds ?? household.memberIds;
+      // Keep the current contact while they remain a member
+      const keepContact = household.primaryGuestId && guestIds.includes(household.primaryGuestId)
+        ? household.primaryGuestId
+        : undefined;
+      const primaryGuestId = await this.chooseContact(
+        guestIds,
+        request.primaryGuestId ?? keepContact,
+      );
+
+      await this.setMembers(household.weddingId, household.id, guestIds, primaryGuestId);
+    }
+
+    this.logger.log(`Updated household ${household.id}`);
+
+    return this.getHousehold(household.id);
+  }
+
+  /**
+   * Delete a household; its members become standalone guests
+   * Standalone guests get their own RSVP link the next time an invitation is sent
+   * @throws Error with 'HOUSEHOLD_MEMBER_WITHOUT_EMAIL' if a member has no email to stand on their own
+   */
+  async deleteHousehold(householdId: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('households')
+      .delete()
+      .eq('id', householdId)
+      .select('id');
+
+    if (error) {
+      if (error.code === CHECK_VIOLATION) {
+        throw new Error('HOUSEHOLD_MEMBER_WITHOUT_EMAIL');
+      }
+      this.logger.error(`Failed to delete household ${householdId}`, error);
+      return false;
+    }
+
+    const existed = (data?.length ?? 0) > 0;
+    if (existed) {
+      this.logger.log(`Deleted household ${householdId}`);
+    }
+    return existed;
+  }
+}
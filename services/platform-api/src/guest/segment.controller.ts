@@ -0,0 +1,266 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { SegmentService } from './segment.service';
+import { TagService } from './tag.service';
+import { WeddingService } from '../wedding/wedding.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import type {
+  ApiResponse,
+  GuestSegment,
+  GuestSegmentRules,
+  SegmentListResponse,
+  CreateSegmentRequest,
+  UpdateSegmentRequest,
+  SegmentPreviewRequest,
+  SegmentPreviewResponse,
+  GuestListResponse,
+  Wedding,
+} from '../types';
+import {
+  SEGMENT_NOT_FOUND,
+  SEGMENT_IN_USE,
+  TAG_NOT_FOUND,
+  EVENT_NOT_FOUND,
+  VALIDATION_ERROR,
+  WEDDING_NOT_FOUND,
+} from '../types';
+import { parseSegmentRules } from '../utils/guest-segments';
+
+@Controller('weddings/:weddingId/segments')
+export class SegmentController {
+  constructor(
+    private readonly segmentService: SegmentService,
+    private readonly tagService: TagService,
+    private readonly weddingService: WeddingService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Get all segments for a wedding with their current guest counts
+   */
+  @Get()
+  async listSegments(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+  ): Promise<ApiResponse<SegmentListResponse>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const segments = await this.segmentService.getSegmentsForWedding(weddingId);
+    return { ok: true, data: { segments } };
+  }
+
+  /**
+   * Create a segment
+   */
+  @Post()
+  async createSegment(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: CreateSegmentRequest,
+  ): Promise<ApiResponse<GuestSegment>> {
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
+
+    if (!body.name || !body.name.trim()) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Segment name is required',
+      });
+    }
+    const rules = this.validateRules(wedding, body.rules);
+
+    const segment = await this.segmentService.createSegment(weddingId, {
+      name: body.name,
+      rules,
+    });
+    return { ok: true, data: segment };
+  }
+
+  /**
+   * Count the guests a set of rules matches, for previewing a segment before saving it
+   */
+  @Post('preview')
+  async previewSegment(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: SegmentPreviewRequest,
+  ): Promise<ApiResponse<SegmentPreviewResponse>> {
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
+
+    const rules = this.validateRules(wedding, body?.rules);
+    const guests = await this.segmentService.getMatchingGuests(weddingId, rules);
+    return {
+      ok: true,
+      data: { count: guests.length, guestIds: guests.map((guest) => guest.id) },
+    };
+  }
+
+  /**
+   * Get the guests in a segment right now
+   */
+  @Get(':segmentId/guests')
+  async getSegmentGuests(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('segmentId') segmentId: string,
+  ): Promise<ApiResponse<GuestListResponse>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    try {
+      const guests = await this.segmentService.getSegmentGuests(weddingId, segmentId);
+      return { ok: true, data: { guests, total: guests.length } };
+    } catch (error) {
+      if (error instanceof Error && error.message === SEGMENT_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: SEGMENT_NOT_FOUND,
+          message: 'Segment not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a segment
+   */
+  @Put(':segmentId')
+  async updateSegment(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('segmentId') segmentId: string,
+    @Body() body: UpdateSegmentRequest,
+  ): Promise<ApiResponse<GuestSegment>> {
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
+    await this.requireSegment(weddingId, segmentId);
+
+    if (body.name !== undefined && !body.name.trim()) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Segment name is required',
+      });
+    }
+    const rules = body.rules !== undefined ? this.validateRules(wedding, body.rules) : undefined;
+
+    const updated = await this.segmentService.updateSegment(segmentId, {
+      name: body.name,
+      rules,
+    });
+    if (!updated) {
+      throw new NotFoundException({
+        ok: false,
+        error: SEGMENT_NOT_FOUND,
+        message: 'Segment not found',
+      });
+    }
+
+    return { ok: true, data: updated };
+  }
+
+  /**
+   * Delete a segment
+   */
+  @Delete(':segmentId')
+  async deleteSegment(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('segmentId') segmentId: string,
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+    await this.requireSegment(weddingId, segmentId);
+
+    try {
+      const deleted = await this.segmentService.deleteSegment(segmentId);
+      return { ok: true, data: { deleted } };
+    } catch (error) {
+      if (error instanceof Error && error.message === SEGMENT_IN_USE) {
+        throw new ConflictException({
+          ok: false,
+          error: SEGMENT_IN_USE,
+          message: 'A scheduled email is still addressed to this segment',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check segment rules and that their tags and events belong to the wedding
+   */
+  private validateRules(wedding: Wedding, input: unknown): GuestSegmentRules {
+    const rules = parseSegmentRules(input);
+    if (!rules) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Invalid segment rules',
+      });
+    }
+
+    for (const tagId of rules.tagIds ?? []) {
+      if (!this.tagService.tagBelongsToWedding(tagId, wedding.id)) {
+        throw new NotFoundException({
+          ok: false,
+          error: TAG_NOT_FOUND,
+          message: `Tag ${tagId} not found`,
+        });
+      }
+    }
+
+    const weddingEventIds = (wedding.eventDetails?.events ?? []).map((event) => event.id);
+    for (const eventId of [...(rules.invitedEventIds ?? []), ...(rules.notInvitedEventIds ?? [])]) {
+      if (!weddingEventIds.includes(eventId)) {
+        throw new NotFoundException({
+          ok: false,
+          error: EVENT_NOT_FOUND,
+        });
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Verify the segment belongs to the wedding
+   */
+  private async requireSegment(weddingId: string, segmentId: string): Promise<GuestSegment> {
+    const segment = await this.segmentService.getSegment(segmentId);
+    if (!segment || segment.weddingId !== weddingId) {
+      throw new NotFoundException({
+        ok: false,
+        error: SEGMENT_NOT_FOUND,
+        message: 'Segment not found',
+      });
+    }
+    return segment;
+  }
+
+  /**
+   * Validate auth token and verify user owns the wedding
+   */
+  private async requireWeddingOwner(
+    authHeader: string | undefined,
+    weddingId: string,
+  ) {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    }
+
+    return { user, wedding };
+  }
+}
@@ -0,0 +1,171 @@
+import { SegmentService } from './segment.service';
+import { getSupabaseClient } from '../utils/supabase';
+import type { DbGuestSegment } from '../utils/supabase';
+import type { Guest, GuestSegmentRules, Household } from '../types';
+import { SEGMENT_NOT_FOUND } from '../types';
+
+jest.mock('../utils/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+describe('SegmentService', () => {
+  let segmentService: SegmentService;
+  let guestService: { getGuestsForWedding: jest.Mock };
+  let householdService: { listHouseholds: jest.Mock };
+  let tableRows: Record<string, unknown[]>;
+
+  // Helper to create a mock guest
+  const createMockGuest = (overrides?: Partial<Guest>): Guest => ({
+    id: 'guest-1',
+    weddingId: 'wedding-1',
+    name: 'Guest',
+    email: 'guest@example.com',
+    partySize: 1,
+    rsvpStatus: 'pending',
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  });
+
+  // Helper to create an invitation outbox row as the status query returns it
+  const invitationRow = (guestId: string, status: string, openedAt: string | null = null) => ({
+    guest_id: guestId,
+    status,
+    opened_at: openedAt,
+  });
+
+  const matching = async (rules: GuestSegmentRules) =>
+    (await segmentService.getMatchingGuests('wedding-1', rules)).map((guest) => guest.id);
+
+  beforeEach(() => {
+    tableRows = { email_outbox: [], guest_segments: [] };
+
+    // Every query on a table resolves to all of its rows
+    const from = jest.fn((table: string) => {
+      const query: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'order']) {
+        query[method] = jest.fn().mockReturnValue(query);
+      }
+      query.maybeSingle = jest.fn(async () => ({ data: tableRows[table][0] ?? null, error: null }));
+      query.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve({ data: tableRows[table], error: null }).then(resolve);
+      return query;
+    });
+    (getSupabaseClient as jest.Mock).mockReturnValue({ from });
+
+    guestService = {
+      getGuestsForWedding: jest.fn().mockResolvedValue([
+        createMockGuest({ id: 'pending', tagIds: ['family'] }),
+        createMockGuest({
+          id: 'attending',
+          rsvpStatus: 'attending',
+          tagIds: ['friends'],
+          invitedEventIds: ['ceremony'],
+          inviteSentAt: '2026-09-01T00:00:00Z',
+        }),
+        createMockGuest({
+          id: 'declined',
+          rsvpStatus: 'not_attending',
+          invitedEventIds: ['ceremony', 'rehearsal'],
+          inviteSentAt: '2026-09-01T00:00:00Z',
+        }),
+      ]),
+    };
+    householdService = { listHouseholds: jest.fn().mockResolvedValue([]) };
+
+    segmentService = new SegmentService(guestService as never, householdService as never);
+  });
+
+  describe('getMatchingGuests', () => {
+    it('should match guests whose RSVP status is in the list', async () => {
+      expect(await matching({ rsvpStatuses: ['pending', 'not_attending'] })).toEqual(['pending', 'declined']);
+    });
+
+    it('should match guests with any of the tags', async () => {
+      expect(await matching({ tagIds: ['family', 'friends'] })).toEqual(['pending', 'attending']);
+      expect(await matching({ tagIds: ['work'] })).toEqual([]);
+    });
+
+    it('should match guests invited to any of the events, counting unassigned guests as invited to all', async () => {
+      expect(await matching({ invitedEventIds: ['rehearsal'] })).toEqual(['pending', 'declined']);
+    });
+
+    it('should match guests invited to none of the events', async () => {
+      expect(await matching({ notInvitedEventIds: ['rehearsal'] })).toEqual(['attending']);
+    });
+
+    it('should match on whether the invitation was sent', async () => {
+      expect(await matching({ inviteSent: true })).toEqual(['attending', 'declined']);
+      expect(await matching({ inviteSent: false })).toEqual(['pending']);
+    });
+
+    it("should match on each guest's latest invitation email status", async () => {
+      tableRows.email_outbox = [
+        invitationRow('attending', 'bounced'),
+        invitationRow('attending', 'delivered'),
+        invitationRow('declined', 'sent', '2026-09-02T00:00:00Z'),
+      ];
+
+      expect(await matching({ emailStatuses: ['delivered'] })).toEqual(['attending']);
+      expect(await matching({ emailStatuses: ['opened'] })).toEqual(['declined']);
+      expect(await matching({ emailStatuses: ['not_sent'] })).toEqual(['pending']);
+      expect(await matching({ emailStatuses: ['bounced'] })).toEqual([]);
+    });
+
+    it("should give household members their contact's invitation email status", async () => {
+      tableRows.email_outbox = [invitationRow('attending', 'bounced')];
+      householdService.listHouseholds.mockResolvedValue([
+        { id: 'household-1', primaryGuestId: 'attending', memberIds: ['attending', 'pending'] } as Household,
+      ]);
+
+      expect(await matching({ emailStatuses: ['bounced'] })).toEqual(['pending', 'attending']);
+    });
+
+    it('should require every rule that is set', async () => {
+      expect(await matching({ rsvpStatuses: ['attending', 'not_attending'], invitedEventIds: ['rehearsal'] })).toEqual([
+        'declined',
+      ]);
+    });
+
+    it('should match every guest when no rule is set', async () => {
+      expect(await matching({})).toEqual(['pending', 'attending', 'declined']);
+    });
+
+    it('should match nobody when no guest fits the rules', async () => {
+      expect(await matching({ rsvpStatuses: ['attending'], tagIds: ['family'] })).toEqual([]);
+    });
+  });
+
+  describe('getSegmentGuests', () => {
+    const segmentRow = (overrides?: Partial<DbGuestSegment>): DbGuestSegment => ({
+      id: 'segment-1',
+      wedding_id: 'wedding-1',
+      name: 'Not responded',
+      rules: { rsvpStatuses: ['pending'] },
+      created_at: '2026-10-01T00:00:00Z',
+      updated_at: '2026-10-01T00:00:00Z',
+      ...overrides,
+    });
+
+    it("should evaluate the segment's rules against the guest list now", async () => {
+      tableRows.guest_segments = [segmentRow()];
+
+      const guests = await segmentService.getSegmentGuests('wedding-1', 'segment-1');
+
+      expect(guests.map((guest) => guest.id)).toEqual(['pending']);
+    });
+
+    it('should resolve to no guests once nobody matches', async () => {
+      tableRows.guest_segments = [segmentRow()];
+      guestService.getGuestsForWedding.mockResolvedValue([createMockGuest({ rsvpStatus: 'attending' })]);
+
+      expect(await segmentService.getSegmentGuests('wedding-1', 'segment-1')).toEqual([]);
+    });
+
+    it('should reject a segment from another wedding', async () => {
+      tableRows.guest_segments = [segmentRow({ wedding_id: 'wedding-2' })];
+
+      await expect(segmentService.getSegmentGuests('wedding-1', 'segment-1')).rejects.toThrow(SEGMENT_NOT_FOUND);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { getSupabaseClient, DbGuestSegment } from '../utils/supabase';
+import type {
+  CreateSegmentRequest,
+  EmailStatus,
+  Guest,
+  GuestSegment,
+  GuestSegmentRules,
+  GuestSegmentSummary,
+  SegmentEmailStatus,
+  UpdateSegmentRequest,
+} from '../types';
+import { SEGMENT_IN_USE, SEGMENT_NOT_FOUND } from '../types';
+import { GuestService } from './guest.service';
+import { HouseholdService } from './household.service';
+import { matchesSegment, segmentEmailStatus } from '../utils/guest-segments';
+
+/**
+ * Saved guest segments, evaluated against the guest list each time they are used
+ */
+@Injectable()
+export class SegmentService {
+  private readonly logger = new Logger(SegmentService.name);
+
+  constructor(
+    private readonly guestService: GuestService,
+    private readonly householdService: HouseholdService,
+  ) {}
+
+  /**
+   * Convert database segment row to API type
+   */
+  private dbSegmentToSegment(db: DbGuestSegment): GuestSegment {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      name: db.name,
+      rules: db.rules as GuestSegmentRules,
+      createdAt: db.created_at,
+      updatedAt: db.updated_at,
+    };
+  }
+
+  /**
+   * Get all segments for a wedding, with how many guests each matches now
+   */
+  async getSegmentsForWedding(weddingId: string): Promise<GuestSegmentSummary[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guest_segments')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('name', { ascending: true });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to list segments for wedding ${weddingId}`, error);
+      }
+      return [];
+    }
+
+    const segments = data.map((row) => this.dbSegmentToSegment(row as DbGuestSegment));
+    if (segments.length === 0) {
+      return [];
+    }
+
+    const evaluate = await this.loadEvaluator(weddingId);
+    return segments.map((segment) => ({
+      ...segment,
+      guestCount: evaluate(segment.rules).length,
+    }));
+  }
+
+  /**
+   * Get a segment by ID
+   */
+  async getSegment(segmentId: string): Promise<GuestSegment | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guest_segments')
+      .select('*')
+      .eq('id', segmentId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbSegmentToSegment(data as DbGuestSegment);
+  }
+
+  /**
+   * Create a segment
+   */
+  async createSegment(weddingId: string, request: CreateSegmentRequest): Promise<GuestSegment> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guest_segments')
+      .insert({
+        wedding_id: weddingId,
+        name: request.name.trim(),
+        rules: request.rules,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create segment for wedding ${weddingId}`, error);
+      throw new Error('Failed to create segment');
+    }
+
+    return this.dbSegmentToSegment(data as DbGuestSegment);
+  }
+
+  /**
+   * Update a segment's name or rules
+   * Pending scheduled emails sent to the segment pick up the new rules.
+   */
+  async updateSegment(
+    segmentId: string,
+    request: UpdateSegmentRequest,
+  ): Promise<GuestSegment | null> {
+    const supabase = getSupabaseClient();
+
+    const changes: Partial<DbGuestSegment> = {};
+    if (request.name !== undefined) {
+      changes.name = request.name.trim();
+    }
+    if (request.rules !== undefined) {
+      changes.rules = request.rules as Record<string, unknown>;
+    }
+
+    const { data, error } = await supabase
+      .from('guest_segments')
+      .update(changes)
+      .eq('id', segmentId)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to update segment ${segmentId}`, error);
+      }
+      return null;
+    }
+
+    return this.dbSegmentToSegment(data as DbGuestSegment);
+  }
+
+  /**
+   * Delete a segment
+   * @throws Error(SEGMENT_IN_USE) if a pending scheduled email is addressed to it
+   */
+  async deleteSegment(segmentId: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const { data: scheduled } = await supabase
+      .from('scheduled_emails')
+      .select('id')
+      .eq('segment_id', segmentId)
+      .in('status', ['pending', 'processing'])
+      .limit(1);
+
+    if (scheduled && scheduled.length > 0) {
+      throw new Error(SEGMENT_IN_USE);
+    }
+
+    const { data, error } = await supabase
+      .from('guest_segments')
+      .delete()
+      .eq('id', segmentId)
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to delete segment ${segmentId}`, error);
+      throw new Error('Failed to delete segment');
+    }
+
+    return Boolean(data && data.length > 0);
+  }
+
+  /**
+   * Guests who match a set of rules right now
+   */
+  async getMatchingGuests(weddingId: string, rules: GuestSegmentRules): Promise<Guest[]> {
+    const evaluate = await this.loadEvaluator(weddingId);
+    return evaluate(rules);
+  }
+
+  /**
+   * Guests in a saved segment right now
+   * @throws Error(SEGMENT_NOT_FOUND) if the segment is not in this wedding
+   */
+  async getSegmentGuests(weddingId: string, segmentId: string): Promise<Guest[]> {
+    const segment = await this.getSegment(segmentId);
+    if (!segment || segment.weddingId !== weddingId) {
+      throw new Error(SEGMENT_NOT_FOUND);
+    }
+    return this.getMatchingGuests(weddingId, segment.rules);
+  }
+
+  /**
+   * Load a wedding's guests and invitation email statuses once, for evaluating rules
+   */
+  private async loadEvaluator(
+    weddingId: string,
+  ): Promise<(rules: GuestSegmentRules) => Guest[]> {
+    const [guests, emailStatuses] = await Promise.all([
+      this.guestService.getGuestsForWedding(weddingId),
+      this.getInvitationEmailStatuses(weddingId),
+    ]);
+
+    return (rules) =>
+      guests.filter((guest) =>
+        matchesSegment(guest, rules, emailStatuses.get(guest.id) ?? 'not_sent'),
+      );
+  }
+
+  /**
+   * Where each guest's latest invitation email stands, keyed by guest ID
+   * Household members share the invitation sent to their household contact.
+   */
+  private async getInvitationEmailStatuses(
+    weddingId: string,
+  ): Promise<Map<string, SegmentEmailStatus>> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('guest_id, status, opened_at')
+      .eq('wedding_id', weddingId)
+      .eq('email_type', 'invitation')
+      .order('created_at', { ascending: true });
+
+    const statuses = new Map<string, SegmentEmailStatus>();
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to load invitation emails for wedding ${weddingId}`, error);
+      }
+      return statuses;
+    }
+
+    // Later records replace earlier ones, leaving each guest's latest invitation
+    for (const row of data as Array<{ guest_id: string; status: string; opened_at: string | null }>) {
+      statuses.set(
+        row.guest_id,
+        segmentEmailStatus({ status: row.status as EmailStatus, openedAt: row.opened_at ?? undefined }),
+      );
+    }
+
+    const households = await this.householdService.listHouseholds(weddingId);
+    for (const household of households) {
+      const contactStatus = household.primaryGuestId
+        ? statuses.get(household.primaryGuestId)
+        : undefined;
+      if (!contactStatus) continue;
+      for (const memberId of household.memberIds) {
+        if (!statuses.has(memberId)) {
+          statuses.set(memberId, contactStatus);
+        }
+      }
+    }
+
+    return statuses;
+  }
+}
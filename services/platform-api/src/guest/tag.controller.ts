@@ -227,7 +227,7 @@ export class TagController {
 
     // Validate all guests belong to this wedding
     for (const guestId of body.guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+      const guest = await this.guestService.getGuest(guestId);
       if (!guest || guest.weddingId !== weddingId) {
         throw new NotFoundException({
           ok: false,
@@ -238,6 +238,7 @@ export class TagController {
     }
 
     const updated = await this.guestService.assignTagsToGuests(
+      weddingId,
       body.guestIds,
       body.tagIds,
     );
@@ -274,6 +275,7 @@ export class TagController {
     }
 
     const updated = await this.guestService.removeTagsFromGuests(
+      weddingId,
       body.guestIds,
       body.tagIds,
     );
@@ -298,7 +300,7 @@ export class TagController {
 
     if (tagIds.length === 0) {
       // No filter, return all guests
-      const guests = this.guestService.getGuestsForWedding(weddingId);
+      const guests = await this.guestService.getGuestsForWedding(weddingId);
       return {
         ok: true,
         data: { guests, total: guests.length },
@@ -316,7 +318,7 @@ export class TagController {
       }
     }
 
-    const guests = this.guestService.getGuestsByTags(weddingId, tagIds);
+    const guests = await this.guestService.getGuestsByTags(weddingId, tagIds);
     return {
       ok: true,
       data: { guests, total: guests.length },
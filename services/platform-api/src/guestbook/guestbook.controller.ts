@@ -6,6 +6,7 @@ import {
   Delete,
   Param,
   Body,
+  Query,
   Headers,
   NotFoundException,
   BadRequestException,
@@ -16,6 +17,7 @@ import { AdminAuthService } from '../auth/admin-auth.service';
 import type {
   ApiResponse,
   GuestbookMessage,
+  GuestbookMessageStatus,
   GuestbookMessagesResponse,
   SubmitGuestbookMessageRequest,
   SubmitGuestbookMessageResponse,
@@ -27,6 +29,7 @@ import {
   VALIDATION_ERROR,
   WEDDING_NOT_FOUND,
 } from '../types';
+import { parsePageOptions } from '../utils/pagination';
 
 /**
  * Admin controller for guestbook management
@@ -41,18 +44,35 @@ export class GuestbookAdminController {
   ) {}
 
   /**
-   * Get all guestbook messages for a wedding (admin view - all statuses)
+   * List guestbook messages for a wedding (admin view - all statuses)
+   * GET /api/weddings/:weddingId/guestbook/messages?status=pending|approved|rejected&limit=&cursor=
    * PRD: "Admin can moderate guestbook messages"
    */
   @Get('messages')
   async getMessages(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('status') statusFilter?: GuestbookMessageStatus,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ): Promise<ApiResponse<GuestbookMessagesResponse>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const messages = this.guestbookService.getMessagesForWedding(weddingId);
-    return { ok: true, data: { messages } };
+    // Validate status filter if provided
+    if (statusFilter && !['pending', 'approved', 'rejected'].includes(statusFilter)) {
+      throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
+    }
+    const page = parsePageOptions(limit, cursor);
+    if (!page) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Invalid pagination limit or cursor',
+      } as any);
+    }
+
+    const data = await this.guestbookService.listMessages(weddingId, page, statusFilter);
+    return { ok: true, data };
   }
 
   /**
@@ -72,7 +92,7 @@ export class GuestbookAdminController {
   > {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const counts = this.guestbookService.getMessageCounts(weddingId);
+    const counts = await this.guestbookService.getMessageCounts(weddingId);
     return { ok: true, data: counts };
   }
 
@@ -100,7 +120,7 @@ export class GuestbookAdminController {
     }
 
     // Verify message belongs to this wedding
-    const existingMessage = this.guestbookService.getMessage(messageId);
+    const existingMessage = await this.guestbookService.getMessage(messageId);
     if (!existingMessage || existingMessage.weddingId !== weddingId) {
       throw new NotFoundException({ ok: false, error: GUESTBOOK_MESSAGE_NOT_FOUND });
     }
@@ -111,7 +131,7 @@ export class GuestbookAdminController {
     }
 
     // Update render_config with new approved messages
-    const guestbookConfig = this.guestbookService.getGuestbookConfig(weddingId);
+    const guestbookConfig = await this.guestbookService.getGuestbookConfig(weddingId);
     await this.weddingService.updateGuestbookConfig(weddingId, guestbookConfig);
 
     return { ok: true, data: { message } };
@@ -129,7 +149,7 @@ export class GuestbookAdminController {
     await this.requireWeddingOwner(authHeader, weddingId);
 
     // Verify message belongs to this wedding
-    const existingMessage = this.guestbookService.getMessage(messageId);
+    const existingMessage = await this.guestbookService.getMessage(messageId);
     if (!existingMessage || existingMessage.weddingId !== weddingId) {
       throw new NotFoundException({ ok: false, error: GUESTBOOK_MESSAGE_NOT_FOUND });
     }
@@ -137,7 +157,7 @@ export class GuestbookAdminController {
     const deleted = await this.guestbookService.deleteMessage(messageId);
 
     // Update render_config
-    const guestbookConfig = this.guestbookService.getGuestbookConfig(weddingId);
+    const guestbookConfig = await this.guestbookService.getGuestbookConfig(weddingId);
     await this.weddingService.updateGuestbookConfig(weddingId, guestbookConfig);
 
     return { ok: true, data: { deleted } };
@@ -226,11 +246,14 @@ export class GuestbookPublicController {
 
   /**
    * Get approved guestbook messages for display (public endpoint)
+   * GET /api/guestbook/:slug/messages?limit=&cursor=
    * PRD: "Guestbook messages display on public site"
    */
   @Get(':slug/messages')
   async getApprovedMessages(
     @Param('slug') slug: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ): Promise<ApiResponse<GuestbookMessagesResponse>> {
     // Find wedding by slug
     const wedding = await this.weddingService.getWeddingBySlug(slug);
@@ -243,7 +266,17 @@ export class GuestbookPublicController {
       throw new BadRequestException({ ok: false, error: FEATURE_DISABLED });
     }
 
-    const messages = this.guestbookService.getApprovedMessages(wedding.id);
-    return { ok: true, data: { messages } };
+    const page = parsePageOptions(limit, cursor);
+    if (!page) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Invalid pagination limit or cursor',
+      } as any);
+    }
+
+    // Guests only ever see approved messages
+    const data = await this.guestbookService.listMessages(wedding.id, page, 'approved');
+    return { ok: true, data };
   }
 }
@@ -1,17 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { randomBytes } from 'crypto';
 import type {
   GuestbookMessage,
   GuestbookMessageStatus,
   GuestbookConfig,
+  GuestbookMessagesResponse,
 } from '../types';
+import { getSupabaseClient, DbGuestbookMessage } from '../utils/supabase';
+import { afterCursorFilter, toPage, PageOptions } from '../utils/pagination';
 
 @Injectable()
 export class GuestbookService {
   private readonly logger = new Logger(GuestbookService.name);
 
-  // In-memory store for development
-  private messages: Map<string, GuestbookMessage> = new Map();
+  /**
+   * Convert database row to API type
+   */
+  private dbMessageToMessage(db: DbGuestbookMessage): GuestbookMessage {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      guestName: db.guest_name,
+      message: db.message,
+      status: db.status as GuestbookMessageStatus,
+      createdAt: db.created_at,
+      moderatedAt: db.moderated_at ?? undefined,
+    };
+  }
 
   /**
    * Submit a new guestbook message (public endpoint)
@@ -22,54 +36,110 @@ export class GuestbookService {
     guestName: string,
     messageContent: string,
   ): Promise<GuestbookMessage> {
-    const now = new Date().toISOString();
-    const messageId = randomBytes(16).toString('hex');
-
-    const message: GuestbookMessage = {
-      id: messageId,
-      weddingId,
-      guestName,
-      message: messageContent,
-      status: 'pending',
-      createdAt: now,
-    };
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guestbook_messages')
+      .insert({
+        wedding_id: weddingId,
+        guest_name: guestName,
+        message: messageContent,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error('Failed to create guestbook message', error);
+      throw new Error('Failed to create guestbook message');
+    }
 
-    this.messages.set(messageId, message);
-    this.logger.log(`New guestbook message ${messageId} for wedding ${weddingId}`);
+    this.logger.log(`New guestbook message ${data.id} for wedding ${weddingId}`);
 
-    return message;
+    return this.dbMessageToMessage(data as DbGuestbookMessage);
   }
 
   /**
-   * Get all messages for a wedding (admin view - includes all statuses)
+   * List messages for a wedding, newest first, one page at a time
+   * @param status Optional filter by moderation status (admin view includes all statuses)
    */
-  getMessagesForWedding(weddingId: string): GuestbookMessage[] {
-    const messages: GuestbookMessage[] = [];
-    for (const message of this.messages.values()) {
-      if (message.weddingId === weddingId) {
-        messages.push(message);
+  async listMessages(
+    weddingId: string,
+    page: PageOptions,
+    status?: GuestbookMessageStatus,
+  ): Promise<GuestbookMessagesResponse> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from('guestbook_messages')
+      .select('*')
+      .eq('wedding_id', weddingId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+    if (page.cursor) {
+      query = query.or(afterCursorFilter(page.cursor));
+    }
+
+    // Fetch one extra row to know whether another page follows
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(page.limit + 1);
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to list guestbook messages for wedding ${weddingId}`, error);
       }
+      return { messages: [] };
     }
-    // Sort by createdAt descending (newest first)
-    return messages.sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
+
+    const { rows, nextCursor } = toPage(data as DbGuestbookMessage[], page.limit);
+    return {
+      messages: rows.map((row) => this.dbMessageToMessage(row)),
+      nextCursor,
+    };
   }
 
   /**
-   * Get approved messages for a wedding (public display)
+   * Get all approved messages for a wedding (render_config display)
    */
-  getApprovedMessages(weddingId: string): GuestbookMessage[] {
-    return this.getMessagesForWedding(weddingId).filter(
-      (m) => m.status === 'approved',
-    );
+  async getApprovedMessages(weddingId: string): Promise<GuestbookMessage[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guestbook_messages')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to load approved guestbook messages for wedding ${weddingId}`, error);
+      }
+      return [];
+    }
+
+    return (data as DbGuestbookMessage[]).map((row) => this.dbMessageToMessage(row));
   }
 
   /**
    * Get a single message by ID
    */
-  getMessage(messageId: string): GuestbookMessage | null {
-    return this.messages.get(messageId) || null;
+  async getMessage(messageId: string): Promise<GuestbookMessage | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guestbook_messages')
+      .select('*')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbMessageToMessage(data as DbGuestbookMessage);
   }
 
   /**
@@ -79,27 +149,49 @@ export class GuestbookService {
     messageId: string,
     status: 'approved' | 'rejected',
   ): Promise<GuestbookMessage | null> {
-    const message = this.messages.get(messageId);
-    if (!message) {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guestbook_messages')
+      .update({
+        status,
+        moderated_at: new Date().toISOString(),
+      })
+      .eq('id', messageId)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to moderate guestbook message ${messageId}`, error);
+      }
       return null;
     }
 
-    message.status = status;
-    message.moderatedAt = new Date().toISOString();
-
-    this.messages.set(messageId, message);
     this.logger.log(`Moderated message ${messageId} to ${status}`);
 
-    return message;
+    return this.dbMessageToMessage(data as DbGuestbookMessage);
   }
 
   /**
    * Delete a message (admin action)
    */
   async deleteMessage(messageId: string): Promise<boolean> {
-    const existed = this.messages.has(messageId);
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('guestbook_messages')
+      .delete()
+      .eq('id', messageId)
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to delete guestbook message ${messageId}`, error);
+      return false;
+    }
+
+    const existed = (data?.length ?? 0) > 0;
     if (existed) {
-      this.messages.delete(messageId);
       this.logger.log(`Deleted guestbook message ${messageId}`);
     }
     return existed;
@@ -108,27 +200,55 @@ export class GuestbookService {
   /**
    * Get guestbook config for render_config (approved messages only)
    */
-  getGuestbookConfig(weddingId: string): GuestbookConfig {
+  async getGuestbookConfig(weddingId: string): Promise<GuestbookConfig> {
     return {
-      messages: this.getApprovedMessages(weddingId),
+      messages: await this.getApprovedMessages(weddingId),
     };
   }
 
   /**
    * Get message counts for dashboard summary
    */
-  getMessageCounts(weddingId: string): {
+  async getMessageCounts(weddingId: string): Promise<{
     total: number;
     pending: number;
     approved: number;
     rejected: number;
-  } {
-    const messages = this.getMessagesForWedding(weddingId);
+  }> {
+    const [pending, approved, rejected] = await Promise.all(
+      (['pending', 'approved', 'rejected'] as const).map((status) =>
+        this.countMessages(weddingId, status),
+      ),
+    );
+
     return {
-      total: messages.length,
-      pending: messages.filter((m) => m.status === 'pending').length,
-      approved: messages.filter((m) => m.status === 'approved').length,
-      rejected: messages.filter((m) => m.status === 'rejected').length,
+      total: pending + approved + rejected,
+      pending,
+      approved,
+      rejected,
     };
   }
+
+  /**
+   * Count messages for a wedding with the given status
+   */
+  private async countMessages(
+    weddingId: string,
+    status: GuestbookMessageStatus,
+  ): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { count, error } = await supabase
+      .from('guestbook_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('wedding_id', weddingId)
+      .eq('status', status);
+
+    if (error) {
+      this.logger.error(`Failed to count ${status} guestbook messages for wedding ${weddingId}`, error);
+      return 0;
+    }
+
+    return count ?? 0;
+  }
 }
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import type { EmailCampaignJobData } from '../types';
+import { CAMPAIGN_EMAIL_QUEUE_NAME } from '../types';
+import { getEmailJobOptions } from './email-job-options';
+import { getRedisConnection } from '../utils/redis';
+
+@Injectable()
+export class CampaignEmailQueueService {
+  private readonly logger = new Logger(CampaignEmailQueueService.name);
+  private readonly queue = new Queue<EmailCampaignJobData>(CAMPAIGN_EMAIL_QUEUE_NAME, {
+    connection: getRedisConnection(),
+  });
+
+  /**
+   * Queue one job per selected guest of a campaign
+   * Job IDs combine campaign and guest, so enqueueing the same guest twice is a no-op
+   */
+  async enqueueCampaign(jobs: EmailCampaignJobData[]): Promise<number> {
+    if (jobs.length === 0) {
+      return 0;
+    }
+
+    const addedJobs = await this.queue.addBulk(
+      jobs.map((job) => ({
+        name: `send-${job.emailType}`,
+        data: job,
+        opts: {
+          jobId: `${job.campaignId}_${job.guestId}`,
+          ...getEmailJobOptions(),
+        },
+      })),
+    );
+
+    this.logger.log(`Queued ${addedJobs.length} campaign job(s) for campaign ${jobs[0]?.campaignId}.`);
+
+    return addedJobs.length;
+  }
+}
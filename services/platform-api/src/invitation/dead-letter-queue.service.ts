@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import type { DeadLetterJobData, DeadLetterSourceQueue } from '../types';
+import { EMAIL_DEAD_LETTER_QUEUE_NAME } from '../types';
+import { getEmailJobOptions } from './email-job-options';
+import { getRedisConnection } from '../utils/redis';
+
+/**
+ * Dead-lettered jobs are never processed, so they stay waiting until retried or discarded
+ */
+const DEAD_LETTER_JOB_STATES = ['waiting', 'paused'] as const;
+
+@Injectable()
+export class DeadLetterQueueService {
+  private readonly logger = new Logger(DeadLetterQueueService.name);
+  private readonly queue = new Queue<DeadLetterJobData>(EMAIL_DEAD_LETTER_QUEUE_NAME, {
+    connection: getRedisConnection(),
+  });
+  /** Source queues, opened the first time a job is put back on them */
+  private readonly sourceQueues = new Map<DeadLetterSourceQueue, Queue>();
+
+  /**
+   * List dead-lettered jobs, oldest first, optionally only those of one wedding
+   */
+  async getJobs(weddingId?: string): Promise<Array<{ id: string; data: DeadLetterJobData }>> {
+    const jobs = await this.queue.getJobs([...DEAD_LETTER_JOB_STATES], 0, -1, true);
+
+    return jobs
+      .filter((job) => job?.id && (!weddingId || job.data.weddingId === weddingId))
+      .map((job) => ({ id: job.id as string, data: job.data }));
+  }
+
+  /**
+   * Get one dead-lettered job, or null if it does not exist
+   */
+  async getJob(id: string): Promise<{ id: string; data: DeadLetterJobData } | null> {
+    const job = await this.queue.getJob(id);
+    if (!job?.id) {
+      return null;
+    }
+    return { id: job.id, data: job.data };
+  }
+
+  /**
+   * IDs of the original jobs dead-lettered from one queue
+   * Boot reconciliation leaves their rows alone instead of re-enqueueing them.
+   */
+  async getDeadLetteredJobIds(queueName: DeadLetterSourceQueue): Promise<Set<string>> {
+    const jobs = await this.getJobs();
+    return new Set(
+      jobs.filter((job) => job.data.queueName === queueName).map((job) => job.data.jobId),
+    );
+  }
+
+  /**
+   * Put a dead-lettered job back on its original queue with a fresh set of attempts
+   *
+   * @returns false if the job does not exist
+   */
+  async requeue(id: string): Promise<boolean> {
+    const job = await this.queue.getJob(id);
+    if (!job) {
+      return false;
+    }
+
+    const { queueName, jobId, jobName, data } = job.data;
+    const sourceQueue = this.getSourceQueue(queueName);
+
+    // The worker removes the failed original; clear any leftover so the ID is free
+    const previous = await sourceQueue.getJob(jobId);
+    if (previous && (await previous.getState()) === 'failed') {
+      await previous.remove();
+    }
+
+    await sourceQueue.add(jobName, data, { jobId, ...getEmailJobOptions() });
+    await job.remove();
+
+    this.logger.log(`Re-queued dead-lettered job ${jobId} on ${queueName}`);
+    return true;
+  }
+
+  /**
+   * Move a job that must not run to the dead-letter queue, the way the worker
+   * dead-letters a job that failed for good, so it is kept for review
+   *
+   * @returns false if the job does not exist or is being processed
+   */
+  async park(queueName: DeadLetterSourceQueue, jobId: string, reason: string): Promise<boolean> {
+    const job = await this.getSourceQueue(queueName).getJob(jobId);
+    if (!job?.id || (await job.getState()) === 'active') {
+      return false;
+    }
+
+    const data = job.data as { weddingId?: string };
+    await this.queue.add(
+      job.name,
+      {
+        queueName,
+        jobId: job.id,
+        jobName: job.name,
+        weddingId: data.weddingId,
+        data: job.data,
+        failedReason: reason,
+        attemptsMade: job.attemptsMade,
+        failedAt: new Date().toISOString(),
+      },
+      { jobId: `${queueName}_${job.id}` },
+    );
+    await job.remove();
+
+    this.logger.warn(`Moved ${queueName} job ${job.id} to ${EMAIL_DEAD_LETTER_QUEUE_NAME}: ${reason}`);
+    return true;
+  }
+
+  /**
+   * Discard a dead-lettered job
+   *
+   * @returns false if the job does not exist
+   */
+  async remove(id: string): Promise<boolean> {
+    const job = await this.queue.getJob(id);
+    if (!job) {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  private getSourceQueue(queueName: DeadLetterSourceQueue): Queue {
+    let queue = this.sourceQueues.get(queueName);
+    if (!queue) {
+      queue = new Queue(queueName, { connection: getRedisConnection() });
+      this.sourceQueues.set(queueName, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,86 @@
+import { Controller, Get, Delete, Param, Query, NotFoundException } from '@nestjs/common';
+import {
+  clearCapturedEmails,
+  getCapturedEmail,
+  getEmailCaptureDir,
+  listCapturedEmails,
+  resolveEmailProvider,
+  type CapturedEmail,
+} from '@wedding-bestie/email';
+import type { ApiResponse } from '../types';
+import { NOT_FOUND } from '../types';
+
+/**
+ * Whether the captured-mail inbox may be served: only when mail is captured
+ * and NODE_ENV is development or test. Captured mail holds live RSVP links, so
+ * staging and preview deployments never get these routes.
+ */
+export function isDevEmailInboxEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env.NODE_ENV !== 'development' && env.NODE_ENV !== 'test') {
+    return false;
+  }
+  try {
+    return resolveEmailProvider(env) === 'capture';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Dev-only inbox for mail stored by the capture transport
+ * (EMAIL_PROVIDER=capture, the default outside production).
+ *
+ * Lets developers and end-to-end tests read the rendered invitations,
+ * reminders and confirmations the API and worker would have sent.
+ * Only registered when isDevEmailInboxEnabled(); every route is a 404 otherwise.
+ */
+@Controller('dev/emails')
+export class DevEmailController {
+  /**
+   * List captured emails, newest first, optionally only those sent to one address
+   */
+  @Get()
+  async listEmails(@Query('to') to?: string): Promise<ApiResponse<CapturedEmail[]>> {
+    this.ensureDevelopment();
+
+    const emails = await listCapturedEmails(getEmailCaptureDir());
+    const recipient = to?.trim().toLowerCase();
+    const data = recipient
+      ? emails.filter((email) => email.to.toLowerCase() === recipient)
+      : emails;
+
+    return { ok: true, data };
+  }
+
+  /**
+   * Get one captured email
+   */
+  @Get(':id')
+  async getEmail(@Param('id') id: string): Promise<ApiResponse<CapturedEmail>> {
+    this.ensureDevelopment();
+
+    const email = await getCapturedEmail(getEmailCaptureDir(), id);
+    if (!email) {
+      throw new NotFoundException({ ok: false, error: NOT_FOUND });
+    }
+
+    return { ok: true, data: email };
+  }
+
+  /**
+   * Delete every captured email (e.g. between test runs)
+   */
+  @Delete()
+  async clearEmails(): Promise<ApiResponse<{ deleted: number }>> {
+    this.ensureDevelopment();
+
+    const deleted = await clearCapturedEmails(getEmailCaptureDir());
+    return { ok: true, data: { deleted } };
+  }
+
+  private ensureDevelopment(): void {
+    if (!isDevEmailInboxEnabled()) {
+      throw new NotFoundException({ ok: false, error: NOT_FOUND });
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { JobsOptions } from 'bullmq';
+
+const DEFAULT_EMAIL_JOB_ATTEMPTS = 5;
+const DEFAULT_EMAIL_JOB_BACKOFF_MS = 10000;
+
+/**
+ * Retry policy shared by every email queue.
+ *
+ * Transient failures (timeouts, rate limits, provider or API outages) are
+ * retried with exponential backoff, up to EMAIL_JOB_ATTEMPTS attempts in all
+ * (10s, 20s, 40s... by default). The worker fails permanent errors such as a
+ * rejected address straight away. Either way, once a job is out of attempts
+ * the worker moves it to the dead-letter queue.
+ */
+export function getEmailJobOptions(): Pick<
+  JobsOptions,
+  'attempts' | 'backoff' | 'removeOnComplete' | 'removeOnFail'
+> {
+  const attempts = Number(process.env.EMAIL_JOB_ATTEMPTS);
+  const backoffMs = Number(process.env.EMAIL_JOB_BACKOFF_MS);
+
+  return {
+    attempts: Number.isInteger(attempts) && attempts > 0 ? attempts : DEFAULT_EMAIL_JOB_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: Number.isFinite(backoffMs) && backoffMs > 0 ? backoffMs : DEFAULT_EMAIL_JOB_BACKOFF_MS,
+    },
+    removeOnComplete: true,
+    removeOnFail: 100,
+  };
+}
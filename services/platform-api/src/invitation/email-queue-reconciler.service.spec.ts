@@ -0,0 +1,158 @@
+import { EmailQueueReconcilerService } from './email-queue-reconciler.service';
+import type { InvitationService } from './invitation.service';
+import type { ReminderQueueService } from './reminder-queue.service';
+import type { ScheduledEmailQueueService } from './scheduled-email-queue.service';
+import type { DeadLetterQueueService } from './dead-letter-queue.service';
+import { REMINDER_QUEUE_NAME, SCHEDULED_EMAIL_QUEUE_NAME } from '../types';
+
+describe('EmailQueueReconcilerService', () => {
+  let invitationService: {
+    getOpenScheduledEmails: jest.Mock;
+    updateScheduledEmailStatus: jest.Mock;
+    requeueScheduledEmail: jest.Mock;
+    getPendingReminderOutbox: jest.Mock;
+    requeueReminder: jest.Mock;
+  };
+  let scheduledEmailQueueService: { getQueuedJobs: jest.Mock; removeJob: jest.Mock };
+  let reminderQueueService: { getQueuedJobs: jest.Mock; removeJob: jest.Mock };
+  let deadLetterQueueService: { getDeadLetteredJobIds: jest.Mock; park: jest.Mock };
+  let reconciler: EmailQueueReconcilerService;
+
+  beforeEach(() => {
+    invitationService = {
+      getOpenScheduledEmails: jest.fn().mockResolvedValue([]),
+      updateScheduledEmailStatus: jest.fn().mockResolvedValue(undefined),
+      requeueScheduledEmail: jest.fn().mockResolvedValue('job-id'),
+      getPendingReminderOutbox: jest.fn().mockResolvedValue([]),
+      requeueReminder: jest.fn().mockResolvedValue(true),
+    };
+    scheduledEmailQueueService = {
+      getQueuedJobs: jest.fn().mockResolvedValue([]),
+      removeJob: jest.fn().mockResolvedValue(true),
+    };
+    reminderQueueService = {
+      getQueuedJobs: jest.fn().mockResolvedValue([]),
+      removeJob: jest.fn().mockResolvedValue(true),
+    };
+    deadLetterQueueService = {
+      getDeadLetteredJobIds: jest.fn().mockResolvedValue(new Set()),
+      park: jest.fn().mockResolvedValue(true),
+    };
+
+    reconciler = new EmailQueueReconcilerService(
+      invitationService as unknown as InvitationService,
+      reminderQueueService as unknown as ReminderQueueService,
+      scheduledEmailQueueService as unknown as ScheduledEmailQueueService,
+      deadLetterQueueService as unknown as DeadLetterQueueService,
+    );
+  });
+
+  const scheduledJob = (jobId: string, state = 'delayed') => ({
+    jobId,
+    state,
+    data: { scheduledEmailId: jobId, weddingId: 'wedding-1', guestIds: ['guest-1'], emailType: 'invitation' },
+  });
+
+  const reminderJob = (jobId: string, state = 'waiting') => ({
+    jobId,
+    state,
+    data: {
+      outboxId: jobId,
+      weddingId: 'wedding-1',
+      guestId: 'guest-1',
+      toEmail: 'guest@example.com',
+      toName: 'Guest',
+      subject: 'Reminder',
+    },
+  });
+
+  describe('reconcileScheduledEmails', () => {
+    it('should re-enqueue pending rows whose job is missing or failed', async () => {
+      const missing = { id: 'email-1', status: 'pending' };
+      const failed = { id: 'email-2', status: 'pending' };
+      const queued = { id: 'email-3', status: 'pending' };
+      invitationService.getOpenScheduledEmails.mockResolvedValue([missing, failed, queued]);
+      scheduledEmailQueueService.getQueuedJobs.mockResolvedValue([
+        scheduledJob('email-2', 'failed'),
+        scheduledJob('email-3'),
+      ]);
+
+      await reconciler.reconcileScheduledEmails();
+
+      expect(scheduledEmailQueueService.removeJob).toHaveBeenCalledTimes(1);
+      expect(scheduledEmailQueueService.removeJob).toHaveBeenCalledWith('email-2');
+      expect(invitationService.requeueScheduledEmail.mock.calls).toEqual([[missing], [failed]]);
+    });
+
+    it('should release and re-enqueue interrupted sends but leave dead-lettered rows alone', async () => {
+      const interrupted = { id: 'email-1', status: 'processing' };
+      invitationService.getOpenScheduledEmails.mockResolvedValue([
+        interrupted,
+        { id: 'email-2', status: 'pending' },
+      ]);
+      deadLetterQueueService.getDeadLetteredJobIds.mockResolvedValue(new Set(['email-2']));
+
+      await reconciler.reconcileScheduledEmails();
+
+      expect(invitationService.updateScheduledEmailStatus).toHaveBeenCalledWith('email-1', 'pending');
+      expect(invitationService.requeueScheduledEmail.mock.calls).toEqual([[interrupted]]);
+    });
+
+    it('should leave a send that is still running alone', async () => {
+      invitationService.getOpenScheduledEmails.mockResolvedValue([{ id: 'email-1', status: 'processing' }]);
+      scheduledEmailQueueService.getQueuedJobs.mockResolvedValue([scheduledJob('email-1', 'active')]);
+
+      await reconciler.reconcileScheduledEmails();
+
+      expect(invitationService.updateScheduledEmailStatus).not.toHaveBeenCalled();
+      expect(invitationService.requeueScheduledEmail).not.toHaveBeenCalled();
+    });
+
+    it('should park jobs without an open row in the dead-letter queue instead of removing them', async () => {
+      scheduledEmailQueueService.getQueuedJobs.mockResolvedValue([
+        scheduledJob('email-9'),
+        scheduledJob('email-8', 'failed'),
+      ]);
+
+      await reconciler.reconcileScheduledEmails();
+
+      expect(deadLetterQueueService.park).toHaveBeenCalledTimes(1);
+      expect(deadLetterQueueService.park).toHaveBeenCalledWith(
+        SCHEDULED_EMAIL_QUEUE_NAME,
+        'email-9',
+        expect.stringContaining('Orphaned'),
+      );
+      expect(scheduledEmailQueueService.removeJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileReminders', () => {
+    it('should re-enqueue pending records without a job', async () => {
+      const record = { id: 'outbox-1' };
+      invitationService.getPendingReminderOutbox.mockResolvedValue([record]);
+
+      await reconciler.reconcileReminders();
+
+      expect(invitationService.requeueReminder).toHaveBeenCalledWith(record);
+    });
+
+    it('should park jobs without a pending record in the dead-letter queue instead of removing them', async () => {
+      invitationService.getPendingReminderOutbox.mockResolvedValue([{ id: 'outbox-1' }]);
+      reminderQueueService.getQueuedJobs.mockResolvedValue([
+        reminderJob('outbox-1'),
+        reminderJob('outbox-2'),
+      ]);
+
+      await reconciler.reconcileReminders();
+
+      expect(invitationService.requeueReminder).not.toHaveBeenCalled();
+      expect(deadLetterQueueService.park).toHaveBeenCalledTimes(1);
+      expect(deadLetterQueueService.park).toHaveBeenCalledWith(
+        REMINDER_QUEUE_NAME,
+        'outbox-2',
+        expect.stringContaining('Orphaned'),
+      );
+      expect(reminderQueueService.removeJob).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InvitationService } from './invitation.service';
+import { ReminderQueueService } from './reminder-queue.service';
+import { ScheduledEmailQueueService } from './scheduled-email-queue.service';
+import { DeadLetterQueueService } from './dead-letter-queue.service';
+import { REMINDER_QUEUE_NAME, SCHEDULED_EMAIL_QUEUE_NAME } from '../types';
+
+/**
+ * Reconciles persisted email state with the BullMQ queues on boot.
+ *
+ * The database is the source of truth:
+ * - pending rows without a job (or whose job failed) are re-enqueued
+ * - scheduled emails stuck in 'processing' without a job were interrupted
+ *   part-way; they go back to 'pending' and are re-enqueued, and the next run
+ *   resumes what the interrupted one recorded instead of starting over
+ * - queued jobs without a matching open row are orphaned; they are logged and
+ *   parked in the dead-letter queue, so a pending send is never thrown away
+ * - rows whose job is in the dead-letter queue are left for the couple to
+ *   retry or discard
+ */
+@Injectable()
+export class EmailQueueReconcilerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EmailQueueReconcilerService.name);
+
+  constructor(
+    private readonly invitationService: InvitationService,
+    private readonly reminderQueueService: ReminderQueueService,
+    private readonly scheduledEmailQueueService: ScheduledEmailQueueService,
+    private readonly deadLetterQueueService: DeadLetterQueueService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (process.env.EMAIL_QUEUE_RECONCILE_ON_BOOT === 'false') {
+      return;
+    }
+
+    // Run in the background so an unreachable Redis does not block startup
+    void this.reconcile().catch((error) => {
+      this.logger.error(
+        `Email queue reconciliation failed: ${error instanceof Error ? error.message : error}`,
+      );
+    });
+  }
+
+  /**
+   * Reconcile both queues with the database
+   */
+  async reconcile(): Promise<void> {
+    await this.reconcileScheduledEmails();
+    await this.reconcileReminders();
+  }
+
+  /**
+   * Reconcile scheduled_emails with the scheduled-emails queue
+   */
+  async reconcileScheduledEmails(): Promise<void> {
+    const rows = await this.invitationService.getOpenScheduledEmails();
+    const jobs = await this.scheduledEmailQueueService.getQueuedJobs();
+    const jobsById = new Map(jobs.map((job) => [job.jobId, job]));
+    const rowIds = new Set(rows.map((row) => row.id));
+    const deadLettered = await this.deadLetterQueueService.getDeadLetteredJobIds(
+      SCHEDULED_EMAIL_QUEUE_NAME,
+    );
+
+    let requeued = 0;
+    let resumed = 0;
+
+    for (const row of rows) {
+      const job = jobsById.get(row.id);
+      if ((job && job.state !== 'failed') || deadLettered.has(row.id)) {
+        continue;
+      }
+
+      if (row.status === 'processing') {
+        // Only the reconciler releases a claimed row; the run that claimed it is gone
+        await this.invitationService.updateScheduledEmailStatus(row.id, 'pending');
+        resumed++;
+      }
+
+      if (job) {
+        await this.scheduledEmailQueueService.removeJob(job.jobId);
+      }
+      await this.invitationService.requeueScheduledEmail(row);
+      requeued++;
+    }
+
+    let parked = 0;
+    for (const job of jobs) {
+      if (rowIds.has(job.jobId) || job.state === 'failed') {
+        continue;
+      }
+      const { weddingId, emailType, guestIds } = job.data;
+      this.logger.warn(
+        `Orphaned ${SCHEDULED_EMAIL_QUEUE_NAME} job ${job.jobId} (${job.state}; wedding ${weddingId}, ${emailType} to ${guestIds.length} guest(s)): no open scheduled email`,
+      );
+      if (
+        await this.deadLetterQueueService.park(
+          SCHEDULED_EMAIL_QUEUE_NAME,
+          job.jobId,
+          'Orphaned: no open scheduled email',
+        )
+      ) {
+        parked++;
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${SCHEDULED_EMAIL_QUEUE_NAME}: ${requeued} re-enqueued (${resumed} interrupted), ${parked} orphaned job(s) dead-lettered`,
+    );
+  }
+
+  /**
+   * Reconcile pending reminder outbox records with the email-reminders queue
+   */
+  async reconcileReminders(): Promise<void> {
+    const records = await this.invitationService.getPendingReminderOutbox();
+    const jobs = await this.reminderQueueService.getQueuedJobs();
+    const jobsById = new Map(jobs.map((job) => [job.jobId, job]));
+    const recordIds = new Set(records.map((record) => record.id));
+    const deadLettered = await this.deadLetterQueueService.getDeadLetteredJobIds(
+      REMINDER_QUEUE_NAME,
+    );
+
+    let requeued = 0;
+    let failed = 0;
+
+    for (const record of records) {
+      const job = jobsById.get(record.id);
+      if ((job && job.state !== 'failed') || deadLettered.has(record.id)) {
+        continue;
+      }
+
+      if (job) {
+        await this.reminderQueueService.removeJob(job.jobId);
+      }
+      if (await this.invitationService.requeueReminder(record)) {
+        requeued++;
+      } else {
+        failed++;
+      }
+    }
+
+    let parked = 0;
+    for (const job of jobs) {
+      if (recordIds.has(job.jobId) || job.state === 'failed') {
+        continue;
+      }
+      const { weddingId, guestId, toEmail, subject } = job.data;
+      this.logger.warn(
+        `Orphaned ${REMINDER_QUEUE_NAME} job ${job.jobId} (${job.state}; wedding ${weddingId}, guest ${guestId} <${toEmail}>, "${subject}"): no pending outbox record`,
+      );
+      if (
+        await this.deadLetterQueueService.park(
+          REMINDER_QUEUE_NAME,
+          job.jobId,
+          'Orphaned: no pending outbox record',
+        )
+      ) {
+        parked++;
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${REMINDER_QUEUE_NAME}: ${requeued} re-enqueued, ${failed} marked failed, ${parked} orphaned job(s) dead-lettered`,
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { getSupabaseClient, DbEmailSuppression } from '../utils/supabase';
+import type {
+  EmailSuppression,
+  EmailSuppressionReason,
+  UnsubscribeResponse,
+} from '../types';
+import { EMAIL_SUPPRESSION_NOT_FOUND, INVALID_TOKEN, WEDDING_NOT_FOUND } from '../types';
+import { WeddingService } from '../wedding/wedding.service';
+import {
+  createUnsubscribeToken,
+  normalizeEmail,
+  suppressionApplies,
+  verifyUnsubscribeToken,
+} from '../utils/email-suppression';
+
+function getUnsubscribeSecret(): string {
+  return process.env.UNSUBSCRIBE_SECRET || 'dev-unsubscribe-secret';
+}
+
+function getWeddingSiteUrl(): string {
+  return process.env.WEDDING_SITE_URL || 'http://localhost:4321';
+}
+
+/**
+ * Per-wedding suppression list: addresses that hard-bounced, reported an
+ * email as spam, or unsubscribed. Send paths ask it before emailing a guest.
+ */
+@Injectable()
+export class EmailSuppressionService {
+  private readonly logger = new Logger(EmailSuppressionService.name);
+
+  constructor(private readonly weddingService: WeddingService) {}
+
+  /**
+   * Convert database suppression row to API type
+   */
+  private dbSuppressionToSuppression(db: DbEmailSuppression): EmailSuppression {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      email: db.email,
+      reason: db.reason as EmailSuppressionReason,
+      detail: db.detail ?? undefined,
+      createdAt: db.created_at,
+    };
+  }
+
+  /**
+   * Get a wedding's suppression list, newest first
+   */
+  async getSuppressions(weddingId: string): Promise<EmailSuppression[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('created_at', { ascending: false });
+
+    if (error || !data) return [];
+    return data.map((row) => this.dbSuppressionToSuppression(row as DbEmailSuppression));
+  }
+
+  /**
+   * Suppressions that stop an email, keyed by lowercased address
+   * @param essential the email is one guests cannot unsubscribe from
+   */
+  async getBlockingSuppressions(
+    weddingId: string,
+    essential: boolean,
+  ): Promise<Map<string, EmailSuppression>> {
+    const suppressions = await this.getSuppressions(weddingId);
+    return new Map(
+      suppressions
+        .filter((suppression) => suppressionApplies(suppression.reason, essential))
+        .map((suppression) => [suppression.email, suppression]),
+    );
+  }
+
+  /**
+   * The suppression that stops an email to this address, or null if it may be sent
+   * @param essential the email is one guests cannot unsubscribe from
+   */
+  async findSuppression(
+    weddingId: string,
+    email: string,
+    essential: boolean,
+  ): Promise<EmailSuppression | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .eq('email', normalizeEmail(email))
+      .maybeSingle();
+
+    if (error || !data) return null;
+    const suppression = this.dbSuppressionToSuppression(data as DbEmailSuppression);
+    return suppressionApplies(suppression.reason, essential) ? suppression : null;
+  }
+
+  /**
+   * Add an address to a wedding's suppression list
+   * An unsubscribe never replaces a bounce or spam report, which stop more mail.
+   */
+  async suppress(
+    weddingId: string,
+    email: string,
+    reason: EmailSuppressionReason,
+    detail?: string,
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const address = normalizeEmail(email);
+
+    const { data: existing } = await supabase
+      .from('email_suppressions')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .eq('email', address)
+      .maybeSingle();
+
+    const current = existing as DbEmailSuppression | null;
+    if (current && (current.reason !== 'unsubscribed' || reason === 'unsubscribed')) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('email_suppressions')
+      .upsert(
+        {
+          wedding_id: weddingId,
+          email: address,
+          reason,
+          detail: detail ?? null,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: 'wedding_id,email' },
+      );
+
+    if (error) {
+      this.logger.error(`Failed to suppress ${address} for wedding ${weddingId}`, error);
+      throw new Error('Failed to record suppression');
+    }
+
+    this.logger.log(`Suppressed ${address} for wedding ${weddingId} (${reason})`);
+  }
+
+  /**
+   * Take an address off the suppression list, e.g. after the couple fixed it
+   * @throws Error(EMAIL_SUPPRESSION_NOT_FOUND) if the suppression is not in this wedding
+   */
+  async removeSuppression(weddingId: string, suppressionId: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .delete()
+      .eq('id', suppressionId)
+      .eq('wedding_id', weddingId)
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to remove suppression ${suppressionId}`, error);
+      throw new Error('Failed to remove suppression');
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(EMAIL_SUPPRESSION_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Wedding site page where the guest confirms they want to unsubscribe
+   */
+  getUnsubscribeUrl(weddingId: string, email: string): string {
+    const token = createUnsubscribeToken(weddingId, email, getUnsubscribeSecret());
+    return `${getWeddingSiteUrl()}/unsubscribe?token=${token}`;
+  }
+
+  /**
+   * List-Unsubscribe headers (RFC 8058): mail clients POST to the URL to unsubscribe in one click
+   */
+  getUnsubscribeHeaders(weddingId: string, email: string): Record<string, string> {
+    const token = createUnsubscribeToken(weddingId, email, getUnsubscribeSecret());
+    return {
+      'List-Unsubscribe': `<${getWeddingSiteUrl()}/api/unsubscribe?token=${token}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Unsubscribe the address in a token from the wedding's non-essential mail
+   * @throws Error(INVALID_TOKEN) or Error(WEDDING_NOT_FOUND)
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeResponse> {
+    const subscriber = verifyUnsubscribeToken(token, getUnsubscribeSecret());
+    if (!subscriber) {
+      throw new Error(INVALID_TOKEN);
+    }
+
+    const wedding = await this.weddingService.getWedding(subscriber.weddingId);
+    if (!wedding) {
+      throw new Error(WEDDING_NOT_FOUND);
+    }
+
+    await this.suppress(wedding.id, subscriber.email, 'unsubscribed');
+    return { partnerNames: wedding.partnerNames };
+  }
+}
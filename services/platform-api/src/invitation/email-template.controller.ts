@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InvitationService } from './invitation.service';
+import { WeddingService } from '../wedding/wedding.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import type {
+  ApiResponse,
+  PreviewEmailTemplateRequest,
+  PreviewEmailTemplateResponse,
+} from '../types';
+import { GUEST_NOT_FOUND, INVALID_LANGUAGE, VALIDATION_ERROR, WEDDING_NOT_FOUND } from '../types';
+import { EMAIL_TEMPLATE_TYPES, validateEmailTemplates } from '../utils/email-template';
+
+/**
+ * Previews of custom email templates
+ * Templates themselves are saved through PUT /weddings/:id/email-templates.
+ */
+@Controller('weddings/:weddingId/email-templates')
+export class EmailTemplateController {
+  constructor(
+    private readonly invitationService: InvitationService,
+    private readonly weddingService: WeddingService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Render a saved or unsaved template for one of the wedding's guests
+   * With a language, the guest is shown that language's variant and built-in wording.
+   * PRD: "Email templates support merge fields"
+   */
+  @Post('preview')
+  async previewTemplate(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: PreviewEmailTemplateRequest,
+  ): Promise<ApiResponse<PreviewEmailTemplateResponse>> {
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
+
+    if (!body || !EMAIL_TEMPLATE_TYPES.includes(body.templateType) || !body.guestId) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'templateType and guestId are required',
+      });
+    }
+    if (body.language !== undefined && !this.weddingService.isValidLanguage(body.language)) {
+      throw new BadRequestException({ ok: false, error: INVALID_LANGUAGE });
+    }
+
+    if (body.template) {
+      const errors = validateEmailTemplates({ [body.templateType]: body.template });
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: errors[0].message,
+          errors,
+        });
+      }
+    }
+
+    const preview = await this.invitationService.previewEmailTemplate(
+      wedding,
+      body.templateType,
+      body.guestId,
+      body.template,
+      body.language,
+    );
+    if (!preview) {
+      throw new NotFoundException({ ok: false, error: GUEST_NOT_FOUND });
+    }
+
+    return { ok: true, data: preview };
+  }
+
+  /**
+   * Validate auth token and verify user owns the wedding
+   */
+  private async requireWeddingOwner(
+    authHeader: string | undefined,
+    weddingId: string,
+  ) {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    }
+
+    return { user, wedding };
+  }
+}
@@ -1,5 +1,8 @@
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getCapturedEmail, getEmailCaptureDir } from '@wedding-bestie/email';
 import { EmailService } from './email.service';
-import type { Guest, Wedding, Theme } from '../types';
+import type { EmailableGuest, RsvpGuestView, Wedding, Theme } from '../types';
 
 describe('EmailService', () => {
   let emailService: EmailService;
@@ -9,7 +12,7 @@ describe('EmailService', () => {
   });
 
   // Helper to create a mock guest
-  const createMockGuest = (overrides?: Partial<Guest>): Guest => ({
+  const createMockGuest = (overrides?: Partial<EmailableGuest>): EmailableGuest => ({
     id: 'guest-1',
     weddingId: 'wedding-1',
     name: 'John Doe',
@@ -107,6 +110,129 @@ describe('EmailService', () => {
       expect(result.textBody).toContain('Hello Alice Smith,');
     });
 
+    it('should fill guest details and escape them in the HTML body only', () => {
+      const guest = createMockGuest({
+        name: 'Ali <b>',
+        rsvpStatus: 'attending',
+        mealOptionId: 'fish',
+        invitedEventIds: ['reception'],
+      });
+      const wedding = createMockWedding({
+        mealConfig: { enabled: true, options: [{ id: 'fish', name: 'Salmon', order: 0 }] },
+        timezone: 'America/New_York',
+        eventDetails: {
+          date: '2025-06-15',
+          startTime: '14:00',
+          endTime: '22:00',
+          venue: 'Grand Ballroom',
+          address: '123 Wedding Lane',
+          city: 'New York',
+          events: [
+            { id: 'ceremony', type: 'ceremony', name: 'Ceremony', date: '2025-06-15', startTime: '14:00', endTime: '15:00', venue: 'Chapel', address: '', city: 'New York' },
+            { id: 'reception', type: 'reception', name: 'Reception', date: '2025-06-15', startTime: '18:30', endTime: '23:00', venue: 'Hall', address: '', city: 'New York' },
+          ],
+        },
+        emailTemplates: {
+          invitation: {
+            subject: 'For {{guest_name}}',
+            bodyText: '{{#if attending}}See you at {{table_name}} for the {{meal_choice}}.{{/if}}\n{{#each events}}{{event_name}} at {{event_time}}{{/each}}',
+          },
+        },
+      });
+
+      const result = emailService.buildInvitationEmail(guest, wedding, 'token', mockTheme, {
+        tableAssignments: [{ tableId: 'table-1', tableName: 'Table 4' }],
+      });
+
+      expect(result.subject).toBe('For Ali <b>');
+      expect(result.textBody).toContain('See you at Table 4 for the Salmon.');
+      expect(result.textBody).toContain('Reception at 6:30 PM EDT');
+      expect(result.textBody).not.toContain('Ceremony');
+      expect(result.htmlBody).not.toContain('Ali <b>');
+    });
+
+    it('should use the guest language variant and localized wording', () => {
+      const wedding = createMockWedding({
+        language: 'en',
+        emailTemplates: {
+          invitation: { subject: 'Join us!', bodyText: 'We hope you can make it.' },
+          byLanguage: {
+            es: { invitation: { subject: '¡Acompáñanos el {{wedding_date}}!', bodyText: 'Te esperamos.' } },
+          },
+        },
+      });
+
+      const spanish = emailService.buildInvitationEmail(
+        createMockGuest({ preferredLanguage: 'es' }),
+        wedding,
+        'token',
+        mockTheme,
+      );
+      expect(spanish.subject).toBe('¡Acompáñanos el domingo, 15 de junio de 2025!');
+      expect(spanish.textBody).toContain('Querido/a John Doe:');
+      expect(spanish.textBody).toContain('Te esperamos.');
+
+      const french = emailService.buildInvitationEmail(
+        createMockGuest({ preferredLanguage: 'fr' }),
+        createMockWedding({ language: 'es' }),
+        'token',
+        mockTheme,
+      );
+      expect(french.subject).toBe('Vous êtes invité·e : le mariage de John & Jane');
+
+      const siteLanguage = emailService.buildInvitationEmail(
+        createMockGuest(),
+        createMockWedding({ language: 'es' }),
+        'token',
+        mockTheme,
+      );
+      expect(siteLanguage.subject).toBe('Estás invitado/a: boda de John & Jane');
+    });
+
+    it('should attach a calendar invite for the events the guest is invited to', () => {
+      const event = {
+        type: 'ceremony' as const,
+        date: '2025-06-15',
+        startTime: '14:00',
+        endTime: '15:00',
+        venue: 'Chapel',
+        address: '1 Main St',
+        city: 'New York',
+      };
+      const wedding = createMockWedding({
+        eventDetails: {
+          ...createMockWedding().eventDetails!,
+          events: [
+            { ...event, id: 'ceremony', name: 'Ceremony' },
+            { ...event, id: 'brunch', name: 'Brunch' },
+          ],
+        },
+      });
+
+      const result = emailService.buildInvitationEmail(
+        createMockGuest({ invitedEventIds: ['ceremony'] }),
+        wedding,
+        'token',
+        mockTheme,
+      );
+      const [attachment] = result.attachments!;
+      expect(attachment.contentType).toBe('text/calendar; charset=utf-8; method=PUBLISH');
+      expect(attachment.content).toContain('UID:wedding-1.ceremony.guest-1@wedding-bestie');
+      expect(attachment.content).not.toContain('Brunch');
+
+      const cancellation = emailService.buildCalendarCancellationEmail(
+        createMockGuest({ invitedEventIds: ['ceremony'] }),
+        wedding,
+        ['ceremony'],
+      );
+      expect(cancellation?.textBody).toContain('Ceremony is no longer part of our wedding plans.');
+      expect(cancellation?.attachments?.[0].content).toContain('METHOD:CANCEL');
+      expect(emailService.buildCalendarCancellationEmail(createMockGuest(), wedding, ['dinner'])).toBeNull();
+
+      const disabled = createMockWedding({ features: { ...wedding.features, CALENDAR_INVITE: false } });
+      expect(emailService.buildInvitationEmail(createMockGuest(), disabled, 'token').attachments).toBeUndefined();
+    });
+
     it('should include theme colors in HTML email', () => {
       const guest = createMockGuest();
       const wedding = createMockWedding();
@@ -211,10 +337,75 @@ describe('EmailService', () => {
     });
   });
 
-  describe('sendEmail', () => {
-    it('should log email in development mode when no API key', async () => {
-      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+  describe('buildRsvpConfirmationEmail', () => {
+    const createGuestView = (overrides?: Partial<RsvpGuestView>): RsvpGuestView => ({
+      id: 'guest-1',
+      name: 'John Doe',
+      partySize: 2,
+      rsvpStatus: 'attending',
+      plusOneGuests: [{ name: 'Sam Doe', mealOptionId: 'fish' }],
+      mealOptionId: 'beef',
+      ...overrides,
+    });
+
+    it('should summarize answers and link back to the RSVP form', () => {
+      const guest = createMockGuest();
+      const wedding = createMockWedding({
+        mealConfig: {
+          enabled: true,
+          options: [
+            { id: 'beef', name: 'Braised Beef', order: 0 },
+            { id: 'fish', name: 'Sea Bass', order: 1 },
+          ],
+        },
+      });
+      const view = createGuestView({
+        tableAssignments: [
+          { tableId: 'table-1', tableName: 'Table 4', seatNumber: 2 },
+          { eventId: 'brunch', eventName: 'Brunch', tableId: 'table-9', tableName: 'Patio' },
+        ],
+      });
+
+      const result = emailService.buildRsvpConfirmationEmail(guest, wedding, [view], 'raw-rsvp-token', mockTheme);
+
+      expect(result.to).toBe('john@example.com');
+      expect(result.subject).toContain('Your RSVP');
+      expect(result.textBody).toContain('RSVP: Attending');
+      expect(result.textBody).toContain('Meal: Braised Beef');
+      expect(result.textBody).toContain('Plus-ones: Sam Doe (Sea Bass)');
+      expect(result.textBody).toContain('Table: Table 4 (Seat 2)');
+      expect(result.textBody).toContain('Table (Brunch): Patio');
+      expect(result.htmlBody).toContain('token=raw-rsvp-token');
+    });
+
+    it('should escape text entered by guests in the HTML body', () => {
+      const guest = createMockGuest();
+      const wedding = createMockWedding();
+      const view = createGuestView({ dietaryNotes: '<b>no nuts</b>' });
+
+      const result = emailService.buildRsvpConfirmationEmail(guest, wedding, [view], 'raw-rsvp-token');
+
+      expect(result.htmlBody).toContain('&lt;b&gt;no nuts&lt;/b&gt;');
+      expect(result.htmlBody).not.toContain('<b>no nuts</b>');
+    });
+  });
+
+  describe('addUnsubscribeLink', () => {
+    it('should add the link to both the HTML and text bodies', () => {
+      const email = emailService.buildThankYouEmail(createMockGuest(), createMockWedding(), true, mockTheme);
+      const url = 'http://localhost:4321/unsubscribe?token=abc.def';
 
+      const result = emailService.addUnsubscribeLink(email, url);
+
+      expect(result.htmlBody).toContain(`<a href="${url}"`);
+      expect(result.htmlBody.trim().endsWith('</html>')).toBe(true);
+      expect(result.textBody).toContain(`Unsubscribe: ${url}`);
+      expect(result.subject).toBe(email.subject);
+    });
+  });
+
+  describe('sendEmail', () => {
+    it('should capture the email locally when no provider is configured', async () => {
       const result = await emailService.sendEmail({
         to: 'test@example.com',
         toName: 'Test User',
@@ -225,9 +416,10 @@ describe('EmailService', () => {
 
       expect(result.success).toBe(true);
       expect(result.messageId).toBeDefined();
-      expect(result.messageId).toContain('dev-');
 
-      logSpy.mockRestore();
+      const captured = await getCapturedEmail(getEmailCaptureDir(), result.messageId!);
+      expect(captured).toMatchObject({ to: 'test@example.com', subject: 'Test Subject' });
+      await rm(join(getEmailCaptureDir(), `${result.messageId}.json`), { force: true });
     });
   });
 });
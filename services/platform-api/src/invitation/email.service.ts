@@ -1,5 +1,45 @@
 import { Injectable, Logger } from '@nestjs/common';
-import type { Guest, Theme, Wedding, EmailTemplateContent, GuestDataExport } from '../types';
+import {
+  createEmailTransport,
+  getEmailSender,
+  type EmailAttachment,
+  type EmailSendResult,
+} from '@wedding-bestie/email';
+import type {
+  EmailableGuest,
+  EmailMergeDetails,
+  Guest,
+  Theme,
+  Wedding,
+  EmailTemplateContent,
+  GuestDataExport,
+  RsvpChange,
+  RsvpGuestView,
+  SupportedLanguage,
+} from '../types';
+import {
+  EMAIL_LOCALES,
+  formatString,
+  getEmailStrings,
+  resolveEmailLanguage,
+  type EmailStrings,
+} from '../utils/email-i18n';
+import {
+  escapeHtml,
+  renderTemplate,
+  selectEmailTemplate,
+  type TemplateContext,
+} from '../utils/email-template';
+import { isInvitedToEvent } from '../utils/guest-segments';
+import {
+  buildIcsCalendar,
+  getCalendarEvents,
+  getGuestCalendarEvents,
+  type CalendarEvent,
+  type IcsMethod,
+} from '../utils/ics';
+import { isValidDateString, resolveTimeZone, zonedTimeToUtc } from '../utils/rsvp-deadline';
+import { getEventTimeZone } from '../utils/wedding-time-zone';
 
 /**
  * Email content for transactional emails
@@ -10,6 +50,20 @@ interface EmailContent {
   subject: string;
   htmlBody: string;
   textBody: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+  /** Files to attach, e.g. the guest's calendar invite */
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Language a guest's email is written in
+ */
+interface EmailLocale {
+  language: SupportedLanguage;
+  /** BCP 47 locale for dates, times and lists */
+  locale: string;
+  strings: EmailStrings;
 }
 
 /**
@@ -22,18 +76,10 @@ const DEFAULT_THEME: Theme = {
   neutralDark: '#2d2d2d',
 };
 
-/**
- * Result of sending an email
- */
-interface SendEmailResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
-}
-
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
+  private readonly transport = createEmailTransport({ logger: this.logger });
 
   /**
    * Build the RSVP URL for a guest
@@ -45,45 +91,214 @@ export class EmailService {
   }
 
   /**
-   * Replace merge fields in a template string with actual values
+   * Language for a guest's emails: their preference, else the wedding site's language
+   */
+  private resolveLocale(guest: Pick<Guest, 'preferredLanguage'>, wedding: Wedding): EmailLocale {
+    return this.localeFor(resolveEmailLanguage(guest.preferredLanguage, wedding.language));
+  }
+
+  private localeFor(language: SupportedLanguage): EmailLocale {
+    return { language, locale: EMAIL_LOCALES[language], strings: getEmailStrings(language) };
+  }
+
+  /**
+   * The wedding's events as calendar entries, titled in the guest's language
+   */
+  private getCalendarEvents(wedding: Wedding, { strings }: EmailLocale): CalendarEvent[] {
+    const partners = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    return getCalendarEvents(
+      wedding,
+      formatString(strings.calendarTitle, { partners }),
+      formatString(strings.calendarDescription, { partners }),
+    );
+  }
+
+  /**
+   * Calendar invite for the events the guest is invited to
+   * Only attached when the couple has calendar invites turned on.
+   */
+  private buildCalendarAttachments(
+    guest: EmailableGuest,
+    wedding: Wedding,
+    locale: EmailLocale,
+  ): EmailAttachment[] | undefined {
+    if (!wedding.features.CALENDAR_INVITE) {
+      return undefined;
+    }
+    const events = getGuestCalendarEvents(guest, this.getCalendarEvents(wedding, locale));
+    return events.length > 0 ? [this.buildCalendarAttachment(wedding, guest, events, 'PUBLISH')] : undefined;
+  }
+
+  /**
+   * The guest's personal copy of the calendar, from the address it is sent from
+   */
+  private buildCalendarAttachment(
+    wedding: Wedding,
+    guest: EmailableGuest,
+    events: CalendarEvent[],
+    method: IcsMethod,
+  ): EmailAttachment {
+    return {
+      filename: `${wedding.slug}-wedding.ics`,
+      contentType: `text/calendar; charset=utf-8; method=${method}`,
+      content: buildIcsCalendar(events, {
+        method,
+        guestId: guest.id,
+        organizer: getEmailSender(),
+        attendee: { email: guest.email, name: guest.name },
+      }),
+    };
+  }
+
+  /**
+   * Values a custom template can read for one guest
    * PRD: "Email templates support merge fields"
    *
-   * Supported merge fields:
-   * - {{guest_name}} - Guest's name
-   * - {{partner_names}} - Partner names (e.g., "John & Jane")
-   * - {{wedding_date}} - Formatted wedding date
-   * - {{wedding_venue}} - Venue name
-   * - {{wedding_city}} - City name
-   * - {{rsvp_link}} - RSVP link with token
+   * Fields: guest_name, partner_names, wedding_date, wedding_venue, wedding_city,
+   * rsvp_link, rsvp_deadline, table_name, meal_choice, plus_one_names and
+   * event_list. Conditions: attending, not_attending, pending. {{#each events}}
+   * loops over the events the guest is invited to.
    */
-  private replaceMergeFields(
-    template: string,
+  private buildTemplateContext(
     guest: Guest,
     wedding: Wedding,
+    { locale, strings }: EmailLocale,
     rsvpLink?: string,
-  ): string {
+    details?: EmailMergeDetails,
+  ): TemplateContext {
     const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const list = new Intl.ListFormat(locale, { style: 'long', type: 'conjunction' });
 
-    // Format wedding date if available
-    const weddingDate = wedding.eventDetails?.date
-      ? new Date(wedding.eventDetails.date).toLocaleDateString('en-US', {
-          weekday: 'long',
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        })
-      : 'Date to be announced';
+    const events = [...(wedding.eventDetails?.events ?? [])]
+      .filter((event) => isInvitedToEvent(guest, event.id))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 
-    const venue = wedding.eventDetails?.venue || '';
-    const city = wedding.eventDetails?.city || '';
+    // Attending any event counts as attending when the guest answered per event
+    const eventStatuses = Object.values(guest.eventRsvps ?? {}).map((rsvp) => rsvp.rsvpStatus);
+    const statuses = eventStatuses.length > 0 ? eventStatuses : [guest.rsvpStatus];
+    const attending = statuses.includes('attending');
 
-    return template
-      .replace(/\{\{guest_name\}\}/g, guest.name)
-      .replace(/\{\{partner_names\}\}/g, partnerNames)
-      .replace(/\{\{wedding_date\}\}/g, weddingDate)
-      .replace(/\{\{wedding_venue\}\}/g, venue)
-      .replace(/\{\{wedding_city\}\}/g, city)
-      .replace(/\{\{rsvp_link\}\}/g, rsvpLink || '');
+    return {
+      fields: {
+        guest_name: guest.name,
+        partner_names: partnerNames,
+        wedding_date: wedding.eventDetails?.date
+          ? this.formatDate(wedding.eventDetails.date, locale)
+          : strings.dateToBeAnnounced,
+        wedding_venue: wedding.eventDetails?.venue || '',
+        wedding_city: wedding.eventDetails?.city || '',
+        rsvp_link: rsvpLink || '',
+        rsvp_deadline: this.formatRsvpDeadline(wedding, locale),
+        table_name: details?.tableAssignments?.[0]?.tableName ?? '',
+        meal_choice:
+          wedding.mealConfig?.options.find((option) => option.id === guest.mealOptionId)?.name ?? '',
+        plus_one_names: list.format((guest.plusOneGuests ?? []).map((plusOne) => plusOne.name)),
+        event_list: list.format(events.map((event) => event.name)),
+      },
+      flags: {
+        attending,
+        not_attending: !attending && statuses.every((status) => status === 'not_attending'),
+        pending: !attending && statuses.includes('pending'),
+      },
+      events: events.map((event) => ({
+        event_name: event.name,
+        event_date: event.date ? this.formatDate(event.date, locale) : '',
+        event_time: event.startTime
+          ? this.formatTime(event.startTime, locale, event.date, getEventTimeZone(wedding, event))
+          : '',
+        event_venue: event.venue || '',
+        event_city: event.city || '',
+      })),
+    };
+  }
+
+  /**
+   * Render one part of a custom template as plain text and as escaped HTML,
+   * or use the built-in wording for both when the couple left it blank
+   */
+  private renderCustomField(
+    template: string | undefined,
+    context: TemplateContext,
+    fallback: string,
+  ): { text: string; html: string } {
+    if (!template) {
+      return { text: fallback, html: escapeHtml(fallback) };
+    }
+    return {
+      text: renderTemplate(template, context),
+      html: renderTemplate(template, context, { escapeHtml: true }),
+    };
+  }
+
+  /**
+   * Format a YYYY-MM-DD date for display, e.g. "Sunday, June 15, 2025" in en-US
+   */
+  private formatDate(date: string, locale: string): string {
+    // Wedding dates are calendar dates; format at UTC noon so no timezone shifts the day
+    const parsed = new Date(`${date.slice(0, 10)}T12:00:00Z`);
+    if (Number.isNaN(parsed.getTime())) {
+      return date;
+    }
+    return parsed.toLocaleDateString(locale, {
+      timeZone: 'UTC',
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }
+
+  /**
+   * Format an HH:MM venue-local time for display with the venue's zone,
+   * e.g. "2:00 PM EDT" in en-US, so guests abroad know whose clock it is
+   */
+  private formatTime(time: string, locale: string, date: string, timeZone: string): string {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+      return time;
+    }
+    if (!isValidDateString(date)) {
+      return new Date(Date.UTC(2000, 0, 1, hours, minutes)).toLocaleTimeString(locale, {
+        timeZone: 'UTC',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+    }
+    return zonedTimeToUtc(date, time, timeZone).toLocaleTimeString(locale, {
+      timeZone,
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+  }
+
+  /**
+   * Format an instant for display in the wedding's timezone
+   */
+  private formatTimestamp(timestamp: string, locale: string, timeZone: string | undefined): string {
+    return new Date(timestamp).toLocaleString(locale, {
+      timeZone: resolveTimeZone(timeZone),
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  /**
+   * Format the wedding's RSVP deadline for display, or '' if none is set
+   */
+  private formatRsvpDeadline(wedding: Wedding, locale: string): string {
+    const date = wedding.rsvpDeadline?.date;
+    return date ? this.formatDate(date, locale) : '';
+  }
+
+  /**
+   * Split built-in or rendered body text into HTML paragraphs
+   */
+  private toParagraphs(text: string): string[] {
+    return text.split('\n').filter((p) => p.trim());
   }
 
   /**
@@ -122,13 +337,14 @@ export class EmailService {
     signature: string,
     colors: Theme,
     linkFallback?: string,
+    strings: EmailStrings = getEmailStrings('en'),
   ): string {
     const ctaBlock = ctaText && ctaUrl ? `
       <div class="cta-container">
         <a href="${ctaUrl}" class="cta-button">${ctaText}</a>
       </div>
       ${linkFallback ? `<p class="link-fallback">
-        If the button doesn't work, copy and paste this link into your browser:<br>
+        ${strings.linkFallback}<br>
         ${linkFallback}
       </p>` : ''}
     ` : '';
@@ -228,68 +444,69 @@ export class EmailService {
    * @param wedding The wedding details
    * @param rawToken The raw RSVP token for the URL (not stored, only used for email)
    * @param theme Optional theme to use for email colors (falls back to default)
+   * @param details Guest details for merge fields such as {{table_name}}
    */
   buildInvitationEmail(
-    guest: Guest,
+    guest: EmailableGuest,
     wedding: Wedding,
     rawToken: string,
     theme?: Theme,
+    details?: EmailMergeDetails,
   ): EmailContent {
     const rsvpUrl = this.buildRsvpUrl(rawToken);
     const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
     const colors = theme || DEFAULT_THEME;
+    const locale = this.resolveLocale(guest, wedding);
+    const { strings } = locale;
 
-    // Check for custom template
-    const customTemplate = wedding.emailTemplates?.invitation;
+    // Check for custom template, in the guest's language if the couple wrote one
+    const customTemplate = selectEmailTemplate(wedding.emailTemplates, 'invitation', locale.language);
+    const context = this.buildTemplateContext(guest, wedding, locale, rsvpUrl, details);
 
     // Use custom subject or default
     const subject = customTemplate?.subject
-      ? this.replaceMergeFields(customTemplate.subject, guest, wedding, rsvpUrl)
-      : `You're Invited: ${partnerNames}'s Wedding`;
+      ? renderTemplate(customTemplate.subject, context)
+      : formatString(strings.invitationSubject, { partners: partnerNames });
 
     // Use custom greeting or default
-    const greeting = customTemplate?.greeting
-      ? this.replaceMergeFields(customTemplate.greeting, guest, wedding, rsvpUrl)
-      : `Dear ${guest.name},`;
+    const greeting = this.renderCustomField(
+      customTemplate?.greeting,
+      context,
+      formatString(strings.dear, { name: guest.name }),
+    );
 
     // Use custom body text or default
-    const bodyText = customTemplate?.bodyText
-      ? this.replaceMergeFields(customTemplate.bodyText, guest, wedding, rsvpUrl)
-      : `We're overjoyed to invite you to celebrate our wedding!\n\nYour presence would mean the world to us as we begin this new chapter together.`;
+    const bodyText = this.renderCustomField(customTemplate?.bodyText, context, strings.invitationBody);
 
     // Use custom closing or default
-    const closing = customTemplate?.closing
-      ? this.replaceMergeFields(customTemplate.closing, guest, wedding, rsvpUrl)
-      : `We can't wait to see you there!`;
-
-    // Split body text into paragraphs for HTML
-    const bodyParagraphs = bodyText.split('\n').filter(p => p.trim());
+    const closing = this.renderCustomField(customTemplate?.closing, context, strings.invitationClosing);
 
     const htmlBody = this.buildEmailHtml(
       partnerNames,
-      greeting,
-      bodyParagraphs,
-      'View Invitation & RSVP',
+      greeting.html,
+      this.toParagraphs(bodyText.html),
+      strings.invitationButton,
       rsvpUrl,
-      closing,
-      `With love,<br>${partnerNames}`,
+      closing.html,
+      `${strings.withLove}<br>${partnerNames}`,
       colors,
       rsvpUrl,
+      strings,
     );
 
     const textBody = `
 ${partnerNames}
 
-${greeting}
+${greeting.text}
 
-${bodyText}
+${bodyText.text}
 
-Please RSVP by visiting:
+${strings.invitationRsvpPrompt}
 ${rsvpUrl}
 
-${closing}
+${closing.text}
 
-With love,
+${strings.withLove}
 ${partnerNames}
     `.trim();
 
@@ -299,6 +516,7 @@ ${partnerNames}
       subject,
       htmlBody,
       textBody,
+      attachments: this.buildCalendarAttachments(guest, wedding, locale),
     };
   }
 
@@ -310,66 +528,69 @@ ${partnerNames}
    * @param wedding The wedding details
    * @param rawToken The raw RSVP token for the URL (not stored, only used for email)
    * @param theme Optional theme to use for email colors (falls back to default)
+   * @param details Guest details for merge fields such as {{table_name}}
    */
   buildReminderEmail(
-    guest: Guest,
+    guest: EmailableGuest,
     wedding: Wedding,
     rawToken: string,
     theme?: Theme,
+    details?: EmailMergeDetails,
   ): EmailContent {
     const rsvpUrl = this.buildRsvpUrl(rawToken);
     const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
     const colors = theme || DEFAULT_THEME;
+    const locale = this.resolveLocale(guest, wedding);
+    const { strings } = locale;
 
-    // Check for custom template
-    const customTemplate = wedding.emailTemplates?.reminder;
+    // Check for custom template, in the guest's language if the couple wrote one
+    const customTemplate = selectEmailTemplate(wedding.emailTemplates, 'reminder', locale.language);
+    const context = this.buildTemplateContext(guest, wedding, locale, rsvpUrl, details);
 
     // Use custom subject or default
     const subject = customTemplate?.subject
-      ? this.replaceMergeFields(customTemplate.subject, guest, wedding, rsvpUrl)
-      : `A gentle reminder: RSVP for ${partnerNames}'s wedding`;
+      ? renderTemplate(customTemplate.subject, context)
+      : formatString(strings.reminderSubject, { partners: partnerNames });
 
     // Use custom greeting or default
-    const greeting = customTemplate?.greeting
-      ? this.replaceMergeFields(customTemplate.greeting, guest, wedding, rsvpUrl)
-      : `Hi ${guest.name},`;
+    const greeting = this.renderCustomField(
+      customTemplate?.greeting,
+      context,
+      formatString(strings.hi, { name: guest.name }),
+    );
 
     // Use custom body text or default
-    const bodyText = customTemplate?.bodyText
-      ? this.replaceMergeFields(customTemplate.bodyText, guest, wedding, rsvpUrl)
-      : `We hope you're doing well. If you haven't had a chance to RSVP yet, we'd love to hear from you.\n\nYour response helps us finalize the details and celebrate with care.`;
+    const bodyText = this.renderCustomField(customTemplate?.bodyText, context, strings.reminderBody);
 
     // Use custom closing or default
-    const closing = customTemplate?.closing
-      ? this.replaceMergeFields(customTemplate.closing, guest, wedding, rsvpUrl)
-      : `With gratitude,`;
+    const closing = this.renderCustomField(customTemplate?.closing, context, strings.reminderClosing);
 
     // If custom template, use the buildEmailHtml helper
     if (customTemplate) {
-      const bodyParagraphs = bodyText.split('\n').filter(p => p.trim());
       const htmlBody = this.buildEmailHtml(
         partnerNames,
-        greeting,
-        bodyParagraphs,
-        'RSVP Now',
+        greeting.html,
+        this.toParagraphs(bodyText.html),
+        strings.reminderButton,
         rsvpUrl,
-        closing,
+        closing.html,
         partnerNames,
         colors,
         rsvpUrl,
+        strings,
       );
 
       const textBody = `
 ${partnerNames}
 
-${greeting}
+${greeting.text}
 
-${bodyText}
+${bodyText.text}
 
-Please RSVP here:
+${strings.reminderRsvpPrompt}
 ${rsvpUrl}
 
-${closing}
+${closing.text}
 ${partnerNames}
       `.trim();
 
@@ -379,11 +600,15 @@ ${partnerNames}
         subject,
         htmlBody,
         textBody,
+        attachments: this.buildCalendarAttachments(guest, wedding, locale),
       };
     }
 
     // Default template (kept for backwards compatibility)
 
+    const deadline = this.formatRsvpDeadline(wedding, locale.locale);
+    const deadlineLine = deadline ? formatString(strings.reminderDeadline, { date: deadline }) : '';
+
     const htmlBody = `
 <!DOCTYPE html>
 <html>
@@ -457,18 +682,18 @@ ${partnerNames}
   <div class="container">
     <div class="card">
       <h1>${partnerNames}</h1>
-      <p class="greeting">Hi ${guest.name},</p>
-      <p>We hope you're doing well. If you haven't had a chance to RSVP yet, we'd love to hear from you.</p>
-      <p>Your response helps us finalize the details and celebrate with care.</p>
+      <p class="greeting">${greeting.html}</p>
+      ${this.toParagraphs(bodyText.html).map((p) => `<p>${p}</p>`).join('\n      ')}
+      ${deadlineLine ? `<p>${deadlineLine}</p>` : ''}
       <div class="cta-container">
-        <a href="${rsvpUrl}" class="cta-button">RSVP Now</a>
+        <a href="${rsvpUrl}" class="cta-button">${strings.reminderButton}</a>
       </div>
       <p class="link-fallback">
-        If the button doesn't work, copy and paste this link into your browser:<br>
+        ${strings.linkFallback}<br>
         ${rsvpUrl}
       </p>
       <div class="footer">
-        <p>With gratitude,<br>${partnerNames}</p>
+        <p>${closing.html}<br>${partnerNames}</p>
       </div>
     </div>
   </div>
@@ -479,16 +704,14 @@ ${partnerNames}
     const textBody = `
 ${partnerNames}
 
-Hi ${guest.name},
-
-We hope you're doing well. If you haven't had a chance to RSVP yet, we'd love to hear from you.
+${greeting.text}
 
-Your response helps us finalize the details and celebrate with care.
-
-Please RSVP here:
+${bodyText.text}
+${deadlineLine ? `\n${deadlineLine}\n` : ''}
+${strings.reminderRsvpPrompt}
 ${rsvpUrl}
 
-With gratitude,
+${closing.text}
 ${partnerNames}
     `.trim();
 
@@ -498,6 +721,7 @@ ${partnerNames}
       subject,
       htmlBody,
       textBody,
+      attachments: this.buildCalendarAttachments(guest, wedding, locale),
     };
   }
 
@@ -511,74 +735,74 @@ ${partnerNames}
    * @param guest The guest to send the save-the-date to
    * @param wedding The wedding details
    * @param theme Optional theme to use for email colors (falls back to default)
+   * @param details Guest details for merge fields such as {{table_name}}
    */
   buildSaveTheDateEmail(
-    guest: Guest,
+    guest: EmailableGuest,
     wedding: Wedding,
     theme?: Theme,
+    details?: EmailMergeDetails,
   ): EmailContent {
     const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
     const colors = theme || DEFAULT_THEME;
+    const locale = this.resolveLocale(guest, wedding);
+    const { strings } = locale;
     const eventDate = wedding.eventDetails?.date
-      ? new Date(wedding.eventDetails.date).toLocaleDateString('en-US', {
-          weekday: 'long',
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        })
-      : 'Date to be announced';
+      ? this.formatDate(wedding.eventDetails.date, locale.locale)
+      : strings.dateToBeAnnounced;
     const venue = wedding.eventDetails?.venue || '';
     const city = wedding.eventDetails?.city || '';
     const location = venue && city ? `${venue}, ${city}` : venue || city || '';
     const weddingSiteUrl = process.env.WEDDING_SITE_URL || 'http://localhost:4321';
     const siteUrl = `${weddingSiteUrl}/w/${wedding.slug}`;
 
-    // Check for custom template
-    const customTemplate = wedding.emailTemplates?.saveTheDate;
+    // Check for custom template, in the guest's language if the couple wrote one
+    const customTemplate = selectEmailTemplate(wedding.emailTemplates, 'saveTheDate', locale.language);
+    const context = this.buildTemplateContext(guest, wedding, locale, undefined, details);
+    const dear = formatString(strings.dear, { name: guest.name });
 
     // Use custom subject or default
     const subject = customTemplate?.subject
-      ? this.replaceMergeFields(customTemplate.subject, guest, wedding)
-      : `Save the Date: ${partnerNames}'s Wedding`;
+      ? renderTemplate(customTemplate.subject, context)
+      : formatString(strings.saveTheDateSubject, { partners: partnerNames });
 
     // If custom template, use it with merge fields
     if (customTemplate) {
-      const greeting = customTemplate.greeting
-        ? this.replaceMergeFields(customTemplate.greeting, guest, wedding)
-        : `Dear ${guest.name},`;
+      const greeting = this.renderCustomField(customTemplate.greeting, context, dear);
 
-      const bodyText = customTemplate.bodyText
-        ? this.replaceMergeFields(customTemplate.bodyText, guest, wedding)
-        : `We're thrilled to share some wonderful news with you!\n\n${eventDate}\n${location}\n\nWe would be honored to have you join us as we celebrate our love and begin our new journey together.\n\nA formal invitation will follow with all the details.`;
+      const bodyText = this.renderCustomField(
+        customTemplate.bodyText,
+        context,
+        `${strings.saveTheDateIntro}\n\n${eventDate}\n${location}\n\n${strings.saveTheDateMessage}\n\n${strings.saveTheDateNote}`,
+      );
 
-      const closing = customTemplate.closing
-        ? this.replaceMergeFields(customTemplate.closing, guest, wedding)
-        : `With love and excitement,`;
+      const closing = this.renderCustomField(customTemplate.closing, context, strings.saveTheDateClosing);
 
-      const bodyParagraphs = bodyText.split('\n').filter(p => p.trim());
       const htmlBody = this.buildEmailHtml(
         partnerNames,
-        greeting,
-        bodyParagraphs,
-        siteUrl ? 'Visit Our Wedding Site' : null,
+        greeting.html,
+        this.toParagraphs(bodyText.html),
+        siteUrl ? strings.siteButton : null,
         siteUrl || null,
-        closing,
+        closing.html,
         partnerNames,
         colors,
+        undefined,
+        strings,
       );
 
       const textBody = `
-SAVE THE DATE
+${strings.saveTheDateBadge.toLocaleUpperCase(locale.locale)}
 
 ${partnerNames}
 
-${greeting}
+${greeting.text}
 
-${bodyText}
+${bodyText.text}
 
-${siteUrl ? `Visit our wedding site: ${siteUrl}` : ''}
+${siteUrl ? `${strings.siteLink}: ${siteUrl}` : ''}
 
-${closing}
+${closing.text}
 ${partnerNames}
       `.trim();
 
@@ -694,25 +918,25 @@ ${partnerNames}
 <body>
   <div class="container">
     <div class="card">
-      <span class="badge">Save the Date</span>
+      <span class="badge">${strings.saveTheDateBadge}</span>
       <h1>${partnerNames}</h1>
 
-      <p class="greeting">Dear ${guest.name},</p>
-      <p class="message">We're thrilled to share some wonderful news with you!</p>
+      <p class="greeting">${escapeHtml(dear)}</p>
+      <p class="message">${strings.saveTheDateIntro}</p>
 
       <div class="date-block">
         <p class="date-text">${eventDate}</p>
         ${location ? `<p class="location-text">${location}</p>` : ''}
       </div>
 
-      <p>We would be honored to have you join us as we celebrate our love and begin our new journey together.</p>
+      <p>${strings.saveTheDateMessage}</p>
 
-      <p class="note">A formal invitation will follow with all the details.</p>
+      <p class="note">${strings.saveTheDateNote}</p>
 
-      ${siteUrl ? `<a href="${siteUrl}" class="site-link">Visit our wedding site →</a>` : ''}
+      ${siteUrl ? `<a href="${siteUrl}" class="site-link">${strings.siteLink} →</a>` : ''}
 
       <div class="footer">
-        <p>With love and excitement,<br>${partnerNames}</p>
+        <p>${strings.saveTheDateClosing}<br>${partnerNames}</p>
       </div>
     </div>
   </div>
@@ -721,24 +945,24 @@ ${partnerNames}
     `.trim();
 
     const textBody = `
-SAVE THE DATE
+${strings.saveTheDateBadge.toLocaleUpperCase(locale.locale)}
 
 ${partnerNames}
 
-Dear ${guest.name},
+${dear}
 
-We're thrilled to share some wonderful news with you!
+${strings.saveTheDateIntro}
 
 ${eventDate}
 ${location ? location : ''}
 
-We would be honored to have you join us as we celebrate our love and begin our new journey together.
+${strings.saveTheDateMessage}
 
-A formal invitation will follow with all the details.
+${strings.saveTheDateNote}
 
-${siteUrl ? `Visit our wedding site: ${siteUrl}` : ''}
+${siteUrl ? `${strings.siteLink}: ${siteUrl}` : ''}
 
-With love and excitement,
+${strings.saveTheDateClosing}
 ${partnerNames}
     `.trim();
 
@@ -759,64 +983,67 @@ ${partnerNames}
    * @param wedding The wedding details
    * @param attended Whether the guest attended the wedding
    * @param theme Optional theme to use for email colors (falls back to default)
+   * @param details Guest details for merge fields such as {{table_name}}
    */
   buildThankYouEmail(
-    guest: Guest,
+    guest: EmailableGuest,
     wedding: Wedding,
     attended: boolean,
     theme?: Theme,
+    details?: EmailMergeDetails,
   ): EmailContent {
     const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
     const colors = theme || DEFAULT_THEME;
-
-    // Check for custom template based on attendance
-    const customTemplate = attended
-      ? wedding.emailTemplates?.thankYouAttended
-      : wedding.emailTemplates?.thankYouNotAttended;
+    const locale = this.resolveLocale(guest, wedding);
+    const { strings } = locale;
+    const dear = formatString(strings.dear, { name: guest.name });
+    const message = attended ? strings.thankYouAttendedBody : strings.thankYouNotAttendedBody;
+    const badge = strings.thankYouBadge.toLocaleUpperCase(locale.locale);
+
+    // Check for custom template based on attendance, in the guest's language if the couple wrote one
+    const customTemplate = selectEmailTemplate(
+      wedding.emailTemplates,
+      attended ? 'thankYouAttended' : 'thankYouNotAttended',
+      locale.language,
+    );
+    const context = this.buildTemplateContext(guest, wedding, locale, undefined, details);
 
     // Use custom subject or default
     const subject = customTemplate?.subject
-      ? this.replaceMergeFields(customTemplate.subject, guest, wedding)
-      : `Thank You from ${partnerNames}`;
+      ? renderTemplate(customTemplate.subject, context)
+      : formatString(strings.thankYouSubject, { partners: partnerNames });
 
     // If custom template, use it with merge fields
     if (customTemplate) {
-      const greeting = customTemplate.greeting
-        ? this.replaceMergeFields(customTemplate.greeting, guest, wedding)
-        : `Dear ${guest.name},`;
+      const greeting = this.renderCustomField(customTemplate.greeting, context, dear);
 
-      const bodyText = customTemplate.bodyText
-        ? this.replaceMergeFields(customTemplate.bodyText, guest, wedding)
-        : attended
-          ? `What a beautiful celebration it was, and having you there made it even more special.\n\nWe are so grateful for your presence, your warm wishes, and your love.\n\nThe memories we made together will be cherished forever.`
-          : `Although we missed you at our wedding, we want you to know that you were in our hearts.\n\nThank you for your kind thoughts and warm wishes. They meant the world to us.\n\nWe hope to celebrate with you soon!`;
+      const bodyText = this.renderCustomField(customTemplate.bodyText, context, message);
 
-      const closing = customTemplate.closing
-        ? this.replaceMergeFields(customTemplate.closing, guest, wedding)
-        : `With all our love and gratitude,`;
+      const closing = this.renderCustomField(customTemplate.closing, context, strings.thankYouClosing);
 
-      const bodyParagraphs = bodyText.split('\n').filter(p => p.trim());
       const htmlBody = this.buildEmailHtml(
         partnerNames,
-        greeting,
-        bodyParagraphs,
+        greeting.html,
+        this.toParagraphs(bodyText.html),
         null,
         null,
-        closing,
+        closing.html,
         partnerNames,
         colors,
+        undefined,
+        strings,
       );
 
       const textBody = `
-THANK YOU
+${badge}
 
 ${partnerNames}
 
-${greeting}
+${greeting.text}
 
-${bodyText}
+${bodyText.text}
 
-${closing}
+${closing.text}
 ${partnerNames}
       `.trim();
 
@@ -831,17 +1058,6 @@ ${partnerNames}
 
     // Default template (kept for backwards compatibility)
     // Different message for attendees vs non-attendees
-    const attendeeMessage = `
-      <p>What a beautiful celebration it was, and having you there made it even more special.</p>
-      <p>We are so grateful for your presence, your warm wishes, and your love.</p>
-      <p>The memories we made together will be cherished forever.</p>
-    `;
-
-    const nonAttendeeMessage = `
-      <p>Although we missed you at our wedding, we want you to know that you were in our hearts.</p>
-      <p>Thank you for your kind thoughts and warm wishes. They meant the world to us.</p>
-      <p>We hope to celebrate with you soon!</p>
-    `;
 
     const htmlBody = `
 <!DOCTYPE html>
@@ -912,17 +1128,17 @@ ${partnerNames}
 <body>
   <div class="container">
     <div class="card">
-      <span class="badge">Thank You</span>
+      <span class="badge">${strings.thankYouBadge}</span>
       <h1>${partnerNames}</h1>
 
-      <p class="greeting">Dear ${guest.name},</p>
+      <p class="greeting">${escapeHtml(dear)}</p>
 
-      ${attended ? attendeeMessage : nonAttendeeMessage}
+      ${this.toParagraphs(message).map((p) => `<p>${p}</p>`).join('\n      ')}
 
       <div class="heart">♥</div>
 
       <div class="footer">
-        <p>With all our love and gratitude,<br>${partnerNames}</p>
+        <p>${strings.thankYouClosing}<br>${partnerNames}</p>
       </div>
     </div>
   </div>
@@ -930,30 +1146,18 @@ ${partnerNames}
 </html>
     `.trim();
 
-    const attendeeTextMessage = `What a beautiful celebration it was, and having you there made it even more special.
-
-We are so grateful for your presence, your warm wishes, and your love.
-
-The memories we made together will be cherished forever.`;
-
-    const nonAttendeeTextMessage = `Although we missed you at our wedding, we want you to know that you were in our hearts.
-
-Thank you for your kind thoughts and warm wishes. They meant the world to us.
-
-We hope to celebrate with you soon!`;
-
     const textBody = `
-THANK YOU
+${badge}
 
 ${partnerNames}
 
-Dear ${guest.name},
+${dear}
 
-${attended ? attendeeTextMessage : nonAttendeeTextMessage}
+${message}
 
 ♥
 
-With all our love and gratitude,
+${strings.thankYouClosing}
 ${partnerNames}
     `.trim();
 
@@ -975,106 +1179,111 @@ ${partnerNames}
    * @param theme Optional theme to use for email colors (falls back to default)
    */
   buildDataExportEmail(
-    guest: Guest,
+    guest: EmailableGuest,
     dataExport: GuestDataExport,
     theme?: Theme,
   ): EmailContent {
     const colors = theme || DEFAULT_THEME;
     const partnerNames = dataExport.wedding.partnerNames.join(' & ');
+    const { locale, strings } = this.localeFor(
+      resolveEmailLanguage(dataExport.guest.preferredLanguage, dataExport.wedding.language),
+    );
 
-    const subject = `Your Data Export - ${partnerNames}'s Wedding`;
+    const subject = formatString(strings.exportSubject, { partners: partnerNames });
 
-    // Format the data as readable text
-    const formatDate = (dateStr?: string) => {
-      if (!dateStr) return 'Not specified';
-      return new Date(dateStr).toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
-    };
+    // Format the data as readable text: calendar dates as they are, instants in the wedding's timezone
+    const formatDate = (dateStr?: string) =>
+      dateStr ? this.formatDate(dateStr, locale) : strings.exportNotSpecified;
 
-    const formatDateTime = (dateStr?: string) => {
-      if (!dateStr) return 'Not specified';
-      return new Date(dateStr).toLocaleString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-    };
+    const formatDateTime = (dateStr?: string) =>
+      dateStr
+        ? this.formatTimestamp(dateStr, locale, dataExport.wedding.timezone)
+        : strings.exportNotSpecified;
 
     // Build data summary HTML
     const dataRows = [
-      { label: 'Name', value: dataExport.guest.name },
-      { label: 'Email', value: dataExport.guest.email },
-      { label: 'Party Size', value: dataExport.guest.partySize.toString() },
-      { label: 'RSVP Status', value: this.formatRsvpStatus(dataExport.guest.rsvpStatus) },
+      { label: strings.exportName, value: dataExport.guest.name },
+      { label: strings.exportEmail, value: dataExport.guest.email },
+      { label: strings.exportPartySize, value: dataExport.guest.partySize.toLocaleString(locale) },
+      { label: strings.exportRsvpStatus, value: this.formatRsvpStatus(dataExport.guest.rsvpStatus, strings) },
     ];
 
     if (dataExport.guest.dietaryNotes) {
-      dataRows.push({ label: 'Dietary Notes', value: dataExport.guest.dietaryNotes });
+      dataRows.push({ label: strings.exportDietaryNotes, value: dataExport.guest.dietaryNotes });
     }
 
     if (dataExport.guest.mealOptionId) {
-      dataRows.push({ label: 'Meal Selection ID', value: dataExport.guest.mealOptionId });
+      dataRows.push({ label: strings.exportMealSelection, value: dataExport.guest.mealOptionId });
     }
 
     if (dataExport.guest.photoOptOut) {
-      dataRows.push({ label: 'Photo Opt-Out', value: 'Yes' });
+      dataRows.push({ label: strings.exportPhotoOptOut, value: strings.exportYes });
     }
 
     if (dataExport.guest.inviteSentAt) {
-      dataRows.push({ label: 'Invite Sent', value: formatDateTime(dataExport.guest.inviteSentAt) });
+      dataRows.push({ label: strings.exportInviteSent, value: formatDateTime(dataExport.guest.inviteSentAt) });
     }
 
     if (dataExport.guest.rsvpSubmittedAt) {
-      dataRows.push({ label: 'RSVP Submitted', value: formatDateTime(dataExport.guest.rsvpSubmittedAt) });
+      dataRows.push({ label: strings.exportRsvpSubmitted, value: formatDateTime(dataExport.guest.rsvpSubmittedAt) });
+    }
+
+    for (const { question, answer } of dataExport.rsvpAnswers ?? []) {
+      dataRows.push({ label: question, value: answer });
     }
 
-    dataRows.push({ label: 'Profile Created', value: formatDateTime(dataExport.guest.createdAt) });
+    dataRows.push({ label: strings.exportProfileCreated, value: formatDateTime(dataExport.guest.createdAt) });
 
     // Plus-ones if any
     let plusOnesHtml = '';
     let plusOnesText = '';
     if (dataExport.guest.plusOneGuests && dataExport.guest.plusOneGuests.length > 0) {
+      const plusOneLine = (p: { name: string; dietaryNotes?: string }) =>
+        `${p.name}${p.dietaryNotes ? ` (${strings.exportDietary}: ${p.dietaryNotes})` : ''}`;
       plusOnesHtml = `
-        <h3 style="color: ${colors.primary}; margin-top: 24px;">Plus-One Guests</h3>
+        <h3 style="color: ${colors.primary}; margin-top: 24px;">${strings.exportPlusOnes}</h3>
         <ul style="margin: 8px 0;">
-          ${dataExport.guest.plusOneGuests.map(p => `<li>${p.name}${p.dietaryNotes ? ` (Dietary: ${p.dietaryNotes})` : ''}</li>`).join('\n          ')}
+          ${dataExport.guest.plusOneGuests.map(p => `<li>${plusOneLine(p)}</li>`).join('\n          ')}
         </ul>
       `;
-      plusOnesText = '\n\nPlus-One Guests:\n' +
-        dataExport.guest.plusOneGuests.map(p => `- ${p.name}${p.dietaryNotes ? ` (Dietary: ${p.dietaryNotes})` : ''}`).join('\n');
+      plusOnesText = `\n\n${strings.exportPlusOnes}:\n` +
+        dataExport.guest.plusOneGuests.map(p => `- ${plusOneLine(p)}`).join('\n');
     }
 
-    // Table assignment if any
+    // Table assignments if any (one per seating chart)
     let tableHtml = '';
     let tableText = '';
-    if (dataExport.tableAssignment) {
+    if (dataExport.tableAssignments?.length) {
+      const tableLines = dataExport.tableAssignments.map(
+        (a) => `${a.eventName ?? strings.tableLabel}: ${a.tableName}${a.seatNumber ? ` (${formatString(strings.seat, { number: a.seatNumber })})` : ''}`,
+      );
       tableHtml = `
-        <h3 style="color: ${colors.primary}; margin-top: 24px;">Table Assignment</h3>
-        <p>Table: ${dataExport.tableAssignment.tableName}${dataExport.tableAssignment.seatNumber ? ` (Seat ${dataExport.tableAssignment.seatNumber})` : ''}</p>
+        <h3 style="color: ${colors.primary}; margin-top: 24px;">${strings.exportTableAssignment}</h3>
+        ${tableLines.map((line) => `<p>${line}</p>`).join('')}
       `;
-      tableText = `\n\nTable Assignment: ${dataExport.tableAssignment.tableName}${dataExport.tableAssignment.seatNumber ? ` (Seat ${dataExport.tableAssignment.seatNumber})` : ''}`;
+      tableText = `\n\n${strings.exportTableAssignment}: ${tableLines.join('; ')}`;
     }
 
     // Event RSVPs if any
     let eventsHtml = '';
     let eventsText = '';
     if (dataExport.eventRsvps && dataExport.eventRsvps.length > 0) {
+      const eventLine = (e: { eventName: string; eventDate: string; rsvpStatus: string }) =>
+        `${e.eventName} (${formatDate(e.eventDate)}): ${this.formatRsvpStatus(e.rsvpStatus, strings)}`;
       eventsHtml = `
-        <h3 style="color: ${colors.primary}; margin-top: 24px;">Event RSVPs</h3>
+        <h3 style="color: ${colors.primary}; margin-top: 24px;">${strings.exportEventRsvps}</h3>
         <ul style="margin: 8px 0;">
-          ${dataExport.eventRsvps.map(e => `<li>${e.eventName} (${formatDate(e.eventDate)}): ${this.formatRsvpStatus(e.rsvpStatus)}</li>`).join('\n          ')}
+          ${dataExport.eventRsvps.map(e => `<li>${eventLine(e)}</li>`).join('\n          ')}
         </ul>
       `;
-      eventsText = '\n\nEvent RSVPs:\n' +
-        dataExport.eventRsvps.map(e => `- ${e.eventName} (${formatDate(e.eventDate)}): ${this.formatRsvpStatus(e.rsvpStatus)}`).join('\n');
+      eventsText = `\n\n${strings.exportEventRsvps}:\n` +
+        dataExport.eventRsvps.map(e => `- ${eventLine(e)}`).join('\n');
     }
 
+    const title = formatString(strings.exportTitle, { partners: partnerNames });
+    const dear = formatString(strings.dear, { name: guest.name });
+    const generatedOn = formatString(strings.exportGeneratedOn, { date: formatDateTime(dataExport.exportedAt) });
+
     const htmlBody = `
 <!DOCTYPE html>
 <html>
@@ -1151,13 +1360,13 @@ ${partnerNames}
 <body>
   <div class="container">
     <div class="card">
-      <h2>Data Export Request</h2>
-      <h1>${partnerNames}'s Wedding</h1>
+      <h2>${strings.exportHeading}</h2>
+      <h1>${title}</h1>
 
-      <p style="margin-top: 24px;">Dear ${guest.name},</p>
-      <p>As requested, here is a copy of all the data we have stored about you for this wedding.</p>
+      <p style="margin-top: 24px;">${dear}</p>
+      <p>${strings.exportIntro}</p>
 
-      <h3 style="color: ${colors.primary};">Your Information</h3>
+      <h3 style="color: ${colors.primary};">${strings.exportYourInformation}</h3>
       <table class="data-table">
         ${dataRows.map(row => `<tr><td>${row.label}</td><td>${row.value}</td></tr>`).join('\n        ')}
       </table>
@@ -1166,17 +1375,17 @@ ${partnerNames}
       ${tableHtml}
       ${eventsHtml}
 
-      <h3 style="color: ${colors.primary}; margin-top: 24px;">Wedding Information</h3>
+      <h3 style="color: ${colors.primary}; margin-top: 24px;">${strings.exportWeddingInformation}</h3>
       <table class="data-table">
-        <tr><td>Couple</td><td>${partnerNames}</td></tr>
-        <tr><td>Date</td><td>${formatDate(dataExport.wedding.date)}</td></tr>
-        ${dataExport.wedding.venue ? `<tr><td>Venue</td><td>${dataExport.wedding.venue}</td></tr>` : ''}
-        ${dataExport.wedding.city ? `<tr><td>City</td><td>${dataExport.wedding.city}</td></tr>` : ''}
+        <tr><td>${strings.exportCouple}</td><td>${partnerNames}</td></tr>
+        <tr><td>${strings.exportDate}</td><td>${formatDate(dataExport.wedding.date)}</td></tr>
+        ${dataExport.wedding.venue ? `<tr><td>${strings.exportVenue}</td><td>${dataExport.wedding.venue}</td></tr>` : ''}
+        ${dataExport.wedding.city ? `<tr><td>${strings.exportCity}</td><td>${dataExport.wedding.city}</td></tr>` : ''}
       </table>
 
       <div class="footer">
-        <p>This export was generated on ${formatDateTime(dataExport.exportedAt)}.</p>
-        <p>If you have any questions about your data or wish to have it removed, please contact the wedding organizers directly.</p>
+        <p>${generatedOn}</p>
+        <p>${strings.exportContact}</p>
       </div>
     </div>
   </div>
@@ -1185,25 +1394,25 @@ ${partnerNames}
     `.trim();
 
     const textBody = `
-DATA EXPORT REQUEST
-${partnerNames}'s Wedding
+${strings.exportHeading.toLocaleUpperCase(locale)}
+${title}
 
-Dear ${guest.name},
+${dear}
 
-As requested, here is a copy of all the data we have stored about you for this wedding.
+${strings.exportIntro}
 
-YOUR INFORMATION
+${strings.exportYourInformation.toLocaleUpperCase(locale)}
 ${dataRows.map(row => `${row.label}: ${row.value}`).join('\n')}${plusOnesText}${tableText}${eventsText}
 
-WEDDING INFORMATION
-Couple: ${partnerNames}
-Date: ${formatDate(dataExport.wedding.date)}
-${dataExport.wedding.venue ? `Venue: ${dataExport.wedding.venue}` : ''}
-${dataExport.wedding.city ? `City: ${dataExport.wedding.city}` : ''}
+${strings.exportWeddingInformation.toLocaleUpperCase(locale)}
+${strings.exportCouple}: ${partnerNames}
+${strings.exportDate}: ${formatDate(dataExport.wedding.date)}
+${dataExport.wedding.venue ? `${strings.exportVenue}: ${dataExport.wedding.venue}` : ''}
+${dataExport.wedding.city ? `${strings.exportCity}: ${dataExport.wedding.city}` : ''}
 
 ---
-This export was generated on ${formatDateTime(dataExport.exportedAt)}.
-If you have any questions about your data or wish to have it removed, please contact the wedding organizers directly.
+${generatedOn}
+${strings.exportContact}
     `.trim();
 
     return {
@@ -1216,92 +1425,468 @@ If you have any questions about your data or wish to have it removed, please con
   }
 
   /**
-   * Format RSVP status for display
+   * Build RSVP confirmation email content
+   * Sent to the guest (or household contact) after they submit, with a copy of
+   * every answer in the submission and a link to change it.
+   * @param recipient The guest who submitted (holds the RSVP token)
+   * @param wedding The wedding details
+   * @param responders Saved responses for the recipient and any household members they answered for
+   * @param rawToken The raw RSVP token the guest submitted with (not stored, only used for email)
+   * @param theme Optional theme to use for email colors (falls back to default)
    */
-  private formatRsvpStatus(status: string): string {
-    switch (status) {
-      case 'attending':
-        return 'Attending';
-      case 'not_attending':
-        return 'Not Attending';
-      case 'pending':
-        return 'Awaiting Response';
-      default:
-        return status;
+  buildRsvpConfirmationEmail(
+    recipient: EmailableGuest,
+    wedding: Wedding,
+    responders: RsvpGuestView[],
+    rawToken: string,
+    theme?: Theme,
+  ): EmailContent {
+    const rsvpUrl = this.buildRsvpUrl(rawToken);
+    const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const colors = theme || DEFAULT_THEME;
+    const locale = this.resolveLocale(recipient, wedding);
+    const { strings } = locale;
+
+    const subject = formatString(strings.confirmationSubject, { partners: partnerNames });
+    const deadline = this.formatRsvpDeadline(wedding, locale.locale);
+    const changeLine = deadline
+      ? formatString(strings.confirmationChangeUntil, { date: deadline })
+      : strings.confirmationChangeAnytime;
+    const anyoneAttending = responders.some((responder) => this.isAttending(responder));
+    const closing = anyoneAttending
+      ? strings.confirmationClosingAttending
+      : strings.confirmationClosingNotAttending;
+
+    const htmlBody = this.buildEmailHtml(
+      partnerNames,
+      escapeHtml(formatString(strings.dear, { name: recipient.name })),
+      [
+        strings.confirmationIntro,
+        ...responders.map((responder) => this.formatRsvpSummaryHtml(responder, wedding, strings)),
+        changeLine,
+      ],
+      strings.confirmationButton,
+      rsvpUrl,
+      closing,
+      `${strings.withLove}<br>${partnerNames}`,
+      colors,
+      rsvpUrl,
+      strings,
+    );
+
+    const textBody = `
+${partnerNames}
+
+${formatString(strings.dear, { name: recipient.name })}
+
+${strings.confirmationIntro}
+
+${responders.map((responder) => this.formatRsvpSummaryText(responder, wedding, strings)).join('\n\n')}
+
+${changeLine}
+${rsvpUrl}
+
+${closing}
+
+${strings.withLove}
+${partnerNames}
+    `.trim();
+
+    return {
+      to: recipient.email,
+      toName: recipient.name,
+      subject,
+      htmlBody,
+      textBody,
+    };
+  }
+
+  /**
+   * Build the email sent when a guest looks up their invitation on the site
+   * Carries a short-lived RSVP link; the link in the original invitation keeps working.
+   * @param recipient The guest (or household contact) the link is for
+   * @param wedding The wedding details
+   * @param rawToken The short-lived RSVP session token (not stored, only used for email)
+   * @param theme Optional theme to use for email colors (falls back to default)
+   */
+  buildRsvpLinkEmail(
+    recipient: EmailableGuest,
+    wedding: Wedding,
+    rawToken: string,
+    theme?: Theme,
+  ): EmailContent {
+    const rsvpUrl = this.buildRsvpUrl(rawToken);
+    const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const colors = theme || DEFAULT_THEME;
+    const { strings } = this.resolveLocale(recipient, wedding);
+
+    const subject = formatString(strings.linkSubject, { partners: partnerNames });
+    const dear = formatString(strings.dear, { name: recipient.name });
+
+    const htmlBody = this.buildEmailHtml(
+      partnerNames,
+      escapeHtml(dear),
+      [strings.linkIntro, strings.linkNotice],
+      strings.linkButton,
+      rsvpUrl,
+      strings.confirmationClosingAttending,
+      `${strings.withLove}<br>${partnerNames}`,
+      colors,
+      rsvpUrl,
+      strings,
+    );
+
+    const textBody = `
+${partnerNames}
+
+${dear}
+
+${strings.linkIntro}
+
+${rsvpUrl}
+
+${strings.linkNotice}
+
+${strings.withLove}
+${partnerNames}
+    `.trim();
+
+    return {
+      to: recipient.email,
+      toName: recipient.name,
+      subject,
+      htmlBody,
+      textBody,
+    };
+  }
+
+  /**
+   * Build the calendar update sent when events are removed from the wedding
+   * Its CANCEL attachment takes the removed events the guest was invited to out
+   * of their calendar. Returns null if the guest was invited to none of them.
+   * @param guest The guest (or household contact) whose invitation carried the events
+   * @param wedding The wedding as it was before the events were removed
+   * @param removedEventIds Events that are no longer taking place
+   * @param theme Optional theme to use for email colors (falls back to default)
+   */
+  buildCalendarCancellationEmail(
+    guest: EmailableGuest,
+    wedding: Wedding,
+    removedEventIds: string[],
+    theme?: Theme,
+  ): EmailContent | null {
+    const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const colors = theme || DEFAULT_THEME;
+    const locale = this.resolveLocale(guest, wedding);
+    const { strings } = locale;
+
+    const events = getGuestCalendarEvents(guest, this.getCalendarEvents(wedding, locale))
+      .filter((event) => removedEventIds.includes(event.id));
+    if (events.length === 0) {
+      return null;
     }
+
+    const names = events.map(
+      (event) => wedding.eventDetails?.events?.find((e) => e.id === event.id)?.name ?? event.title,
+    );
+    const list = new Intl.ListFormat(locale.locale, { style: 'long', type: 'conjunction' });
+    const subject = formatString(strings.calendarCancelSubject, { partners: partnerNames });
+    const dear = formatString(strings.dear, { name: guest.name });
+    const body = formatString(strings.calendarCancelBody, { events: list.format(names) });
+
+    const htmlBody = this.buildEmailHtml(
+      partnerNames,
+      escapeHtml(dear),
+      this.toParagraphs(escapeHtml(body)),
+      null,
+      null,
+      strings.withLove,
+      partnerNames,
+      colors,
+      undefined,
+      strings,
+    );
+
+    const textBody = `
+${partnerNames}
+
+${dear}
+
+${body}
+
+${strings.withLove}
+${partnerNames}
+    `.trim();
+
+    return {
+      to: guest.email,
+      toName: guest.name,
+      subject,
+      htmlBody,
+      textBody,
+      attachments: [this.buildCalendarAttachment(wedding, guest, events, 'CANCEL')],
+    };
   }
 
   /**
-   * Send an email via SendGrid
-   * In development mode, logs the email instead of actually sending
+   * Build the couple's instant notification for a single RSVP submission
+   * @param to The couple's account email and name
+   * @param wedding The wedding details
+   * @param changes Responses in the submission (a household submits several at once)
+   * @param theme Optional theme to use for email colors (falls back to default)
    */
-  async sendEmail(content: EmailContent): Promise<SendEmailResult> {
-    const sendgridApiKey = process.env.SENDGRID_API_KEY;
-    const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'invites@everbloom.wedding';
-    const fromName = process.env.SENDGRID_FROM_NAME || 'Everbloom Weddings';
-
-    // Development mode: log instead of sending
-    if (!sendgridApiKey) {
-      this.logger.log(`📧 DEVELOPMENT MODE - Email would be sent:`);
-      this.logger.log(`   To: ${content.toName} <${content.to}>`);
-      this.logger.log(`   Subject: ${content.subject}`);
-      this.logger.log(`   ---`);
-      this.logger.log(`   ${content.textBody.split('\n').slice(0, 5).join('\n')}...`);
-      this.logger.log(`   ---`);
+  buildRsvpNotificationEmail(
+    to: { email: string; name: string },
+    wedding: Wedding,
+    changes: RsvpChange[],
+    theme?: Theme,
+  ): EmailContent {
+    const names = changes.map((change) => change.guest.name).join(', ');
+    const isUpdate = changes.every((change) => change.change === 'updated');
+
+    return this.buildCoupleRsvpEmail(
+      to,
+      wedding,
+      changes,
+      isUpdate ? `Updated RSVP: ${names}` : `New RSVP: ${names}`,
+      isUpdate ? 'A guest changed their RSVP.' : 'A new RSVP just came in.',
+      theme,
+    );
+  }
 
-      return {
-        success: true,
-        messageId: `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      };
+  /**
+   * Build the couple's daily digest of RSVPs received since the last digest
+   * @param to The couple's account email and name
+   * @param wedding The wedding details
+   * @param changes One entry per guest who responded, with their latest answers
+   * @param theme Optional theme to use for email colors (falls back to default)
+   */
+  buildRsvpDigestEmail(
+    to: { email: string; name: string },
+    wedding: Wedding,
+    changes: RsvpChange[],
+    theme?: Theme,
+  ): EmailContent {
+    const count = changes.length;
+
+    return this.buildCoupleRsvpEmail(
+      to,
+      wedding,
+      changes,
+      `${count} RSVP update${count !== 1 ? 's' : ''} for your wedding`,
+      `Here ${count !== 1 ? 'are the RSVPs' : 'is the RSVP'} received since your last daily digest.`,
+      theme,
+    );
+  }
+
+  /**
+   * Shared layout for couple notifications: an intro line, then one summary per guest
+   */
+  private buildCoupleRsvpEmail(
+    to: { email: string; name: string },
+    wedding: Wedding,
+    changes: RsvpChange[],
+    subject: string,
+    intro: string,
+    theme?: Theme,
+  ): EmailContent {
+    const partnerNames = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const colors = theme || DEFAULT_THEME;
+    const dashboardUrl = process.env.PLATFORM_URL || 'http://localhost:3000';
+    // Couple notifications are written in English, like the dashboard
+    const strings = getEmailStrings('en');
+    const changeLabel = (change: RsvpChange) =>
+      change.change === 'new' ? 'New response' : 'Updated response';
+
+    const htmlBody = this.buildEmailHtml(
+      partnerNames,
+      `Hi ${escapeHtml(to.name)},`,
+      [
+        intro,
+        ...changes.map(
+          (change) => `<em>${changeLabel(change)}</em><br>${this.formatRsvpSummaryHtml(change.guest, wedding, strings)}`,
+        ),
+      ],
+      'View your guest list',
+      dashboardUrl,
+      'You can change how often you hear about RSVPs in your RSVP settings.',
+      'Everbloom',
+      colors,
+    );
+
+    const textBody = `
+${partnerNames}
+
+Hi ${to.name},
+
+${intro}
+
+${changes.map((change) => `${changeLabel(change)}\n${this.formatRsvpSummaryText(change.guest, wedding, strings)}`).join('\n\n')}
+
+View your guest list:
+${dashboardUrl}
+
+You can change how often you hear about RSVPs in your RSVP settings.
+    `.trim();
+
+    return {
+      to: to.email,
+      toName: to.name,
+      subject,
+      htmlBody,
+      textBody,
+    };
+  }
+
+  /**
+   * Whether a guest is attending the wedding or any of its events
+   */
+  private isAttending(guest: RsvpGuestView): boolean {
+    const eventRsvps = Object.values(guest.eventRsvps ?? {});
+    return eventRsvps.length > 0
+      ? eventRsvps.some((rsvp) => rsvp.rsvpStatus === 'attending')
+      : guest.rsvpStatus === 'attending';
+  }
+
+  /**
+   * Describe a guest's saved RSVP as label/value lines
+   * Covers attendance (per event when answered per event), meals, dietary notes,
+   * plus-ones, custom question answers and table assignment.
+   */
+  private describeRsvp(
+    guest: RsvpGuestView,
+    wedding: Wedding,
+    strings: EmailStrings,
+  ): Array<{ label: string; value: string }> {
+    const mealName = (mealOptionId?: string) =>
+      wedding.mealConfig?.options.find((option) => option.id === mealOptionId)?.name;
+    const lines: Array<{ label: string; value: string }> = [];
+
+    const eventRsvps = Object.values(guest.eventRsvps ?? {});
+    if (eventRsvps.length > 0) {
+      for (const rsvp of eventRsvps) {
+        const event = wedding.eventDetails?.events?.find((e) => e.id === rsvp.eventId);
+        const meal = rsvp.rsvpStatus === 'attending' ? mealName(rsvp.mealOptionId) : undefined;
+        lines.push({
+          label: event?.name || rsvp.eventId,
+          value: `${this.formatRsvpStatus(rsvp.rsvpStatus, strings)}${meal ? ` (${meal})` : ''}`,
+        });
+      }
+    } else {
+      lines.push({ label: strings.rsvpLabel, value: this.formatRsvpStatus(guest.rsvpStatus, strings) });
+      const meal = guest.rsvpStatus === 'attending' ? mealName(guest.mealOptionId) : undefined;
+      if (meal) {
+        lines.push({ label: strings.mealLabel, value: meal });
+      }
+    }
+
+    if (guest.dietaryNotes) {
+      lines.push({ label: strings.dietaryNotesLabel, value: guest.dietaryNotes });
     }
 
-    // Production mode: send via SendGrid API
-    try {
-      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${sendgridApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          personalizations: [
-            {
-              to: [{ email: content.to, name: content.toName }],
-            },
-          ],
-          from: { email: fromEmail, name: fromName },
-          subject: content.subject,
-          content: [
-            { type: 'text/plain', value: content.textBody },
-            { type: 'text/html', value: content.htmlBody },
-          ],
-        }),
+    if (this.isAttending(guest) && guest.plusOneGuests && guest.plusOneGuests.length > 0) {
+      lines.push({
+        label: strings.plusOnesLabel,
+        value: guest.plusOneGuests
+          .map((plusOne) => {
+            const details = [mealName(plusOne.mealOptionId), plusOne.dietaryNotes].filter(Boolean);
+            return details.length > 0 ? `${plusOne.name} (${details.join(', ')})` : plusOne.name;
+          })
+          .join('; '),
       });
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        this.logger.error(`SendGrid API error: ${response.status} - ${errorText}`);
-        return {
-          success: false,
-          error: `SendGrid API error: ${response.status}`,
-        };
+    for (const question of wedding.rsvpQuestions?.questions ?? []) {
+      const answer = guest.rsvpAnswers?.[question.id];
+      if (answer !== undefined) {
+        lines.push({
+          label: question.label,
+          value: Array.isArray(answer) ? answer.join(', ') : String(answer),
+        });
       }
+    }
 
-      // SendGrid returns message ID in header
-      const messageId = response.headers.get('X-Message-Id') || `sg-${Date.now()}`;
-      this.logger.log(`Email sent successfully to ${content.to}, messageId: ${messageId}`);
+    for (const { eventName, tableName, seatNumber } of guest.tableAssignments ?? []) {
+      lines.push({
+        label: eventName ? formatString(strings.tableForEventLabel, { event: eventName }) : strings.tableLabel,
+        value: `${tableName}${seatNumber ? ` (${formatString(strings.seat, { number: seatNumber })})` : ''}`,
+      });
+    }
 
-      return {
-        success: true,
-        messageId,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`Failed to send email: ${errorMessage}`);
-      return {
-        success: false,
-        error: errorMessage,
-      };
+    return lines;
+  }
+
+  /**
+   * One guest's RSVP as an HTML paragraph body (guest-entered text is escaped)
+   */
+  private formatRsvpSummaryHtml(guest: RsvpGuestView, wedding: Wedding, strings: EmailStrings): string {
+    return [
+      `<strong>${escapeHtml(guest.name)}</strong>`,
+      ...this.describeRsvp(guest, wedding, strings).map(
+        ({ label, value }) => `${escapeHtml(label)}: ${escapeHtml(value)}`,
+      ),
+    ].join('<br>');
+  }
+
+  /**
+   * One guest's RSVP as plain text lines
+   */
+  private formatRsvpSummaryText(guest: RsvpGuestView, wedding: Wedding, strings: EmailStrings): string {
+    return [
+      guest.name,
+      ...this.describeRsvp(guest, wedding, strings).map(({ label, value }) => `- ${label}: ${value}`),
+    ].join('\n');
+  }
+
+  /**
+   * Format RSVP status for display
+   */
+  private formatRsvpStatus(status: string, strings: EmailStrings): string {
+    switch (status) {
+      case 'attending':
+        return strings.statusAttending;
+      case 'not_attending':
+        return strings.statusNotAttending;
+      case 'pending':
+        return strings.statusPending;
+      default:
+        return status;
     }
   }
+
+  /**
+   * Add an unsubscribe link below an email guests can opt out of
+   * @param guest The recipient, whose language the link is written in
+   */
+  addUnsubscribeLink(
+    content: EmailContent,
+    unsubscribeUrl: string,
+    guest?: Pick<Guest, 'preferredLanguage'>,
+    wedding?: Wedding,
+  ): EmailContent {
+    const { strings } = this.localeFor(resolveEmailLanguage(guest?.preferredLanguage, wedding?.language));
+    const link = `<p style="text-align: center; font-size: 12px; color: #8a8a8a; margin: 0 0 24px 0;">${strings.unsubscribePrompt} <a href="${unsubscribeUrl}" style="color: #8a8a8a;">${strings.unsubscribe}</a></p>`;
+
+    return {
+      ...content,
+      htmlBody: content.htmlBody.replace('</body>', `  ${link}\n</body>`),
+      textBody: `${content.textBody}\n\n---\n${strings.unsubscribePrompt} ${strings.unsubscribe}: ${unsubscribeUrl}`,
+    };
+  }
+
+  /**
+   * Send an email through the provider selected by EMAIL_PROVIDER
+   * (see @wedding-bestie/email; local environments capture mail instead of sending)
+   */
+  async sendEmail(content: EmailContent): Promise<EmailSendResult> {
+    return this.transport.send({
+      to: content.to,
+      toName: content.toName,
+      subject: content.subject,
+      htmlBody: content.htmlBody,
+      textBody: content.textBody,
+      headers: content.headers,
+      attachments: content.attachments,
+    });
+  }
 }
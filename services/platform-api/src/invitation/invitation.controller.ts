@@ -13,6 +13,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InvitationService } from './invitation.service';
+import { EmailSuppressionService } from './email-suppression.service';
 import { WeddingService } from '../wedding/wedding.service';
 import { AdminAuthService } from '../auth/admin-auth.service';
 import type {
@@ -24,8 +25,12 @@ import type {
   SendSaveTheDateResponse,
   SendThankYouRequest,
   SendThankYouResponse,
+  DeadLetteredEmail,
+  EmailCampaignProgress,
   EmailOutbox,
   EmailStatisticsResponse,
+  EmailSuppression,
+  PrepareCampaignEmailResponse,
   UpdateOutboxStatusRequest,
   ScheduleEmailRequest,
   ScheduleEmailResponse,
@@ -34,20 +39,27 @@ import type {
   ApiResponse,
 } from '../types';
 import {
+  DEAD_LETTER_JOB_NOT_FOUND,
+  EMAIL_CAMPAIGN_NOT_FOUND,
+  EMAIL_CAMPAIGN_QUEUE_FAILED,
+  EMAIL_SUPPRESSION_NOT_FOUND,
   FEATURE_DISABLED,
   NO_GUESTS_SELECTED,
   REMINDER_QUEUE_FAILED,
   SCHEDULED_EMAIL_NOT_FOUND,
   SCHEDULED_EMAIL_ALREADY_SENT,
+  SEGMENT_NOT_FOUND,
   INVALID_SCHEDULE_TIME,
   UNAUTHORIZED,
   WEDDING_NOT_FOUND,
 } from '../types';
+import { getWeddingTimeZone, parseScheduledTime } from '../utils/wedding-time-zone';
 
 @Controller('weddings/:weddingId/invitations')
 export class InvitationController {
   constructor(
     private readonly invitationService: InvitationService,
+    private readonly emailSuppressionService: EmailSuppressionService,
     private readonly weddingService: WeddingService,
     private readonly adminAuthService: AdminAuthService,
   ) {}
@@ -85,6 +97,12 @@ export class InvitationController {
           message: 'Wedding not found',
         });
       }
+      if (error instanceof Error && error.message === EMAIL_CAMPAIGN_QUEUE_FAILED) {
+        throw new HttpException(
+          { ok: false, error: EMAIL_CAMPAIGN_QUEUE_FAILED, message: 'Failed to queue invitations.' },
+          HttpStatus.INTERNAL_SERVER_ERROR,
+        );
+      }
       throw error;
     }
   }
@@ -174,6 +192,12 @@ export class InvitationController {
           message: 'Wedding not found',
         });
       }
+      if (error instanceof Error && error.message === EMAIL_CAMPAIGN_QUEUE_FAILED) {
+        throw new HttpException(
+          { ok: false, error: EMAIL_CAMPAIGN_QUEUE_FAILED, message: 'Failed to queue save-the-dates.' },
+          HttpStatus.INTERNAL_SERVER_ERROR,
+        );
+      }
       throw error;
     }
   }
@@ -211,6 +235,12 @@ export class InvitationController {
           message: 'Wedding not found',
         });
       }
+      if (error instanceof Error && error.message === EMAIL_CAMPAIGN_QUEUE_FAILED) {
+        throw new HttpException(
+          { ok: false, error: EMAIL_CAMPAIGN_QUEUE_FAILED, message: 'Failed to queue thank-you emails.' },
+          HttpStatus.INTERNAL_SERVER_ERROR,
+        );
+      }
       throw error;
     }
   }
@@ -225,7 +255,7 @@ export class InvitationController {
   ): Promise<ApiResponse<{ emails: EmailOutbox[] }>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const emails = this.invitationService.getOutboxForWedding(weddingId);
+    const emails = await this.invitationService.getOutboxForWedding(weddingId);
     return { ok: true, data: { emails } };
   }
 
@@ -240,7 +270,7 @@ export class InvitationController {
   ): Promise<ApiResponse<EmailStatisticsResponse>> {
     await this.requireWeddingOwner(authHeader, weddingId);
 
-    const statistics = this.invitationService.getEmailStatistics(weddingId);
+    const statistics = await this.invitationService.getEmailStatistics(weddingId);
     return { ok: true, data: { statistics } };
   }
 
@@ -265,7 +295,7 @@ export class InvitationController {
       });
     }
 
-    const updated = this.invitationService.updateOutboxRecord(
+    const updated = await this.invitationService.updateOutboxRecord(
       weddingId,
       outboxId,
       body.status,
@@ -288,6 +318,76 @@ export class InvitationController {
     return { ok: true, data: { updated } };
   }
 
+  // ============================================================================
+  // Email Campaign Endpoints
+  // Invitations, save-the-dates and thank-yous are sent by the worker
+  // ============================================================================
+
+  /**
+   * Get the progress of a bulk send, polled by the dashboard
+   */
+  @Get('campaigns/:campaignId')
+  async getCampaignProgress(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('campaignId') campaignId: string,
+  ): Promise<ApiResponse<EmailCampaignProgress>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    try {
+      const progress = await this.invitationService.getCampaignProgress(weddingId, campaignId);
+      return { ok: true, data: progress };
+    } catch (error) {
+      if (error instanceof Error && error.message === EMAIL_CAMPAIGN_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: EMAIL_CAMPAIGN_NOT_FOUND,
+          message: 'Email campaign not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Prepare the email for one guest of a campaign (worker -> platform API)
+   */
+  @Post('campaigns/:campaignId/prepare')
+  async prepareCampaignEmail(
+    @Headers('x-worker-token') workerToken: string | undefined,
+    @Param('weddingId') weddingId: string,
+    @Param('campaignId') campaignId: string,
+    @Body() body: { guestId: string },
+  ): Promise<ApiResponse<PrepareCampaignEmailResponse>> {
+    this.requireWorkerToken(workerToken);
+
+    if (!body?.guestId) {
+      throw new BadRequestException({
+        ok: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Missing required fields',
+      });
+    }
+
+    try {
+      const email = await this.invitationService.prepareCampaignEmail(
+        weddingId,
+        campaignId,
+        body.guestId,
+      );
+      return { ok: true, data: { email } };
+    } catch (error) {
+      if (error instanceof Error && error.message === EMAIL_CAMPAIGN_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: EMAIL_CAMPAIGN_NOT_FOUND,
+          message: 'Email campaign not found',
+        });
+      }
+      throw error;
+    }
+  }
+
 // ============================================================================
   // Scheduled Email Endpoints
   // PRD: "Admin can schedule emails for future send"
@@ -303,10 +403,18 @@ export class InvitationController {
     @Param('weddingId') weddingId: string,
     @Body() body: ScheduleEmailRequest,
   ): Promise<ApiResponse<ScheduleEmailResponse>> {
-    await this.requireWeddingOwner(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
-    // Validate request
-    if (!body.guestIds || body.guestIds.length === 0) {
+    // Validate request: a list of guests, or a segment evaluated at send time
+    if (body.segmentId && body.guestIds && body.guestIds.length > 0) {
+      throw new BadRequestException({
+        ok: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Choose either guests or a segment, not both',
+      });
+    }
+
+    if (!body.segmentId && (!body.guestIds || body.guestIds.length === 0)) {
       throw new BadRequestException({
         ok: false,
         error: NO_GUESTS_SELECTED,
@@ -330,9 +438,8 @@ export class InvitationController {
       });
     }
 
-    // Validate scheduled time format
-    const scheduledTime = new Date(body.scheduledAt);
-    if (isNaN(scheduledTime.getTime())) {
+    // Validate scheduled time format (local times are read in the wedding's time zone)
+    if (!parseScheduledTime(body.scheduledAt, getWeddingTimeZone(wedding))) {
       throw new BadRequestException({
         ok: false,
         error: INVALID_SCHEDULE_TIME,
@@ -353,9 +460,11 @@ export class InvitationController {
     try {
       const result = await this.invitationService.scheduleEmail(
         weddingId,
-        body.guestIds,
+        body.guestIds ?? [],
         body.emailType,
         body.scheduledAt,
+        false,
+        body.segmentId,
       );
       return { ok: true, data: result };
     } catch (error) {
@@ -381,6 +490,13 @@ export class InvitationController {
             message: 'One or more guests not found',
           });
         }
+        if (error.message === SEGMENT_NOT_FOUND) {
+          throw new NotFoundException({
+            ok: false,
+            error: SEGMENT_NOT_FOUND,
+            message: 'Segment not found',
+          });
+        }
       }
       throw error;
     }
@@ -395,11 +511,11 @@ export class InvitationController {
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
   ): Promise<ApiResponse<ScheduledEmailsListResponse>> {
-    await this.requireWeddingOwner(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
     const scheduledEmails =
-      this.invitationService.getScheduledEmailsForWedding(weddingId);
-    return { ok: true, data: { scheduledEmails } };
+      await this.invitationService.getScheduledEmailsForWedding(weddingId);
+    return { ok: true, data: { scheduledEmails, timezone: getWeddingTimeZone(wedding) } };
   }
 
   /**
@@ -447,9 +563,121 @@ export class InvitationController {
     }
   }
 
+  /**
+   * List emails the worker gave up on (permanent failure or out of retries)
+   */
+  @Get('dead-letters')
+  async getDeadLetteredEmails(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+  ): Promise<ApiResponse<DeadLetteredEmail[]>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const emails = await this.invitationService.getDeadLetteredEmails(weddingId);
+    return { ok: true, data: emails };
+  }
+
+  /**
+   * Put a dead-lettered email back on its queue
+   */
+  @Post('dead-letters/:jobId/retry')
+  async retryDeadLetteredEmail(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('jobId') jobId: string,
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    try {
+      await this.invitationService.retryDeadLetteredEmail(weddingId, jobId);
+      return { ok: true, data: { success: true } };
+    } catch (error) {
+      if (error instanceof Error && error.message === DEAD_LETTER_JOB_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: DEAD_LETTER_JOB_NOT_FOUND,
+          message: 'Failed email not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a dead-lettered email
+   */
+  @Delete('dead-letters/:jobId')
+  async discardDeadLetteredEmail(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('jobId') jobId: string,
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    try {
+      await this.invitationService.discardDeadLetteredEmail(weddingId, jobId);
+      return { ok: true, data: { success: true } };
+    } catch (error) {
+      if (error instanceof Error && error.message === DEAD_LETTER_JOB_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: DEAD_LETTER_JOB_NOT_FOUND,
+          message: 'Failed email not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Suppression List Endpoints
+  // Addresses that hard-bounced, reported spam or unsubscribed
+  // ============================================================================
+
+  /**
+   * List the wedding's suppressed addresses
+   */
+  @Get('suppressions')
+  async getSuppressions(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+  ): Promise<ApiResponse<EmailSuppression[]>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    const suppressions = await this.emailSuppressionService.getSuppressions(weddingId);
+    return { ok: true, data: suppressions };
+  }
+
+  /**
+   * Un-suppress an address so it can be emailed again
+   */
+  @Delete('suppressions/:suppressionId')
+  async removeSuppression(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('suppressionId') suppressionId: string,
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    await this.requireWeddingOwner(authHeader, weddingId);
+
+    try {
+      await this.emailSuppressionService.removeSuppression(weddingId, suppressionId);
+      return { ok: true, data: { success: true } };
+    } catch (error) {
+      if (error instanceof Error && error.message === EMAIL_SUPPRESSION_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: EMAIL_SUPPRESSION_NOT_FOUND,
+          message: 'Suppressed address not found',
+        });
+      }
+      throw error;
+    }
+  }
+
   /**
    * Execute a scheduled email (called by worker when scheduled time arrives)
    * PRD: "Scheduled emails send at correct time"
+   * finalAttempt is false while the worker will still retry a failure
    */
   @Post('execute-scheduled')
   async executeScheduledEmail(
@@ -460,6 +688,7 @@ export class InvitationController {
       scheduledEmailId: string;
       guestIds: string[];
       emailType: string;
+      finalAttempt?: boolean;
     },
   ): Promise<ApiResponse<{ sent: number; failed: number; total: number }>> {
     this.requireWorkerToken(workerToken);
@@ -473,12 +702,15 @@ export class InvitationController {
     }
 
     try {
-      const result = await this.invitationService.executeScheduledEmail({
-        scheduledEmailId: body.scheduledEmailId,
-        weddingId,
-        guestIds: body.guestIds,
-        emailType: body.emailType as 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update',
-      });
+      const result = await this.invitationService.executeScheduledEmail(
+        {
+          scheduledEmailId: body.scheduledEmailId,
+          weddingId,
+          guestIds: body.guestIds,
+          emailType: body.emailType as 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update',
+        },
+        body.finalAttempt !== false,
+      );
       return { ok: true, data: result };
     } catch (error) {
       if (error instanceof Error && error.message === 'WEDDING_NOT_FOUND') {
@@ -488,6 +720,13 @@ export class InvitationController {
           message: 'Wedding not found',
         });
       }
+      if (error instanceof Error && error.message === SCHEDULED_EMAIL_NOT_FOUND) {
+        throw new NotFoundException({
+          ok: false,
+          error: SCHEDULED_EMAIL_NOT_FOUND,
+          message: 'Scheduled email not found',
+        });
+      }
       throw error;
     }
   }
@@ -1,32 +1,55 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { InvitationController } from './invitation.controller';
 import { SendGridWebhookController } from './sendgrid-webhook.controller';
+import { DevEmailController, isDevEmailInboxEnabled } from './dev-email.controller';
+import { UnsubscribeController } from './unsubscribe.controller';
+import { EmailTemplateController } from './email-template.controller';
 import { InvitationService } from './invitation.service';
 import { EmailService } from './email.service';
 import { ReminderQueueService } from './reminder-queue.service';
 import { ScheduledEmailQueueService } from './scheduled-email-queue.service';
+import { RsvpNotificationQueueService } from './rsvp-notification-queue.service';
+import { CampaignEmailQueueService } from './campaign-email-queue.service';
+import { DeadLetterQueueService } from './dead-letter-queue.service';
+import { EmailQueueReconcilerService } from './email-queue-reconciler.service';
+import { EmailSuppressionService } from './email-suppression.service';
 import { AuthModule } from '../auth/auth.module';
 import { GuestModule } from '../guest/guest.module';
 import { WeddingModule } from '../wedding/wedding.module';
+import { SeatingModule } from '../seating/seating.module';
 
 @Module({
   imports: [
     forwardRef(() => AuthModule),
     forwardRef(() => GuestModule),
     forwardRef(() => WeddingModule),
+    forwardRef(() => SeatingModule),
+  ],
+  controllers: [
+    InvitationController,
+    SendGridWebhookController,
+    ...(isDevEmailInboxEnabled() ? [DevEmailController] : []),
+    UnsubscribeController,
+    EmailTemplateController,
   ],
-  controllers: [InvitationController, SendGridWebhookController],
   providers: [
     InvitationService,
     EmailService,
     ReminderQueueService,
     ScheduledEmailQueueService,
+    RsvpNotificationQueueService,
+    CampaignEmailQueueService,
+    DeadLetterQueueService,
+    EmailQueueReconcilerService,
+    EmailSuppressionService,
   ],
   exports: [
     InvitationService,
     EmailService,
+    EmailSuppressionService,
     ReminderQueueService,
     ScheduledEmailQueueService,
+    RsvpNotificationQueueService,
   ],
 })
 export class InvitationModule {}
@@ -0,0 +1,575 @@
+import { InvitationService } from './invitation.service';
+import { getSupabaseClient } from '../utils/supabase';
+import type { DbEmailCampaign, DbScheduledEmail } from '../utils/supabase';
+import type { Guest, ScheduledEmailJobData } from '../types';
+import { EMAIL_CAMPAIGN_NOT_FOUND } from '../types';
+
+jest.mock('../utils/supabase', () => ({
+  getSupabaseClient: jest.fn(),
+}));
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the Supabase tables the service reads and writes
+ * Supports the filters the service uses; inserts give rows an ID, and an outbox
+ * row for a guest already in the campaign fails like the unique index does.
+ */
+function createFakeDatabase(tables: Record<string, Row[]>) {
+  let nextId = 1;
+
+  const from = (table: string) => {
+    tables[table] ??= [];
+    const rows = tables[table];
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: { type: 'select' } | { type: 'insert'; values: Row } | { type: 'update'; values: Row } | { type: 'upsert'; values: Row } | { type: 'delete' } = { type: 'select' };
+
+    const run = (): { data: Row[] | null; error: { code?: string; message: string } | null } => {
+      const matching = rows.filter((row) => filters.every((filter) => filter(row)));
+
+      switch (action.type) {
+        case 'insert': {
+          const values = action.values;
+          if (
+            table === 'email_outbox' &&
+            values.campaign_id &&
+            rows.some((row) => row.campaign_id === values.campaign_id && row.guest_id === values.guest_id)
+          ) {
+            return { data: null, error: { code: '23505', message: 'duplicate key' } };
+          }
+          const row = { id: `${table}-${nextId++}`, created_at: '2026-10-19T00:00:00Z', ...values };
+          rows.push(row);
+          return { data: [row], error: null };
+        }
+        case 'upsert': {
+          const values = action.values;
+          const existing = rows.find(
+            (row) => row.campaign_id === values.campaign_id && row.guest_id === values.guest_id,
+          );
+          if (existing) {
+            Object.assign(existing, values);
+            return { data: [existing], error: null };
+          }
+          rows.push({ ...values });
+          return { data: [values], error: null };
+        }
+        case 'update':
+          for (const row of matching) {
+            Object.assign(row, action.values);
+          }
+          return { data: matching, error: null };
+        case 'delete':
+          tables[table] = rows.filter((row) => !matching.includes(row));
+          return { data: matching, error: null };
+        default:
+          return { data: matching, error: null };
+      }
+    };
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      insert: (values: Row) => {
+        action = { type: 'insert', values };
+        return builder;
+      },
+      upsert: (values: Row) => {
+        action = { type: 'upsert', values };
+        return builder;
+      },
+      update: (values: Row) => {
+        action = { type: 'update', values };
+        return builder;
+      },
+      delete: () => {
+        action = { type: 'delete' };
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      single: async () => {
+        const { data, error } = run();
+        return data?.length ? { data: data[0], error } : { data: null, error: error ?? { message: 'no rows' } };
+      },
+      then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  return { from };
+}
+
+describe('InvitationService', () => {
+  let tables: Record<string, Row[]>;
+  let emailService: {
+    buildReminderEmail: jest.Mock;
+    buildInvitationEmail: jest.Mock;
+    buildSaveTheDateEmail: jest.Mock;
+    addUnsubscribeLink: jest.Mock;
+  };
+  let campaignEmailQueueService: { enqueueCampaign: jest.Mock };
+  let reminderQueueService: { enqueueReminders: jest.Mock };
+  let emailSuppressionService: {
+    getBlockingSuppressions: jest.Mock;
+    findSuppression: jest.Mock;
+    getUnsubscribeUrl: jest.Mock;
+    getUnsubscribeHeaders: jest.Mock;
+  };
+  let guestService: {
+    getGuest: jest.Mock;
+    getGuestsForWedding: jest.Mock;
+    getHouseholdContact: jest.Mock;
+    regenerateRsvpToken: jest.Mock;
+  };
+  let segmentService: { getSegmentGuests: jest.Mock };
+  let seatingService: { getGuestTableAssignments: jest.Mock };
+  let weddingService: { getWedding: jest.Mock; getRenderConfig: jest.Mock };
+  let invitationService: InvitationService;
+
+  // Helper to create a mock guest
+  const createMockGuest = (overrides?: Partial<Guest>): Guest => ({
+    id: 'guest-1',
+    weddingId: 'wedding-1',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    partySize: 1,
+    rsvpStatus: 'pending',
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  });
+
+  // Helper to create a scheduled email row
+  const createScheduledRow = (overrides?: Partial<DbScheduledEmail>): DbScheduledEmail & Row => ({
+    id: 'scheduled-1',
+    wedding_id: 'wedding-1',
+    guest_ids: ['guest-1', 'guest-2'],
+    segment_id: null,
+    email_type: 'invitation',
+    scheduled_at: '2026-10-19T08:00:00Z',
+    status: 'pending',
+    job_id: 'scheduled-1',
+    results: null,
+    automatic: false,
+    campaign_id: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  });
+
+  // Helper to create a campaign row
+  const createCampaignRow = (overrides?: Partial<DbEmailCampaign>): DbEmailCampaign & Row => ({
+    id: 'campaign-1',
+    wedding_id: 'wedding-1',
+    email_type: 'save_the_date',
+    total: 1,
+    created_at: '2026-10-19T00:00:00Z',
+    ...overrides,
+  });
+
+  // Helper to build an email for a guest the way the email service does
+  const buildEmail = (subject: string) => (guest: Guest) => ({
+    to: guest.email,
+    toName: guest.name,
+    subject,
+    htmlBody: `<p>${subject}</p>`,
+    textBody: subject,
+  });
+
+  const jobData: ScheduledEmailJobData = {
+    scheduledEmailId: 'scheduled-1',
+    weddingId: 'wedding-1',
+    guestIds: ['guest-1', 'guest-2'],
+    emailType: 'invitation',
+  };
+
+  beforeEach(() => {
+    tables = { scheduled_emails: [], email_campaigns: [], email_outbox: [], email_campaign_recipients: [] };
+    (getSupabaseClient as jest.Mock).mockImplementation(() => createFakeDatabase(tables));
+
+    emailService = {
+      buildReminderEmail: jest.fn(buildEmail('Reminder')),
+      buildInvitationEmail: jest.fn(buildEmail('Invitation')),
+      buildSaveTheDateEmail: jest.fn(buildEmail('Save the date')),
+      addUnsubscribeLink: jest.fn((content: unknown) => content),
+    };
+    campaignEmailQueueService = { enqueueCampaign: jest.fn().mockResolvedValue(2) };
+    reminderQueueService = {
+      enqueueReminders: jest.fn(async (jobs: Array<{ outboxId: string }>) => jobs.map((job) => job.outboxId)),
+    };
+    emailSuppressionService = {
+      getBlockingSuppressions: jest.fn().mockResolvedValue(new Map()),
+      findSuppression: jest.fn().mockResolvedValue(null),
+      getUnsubscribeUrl: jest.fn().mockReturnValue('https://example.com/unsubscribe'),
+      getUnsubscribeHeaders: jest.fn().mockReturnValue({}),
+    };
+    guestService = {
+      getGuest: jest.fn().mockResolvedValue(null),
+      getGuestsForWedding: jest.fn().mockResolvedValue([]),
+      getHouseholdContact: jest.fn().mockResolvedValue(null),
+      regenerateRsvpToken: jest.fn(async (guestId: string) => ({
+        guest: createMockGuest({ id: guestId, email: `${guestId}@example.com` }),
+        rawToken: `token-${guestId}`,
+      })),
+    };
+    segmentService = { getSegmentGuests: jest.fn().mockResolvedValue([]) };
+    seatingService = { getGuestTableAssignments: jest.fn().mockResolvedValue([]) };
+    weddingService = {
+      getWedding: jest.fn().mockResolvedValue({ id: 'wedding-1', features: { RSVP: true }, eventDetails: {} }),
+      getRenderConfig: jest.fn().mockResolvedValue(null),
+    };
+
+    invitationService = new InvitationService(
+      emailService as never,
+      reminderQueueService as never,
+      {} as never,
+      {} as never,
+      campaignEmailQueueService as never,
+      {} as never,
+      emailSuppressionService as never,
+      guestService as never,
+      segmentService as never,
+      seatingService as never,
+      weddingService as never,
+    );
+  });
+
+  describe('executeScheduledEmail', () => {
+    it('should record the campaign on the row before queueing its guests', async () => {
+      tables.scheduled_emails.push(createScheduledRow());
+      campaignEmailQueueService.enqueueCampaign.mockImplementation(async () => {
+        expect(tables.scheduled_emails[0]).toMatchObject({
+          status: 'processing',
+          campaign_id: tables.email_campaigns[0].id,
+        });
+        return 2;
+      });
+
+      const results = await invitationService.executeScheduledEmail(jobData);
+
+      expect(results).toEqual({ sent: 2, failed: 0, total: 2 });
+      expect(tables.email_campaigns).toHaveLength(1);
+      expect(campaignEmailQueueService.enqueueCampaign).toHaveBeenCalledTimes(1);
+      expect(tables.scheduled_emails[0].status).toBe('completed');
+    });
+
+    it('should not start a second run while one is in progress', async () => {
+      tables.scheduled_emails.push(createScheduledRow({ status: 'processing' }));
+
+      const results = await invitationService.executeScheduledEmail(jobData);
+
+      expect(results).toEqual({ sent: 0, failed: 0, total: 0 });
+      expect(tables.email_campaigns).toHaveLength(0);
+      expect(campaignEmailQueueService.enqueueCampaign).not.toHaveBeenCalled();
+      expect(tables.scheduled_emails[0].status).toBe('processing');
+    });
+
+    it('should resume the recorded campaign when a failed run is retried', async () => {
+      tables.scheduled_emails.push(createScheduledRow());
+      campaignEmailQueueService.enqueueCampaign.mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(invitationService.executeScheduledEmail(jobData, false)).rejects.toThrow();
+
+      expect(tables.scheduled_emails[0].status).toBe('pending');
+      const campaignId = tables.scheduled_emails[0].campaign_id;
+      expect(campaignId).toBe(tables.email_campaigns[0].id);
+
+      await invitationService.executeScheduledEmail(jobData);
+
+      expect(tables.email_campaigns).toHaveLength(1);
+      expect(campaignEmailQueueService.enqueueCampaign).toHaveBeenCalledTimes(2);
+      expect(campaignEmailQueueService.enqueueCampaign.mock.calls[1][0]).toEqual([
+        { campaignId, weddingId: 'wedding-1', guestId: 'guest-1', emailType: 'invitation' },
+        { campaignId, weddingId: 'wedding-1', guestId: 'guest-2', emailType: 'invitation' },
+      ]);
+      expect(tables.scheduled_emails[0].status).toBe('completed');
+    });
+
+    it('should mark the send failed after the final attempt', async () => {
+      tables.scheduled_emails.push(createScheduledRow());
+      campaignEmailQueueService.enqueueCampaign.mockRejectedValue(new Error('Redis down'));
+
+      await expect(invitationService.executeScheduledEmail(jobData, true)).rejects.toThrow();
+
+      expect(tables.scheduled_emails[0]).toMatchObject({
+        status: 'failed',
+        results: { sent: 0, failed: 2, total: 2 },
+      });
+    });
+
+    it('should skip guests a retried reminder send already reached', async () => {
+      tables.scheduled_emails.push(createScheduledRow({ email_type: 'reminder' }));
+      tables.email_outbox.push(
+        { id: 'outbox-a', guest_id: 'guest-1', scheduled_email_id: 'scheduled-1', status: 'sent' },
+        { id: 'outbox-b', guest_id: 'guest-2', scheduled_email_id: 'scheduled-1', status: 'failed' },
+      );
+      guestService.getGuestsForWedding.mockResolvedValue([
+        createMockGuest({ id: 'guest-1', email: 'guest-1@example.com' }),
+        createMockGuest({ id: 'guest-2', email: 'guest-2@example.com' }),
+        createMockGuest({ id: 'guest-3', email: 'guest-3@example.com' }),
+      ]);
+
+      const results = await invitationService.executeScheduledEmail({
+        ...jobData,
+        guestIds: [],
+        emailType: 'reminder',
+      });
+
+      const queuedJobs = reminderQueueService.enqueueReminders.mock.calls[0][0] as Array<{ guestId: string }>;
+      expect(queuedJobs.map((job) => job.guestId)).toEqual(['guest-2', 'guest-3']);
+      // guest-1's RSVP link is left alone
+      expect(guestService.regenerateRsvpToken.mock.calls.map(([guestId]) => guestId)).toEqual(['guest-2', 'guest-3']);
+      expect(results).toEqual({ sent: 3, failed: 0, total: 3 });
+      expect(
+        tables.email_outbox.filter((row) => row.scheduled_email_id === 'scheduled-1' && row.status === 'pending'),
+      ).toHaveLength(2);
+    });
+
+    it('should send to the guests in the segment at send time', async () => {
+      tables.scheduled_emails.push(createScheduledRow({ segment_id: 'segment-1', guest_ids: [] }));
+      segmentService.getSegmentGuests.mockResolvedValue([createMockGuest({ id: 'guest-3' })]);
+
+      const results = await invitationService.executeScheduledEmail({ ...jobData, guestIds: [] });
+
+      expect(segmentService.getSegmentGuests).toHaveBeenCalledWith('wedding-1', 'segment-1');
+      expect(campaignEmailQueueService.enqueueCampaign.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ guestId: 'guest-3' }),
+      ]);
+      expect(results.total).toBe(1);
+    });
+
+    it('should complete without emailing anyone when the segment is empty', async () => {
+      tables.scheduled_emails.push(
+        createScheduledRow({ email_type: 'reminder', segment_id: 'segment-1', guest_ids: [] }),
+      );
+      guestService.getGuestsForWedding.mockResolvedValue([createMockGuest()]);
+
+      const results = await invitationService.executeScheduledEmail({
+        ...jobData,
+        guestIds: [],
+        emailType: 'reminder',
+      });
+
+      // An empty segment must not fall through to "every pending guest"
+      expect(results).toEqual({ sent: 0, failed: 0, total: 0 });
+      expect(reminderQueueService.enqueueReminders).not.toHaveBeenCalled();
+      expect(tables.email_outbox).toHaveLength(0);
+      expect(tables.scheduled_emails[0]).toMatchObject({ status: 'completed', results });
+    });
+
+    it('should not run a cancelled send', async () => {
+      tables.scheduled_emails.push(createScheduledRow({ status: 'cancelled' }));
+
+      await invitationService.executeScheduledEmail(jobData);
+
+      expect(campaignEmailQueueService.enqueueCampaign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareCampaignEmail', () => {
+    beforeEach(() => {
+      tables.email_campaigns.push(createCampaignRow());
+      guestService.getGuest.mockResolvedValue(createMockGuest());
+    });
+
+    it('should record the guest and claim an outbox row before returning the email', async () => {
+      const prepared = await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-1');
+
+      expect(tables.email_outbox).toHaveLength(1);
+      const outbox = tables.email_outbox[0];
+      expect(outbox).toMatchObject({
+        campaign_id: 'campaign-1',
+        guest_id: 'guest-1',
+        to_email: 'jane@example.com',
+        status: 'pending',
+        subject: 'Save the date',
+      });
+      expect(tables.email_campaign_recipients).toEqual([
+        expect.objectContaining({
+          campaign_id: 'campaign-1',
+          guest_id: 'guest-1',
+          outbox_id: outbox.id,
+          error: null,
+          suppressed: false,
+        }),
+      ]);
+      expect(prepared).toMatchObject({ outboxId: outbox.id, toEmail: 'jane@example.com', subject: 'Save the date' });
+    });
+
+    it('should not prepare a guest whose email already went out again', async () => {
+      await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-1');
+      tables.email_outbox[0].status = 'sent';
+
+      expect(await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-1')).toBeNull();
+      expect(tables.email_outbox).toHaveLength(1);
+      expect(emailService.buildSaveTheDateEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip a suppressed address and record it as suppressed', async () => {
+      emailSuppressionService.findSuppression.mockResolvedValue({ reason: 'bounce' });
+
+      const prepared = await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-1');
+
+      expect(prepared).toBeNull();
+      expect(emailSuppressionService.findSuppression).toHaveBeenCalledWith('wedding-1', 'jane@example.com', false);
+      expect(tables.email_outbox).toHaveLength(0);
+      expect(emailService.buildSaveTheDateEmail).not.toHaveBeenCalled();
+      expect(tables.email_campaign_recipients).toEqual([
+        expect.objectContaining({ guest_id: 'guest-1', outbox_id: null, suppressed: true }),
+      ]);
+    });
+
+    it('should reject a campaign from another wedding', async () => {
+      await expect(
+        invitationService.prepareCampaignEmail('wedding-2', 'campaign-1', 'guest-1'),
+      ).rejects.toThrow(EMAIL_CAMPAIGN_NOT_FOUND);
+    });
+  });
+
+  describe('getCampaignProgress', () => {
+    const addRecipient = (guestId: string, outboxStatus: string | null, overrides?: Row) => {
+      if (outboxStatus) {
+        tables.email_outbox.push({
+          id: `outbox-${guestId}`,
+          campaign_id: 'campaign-1',
+          guest_id: guestId,
+          to_email: `${guestId}@example.com`,
+          status: outboxStatus,
+          attempts: 1,
+        });
+      }
+      tables.email_campaign_recipients.push({
+        campaign_id: 'campaign-1',
+        guest_id: guestId,
+        guest_name: guestId,
+        outbox_id: outboxStatus ? `outbox-${guestId}` : null,
+        error: null,
+        suppressed: false,
+        ...overrides,
+      });
+    };
+
+    it('should count sent, failed, suppressed and pending guests', async () => {
+      tables.email_campaigns.push(createCampaignRow({ total: 6 }));
+      addRecipient('guest-1', 'sent');
+      addRecipient('guest-2', 'delivered');
+      addRecipient('guest-3', 'bounced');
+      addRecipient('guest-4', null, { error: 'Guest has no email address' });
+      addRecipient('guest-5', null, { error: 'Address bounced', suppressed: true });
+
+      const progress = await invitationService.getCampaignProgress('wedding-1', 'campaign-1');
+
+      expect(progress).toMatchObject({ total: 6, sent: 2, failed: 2, suppressed: 1, pending: 1, completed: false });
+      expect(progress.results.find((result) => result.guestId === 'guest-5')?.status).toBe('suppressed');
+    });
+
+    it('should complete once every guest is sent, failed or suppressed', async () => {
+      tables.email_campaigns.push(createCampaignRow({ total: 2 }));
+      addRecipient('guest-1', 'sent');
+      addRecipient('guest-2', null, { error: 'Address bounced', suppressed: true });
+
+      const progress = await invitationService.getCampaignProgress('wedding-1', 'campaign-1');
+
+      expect(progress).toMatchObject({ sent: 1, failed: 0, suppressed: 1, pending: 0, completed: true });
+    });
+
+    it('should count a guest whose email is still queued as pending', async () => {
+      tables.email_campaigns.push(createCampaignRow({ total: 1 }));
+      addRecipient('guest-1', 'pending');
+
+      const progress = await invitationService.getCampaignProgress('wedding-1', 'campaign-1');
+
+      expect(progress).toMatchObject({ sent: 0, pending: 1, completed: false });
+      expect(progress.results[0].status).toBe('pending');
+    });
+  });
+
+  describe('household emailing', () => {
+    // guest-1 is the contact; guest-2 has no email; guest-3 has their own
+    const household = [
+      createMockGuest({ id: 'guest-1', name: 'Jane Doe', email: 'jane@example.com', householdId: 'household-1' }),
+      createMockGuest({ id: 'guest-2', name: 'Jim Doe', email: undefined, householdId: 'household-1' }),
+      createMockGuest({ id: 'guest-3', name: 'Jo Doe', email: 'jo@example.com', householdId: 'household-1' }),
+    ];
+    const contact = household[0];
+    const solo = createMockGuest({ id: 'guest-4', email: 'solo@example.com' });
+
+    beforeEach(() => {
+      guestService.getGuest.mockImplementation(async (guestId: string) =>
+        household.find((guest) => guest.id === guestId) ?? null,
+      );
+      guestService.getHouseholdContact.mockResolvedValue(contact);
+      // Household members share the contact's RSVP token
+      guestService.regenerateRsvpToken.mockImplementation(async (guestId: string) => {
+        const guest = [...household, solo].find((member) => member.id === guestId);
+        return { guest: guest?.householdId ? contact : guest, rawToken: `token-${guestId}` };
+      });
+    });
+
+    it("should email a member without an address once, through their contact's email", async () => {
+      tables.email_campaigns.push(createCampaignRow({ total: 2 }));
+
+      const forMember = await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-2');
+      const forContact = await invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', 'guest-1');
+
+      expect(forMember).toMatchObject({ toEmail: 'jane@example.com' });
+      expect(forContact).toBeNull();
+      expect(tables.email_outbox).toHaveLength(1);
+      expect(emailService.buildSaveTheDateEmail).toHaveBeenCalledTimes(1);
+
+      // Both guests are reached by the one email, so neither is left pending
+      tables.email_outbox[0].status = 'sent';
+      const progress = await invitationService.getCampaignProgress('wedding-1', 'campaign-1');
+      expect(progress).toMatchObject({ sent: 2, failed: 0, pending: 0, completed: true });
+    });
+
+    it('should send the invitation for every member to the contact', async () => {
+      tables.email_campaigns.push(createCampaignRow({ email_type: 'invitation', total: 3 }));
+
+      const prepared = await Promise.all(
+        household.map((guest) => invitationService.prepareCampaignEmail('wedding-1', 'campaign-1', guest.id)),
+      );
+
+      expect(prepared.filter(Boolean)).toEqual([expect.objectContaining({ toEmail: 'jane@example.com' })]);
+      expect(tables.email_outbox).toEqual([expect.objectContaining({ guest_id: 'guest-1' })]);
+      expect(guestService.regenerateRsvpToken).toHaveBeenCalledTimes(1);
+      expect(tables.email_campaign_recipients.map((row) => row.outbox_id)).toEqual(
+        Array(3).fill(tables.email_outbox[0].id),
+      );
+    });
+
+    it('should remind each household once, at its contact', async () => {
+      guestService.getGuestsForWedding.mockResolvedValue([
+        household[1],
+        household[2],
+        solo,
+        household[0],
+      ]);
+
+      const response = await invitationService.enqueueReminders('wedding-1');
+
+      const queuedJobs = reminderQueueService.enqueueReminders.mock.calls[0][0] as Array<{ guestId: string; toEmail: string }>;
+      expect(queuedJobs.map((job) => [job.guestId, job.toEmail])).toEqual([
+        ['guest-1', 'jane@example.com'],
+        ['guest-4', 'solo@example.com'],
+      ]);
+      expect(response.guestIds).toEqual(['guest-2', 'guest-3', 'guest-4', 'guest-1']);
+    });
+  });
+});
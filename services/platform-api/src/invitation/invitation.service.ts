@@ -1,87 +1,289 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { randomBytes } from 'crypto';
+import type { EmailAttachment } from '@wedding-bestie/email';
+import {
+  getSupabaseClient,
+  DbEmailCampaign,
+  DbEmailCampaignRecipient,
+  DbEmailOutbox,
+  DbScheduledEmail,
+} from '../utils/supabase';
 import type {
   BounceType,
+  CampaignEmailType,
+  DeadLetterJobData,
+  DeadLetteredEmail,
+  EmailCampaignProgress,
+  EmailCampaignRecipientResult,
+  EmailCampaignRecipientStatus,
+  EmailCampaignJobData,
+  EmailCampaignStartedResponse,
+  EmailEngagementEvent,
+  EmailMergeDetails,
   EmailOutbox,
   EmailStatus,
   EmailStatistics,
+  EmailSuppressionReason,
+  EmailTemplateContent,
+  EmailTemplateType,
   EmailType,
+  EmailableGuest,
   Guest,
   ReminderJobData,
+  RsvpGuestView,
+  RsvpNotificationJobData,
   Wedding,
-  SendInvitationResult,
+  PreparedCampaignEmail,
+  PreviewEmailTemplateResponse,
   SendRemindersResponse,
-  SendSaveTheDateResult,
-  SendThankYouResult,
+  SuppressedRecipient,
   ScheduledEmail,
   ScheduledEmailJobData,
+  ScheduledEmailStatus,
   ScheduleEmailResponse,
+  SupportedLanguage,
+  Theme,
 } from '../types';
 import {
+  CAMPAIGN_EMAIL_QUEUE_NAME,
+  DEAD_LETTER_JOB_NOT_FOUND,
+  EMAIL_CAMPAIGN_NOT_FOUND,
+  EMAIL_CAMPAIGN_QUEUE_FAILED,
   REMINDER_QUEUE_FAILED,
   SCHEDULED_EMAIL_NOT_FOUND,
   SCHEDULED_EMAIL_ALREADY_SENT,
   INVALID_SCHEDULE_TIME,
+  REMINDER_QUEUE_NAME,
+  SCHEDULED_EMAIL_QUEUE_NAME,
+  SEGMENT_NOT_FOUND,
 } from '../types';
 import { EmailService } from './email.service';
 import { ReminderQueueService } from './reminder-queue.service';
 import { ScheduledEmailQueueService } from './scheduled-email-queue.service';
+import { RsvpNotificationQueueService } from './rsvp-notification-queue.service';
+import { CampaignEmailQueueService } from './campaign-email-queue.service';
+import { DeadLetterQueueService } from './dead-letter-queue.service';
+import { EmailSuppressionService } from './email-suppression.service';
 import { GuestService } from '../guest/guest.service';
+import { SeatingService } from '../seating/seating.service';
+import { SegmentService } from '../guest/segment.service';
 import { WeddingService } from '../wedding/wedding.service';
+import { reminderSendTimes } from '../utils/rsvp-deadline';
+import { getWeddingTimeZone, parseScheduledTime } from '../utils/wedding-time-zone';
+import { buildEmailStatistics } from '../utils/email-statistics';
+import { getCalendarEvents } from '../utils/ics';
+import { describeSuppression, isEssentialEmail, normalizeEmail } from '../utils/email-suppression';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Campaign view of an outbox status: delivered counts as sent, bounced as failed
+ */
+function campaignRecipientStatus(status: EmailStatus): EmailCampaignRecipientStatus {
+  switch (status) {
+    case 'sent':
+    case 'delivered':
+      return 'sent';
+    case 'failed':
+    case 'bounced':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Summarize a dead-lettered job for the couple
+ */
+function toDeadLetteredEmail(id: string, job: DeadLetterJobData): DeadLetteredEmail {
+  const base = {
+    id,
+    queueName: job.queueName,
+    failedReason: job.failedReason,
+    attemptsMade: job.attemptsMade,
+    failedAt: job.failedAt,
+  };
+
+  switch (job.queueName) {
+    case SCHEDULED_EMAIL_QUEUE_NAME: {
+      const data = job.data as ScheduledEmailJobData;
+      return { ...base, emailType: data.emailType, guestCount: data.guestIds.length };
+    }
+    case CAMPAIGN_EMAIL_QUEUE_NAME: {
+      // Only known once the worker has prepared the email
+      const data = job.data as EmailCampaignJobData & { prepared?: PreparedCampaignEmail };
+      return {
+        ...base,
+        emailType: data.emailType,
+        toEmail: data.prepared?.toEmail,
+        toName: data.prepared?.toName,
+        subject: data.prepared?.subject,
+      };
+    }
+    case REMINDER_QUEUE_NAME: {
+      const data = job.data as ReminderJobData;
+      return {
+        ...base,
+        emailType: 'reminder',
+        toEmail: data.toEmail,
+        toName: data.toName,
+        subject: data.subject,
+      };
+    }
+    default: {
+      const data = job.data as RsvpNotificationJobData;
+      return {
+        ...base,
+        // Guest confirmations have an outbox record; couple notifications do not
+        emailType: data.outboxId ? 'rsvp_confirmation' : 'rsvp_notification',
+        toEmail: data.toEmail,
+        toName: data.toName,
+        subject: data.subject,
+      };
+    }
+  }
+}
 
 @Injectable()
 export class InvitationService {
   private readonly logger = new Logger(InvitationService.name);
 
-  // In-memory store for email_outbox (development mode)
-  private emailOutbox: Map<string, EmailOutbox> = new Map();
-
-  // In-memory store for scheduled emails (development mode)
-  private scheduledEmails: Map<string, ScheduledEmail> = new Map();
-
   constructor(
     private readonly emailService: EmailService,
     private readonly reminderQueueService: ReminderQueueService,
     private readonly scheduledEmailQueueService: ScheduledEmailQueueService,
+    private readonly rsvpNotificationQueueService: RsvpNotificationQueueService,
+    private readonly campaignEmailQueueService: CampaignEmailQueueService,
+    private readonly deadLetterQueueService: DeadLetterQueueService,
+    private readonly emailSuppressionService: EmailSuppressionService,
     private readonly guestService: GuestService,
+    private readonly segmentService: SegmentService,
+    private readonly seatingService: SeatingService,
     private readonly weddingService: WeddingService,
   ) {}
 
+  /**
+   * Convert database outbox row to API type
+   */
+  private dbOutboxToOutbox(db: DbEmailOutbox): EmailOutbox {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      guestId: db.guest_id,
+      emailType: db.email_type as EmailType,
+      status: db.status as EmailStatus,
+      toEmail: db.to_email,
+      toName: db.to_name,
+      subject: db.subject,
+      sentAt: db.sent_at ?? undefined,
+      deliveredAt: db.delivered_at ?? undefined,
+      bouncedAt: db.bounced_at ?? undefined,
+      bounceType: (db.bounce_type as BounceType | null) ?? undefined,
+      bounceReason: db.bounce_reason ?? undefined,
+      errorMessage: db.error_message ?? undefined,
+      messageId: db.message_id ?? undefined,
+      attempts: db.attempts,
+      campaignId: db.campaign_id ?? undefined,
+      openedAt: db.opened_at ?? undefined,
+      openCount: db.open_count ?? 0,
+      clickedAt: db.clicked_at ?? undefined,
+      clickCount: db.click_count ?? 0,
+      spamReportedAt: db.spam_reported_at ?? undefined,
+      unsubscribedAt: db.unsubscribed_at ?? undefined,
+      createdAt: db.created_at,
+      updatedAt: db.updated_at,
+    };
+  }
+
+  /**
+   * Convert database scheduled email row to API type
+   */
+  private dbScheduledToScheduled(db: DbScheduledEmail): ScheduledEmail {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      guestIds: db.guest_ids,
+      segmentId: db.segment_id ?? undefined,
+      emailType: db.email_type as EmailType,
+      scheduledAt: db.scheduled_at,
+      status: db.status as ScheduledEmailStatus,
+      jobId: db.job_id ?? undefined,
+      results: db.results ?? undefined,
+      automatic: db.automatic,
+      campaignId: db.campaign_id ?? undefined,
+      createdAt: db.created_at,
+      updatedAt: db.updated_at,
+    };
+  }
+
+  /**
+   * Guest details for merge fields that the guest record does not carry
+   */
+  private async getMergeDetails(guest: Guest, wedding: Wedding): Promise<EmailMergeDetails> {
+    const tableAssignments = await this.seatingService.getGuestTableAssignments(
+      guest.id,
+      wedding.eventDetails?.events ?? [],
+    );
+    return { tableAssignments };
+  }
+
+  /**
+   * Resolve who receives emails for a guest
+   * Household members without an email are reached through their household contact.
+   * Returns null if nobody can be emailed.
+   */
+  private async resolveRecipient(guest: Guest): Promise<EmailableGuest | null> {
+    if (guest.email) {
+      return { ...guest, email: guest.email };
+    }
+    if (!guest.householdId) {
+      return null;
+    }
+
+    const contact = await this.guestService.getHouseholdContact(guest.householdId);
+    return contact?.email ? { ...contact, email: contact.email } : null;
+  }
+
   /**
    * Create an email outbox record
    */
-  private createOutboxRecord(
-    guest: Guest,
+  private async createOutboxRecord(
+    guest: EmailableGuest,
     wedding: Wedding,
     subject: string,
     emailType: EmailType,
-  ): EmailOutbox {
-    const now = new Date().toISOString();
-    const id = randomBytes(16).toString('hex');
-
-    const record: EmailOutbox = {
-      id,
-      weddingId: wedding.id,
-      guestId: guest.id,
-      emailType,
-      status: 'pending',
-      toEmail: guest.email,
-      toName: guest.name,
-      subject,
-      attempts: 0,
-      createdAt: now,
-      updatedAt: now,
-    };
+    scheduledEmailId?: string,
+  ): Promise<EmailOutbox> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .insert({
+        wedding_id: wedding.id,
+        guest_id: guest.id,
+        email_type: emailType,
+        status: 'pending',
+        to_email: guest.email,
+        to_name: guest.name,
+        subject,
+        attempts: 0,
+        scheduled_email_id: scheduledEmailId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create outbox record for guest ${guest.id}`, error);
+      throw new Error('Failed to create outbox record');
+    }
 
-    this.emailOutbox.set(id, record);
-    return record;
+    return this.dbOutboxToOutbox(data as DbEmailOutbox);
   }
 
   /**
    * Update an email outbox record status
    */
-  private updateOutboxStatus(
-    recordId: string,
+  private async updateOutboxStatus(
+    record: EmailOutbox,
     status: EmailStatus,
     options?: {
       errorMessage?: string;
@@ -89,47 +291,72 @@ export class InvitationService {
       bounceType?: BounceType;
       bounceReason?: string;
     },
-  ): void {
-    const record = this.emailOutbox.get(recordId);
-    if (!record) return;
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const now = new Date().toISOString();
 
-    record.status = status;
-    record.attempts += 1;
-    record.updatedAt = new Date().toISOString();
+    const changes: Partial<DbEmailOutbox> = {
+      status,
+      attempts: record.attempts + 1,
+      updated_at: now,
+    };
 
     if (status === 'sent') {
-      record.sentAt = new Date().toISOString();
+      changes.sent_at = now;
     }
 
     if (status === 'delivered') {
-      record.deliveredAt = new Date().toISOString();
+      changes.delivered_at = now;
     }
 
     if (status === 'bounced') {
-      record.bouncedAt = new Date().toISOString();
+      changes.bounced_at = now;
       if (options?.bounceType) {
-        record.bounceType = options.bounceType;
+        changes.bounce_type = options.bounceType;
       }
       if (options?.bounceReason) {
-        record.bounceReason = options.bounceReason;
+        changes.bounce_reason = options.bounceReason;
       }
     }
 
     if (options?.errorMessage) {
-      record.errorMessage = options.errorMessage;
+      changes.error_message = options.errorMessage;
     }
 
     if (options?.messageId) {
-      record.messageId = options.messageId;
+      changes.message_id = options.messageId;
+    }
+
+    const { error } = await supabase
+      .from('email_outbox')
+      .update(changes)
+      .eq('id', record.id);
+
+    if (error) {
+      this.logger.error(`Failed to update outbox record ${record.id}`, error);
     }
+  }
+
+  /**
+   * Get a single outbox record by ID
+   */
+  private async getOutboxRecord(recordId: string): Promise<EmailOutbox | null> {
+    const supabase = getSupabaseClient();
 
-    this.emailOutbox.set(recordId, record);
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('id', recordId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbOutboxToOutbox(data as DbEmailOutbox);
   }
 
   /**
    * Update an outbox record status by ID for a wedding
    */
-  updateOutboxRecord(
+  async updateOutboxRecord(
     weddingId: string,
     recordId: string,
     status: EmailStatus,
@@ -139,223 +366,165 @@ export class InvitationService {
       bounceType?: BounceType;
       bounceReason?: string;
     },
-  ): boolean {
-    const record = this.emailOutbox.get(recordId);
+  ): Promise<boolean> {
+    const record = await this.getOutboxRecord(recordId);
     if (!record || record.weddingId !== weddingId) {
       return false;
     }
 
-    this.updateOutboxStatus(recordId, status, options);
+    await this.updateOutboxStatus(record, status, options);
+
+    // Queued invitations count as sent once the worker has handed them over
+    if (status === 'sent' && record.emailType === 'invitation') {
+      await this.guestService.markInviteSent(record.guestId);
+    }
     return true;
   }
 
   /**
    * Find an outbox record by SendGrid message ID
    */
-  findOutboxByMessageId(messageId: string): EmailOutbox | undefined {
-    for (const record of this.emailOutbox.values()) {
-      if (record.messageId === messageId) {
-        return record;
-      }
-    }
-    return undefined;
+  async findOutboxByMessageId(messageId: string): Promise<EmailOutbox | undefined> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('message_id', messageId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return this.dbOutboxToOutbox(data as DbEmailOutbox);
   }
 
   /**
    * Update outbox status by SendGrid message ID (for webhook events)
    */
-  updateOutboxByMessageId(
+  async updateOutboxByMessageId(
     messageId: string,
     status: EmailStatus,
     options?: {
       bounceType?: BounceType;
       bounceReason?: string;
     },
-  ): boolean {
-    const record = this.findOutboxByMessageId(messageId);
+  ): Promise<boolean> {
+    const record = await this.findOutboxByMessageId(messageId);
     if (!record) {
       return false;
     }
 
-    this.updateOutboxStatus(record.id, status, options);
+    await this.updateOutboxStatus(record, status, options);
     this.logger.log(
       `Updated outbox ${record.id} status to ${status} via webhook (messageId: ${messageId})`,
     );
-    return true;
-  }
 
-  /**
-   * Update guest's inviteSentAt timestamp
-   */
-  private async markGuestInviteSent(guestId: string): Promise<void> {
-    const guest = this.guestService.getGuest(guestId);
-    if (guest) {
-      // Update the guest record with invite sent timestamp
-      await this.guestService.updateGuest(guestId, {});
-      // The GuestService doesn't have a direct way to set inviteSentAt,
-      // so we'll track it via the outbox record for now
+    // The address does not exist; stop mailing it until the couple fixes it
+    if (status === 'bounced' && options?.bounceType === 'hard') {
+      await this.emailSuppressionService.suppress(
+        record.weddingId,
+        record.toEmail,
+        'hard_bounce',
+        options.bounceReason,
+      );
     }
+
+    return true;
   }
 
   /**
-   * Send invitations to selected guests
-   * PRD: "Admin can send invitation emails"
-   * PRD: "Email design matches wedding theme"
+   * Record an open, click, spam report or unsubscribe by SendGrid message ID
+   * (for webhook events). First opens and clicks keep their timestamp; repeats
+   * only add to the counts. An open or click also proves delivery, so a record
+   * still marked sent (delivered event not in yet) becomes delivered.
    */
-  async sendInvitations(
-    weddingId: string,
-    guestIds: string[],
-  ): Promise<{
-    sent: number;
-    failed: number;
-    total: number;
-    results: SendInvitationResult[];
-  }> {
-    const wedding = await this.weddingService.getWedding(weddingId);
-    if (!wedding) {
-      throw new Error('WEDDING_NOT_FOUND');
+  async recordOutboxEngagement(
+    messageId: string,
+    event: EmailEngagementEvent,
+    occurredAt: string,
+  ): Promise<boolean> {
+    const record = await this.findOutboxByMessageId(messageId);
+    if (!record) {
+      return false;
     }
 
-    // Get the theme from render_config so emails match the wedding site
-    const renderConfig = await this.weddingService.getRenderConfig(weddingId);
-    const theme = renderConfig?.theme;
-
-    const results: SendInvitationResult[] = [];
-    let sent = 0;
-    let failed = 0;
-
-    for (const guestId of guestIds) {
-      const guest = this.guestService.getGuest(guestId);
-
-      if (!guest) {
-        results.push({
-          guestId,
-          guestName: 'Unknown',
-          email: 'Unknown',
-          success: false,
-          error: 'Guest not found',
-        });
-        failed++;
-        continue;
-      }
+    const changes: Partial<DbEmailOutbox> = {
+      updated_at: new Date().toISOString(),
+    };
+    const earliest = (current: string | undefined) =>
+      current && current < occurredAt ? current : occurredAt;
+
+    switch (event) {
+      case 'open':
+        changes.opened_at = earliest(record.openedAt);
+        changes.open_count = record.openCount + 1;
+        break;
+      case 'click':
+        // Image blocking hides many opens; a click means the email was opened
+        changes.opened_at = earliest(record.openedAt);
+        changes.clicked_at = earliest(record.clickedAt);
+        changes.click_count = record.clickCount + 1;
+        break;
+      case 'spamreport':
+        changes.spam_reported_at = record.spamReportedAt ?? occurredAt;
+        break;
+      case 'unsubscribe':
+        changes.unsubscribed_at = record.unsubscribedAt ?? occurredAt;
+        break;
+    }
 
-      if (guest.weddingId !== weddingId) {
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: 'Guest does not belong to this wedding',
-        });
-        failed++;
-        continue;
-      }
+    if ((event === 'open' || event === 'click') && record.status === 'sent') {
+      changes.status = 'delivered';
+      changes.delivered_at = occurredAt;
+    }
 
-      // Regenerate RSVP token for security - old links are invalidated
-      // The raw token is only available during this request cycle
-      // Pass event date for token expiry capping
-      let tokenResult: { guest: any; rawToken: string } | null;
-      try {
-        tokenResult = this.guestService.regenerateRsvpToken(guestId, wedding.eventDetails?.date);
-      } catch (error) {
-        if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
-          results.push({
-            guestId,
-            guestName: guest.name,
-            email: guest.email,
-            success: false,
-            error: 'Cannot send invitations for past events',
-          });
-          failed++;
-          continue;
-        }
-        throw error;
-      }
-      if (!tokenResult) {
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: 'Failed to generate RSVP token',
-        });
-        failed++;
-        continue;
-      }
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('email_outbox')
+      .update(changes)
+      .eq('id', record.id);
 
-      // Build invitation email with the new raw token
-      // PRD: "Email design matches wedding theme" - pass theme for branded emails
-      const emailContent = this.emailService.buildInvitationEmail(
-        tokenResult.guest,
-        wedding,
-        tokenResult.rawToken,
-        theme,
-      );
+    if (error) {
+      this.logger.error(`Failed to record ${event} for outbox record ${record.id}`, error);
+      return false;
+    }
 
-      // Create outbox record (tracks email)
-      const outboxRecord = this.createOutboxRecord(
-        tokenResult.guest,
-        wedding,
-        emailContent.subject,
-        'invitation',
+    if (event === 'spamreport' || event === 'unsubscribe') {
+      await this.emailSuppressionService.suppress(
+        record.weddingId,
+        record.toEmail,
+        event === 'spamreport' ? 'spam_report' : 'unsubscribed',
       );
-
-      // Send the email
-      const sendResult = await this.emailService.sendEmail(emailContent);
-
-      if (sendResult.success) {
-        this.updateOutboxStatus(outboxRecord.id, 'sent', {
-          messageId: sendResult.messageId,
-        });
-        await this.markGuestInviteSent(guestId);
-
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: true,
-        });
-        sent++;
-
-        this.logger.log(`Invitation sent to ${guest.name} <${guest.email}>`);
-      } else {
-        this.updateOutboxStatus(outboxRecord.id, 'failed', {
-          errorMessage: sendResult.error,
-        });
-
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: sendResult.error || 'Failed to send email',
-        });
-        failed++;
-
-        this.logger.warn(`Failed to send invitation to ${guest.email}: ${sendResult.error}`);
-      }
     }
 
-    this.logger.log(
-      `Invitation batch for wedding ${weddingId}: ${sent} sent, ${failed} failed`,
-    );
+    return true;
+  }
 
-    return {
-      sent,
-      failed,
-      total: guestIds.length,
-      results,
-    };
+  /**
+   * Send invitations to selected guests
+   * PRD: "Admin can send invitation emails"
+   * PRD: "Email design matches wedding theme"
+   */
+  async sendInvitations(
+    weddingId: string,
+    guestIds: string[],
+  ): Promise<EmailCampaignStartedResponse> {
+    return this.startCampaign(weddingId, 'invitation', guestIds);
   }
 
   /**
    * Enqueue reminder emails for pending guests
    * PRD: "Reminder emails are sent via worker queue"
    * PRD: "Email design matches wedding theme"
+   * @param invitedOnly skip guests who were never sent an invitation
+   * @param scheduledEmailId the scheduled send these reminders are for; recipients
+   * it already reached are skipped (and counted as queued), so a retry resumes it
    */
   async enqueueReminders(
     weddingId: string,
     guestIds?: string[],
+    invitedOnly = false,
+    scheduledEmailId?: string,
   ): Promise<SendRemindersResponse> {
     const wedding = await this.weddingService.getWedding(weddingId);
     if (!wedding) {
@@ -370,9 +539,9 @@ export class InvitationService {
     const renderConfig = await this.weddingService.getRenderConfig(weddingId);
     const theme = renderConfig?.theme;
 
-    let guests = this.guestService
-      .getGuestsForWedding(weddingId)
-      .filter((guest) => guest.rsvpStatus === 'pending');
+    let guests = (await this.guestService.getGuestsForWedding(weddingId))
+      .filter((guest) => guest.rsvpStatus === 'pending')
+      .filter((guest) => !invitedOnly || !!guest.inviteSentAt);
 
     if (guestIds && guestIds.length > 0) {
       const allowed = new Set(guestIds);
@@ -380,53 +549,65 @@ export class InvitationService {
     }
 
     if (guests.length === 0) {
-      return { queued: 0, total: 0, guestIds: [], jobIds: [] };
+      return { queued: 0, total: 0, guestIds: [], jobIds: [], suppressed: [] };
     }
 
     const jobs: ReminderJobData[] = [];
+    const outboxRecords: EmailOutbox[] = [];
+    const suppressed: SuppressedRecipient[] = [];
+    const suppressions = await this.emailSuppressionService.getBlockingSuppressions(
+      weddingId,
+      isEssentialEmail('reminder'),
+    );
+    const alreadyReminded = scheduledEmailId
+      ? await this.getScheduledReminderRecipients(scheduledEmailId)
+      : new Set<string>();
+    // Each household gets a single reminder, addressed to its contact
+    const remindedHouseholds = new Set<string>();
 
-    for (const guest of guests) {
-      // Regenerate RSVP token for security - old links are invalidated
-      // Pass event date for token expiry capping
-      let tokenResult: { guest: any; rawToken: string } | null;
-      try {
-        tokenResult = this.guestService.regenerateRsvpToken(guest.id, wedding.eventDetails?.date);
-      } catch (error) {
-        if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
-          this.logger.warn(`Cannot send reminder for guest ${guest.id} - event expired`);
+    try {
+      for (const guest of guests) {
+        if (guest.householdId) {
+          if (remindedHouseholds.has(guest.householdId)) {
+            continue;
+          }
+          remindedHouseholds.add(guest.householdId);
+        }
+
+        // Checked before a new token is issued, so a suppressed guest's RSVP link keeps working
+        const addressee = guest.householdId
+          ? await this.guestService.getHouseholdContact(guest.householdId)
+          : guest;
+        if (addressee && alreadyReminded.has(addressee.id)) {
+          continue;
+        }
+        const suppression = addressee?.email
+          ? suppressions.get(normalizeEmail(addressee.email))
+          : undefined;
+        if (suppression) {
+          suppressed.push({
+            guestId: guest.id,
+            guestName: guest.name,
+            email: suppression.email,
+            reason: suppression.reason,
+          });
+          continue;
+        }
+
+        const built = await this.buildReminderJob(guest, wedding, theme, undefined, scheduledEmailId);
+        if (!built) {
           continue;
         }
-        throw error;
+        jobs.push(built.job);
+        outboxRecords.push(built.outboxRecord);
       }
-      if (!tokenResult) {
-        this.logger.warn(`Failed to regenerate token for guest ${guest.id}`);
-        continue;
+    } catch (error) {
+      // Nothing was queued yet: fail the records so a retry reminds these guests again
+      const errMsg = error instanceof Error ? error.message : 'Unknown error';
+      for (const record of outboxRecords) {
+        await this.updateOutboxStatus(record, 'failed', { errorMessage: errMsg });
       }
-
-      // PRD: "Email design matches wedding theme" - pass theme for branded emails
-      const emailContent = this.emailService.buildReminderEmail(
-        tokenResult.guest,
-        wedding,
-        tokenResult.rawToken,
-        theme,
-      );
-      const outboxRecord = this.createOutboxRecord(
-        tokenResult.guest,
-        wedding,
-        emailContent.subject,
-        'reminder',
-      );
-
-      jobs.push({
-        outboxId: outboxRecord.id,
-        weddingId: wedding.id,
-        guestId: guest.id,
-        toEmail: emailContent.to,
-        toName: emailContent.toName,
-        subject: emailContent.subject,
-        htmlBody: emailContent.htmlBody,
-        textBody: emailContent.textBody,
-      });
+      throw error;
     }
 
     try {
@@ -435,134 +616,267 @@ export class InvitationService {
         `Queued ${jobIds.length} reminder(s) for wedding ${weddingId}.`,
       );
       return {
-        queued: jobIds.length,
-        total: jobs.length,
+        queued: jobIds.length + alreadyReminded.size,
+        total: jobs.length + alreadyReminded.size,
         guestIds: guests.map((guest) => guest.id),
         jobIds,
+        suppressed,
       };
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Queue error';
-      for (const job of jobs) {
-        this.updateOutboxStatus(job.outboxId, 'failed', { errorMessage: errMsg });
+      for (const record of outboxRecords) {
+        await this.updateOutboxStatus(record, 'failed', { errorMessage: errMsg });
       }
       throw new Error(REMINDER_QUEUE_FAILED);
     }
   }
 
   /**
-   * Send save-the-date emails to selected guests
-   * PRD: "Admin can send save-the-date emails"
-   * PRD: "Save-the-date uses different template than invitation"
+   * Guests a scheduled reminder send has already queued a reminder for
+   * Reminders that failed are left out, so a retry sends them again.
    */
-  async sendSaveTheDates(
-    weddingId: string,
-    guestIds: string[],
-  ): Promise<{
-    sent: number;
-    failed: number;
-    total: number;
-    results: SendSaveTheDateResult[];
-  }> {
-    const wedding = await this.weddingService.getWedding(weddingId);
-    if (!wedding) {
-      throw new Error('WEDDING_NOT_FOUND');
+  private async getScheduledReminderRecipients(scheduledEmailId: string): Promise<Set<string>> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('guest_id')
+      .eq('scheduled_email_id', scheduledEmailId)
+      .neq('status', 'failed');
+
+    if (error) {
+      this.logger.error(`Failed to read reminders of scheduled email ${scheduledEmailId}`, error);
+      throw new Error('Failed to read scheduled reminders');
     }
 
-    // Get the theme from render_config so emails match the wedding site
-    const renderConfig = await this.weddingService.getRenderConfig(weddingId);
-    const theme = renderConfig?.theme;
-
-    const results: SendSaveTheDateResult[] = [];
-    let sent = 0;
-    let failed = 0;
-
-    for (const guestId of guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+    return new Set((data ?? []).map((row) => (row as Pick<DbEmailOutbox, 'guest_id'>).guest_id));
+  }
 
-      if (!guest) {
-        results.push({
-          guestId,
-          guestName: 'Unknown',
-          email: 'Unknown',
-          success: false,
-          error: 'Guest not found',
-        });
-        failed++;
-        continue;
+  /**
+   * Build a reminder job for a guest with a freshly issued RSVP token.
+   * Reuses `existingRecord` when re-enqueueing a reminder whose job was lost;
+   * otherwise creates a new outbox record.
+   * Returns null if no token can be issued for the guest.
+   */
+  private async buildReminderJob(
+    guest: Guest,
+    wedding: Wedding,
+    theme: Theme | undefined,
+    existingRecord?: EmailOutbox,
+    scheduledEmailId?: string,
+  ): Promise<{ job: ReminderJobData; outboxRecord: EmailOutbox } | null> {
+    // Regenerate RSVP token for security - old links are invalidated
+    // Pass event date for token expiry capping
+    // Household members are reminded through the contact, who holds the shared token
+    let tokenResult: { guest: Guest; rawToken: string } | null;
+    try {
+      tokenResult = await this.guestService.regenerateRsvpToken(
+        guest.id,
+        wedding.eventDetails?.date,
+        getWeddingTimeZone(wedding),
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
+        this.logger.warn(`Cannot send reminder for guest ${guest.id} - event expired`);
+        return null;
       }
+      throw error;
+    }
+    if (!tokenResult) {
+      this.logger.warn(`Failed to regenerate token for guest ${guest.id}`);
+      return null;
+    }
 
-      if (guest.weddingId !== weddingId) {
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: 'Guest does not belong to this wedding',
-        });
-        failed++;
-        continue;
-      }
+    const recipient = tokenResult.guest;
+    if (!recipient.email) {
+      this.logger.warn(`Cannot send reminder for guest ${guest.id} - no email address`);
+      return null;
+    }
+    const emailableRecipient: EmailableGuest = { ...recipient, email: recipient.email };
 
-      // Build save-the-date email (no RSVP link per PRD)
-      const emailContent = this.emailService.buildSaveTheDateEmail(
-        guest,
+    // PRD: "Email design matches wedding theme" - pass theme for branded emails
+    const emailContent = this.emailService.addUnsubscribeLink(
+      this.emailService.buildReminderEmail(
+        emailableRecipient,
         wedding,
+        tokenResult.rawToken,
         theme,
-      );
+        await this.getMergeDetails(emailableRecipient, wedding),
+      ),
+      this.emailSuppressionService.getUnsubscribeUrl(wedding.id, emailableRecipient.email),
+      emailableRecipient,
+      wedding,
+    );
+    const outboxRecord = existingRecord ?? await this.createOutboxRecord(
+      emailableRecipient,
+      wedding,
+      emailContent.subject,
+      'reminder',
+      scheduledEmailId,
+    );
 
-      // Create outbox record
-      const outboxRecord = this.createOutboxRecord(
-        guest,
-        wedding,
-        emailContent.subject,
-        'save_the_date',
-      );
+    return {
+      outboxRecord,
+      job: {
+        outboxId: outboxRecord.id,
+        weddingId: wedding.id,
+        guestId: recipient.id,
+        toEmail: emailContent.to,
+        toName: emailContent.toName,
+        subject: emailContent.subject,
+        htmlBody: emailContent.htmlBody,
+        textBody: emailContent.textBody,
+        headers: this.emailSuppressionService.getUnsubscribeHeaders(wedding.id, emailableRecipient.email),
+        attachments: emailContent.attachments,
+      },
+    };
+  }
 
-      // Send the email
-      const sendResult = await this.emailService.sendEmail(emailContent);
+  /**
+   * Queue an RSVP confirmation for the guest who just submitted.
+   * The link reuses the raw token from the submission, so the guest's
+   * existing RSVP link keeps working.
+   * Returns null when the guest's address is suppressed.
+   */
+  async queueRsvpConfirmation(
+    recipient: EmailableGuest,
+    wedding: Wedding,
+    responders: RsvpGuestView[],
+    rawToken: string,
+  ): Promise<EmailOutbox | null> {
+    const suppression = await this.emailSuppressionService.findSuppression(
+      wedding.id,
+      recipient.email,
+      isEssentialEmail('rsvp_confirmation'),
+    );
+    if (suppression) {
+      this.logger.log(`Skipping RSVP confirmation for guest ${recipient.id}: ${describeSuppression(suppression.reason)}`);
+      return null;
+    }
 
-      if (sendResult.success) {
-        this.updateOutboxStatus(outboxRecord.id, 'sent', {
-          messageId: sendResult.messageId,
-        });
+    const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
+    const emailContent = this.emailService.buildRsvpConfirmationEmail(
+      recipient,
+      wedding,
+      responders,
+      rawToken,
+      renderConfig?.theme,
+    );
 
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: true,
-        });
-        sent++;
+    const outboxRecord = await this.createOutboxRecord(
+      recipient,
+      wedding,
+      emailContent.subject,
+      'rsvp_confirmation',
+    );
 
-        this.logger.log(`Save-the-date sent to ${guest.name} <${guest.email}>`);
-      } else {
-        this.updateOutboxStatus(outboxRecord.id, 'failed', {
-          errorMessage: sendResult.error,
-        });
+    try {
+      await this.rsvpNotificationQueueService.enqueue([
+        {
+          outboxId: outboxRecord.id,
+          weddingId: wedding.id,
+          toEmail: emailContent.to,
+          toName: emailContent.toName,
+          subject: emailContent.subject,
+          htmlBody: emailContent.htmlBody,
+          textBody: emailContent.textBody,
+        },
+      ]);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'Queue error';
+      await this.updateOutboxStatus(outboxRecord, 'failed', { errorMessage: errMsg });
+      throw error;
+    }
 
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: sendResult.error || 'Failed to send email',
-        });
-        failed++;
+    return outboxRecord;
+  }
 
-        this.logger.warn(`Failed to send save-the-date to ${guest.email}: ${sendResult.error}`);
-      }
+  /**
+   * Take events removed from the wedding out of guests' calendars
+   * Guests whose invitation carried a calendar invite for a removed event get a
+   * short update with a CANCEL for it. Returns how many updates were queued.
+   * @param previous The wedding before its event details changed
+   * @param current The wedding after the change
+   */
+  async queueCalendarCancellations(previous: Wedding, current: Wedding): Promise<number> {
+    if (!previous.features.CALENDAR_INVITE) {
+      return 0;
     }
 
-    this.logger.log(
-      `Save-the-date batch for wedding ${weddingId}: ${sent} sent, ${failed} failed`,
+    const remaining = new Set(getCalendarEvents(current, '', '').map((event) => event.id));
+    const removedEventIds = getCalendarEvents(previous, '', '')
+      .map((event) => event.id)
+      .filter((eventId) => !remaining.has(eventId));
+    if (removedEventIds.length === 0) {
+      return 0;
+    }
+
+    const renderConfig = await this.weddingService.getRenderConfig(previous.id);
+    const suppressions = await this.emailSuppressionService.getBlockingSuppressions(
+      previous.id,
+      isEssentialEmail('update'),
     );
 
-    return {
-      sent,
-      failed,
-      total: guestIds.length,
-      results,
-    };
+    const jobs: RsvpNotificationJobData[] = [];
+    const outboxRecords: EmailOutbox[] = [];
+    for (const guest of await this.guestService.getGuestsForWedding(previous.id)) {
+      // Calendar invites went out with invitations, which reach guests with their own address
+      if (!guest.inviteSentAt || !guest.email || suppressions.has(normalizeEmail(guest.email))) {
+        continue;
+      }
+      const recipient: EmailableGuest = { ...guest, email: guest.email };
+      const emailContent = this.emailService.buildCalendarCancellationEmail(
+        recipient,
+        previous,
+        removedEventIds,
+        renderConfig?.theme,
+      );
+      if (!emailContent) {
+        continue;
+      }
+
+      const outboxRecord = await this.createOutboxRecord(recipient, previous, emailContent.subject, 'update');
+      outboxRecords.push(outboxRecord);
+      jobs.push({
+        outboxId: outboxRecord.id,
+        weddingId: previous.id,
+        toEmail: emailContent.to,
+        toName: emailContent.toName,
+        subject: emailContent.subject,
+        htmlBody: emailContent.htmlBody,
+        textBody: emailContent.textBody,
+        attachments: emailContent.attachments,
+      });
+    }
+
+    if (jobs.length === 0) {
+      return 0;
+    }
+
+    try {
+      await this.rsvpNotificationQueueService.enqueue(jobs);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'Queue error';
+      for (const record of outboxRecords) {
+        await this.updateOutboxStatus(record, 'failed', { errorMessage: errMsg });
+      }
+      throw error;
+    }
+
+    this.logger.log(`Queued ${jobs.length} calendar update(s) for wedding ${previous.id}.`);
+    return jobs.length;
+  }
+
+  /**
+   * Send save-the-date emails to selected guests
+   * PRD: "Admin can send save-the-date emails"
+   * PRD: "Save-the-date uses different template than invitation"
+   */
+  async sendSaveTheDates(
+    weddingId: string,
+    guestIds: string[],
+  ): Promise<EmailCampaignStartedResponse> {
+    return this.startCampaign(weddingId, 'save_the_date', guestIds);
   }
 
   /**
@@ -573,200 +887,568 @@ export class InvitationService {
   async sendThankYous(
     weddingId: string,
     guestIds: string[],
-  ): Promise<{
-    sent: number;
-    failed: number;
-    total: number;
-    results: SendThankYouResult[];
-  }> {
+  ): Promise<EmailCampaignStartedResponse> {
+    return this.startCampaign(weddingId, 'thank_you', guestIds);
+  }
+
+  // ============================================================================
+  // Email Campaigns
+  // Bulk sends run on the worker queue, one job per selected guest. The worker
+  // calls prepareCampaignEmail, sends the email and reports the outbox status.
+  // ============================================================================
+
+  /**
+   * Create a campaign and queue one job per selected guest
+   * Returns as soon as the jobs are queued; progress is read with getCampaignProgress.
+   * @throws Error('WEDDING_NOT_FOUND') or Error(EMAIL_CAMPAIGN_QUEUE_FAILED)
+   */
+  private async startCampaign(
+    weddingId: string,
+    emailType: CampaignEmailType,
+    guestIds: string[],
+  ): Promise<EmailCampaignStartedResponse> {
+    const uniqueGuestIds = [...new Set(guestIds)];
+    const campaign = await this.createCampaign(weddingId, emailType, uniqueGuestIds.length);
+
+    try {
+      await this.queueCampaign(campaign, uniqueGuestIds);
+    } catch (error) {
+      await getSupabaseClient().from('email_campaigns').delete().eq('id', campaign.id);
+      throw error;
+    }
+
+    return { campaignId: campaign.id, total: uniqueGuestIds.length };
+  }
+
+  /**
+   * Create an empty campaign for a number of selected guests
+   * @throws Error('WEDDING_NOT_FOUND')
+   */
+  private async createCampaign(
+    weddingId: string,
+    emailType: CampaignEmailType,
+    total: number,
+  ): Promise<DbEmailCampaign> {
     const wedding = await this.weddingService.getWedding(weddingId);
     if (!wedding) {
       throw new Error('WEDDING_NOT_FOUND');
     }
 
-    // Get the theme from render_config so emails match the wedding site
-    const renderConfig = await this.weddingService.getRenderConfig(weddingId);
-    const theme = renderConfig?.theme;
-
-    const results: SendThankYouResult[] = [];
-    let sent = 0;
-    let failed = 0;
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .insert({
+        wedding_id: weddingId,
+        email_type: emailType,
+        total,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create ${emailType} campaign for wedding ${weddingId}`, error);
+      throw new Error('Failed to create email campaign');
+    }
 
-    for (const guestId of guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+    return data as DbEmailCampaign;
+  }
 
-      if (!guest) {
-        results.push({
+  /**
+   * Queue one job per selected guest of a campaign
+   * Jobs are keyed by campaign and guest, and a guest already prepared is not
+   * emailed again, so queueing a campaign a second time resumes it.
+   * @throws Error(EMAIL_CAMPAIGN_QUEUE_FAILED)
+   */
+  private async queueCampaign(campaign: DbEmailCampaign, guestIds: string[]): Promise<void> {
+    try {
+      await this.campaignEmailQueueService.enqueueCampaign(
+        guestIds.map((guestId) => ({
+          campaignId: campaign.id,
+          weddingId: campaign.wedding_id,
           guestId,
-          guestName: 'Unknown',
-          email: 'Unknown',
-          success: false,
-          error: 'Guest not found',
-        });
-        failed++;
-        continue;
+          emailType: campaign.email_type as CampaignEmailType,
+        })),
+      );
+    } catch (queueError) {
+      const errMsg = queueError instanceof Error ? queueError.message : 'Queue error';
+      this.logger.error(`Failed to queue campaign ${campaign.id}: ${errMsg}`);
+      throw new Error(EMAIL_CAMPAIGN_QUEUE_FAILED);
+    }
+
+    this.logger.log(
+      `Queued ${campaign.email_type} campaign ${campaign.id} for wedding ${campaign.wedding_id}: ${guestIds.length} guest(s)`,
+    );
+  }
+
+  /**
+   * Get a campaign row, or null if it does not exist
+   */
+  private async getCampaign(campaignId: string): Promise<DbEmailCampaign | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return data as DbEmailCampaign;
+  }
+
+  /**
+   * Record the outcome of preparing one selected guest
+   */
+  private async recordCampaignRecipient(
+    campaignId: string,
+    guestId: string,
+    guestName: string,
+    outcome: { outboxId: string } | { error: string } | { suppressed: EmailSuppressionReason },
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    let error: string | null = null;
+    if ('error' in outcome) {
+      error = outcome.error;
+    } else if ('suppressed' in outcome) {
+      error = describeSuppression(outcome.suppressed);
+    }
+
+    const { error: upsertError } = await supabase
+      .from('email_campaign_recipients')
+      .upsert({
+        campaign_id: campaignId,
+        guest_id: guestId,
+        guest_name: guestName,
+        outbox_id: 'outboxId' in outcome ? outcome.outboxId : null,
+        error,
+        suppressed: 'suppressed' in outcome,
+      });
+
+    if (upsertError) {
+      this.logger.error(`Failed to record guest ${guestId} for campaign ${campaignId}`, upsertError);
+      throw new Error('Failed to record campaign recipient');
+    }
+  }
+
+  /**
+   * Claim the campaign's outbox row for a recipient
+   * Returns the existing row instead when another household member already claimed it.
+   */
+  private async claimCampaignOutbox(
+    campaign: DbEmailCampaign,
+    recipient: EmailableGuest,
+  ): Promise<{ record: EmailOutbox; claimed: boolean }> {
+    const supabase = getSupabaseClient();
+
+    // The subject is filled in once the email is rendered
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .insert({
+        wedding_id: campaign.wedding_id,
+        guest_id: recipient.id,
+        campaign_id: campaign.id,
+        email_type: campaign.email_type,
+        status: 'pending',
+        to_email: recipient.email,
+        to_name: recipient.name,
+        subject: '',
+        attempts: 0,
+      })
+      .select()
+      .single();
+
+    if (data) {
+      return { record: this.dbOutboxToOutbox(data as DbEmailOutbox), claimed: true };
+    }
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      const { data: existing } = await supabase
+        .from('email_outbox')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .eq('guest_id', recipient.id)
+        .maybeSingle();
+
+      if (existing) {
+        return { record: this.dbOutboxToOutbox(existing as DbEmailOutbox), claimed: false };
       }
+    }
 
-      if (guest.weddingId !== weddingId) {
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: 'Guest does not belong to this wedding',
-        });
-        failed++;
-        continue;
+    this.logger.error(`Failed to create outbox record for guest ${recipient.id}`, error);
+    throw new Error('Failed to create outbox record');
+  }
+
+  /**
+   * Prepare the email for one selected guest of a campaign (called by the worker)
+   * Household members reach their contact, who is emailed once per campaign.
+   * Returns null when there is nothing for the worker to send: the guest was
+   * already handled, shares their contact's email, or cannot be emailed (the
+   * reason is recorded on the campaign).
+   * @throws Error(EMAIL_CAMPAIGN_NOT_FOUND) if the campaign is not in this wedding
+   */
+  async prepareCampaignEmail(
+    weddingId: string,
+    campaignId: string,
+    guestId: string,
+  ): Promise<PreparedCampaignEmail | null> {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign || campaign.wedding_id !== weddingId) {
+      throw new Error(EMAIL_CAMPAIGN_NOT_FOUND);
+    }
+
+    const supabase = getSupabaseClient();
+
+    // A retried job only re-prepares an email the guest claimed that has not gone out
+    const { data: prepared } = await supabase
+      .from('email_campaign_recipients')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .eq('guest_id', guestId)
+      .maybeSingle();
+
+    let outboxRecord: EmailOutbox | null = null;
+    if (prepared) {
+      const outboxId = (prepared as DbEmailCampaignRecipient).outbox_id;
+      outboxRecord = outboxId ? await this.getOutboxRecord(outboxId) : null;
+      if (!outboxRecord || outboxRecord.status !== 'pending' || outboxRecord.guestId !== guestId) {
+        return null;
       }
+    }
 
-      // Determine if guest attended (based on RSVP status)
-      // PRD: "Thank-you can be personalized by attendance"
-      const attended = guest.rsvpStatus === 'attending';
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding) {
+      throw new Error('WEDDING_NOT_FOUND');
+    }
 
-      // Build thank-you email with personalization based on attendance
-      const emailContent = this.emailService.buildThankYouEmail(
-        guest,
-        wedding,
-        attended,
-        theme,
-      );
+    const guest = await this.guestService.getGuest(guestId);
+    if (!guest || guest.weddingId !== weddingId) {
+      await this.recordCampaignRecipient(campaignId, guestId, guest?.name ?? 'Unknown', {
+        error: guest ? 'Guest does not belong to this wedding' : 'Guest not found',
+      });
+      return null;
+    }
 
-      // Create outbox record
-      const outboxRecord = this.createOutboxRecord(
-        guest,
-        wedding,
-        emailContent.subject,
-        'thank_you',
-      );
+    const emailType = campaign.email_type as CampaignEmailType;
 
-      // Send the email
-      const sendResult = await this.emailService.sendEmail(emailContent);
+    // Invitations always go to the household contact, who holds the shared RSVP token
+    let recipient: EmailableGuest | null;
+    if (emailType === 'invitation' && guest.householdId) {
+      const contact = await this.guestService.getHouseholdContact(guest.householdId);
+      recipient = contact?.email ? { ...contact, email: contact.email } : null;
+    } else {
+      recipient = await this.resolveRecipient(guest);
+    }
 
-      if (sendResult.success) {
-        this.updateOutboxStatus(outboxRecord.id, 'sent', {
-          messageId: sendResult.messageId,
-        });
+    if (!recipient) {
+      await this.recordCampaignRecipient(campaignId, guestId, guest.name, {
+        error: 'Guest has no email address',
+      });
+      return null;
+    }
 
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: true,
+    const suppression = await this.emailSuppressionService.findSuppression(
+      weddingId,
+      recipient.email,
+      isEssentialEmail(emailType),
+    );
+    if (suppression) {
+      if (outboxRecord) {
+        await this.updateOutboxStatus(outboxRecord, 'failed', {
+          errorMessage: describeSuppression(suppression.reason),
         });
-        sent++;
+      }
+      await this.recordCampaignRecipient(campaignId, guestId, guest.name, {
+        suppressed: suppression.reason,
+      });
+      return null;
+    }
 
-        this.logger.log(`Thank-you sent to ${guest.name} <${guest.email}> (attended: ${attended})`);
-      } else {
-        this.updateOutboxStatus(outboxRecord.id, 'failed', {
-          errorMessage: sendResult.error,
-        });
+    if (!outboxRecord) {
+      const claim = await this.claimCampaignOutbox(campaign, recipient);
+      await this.recordCampaignRecipient(campaignId, guestId, guest.name, {
+        outboxId: claim.record.id,
+      });
+      if (!claim.claimed) {
+        return null;
+      }
+      outboxRecord = claim.record;
+    }
 
-        results.push({
-          guestId,
-          guestName: guest.name,
-          email: guest.email,
-          success: false,
-          error: sendResult.error || 'Failed to send email',
-        });
-        failed++;
+    // Get the theme from render_config so emails match the wedding site
+    // PRD: "Email design matches wedding theme"
+    const renderConfig = await this.weddingService.getRenderConfig(weddingId);
+    const theme = renderConfig?.theme;
+
+    let emailContent: {
+      to: string;
+      toName: string;
+      subject: string;
+      htmlBody: string;
+      textBody: string;
+      attachments?: EmailAttachment[];
+    };
+    let headers: Record<string, string> | undefined;
+    const mergeDetails = await this.getMergeDetails(recipient, wedding);
+    switch (emailType) {
+      case 'invitation': {
+        // Regenerate RSVP token for security - old links are invalidated
+        // Pass event date for token expiry capping
+        let tokenResult: { guest: Guest; rawToken: string } | null;
+        try {
+          tokenResult = await this.guestService.regenerateRsvpToken(
+            recipient.id,
+            wedding.eventDetails?.date,
+            getWeddingTimeZone(wedding),
+          );
+        } catch (error) {
+          if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
+            await this.updateOutboxStatus(outboxRecord, 'failed', {
+              errorMessage: 'Cannot send invitations for past events',
+            });
+            return null;
+          }
+          throw error;
+        }
+        if (!tokenResult) {
+          await this.updateOutboxStatus(outboxRecord, 'failed', {
+            errorMessage: 'Failed to generate RSVP token',
+          });
+          return null;
+        }
 
-        this.logger.warn(`Failed to send thank-you to ${guest.email}: ${sendResult.error}`);
+        emailContent = this.emailService.buildInvitationEmail(
+          { ...tokenResult.guest, email: recipient.email },
+          wedding,
+          tokenResult.rawToken,
+          theme,
+          mergeDetails,
+        );
+        break;
       }
+
+      case 'save_the_date':
+        // No RSVP link per PRD
+        emailContent = this.emailService.buildSaveTheDateEmail(recipient, wedding, theme, mergeDetails);
+        break;
+
+      case 'thank_you':
+        // PRD: "Thank-you can be personalized by attendance"
+        emailContent = this.emailService.buildThankYouEmail(
+          recipient,
+          wedding,
+          guest.rsvpStatus === 'attending',
+          theme,
+          mergeDetails,
+        );
+        break;
     }
 
-    this.logger.log(
-      `Thank-you batch for wedding ${weddingId}: ${sent} sent, ${failed} failed`,
+    if (!isEssentialEmail(emailType)) {
+      emailContent = this.emailService.addUnsubscribeLink(
+        emailContent,
+        this.emailSuppressionService.getUnsubscribeUrl(weddingId, recipient.email),
+        recipient,
+        wedding,
+      );
+      headers = this.emailSuppressionService.getUnsubscribeHeaders(weddingId, recipient.email);
+    }
+
+    const { error: subjectError } = await supabase
+      .from('email_outbox')
+      .update({ subject: emailContent.subject, updated_at: new Date().toISOString() })
+      .eq('id', outboxRecord.id);
+
+    if (subjectError) {
+      this.logger.error(`Failed to update outbox record ${outboxRecord.id}`, subjectError);
+    }
+
+    return {
+      outboxId: outboxRecord.id,
+      toEmail: emailContent.to,
+      toName: emailContent.toName,
+      subject: emailContent.subject,
+      htmlBody: emailContent.htmlBody,
+      textBody: emailContent.textBody,
+      headers,
+      attachments: emailContent.attachments,
+    };
+  }
+
+  /**
+   * Get the progress of a campaign
+   * @throws Error(EMAIL_CAMPAIGN_NOT_FOUND) if the campaign is not in this wedding
+   */
+  async getCampaignProgress(
+    weddingId: string,
+    campaignId: string,
+  ): Promise<EmailCampaignProgress> {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign || campaign.wedding_id !== weddingId) {
+      throw new Error(EMAIL_CAMPAIGN_NOT_FOUND);
+    }
+
+    const supabase = getSupabaseClient();
+
+    const [{ data: recipientRows }, { data: outboxRows }] = await Promise.all([
+      supabase
+        .from('email_campaign_recipients')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .order('guest_name', { ascending: true }),
+      supabase
+        .from('email_outbox')
+        .select('*')
+        .eq('campaign_id', campaignId),
+    ]);
+
+    const outboxById = new Map(
+      ((outboxRows ?? []) as DbEmailOutbox[]).map((row) => [row.id, this.dbOutboxToOutbox(row)]),
     );
 
+    const results: EmailCampaignRecipientResult[] = ((recipientRows ?? []) as DbEmailCampaignRecipient[])
+      .map((row) => {
+        const outbox = row.outbox_id ? outboxById.get(row.outbox_id) : undefined;
+        const error = row.error ?? outbox?.errorMessage;
+        let status: EmailCampaignRecipientStatus = 'failed';
+        if (row.suppressed) {
+          status = 'suppressed';
+        } else if (outbox && !row.error) {
+          status = campaignRecipientStatus(outbox.status);
+        }
+        return {
+          guestId: row.guest_id,
+          guestName: row.guest_name,
+          email: outbox?.toEmail ?? '',
+          status,
+          ...(error ? { error } : {}),
+        };
+      });
+
+    const sent = results.filter((result) => result.status === 'sent').length;
+    const failed = results.filter((result) => result.status === 'failed').length;
+    const suppressed = results.filter((result) => result.status === 'suppressed').length;
+    const pending = Math.max(campaign.total - sent - failed - suppressed, 0);
+
     return {
+      campaignId: campaign.id,
+      emailType: campaign.email_type as CampaignEmailType,
+      total: campaign.total,
+      pending,
       sent,
       failed,
-      total: guestIds.length,
+      suppressed,
+      completed: pending === 0,
       results,
+      createdAt: campaign.created_at,
     };
   }
 
   /**
-   * Get email outbox records for a wedding
+   * Render an email template for one of the wedding's guests, as it would be sent
+   * Nothing is sent or stored, and the RSVP link carries a placeholder token.
+   * @param template Unsaved template to render instead of the saved one
+   * @returns null if the guest is not in the wedding
    */
-  getOutboxForWedding(weddingId: string): EmailOutbox[] {
-    const records: EmailOutbox[] = [];
-    for (const record of this.emailOutbox.values()) {
-      if (record.weddingId === weddingId) {
-        records.push(record);
-      }
+  async previewEmailTemplate(
+    wedding: Wedding,
+    templateType: EmailTemplateType,
+    guestId: string,
+    template?: EmailTemplateContent,
+    language?: SupportedLanguage,
+  ): Promise<PreviewEmailTemplateResponse | null> {
+    const guest = await this.guestService.getGuest(guestId);
+    if (!guest || guest.weddingId !== wedding.id) {
+      return null;
     }
-    // Sort by createdAt descending
-    return records.sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
+
+    // An unsaved template replaces the one the guest would get in the previewed language
+    let emailTemplates = wedding.emailTemplates;
+    if (template && language) {
+      const byLanguage = emailTemplates?.byLanguage;
+      emailTemplates = {
+        ...emailTemplates,
+        byLanguage: { ...byLanguage, [language]: { ...byLanguage?.[language], [templateType]: template } },
+      };
+    } else if (template) {
+      emailTemplates = { ...emailTemplates, [templateType]: template };
+    }
+    const previewWedding: Wedding = { ...wedding, emailTemplates };
+    const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
+    const theme = renderConfig?.theme;
+    const details = await this.getMergeDetails(guest, wedding);
+    const recipient: EmailableGuest = {
+      ...guest,
+      email: guest.email ?? '',
+      preferredLanguage: language ?? guest.preferredLanguage,
+    };
+
+    let content: { subject: string; htmlBody: string; textBody: string };
+    switch (templateType) {
+      case 'invitation':
+        content = this.emailService.buildInvitationEmail(recipient, previewWedding, 'preview', theme, details);
+        break;
+      case 'reminder':
+        content = this.emailService.buildReminderEmail(recipient, previewWedding, 'preview', theme, details);
+        break;
+      case 'saveTheDate':
+        content = this.emailService.buildSaveTheDateEmail(recipient, previewWedding, theme, details);
+        break;
+      case 'thankYouAttended':
+      case 'thankYouNotAttended':
+        content = this.emailService.buildThankYouEmail(
+          recipient,
+          previewWedding,
+          templateType === 'thankYouAttended',
+          theme,
+          details,
+        );
+        break;
+    }
+
+    return { subject: content.subject, bodyText: content.textBody, bodyHtml: content.htmlBody };
   }
 
   /**
-   * Get email outbox records for a guest
+   * Get email outbox records for a wedding
    */
-  getOutboxForGuest(guestId: string): EmailOutbox[] {
-    const records: EmailOutbox[] = [];
-    for (const record of this.emailOutbox.values()) {
-      if (record.guestId === guestId) {
-        records.push(record);
-      }
-    }
-    return records.sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
+  async getOutboxForWedding(weddingId: string): Promise<EmailOutbox[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('created_at', { ascending: false });
+
+    if (error || !data) return [];
+    return data.map((r) => this.dbOutboxToOutbox(r as DbEmailOutbox));
   }
 
   /**
-   * Get email delivery statistics for a wedding
-   * PRD: "Dashboard shows email delivery statistics"
+   * Get email outbox records for a guest
    */
-  getEmailStatistics(weddingId: string): EmailStatistics {
-    const records = this.getOutboxForWedding(weddingId);
-
-    // Initialize counters
-    const stats: EmailStatistics = {
-      totalSent: 0,
-      delivered: 0,
-      failed: 0,
-      pending: 0,
-      byType: {
-        invitation: { sent: 0, delivered: 0, failed: 0 },
-        reminder: { sent: 0, delivered: 0, failed: 0 },
-        save_the_date: { sent: 0, delivered: 0, failed: 0 },
-        thank_you: { sent: 0, delivered: 0, failed: 0 },
-      },
-    };
-
-    for (const record of records) {
-      // Count overall totals
-      stats.totalSent++;
-
-      // Count by status
-      if (record.status === 'sent' || record.status === 'delivered') {
-        stats.delivered++;
-      } else if (record.status === 'failed' || record.status === 'bounced') {
-        stats.failed++;
-      } else if (record.status === 'pending') {
-        stats.pending++;
-      }
+  async getOutboxForGuest(guestId: string): Promise<EmailOutbox[]> {
+    const supabase = getSupabaseClient();
 
-      // Count by type
-      const typeKey = record.emailType as keyof typeof stats.byType;
-      if (stats.byType[typeKey]) {
-        stats.byType[typeKey].sent++;
-        if (record.status === 'sent' || record.status === 'delivered') {
-          stats.byType[typeKey].delivered++;
-        } else if (record.status === 'failed' || record.status === 'bounced') {
-          stats.byType[typeKey].failed++;
-        }
-      }
-    }
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('guest_id', guestId)
+      .order('created_at', { ascending: false });
 
-    // Note: openRate would require tracking pixel implementation
-    // which is not currently implemented, so we leave it undefined
+    if (error || !data) return [];
+    return data.map((r) => this.dbOutboxToOutbox(r as DbEmailOutbox));
+  }
 
-    return stats;
+  /**
+   * Get email delivery statistics for a wedding
+   * PRD: "Dashboard shows email delivery statistics"
+   */
+  async getEmailStatistics(weddingId: string): Promise<EmailStatistics> {
+    const records = await this.getOutboxForWedding(weddingId);
+    return buildEmailStatistics(records);
   }
 
   // ============================================================================
@@ -777,65 +1459,94 @@ export class InvitationService {
   /**
    * Schedule an email to be sent at a future time
    * PRD: "Admin can schedule emails for future send"
+   * @param scheduledAt ISO timestamp, or a local date and time (YYYY-MM-DDTHH:MM) in the wedding's time zone
+   * @param automatic created by the RSVP deadline reminder cadence
+   * @param segmentId send to whoever is in this segment at send time instead of guestIds
    */
   async scheduleEmail(
     weddingId: string,
     guestIds: string[],
     emailType: EmailType,
     scheduledAt: string,
+    automatic = false,
+    segmentId?: string,
   ): Promise<ScheduleEmailResponse> {
     const wedding = await this.weddingService.getWedding(weddingId);
     if (!wedding) {
       throw new Error('WEDDING_NOT_FOUND');
     }
 
-    // Validate scheduled time is in the future
-    const scheduledTime = new Date(scheduledAt).getTime();
-    const now = Date.now();
-    if (scheduledTime <= now) {
+    // Local times are wall-clock times at the venue; validate it's in the future
+    const scheduledTime = parseScheduledTime(scheduledAt, getWeddingTimeZone(wedding));
+    if (!scheduledTime || scheduledTime.getTime() <= Date.now()) {
       throw new Error(INVALID_SCHEDULE_TIME);
     }
+    const sendAt = scheduledTime.toISOString();
 
-    // Validate guest IDs belong to this wedding
+    // Validate guest IDs (or the segment) belong to this wedding
     for (const guestId of guestIds) {
-      const guest = this.guestService.getGuest(guestId);
+      const guest = await this.guestService.getGuest(guestId);
       if (!guest || guest.weddingId !== weddingId) {
         throw new Error('GUEST_NOT_FOUND');
       }
     }
+    if (segmentId) {
+      const segment = await this.segmentService.getSegment(segmentId);
+      if (!segment || segment.weddingId !== weddingId) {
+        throw new Error(SEGMENT_NOT_FOUND);
+      }
+    }
 
-    // Create scheduled email record
-    const id = randomBytes(16).toString('hex');
-    const scheduledEmail: ScheduledEmail = {
-      id,
-      weddingId,
-      guestIds,
-      emailType,
-      scheduledAt,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    // Persist first so the job always has a record to report back to
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .insert({
+        wedding_id: weddingId,
+        guest_ids: guestIds,
+        segment_id: segmentId ?? null,
+        email_type: emailType,
+        scheduled_at: sendAt,
+        status: 'pending',
+        automatic,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create scheduled email for wedding ${weddingId}`, error);
+      throw new Error('Failed to create scheduled email');
+    }
+
+    const scheduledEmail = this.dbScheduledToScheduled(data as DbScheduledEmail);
 
     // Create job data
     const jobData: ScheduledEmailJobData = {
-      scheduledEmailId: id,
+      scheduledEmailId: scheduledEmail.id,
       weddingId,
       guestIds,
       emailType,
     };
 
     // Schedule the email via BullMQ
-    const jobId = await this.scheduledEmailQueueService.scheduleEmail(
-      jobData,
-      scheduledAt,
-    );
+    let jobId: string;
+    try {
+      jobId = await this.scheduledEmailQueueService.scheduleEmail(
+        jobData,
+        sendAt,
+      );
+    } catch (queueError) {
+      await supabase.from('scheduled_emails').delete().eq('id', scheduledEmail.id);
+      throw queueError;
+    }
 
+    await this.setScheduledEmailJobId(scheduledEmail.id, jobId);
     scheduledEmail.jobId = jobId;
-    this.scheduledEmails.set(id, scheduledEmail);
 
     this.logger.log(
-      `Scheduled ${emailType} email for ${guestIds.length} guest(s) at ${scheduledAt}`,
+      segmentId
+        ? `Scheduled ${emailType} email for segment ${segmentId} at ${sendAt}`
+        : `Scheduled ${emailType} email for ${guestIds.length} guest(s) at ${sendAt}`,
     );
 
     return {
@@ -845,28 +1556,112 @@ export class InvitationService {
   }
 
   /**
-   * Get all scheduled emails for a wedding
-   * PRD: "Admin can view and cancel scheduled emails"
+   * Replace the automatic RSVP deadline reminders for a wedding
+   * Pending automatic reminders are cancelled, then one reminder to all pending
+   * guests is scheduled for each future day in the cadence. Reminders the couple
+   * scheduled themselves are left alone.
    */
-  getScheduledEmailsForWedding(weddingId: string): ScheduledEmail[] {
-    const emails: ScheduledEmail[] = [];
-    for (const email of this.scheduledEmails.values()) {
-      if (email.weddingId === weddingId) {
-        emails.push(email);
+  async scheduleDeadlineReminders(wedding: Wedding): Promise<ScheduledEmail[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .select('id')
+      .eq('wedding_id', wedding.id)
+      .eq('automatic', true)
+      .eq('status', 'pending');
+
+    if (error) {
+      this.logger.error(`Failed to load automatic reminders for wedding ${wedding.id}`, error);
+      throw new Error('Failed to load automatic reminders');
+    }
+
+    for (const row of (data ?? []) as Array<{ id: string }>) {
+      try {
+        await this.cancelScheduledEmail(wedding.id, row.id);
+      } catch (cancelError) {
+        // Already being sent; let it go out
+        if (!(cancelError instanceof Error) || cancelError.message !== SCHEDULED_EMAIL_ALREADY_SENT) {
+          throw cancelError;
+        }
       }
     }
-    // Sort by scheduledAt ascending (soonest first)
-    return emails.sort(
-      (a, b) =>
-        new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime(),
+
+    const deadline = wedding.rsvpDeadline;
+    if (!deadline?.date || !wedding.features.RSVP) {
+      return [];
+    }
+
+    const scheduled: ScheduledEmail[] = [];
+    const sendTimes = reminderSendTimes(
+      deadline.date,
+      deadline.reminderDaysBefore,
+      getWeddingTimeZone(wedding),
     );
+    for (const sendAt of sendTimes) {
+      // An empty guest list means "every guest still pending when it fires"
+      const result = await this.scheduleEmail(wedding.id, [], 'reminder', sendAt.toISOString(), true);
+      scheduled.push(result.scheduledEmail);
+    }
+
+    this.logger.log(
+      `Scheduled ${scheduled.length} automatic reminder(s) for wedding ${wedding.id}`,
+    );
+
+    return scheduled;
+  }
+
+  /**
+   * Record the BullMQ job ID for a scheduled email
+   */
+  private async setScheduledEmailJobId(
+    scheduledEmailId: string,
+    jobId: string,
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('scheduled_emails')
+      .update({ job_id: jobId, updated_at: new Date().toISOString() })
+      .eq('id', scheduledEmailId);
+
+    if (error) {
+      this.logger.error(`Failed to record job ID for scheduled email ${scheduledEmailId}`, error);
+    }
+  }
+
+  /**
+   * Get all scheduled emails for a wedding
+   * PRD: "Admin can view and cancel scheduled emails"
+   */
+  async getScheduledEmailsForWedding(weddingId: string): Promise<ScheduledEmail[]> {
+    const supabase = getSupabaseClient();
+
+    // Sort by scheduledAt ascending (soonest first)
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('scheduled_at', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map((r) => this.dbScheduledToScheduled(r as DbScheduledEmail));
   }
 
   /**
    * Get a single scheduled email by ID
    */
-  getScheduledEmail(scheduledEmailId: string): ScheduledEmail | undefined {
-    return this.scheduledEmails.get(scheduledEmailId);
+  async getScheduledEmail(scheduledEmailId: string): Promise<ScheduledEmail | undefined> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .select('*')
+      .eq('id', scheduledEmailId)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return this.dbScheduledToScheduled(data as DbScheduledEmail);
   }
 
   /**
@@ -877,7 +1672,7 @@ export class InvitationService {
     weddingId: string,
     scheduledEmailId: string,
   ): Promise<ScheduledEmail> {
-    const scheduledEmail = this.scheduledEmails.get(scheduledEmailId);
+    const scheduledEmail = await this.getScheduledEmail(scheduledEmailId);
 
     if (!scheduledEmail || scheduledEmail.weddingId !== weddingId) {
       throw new Error(SCHEDULED_EMAIL_NOT_FOUND);
@@ -892,77 +1687,128 @@ export class InvitationService {
       return scheduledEmail;
     }
 
-    // Cancel the BullMQ job
-    const cancelled = await this.scheduledEmailQueueService.cancelScheduledEmail(
-      scheduledEmailId,
-    );
+    // An orphaned send has no job left to remove
+    if (scheduledEmail.status !== 'orphaned') {
+      // Cancel the BullMQ job
+      const cancelled = await this.scheduledEmailQueueService.cancelScheduledEmail(
+        scheduledEmailId,
+      );
 
-    if (!cancelled) {
-      // Job might be already processing
-      throw new Error(SCHEDULED_EMAIL_ALREADY_SENT);
+      if (!cancelled) {
+        // Job might be already processing
+        throw new Error(SCHEDULED_EMAIL_ALREADY_SENT);
+      }
     }
 
     // Update status
-    scheduledEmail.status = 'cancelled';
-    scheduledEmail.updatedAt = new Date().toISOString();
-    this.scheduledEmails.set(scheduledEmailId, scheduledEmail);
+    const updated = await this.updateScheduledEmailStatus(scheduledEmailId, 'cancelled');
+    if (!updated) {
+      throw new Error(SCHEDULED_EMAIL_NOT_FOUND);
+    }
 
     this.logger.log(`Cancelled scheduled email ${scheduledEmailId}`);
 
-    return scheduledEmail;
+    return updated;
   }
 
   /**
    * Update scheduled email status (called by worker after processing)
+   * Returns the updated record, or null if it does not exist
    */
-  updateScheduledEmailStatus(
+  async updateScheduledEmailStatus(
     scheduledEmailId: string,
-    status: 'processing' | 'completed' | 'cancelled',
+    status: ScheduledEmailStatus,
     results?: { sent: number; failed: number; total: number },
-  ): boolean {
-    const scheduledEmail = this.scheduledEmails.get(scheduledEmailId);
-    if (!scheduledEmail) {
-      return false;
-    }
+  ): Promise<ScheduledEmail | null> {
+    const supabase = getSupabaseClient();
 
-    scheduledEmail.status = status;
-    scheduledEmail.updatedAt = new Date().toISOString();
+    const changes: Partial<DbScheduledEmail> = {
+      status,
+      updated_at: new Date().toISOString(),
+    };
     if (results) {
-      scheduledEmail.results = results;
+      changes.results = results;
     }
 
-    this.scheduledEmails.set(scheduledEmailId, scheduledEmail);
-    return true;
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .update(changes)
+      .eq('id', scheduledEmailId)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to update scheduled email ${scheduledEmailId}`, error);
+      }
+      return null;
+    }
+
+    return this.dbScheduledToScheduled(data as DbScheduledEmail);
   }
 
   /**
    * Execute a scheduled email send (called by worker)
-   * This method actually sends the emails when the scheduled time arrives
+   * This method actually sends the emails when the scheduled time arrives.
+   * Emails addressed to a segment go to the guests in it now, not when scheduled.
+   * @throws Error with SCHEDULED_EMAIL_NOT_FOUND if there is no record for the job
    */
   async executeScheduledEmail(
     jobData: ScheduledEmailJobData,
+    finalAttempt = true,
   ): Promise<{ sent: number; failed: number; total: number }> {
-    const { scheduledEmailId, weddingId, guestIds, emailType } = jobData;
+    const { scheduledEmailId, weddingId, emailType } = jobData;
+    let { guestIds } = jobData;
+
+    const existing = await this.getScheduledEmail(scheduledEmailId);
+    if (!existing || existing.weddingId !== weddingId) {
+      throw new Error(SCHEDULED_EMAIL_NOT_FOUND);
+    }
 
-    // Mark as processing
-    this.updateScheduledEmailStatus(scheduledEmailId, 'processing');
+    // A job can outlive a cancel, be retried after completion, or be retried while
+    // an earlier run is still sending; only the run that claims the row sends
+    const scheduledEmail = await this.claimScheduledEmail(scheduledEmailId);
+    if (!scheduledEmail) {
+      this.logger.warn(
+        `Skipping scheduled email ${scheduledEmailId} with status ${existing.status}`,
+      );
+      return existing.results ?? { sent: 0, failed: 0, total: 0 };
+    }
 
     let results: { sent: number; failed: number; total: number };
 
     try {
+      if (scheduledEmail.segmentId) {
+        const guests = await this.segmentService.getSegmentGuests(weddingId, scheduledEmail.segmentId);
+        guestIds = guests.map((guest) => guest.id);
+
+        // An empty guest list means "everyone pending" to reminders; an empty segment means nobody
+        if (guestIds.length === 0) {
+          results = { sent: 0, failed: 0, total: 0 };
+          await this.updateScheduledEmailStatus(scheduledEmailId, 'completed', results);
+          this.logger.log(`Scheduled email ${scheduledEmailId} skipped: its segment is empty`);
+          return results;
+        }
+      }
+
       // Execute the appropriate send method based on email type
+      // Campaign sends are queued for the worker; like reminders, queued counts as sent
       switch (emailType) {
         case 'invitation':
-          const inviteResults = await this.sendInvitations(weddingId, guestIds);
-          results = {
-            sent: inviteResults.sent,
-            failed: inviteResults.failed,
-            total: inviteResults.total,
-          };
+        case 'save_the_date':
+        case 'thank_you':
+          const total = await this.runScheduledCampaign(scheduledEmail, emailType, guestIds);
+          results = { sent: total, failed: 0, total };
           break;
 
         case 'reminder':
-          const reminderResults = await this.enqueueReminders(weddingId, guestIds);
+          // Automatic reminders only chase guests who have actually been invited
+          const reminderResults = await this.enqueueReminders(
+            weddingId,
+            guestIds,
+            scheduledEmail.automatic,
+            scheduledEmailId,
+          );
           results = {
             sent: reminderResults.queued,
             failed: reminderResults.total - reminderResults.queued,
@@ -970,30 +1816,12 @@ export class InvitationService {
           };
           break;
 
-        case 'save_the_date':
-          const stdResults = await this.sendSaveTheDates(weddingId, guestIds);
-          results = {
-            sent: stdResults.sent,
-            failed: stdResults.failed,
-            total: stdResults.total,
-          };
-          break;
-
-        case 'thank_you':
-          const tyResults = await this.sendThankYous(weddingId, guestIds);
-          results = {
-            sent: tyResults.sent,
-            failed: tyResults.failed,
-            total: tyResults.total,
-          };
-          break;
-
         default:
           results = { sent: 0, failed: guestIds.length, total: guestIds.length };
       }
 
       // Mark as completed with results
-      this.updateScheduledEmailStatus(scheduledEmailId, 'completed', results);
+      await this.updateScheduledEmailStatus(scheduledEmailId, 'completed', results);
 
       this.logger.log(
         `Executed scheduled email ${scheduledEmailId}: ${results.sent} sent, ${results.failed} failed`,
@@ -1006,10 +1834,306 @@ export class InvitationService {
         `Failed to execute scheduled email ${scheduledEmailId}: ${errorMessage}`,
       );
 
-      results = { sent: 0, failed: guestIds.length, total: guestIds.length };
-      this.updateScheduledEmailStatus(scheduledEmailId, 'completed', results);
+      // Part of the send may be queued already; it is recorded on the row or the
+      // outbox, so the worker's retry resumes it. Give up only after the last attempt.
+      if (finalAttempt) {
+        results = { sent: 0, failed: guestIds.length, total: guestIds.length };
+        await this.updateScheduledEmailStatus(scheduledEmailId, 'failed', results);
+      } else {
+        await this.updateScheduledEmailStatus(scheduledEmailId, 'pending');
+      }
 
       throw error;
     }
   }
+
+  /**
+   * Move a pending scheduled email to 'processing'
+   * The update is conditional on the status, so only one run of a send can start.
+   * Returns null if the row is not pending: cancelled, done, or already running.
+   */
+  private async claimScheduledEmail(scheduledEmailId: string): Promise<ScheduledEmail | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .update({ status: 'processing', updated_at: new Date().toISOString() })
+      .eq('id', scheduledEmailId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to claim scheduled email ${scheduledEmailId}`, error);
+      throw new Error('Failed to claim scheduled email');
+    }
+
+    return data ? this.dbScheduledToScheduled(data as DbScheduledEmail) : null;
+  }
+
+  /**
+   * Queue a scheduled bulk send's campaign, resuming the one an earlier run started
+   * The campaign is recorded on the row before any guest is queued.
+   * Returns the number of guests queued.
+   */
+  private async runScheduledCampaign(
+    scheduledEmail: ScheduledEmail,
+    emailType: CampaignEmailType,
+    guestIds: string[],
+  ): Promise<number> {
+    const uniqueGuestIds = [...new Set(guestIds)];
+    let campaign = scheduledEmail.campaignId
+      ? await this.getCampaign(scheduledEmail.campaignId)
+      : null;
+
+    if (!campaign) {
+      campaign = await this.createCampaign(scheduledEmail.weddingId, emailType, uniqueGuestIds.length);
+
+      const { error } = await getSupabaseClient()
+        .from('scheduled_emails')
+        .update({ campaign_id: campaign.id })
+        .eq('id', scheduledEmail.id);
+
+      if (error) {
+        this.logger.error(`Failed to record campaign of scheduled email ${scheduledEmail.id}`, error);
+        await getSupabaseClient().from('email_campaigns').delete().eq('id', campaign.id);
+        throw new Error('Failed to record scheduled email campaign');
+      }
+    } else {
+      this.logger.log(`Resuming campaign ${campaign.id} of scheduled email ${scheduledEmail.id}`);
+    }
+
+    await this.queueCampaign(campaign, uniqueGuestIds);
+    return uniqueGuestIds.length;
+  }
+
+  // ============================================================================
+  // Dead-Lettered Emails
+  // Jobs the worker gave up on, kept in the dead-letter queue until the couple
+  // retries or discards them
+  // ============================================================================
+
+  /**
+   * List a wedding's dead-lettered emails, oldest first
+   */
+  async getDeadLetteredEmails(weddingId: string): Promise<DeadLetteredEmail[]> {
+    const jobs = await this.deadLetterQueueService.getJobs(weddingId);
+    return jobs.map((job) => toDeadLetteredEmail(job.id, job.data));
+  }
+
+  /**
+   * Put a dead-lettered email back on its queue with a fresh set of attempts
+   * A failed scheduled send goes back to pending so the worker runs it again.
+   * @throws Error(DEAD_LETTER_JOB_NOT_FOUND) if the job is not in this wedding
+   */
+  async retryDeadLetteredEmail(weddingId: string, id: string): Promise<void> {
+    const { data } = await this.getDeadLetteredJob(weddingId, id);
+
+    if (data.queueName === SCHEDULED_EMAIL_QUEUE_NAME) {
+      const scheduledEmail = await this.getScheduledEmail(data.jobId);
+      if (scheduledEmail?.status === 'failed') {
+        await this.updateScheduledEmailStatus(scheduledEmail.id, 'pending');
+      }
+    }
+
+    if (!(await this.deadLetterQueueService.requeue(id))) {
+      throw new Error(DEAD_LETTER_JOB_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Give up on a dead-lettered email for good
+   * Whatever the worker could not report (API unreachable on the last attempt)
+   * is recorded as failed, so nothing stays pending.
+   * @throws Error(DEAD_LETTER_JOB_NOT_FOUND) if the job is not in this wedding
+   */
+  async discardDeadLetteredEmail(weddingId: string, id: string): Promise<void> {
+    const { data } = await this.getDeadLetteredJob(weddingId, id);
+
+    if (!(await this.deadLetterQueueService.remove(id))) {
+      throw new Error(DEAD_LETTER_JOB_NOT_FOUND);
+    }
+
+    switch (data.queueName) {
+      case SCHEDULED_EMAIL_QUEUE_NAME: {
+        const scheduledEmail = await this.getScheduledEmail(data.jobId);
+        if (scheduledEmail?.status === 'pending' || scheduledEmail?.status === 'processing') {
+          const total = scheduledEmail.guestIds.length;
+          await this.updateScheduledEmailStatus(scheduledEmail.id, 'failed', {
+            sent: 0,
+            failed: total,
+            total,
+          });
+        }
+        return;
+      }
+
+      case CAMPAIGN_EMAIL_QUEUE_NAME: {
+        const job = data.data as EmailCampaignJobData & { prepared?: PreparedCampaignEmail };
+        if (job.prepared) {
+          await this.failPendingOutbox(job.prepared.outboxId, data.failedReason);
+          return;
+        }
+
+        // Never prepared: record the guest as failed so the campaign can complete
+        const supabase = getSupabaseClient();
+        const { data: recipient } = await supabase
+          .from('email_campaign_recipients')
+          .select('guest_id')
+          .eq('campaign_id', job.campaignId)
+          .eq('guest_id', job.guestId)
+          .maybeSingle();
+        if (!recipient) {
+          const guest = await this.guestService.getGuest(job.guestId);
+          await this.recordCampaignRecipient(job.campaignId, job.guestId, guest?.name ?? 'Unknown', {
+            error: data.failedReason,
+          });
+        }
+        return;
+      }
+
+      default: {
+        const { outboxId } = data.data as ReminderJobData | RsvpNotificationJobData;
+        if (outboxId) {
+          await this.failPendingOutbox(outboxId, data.failedReason);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get one of a wedding's dead-lettered jobs
+   * @throws Error(DEAD_LETTER_JOB_NOT_FOUND) if it is not in this wedding
+   */
+  private async getDeadLetteredJob(
+    weddingId: string,
+    id: string,
+  ): Promise<{ id: string; data: DeadLetterJobData }> {
+    const job = await this.deadLetterQueueService.getJob(id);
+    if (!job || job.data.weddingId !== weddingId) {
+      throw new Error(DEAD_LETTER_JOB_NOT_FOUND);
+    }
+    return job;
+  }
+
+  /**
+   * Mark an outbox record failed if it is still waiting to be sent
+   */
+  private async failPendingOutbox(outboxId: string, errorMessage: string): Promise<void> {
+    const record = await this.getOutboxRecord(outboxId);
+    if (record?.status === 'pending') {
+      await this.updateOutboxStatus(record, 'failed', { errorMessage });
+    }
+  }
+
+  // ============================================================================
+  // Queue Reconciliation
+  // Used on boot by EmailQueueReconcilerService
+  // ============================================================================
+
+  /**
+   * Get scheduled emails that should still have a queue job
+   */
+  async getOpenScheduledEmails(): Promise<ScheduledEmail[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .select('*')
+      .in('status', ['pending', 'processing']);
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error('Failed to load open scheduled emails', error);
+      }
+      return [];
+    }
+
+    return data.map((r) => this.dbScheduledToScheduled(r as DbScheduledEmail));
+  }
+
+  /**
+   * Re-enqueue a pending scheduled email whose job is missing.
+   * A past scheduledAt is enqueued without delay.
+   */
+  async requeueScheduledEmail(scheduledEmail: ScheduledEmail): Promise<string> {
+    const jobId = await this.scheduledEmailQueueService.scheduleEmail(
+      {
+        scheduledEmailId: scheduledEmail.id,
+        weddingId: scheduledEmail.weddingId,
+        guestIds: scheduledEmail.guestIds,
+        emailType: scheduledEmail.emailType,
+      },
+      scheduledEmail.scheduledAt,
+    );
+
+    await this.setScheduledEmailJobId(scheduledEmail.id, jobId);
+    return jobId;
+  }
+
+  /**
+   * Get reminder outbox records that are still waiting for the worker
+   */
+  async getPendingReminderOutbox(): Promise<EmailOutbox[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('email_type', 'reminder')
+      .eq('status', 'pending');
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error('Failed to load pending reminders', error);
+      }
+      return [];
+    }
+
+    return data.map((r) => this.dbOutboxToOutbox(r as DbEmailOutbox));
+  }
+
+  /**
+   * Re-enqueue a pending reminder whose job is missing.
+   * The job payload (which embeds the RSVP link) is not stored, so the email is
+   * rebuilt with a freshly issued token. Reminders that can no longer be sent
+   * are marked failed.
+   *
+   * @returns true if a job was enqueued
+   */
+  async requeueReminder(record: EmailOutbox): Promise<boolean> {
+    const wedding = await this.weddingService.getWedding(record.weddingId);
+    const guest = await this.guestService.getGuest(record.guestId);
+
+    if (!wedding || !guest || guest.rsvpStatus !== 'pending') {
+      await this.updateOutboxStatus(record, 'failed', {
+        errorMessage: 'Reminder job was lost and the guest no longer needs a reminder',
+      });
+      return false;
+    }
+
+    const suppression = await this.emailSuppressionService.findSuppression(
+      wedding.id,
+      record.toEmail,
+      isEssentialEmail('reminder'),
+    );
+    if (suppression) {
+      await this.updateOutboxStatus(record, 'failed', {
+        errorMessage: describeSuppression(suppression.reason),
+      });
+      return false;
+    }
+
+    const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
+    const built = await this.buildReminderJob(guest, wedding, renderConfig?.theme, record);
+    if (!built) {
+      await this.updateOutboxStatus(record, 'failed', {
+        errorMessage: 'Reminder job was lost and a new RSVP link could not be issued',
+      });
+      return false;
+    }
+
+    await this.reminderQueueService.enqueueReminders([built.job]);
+    return true;
+  }
 }
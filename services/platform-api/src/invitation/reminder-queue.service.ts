@@ -2,61 +2,22 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import type { ReminderJobData } from '../types';
 import { REMINDER_QUEUE_NAME } from '../types';
-
-type RedisConnection = {
-  host: string;
-  port: number;
-  username?: string;
-  password?: string;
-  db?: number;
-  tls?: Record<string, unknown>;
-};
-
-const DEFAULT_REDIS_PORT = 6379;
-
-function getRedisConnection(): RedisConnection {
-  const redisUrl = process.env.REDIS_URL;
-  if (redisUrl) {
-    const url = new URL(redisUrl);
-    const connection: RedisConnection = {
-      host: url.hostname,
-      port: url.port ? Number(url.port) : DEFAULT_REDIS_PORT,
-    };
-
-    if (url.username) {
-      connection.username = decodeURIComponent(url.username);
-    }
-
-    if (url.password) {
-      connection.password = decodeURIComponent(url.password);
-    }
-
-    if (url.pathname && url.pathname !== '/') {
-      const db = Number(url.pathname.slice(1));
-      if (!Number.isNaN(db)) {
-        connection.db = db;
-      }
-    }
-
-    if (url.protocol === 'rediss:') {
-      connection.tls = {};
-    }
-
-    return connection;
-  }
-
-  const port = Number(process.env.REDIS_PORT || DEFAULT_REDIS_PORT);
-  const connection: RedisConnection = {
-    host: process.env.REDIS_HOST || '127.0.0.1',
-    port,
-  };
-
-  if (process.env.REDIS_PASSWORD) {
-    connection.password = process.env.REDIS_PASSWORD;
-  }
-
-  return connection;
-}
+import { getEmailJobOptions } from './email-job-options';
+import { getRedisConnection } from '../utils/redis';
+
+/**
+ * Job states inspected when reconciling the queue with the database
+ */
+const QUEUED_JOB_STATES = [
+  'active',
+  'waiting',
+  'delayed',
+  'prioritized',
+  'paused',
+  'failed',
+] as const;
+
+type QueuedJobState = (typeof QUEUED_JOB_STATES)[number];
 
 @Injectable()
 export class ReminderQueueService {
@@ -76,10 +37,7 @@ export class ReminderQueueService {
         data: job,
         opts: {
           jobId: job.outboxId,
-          attempts: 3,
-          backoff: { type: 'exponential', delay: 5000 },
-          removeOnComplete: true,
-          removeOnFail: 100,
+          ...getEmailJobOptions(),
         },
       })),
     );
@@ -90,4 +48,46 @@ export class ReminderQueueService {
       job.id ? job.id.toString() : jobs[index]?.outboxId,
     );
   }
+
+  /**
+   * List jobs the queue still holds, with their state.
+   * Failed jobs are included so boot reconciliation can retry sends the
+   * worker gave up on while the API was unreachable.
+   */
+  async getQueuedJobs(): Promise<
+    Array<{ jobId: string; state: QueuedJobState; data: ReminderJobData }>
+  > {
+    const jobs: Array<{ jobId: string; state: QueuedJobState; data: ReminderJobData }> = [];
+
+    for (const state of QUEUED_JOB_STATES) {
+      const stateJobs = await this.queue.getJobs([state]);
+      for (const job of stateJobs) {
+        if (job?.id) {
+          jobs.push({ jobId: job.id.toString(), state, data: job.data });
+        }
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Remove a job that is not currently being processed
+   *
+   * @returns true if the job was removed
+   */
+  async removeJob(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+    if (state === 'active') {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
 }
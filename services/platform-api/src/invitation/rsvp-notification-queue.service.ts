@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import type { RsvpNotificationJobData } from '../types';
+import { RSVP_NOTIFICATION_QUEUE_NAME } from '../types';
+import { getEmailJobOptions } from './email-job-options';
+import { getRedisConnection } from '../utils/redis';
+
+@Injectable()
+export class RsvpNotificationQueueService {
+  private readonly logger = new Logger(RsvpNotificationQueueService.name);
+  private readonly queue = new Queue<RsvpNotificationJobData>(RSVP_NOTIFICATION_QUEUE_NAME, {
+    connection: getRedisConnection(),
+  });
+
+  /**
+   * Queue RSVP confirmations and couple notifications for the worker to send
+   * Guest confirmations use their outbox ID as the job ID; couple notifications get a generated one
+   */
+  async enqueue(jobs: RsvpNotificationJobData[]): Promise<void> {
+    if (jobs.length === 0) {
+      return;
+    }
+
+    await this.queue.addBulk(
+      jobs.map((job) => ({
+        name: 'send-rsvp-notification',
+        data: job,
+        opts: {
+          jobId: job.outboxId,
+          ...getEmailJobOptions(),
+        },
+      })),
+    );
+
+    this.logger.log(`Queued ${jobs.length} RSVP notification job(s).`);
+  }
+}
@@ -12,16 +12,18 @@ import { InvitationService } from './invitation.service';
 import type {
   SendGridWebhookEvent,
   BounceType,
+  EmailEngagementEvent,
   EmailStatus,
 } from '../types';
 import { SENDGRID_WEBHOOK_INVALID } from '../types';
 
 /**
- * Controller for SendGrid webhook events (bounce, delivered, etc.)
+ * Controller for SendGrid webhook events (bounce, delivered, open, etc.)
  * PRD: "Admin can see bounce and failure status"
  *
  * SendGrid sends events to this endpoint when emails are delivered, bounced, etc.
- * This allows tracking of actual delivery status beyond initial send acceptance.
+ * This allows tracking of actual delivery status beyond initial send acceptance,
+ * and of opens and clicks when tracking is enabled on the SendGrid account.
  */
 @Controller('webhooks')
 export class SendGridWebhookController {
@@ -33,7 +35,9 @@ export class SendGridWebhookController {
    * Handle SendGrid Event Webhook
    *
    * SendGrid sends an array of events to this endpoint.
-   * We process bounce, delivered, and dropped events to update email status.
+   * We process bounce, delivered, and dropped events to update email status,
+   * and record open, click, spamreport and unsubscribe events on the email.
+   * Hard bounces, drops, spam reports and unsubscribes also suppress the address.
    *
    * Webhook verification uses ECDSA signature when configured.
    */
@@ -123,12 +127,15 @@ export class SendGridWebhookController {
 
       case 'spamreport':
       case 'unsubscribe':
-        // Log spam reports - may want to mark guest in future
         this.logger.warn(`Email ${eventType}: ${email} (${messageId})`);
-        return false;
+        return this.handleEngagement(messageId, event);
+
+      case 'open':
+      case 'click':
+        return this.handleEngagement(messageId, event);
 
       default:
-        // processed, open, click - informational only
+        // processed - informational only
         return false;
     }
   }
@@ -136,8 +143,8 @@ export class SendGridWebhookController {
   /**
    * Handle delivered event - email was successfully delivered
    */
-  private handleDelivered(messageId: string): boolean {
-    const updated = this.invitationService.updateOutboxByMessageId(
+  private async handleDelivered(messageId: string): Promise<boolean> {
+    const updated = await this.invitationService.updateOutboxByMessageId(
       messageId,
       'delivered' as EmailStatus,
     );
@@ -154,14 +161,14 @@ export class SendGridWebhookController {
   /**
    * Handle bounce event - email bounced (hard or soft)
    */
-  private handleBounce(
+  private async handleBounce(
     messageId: string,
     event: SendGridWebhookEvent,
-  ): boolean {
+  ): Promise<boolean> {
     const bounceType: BounceType = event.type === 'hard' ? 'hard' : 'soft';
     const bounceReason = event.reason || event.response || 'Unknown bounce reason';
 
-    const updated = this.invitationService.updateOutboxByMessageId(
+    const updated = await this.invitationService.updateOutboxByMessageId(
       messageId,
       'bounced' as EmailStatus,
       { bounceType, bounceReason },
@@ -182,14 +189,14 @@ export class SendGridWebhookController {
    * Handle dropped event - email was dropped by SendGrid
    * This happens when the email address is on a suppression list
    */
-  private handleDropped(
+  private async handleDropped(
     messageId: string,
     event: SendGridWebhookEvent,
-  ): boolean {
+  ): Promise<boolean> {
     const bounceReason = event.reason || event.response || 'Dropped by SendGrid';
 
     // Treat dropped as a hard bounce
-    const updated = this.invitationService.updateOutboxByMessageId(
+    const updated = await this.invitationService.updateOutboxByMessageId(
       messageId,
       'bounced' as EmailStatus,
       { bounceType: 'hard', bounceReason },
@@ -204,6 +211,31 @@ export class SendGridWebhookController {
     return updated;
   }
 
+  /**
+   * Handle open, click, spamreport and unsubscribe events
+   * Timestamps come from the event, so late or out-of-order batches keep the real times.
+   */
+  private async handleEngagement(
+    messageId: string,
+    event: SendGridWebhookEvent,
+  ): Promise<boolean> {
+    const occurredAt = Number.isFinite(event.timestamp)
+      ? new Date(event.timestamp * 1000).toISOString()
+      : new Date().toISOString();
+
+    const updated = await this.invitationService.recordOutboxEngagement(
+      messageId,
+      event.event as EmailEngagementEvent,
+      occurredAt,
+    );
+
+    if (!updated) {
+      this.logger.debug(`No outbox record found for ${event.event} messageId: ${messageId}`);
+    }
+
+    return updated;
+  }
+
   /**
    * Verify SendGrid webhook signature using ECDSA
    *
@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { EmailSuppressionService } from './email-suppression.service';
+import { FlowThrottlerGuard, RateLimitFlow } from '../throttle';
+import type { ApiResponse, UnsubscribeRequest, UnsubscribeResponse } from '../types';
+import { INVALID_TOKEN, WEDDING_NOT_FOUND } from '../types';
+
+/**
+ * Public controller for unsubscribe links in guest emails
+ * No authentication required - the signed token names the wedding and address
+ */
+@Controller('unsubscribe')
+export class UnsubscribeController {
+  constructor(private readonly emailSuppressionService: EmailSuppressionService) {}
+
+  /**
+   * Unsubscribe from a wedding's non-essential emails
+   * POST /api/unsubscribe?token=...
+   * The token comes from the query for one-click unsubscribes from the mail
+   * client (List-Unsubscribe-Post), or from the body for the wedding site page.
+   *
+   * Rate limit: 10 requests per minute per visitor (public flow)
+   */
+  @UseGuards(FlowThrottlerGuard)
+  @RateLimitFlow('public')
+  @Throttle({ strict: { ttl: 60000, limit: 10 } })
+  @Post()
+  async unsubscribe(
+    @Query('token') queryToken: string | undefined,
+    @Body() body: Partial<UnsubscribeRequest> | undefined,
+  ): Promise<ApiResponse<UnsubscribeResponse>> {
+    const token = typeof body?.token === 'string' ? body.token : queryToken;
+    if (!token) {
+      throw new BadRequestException({
+        ok: false,
+        error: INVALID_TOKEN,
+      });
+    }
+
+    try {
+      const result = await this.emailSuppressionService.unsubscribe(token);
+      return { ok: true, data: result };
+    } catch (error) {
+      if (error instanceof Error && (error.message === INVALID_TOKEN || error.message === WEDDING_NOT_FOUND)) {
+        throw new NotFoundException({
+          ok: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+  }
+}
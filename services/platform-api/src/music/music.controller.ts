@@ -23,6 +23,7 @@ import {
   VALIDATION_ERROR,
   WEDDING_NOT_FOUND,
 } from '../types';
+import { parsePageOptions } from '../utils/pagination';
 
 /**
  * Admin controller for music request management.
@@ -39,13 +40,15 @@ export class MusicAdminController {
   ) {}
 
   /**
-   * Admin lists all song requests for a wedding.
-   * GET /api/weddings/:weddingId/music/requests
+   * Admin lists song requests for a wedding, newest first.
+   * GET /api/weddings/:weddingId/music/requests?limit=&cursor=
    */
   @Get('requests')
   async listSongRequests(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ): Promise<SongRequestListResponse> {
     const { wedding } = await this.requireWeddingOwner(authHeader, weddingId);
 
@@ -54,12 +57,16 @@ export class MusicAdminController {
       throw new BadRequestException({ ok: false, error: FEATURE_DISABLED });
     }
 
-    const songRequests = this.musicService.getSongRequestsForWedding(weddingId);
+    const page = parsePageOptions(limit, cursor);
+    if (!page) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Invalid pagination limit or cursor',
+      });
+    }
 
-    return {
-      songRequests,
-      total: songRequests.length,
-    };
+    return this.musicService.listSongRequests(weddingId, page);
   }
 
   /**
@@ -75,12 +82,12 @@ export class MusicAdminController {
     await this.requireWeddingOwner(authHeader, weddingId);
 
     // Verify the song request exists and belongs to this wedding
-    const songRequest = this.musicService.getSongRequest(requestId);
+    const songRequest = await this.musicService.getSongRequest(requestId);
     if (!songRequest || songRequest.weddingId !== weddingId) {
       throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
     }
 
-    this.musicService.deleteSongRequest(requestId);
+    await this.musicService.deleteSongRequest(requestId);
 
     return { ok: true };
   }
@@ -105,8 +112,8 @@ export class MusicAdminController {
 
     // Export based on format
     const result = format === 'txt'
-      ? this.musicService.exportPlaylistAsText(weddingId)
-      : this.musicService.exportPlaylistAsCsv(weddingId);
+      ? await this.musicService.exportPlaylistAsText(weddingId)
+      : await this.musicService.exportPlaylistAsCsv(weddingId);
 
     res.setHeader('Content-Type', result.contentType);
     res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
@@ -129,8 +136,8 @@ export class MusicAdminController {
       throw new BadRequestException({ ok: false, error: FEATURE_DISABLED });
     }
 
-    const count = this.musicService.getSongRequestCount(weddingId);
-    const recentRequests = this.musicService.getSongRequestsForWedding(weddingId).slice(0, 5);
+    const { songRequests: recentRequests, total: count } =
+      await this.musicService.listSongRequests(weddingId, { limit: 5 });
 
     return {
       ok: true,
@@ -201,7 +208,7 @@ export class MusicPublicController {
     }
 
     // Submit the song request
-    const songRequest = this.musicService.submitSongRequest(
+    const songRequest = await this.musicService.submitSongRequest(
       wedding.id,
       body.songTitle.trim(),
       body.artistName.trim(),
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { randomBytes } from 'crypto';
-import { SongRequest, ExportPlaylistResponse } from '../types';
+import { SongRequest, SongRequestListResponse, ExportPlaylistResponse } from '../types';
+import { getSupabaseClient, DbSongRequest } from '../utils/supabase';
+import { afterCursorFilter, toPage, PageOptions } from '../utils/pagination';
 
 /**
  * Service for managing guest song requests for weddings.
@@ -10,87 +11,179 @@ import { SongRequest, ExportPlaylistResponse } from '../types';
 export class MusicService {
   private readonly logger = new Logger(MusicService.name);
 
-  // In-memory storage for development (replace with database in production)
-  private songRequests = new Map<string, SongRequest>();
+  /**
+   * Convert database row to API type.
+   */
+  private dbSongRequestToSongRequest(db: DbSongRequest): SongRequest {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      songTitle: db.song_title,
+      artistName: db.artist_name,
+      requesterName: db.requester_name ?? undefined,
+      createdAt: db.created_at,
+    };
+  }
 
   /**
    * Submit a new song request for a wedding.
    */
-  submitSongRequest(
+  async submitSongRequest(
     weddingId: string,
     songTitle: string,
     artistName: string,
     requesterName?: string,
-  ): SongRequest {
-    const id = randomBytes(16).toString('hex');
-    const now = new Date().toISOString();
-
-    const songRequest: SongRequest = {
-      id,
-      weddingId,
-      songTitle: songTitle.trim(),
-      artistName: artistName.trim(),
-      requesterName: requesterName?.trim(),
-      createdAt: now,
-    };
+  ): Promise<SongRequest> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('song_requests')
+      .insert({
+        wedding_id: weddingId,
+        song_title: songTitle.trim(),
+        artist_name: artistName.trim(),
+        requester_name: requesterName?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error('Failed to create song request', error);
+      throw new Error('Failed to create song request');
+    }
 
-    this.songRequests.set(id, songRequest);
     this.logger.log(`Song request submitted: "${songTitle}" by ${artistName} for wedding ${weddingId}`);
 
-    return songRequest;
+    return this.dbSongRequestToSongRequest(data as DbSongRequest);
   }
 
   /**
-   * Get all song requests for a wedding.
+   * List song requests for a wedding, newest first, one page at a time.
    */
-  getSongRequestsForWedding(weddingId: string): SongRequest[] {
-    const requests: SongRequest[] = [];
-    for (const request of this.songRequests.values()) {
-      if (request.weddingId === weddingId) {
-        requests.push(request);
+  async listSongRequests(weddingId: string, page: PageOptions): Promise<SongRequestListResponse> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from('song_requests')
+      .select('*')
+      .eq('wedding_id', weddingId);
+
+    if (page.cursor) {
+      query = query.or(afterCursorFilter(page.cursor));
+    }
+
+    // Fetch one extra row to know whether another page follows
+    const [{ data, error }, total] = await Promise.all([
+      query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(page.limit + 1),
+      this.getSongRequestCount(weddingId),
+    ]);
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to list song requests for wedding ${weddingId}`, error);
       }
+      return { songRequests: [], total };
     }
-    // Sort by creation date (newest first)
-    return requests.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    const { rows, nextCursor } = toPage(data as DbSongRequest[], page.limit);
+    return {
+      songRequests: rows.map((row) => this.dbSongRequestToSongRequest(row)),
+      total,
+      nextCursor,
+    };
   }
 
   /**
-   * Get song request count for a wedding.
+   * Get all song requests for a wedding (newest first).
    */
-  getSongRequestCount(weddingId: string): number {
-    let count = 0;
-    for (const request of this.songRequests.values()) {
-      if (request.weddingId === weddingId) {
-        count++;
+  async getSongRequestsForWedding(weddingId: string): Promise<SongRequest[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('song_requests')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to load song requests for wedding ${weddingId}`, error);
       }
+      return [];
     }
-    return count;
+
+    return (data as DbSongRequest[]).map((row) => this.dbSongRequestToSongRequest(row));
+  }
+
+  /**
+   * Get song request count for a wedding.
+   */
+  async getSongRequestCount(weddingId: string): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { count, error } = await supabase
+      .from('song_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('wedding_id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to count song requests for wedding ${weddingId}`, error);
+      return 0;
+    }
+
+    return count ?? 0;
   }
 
   /**
    * Delete a song request.
    */
-  deleteSongRequest(id: string): boolean {
-    if (this.songRequests.has(id)) {
-      this.songRequests.delete(id);
-      this.logger.log(`Song request deleted: ${id}`);
-      return true;
+  async deleteSongRequest(id: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('song_requests')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to delete song request ${id}`, error);
+      return false;
+    }
+
+    if ((data?.length ?? 0) === 0) {
+      return false;
     }
-    return false;
+
+    this.logger.log(`Song request deleted: ${id}`);
+    return true;
   }
 
   /**
    * Get a single song request by ID.
    */
-  getSongRequest(id: string): SongRequest | undefined {
-    return this.songRequests.get(id);
+  async getSongRequest(id: string): Promise<SongRequest | undefined> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('song_requests')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return this.dbSongRequestToSongRequest(data as DbSongRequest);
   }
 
   /**
    * Export song requests as CSV for DJ.
    */
-  exportPlaylistAsCsv(weddingId: string): ExportPlaylistResponse {
-    const requests = this.getSongRequestsForWedding(weddingId);
+  async exportPlaylistAsCsv(weddingId: string): Promise<ExportPlaylistResponse> {
+    const requests = await this.getSongRequestsForWedding(weddingId);
 
     // Build CSV content
     const header = 'Song Title,Artist,Requested By,Date Requested';
@@ -122,8 +215,8 @@ export class MusicService {
   /**
    * Export song requests as plain text for DJ.
    */
-  exportPlaylistAsText(weddingId: string): ExportPlaylistResponse {
-    const requests = this.getSongRequestsForWedding(weddingId);
+  async exportPlaylistAsText(weddingId: string): Promise<ExportPlaylistResponse> {
+    const requests = await this.getSongRequestsForWedding(weddingId);
 
     const lines = requests.map((r, i) => {
       const requester = r.requesterName ? ` (requested by ${r.requesterName})` : '';
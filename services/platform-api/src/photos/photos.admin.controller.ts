@@ -68,7 +68,7 @@ export class PhotosAdminController {
       throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
     }
 
-    const photos = this.photosService.listPhotos(weddingId, statusFilter);
+    const photos = await this.photosService.listPhotos(weddingId, statusFilter);
     return { ok: true, data: { photos } };
   }
 
@@ -96,7 +96,7 @@ export class PhotosAdminController {
       });
     }
 
-    const summary = this.photosService.getPhotoSummary(weddingId);
+    const summary = await this.photosService.getPhotoSummary(weddingId);
     return { ok: true, data: { summary } };
   }
 
@@ -171,7 +171,7 @@ export class PhotosAdminController {
       throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
     }
 
-    const photo = this.photosService.moderatePhoto(weddingId, photoId, body.status);
+    const photo = await this.photosService.moderatePhoto(weddingId, photoId, body.status);
 
     if (!photo) {
       throw new NotFoundException({ ok: false, error: PHOTO_NOT_FOUND });
@@ -205,7 +205,7 @@ export class PhotosAdminController {
       });
     }
 
-    const removed = this.photosService.removePhoto(weddingId, photoId);
+    const removed = await this.photosService.removePhoto(weddingId, photoId);
 
     if (!removed) {
       throw new NotFoundException({ ok: false, error: PHOTO_NOT_FOUND });
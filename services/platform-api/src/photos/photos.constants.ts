@@ -1,2 +1,3 @@
 export const MAX_PHOTO_SIZE_BYTES = 10 * 1024 * 1024;
 export const PHOTO_UPLOAD_TTL_MS = 10 * 60 * 1000;
+export const PHOTO_SIGNED_URL_TTL_SECONDS = 60 * 60;
@@ -3,17 +3,20 @@ import {
   Body,
   Controller,
   ForbiddenException,
+  Get,
+  Inject,
   NotFoundException,
   Param,
   Post,
   Query,
   Req,
+  Res,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
 import { FileInterceptor } from '@nestjs/platform-express';
-import type { Request } from 'express';
+import type { Request, Response } from 'express';
 import type {
   ApiResponse,
   PhotoUploadUrlRequest,
@@ -31,6 +34,7 @@ import {
 import { WeddingService } from '../wedding/wedding.service';
 import { PhotosService } from './photos.service';
 import { MAX_PHOTO_SIZE_BYTES } from './photos.constants';
+import { PHOTO_STORAGE, PhotoStorageAdapter, LocalPhotoStorage } from './storage';
 
 /**
  * Public controller for guest photo uploads
@@ -43,6 +47,8 @@ export class PhotosController {
   constructor(
     private readonly weddingService: WeddingService,
     private readonly photosService: PhotosService,
+    @Inject(PHOTO_STORAGE)
+    private readonly storage: PhotoStorageAdapter,
   ) {}
 
   /**
@@ -101,7 +107,7 @@ export class PhotosController {
     // Check if moderation is required for this wedding
     const moderationRequired = await this.weddingService.isPhotoModerationRequired(wedding.id);
 
-    const { uploadId, signature, expiresAt } = this.photosService.createUpload(
+    const { uploadId, signature, expiresAt } = await this.photosService.createUpload(
       wedding.id,
       fileName,
       contentType,
@@ -163,7 +169,7 @@ export class PhotosController {
       });
     }
 
-    const upload = this.photosService.getUpload(uploadId);
+    const upload = await this.photosService.getUpload(uploadId);
 
     if (!upload) {
       throw new ForbiddenException({
@@ -222,7 +228,15 @@ export class PhotosController {
       });
     }
 
-    await this.photosService.storeUpload(upload, file);
+    const stored = await this.photosService.storeUpload(upload, file);
+
+    // Another request used this signed URL first
+    if (!stored) {
+      throw new ForbiddenException({
+        ok: false,
+        error: PHOTO_UPLOAD_INVALID,
+      });
+    }
 
     return { ok: true, data: { uploadId } };
   }
@@ -241,7 +255,7 @@ export class PhotosController {
   async completeUpload(
     @Body() body: { uploadId: string; uploaderName?: string; uploaderEmail?: string },
   ): Promise<ApiResponse<PhotoMetadata>> {
-    const { uploadId } = body || {};
+    const { uploadId, uploaderName, uploaderEmail } = body || {};
 
     if (!uploadId) {
       throw new BadRequestException({
@@ -250,7 +264,10 @@ export class PhotosController {
       });
     }
 
-    const photo = this.photosService.completeUpload(uploadId);
+    const photo = await this.photosService.completeUpload(uploadId, {
+      name: uploaderName,
+      email: uploaderEmail,
+    });
 
     if (!photo) {
       throw new NotFoundException({
@@ -261,4 +278,40 @@ export class PhotosController {
 
     return { ok: true, data: photo };
   }
+
+  /**
+   * Serve a photo stored on local disk via a signed, expiring URL
+   * GET /api/photos/file?key=...&expires=...&signature=...
+   *
+   * Only used by the local storage driver; Supabase Storage and S3 sign their own URLs.
+   */
+  @Get('file')
+  async getLocalFile(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (!(this.storage instanceof LocalPhotoStorage) || !key || !expires || !signature) {
+      throw new NotFoundException({ ok: false, error: PHOTO_UPLOAD_INVALID });
+    }
+
+    let filePath: string | null;
+    try {
+      filePath = this.storage.resolveSignedPath(key, Number(expires), signature);
+    } catch {
+      filePath = null;
+    }
+
+    if (!filePath) {
+      throw new ForbiddenException({ ok: false, error: PHOTO_UPLOAD_INVALID });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ ok: false, error: PHOTO_UPLOAD_INVALID });
+      }
+    });
+  }
 }
@@ -2,12 +2,20 @@ import { Module } from '@nestjs/common';
 import { PhotosController } from './photos.controller';
 import { PhotosAdminController } from './photos.admin.controller';
 import { PhotosService } from './photos.service';
+import { PHOTO_STORAGE, createPhotoStorage } from './storage';
 import { AuthModule } from '../auth/auth.module';
 import { WeddingModule } from '../wedding/wedding.module';
 
 @Module({
   imports: [AuthModule, WeddingModule],
   controllers: [PhotosController, PhotosAdminController],
-  providers: [PhotosService],
+  providers: [
+    PhotosService,
+    {
+      // Storage backend is selected by PHOTO_STORAGE_DRIVER (local, supabase, s3)
+      provide: PHOTO_STORAGE,
+      useFactory: createPhotoStorage,
+    },
+  ],
 })
 export class PhotosModule {}
@@ -1,9 +1,14 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import type { PhotoMetadata, PhotoModerationStatus, PhotoSummary } from '../types';
-import { createHmac, randomBytes } from 'crypto';
+import { createHmac, randomUUID } from 'crypto';
 import { promises as fs } from 'fs';
-import path from 'path';
-import { MAX_PHOTO_SIZE_BYTES, PHOTO_UPLOAD_TTL_MS } from './photos.constants';
+import { getSupabaseClient, DbPhoto, DbPhotoUpload } from '../utils/supabase';
+import {
+  MAX_PHOTO_SIZE_BYTES,
+  PHOTO_SIGNED_URL_TTL_SECONDS,
+  PHOTO_UPLOAD_TTL_MS,
+} from './photos.constants';
+import { PHOTO_STORAGE, PhotoStorageAdapter } from './storage';
 
 export interface UploadSession {
   id: string;
@@ -19,51 +24,114 @@ export interface UploadSession {
   moderationRequired?: boolean;
 }
 
-interface StoredPhoto extends PhotoMetadata {
-  weddingId: string;
-  storagePath: string;
-}
-
 @Injectable()
 export class PhotosService {
   private readonly logger = new Logger(PhotosService.name);
   private readonly secret =
     process.env.PHOTO_UPLOAD_SECRET || 'dev-photo-upload-secret';
-  private uploads = new Map<string, UploadSession>();
-  private photosByWedding = new Map<string, StoredPhoto[]>();
+
+  constructor(
+    @Inject(PHOTO_STORAGE)
+    private readonly storage: PhotoStorageAdapter,
+  ) {}
 
   getMaxFileSize(): number {
     return MAX_PHOTO_SIZE_BYTES;
   }
 
-  createUpload(
+  /**
+   * Convert database upload row to upload session
+   */
+  private dbUploadToSession(db: DbPhotoUpload): UploadSession {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      fileName: db.file_name,
+      contentType: db.content_type,
+      fileSize: db.file_size,
+      expiresAt: new Date(db.expires_at).getTime(),
+      createdAt: db.created_at,
+      uploadedAt: db.completed_at ?? undefined,
+      storagePath: db.storage_path,
+      moderationRequired: db.moderation_required,
+    };
+  }
+
+  /**
+   * Convert database photo row to API type with a fresh signed URL.
+   * The storage key is never exposed.
+   */
+  private async dbPhotoToPhoto(db: DbPhoto): Promise<PhotoMetadata> {
+    const photo: PhotoMetadata = {
+      id: db.id,
+      fileName: db.file_name,
+      contentType: db.content_type,
+      fileSize: db.file_size,
+      uploadedAt: db.uploaded_at,
+      moderationStatus: db.moderation_status as PhotoModerationStatus,
+      moderatedAt: db.moderated_at ?? undefined,
+    };
+
+    try {
+      photo.url = await this.storage.getSignedUrl(
+        db.storage_path,
+        PHOTO_SIGNED_URL_TTL_SECONDS,
+      );
+      photo.urlExpiresAt = new Date(
+        Date.now() + PHOTO_SIGNED_URL_TTL_SECONDS * 1000,
+      ).toISOString();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to sign URL for photo ${db.id}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    return photo;
+  }
+
+  async createUpload(
     weddingId: string,
     fileName: string,
     contentType: string,
     fileSize: number,
     moderationRequired = false,
-  ): { uploadId: string; signature: string; expiresAt: number } {
-    const uploadId = randomBytes(16).toString('hex');
+  ): Promise<{ uploadId: string; signature: string; expiresAt: number }> {
+    const supabase = getSupabaseClient();
+    const uploadId = randomUUID();
     const expiresAt = Date.now() + PHOTO_UPLOAD_TTL_MS;
     const signature = this.signUpload(uploadId, expiresAt, contentType, fileSize);
-    const createdAt = new Date().toISOString();
+    const storagePath = `${weddingId}/${uploadId}-${this.sanitizeFileName(fileName)}`;
 
-    this.uploads.set(uploadId, {
+    const { error } = await supabase.from('photo_uploads').insert({
       id: uploadId,
-      weddingId,
-      fileName,
-      contentType,
-      fileSize,
-      expiresAt,
-      createdAt,
-      moderationRequired,
+      wedding_id: weddingId,
+      file_name: fileName,
+      content_type: contentType,
+      file_size: fileSize,
+      storage_path: storagePath,
+      moderation_required: moderationRequired,
+      expires_at: new Date(expiresAt).toISOString(),
     });
 
+    if (error) {
+      this.logger.error(`Failed to create photo upload for wedding ${weddingId}`, error);
+      throw new Error('Failed to create photo upload');
+    }
+
     return { uploadId, signature, expiresAt };
   }
 
-  getUpload(uploadId: string): UploadSession | null {
-    return this.uploads.get(uploadId) || null;
+  async getUpload(uploadId: string): Promise<UploadSession | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('photo_uploads')
+      .select('*')
+      .eq('id', uploadId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbUploadToSession(data as DbPhotoUpload);
   }
 
   /**
@@ -71,72 +139,117 @@ export class PhotosService {
    * @param weddingId The wedding ID
    * @param statusFilter Optional filter by moderation status
    */
-  listPhotos(weddingId: string, statusFilter?: PhotoModerationStatus): PhotoMetadata[] {
-    let photos = this.photosByWedding.get(weddingId) ?? [];
+  async listPhotos(
+    weddingId: string,
+    statusFilter?: PhotoModerationStatus,
+  ): Promise<PhotoMetadata[]> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from('photos')
+      .select('*')
+      .eq('wedding_id', weddingId);
 
     if (statusFilter) {
-      photos = photos.filter((p) => p.moderationStatus === statusFilter);
+      query = query.eq('moderation_status', statusFilter);
     }
 
-    return [...photos]
-      .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))
-      .map(({ storagePath, weddingId: _weddingId, ...photo }) => photo);
+    const { data, error } = await query.order('uploaded_at', { ascending: false });
+
+    if (error || !data) return [];
+    return Promise.all(data.map((p) => this.dbPhotoToPhoto(p as DbPhoto)));
+  }
+
+  /**
+   * Get a single photo row by ID, scoped to a wedding
+   */
+  private async getPhotoRow(weddingId: string, photoId: string): Promise<DbPhoto | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('photos')
+      .select('*')
+      .eq('id', photoId)
+      .eq('wedding_id', weddingId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return data as DbPhoto;
   }
 
   /**
    * Get a single photo by ID
    */
-  getPhoto(weddingId: string, photoId: string): PhotoMetadata | null {
-    const photos = this.photosByWedding.get(weddingId) ?? [];
-    const photo = photos.find((p) => p.id === photoId);
-    if (!photo) return null;
-    const { storagePath: _sp, weddingId: _wid, ...result } = photo;
-    return result;
+  async getPhoto(weddingId: string, photoId: string): Promise<PhotoMetadata | null> {
+    const row = await this.getPhotoRow(weddingId, photoId);
+    return row ? this.dbPhotoToPhoto(row) : null;
   }
 
   /**
    * Moderate a photo (approve or reject)
    * PRD: "Admin can approve or reject guest photos"
    */
-  moderatePhoto(
+  async moderatePhoto(
     weddingId: string,
     photoId: string,
     status: 'approved' | 'rejected',
-  ): PhotoMetadata | null {
-    const photos = this.photosByWedding.get(weddingId) ?? [];
-    const photoIndex = photos.findIndex((p) => p.id === photoId);
-
-    if (photoIndex === -1) {
+  ): Promise<PhotoMetadata | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('photos')
+      .update({
+        moderation_status: status,
+        moderated_at: new Date().toISOString(),
+      })
+      .eq('id', photoId)
+      .eq('wedding_id', weddingId)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        this.logger.error(`Failed to moderate photo ${photoId}`, error);
+      }
       return null;
     }
 
-    const photo = photos[photoIndex];
-    photo.moderationStatus = status;
-    photo.moderatedAt = new Date().toISOString();
-    photos[photoIndex] = photo;
-    this.photosByWedding.set(weddingId, photos);
-
     this.logger.log(`Photo ${photoId} moderated to ${status} for wedding ${weddingId}`);
 
-    const { storagePath: _sp, weddingId: _wid, ...result } = photo;
-    return result;
+    return this.dbPhotoToPhoto(data as DbPhoto);
   }
 
   /**
    * Remove a photo (for admin to remove previously approved photos)
    * PRD: "Admin can remove previously approved photos"
    */
-  removePhoto(weddingId: string, photoId: string): boolean {
-    const photos = this.photosByWedding.get(weddingId) ?? [];
-    const photoIndex = photos.findIndex((p) => p.id === photoId);
+  async removePhoto(weddingId: string, photoId: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+    const row = await this.getPhotoRow(weddingId, photoId);
 
-    if (photoIndex === -1) {
+    if (!row) {
       return false;
     }
 
-    // Remove the photo from the list
-    photos.splice(photoIndex, 1);
-    this.photosByWedding.set(weddingId, photos);
+    const { error } = await supabase
+      .from('photos')
+      .delete()
+      .eq('id', photoId)
+      .eq('wedding_id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to remove photo ${photoId}`, error);
+      return false;
+    }
+
+    // The record is gone either way; a leftover object is only wasted space
+    try {
+      await this.storage.delete(row.storage_path);
+    } catch (storageError) {
+      this.logger.warn(
+        `Failed to delete stored file for photo ${photoId}: ${storageError instanceof Error ? storageError.message : storageError}`,
+      );
+    }
 
     this.logger.log(`Photo ${photoId} removed from wedding ${weddingId}`);
     return true;
@@ -146,33 +259,37 @@ export class PhotosService {
    * Get photo upload summary statistics for dashboard
    * PRD: "Dashboard shows photo upload count"
    */
-  getPhotoSummary(weddingId: string): PhotoSummary {
-    const photos = this.photosByWedding.get(weddingId) ?? [];
+  async getPhotoSummary(weddingId: string): Promise<PhotoSummary> {
+    const supabase = getSupabaseClient();
 
     // Sort by most recent first
-    const sortedPhotos = [...photos].sort((a, b) =>
-      b.uploadedAt.localeCompare(a.uploadedAt),
-    );
+    const { data, error } = await supabase
+      .from('photos')
+      .select('*')
+      .eq('wedding_id', weddingId)
+      .order('uploaded_at', { ascending: false });
+
+    const photos = error || !data ? [] : (data as DbPhoto[]);
 
     // Calculate total size
-    const totalSizeBytes = photos.reduce((sum, photo) => sum + photo.fileSize, 0);
+    const totalSizeBytes = photos.reduce((sum, photo) => sum + photo.file_size, 0);
 
     // Get recent uploads (last 5) - map to PhotoMetadata without internal fields
-    const recentUploads = sortedPhotos.slice(0, 5).map(
-      ({ storagePath: _sp, weddingId: _wid, ...photo }) => photo,
+    const recentUploads = await Promise.all(
+      photos.slice(0, 5).map((photo) => this.dbPhotoToPhoto(photo)),
     );
 
     // Count by moderation status
     const pendingModerationCount = photos.filter(
-      (p) => p.moderationStatus === 'pending',
+      (p) => p.moderation_status === 'pending',
     ).length;
-    const approvedCount = photos.filter((p) => p.moderationStatus === 'approved').length;
-    const rejectedCount = photos.filter((p) => p.moderationStatus === 'rejected').length;
+    const approvedCount = photos.filter((p) => p.moderation_status === 'approved').length;
+    const rejectedCount = photos.filter((p) => p.moderation_status === 'rejected').length;
 
     return {
       totalPhotos: photos.length,
       totalSizeBytes,
-      lastUploadedAt: sortedPhotos[0]?.uploadedAt,
+      lastUploadedAt: photos[0]?.uploaded_at,
       recentUploads,
       pendingModerationCount,
       approvedCount,
@@ -188,10 +305,15 @@ export class PhotosService {
    * Complete a photo upload by confirming it and returning photo metadata
    * This endpoint is called after the file upload to get the final photo record
    * @param uploadId The upload session ID
+   * @param uploader Optional uploader details to attach to the photo
    * @returns Photo metadata if the upload was completed, null if not found or not uploaded
    */
-  completeUpload(uploadId: string): PhotoMetadata | null {
-    const upload = this.uploads.get(uploadId);
+  async completeUpload(
+    uploadId: string,
+    uploader?: { name?: string; email?: string },
+  ): Promise<PhotoMetadata | null> {
+    const supabase = getSupabaseClient();
+    const upload = await this.getUpload(uploadId);
 
     if (!upload) {
       this.logger.warn(`Complete upload called for non-existent upload: ${uploadId}`);
@@ -204,16 +326,32 @@ export class PhotosService {
     }
 
     // Find the photo record that was created during storeUpload
-    const photos = this.photosByWedding.get(upload.weddingId) ?? [];
-    const photo = photos.find((p) => p.id === uploadId);
+    const row = await this.getPhotoRow(upload.weddingId, uploadId);
 
-    if (!photo) {
+    if (!row) {
       this.logger.warn(`Photo record not found for completed upload: ${uploadId}`);
       return null;
     }
 
-    const { storagePath: _sp, weddingId: _wid, ...result } = photo;
-    return result;
+    const uploaderName = uploader?.name?.trim();
+    const uploaderEmail = uploader?.email?.trim();
+    if (uploaderName || uploaderEmail) {
+      const { data } = await supabase
+        .from('photos')
+        .update({
+          uploader_name: uploaderName || row.uploader_name,
+          uploader_email: uploaderEmail || row.uploader_email,
+        })
+        .eq('id', uploadId)
+        .select()
+        .maybeSingle();
+
+      if (data) {
+        return this.dbPhotoToPhoto(data as DbPhoto);
+      }
+    }
+
+    return this.dbPhotoToPhoto(row);
   }
 
   verifySignature(
@@ -227,30 +365,55 @@ export class PhotosService {
     return expected === signature;
   }
 
+  /**
+   * Store uploaded bytes and create the photo record.
+   * The upload is claimed atomically first, so a signed URL can only be used once
+   * even if two requests race.
+   *
+   * @returns false if the upload was already used
+   */
   async storeUpload(
     upload: UploadSession,
     file: { originalname: string; buffer?: Buffer; path?: string },
-  ): Promise<void> {
-    const baseDir =
-      process.env.PHOTO_UPLOAD_DIR || path.resolve(process.cwd(), 'uploads');
-    const safeName = this.sanitizeFileName(file.originalname || upload.fileName);
-    const weddingDir = path.join(baseDir, upload.weddingId);
-
-    await fs.mkdir(weddingDir, { recursive: true });
-
-    const filePath = path.join(weddingDir, `${upload.id}-${safeName}`);
+  ): Promise<boolean> {
+    const supabase = getSupabaseClient();
     const buffer = file.buffer ?? (file.path ? await fs.readFile(file.path) : null);
 
     if (!buffer) {
       throw new Error('Photo upload payload is empty');
     }
 
-    await fs.writeFile(filePath, buffer);
-
+    const storagePath =
+      upload.storagePath ??
+      `${upload.weddingId}/${upload.id}-${this.sanitizeFileName(file.originalname || upload.fileName)}`;
     const uploadedAt = new Date().toISOString();
-    upload.storagePath = filePath;
-    upload.uploadedAt = uploadedAt;
-    this.uploads.set(upload.id, upload);
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('photo_uploads')
+      .update({ completed_at: uploadedAt })
+      .eq('id', upload.id)
+      .is('completed_at', null)
+      .select('id');
+
+    if (claimError) {
+      this.logger.error(`Failed to claim photo upload ${upload.id}`, claimError);
+      throw new Error('Failed to store photo upload');
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return false;
+    }
+
+    try {
+      await this.storage.put(storagePath, buffer, upload.contentType);
+    } catch (error) {
+      // Release the claim so the guest can retry with the same signed URL
+      await supabase
+        .from('photo_uploads')
+        .update({ completed_at: null })
+        .eq('id', upload.id);
+      throw error;
+    }
 
     // Set moderation status based on whether moderation is required
     // If moderation is required, photos go to 'pending'; otherwise 'approved'
@@ -258,18 +421,29 @@ export class PhotosService {
       ? 'pending'
       : 'approved';
 
-    this.addPhotoRecord({
+    const { error } = await supabase.from('photos').insert({
       id: upload.id,
-      weddingId: upload.weddingId,
-      fileName: file.originalname || upload.fileName,
-      contentType: upload.contentType,
-      fileSize: buffer.length,
-      uploadedAt,
-      storagePath: filePath,
-      moderationStatus,
+      wedding_id: upload.weddingId,
+      file_name: file.originalname || upload.fileName,
+      content_type: upload.contentType,
+      file_size: buffer.length,
+      storage_path: storagePath,
+      moderation_status: moderationStatus,
+      uploaded_at: uploadedAt,
     });
 
-    this.logger.log(`Stored photo upload ${upload.id} to ${filePath}`);
+    if (error) {
+      this.logger.error(`Failed to create photo record for upload ${upload.id}`, error);
+      throw new Error('Failed to store photo upload');
+    }
+
+    upload.storagePath = storagePath;
+    upload.uploadedAt = uploadedAt;
+
+    this.logger.log(
+      `Stored photo upload ${upload.id} via ${this.storage.driver} storage`,
+    );
+    return true;
   }
 
   private signUpload(
@@ -288,9 +462,4 @@ export class PhotosService {
     const sanitized = trimmed.replace(/[^a-z0-9._-]/g, '-');
     return sanitized || 'upload';
   }
-
-  private addPhotoRecord(record: StoredPhoto): void {
-    const current = this.photosByWedding.get(record.weddingId) ?? [];
-    this.photosByWedding.set(record.weddingId, [record, ...current]);
-  }
 }
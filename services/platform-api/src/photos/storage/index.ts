@@ -0,0 +1,6 @@
+export { PHOTO_STORAGE } from './photo-storage';
+export type { PhotoStorageAdapter, PhotoStorageDriver } from './photo-storage';
+export { LocalPhotoStorage } from './local-photo-storage';
+export { SupabasePhotoStorage } from './supabase-photo-storage';
+export { S3PhotoStorage } from './s3-photo-storage';
+export { createPhotoStorage } from './photo-storage.factory';
@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PhotoStorageAdapter } from './photo-storage';
+
+/**
+ * Stores photos on the API container's local disk (PHOTO_UPLOAD_DIR).
+ * Intended for development: files do not survive a redeploy and are not
+ * shared between API instances.
+ *
+ * Signed URLs point back at GET /api/photos/file, which verifies the HMAC
+ * and streams the file.
+ */
+export class LocalPhotoStorage implements PhotoStorageAdapter {
+  readonly driver = 'local' as const;
+
+  constructor(
+    private readonly baseDir: string,
+    private readonly publicBaseUrl: string,
+    private readonly secret: string,
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Date.now() + expiresInSeconds * 1000;
+    const signature = this.sign(key, expires);
+    const query = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature,
+    });
+    return `${this.publicBaseUrl}/photos/file?${query.toString()}`;
+  }
+
+  /**
+   * Verify a signed URL and return the file path it grants access to.
+   * Returns null if the signature is invalid or expired.
+   */
+  resolveSignedPath(key: string, expires: number, signature: string): string | null {
+    if (!Number.isFinite(expires) || Date.now() > expires) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return null;
+    }
+
+    return this.resolvePath(key);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${key}.${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Resolve a key under the base directory, rejecting path traversal
+   */
+  private resolvePath(key: string): string {
+    const root = path.resolve(this.baseDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid photo storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,54 @@
+import path from 'path';
+import type { PhotoStorageAdapter, PhotoStorageDriver } from './photo-storage';
+import { LocalPhotoStorage } from './local-photo-storage';
+import { SupabasePhotoStorage } from './supabase-photo-storage';
+import { S3PhotoStorage } from './s3-photo-storage';
+
+const DEFAULT_SUPABASE_BUCKET = 'photos';
+const DEFAULT_S3_REGION = 'us-east-1';
+
+/**
+ * Build the photo storage adapter selected by PHOTO_STORAGE_DRIVER.
+ * Defaults to local disk outside production and Supabase Storage in production.
+ */
+export function createPhotoStorage(): PhotoStorageAdapter {
+  const driver = (process.env.PHOTO_STORAGE_DRIVER ||
+    (process.env.NODE_ENV === 'production' ? 'supabase' : 'local')) as PhotoStorageDriver;
+
+  switch (driver) {
+    case 'local': {
+      const baseDir =
+        process.env.PHOTO_UPLOAD_DIR || path.resolve(process.cwd(), 'uploads');
+      const apiBaseUrl =
+        process.env.PLATFORM_API_URL ||
+        `http://localhost:${process.env.PORT || 3001}/api`;
+      const secret = process.env.PHOTO_UPLOAD_SECRET || 'dev-photo-upload-secret';
+      return new LocalPhotoStorage(baseDir, apiBaseUrl, secret);
+    }
+
+    case 'supabase':
+      return new SupabasePhotoStorage(
+        process.env.PHOTO_STORAGE_BUCKET || DEFAULT_SUPABASE_BUCKET,
+      );
+
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('S3_BUCKET is required when PHOTO_STORAGE_DRIVER=s3');
+      }
+      return new S3PhotoStorage({
+        bucket,
+        region: process.env.S3_REGION || DEFAULT_S3_REGION,
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    }
+
+    default:
+      throw new Error(
+        `Unknown PHOTO_STORAGE_DRIVER "${driver}". Use local, supabase, or s3.`,
+      );
+  }
+}
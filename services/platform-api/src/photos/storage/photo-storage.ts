@@ -0,0 +1,28 @@
+/**
+ * Injection token for the configured photo storage adapter
+ */
+export const PHOTO_STORAGE = Symbol('PHOTO_STORAGE');
+
+/**
+ * Supported storage drivers, selected with PHOTO_STORAGE_DRIVER
+ */
+export type PhotoStorageDriver = 'local' | 'supabase' | 's3';
+
+/**
+ * Storage backend for guest photo bytes.
+ *
+ * Keys are `<weddingId>/<uploadId>-<fileName>` and are never exposed to clients;
+ * photos are served through signed URLs that expire.
+ */
+export interface PhotoStorageAdapter {
+  readonly driver: PhotoStorageDriver;
+
+  /** Write an object, replacing any existing object with the same key */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /** Delete an object. Missing objects are not an error. */
+  delete(key: string): Promise<void>;
+
+  /** Create a URL that grants read access to the object until it expires */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,71 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { PhotoStorageAdapter } from './photo-storage';
+
+export interface S3PhotoStorageConfig {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services (e.g. MinIO, R2) */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Path-style addressing (required by MinIO) */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Stores photos in an S3-compatible bucket. Run MinIO locally to stand in for S3.
+ * Signed URLs are presigned GET requests.
+ */
+export class S3PhotoStorage implements PhotoStorageAdapter {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3PhotoStorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+      }),
+    );
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { getSupabaseClient } from '../../utils/supabase';
+import type { PhotoStorageAdapter } from './photo-storage';
+
+/**
+ * Stores photos in a private Supabase Storage bucket (see 00000000000001_storage.sql).
+ * Uses the service-role client, so bucket policies do not apply to the API.
+ */
+export class SupabasePhotoStorage implements PhotoStorageAdapter {
+  readonly driver = 'supabase' as const;
+
+  constructor(private readonly bucket: string) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .storage.from(this.bucket)
+      .upload(key, body, { contentType, upsert: true });
+
+    if (error) {
+      throw new Error(`Supabase Storage upload failed: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .storage.from(this.bucket)
+      .remove([key]);
+
+    if (error) {
+      throw new Error(`Supabase Storage delete failed: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { data, error } = await getSupabaseClient()
+      .storage.from(this.bucket)
+      .createSignedUrl(key, expiresInSeconds);
+
+    if (error || !data) {
+      throw new Error(`Supabase Storage signing failed: ${error?.message ?? 'no URL returned'}`);
+    }
+
+    return data.signedUrl;
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Put,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { WeddingService } from '../wedding/wedding.service';
+import { InvitationService } from '../invitation/invitation.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import type {
+  ApiResponse,
+  RsvpDeadlineConfig,
+  UpdateRsvpDeadlineRequest,
+  UpdateRsvpDeadlineResponse,
+} from '../types';
+import {
+  FEATURE_DISABLED,
+  VALIDATION_ERROR,
+  WEDDING_NOT_FOUND,
+} from '../types';
+import { isValidDateString } from '../utils/rsvp-deadline';
+
+/**
+ * Most automatic reminders a deadline can have
+ */
+const MAX_DEADLINE_REMINDERS = 5;
+
+/**
+ * Furthest ahead of the deadline a reminder can be sent, in days
+ */
+const MAX_REMINDER_DAYS_BEFORE = 365;
+
+/**
+ * RSVP deadline settings: the RSVP-by date, late response lockout and reminder cadence
+ */
+@Controller('weddings/:weddingId/rsvp-deadline')
+export class RsvpDeadlineController {
+  constructor(
+    private readonly weddingService: WeddingService,
+    private readonly invitationService: InvitationService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Set or clear the RSVP deadline
+   * Replaces any automatic reminders still waiting to be sent
+   */
+  @Put()
+  async updateRsvpDeadline(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: UpdateRsvpDeadlineRequest,
+  ): Promise<ApiResponse<UpdateRsvpDeadlineResponse>> {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    if (!wedding.features.RSVP) {
+      throw new ForbiddenException({
+        ok: false,
+        error: FEATURE_DISABLED,
+      });
+    }
+
+    if (!body || body.rsvpDeadline === undefined) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'rsvpDeadline is required (null removes the deadline)',
+      });
+    }
+
+    const rsvpDeadline = body.rsvpDeadline === null
+      ? null
+      : this.validateDeadline(body.rsvpDeadline);
+
+    const result = await this.weddingService.updateRsvpDeadline(weddingId, rsvpDeadline);
+    if (!result) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    const scheduledReminders = await this.invitationService.scheduleDeadlineReminders(result.wedding);
+
+    return { ok: true, data: { wedding: result.wedding, scheduledReminders } };
+  }
+
+  /**
+   * Validate a deadline and normalize its reminder cadence (unique days, furthest first)
+   */
+  private validateDeadline(deadline: RsvpDeadlineConfig): RsvpDeadlineConfig {
+    if (!isValidDateString(deadline.date)) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Deadline must be a date in YYYY-MM-DD format',
+      });
+    }
+
+    if (typeof deadline.allowLateEdits !== 'boolean') {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'allowLateEdits must be true or false',
+      });
+    }
+
+    const days = deadline.reminderDaysBefore ?? [];
+    if (
+      !Array.isArray(days) ||
+      days.some((day) => !Number.isInteger(day) || day < 1 || day > MAX_REMINDER_DAYS_BEFORE)
+    ) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: `Reminder days must be whole numbers between 1 and ${MAX_REMINDER_DAYS_BEFORE}`,
+      });
+    }
+
+    const reminderDaysBefore = [...new Set(days)].sort((a, b) => b - a);
+    if (reminderDaysBefore.length > MAX_DEADLINE_REMINDERS) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: `At most ${MAX_DEADLINE_REMINDERS} automatic reminders are allowed`,
+      });
+    }
+
+    return {
+      date: deadline.date,
+      allowLateEdits: deadline.allowLateEdits,
+      reminderDaysBefore,
+    };
+  }
+}
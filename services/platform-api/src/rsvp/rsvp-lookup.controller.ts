@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Put,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { WeddingService } from '../wedding/wedding.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import type {
+  ApiResponse,
+  RsvpLookupMode,
+  UpdateRsvpLookupRequest,
+  UpdateRsvpLookupResponse,
+} from '../types';
+import {
+  VALIDATION_ERROR,
+  WEDDING_NOT_FOUND,
+} from '../types';
+
+/**
+ * Accepted values for the invitation lookup setting
+ */
+const RSVP_LOOKUP_MODES: RsvpLookupMode[] = ['email_link', 'show_form'];
+
+/**
+ * Couple's setting for the guest-facing "find your invitation" lookup
+ */
+@Controller('weddings/:weddingId/rsvp-lookup')
+export class RsvpLookupController {
+  constructor(
+    private readonly weddingService: WeddingService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Choose whether guests who find their invitation are emailed a fresh link or shown the RSVP form
+   */
+  @Put()
+  async updateRsvpLookup(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: UpdateRsvpLookupRequest,
+  ): Promise<ApiResponse<UpdateRsvpLookupResponse>> {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    if (!body || !RSVP_LOOKUP_MODES.includes(body.rsvpLookup)) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'rsvpLookup must be email_link or show_form',
+      });
+    }
+
+    const updated = await this.weddingService.updateRsvpLookup(weddingId, body.rsvpLookup);
+    if (!updated) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    return { ok: true, data: { wedding: updated } };
+  }
+}
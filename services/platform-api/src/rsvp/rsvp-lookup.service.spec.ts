@@ -0,0 +1,126 @@
+import { RsvpLookupService } from './rsvp-lookup.service';
+import type { Guest, Wedding } from '../types';
+
+describe('RsvpLookupService', () => {
+  let emailService: { buildRsvpLinkEmail: jest.Mock; sendEmail: jest.Mock };
+  let emailSuppressionService: { findSuppression: jest.Mock };
+  let guestService: {
+    canIssueRsvpTokens: jest.Mock;
+    getGuestsForWedding: jest.Mock;
+    getHouseholdContact: jest.Mock;
+    createRsvpSession: jest.Mock;
+  };
+  let weddingService: { getRenderConfig: jest.Mock };
+  let service: RsvpLookupService;
+
+  const jane = {
+    id: 'guest-1',
+    weddingId: 'wedding-1',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    postalCode: 'SW1A 1AA',
+  } as Guest;
+
+  const createWedding = (rsvpLookup: Wedding['rsvpLookup']): Wedding =>
+    ({
+      id: 'wedding-1',
+      slug: 'jane-and-john',
+      rsvpLookup,
+      eventDetails: { date: '2026-12-31' },
+    }) as Wedding;
+
+  // Let the background send run before asserting on it
+  const flushBackgroundSend = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    emailService = {
+      buildRsvpLinkEmail: jest.fn().mockReturnValue({ to: jane.email }),
+      sendEmail: jest.fn().mockResolvedValue({ success: true }),
+    };
+    emailSuppressionService = { findSuppression: jest.fn().mockResolvedValue(null) };
+    guestService = {
+      canIssueRsvpTokens: jest.fn().mockReturnValue(true),
+      getGuestsForWedding: jest.fn().mockResolvedValue([jane]),
+      getHouseholdContact: jest.fn().mockResolvedValue(null),
+      createRsvpSession: jest.fn().mockResolvedValue({ guest: jane, token: 'session-token' }),
+    };
+    weddingService = { getRenderConfig: jest.fn().mockResolvedValue(null) };
+
+    service = new RsvpLookupService(
+      emailService as never,
+      emailSuppressionService as never,
+      guestService as never,
+      weddingService as never,
+    );
+  });
+
+  describe('email_link', () => {
+    it('should give the same answer whether or not the name is on the list', async () => {
+      const wedding = createWedding('email_link');
+
+      const onList = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Jane Doe' });
+      const offList = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Someone Else' });
+      await flushBackgroundSend();
+
+      expect(onList).toEqual({ status: 'link_sent' });
+      expect(offList).toEqual(onList);
+      expect(emailService.sendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not email anyone when several invitations match', async () => {
+      guestService.getGuestsForWedding.mockResolvedValue([jane, { ...jane, id: 'guest-2', email: 'other@example.com' }]);
+
+      const result = await service.lookup(createWedding('email_link'), { slug: 'jane-and-john', name: 'Jane Doe' });
+      await flushBackgroundSend();
+
+      expect(result).toEqual({ status: 'link_sent' });
+      expect(guestService.createRsvpSession).not.toHaveBeenCalled();
+    });
+
+    it('should give the same answer when the address is suppressed or the send fails', async () => {
+      emailSuppressionService.findSuppression.mockResolvedValueOnce({ reason: 'bounce' });
+      const suppressed = await service.lookup(createWedding('email_link'), { slug: 'jane-and-john', name: 'Jane Doe' });
+      await flushBackgroundSend();
+      expect(emailService.sendEmail).not.toHaveBeenCalled();
+
+      emailService.sendEmail.mockResolvedValueOnce({ success: false, error: 'boom' });
+      const failed = await service.lookup(createWedding('email_link'), { slug: 'jane-and-john', name: 'Jane Doe' });
+      await flushBackgroundSend();
+
+      expect(suppressed).toEqual({ status: 'link_sent' });
+      expect(failed).toEqual({ status: 'link_sent' });
+    });
+  });
+
+  describe('show_form', () => {
+    it('should ask every name for a postal code or email before looking it up', async () => {
+      const wedding = createWedding('show_form');
+
+      const onList = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Jane Doe' });
+      const offList = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Someone Else' });
+
+      expect(onList).toEqual({ status: 'needs_verification' });
+      expect(offList).toEqual(onList);
+      expect(guestService.getGuestsForWedding).not.toHaveBeenCalled();
+    });
+
+    it('should return a token only when the postal code matches', async () => {
+      const wedding = createWedding('show_form');
+
+      const found = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Jane Doe', postalCode: 'sw1a1aa' });
+      const wrongCode = await service.lookup(wedding, { slug: 'jane-and-john', name: 'Jane Doe', postalCode: 'EC1A 1BB' });
+
+      expect(found).toEqual({ status: 'found', token: 'session-token' });
+      expect(wrongCode).toBeNull();
+    });
+  });
+
+  it('should report a closed RSVP before matching any name', async () => {
+    guestService.canIssueRsvpTokens.mockReturnValue(false);
+
+    await expect(
+      service.lookup(createWedding('email_link'), { slug: 'jane-and-john', name: 'Someone Else' }),
+    ).rejects.toThrow('EVENT_EXPIRED');
+    expect(guestService.getGuestsForWedding).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type {
+  Guest,
+  RsvpLookupRequest,
+  RsvpLookupResponse,
+  Wedding,
+} from '../types';
+import { EmailService } from '../invitation/email.service';
+import { EmailSuppressionService } from '../invitation/email-suppression.service';
+import { GuestService } from '../guest/guest.service';
+import { WeddingService } from '../wedding/wedding.service';
+import {
+  matchName,
+  normalizePostalCode,
+} from '../utils/name-match';
+import { getWeddingTimeZone } from '../utils/wedding-time-zone';
+
+/**
+ * How long the form can be opened with a token handed back by a lookup
+ */
+const FORM_SESSION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * How long an emailed lookup link works (matches the email's wording)
+ */
+const EMAIL_SESSION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Find your invitation: matches what a guest types against the guest list
+ * and either emails them an RSVP link or hands back a token for the form.
+ *
+ * Lookups never rotate the guest's stored RSVP token, so the link already
+ * emailed to them keeps working; they get a short-lived session token instead.
+ *
+ * A name alone never reveals who is on the list: emailed lookups always answer
+ * "if you're on the list, a link is on its way" and send in the background, and
+ * the form asks every name for a postal code or email before looking it up.
+ * Only a lookup that matches on postal code or email is told it found nobody.
+ */
+@Injectable()
+export class RsvpLookupService {
+  private readonly logger = new Logger(RsvpLookupService.name);
+
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly emailSuppressionService: EmailSuppressionService,
+    private readonly guestService: GuestService,
+    private readonly weddingService: WeddingService,
+  ) {}
+
+  /**
+   * Look up a guest's invitation
+   * @returns The outcome, or null if a verified lookup matches no guest
+   * @throws Error with 'EVENT_EXPIRED' if RSVP links can no longer be issued
+   */
+  async lookup(wedding: Wedding, request: RsvpLookupRequest): Promise<RsvpLookupResponse | null> {
+    const timeZone = getWeddingTimeZone(wedding);
+    // Closed for every guest alike, so saying so reveals nothing
+    if (!this.guestService.canIssueRsvpTokens(wedding.eventDetails?.date, timeZone)) {
+      throw new Error('EVENT_EXPIRED');
+    }
+
+    const query = [request.name, request.lastName].filter(Boolean).join(' ');
+    const verifying = !!(request.email?.trim() || request.postalCode?.trim());
+
+    if (wedding.rsvpLookup === 'show_form') {
+      // Names are easy to come by; only an email or postal code opens someone's RSVP
+      if (!verifying) {
+        return { status: 'needs_verification' };
+      }
+
+      const guest = await this.findInvitation(wedding, query, request);
+      if (guest === 'ambiguous') {
+        return { status: 'needs_verification' };
+      }
+      if (!guest) {
+        return null;
+      }
+
+      const session = await this.guestService.createRsvpSession(
+        guest.id,
+        FORM_SESSION_TTL_MS,
+        wedding.eventDetails?.date,
+        timeZone,
+      );
+      return session ? { status: 'found', token: session.token } : null;
+    }
+
+    const guest = await this.findInvitation(wedding, query, verifying ? request : undefined);
+    if (guest && guest !== 'ambiguous') {
+      // Sent in the background so neither the response nor its timing tells a match apart
+      void this.sendRsvpLink(wedding, guest).catch((error) => {
+        this.logger.error(
+          `Failed to send RSVP link to guest ${guest.id}: ${error instanceof Error ? error.message : error}`,
+        );
+      });
+    }
+
+    return { status: 'link_sent' };
+  }
+
+  /**
+   * The one invitation a lookup matches
+   * Returns 'ambiguous' if guests of several invitations match, or null if none does.
+   * @param verification when given, only guests whose postal code or email matches it
+   */
+  private async findInvitation(
+    wedding: Wedding,
+    query: string,
+    verification?: RsvpLookupRequest,
+  ): Promise<Guest | 'ambiguous' | null> {
+    let candidates = this.findCandidates(await this.guestService.getGuestsForWedding(wedding.id), query);
+    if (verification && candidates.length > 0) {
+      candidates = await this.filterVerified(candidates, verification);
+    }
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Members of one household share an invitation, so matching several of them is still one match
+    const invitations = new Set(candidates.map((guest) => guest.householdId ?? guest.id));
+    return invitations.size > 1 ? 'ambiguous' : candidates[0];
+  }
+
+  /**
+   * Email a short-lived RSVP link to the guest, or to their household contact
+   * Only the link goes to the address on the guest list, so no verification is needed.
+   * Does nothing if there is no address to send to or it is suppressed.
+   */
+  private async sendRsvpLink(wedding: Wedding, guest: Guest): Promise<void> {
+    const session = await this.guestService.createRsvpSession(
+      guest.id,
+      EMAIL_SESSION_TTL_MS,
+      wedding.eventDetails?.date,
+      getWeddingTimeZone(wedding),
+    );
+    // Nowhere to send a link; the couple has to help this guest
+    if (!session?.guest.email) {
+      return;
+    }
+    const recipient = { ...session.guest, email: session.guest.email };
+
+    // A bounced or spam-reporting address gets no link until the couple fixes it
+    if (await this.emailSuppressionService.findSuppression(wedding.id, recipient.email, true)) {
+      this.logger.log(`Not emailing an RSVP link to suppressed guest ${recipient.id}`);
+      return;
+    }
+
+    const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
+    const emailContent = this.emailService.buildRsvpLinkEmail(
+      recipient,
+      wedding,
+      session.token,
+      renderConfig?.theme,
+    );
+
+    const sendResult = await this.emailService.sendEmail(emailContent);
+    if (!sendResult.success) {
+      throw new Error(sendResult.error ?? 'Failed to send RSVP link');
+    }
+  }
+
+  /**
+   * Guests whose name matches the query, preferring exact matches over near misses
+   */
+  private findCandidates(guests: Guest[], query: string): Guest[] {
+    const exact: Guest[] = [];
+    const fuzzy: Guest[] = [];
+
+    for (const guest of guests) {
+      const match = matchName(query, guest.name);
+      if (match === 'exact') {
+        exact.push(guest);
+      } else if (match === 'fuzzy') {
+        fuzzy.push(guest);
+      }
+    }
+
+    return exact.length > 0 ? exact : fuzzy;
+  }
+
+  /**
+   * Keep candidates whose email or postal code (or their household contact's) matches the request
+   */
+  private async filterVerified(candidates: Guest[], request: RsvpLookupRequest): Promise<Guest[]> {
+    const email = request.email?.trim().toLowerCase();
+    const postalCode = request.postalCode?.trim() ? normalizePostalCode(request.postalCode) : undefined;
+
+    const matches = (guest: Guest | null): boolean =>
+      !!guest && (
+        (!!email && guest.email?.toLowerCase() === email) ||
+        (!!postalCode && !!guest.postalCode && normalizePostalCode(guest.postalCode) === postalCode)
+      );
+
+    const verified: Guest[] = [];
+    for (const guest of candidates) {
+      if (matches(guest)) {
+        verified.push(guest);
+        continue;
+      }
+      if (guest.householdId && matches(await this.guestService.getHouseholdContact(guest.householdId))) {
+        verified.push(guest);
+      }
+    }
+    return verified;
+  }
+}
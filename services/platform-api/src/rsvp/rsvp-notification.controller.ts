@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Put,
+  Post,
+  Param,
+  Body,
+  Headers,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { WeddingService } from '../wedding/wedding.service';
+import { AdminAuthService } from '../auth/admin-auth.service';
+import { RsvpNotificationService } from './rsvp-notification.service';
+import type {
+  ApiResponse,
+  RsvpDigestRunResponse,
+  RsvpNotificationPreference,
+  UpdateRsvpNotificationsRequest,
+  UpdateRsvpNotificationsResponse,
+} from '../types';
+import {
+  UNAUTHORIZED,
+  VALIDATION_ERROR,
+  WEDDING_NOT_FOUND,
+} from '../types';
+
+/**
+ * Accepted values for the RSVP notification preference
+ */
+const RSVP_NOTIFICATION_PREFERENCES: RsvpNotificationPreference[] = ['instant', 'daily', 'off'];
+
+/**
+ * Couple's RSVP notification preference
+ */
+@Controller('weddings/:weddingId/rsvp-notifications')
+export class RsvpNotificationController {
+  constructor(
+    private readonly weddingService: WeddingService,
+    private readonly adminAuthService: AdminAuthService,
+  ) {}
+
+  /**
+   * Choose how the couple hears about new and changed RSVPs: instantly, in a daily digest, or not at all
+   */
+  @Put()
+  async updateRsvpNotifications(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: UpdateRsvpNotificationsRequest,
+  ): Promise<ApiResponse<UpdateRsvpNotificationsResponse>> {
+    const user = await this.adminAuthService.requireUser(authHeader);
+
+    const wedding = await this.weddingService.getWedding(weddingId);
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    if (!body || !RSVP_NOTIFICATION_PREFERENCES.includes(body.rsvpNotifications)) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'rsvpNotifications must be instant, daily, or off',
+      });
+    }
+
+    const updated = await this.weddingService.updateRsvpNotifications(weddingId, body.rsvpNotifications);
+    if (!updated) {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    return { ok: true, data: { wedding: updated } };
+  }
+}
+
+/**
+ * Worker endpoints for RSVP notifications
+ */
+@Controller('rsvp/notifications')
+export class RsvpNotificationWorkerController {
+  constructor(private readonly rsvpNotificationService: RsvpNotificationService) {}
+
+  /**
+   * Send daily digests to couples who chose them (called by the worker once a day)
+   */
+  @Post('digests')
+  async sendDigests(
+    @Headers('x-worker-token') workerToken: string | undefined,
+  ): Promise<ApiResponse<RsvpDigestRunResponse>> {
+    this.requireWorkerToken(workerToken);
+
+    const result = await this.rsvpNotificationService.sendDailyDigests();
+    return { ok: true, data: result };
+  }
+
+  private requireWorkerToken(workerToken: string | undefined) {
+    const expected = process.env.WORKER_TOKEN;
+    if (!expected) {
+      return;
+    }
+
+    if (!workerToken || workerToken !== expected) {
+      throw new UnauthorizedException({ ok: false, error: UNAUTHORIZED });
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { getSupabaseClient, DbRsvpActivity } from '../utils/supabase';
+import type {
+  Guest,
+  RsvpChange,
+  RsvpChangeKind,
+  RsvpDigestRunResponse,
+  RsvpGuestView,
+  Wedding,
+} from '../types';
+import { AuthService } from '../auth/auth.service';
+import { EmailService } from '../invitation/email.service';
+import { InvitationService } from '../invitation/invitation.service';
+import { RsvpNotificationQueueService } from '../invitation/rsvp-notification-queue.service';
+import { GuestService } from '../guest/guest.service';
+import { WeddingService } from '../wedding/wedding.service';
+
+/**
+ * Emails sent after an RSVP: the guest's confirmation and the couple's
+ * notification, either instantly or rolled into a daily digest.
+ */
+@Injectable()
+export class RsvpNotificationService {
+  private readonly logger = new Logger(RsvpNotificationService.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly emailService: EmailService,
+    private readonly invitationService: InvitationService,
+    private readonly rsvpNotificationQueueService: RsvpNotificationQueueService,
+    private readonly guestService: GuestService,
+    private readonly weddingService: WeddingService,
+  ) {}
+
+  /**
+   * Confirm a submission to the guest and tell the couple, per their preference.
+   * The RSVP is already saved, so failures are logged rather than thrown.
+   * @param tokenHolder The guest who submitted
+   * @param rawToken The token they submitted with, reused for the edit link
+   * @param changes Saved responses in the submission (the token holder first)
+   */
+  async notifyRsvpSubmitted(
+    wedding: Wedding,
+    tokenHolder: Guest,
+    rawToken: string,
+    changes: RsvpChange[],
+  ): Promise<void> {
+    if (tokenHolder.email) {
+      try {
+        await this.invitationService.queueRsvpConfirmation(
+          { ...tokenHolder, email: tokenHolder.email },
+          wedding,
+          changes.map((change) => change.guest),
+          rawToken,
+        );
+      } catch (error) {
+        this.logger.error(`Failed to queue RSVP confirmation for guest ${tokenHolder.id}`, error);
+      }
+    }
+
+    try {
+      switch (wedding.rsvpNotifications ?? 'instant') {
+        case 'instant':
+          await this.notifyCouple(wedding, changes);
+          break;
+        case 'daily':
+          await this.recordActivity(wedding.id, changes);
+          break;
+        case 'off':
+          break;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to notify the couple of an RSVP for wedding ${wedding.id}`, error);
+    }
+  }
+
+  /**
+   * Send each daily-digest wedding one email covering RSVPs since its last digest.
+   * Activity for weddings that have since switched away from daily digests is
+   * dropped. A wedding whose digest cannot be queued keeps its activity for the next run.
+   */
+  async sendDailyDigests(): Promise<RsvpDigestRunResponse> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('rsvp_activity')
+      .select('*')
+      .is('digested_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      this.logger.error('Failed to load RSVP activity', error);
+      throw new Error('Failed to load RSVP activity');
+    }
+
+    const activityByWedding = new Map<string, DbRsvpActivity[]>();
+    for (const row of (data ?? []) as DbRsvpActivity[]) {
+      const rows = activityByWedding.get(row.wedding_id) ?? [];
+      rows.push(row);
+      activityByWedding.set(row.wedding_id, rows);
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const [weddingId, rows] of activityByWedding) {
+      try {
+        const wedding = await this.weddingService.getWedding(weddingId);
+        if (!wedding || wedding.rsvpNotifications !== 'daily') {
+          await this.markDigested(rows);
+          continue;
+        }
+
+        const changes = await this.buildDigestChanges(wedding, rows);
+        if (changes.length > 0) {
+          const queued = await this.notifyCouple(wedding, changes, true);
+          if (!queued) {
+            failed++;
+            continue;
+          }
+          sent++;
+        }
+        await this.markDigested(rows);
+      } catch (error) {
+        this.logger.error(`Failed to send RSVP digest for wedding ${weddingId}`, error);
+        failed++;
+      }
+    }
+
+    this.logger.log(`RSVP digests: ${sent} sent, ${failed} failed.`);
+
+    return { sent, failed };
+  }
+
+  /**
+   * Queue an email to the couple's account address
+   * @returns false if the couple has no account to email
+   */
+  private async notifyCouple(
+    wedding: Wedding,
+    changes: RsvpChange[],
+    digest = false,
+  ): Promise<boolean> {
+    const user = await this.authService.getUserById(wedding.userId);
+    if (!user) {
+      this.logger.warn(`No account found to notify for wedding ${wedding.id}`);
+      return false;
+    }
+
+    const to = { email: user.email, name: user.name || wedding.partnerNames.join(' & ') };
+    const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
+    const emailContent = digest
+      ? this.emailService.buildRsvpDigestEmail(to, wedding, changes, renderConfig?.theme)
+      : this.emailService.buildRsvpNotificationEmail(to, wedding, changes, renderConfig?.theme);
+
+    await this.rsvpNotificationQueueService.enqueue([
+      {
+        weddingId: wedding.id,
+        toEmail: emailContent.to,
+        toName: emailContent.toName,
+        subject: emailContent.subject,
+        htmlBody: emailContent.htmlBody,
+        textBody: emailContent.textBody,
+      },
+    ]);
+
+    return true;
+  }
+
+  /**
+   * Record responses for the next daily digest
+   */
+  private async recordActivity(weddingId: string, changes: RsvpChange[]): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('rsvp_activity')
+      .insert(
+        changes.map((change) => ({
+          wedding_id: weddingId,
+          guest_id: change.guest.id,
+          change: change.change,
+        })),
+      );
+
+    if (error) {
+      this.logger.error(`Failed to record RSVP activity for wedding ${weddingId}`, error);
+      throw new Error('Failed to record RSVP activity');
+    }
+  }
+
+  /**
+   * One change per guest with their current answers.
+   * A guest who first responded and then changed their mind the same day counts as new.
+   */
+  private async buildDigestChanges(
+    wedding: Wedding,
+    rows: DbRsvpActivity[],
+  ): Promise<RsvpChange[]> {
+    const kindByGuest = new Map<string, RsvpChangeKind>();
+    for (const row of rows) {
+      if (kindByGuest.get(row.guest_id) !== 'new') {
+        kindByGuest.set(row.guest_id, row.change as RsvpChangeKind);
+      }
+    }
+
+    const guests = await this.guestService.getGuestsForWedding(wedding.id);
+    const guestById = new Map(guests.map((guest) => [guest.id, guest]));
+
+    const changes: RsvpChange[] = [];
+    for (const [guestId, change] of kindByGuest) {
+      const guest = guestById.get(guestId);
+      if (guest) {
+        changes.push({ guest: this.toGuestView(guest), change });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Guest fields shown in a digest (table assignments are the couple's own, so they are left out)
+   */
+  private toGuestView(guest: Guest): RsvpGuestView {
+    return {
+      id: guest.id,
+      name: guest.name,
+      email: guest.email,
+      partySize: guest.partySize,
+      rsvpStatus: guest.rsvpStatus,
+      dietaryNotes: guest.dietaryNotes,
+      plusOneAllowance: guest.plusOneAllowance,
+      plusOneGuests: guest.plusOneGuests,
+      mealOptionId: guest.mealOptionId,
+      rsvpAnswers: guest.rsvpAnswers,
+      eventRsvps: guest.eventRsvps,
+      invitedEventIds: guest.invitedEventIds,
+      photoOptOut: guest.photoOptOut,
+    };
+  }
+
+  /**
+   * Mark activity as included in a digest
+   */
+  private async markDigested(rows: DbRsvpActivity[]): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('rsvp_activity')
+      .update({ digested_at: new Date().toISOString() })
+      .in('id', rows.map((row) => row.id));
+
+    if (error) {
+      this.logger.error('Failed to mark RSVP activity as digested', error);
+      throw new Error('Failed to mark RSVP activity as digested');
+    }
+  }
+}
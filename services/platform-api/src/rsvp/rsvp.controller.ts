@@ -4,6 +4,7 @@ import {
   Post,
   Query,
   Body,
+  UseGuards,
   BadRequestException,
   NotFoundException,
   ForbiddenException,
@@ -11,19 +12,36 @@ import {
 } from '@nestjs/common';
 import { Throttle, SkipThrottle } from '@nestjs/throttler';
 import { GuestService } from '../guest/guest.service';
+import { HouseholdService } from '../guest/household.service';
 import { WeddingService } from '../wedding/wedding.service';
 import { SeatingService } from '../seating/seating.service';
 import { EmailService } from '../invitation/email.service';
+import { RsvpNotificationService } from './rsvp-notification.service';
+import { RsvpLookupService } from './rsvp-lookup.service';
+import { FlowThrottlerGuard, RateLimitFlow } from '../throttle';
 import type {
   ApiResponse,
   RsvpViewData,
   RsvpSubmitRequest,
   RsvpSubmitResponse,
   RsvpGuestView,
+  RsvpHouseholdView,
+  RsvpMemberResponse,
   WeddingEvent,
   GuestDataExportRequest,
   GuestDataExportResponse,
   GuestDataExport,
+  Guest,
+  Wedding,
+  EventRsvpMap,
+  RsvpStatus,
+  RsvpQuestion,
+  RsvpAnswerMap,
+  RsvpAnswerValue,
+  RsvpChange,
+  RsvpChangeKind,
+  RsvpLookupRequest,
+  RsvpLookupResponse,
 } from '../types';
 import {
   INVALID_TOKEN,
@@ -33,7 +51,26 @@ import {
   INVALID_MEAL_OPTION,
   GUEST_NOT_INVITED_TO_EVENT,
   DATA_EXPORT_FAILED,
+  GUEST_NOT_IN_HOUSEHOLD,
+  INVALID_RSVP_ANSWER,
+  RSVP_DEADLINE_PASSED,
+  RSVP_LOOKUP_NO_MATCH,
+  INVALID_PASSCODE,
+  VALIDATION_ERROR,
+  EMAIL_SEND_FAILED,
 } from '../types';
+import { isDeadlinePassed } from '../utils/rsvp-deadline';
+import { getEventTimeZone, getWeddingTimeZone } from '../utils/wedding-time-zone';
+
+/**
+ * Longest accepted answer to a text question
+ */
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+/**
+ * Longest accepted name, postal code or email in an invitation lookup
+ */
+const MAX_LOOKUP_FIELD_LENGTH = 200;
 
 /**
  * Public controller for guest RSVP operations
@@ -46,9 +83,12 @@ import {
 export class RsvpController {
   constructor(
     private readonly guestService: GuestService,
+    private readonly householdService: HouseholdService,
     private readonly weddingService: WeddingService,
     private readonly seatingService: SeatingService,
     private readonly emailService: EmailService,
+    private readonly rsvpNotificationService: RsvpNotificationService,
+    private readonly rsvpLookupService: RsvpLookupService,
   ) {}
 
   /**
@@ -68,7 +108,7 @@ export class RsvpController {
     }
 
     // Find guest by token
-    const guest = this.guestService.getGuestByRsvpToken(token);
+    const guest = await this.guestService.getGuestByRsvpToken(token);
 
     if (!guest) {
       throw new NotFoundException({
@@ -106,35 +146,19 @@ export class RsvpController {
     // Get render config for theme
     const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
 
-    // Get table assignment if seating chart is enabled
-    const tableAssignment = wedding.features.SEATING_CHART
-      ? this.seatingService.getGuestTableAssignment(guest.id)
-      : null;
-
     // Build response with only what's needed for RSVP view
-    const guestView: RsvpGuestView = {
-      id: guest.id,
-      name: guest.name,
-      email: guest.email,
-      partySize: guest.partySize,
-      rsvpStatus: guest.rsvpStatus,
-      dietaryNotes: guest.dietaryNotes,
-      plusOneAllowance: guest.plusOneAllowance,
-      plusOneGuests: guest.plusOneGuests,
-      mealOptionId: guest.mealOptionId,
-      eventRsvps: guest.eventRsvps,
-      invitedEventIds: guest.invitedEventIds,
-      tableAssignment: tableAssignment || undefined,
-      photoOptOut: guest.photoOptOut,
-    };
+    const guestView = await this.toGuestView(guest, wedding);
+    const household = await this.getHouseholdView(guest, wedding);
 
-    // Get events the guest is invited to (for multi-event weddings)
+    // Get events the guest (or any household member) is invited to (for multi-event weddings)
+    // Members only see their own invitations via invitedEventIds on each member view
+    const invitees = household?.members ?? [guestView];
     let invitedEvents: WeddingEvent[] | undefined;
     if (wedding.eventDetails?.events && wedding.eventDetails.events.length > 0) {
       // Filter events to only those the guest is invited to
-      if (guest.invitedEventIds && guest.invitedEventIds.length > 0) {
+      if (invitees.every((invitee) => invitee.invitedEventIds && invitee.invitedEventIds.length > 0)) {
         invitedEvents = wedding.eventDetails.events.filter((e) =>
-          guest.invitedEventIds!.includes(e.id),
+          invitees.some((invitee) => invitee.invitedEventIds!.includes(e.id)),
         );
       } else {
         // Guest is invited to all events
@@ -148,6 +172,16 @@ export class RsvpController {
       });
     }
 
+    // Custom questions: event questions only if someone in the party is invited to the event
+    const questions = (wedding.rsvpQuestions?.questions ?? [])
+      .filter((question) =>
+        !question.eventId ||
+        invitees.some((invitee) =>
+          !invitee.invitedEventIds?.length || invitee.invitedEventIds.includes(question.eventId!),
+        ),
+      )
+      .sort((a, b) => a.order - b.order);
+
     const rsvpViewData: RsvpViewData = {
       guest: guestView,
       wedding: {
@@ -167,6 +201,13 @@ export class RsvpController {
       mealConfig: wedding.mealConfig?.enabled ? wedding.mealConfig : undefined,
       // Include events for multi-event RSVP
       events: invitedEvents,
+      questions: questions.length > 0 ? questions : undefined,
+      household,
+      rsvpDeadline: wedding.rsvpDeadline?.date,
+      rsvpClosed: this.isRsvpClosed(wedding, invitedEvents),
+      calendarFeedUrl: wedding.features.CALENDAR_INVITE
+        ? this.guestService.getCalendarFeedUrl(guest)
+        : undefined,
     };
 
     return { ok: true, data: rsvpViewData };
@@ -186,7 +227,7 @@ export class RsvpController {
   async submitRsvp(
     @Body() body: RsvpSubmitRequest,
   ): Promise<ApiResponse<RsvpSubmitResponse>> {
-    const { token, rsvpStatus, partySize, dietaryNotes, plusOneGuests, mealOptionId, eventRsvps, photoOptOut } = body;
+    const { token, rsvpStatus, partySize, dietaryNotes, plusOneGuests, mealOptionId, eventRsvps, photoOptOut, answers, householdMembers } = body;
 
     if (!token) {
       throw new BadRequestException({
@@ -196,7 +237,7 @@ export class RsvpController {
     }
 
     // Find guest by token
-    const guest = this.guestService.getGuestByRsvpToken(token);
+    const guest = await this.guestService.getGuestByRsvpToken(token);
 
     if (!guest) {
       throw new NotFoundException({
@@ -232,54 +273,36 @@ export class RsvpController {
     }
 
     // Validate event RSVPs if provided (multi-event flow)
-    if (eventRsvps && Object.keys(eventRsvps).length > 0) {
-      const weddingEvents = wedding.eventDetails?.events || [];
-      const weddingEventIds = weddingEvents.map((e) => e.id);
-
-      for (const eventId of Object.keys(eventRsvps)) {
-        // Validate event exists
-        if (!weddingEventIds.includes(eventId)) {
-          throw new BadRequestException({
-            ok: false,
-            error: GUEST_NOT_INVITED_TO_EVENT,
-          });
-        }
-
-        // Validate guest is invited to this event
-        if (!this.guestService.isGuestInvitedToEvent(guest.id, eventId)) {
-          throw new ForbiddenException({
-            ok: false,
-            error: GUEST_NOT_INVITED_TO_EVENT,
-          });
-        }
-      }
-    }
+    this.validateEventRsvps(wedding, guest, eventRsvps);
+    this.requireOpenDeadline(wedding, eventRsvps);
 
     // Validate meal option if meal selection is enabled and guest is attending
-    if (wedding.mealConfig?.enabled && rsvpStatus === 'attending') {
+    if (rsvpStatus === 'attending') {
       // Validate primary guest's meal option if provided
-      if (mealOptionId) {
-        const validOptionIds = wedding.mealConfig.options.map((o) => o.id);
-        if (!validOptionIds.includes(mealOptionId)) {
-          throw new BadRequestException({
-            ok: false,
-            error: INVALID_MEAL_OPTION,
-          });
-        }
-      }
+      this.validateMealOption(wedding, mealOptionId);
 
       // Validate plus-one meal options if provided
-      if (plusOneGuests) {
-        const validOptionIds = wedding.mealConfig.options.map((o) => o.id);
-        for (const plusOne of plusOneGuests) {
-          if (plusOne.mealOptionId && !validOptionIds.includes(plusOne.mealOptionId)) {
-            throw new BadRequestException({
-              ok: false,
-              error: INVALID_MEAL_OPTION,
-            });
-          }
-        }
+      for (const plusOne of plusOneGuests ?? []) {
+        this.validateMealOption(wedding, plusOne.mealOptionId);
+      }
+    }
+
+    // Validate answers to custom questions
+    const guestAnswers = this.resolveAnswers(wedding, guest, rsvpStatus, eventRsvps, answers);
+
+    // Validate answers for other household members before saving anything
+    const members = await this.resolveHouseholdMembers(guest, householdMembers ?? []);
+    const memberAnswers = new Map<string, RsvpAnswerMap | undefined>();
+    for (const { member, response } of members) {
+      this.validateEventRsvps(wedding, member, response.eventRsvps);
+      this.requireOpenDeadline(wedding, response.eventRsvps);
+      if (response.rsvpStatus === 'attending') {
+        this.validateMealOption(wedding, response.mealOptionId);
       }
+      memberAnswers.set(
+        member.id,
+        this.resolveAnswers(wedding, member, response.rsvpStatus, response.eventRsvps, response.answers),
+      );
     }
 
     let updatedGuest;
@@ -314,6 +337,10 @@ export class RsvpController {
       }
     }
 
+    if (updatedGuest && guestAnswers) {
+      updatedGuest = await this.guestService.saveRsvpAnswers(guest.id, guestAnswers);
+    }
+
     if (!updatedGuest) {
       throw new NotFoundException({
         ok: false,
@@ -321,27 +348,41 @@ export class RsvpController {
       });
     }
 
-    // Get table assignment if seating chart is enabled
-    const submitTableAssignment = wedding.features.SEATING_CHART
-      ? this.seatingService.getGuestTableAssignment(updatedGuest.id)
-      : null;
+    // Each member keeps their own answers: meal, dietary notes, per-event RSVPs and custom questions
+    for (const { member, response } of members) {
+      const answersForMember = memberAnswers.get(member.id);
+      if (answersForMember) {
+        await this.guestService.saveRsvpAnswers(member.id, answersForMember);
+      }
+
+      if (response.eventRsvps && Object.keys(response.eventRsvps).length > 0) {
+        await this.guestService.updateEventRsvp(member.id, response.eventRsvps);
+      } else {
+        await this.guestService.updateRsvpStatus(
+          member.id,
+          response.rsvpStatus,
+          1,
+          response.dietaryNotes,
+          undefined,
+          response.mealOptionId,
+        );
+      }
+    }
 
     // Build response
-    const guestView: RsvpGuestView = {
-      id: updatedGuest.id,
-      name: updatedGuest.name,
-      email: updatedGuest.email,
-      partySize: updatedGuest.partySize,
-      rsvpStatus: updatedGuest.rsvpStatus,
-      dietaryNotes: updatedGuest.dietaryNotes,
-      plusOneAllowance: updatedGuest.plusOneAllowance,
-      plusOneGuests: updatedGuest.plusOneGuests,
-      mealOptionId: updatedGuest.mealOptionId,
-      eventRsvps: updatedGuest.eventRsvps,
-      invitedEventIds: updatedGuest.invitedEventIds,
-      tableAssignment: submitTableAssignment || undefined,
-      photoOptOut: updatedGuest.photoOptOut,
-    };
+    const guestView = await this.toGuestView(updatedGuest, wedding);
+    const household = await this.getHouseholdView(updatedGuest, wedding);
+
+    // Confirm to the guest and tell the couple; a guest who had responded before is an update
+    const changeKind = (answered: Guest): RsvpChangeKind => (answered.rsvpSubmittedAt ? 'updated' : 'new');
+    const changes: RsvpChange[] = [{ guest: guestView, change: changeKind(guest) }];
+    for (const { member } of members) {
+      const memberView = household?.members.find((view) => view.id === member.id);
+      if (memberView) {
+        changes.push({ guest: memberView, change: changeKind(member) });
+      }
+    }
+    await this.rsvpNotificationService.notifyRsvpSubmitted(wedding, updatedGuest, token, changes);
 
     // Build appropriate message based on submission type
     let message: string;
@@ -365,10 +406,96 @@ export class RsvpController {
       data: {
         message,
         guest: guestView,
+        household,
       },
     };
   }
 
+  /**
+   * Find your invitation
+   * POST /api/rsvp/lookup
+   * For guests who lost their invitation email: matches their name against the
+   * guest list, then emails a short-lived RSVP link or returns one for the form,
+   * depending on the couple's setting. Emailed lookups answer the same whether or
+   * not the name matched. Passcode-protected sites require the passcode.
+   *
+   * Rate limit: 5 requests per minute per visitor (public flow)
+   */
+  @UseGuards(FlowThrottlerGuard)
+  @RateLimitFlow('public')
+  @Throttle({ strict: { ttl: 60000, limit: 5 } })
+  @Post('lookup')
+  async lookupInvitation(
+    @Body() body: RsvpLookupRequest,
+  ): Promise<ApiResponse<RsvpLookupResponse>> {
+    const fields = [body?.name, body?.lastName, body?.postalCode, body?.email];
+    if (
+      !body?.slug ||
+      typeof body.name !== 'string' ||
+      body.name.trim().length === 0 ||
+      fields.some((field) => field !== undefined && (typeof field !== 'string' || field.length > MAX_LOOKUP_FIELD_LENGTH))
+    ) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Enter your name to find your invitation',
+      });
+    }
+
+    const wedding = await this.weddingService.getWeddingBySlug(body.slug);
+    if (!wedding || wedding.status !== 'active') {
+      throw new NotFoundException({
+        ok: false,
+        error: WEDDING_NOT_FOUND,
+      });
+    }
+
+    if (!wedding.features.RSVP) {
+      throw new ForbiddenException({
+        ok: false,
+        error: FEATURE_DISABLED,
+      });
+    }
+
+    if (await this.weddingService.isPasscodeRequired(body.slug)) {
+      const valid = !!body.passcode &&
+        await this.weddingService.verifyWeddingPasscode(body.slug, body.passcode);
+      if (!valid) {
+        throw new ForbiddenException({
+          ok: false,
+          error: INVALID_PASSCODE,
+        });
+      }
+    }
+
+    let result: RsvpLookupResponse | null;
+    try {
+      result = await this.rsvpLookupService.lookup(wedding, body);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'EVENT_EXPIRED') {
+        throw new BadRequestException({
+          ok: false,
+          error: 'EVENT_EXPIRED',
+          message: 'RSVP for this wedding has closed',
+        });
+      }
+      throw new InternalServerErrorException({
+        ok: false,
+        error: EMAIL_SEND_FAILED,
+      });
+    }
+
+    if (!result) {
+      throw new NotFoundException({
+        ok: false,
+        error: RSVP_LOOKUP_NO_MATCH,
+        message: "We couldn't find an invitation under that name",
+      });
+    }
+
+    return { ok: true, data: result };
+  }
+
   /**
    * Request a data export for a guest
    * POST /api/rsvp/data-export
@@ -396,14 +523,16 @@ export class RsvpController {
     }
 
     // Find guest by token
-    const guest = this.guestService.getGuestByRsvpToken(token);
+    // Only guests with an email hold a token, but check so the export has somewhere to go
+    const tokenHolder = await this.guestService.getGuestByRsvpToken(token);
 
-    if (!guest) {
+    if (!tokenHolder?.email) {
       throw new NotFoundException({
         ok: false,
         error: INVALID_TOKEN,
       });
     }
+    const guest = { ...tokenHolder, email: tokenHolder.email };
 
     // Get the wedding
     const wedding = await this.weddingService.getWedding(guest.weddingId);
@@ -418,10 +547,10 @@ export class RsvpController {
     // Get render config for theme
     const renderConfig = await this.weddingService.getRenderConfig(wedding.id);
 
-    // Get table assignment if seating chart is enabled
-    const tableAssignment = wedding.features.SEATING_CHART
-      ? this.seatingService.getGuestTableAssignment(guest.id)
-      : null;
+    // Get table assignments if seating chart is enabled
+    const tableAssignments = wedding.features.SEATING_CHART
+      ? await this.seatingService.getGuestTableAssignments(guest.id, wedding.eventDetails?.events)
+      : [];
 
     // Build event RSVPs if applicable
     let eventRsvps: GuestDataExport['eventRsvps'];
@@ -436,6 +565,18 @@ export class RsvpController {
       });
     }
 
+    // Label each custom question answer with its question
+    const questions = wedding.rsvpQuestions?.questions ?? [];
+    const rsvpAnswers = questions
+      .filter((question) => guest.rsvpAnswers?.[question.id] !== undefined)
+      .map((question) => {
+        const answer = guest.rsvpAnswers![question.id];
+        return {
+          question: question.label,
+          answer: Array.isArray(answer) ? answer.join(', ') : String(answer),
+        };
+      });
+
     // Build the data export
     const dataExport: GuestDataExport = {
       exportedAt: new Date().toISOString(),
@@ -448,6 +589,8 @@ export class RsvpController {
         plusOneGuests: guest.plusOneGuests,
         mealOptionId: guest.mealOptionId,
         photoOptOut: guest.photoOptOut,
+        postalCode: guest.postalCode,
+        preferredLanguage: guest.preferredLanguage,
         inviteSentAt: guest.inviteSentAt,
         rsvpSubmittedAt: guest.rsvpSubmittedAt,
         createdAt: guest.createdAt,
@@ -457,12 +600,18 @@ export class RsvpController {
         date: wedding.eventDetails?.date,
         venue: wedding.eventDetails?.venue,
         city: wedding.eventDetails?.city,
+        language: wedding.language,
+        timezone: getWeddingTimeZone(wedding),
       },
-      tableAssignment: tableAssignment ? {
-        tableName: tableAssignment.tableName,
-        seatNumber: tableAssignment.seatNumber,
-      } : undefined,
+      tableAssignments: tableAssignments.length > 0
+        ? tableAssignments.map((a) => ({
+          eventName: a.eventName,
+          tableName: a.tableName,
+          seatNumber: a.seatNumber,
+        }))
+        : undefined,
       eventRsvps,
+      rsvpAnswers: rsvpAnswers.length > 0 ? rsvpAnswers : undefined,
     };
 
     // Build and send the email
@@ -495,4 +644,302 @@ export class RsvpController {
       },
     };
   }
+
+  /**
+   * Build the guest-facing view of a guest, including their table per event if seating is enabled
+   */
+  private async toGuestView(guest: Guest, wedding: Wedding): Promise<RsvpGuestView> {
+    const tableAssignments = wedding.features.SEATING_CHART
+      ? await this.seatingService.getGuestTableAssignments(guest.id, wedding.eventDetails?.events)
+      : [];
+
+    return {
+      id: guest.id,
+      name: guest.name,
+      email: guest.email,
+      partySize: guest.partySize,
+      rsvpStatus: guest.rsvpStatus,
+      dietaryNotes: guest.dietaryNotes,
+      plusOneAllowance: guest.plusOneAllowance,
+      plusOneGuests: guest.plusOneGuests,
+      mealOptionId: guest.mealOptionId,
+      rsvpAnswers: guest.rsvpAnswers,
+      eventRsvps: guest.eventRsvps,
+      invitedEventIds: guest.invitedEventIds,
+      tableAssignments: tableAssignments.length > 0 ? tableAssignments : undefined,
+      photoOptOut: guest.photoOptOut,
+    };
+  }
+
+  /**
+   * Build the household view for the token holder, if they belong to one
+   */
+  private async getHouseholdView(
+    guest: Guest,
+    wedding: Wedding,
+  ): Promise<RsvpHouseholdView | undefined> {
+    if (!guest.householdId) {
+      return undefined;
+    }
+
+    const household = await this.householdService.getHousehold(guest.householdId);
+    if (!household) {
+      return undefined;
+    }
+
+    const members = await this.guestService.getHouseholdMembers(household.id);
+    return {
+      id: household.id,
+      name: household.name,
+      members: await Promise.all(members.map((member) => this.toGuestView(member, wedding))),
+    };
+  }
+
+  /**
+   * Match RSVP answers to the token holder's fellow household members
+   * The token holder's own answer is the top-level RSVP, not an entry here
+   */
+  private async resolveHouseholdMembers(
+    guest: Guest,
+    responses: RsvpMemberResponse[],
+  ): Promise<Array<{ member: Guest; response: RsvpMemberResponse }>> {
+    if (responses.length === 0) {
+      return [];
+    }
+
+    const members = guest.householdId
+      ? await this.guestService.getHouseholdMembers(guest.householdId)
+      : [];
+    const memberById = new Map(
+      members.filter((member) => member.id !== guest.id).map((member) => [member.id, member]),
+    );
+
+    return responses.map((response) => {
+      const member = memberById.get(response.guestId);
+      if (!member) {
+        throw new ForbiddenException({
+          ok: false,
+          error: GUEST_NOT_IN_HOUSEHOLD,
+        });
+      }
+      return { member, response };
+    });
+  }
+
+  /**
+   * Validate per-event RSVPs: each event must exist and the guest must be invited to it
+   */
+  private validateEventRsvps(wedding: Wedding, guest: Guest, eventRsvps?: EventRsvpMap): void {
+    if (!eventRsvps || Object.keys(eventRsvps).length === 0) {
+      return;
+    }
+
+    const weddingEventIds = (wedding.eventDetails?.events || []).map((e) => e.id);
+
+    for (const eventId of Object.keys(eventRsvps)) {
+      // Validate event exists
+      if (!weddingEventIds.includes(eventId)) {
+        throw new BadRequestException({
+          ok: false,
+          error: GUEST_NOT_INVITED_TO_EVENT,
+        });
+      }
+
+      // Validate guest is invited to this event
+      if (!this.guestService.isGuestInvitedToEvent(guest, eventId)) {
+        throw new ForbiddenException({
+          ok: false,
+          error: GUEST_NOT_INVITED_TO_EVENT,
+        });
+      }
+    }
+  }
+
+  /**
+   * Reject responses after the RSVP deadline unless the couple allows late edits
+   * Per-event responses are checked against each event's own deadline (falling back to the wedding's)
+   */
+  private requireOpenDeadline(wedding: Wedding, eventRsvps?: EventRsvpMap): void {
+    if (wedding.rsvpDeadline?.allowLateEdits) {
+      return;
+    }
+
+    let passed: boolean;
+    if (eventRsvps && Object.keys(eventRsvps).length > 0) {
+      const events = wedding.eventDetails?.events ?? [];
+      passed = Object.keys(eventRsvps).some((eventId) => {
+        const event = events.find((e) => e.id === eventId);
+        return isDeadlinePassed(
+          event?.rsvpDeadline ?? wedding.rsvpDeadline?.date,
+          getEventTimeZone(wedding, event),
+        );
+      });
+    } else {
+      passed = isDeadlinePassed(wedding.rsvpDeadline?.date, getWeddingTimeZone(wedding));
+    }
+
+    if (passed) {
+      throw new ForbiddenException({
+        ok: false,
+        error: RSVP_DEADLINE_PASSED,
+      });
+    }
+  }
+
+  /**
+   * Whether the guest can no longer respond at all: the wedding deadline has passed,
+   * or, for multi-event weddings, every invited event's deadline has
+   */
+  private isRsvpClosed(wedding: Wedding, invitedEvents?: WeddingEvent[]): boolean {
+    if (wedding.rsvpDeadline?.allowLateEdits) {
+      return false;
+    }
+
+    if (invitedEvents && invitedEvents.length > 0) {
+      return invitedEvents.every((event) =>
+        isDeadlinePassed(event.rsvpDeadline ?? wedding.rsvpDeadline?.date, getEventTimeZone(wedding, event)),
+      );
+    }
+
+    return isDeadlinePassed(wedding.rsvpDeadline?.date, getWeddingTimeZone(wedding));
+  }
+
+  /**
+   * Validate a meal selection against the wedding's meal options (if meal selection is enabled)
+   */
+  private validateMealOption(wedding: Wedding, mealOptionId?: string): void {
+    if (!wedding.mealConfig?.enabled || !mealOptionId) {
+      return;
+    }
+
+    const validOptionIds = wedding.mealConfig.options.map((o) => o.id);
+    if (!validOptionIds.includes(mealOptionId)) {
+      throw new BadRequestException({
+        ok: false,
+        error: INVALID_MEAL_OPTION,
+      });
+    }
+  }
+
+  /**
+   * Validate answers to the wedding's custom questions and merge them into the guest's stored answers
+   * Only attending guests answer: answers for questions they are not attending are cleared.
+   * In a multi-event submission, questions for events not in the submission keep their answers.
+   * @returns The guest's new answers, or undefined if there is nothing to store
+   */
+  private resolveAnswers(
+    wedding: Wedding,
+    guest: Guest,
+    rsvpStatus: RsvpStatus,
+    eventRsvps: EventRsvpMap | undefined,
+    answers: RsvpAnswerMap | undefined,
+  ): RsvpAnswerMap | undefined {
+    const questions = (wedding.rsvpQuestions?.questions ?? []).filter(
+      (question) => !question.eventId || this.guestService.isGuestInvitedToEvent(guest, question.eventId),
+    );
+    const submitted = answers ?? {};
+
+    const questionIds = new Set(questions.map((question) => question.id));
+    for (const questionId of Object.keys(submitted)) {
+      if (!questionIds.has(questionId)) {
+        throw new BadRequestException({
+          ok: false,
+          error: INVALID_RSVP_ANSWER,
+          message: 'Answer to an unknown question',
+        });
+      }
+    }
+
+    if (questions.length === 0 && !guest.rsvpAnswers) {
+      return undefined;
+    }
+
+    const isMultiEvent = !!eventRsvps && Object.keys(eventRsvps).length > 0;
+    const mergedEventRsvps = { ...guest.eventRsvps, ...eventRsvps };
+    const attendingAny = isMultiEvent
+      ? Object.values(mergedEventRsvps).some((eventRsvp) => eventRsvp.rsvpStatus === 'attending')
+      : rsvpStatus === 'attending';
+
+    // Drop stored answers to questions that were removed or no longer apply
+    const result: RsvpAnswerMap = {};
+    for (const [questionId, value] of Object.entries(guest.rsvpAnswers ?? {})) {
+      if (questionIds.has(questionId)) {
+        result[questionId] = value;
+      }
+    }
+
+    for (const question of questions) {
+      let attending = attendingAny;
+      if (isMultiEvent && question.eventId) {
+        const eventRsvp = eventRsvps![question.eventId];
+        if (!eventRsvp) {
+          continue;
+        }
+        attending = eventRsvp.rsvpStatus === 'attending';
+      }
+
+      const value = attending ? this.normalizeAnswer(question, submitted[question.id]) : undefined;
+      if (value !== undefined) {
+        result[question.id] = value;
+        continue;
+      }
+
+      if (attending && question.required) {
+        throw new BadRequestException({
+          ok: false,
+          error: INVALID_RSVP_ANSWER,
+          message: `Please answer "${question.label}"`,
+        });
+      }
+      delete result[question.id];
+    }
+
+    return result;
+  }
+
+  /**
+   * Check an answer against its question's type and choices
+   * @returns The cleaned-up answer, or undefined if the question was left blank
+   */
+  private normalizeAnswer(question: RsvpQuestion, value: unknown): RsvpAnswerValue | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const invalid = () =>
+      new BadRequestException({
+        ok: false,
+        error: INVALID_RSVP_ANSWER,
+        message: `Invalid answer to "${question.label}"`,
+      });
+
+    switch (question.type) {
+      case 'text': {
+        if (typeof value !== 'string' || value.length > MAX_TEXT_ANSWER_LENGTH) {
+          throw invalid();
+        }
+        return value.trim() || undefined;
+      }
+      case 'number': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw invalid();
+        }
+        return value;
+      }
+      case 'single_choice': {
+        if (typeof value !== 'string' || !question.options?.includes(value)) {
+          throw invalid();
+        }
+        return value;
+      }
+      case 'multi_choice': {
+        if (!Array.isArray(value) || value.some((choice) => !question.options?.includes(choice))) {
+          throw invalid();
+        }
+        // Keep the couple's order and drop duplicates
+        const chosen = question.options!.filter((option) => value.includes(option));
+        return chosen.length > 0 ? chosen : undefined;
+      }
+    }
+  }
 }
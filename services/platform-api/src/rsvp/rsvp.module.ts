@@ -1,5 +1,14 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { RsvpController } from './rsvp.controller';
+import { RsvpDeadlineController } from './rsvp-deadline.controller';
+import {
+  RsvpNotificationController,
+  RsvpNotificationWorkerController,
+} from './rsvp-notification.controller';
+import { RsvpNotificationService } from './rsvp-notification.service';
+import { RsvpLookupController } from './rsvp-lookup.controller';
+import { RsvpLookupService } from './rsvp-lookup.service';
+import { AuthModule } from '../auth/auth.module';
 import { GuestModule } from '../guest/guest.module';
 import { WeddingModule } from '../wedding/wedding.module';
 import { SeatingModule } from '../seating/seating.module';
@@ -7,11 +16,19 @@ import { InvitationModule } from '../invitation/invitation.module';
 
 @Module({
   imports: [
+    forwardRef(() => AuthModule),
     forwardRef(() => GuestModule),
     forwardRef(() => WeddingModule),
     forwardRef(() => SeatingModule),
     forwardRef(() => InvitationModule),
   ],
-  controllers: [RsvpController],
+  controllers: [
+    RsvpController,
+    RsvpDeadlineController,
+    RsvpNotificationController,
+    RsvpNotificationWorkerController,
+    RsvpLookupController,
+  ],
+  providers: [RsvpNotificationService, RsvpLookupService],
 })
 export class RsvpModule {}
@@ -7,10 +7,13 @@ import {
   Param,
   Body,
   Headers,
+  Query,
+  Res,
   NotFoundException,
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { SeatingService } from './seating.service';
 import { WeddingService } from '../wedding/wedding.service';
 import { AdminAuthService } from '../auth/admin-auth.service';
@@ -24,15 +27,57 @@ import type {
   AssignGuestsToTableRequest,
   UnassignGuestsRequest,
   UpdateSeatingResponse,
+  AutoSeatRequest,
+  SeatingPlan,
+  ApplySeatingPlanRequest,
+  AssignSeatRequest,
+  FloorPlanLayout,
+  FloorPlanPlacement,
+  SaveFloorPlanRequest,
+  SeatingAssignment,
+  SeatingSeat,
+  SeatingTableShape,
+  VenueFixtureKind,
+  SeatingPrintKind,
+  SeatingPrintPaperSize,
+  Wedding,
 } from '../types';
 import {
   TABLE_NOT_FOUND,
   TABLE_CAPACITY_EXCEEDED,
+  GUEST_NOT_INVITED_TO_EVENT,
+  GUEST_NOT_ATTENDING_EVENT,
+  GUEST_NOT_FOUND,
+  GUEST_ALREADY_ASSIGNED,
+  GUEST_NOT_SEATED,
+  SEAT_NOT_FOUND,
+  SEAT_TAKEN,
   WEDDING_NOT_FOUND,
+  EVENT_NOT_FOUND,
   FEATURE_DISABLED,
   VALIDATION_ERROR,
 } from '../types';
 
+/**
+ * Largest room side, in floor plan units
+ */
+const MAX_FLOOR_PLAN_SIZE = 10000;
+
+/**
+ * Most venue fixtures (dance floor, stage, bar...) on one floor plan
+ */
+const MAX_VENUE_FIXTURES = 50;
+
+/**
+ * Longest seat or fixture label
+ */
+const MAX_FLOOR_PLAN_LABEL_LENGTH = 40;
+
+const TABLE_SHAPES: SeatingTableShape[] = ['round', 'rectangle', 'head'];
+const FIXTURE_KINDS: VenueFixtureKind[] = ['dance_floor', 'stage', 'bar', 'other'];
+const PRINT_KINDS: SeatingPrintKind[] = ['escort-cards', 'place-cards', 'table-signs'];
+const PRINT_PAPER_SIZES: SeatingPrintPaperSize[] = ['letter', 'a4', 'tent-3.5x2'];
+
 @Controller('weddings/:weddingId/seating')
 export class SeatingController {
   constructor(
@@ -44,18 +89,22 @@ export class SeatingController {
   /**
    * Get seating overview (tables with guests and unassigned list)
    * PRD: "Admin can create table assignments"
+   * Every seating endpoint takes ?eventId= to work on that event's chart
+   * instead of the main chart.
    */
   @Get()
   async getSeatingOverview(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('eventId') eventId?: string,
   ): Promise<ApiResponse<SeatingOverviewResponse>> {
     const { wedding } = await this.requireWeddingOwnerWithFeature(
       authHeader,
       weddingId,
     );
+    const chartEventId = this.requireEvent(wedding, eventId);
 
-    const overview = this.seatingService.getSeatingOverview(weddingId);
+    const overview = await this.seatingService.getSeatingOverview(weddingId, chartEventId);
     return { ok: true, data: overview };
   }
 
@@ -66,10 +115,12 @@ export class SeatingController {
   async listTables(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
+    @Query('eventId') eventId?: string,
   ): Promise<ApiResponse<TableListResponse>> {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
 
-    const tables = this.seatingService.getTablesForWedding(weddingId);
+    const tables = await this.seatingService.getTablesForWedding(weddingId, chartEventId);
     return { ok: true, data: { tables } };
   }
 
@@ -83,7 +134,8 @@ export class SeatingController {
     @Param('weddingId') weddingId: string,
     @Body() body: CreateTableRequest,
   ): Promise<ApiResponse<SeatingTable>> {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, body?.eventId);
 
     // Validate request
     if (!body.name || !body.name.trim()) {
@@ -102,8 +154,22 @@ export class SeatingController {
       });
     }
 
-    const table = await this.seatingService.createTable(weddingId, body);
-    return { ok: true, data: table };
+    try {
+      const table = await this.seatingService.createTable(weddingId, {
+        ...body,
+        eventId: chartEventId,
+      });
+      return { ok: true, data: table };
+    } catch (error) {
+      if (error instanceof Error && error.message === 'TABLE_NAME_TAKEN') {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: 'A table with this name already exists',
+        });
+      }
+      throw error;
+    }
   }
 
   /**
@@ -122,7 +188,7 @@ export class SeatingController {
   > {
     await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
 
-    const table = this.seatingService.getTable(tableId);
+    const table = await this.seatingService.getTable(tableId);
     if (!table || table.weddingId !== weddingId) {
       throw new NotFoundException({
         ok: false,
@@ -131,7 +197,7 @@ export class SeatingController {
       });
     }
 
-    const overview = this.seatingService.getSeatingOverview(weddingId);
+    const overview = await this.seatingService.getSeatingOverview(weddingId, table.eventId);
     const tableData = overview.tables.find((t) => t.table.id === tableId);
 
     return {
@@ -155,7 +221,7 @@ export class SeatingController {
   ): Promise<ApiResponse<SeatingTable>> {
     await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
 
-    const table = this.seatingService.getTable(tableId);
+    const table = await this.seatingService.getTable(tableId);
     if (!table || table.weddingId !== weddingId) {
       throw new NotFoundException({
         ok: false,
@@ -175,7 +241,7 @@ export class SeatingController {
 
     // Check if new capacity would be less than current assignments
     if (body.capacity !== undefined) {
-      const guests = this.seatingService.getGuestsAtTable(tableId);
+      const guests = await this.seatingService.getGuestsAtTable(tableId);
       if (body.capacity < guests.length) {
         throw new BadRequestException({
           ok: false,
@@ -185,7 +251,19 @@ export class SeatingController {
       }
     }
 
-    const updated = await this.seatingService.updateTable(tableId, body);
+    let updated: SeatingTable | null;
+    try {
+      updated = await this.seatingService.updateTable(tableId, body);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'TABLE_NAME_TAKEN') {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: 'A table with this name already exists',
+        });
+      }
+      throw error;
+    }
     if (!updated) {
       throw new NotFoundException({
         ok: false,
@@ -206,9 +284,9 @@ export class SeatingController {
     @Param('weddingId') weddingId: string,
     @Param('tableId') tableId: string,
   ): Promise<ApiResponse<{ deleted: boolean }>> {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
 
-    const table = this.seatingService.getTable(tableId);
+    const table = await this.seatingService.getTable(tableId);
     if (!table || table.weddingId !== weddingId) {
       throw new NotFoundException({
         ok: false,
@@ -220,21 +298,23 @@ export class SeatingController {
     await this.seatingService.deleteTable(tableId);
 
     // Update render_config
-    await this.updateRenderConfig(weddingId);
+    await this.updateRenderConfig(wedding);
 
     return { ok: true, data: { deleted: true } };
   }
 
   /**
-   * Reorder tables
+   * Reorder tables (returns the tables of the chart given by ?eventId=)
    */
   @Put('tables/reorder')
   async reorderTables(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
     @Body() body: { tableIds: string[] },
+    @Query('eventId') eventId?: string,
   ): Promise<ApiResponse<TableListResponse>> {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
 
     if (!body.tableIds || !Array.isArray(body.tableIds)) {
       throw new BadRequestException({
@@ -244,30 +324,29 @@ export class SeatingController {
       });
     }
 
-    // Validate all table IDs belong to this wedding
-    for (const tableId of body.tableIds) {
-      if (!this.seatingService.tableBelongsToWedding(tableId, weddingId)) {
+    // Unknown table IDs are rejected inside the same transaction as the reorder
+    let tables: SeatingTable[];
+    try {
+      tables = await this.seatingService.reorderTables(weddingId, body.tableIds, chartEventId);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'TABLE_NOT_FOUND') {
         throw new NotFoundException({
           ok: false,
           error: TABLE_NOT_FOUND,
-          message: `Table ${tableId} not found`,
+          message: 'Table not found',
         });
       }
+      throw error;
     }
 
-    const tables = await this.seatingService.reorderTables(
-      weddingId,
-      body.tableIds,
-    );
-
     // Update render_config
-    await this.updateRenderConfig(weddingId);
+    await this.updateRenderConfig(wedding);
 
     return { ok: true, data: { tables } };
   }
 
   /**
-   * Assign guests to a table
+   * Assign guests to a table (the table decides which chart)
    * PRD: "Admin can assign guests to tables"
    */
   @Post('assign')
@@ -281,7 +360,7 @@ export class SeatingController {
       errors: Array<{ guestId: string; error: string }>;
     }>
   > {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
 
     // Validate request
     if (!body.guestIds || body.guestIds.length === 0) {
@@ -301,7 +380,7 @@ export class SeatingController {
     }
 
     // Validate table belongs to this wedding
-    if (!this.seatingService.tableBelongsToWedding(body.tableId, weddingId)) {
+    if (!(await this.seatingService.tableBelongsToWedding(body.tableId, weddingId))) {
       throw new NotFoundException({
         ok: false,
         error: TABLE_NOT_FOUND,
@@ -317,7 +396,7 @@ export class SeatingController {
       );
 
       // Update render_config
-      await this.updateRenderConfig(weddingId);
+      await this.updateRenderConfig(wedding);
 
       return { ok: true, data: result };
     } catch (error) {
@@ -333,15 +412,17 @@ export class SeatingController {
   }
 
   /**
-   * Unassign guests from their tables
+   * Unassign guests from their tables in one chart
    */
   @Post('unassign')
   async unassignGuests(
     @Headers('authorization') authHeader: string,
     @Param('weddingId') weddingId: string,
     @Body() body: UnassignGuestsRequest,
+    @Query('eventId') eventId?: string,
   ): Promise<ApiResponse<{ unassigned: number }>> {
-    await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
 
     // Validate request
     if (!body.guestIds || body.guestIds.length === 0) {
@@ -352,20 +433,358 @@ export class SeatingController {
       });
     }
 
-    const unassigned = await this.seatingService.unassignGuests(body.guestIds);
+    const unassigned = await this.seatingService.unassignGuests(
+      weddingId,
+      body.guestIds,
+      chartEventId,
+    );
 
     // Update render_config
-    await this.updateRenderConfig(weddingId);
+    await this.updateRenderConfig(wedding);
 
     return { ok: true, data: { unassigned } };
   }
 
   /**
-   * Update render_config with current seating data
+   * Preview an automatic seating plan
+   * Nothing is saved; apply the returned assignments with auto-assign/apply.
+   */
+  @Post('auto-assign')
+  async previewAutoSeating(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: AutoSeatRequest,
+    @Query('eventId') eventId?: string,
+  ): Promise<ApiResponse<SeatingPlan>> {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    const constraints = body?.constraints ?? {};
+    const invalidApart = (constraints.keepApart ?? []).some(
+      (pair) => !Array.isArray(pair.guestIds) || pair.guestIds.length !== 2,
+    );
+    if (invalidApart) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Keep-apart constraints must name exactly two guests',
+      });
+    }
+
+    // Validate pinned tables belong to this chart
+    for (const pin of constraints.pins ?? []) {
+      if (!pin.guestId || !pin.tableId) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: 'Pins require a guest and a table',
+        });
+      }
+      if (
+        !(await this.seatingService.tableBelongsToWedding(pin.tableId, weddingId, {
+          eventId: chartEventId,
+        }))
+      ) {
+        throw new NotFoundException({
+          ok: false,
+          error: TABLE_NOT_FOUND,
+          message: 'Table not found',
+        });
+      }
+    }
+
+    const plan = await this.seatingService.proposeSeatingPlan(
+      weddingId,
+      {
+        constraints,
+        includePending: body?.includePending === true,
+        keepCurrentSeats: body?.keepCurrentSeats === true,
+      },
+      chartEventId,
+    );
+    return { ok: true, data: plan };
+  }
+
+  /**
+   * Apply a previewed seating plan, replacing all of the chart's table assignments at once
+   */
+  @Post('auto-assign/apply')
+  async applyAutoSeating(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: ApplySeatingPlanRequest,
+    @Query('eventId') eventId?: string,
+  ): Promise<ApiResponse<SeatingOverviewResponse>> {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    // Validate request
+    const valid =
+      Array.isArray(body?.assignments) &&
+      body.assignments.every(
+        (a) => typeof a?.guestId === 'string' && typeof a?.tableId === 'string',
+      );
+    if (!valid) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Assignments must list a guest and a table for each seat',
+      });
+    }
+
+    try {
+      await this.seatingService.applySeatingPlan(weddingId, body.assignments, chartEventId);
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      if (code === 'TABLE_NOT_FOUND') {
+        throw new NotFoundException({
+          ok: false,
+          error: TABLE_NOT_FOUND,
+          message: 'Table not found',
+        });
+      }
+      if (code === 'GUEST_NOT_FOUND') {
+        throw new NotFoundException({
+          ok: false,
+          error: GUEST_NOT_FOUND,
+          message: 'Guest not found',
+        });
+      }
+      if (code === 'GUEST_ALREADY_ASSIGNED') {
+        throw new BadRequestException({
+          ok: false,
+          error: GUEST_ALREADY_ASSIGNED,
+          message: 'A guest appears more than once in the plan',
+        });
+      }
+      if (code === 'TABLE_CAPACITY_EXCEEDED') {
+        throw new BadRequestException({
+          ok: false,
+          error: TABLE_CAPACITY_EXCEEDED,
+          message: 'The plan no longer fits your tables. Preview it again.',
+        });
+      }
+      if (code === 'GUEST_NOT_INVITED_TO_EVENT') {
+        throw new BadRequestException({
+          ok: false,
+          error: GUEST_NOT_INVITED_TO_EVENT,
+          message: 'The plan seats a guest who is not invited to this event',
+        });
+      }
+      if (code === 'GUEST_NOT_ATTENDING_EVENT') {
+        throw new BadRequestException({
+          ok: false,
+          error: GUEST_NOT_ATTENDING_EVENT,
+          message: 'The plan seats a guest who declined this event',
+        });
+      }
+      throw error;
+    }
+
+    // Update render_config
+    await this.updateRenderConfig(wedding);
+
+    const overview = await this.seatingService.getSeatingOverview(weddingId, chartEventId);
+    return { ok: true, data: overview };
+  }
+
+  /**
+   * Get the floor plan: room size, table shapes and positions, seats and venue fixtures
+   */
+  @Get('layout')
+  async getFloorPlan(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Query('eventId') eventId?: string,
+  ): Promise<ApiResponse<FloorPlanLayout>> {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    const layout = await this.seatingService.getFloorPlan(weddingId, chartEventId);
+    return { ok: true, data: layout };
+  }
+
+  /**
+   * Save the floor plan
+   * Tables not listed keep their current layout.
+   */
+  @Put('layout')
+  async saveFloorPlan(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Body() body: SaveFloorPlanRequest,
+    @Query('eventId') eventId?: string,
+  ): Promise<ApiResponse<FloorPlanLayout>> {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    const tables = await this.seatingService.getTablesForWedding(weddingId, chartEventId);
+    const layout = this.validateFloorPlan(body, new Map(tables.map((t) => [t.id, t.capacity])));
+
+    try {
+      const saved = await this.seatingService.saveFloorPlan(weddingId, layout, chartEventId);
+
+      // Update render_config
+      await this.updateRenderConfig(wedding);
+
+      return { ok: true, data: saved };
+    } catch (error) {
+      if (error instanceof Error && error.message === 'TABLE_NOT_FOUND') {
+        throw new NotFoundException({
+          ok: false,
+          error: TABLE_NOT_FOUND,
+          message: 'Table not found',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Seat an assigned guest in one of their table's named seats
    */
-  private async updateRenderConfig(weddingId: string): Promise<void> {
-    const seatingConfig = this.seatingService.getSeatingConfig(weddingId);
-    await this.weddingService.updateSeatingConfig(weddingId, seatingConfig);
+  @Put('assignments/:guestId/seat')
+  async assignSeat(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('guestId') guestId: string,
+    @Body() body: AssignSeatRequest,
+    @Query('eventId') eventId?: string,
+  ): Promise<ApiResponse<SeatingAssignment>> {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    const seatNumber = body?.seatNumber ?? null;
+    if (seatNumber !== null && !Number.isInteger(seatNumber)) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Seat number must be a whole number',
+      });
+    }
+
+    try {
+      const assignment = await this.seatingService.assignSeat(
+        weddingId,
+        guestId,
+        seatNumber,
+        chartEventId,
+      );
+      return { ok: true, data: assignment };
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      if (code === 'GUEST_NOT_SEATED') {
+        throw new NotFoundException({
+          ok: false,
+          error: GUEST_NOT_SEATED,
+          message: 'Assign the guest to a table first',
+        });
+      }
+      if (code === 'SEAT_NOT_FOUND') {
+        throw new NotFoundException({
+          ok: false,
+          error: SEAT_NOT_FOUND,
+          message: 'Seat not found at this table',
+        });
+      }
+      if (code === 'SEAT_TAKEN') {
+        throw new BadRequestException({
+          ok: false,
+          error: SEAT_TAKEN,
+          message: 'Another guest is already in this seat',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Download escort cards, place cards or table signs as a print-ready PDF
+   * Styled after the site's template and theme.
+   * GET /api/weddings/:weddingId/seating/print/:kind?paper=letter&eventId=
+   */
+  @Get('print/:kind')
+  async printStationery(
+    @Headers('authorization') authHeader: string,
+    @Param('weddingId') weddingId: string,
+    @Param('kind') kind: string,
+    @Res() res: Response,
+    @Query('paper') paper: string = 'letter',
+    @Query('eventId') eventId?: string,
+  ) {
+    const { wedding } = await this.requireWeddingOwnerWithFeature(authHeader, weddingId);
+    const chartEventId = this.requireEvent(wedding, eventId);
+
+    const printKind = PRINT_KINDS.find((k) => k === kind);
+    const paperSize = PRINT_PAPER_SIZES.find((p) => p === paper);
+    if (!printKind || !paperSize) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Choose escort-cards, place-cards or table-signs on letter, a4 or tent-3.5x2 paper',
+      });
+    }
+
+    // Fall back to the first template if the site hasn't been rendered yet
+    const [defaultTemplate] = this.weddingService.getTemplates();
+    const design = (await this.weddingService.getRenderConfig(weddingId)) ?? {
+      templateId: defaultTemplate.id,
+      theme: defaultTemplate.defaultTheme,
+    };
+
+    try {
+      const result = await this.seatingService.renderPrint(
+        wedding,
+        design,
+        printKind,
+        paperSize,
+        chartEventId,
+      );
+
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+      res.send(result.content);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOTHING_TO_PRINT') {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: printKind === 'table-signs'
+            ? 'Add tables before printing table signs'
+            : 'Seat guests at tables before printing cards',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update render_config with current seating data (main chart and every event's chart)
+   */
+  private async updateRenderConfig(wedding: Wedding): Promise<void> {
+    const seatingConfig = await this.seatingService.getSeatingConfig(
+      wedding.id,
+      wedding.eventDetails?.events ?? [],
+    );
+    await this.weddingService.updateSeatingConfig(wedding.id, seatingConfig);
+  }
+
+  /**
+   * Check that an ?eventId= names one of the wedding's events
+   * Returns undefined (the main chart) when no event is given.
+   */
+  private requireEvent(wedding: Wedding, eventId: string | undefined): string | undefined {
+    if (!eventId) {
+      return undefined;
+    }
+    if (!(wedding.eventDetails?.events ?? []).some((event) => event.id === eventId)) {
+      throw new NotFoundException({
+        ok: false,
+        error: EVENT_NOT_FOUND,
+        message: 'Event not found',
+      });
+    }
+    return eventId;
   }
 
   /**
@@ -389,4 +808,116 @@ export class SeatingController {
 
     return { user, wedding };
   }
+
+  /**
+   * Validate a floor plan and normalize it (trimmed labels, rotations in 0-359)
+   * @param capacities Capacity of each of the wedding's tables, by ID
+   */
+  private validateFloorPlan(
+    body: SaveFloorPlanRequest,
+    capacities: Map<string, number>,
+  ): FloorPlanLayout {
+    const invalid = (message: string) =>
+      new BadRequestException({ ok: false, error: VALIDATION_ERROR, message });
+    const isSize = (value: unknown, max: number): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max;
+    const isCoordinate = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value);
+    const label = (value: unknown): string | undefined => {
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'string' || value.length > MAX_FLOOR_PLAN_LABEL_LENGTH) {
+        throw invalid(`Labels must be at most ${MAX_FLOOR_PLAN_LABEL_LENGTH} characters`);
+      }
+      return value.trim() || undefined;
+    };
+
+    const room = body?.room;
+    if (!isSize(room?.width, MAX_FLOOR_PLAN_SIZE) || !isSize(room?.height, MAX_FLOOR_PLAN_SIZE)) {
+      throw invalid(`Room width and height must be between 1 and ${MAX_FLOOR_PLAN_SIZE}`);
+    }
+
+    const placement = (value: FloorPlanPlacement | undefined): FloorPlanPlacement => {
+      if (
+        !isCoordinate(value?.x) || value.x < 0 || value.x > room.width ||
+        !isCoordinate(value?.y) || value.y < 0 || value.y > room.height ||
+        !isCoordinate(value?.rotation)
+      ) {
+        throw invalid('Everything on the floor plan must be placed inside the room');
+      }
+      return { x: value.x, y: value.y, rotation: ((value.rotation % 360) + 360) % 360 };
+    };
+
+    if (!Array.isArray(body.tables) || !Array.isArray(body.fixtures)) {
+      throw invalid('Tables and fixtures must be lists');
+    }
+
+    const seen = new Set<string>();
+    const tables = body.tables.map((table) => {
+      const capacity = capacities.get(table?.tableId);
+      if (capacity === undefined) {
+        throw new NotFoundException({ ok: false, error: TABLE_NOT_FOUND, message: 'Table not found' });
+      }
+      if (seen.has(table.tableId)) {
+        throw invalid('Each table can only appear once');
+      }
+      seen.add(table.tableId);
+
+      if (!TABLE_SHAPES.includes(table.shape)) {
+        throw invalid('Table shape must be round, rectangle or head');
+      }
+      if (!isSize(table.width, room.width) || !isSize(table.height, room.height)) {
+        throw invalid('Tables must fit inside the room');
+      }
+
+      const seatList: SeatingSeat[] = Array.isArray(table.seats) ? table.seats : [];
+      if (seatList.length > capacity) {
+        throw invalid(`A table with ${capacity} places can have at most ${capacity} seats`);
+      }
+      const numbers = new Set<number>();
+      const seats = seatList.map((seat) => {
+        if (!Number.isInteger(seat?.number) || seat.number < 1 || numbers.has(seat.number)) {
+          throw invalid('Seat numbers must be unique whole numbers starting at 1');
+        }
+        if (!isCoordinate(seat.x) || !isCoordinate(seat.y)) {
+          throw invalid('Each seat needs a position');
+        }
+        numbers.add(seat.number);
+        return { number: seat.number, label: label(seat.label), x: seat.x, y: seat.y };
+      });
+
+      return {
+        tableId: table.tableId,
+        shape: table.shape,
+        width: table.width,
+        height: table.height,
+        placement: table.placement ? placement(table.placement) : undefined,
+        seats,
+      };
+    });
+
+    if (body.fixtures.length > MAX_VENUE_FIXTURES) {
+      throw invalid(`A floor plan can have at most ${MAX_VENUE_FIXTURES} fixtures`);
+    }
+    const fixtures = body.fixtures.map((fixture) => {
+      if (typeof fixture?.id !== 'string' || !fixture.id) {
+        throw invalid('Each fixture needs an ID');
+      }
+      if (!FIXTURE_KINDS.includes(fixture.kind)) {
+        throw invalid('Fixture must be a dance floor, stage, bar or other');
+      }
+      if (!isSize(fixture.width, room.width) || !isSize(fixture.height, room.height)) {
+        throw invalid('Fixtures must fit inside the room');
+      }
+      return {
+        id: fixture.id,
+        kind: fixture.kind,
+        label: label(fixture.label),
+        width: fixture.width,
+        height: fixture.height,
+        placement: placement(fixture.placement),
+      };
+    });
+
+    return { room: { width: room.width, height: room.height }, tables, fixtures };
+  }
 }
@@ -1,57 +1,236 @@
 import { Injectable, Logger, forwardRef, Inject } from '@nestjs/common';
-import { randomBytes } from 'crypto';
+import {
+  getSupabaseClient,
+  DbSeatingTable,
+  DbSeatingAssignment,
+} from '../utils/supabase';
 import type {
   SeatingTable,
   SeatingAssignment,
   SeatingConfig,
+  SeatingConfigTable,
+  SeatingConfigFloorPlan,
+  GuestTableAssignment,
   CreateTableRequest,
   UpdateTableRequest,
+  AutoSeatRequest,
+  SeatingPlan,
+  SeatingPlanAssignment,
+  SeatingSeat,
+  SeatingTableShape,
+  FloorPlanLayout,
+  FloorPlanRoom,
+  VenueFixture,
+  VenueFixtureKind,
+  SeatingPrintKind,
+  SeatingPrintPaperSize,
+  SeatingPrintResponse,
+  Wedding,
+  WeddingEvent,
+  Guest,
+  Theme,
 } from '../types';
 import { GuestService } from '../guest/guest.service';
+import { TagService } from '../guest/tag.service';
+import { keepSeatNumbers, planSeating } from '../utils/seating-planner';
+import { renderSeatingPrint } from '../utils/seating-print';
+
+/**
+ * Postgres unique_violation error code (duplicate table name per wedding)
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Room size used until the couple saves a floor plan (floor plan units)
+ */
+const DEFAULT_FLOOR_PLAN_ROOM: FloorPlanRoom = { width: 1000, height: 700 };
+
+const TABLE_SHAPES: SeatingTableShape[] = ['round', 'rectangle', 'head'];
+const FIXTURE_KINDS: VenueFixtureKind[] = ['dance_floor', 'stage', 'bar', 'other'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asFiniteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse a table's seats column, dropping malformed entries
+ */
+function parseSeats(value: unknown): SeatingSeat[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((seat): SeatingSeat[] => {
+    if (!isRecord(seat)) return [];
+    const number = asFiniteNumber(seat.number);
+    const x = asFiniteNumber(seat.x);
+    const y = asFiniteNumber(seat.y);
+    if (number === undefined || x === undefined || y === undefined) return [];
+    const label = typeof seat.label === 'string' && seat.label ? seat.label : undefined;
+    return [{ number, label, x, y }];
+  });
+}
+
+/**
+ * Parse one chart's entry of the weddings.floor_plan column, falling back to an empty room
+ */
+function parseFloorPlan(value: Record<string, unknown> | null): SeatingConfigFloorPlan {
+  const room = isRecord(value?.room) ? value.room : {};
+  const fixtures = Array.isArray(value?.fixtures) ? value.fixtures : [];
+
+  return {
+    room: {
+      width: asFiniteNumber(room.width) ?? DEFAULT_FLOOR_PLAN_ROOM.width,
+      height: asFiniteNumber(room.height) ?? DEFAULT_FLOOR_PLAN_ROOM.height,
+    },
+    fixtures: fixtures.flatMap((fixture): VenueFixture[] => {
+      if (!isRecord(fixture) || !isRecord(fixture.placement)) return [];
+      const kind = FIXTURE_KINDS.find((k) => k === fixture.kind);
+      const width = asFiniteNumber(fixture.width);
+      const height = asFiniteNumber(fixture.height);
+      const x = asFiniteNumber(fixture.placement.x);
+      const y = asFiniteNumber(fixture.placement.y);
+      if (typeof fixture.id !== 'string' || !kind || !width || !height || x === undefined || y === undefined) {
+        return [];
+      }
+      return [{
+        id: fixture.id,
+        kind,
+        label: typeof fixture.label === 'string' && fixture.label ? fixture.label : undefined,
+        width,
+        height,
+        placement: { x, y, rotation: asFiniteNumber(fixture.placement.rotation) ?? 0 },
+      }];
+    }),
+  };
+}
+
+/**
+ * Whether a guest can be seated in a chart: attending (or pending, if asked) by
+ * their wedding RSVP for the main chart, or invited to the event and attending
+ * it for an event chart (no invitedEventIds means invited to every event)
+ */
+function isSeatable(guest: Guest, eventId: string | undefined, includePending = false): boolean {
+  if (eventId && guest.invitedEventIds?.length && !guest.invitedEventIds.includes(eventId)) {
+    return false;
+  }
+  const status = eventId
+    ? guest.eventRsvps?.[eventId]?.rsvpStatus ?? guest.rsvpStatus
+    : guest.rsvpStatus;
+  return status === 'attending' || (includePending && status === 'pending');
+}
 
 @Injectable()
 export class SeatingService {
   private readonly logger = new Logger(SeatingService.name);
 
-  // In-memory stores for development
-  private tables: Map<string, SeatingTable> = new Map();
-  private assignments: Map<string, SeatingAssignment> = new Map(); // keyed by guestId
-
   constructor(
     @Inject(forwardRef(() => GuestService))
     private readonly guestService: GuestService,
+    @Inject(forwardRef(() => TagService))
+    private readonly tagService: TagService,
   ) {}
 
   /**
-   * Create a new table for a wedding
+   * Convert database table to API type
+   */
+  private dbTableToTable(db: DbSeatingTable): SeatingTable {
+    return {
+      id: db.id,
+      weddingId: db.wedding_id,
+      eventId: db.event_id ?? undefined,
+      name: db.name,
+      capacity: db.capacity,
+      notes: db.notes ?? undefined,
+      order: db.order,
+      shape: TABLE_SHAPES.find((shape) => shape === db.shape) ?? 'round',
+      width: db.width,
+      height: db.height,
+      placement:
+        db.position_x !== null && db.position_y !== null
+          ? { x: db.position_x, y: db.position_y, rotation: db.rotation }
+          : undefined,
+      seats: parseSeats(db.seats),
+      createdAt: db.created_at,
+    };
+  }
+
+  /**
+   * Convert database assignment to API type
+   */
+  private dbAssignmentToAssignment(db: DbSeatingAssignment): SeatingAssignment {
+    return {
+      guestId: db.guest_id,
+      tableId: db.table_id,
+      eventId: db.event_id ?? undefined,
+      seatNumber: db.seat_number ?? undefined,
+      assignedAt: db.assigned_at,
+    };
+  }
+
+  /**
+   * Fetch all assignments for the given tables in a single query
+   */
+  private async getAssignmentsForTables(
+    tableIds: string[],
+  ): Promise<SeatingAssignment[]> {
+    if (tableIds.length === 0) {
+      return [];
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('seating_assignments')
+      .select('*')
+      .in('table_id', tableIds);
+
+    if (error || !data) return [];
+    return data.map((a) => this.dbAssignmentToAssignment(a as DbSeatingAssignment));
+  }
+
+  /**
+   * Create a new table in one of the wedding's seating charts (request.eventId, or the main chart)
+   * @throws Error with 'TABLE_NAME_TAKEN' if the chart already has a table with this name
    */
   async createTable(
     weddingId: string,
     request: CreateTableRequest,
   ): Promise<SeatingTable> {
-    const tableId = randomBytes(16).toString('hex');
-    const now = new Date().toISOString();
+    const supabase = getSupabaseClient();
 
     // Get existing tables to determine order
-    const existingTables = this.getTablesForWedding(weddingId);
+    const existingTables = await this.getTablesForWedding(weddingId, request.eventId);
     const maxOrder = existingTables.reduce(
       (max, t) => Math.max(max, t.order),
       0,
     );
 
-    const table: SeatingTable = {
-      id: tableId,
-      weddingId,
-      name: request.name.trim(),
-      capacity: request.capacity,
-      notes: request.notes?.trim(),
-      order: maxOrder + 1,
-      createdAt: now,
-    };
+    const { data, error } = await supabase
+      .from('seating_tables')
+      .insert({
+        wedding_id: weddingId,
+        event_id: request.eventId ?? null,
+        name: request.name.trim(),
+        capacity: request.capacity,
+        notes: request.notes?.trim() || null,
+        order: maxOrder + 1,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error('TABLE_NAME_TAKEN');
+      }
+      this.logger.error(`Failed to create table for wedding ${weddingId}`, error);
+      throw new Error('Failed to create table');
+    }
 
-    this.tables.set(tableId, table);
+    const table = this.dbTableToTable(data as DbSeatingTable);
     this.logger.log(
-      `Created table ${tableId} for wedding ${weddingId}: ${table.name} (capacity: ${table.capacity})`,
+      `Created table ${table.id} for wedding ${weddingId}: ${table.name} (capacity: ${table.capacity})`,
     );
 
     return table;
@@ -59,203 +238,521 @@ export class SeatingService {
 
   /**
    * Update an existing table
+   * @throws Error with 'TABLE_NAME_TAKEN' if the new name is used by another table in the chart
    */
   async updateTable(
     tableId: string,
     request: UpdateTableRequest,
   ): Promise<SeatingTable | null> {
-    const table = this.tables.get(tableId);
-    if (!table) {
-      return null;
+    const supabase = getSupabaseClient();
+    const changes: Partial<DbSeatingTable> = {};
+
+    if (request.name !== undefined) changes.name = request.name.trim();
+    if (request.capacity !== undefined) changes.capacity = request.capacity;
+    if (request.notes !== undefined) changes.notes = request.notes?.trim() || null;
+
+    if (Object.keys(changes).length === 0) {
+      return this.getTable(tableId);
     }
 
-    const updated: SeatingTable = {
-      ...table,
-      name: request.name?.trim() ?? table.name,
-      capacity: request.capacity ?? table.capacity,
-      notes: request.notes !== undefined ? request.notes?.trim() : table.notes,
-    };
+    const { data, error } = await supabase
+      .from('seating_tables')
+      .update(changes)
+      .eq('id', tableId)
+      .select()
+      .single();
 
-    this.tables.set(tableId, updated);
-    this.logger.log(`Updated table ${tableId}`);
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error('TABLE_NAME_TAKEN');
+      }
+      if (error) {
+        this.logger.error(`Failed to update table ${tableId}`, error);
+      }
+      return null;
+    }
 
-    return updated;
+    this.logger.log(`Updated table ${tableId}`);
+    return this.dbTableToTable(data as DbSeatingTable);
   }
 
   /**
    * Delete a table and unassign all guests from it
+   * (assignments are removed by ON DELETE CASCADE)
    */
   async deleteTable(tableId: string): Promise<boolean> {
-    const table = this.tables.get(tableId);
-    if (!table) {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('seating_tables')
+      .delete()
+      .eq('id', tableId)
+      .select('id');
+
+    if (error) {
+      this.logger.error(`Failed to delete table ${tableId}`, error);
       return false;
     }
 
-    // Remove all assignments for this table
-    for (const [guestId, assignment] of this.assignments.entries()) {
-      if (assignment.tableId === tableId) {
-        this.assignments.delete(guestId);
-      }
+    if (!data || data.length === 0) {
+      return false;
     }
 
-    this.tables.delete(tableId);
     this.logger.log(`Deleted table ${tableId}`);
-
     return true;
   }
 
   /**
-   * Reorder tables
+   * Reorder tables atomically, returning the chart's tables in their new order
+   * @throws Error with 'TABLE_NOT_FOUND' if any ID is not a table of this wedding
    */
   async reorderTables(
     weddingId: string,
     tableIds: string[],
+    eventId?: string,
   ): Promise<SeatingTable[]> {
-    const tables = this.getTablesForWedding(weddingId);
-    const tableMap = new Map(tables.map((t) => [t.id, t]));
-
-    // Update order based on position in array
-    tableIds.forEach((tableId, index) => {
-      const table = tableMap.get(tableId);
-      if (table) {
-        const updated = { ...table, order: index + 1 };
-        this.tables.set(tableId, updated);
-      }
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.rpc('reorder_seating_tables', {
+      p_wedding_id: weddingId,
+      p_table_ids: tableIds,
     });
 
-    return this.getTablesForWedding(weddingId);
+    if (error) {
+      if (error.message === 'TABLE_NOT_FOUND') {
+        throw new Error('TABLE_NOT_FOUND');
+      }
+      this.logger.error(`Failed to reorder tables for wedding ${weddingId}`, error);
+      throw new Error('Failed to reorder tables');
+    }
+
+    return this.getTablesForWedding(weddingId, eventId);
   }
 
   /**
    * Get a table by ID
    */
-  getTable(tableId: string): SeatingTable | null {
-    return this.tables.get(tableId) || null;
+  async getTable(tableId: string): Promise<SeatingTable | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('seating_tables')
+      .select('*')
+      .eq('id', tableId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbTableToTable(data as DbSeatingTable);
   }
 
   /**
-   * Get all tables for a wedding
+   * Get the tables of one of the wedding's seating charts
+   * @param eventId Event whose chart to read; omit for the main chart
    */
-  getTablesForWedding(weddingId: string): SeatingTable[] {
-    const weddingTables: SeatingTable[] = [];
-    for (const table of this.tables.values()) {
-      if (table.weddingId === weddingId) {
-        weddingTables.push(table);
-      }
-    }
-    // Sort by order
-    return weddingTables.sort((a, b) => a.order - b.order);
+  async getTablesForWedding(weddingId: string, eventId?: string): Promise<SeatingTable[]> {
+    const supabase = getSupabaseClient();
+
+    const query = supabase
+      .from('seating_tables')
+      .select('*')
+      .eq('wedding_id', weddingId);
+
+    const { data, error } = await (eventId ? query.eq('event_id', eventId) : query.is('event_id', null))
+      .order('order', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map((t) => this.dbTableToTable(t as DbSeatingTable));
   }
 
   /**
-   * Check if a table belongs to a wedding
+   * Check if a table belongs to a wedding (and, if given, to an event's chart)
    */
-  tableBelongsToWedding(tableId: string, weddingId: string): boolean {
-    const table = this.tables.get(tableId);
-    return table !== null && table !== undefined && table.weddingId === weddingId;
+  async tableBelongsToWedding(
+    tableId: string,
+    weddingId: string,
+    chart?: { eventId?: string },
+  ): Promise<boolean> {
+    const table = await this.getTable(tableId);
+    if (table === null || table.weddingId !== weddingId) return false;
+    return chart === undefined || table.eventId === chart.eventId;
   }
 
   /**
-   * Assign guests to a table
+   * Assign guests to a table.
+   * Runs as one transaction that locks the table row, so concurrent requests
+   * cannot overfill it or seat the same guest twice in a chart. Guests not
+   * invited to an event table's event are reported as GUEST_NOT_INVITED_TO_EVENT,
+   * and guests who declined it as GUEST_NOT_ATTENDING_EVENT.
+   * @throws Error with 'TABLE_NOT_FOUND' if the table is not part of this wedding
    */
   async assignGuestsToTable(
     weddingId: string,
     tableId: string,
     guestIds: string[],
   ): Promise<{ assigned: string[]; errors: Array<{ guestId: string; error: string }> }> {
-    const table = this.tables.get(tableId);
-    if (!table || table.weddingId !== weddingId) {
-      throw new Error('TABLE_NOT_FOUND');
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc('assign_guests_to_table', {
+      p_wedding_id: weddingId,
+      p_table_id: tableId,
+      p_guest_ids: guestIds,
+    });
+
+    if (error || !data) {
+      if (error?.message === 'TABLE_NOT_FOUND') {
+        throw new Error('TABLE_NOT_FOUND');
+      }
+      this.logger.error(`Failed to assign guests to table ${tableId}`, error);
+      throw new Error('Failed to assign guests');
     }
 
-    // Get current assignments for this table
-    const currentAssignments = this.getGuestsAtTable(tableId);
-    const currentCount = currentAssignments.length;
+    const { assigned, errors } = data as {
+      assigned: string[];
+      errors: Array<{ guestId: string; error: string }>;
+    };
 
-    const assigned: string[] = [];
-    const errors: Array<{ guestId: string; error: string }> = [];
+    this.logger.log(
+      `Assigned ${assigned.length} guests to table ${tableId} (${errors.length} errors)`,
+    );
 
-    for (const guestId of guestIds) {
-      // Check capacity
-      if (currentCount + assigned.length >= table.capacity) {
-        errors.push({ guestId, error: 'TABLE_CAPACITY_EXCEEDED' });
-        continue;
-      }
+    return { assigned, errors };
+  }
 
-      // Check if guest belongs to this wedding
-      const guest = this.guestService.getGuest(guestId);
-      if (!guest || guest.weddingId !== weddingId) {
-        errors.push({ guestId, error: 'GUEST_NOT_FOUND' });
-        continue;
-      }
+  /**
+   * Remove guests from their tables in one seating chart (the main chart unless an event is given)
+   */
+  async unassignGuests(weddingId: string, guestIds: string[], eventId?: string): Promise<number> {
+    const supabase = getSupabaseClient();
 
-      // Remove any existing assignment (guest can only be at one table)
-      this.assignments.delete(guestId);
+    const { data, error } = await supabase.rpc('unassign_seating_guests', {
+      p_wedding_id: weddingId,
+      p_event_id: eventId ?? null,
+      p_guest_ids: guestIds,
+    });
 
-      // Create new assignment
-      const assignment: SeatingAssignment = {
-        guestId,
-        tableId,
-        assignedAt: new Date().toISOString(),
-      };
-      this.assignments.set(guestId, assignment);
-      assigned.push(guestId);
+    if (error) {
+      this.logger.error(`Failed to unassign guests in wedding ${weddingId}`, error);
+      throw new Error('Failed to unassign guests');
     }
 
-    this.logger.log(
-      `Assigned ${assigned.length} guests to table ${tableId} (${errors.length} errors)`,
+    const count = (data as number | null) ?? 0;
+    this.logger.log(`Unassigned ${count} guests from their tables`);
+    return count;
+  }
+
+  /**
+   * Propose a seating chart for the chart's attending guests (and pending ones if asked)
+   * Nothing is saved; the couple previews the plan and applies it with applySeatingPlan.
+   */
+  async proposeSeatingPlan(
+    weddingId: string,
+    request: AutoSeatRequest,
+    eventId?: string,
+  ): Promise<SeatingPlan> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const guests = (await this.guestService.getGuestsForWedding(weddingId)).filter((guest) =>
+      isSeatable(guest, eventId, request.includePending === true),
     );
 
-    return { assigned, errors };
+    const constraints = { ...request.constraints };
+    if (request.keepCurrentSeats) {
+      // Current seats become pins; explicit pins in the request take precedence
+      const pinned = new Set((constraints.pins ?? []).map((pin) => pin.guestId));
+      const assignments = await this.getAssignmentsForTables(tables.map((t) => t.id));
+      constraints.pins = [
+        ...(constraints.pins ?? []),
+        ...assignments
+          .filter((a) => !pinned.has(a.guestId))
+          .map((a) => ({ guestId: a.guestId, tableId: a.tableId })),
+      ];
+    }
+
+    const tagNames = new Map(
+      this.tagService.getTagsForWedding(weddingId).map((tag) => [tag.id, tag.name]),
+    );
+
+    const plan = planSeating(tables, guests, constraints, tagNames);
+    this.logger.log(
+      `Proposed seating plan for wedding ${weddingId}${eventId ? ` event ${eventId}` : ''}: ${plan.assignments.length} seated, score ${plan.score}`,
+    );
+    return plan;
   }
 
   /**
-   * Remove guests from their tables
+   * Replace every table assignment of one seating chart with a seating plan.
+   * Runs as one transaction that validates the whole plan first. Guests who
+   * keep their table keep their named seat.
+   * @throws Error with 'TABLE_NOT_FOUND' (including tables of another chart), 'GUEST_NOT_FOUND',
+   *   'GUEST_ALREADY_ASSIGNED' or 'TABLE_CAPACITY_EXCEEDED' if the plan no longer fits the chart,
+   *   or 'GUEST_NOT_INVITED_TO_EVENT' / 'GUEST_NOT_ATTENDING_EVENT' if an event chart seats
+   *   a guest who is not coming to the event
    */
-  async unassignGuests(guestIds: string[]): Promise<number> {
-    let count = 0;
-    for (const guestId of guestIds) {
-      if (this.assignments.delete(guestId)) {
-        count++;
+  async applySeatingPlan(
+    weddingId: string,
+    assignments: SeatingPlanAssignment[],
+    eventId?: string,
+  ): Promise<number> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const current = await this.getAssignmentsForTables(tables.map((t) => t.id));
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc('apply_seating_plan', {
+      p_wedding_id: weddingId,
+      p_event_id: eventId ?? null,
+      p_assignments: keepSeatNumbers(assignments, current),
+    });
+
+    if (error) {
+      if (
+        [
+          'TABLE_NOT_FOUND',
+          'GUEST_NOT_FOUND',
+          'GUEST_ALREADY_ASSIGNED',
+          'TABLE_CAPACITY_EXCEEDED',
+          'GUEST_NOT_INVITED_TO_EVENT',
+          'GUEST_NOT_ATTENDING_EVENT',
+        ].includes(error.message)
+      ) {
+        throw new Error(error.message);
       }
+      this.logger.error(`Failed to apply seating plan for wedding ${weddingId}`, error);
+      throw new Error('Failed to apply seating plan');
     }
-    this.logger.log(`Unassigned ${count} guests from their tables`);
+
+    const count = (data as number | null) ?? 0;
+    this.logger.log(`Applied seating plan for wedding ${weddingId}: ${count} guests seated`);
     return count;
   }
 
   /**
-   * Get guests assigned to a specific table
+   * Get a seating chart's floor plan, with the default room if none has been saved
    */
-  getGuestsAtTable(tableId: string): Array<{ guestId: string; seatNumber?: number }> {
-    const guests: Array<{ guestId: string; seatNumber?: number }> = [];
-    for (const [guestId, assignment] of this.assignments.entries()) {
-      if (assignment.tableId === tableId) {
-        guests.push({
-          guestId,
-          seatNumber: assignment.seatNumber,
-        });
+  async getFloorPlan(weddingId: string, eventId?: string): Promise<FloorPlanLayout> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const saved = await this.getSavedFloorPlan(weddingId, eventId);
+
+    return {
+      room: saved?.room ?? DEFAULT_FLOOR_PLAN_ROOM,
+      tables: tables.map((table) => ({
+        tableId: table.id,
+        shape: table.shape,
+        width: table.width,
+        height: table.height,
+        placement: table.placement,
+        seats: table.seats,
+      })),
+      fixtures: saved?.fixtures ?? [],
+    };
+  }
+
+  /**
+   * Save a seating chart's floor plan (room, fixtures and table layouts) atomically
+   * Guests whose seat number no longer exists keep their table but lose the seat.
+   * @throws Error with 'TABLE_NOT_FOUND' if a layout names a table outside this chart
+   */
+  async saveFloorPlan(
+    weddingId: string,
+    layout: FloorPlanLayout,
+    eventId?: string,
+  ): Promise<FloorPlanLayout> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.rpc('save_floor_plan', {
+      p_wedding_id: weddingId,
+      p_event_id: eventId ?? null,
+      p_floor_plan: { room: layout.room, fixtures: layout.fixtures },
+      p_tables: layout.tables.map((table) => ({
+        tableId: table.tableId,
+        shape: table.shape,
+        width: table.width,
+        height: table.height,
+        x: table.placement?.x ?? null,
+        y: table.placement?.y ?? null,
+        rotation: table.placement?.rotation ?? 0,
+        seats: table.seats,
+      })),
+    });
+
+    if (error) {
+      if (error.message === 'TABLE_NOT_FOUND') {
+        throw new Error('TABLE_NOT_FOUND');
       }
+      this.logger.error(`Failed to save floor plan for wedding ${weddingId}`, error);
+      throw new Error('Failed to save floor plan');
     }
-    return guests;
+
+    this.logger.log(
+      `Saved floor plan for wedding ${weddingId}: ${layout.tables.length} tables, ${layout.fixtures.length} fixtures`,
+    );
+    return this.getFloorPlan(weddingId, eventId);
   }
 
   /**
-   * Get a guest's seating assignment
+   * Seat an assigned guest in one of their table's named seats (null clears the seat)
+   * @throws Error with 'GUEST_NOT_SEATED' if the guest has no table in this chart,
+   *   'SEAT_NOT_FOUND' if the table has no such seat, or 'SEAT_TAKEN' if another guest holds it
    */
-  getGuestAssignment(guestId: string): SeatingAssignment | null {
-    return this.assignments.get(guestId) || null;
+  async assignSeat(
+    weddingId: string,
+    guestId: string,
+    seatNumber: number | null,
+    eventId?: string,
+  ): Promise<SeatingAssignment> {
+    const assignment = await this.getGuestAssignment(guestId, eventId);
+    const table = assignment ? await this.getTable(assignment.tableId) : null;
+    if (!assignment || !table || table.weddingId !== weddingId) {
+      throw new Error('GUEST_NOT_SEATED');
+    }
+
+    if (seatNumber !== null && !table.seats.some((seat) => seat.number === seatNumber)) {
+      throw new Error('SEAT_NOT_FOUND');
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('seating_assignments')
+      .update({ seat_number: seatNumber })
+      .eq('guest_id', guestId)
+      .eq('table_id', table.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error('SEAT_TAKEN');
+      }
+      this.logger.error(`Failed to assign seat for guest ${guestId}`, error);
+      throw new Error('Failed to assign seat');
+    }
+
+    this.logger.log(`Guest ${guestId} seated at ${table.id} seat ${seatNumber ?? 'none'}`);
+    return this.dbAssignmentToAssignment(data as DbSeatingAssignment);
   }
 
   /**
-   * Get unassigned guests for a wedding (attending only)
+   * Generate printable escort cards, place cards or table signs as a PDF
+   * Only seated guests get cards; place cards follow seat order within each table.
+   * @throws Error with 'NOTHING_TO_PRINT' if there are no tables (or no seated guests for cards)
    */
-  getUnassignedGuests(weddingId: string): Array<{ id: string; name: string }> {
-    const guests = this.guestService.getGuestsForWedding(weddingId);
+  async renderPrint(
+    wedding: Wedding,
+    design: { templateId: string; theme: Theme },
+    kind: SeatingPrintKind,
+    paper: SeatingPrintPaperSize,
+    eventId?: string,
+  ): Promise<SeatingPrintResponse> {
+    const overview = await this.getSeatingOverview(wedding.id, eventId);
+    const guests = await this.guestService.getGuestsForWedding(wedding.id);
+    const mealsByGuest = new Map(guests.map((g) => [g.id, g.mealOptionId]));
+
+    const tables = overview.tables.map(({ table, guests: seated }) => ({
+      name: table.name,
+      guests: [...seated]
+        .sort((a, b) => (a.seatNumber ?? Infinity) - (b.seatNumber ?? Infinity))
+        .map((guest) => ({
+          name: guest.name,
+          seatLabel: table.seats.find((seat) => seat.number === guest.seatNumber)?.label,
+          mealOptionId: mealsByGuest.get(guest.id),
+        })),
+    }));
+
+    const isEmpty =
+      kind === 'table-signs' ? tables.length === 0 : tables.every((t) => t.guests.length === 0);
+    if (isEmpty) {
+      throw new Error('NOTHING_TO_PRINT');
+    }
+
+    const content = await renderSeatingPrint({
+      kind,
+      paper,
+      templateId: design.templateId,
+      theme: design.theme,
+      coupleNames: `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`,
+      tables,
+      mealOptions: wedding.mealConfig?.enabled ? wedding.mealConfig.options : [],
+    });
+
+    this.logger.log(`Generated ${kind} (${paper}) for wedding ${wedding.id}${eventId ? ` event ${eventId}` : ''}`);
+    return {
+      content,
+      filename: eventId ? `${kind}-${eventId}-${paper}.pdf` : `${kind}-${paper}.pdf`,
+      contentType: 'application/pdf',
+    };
+  }
+
+  /**
+   * Read a chart's saved room and fixtures; null if the couple hasn't saved its floor plan
+   * The main chart's plan is the top level of weddings.floor_plan, event charts are under events.
+   */
+  private async getSavedFloorPlan(
+    weddingId: string,
+    eventId?: string,
+  ): Promise<SeatingConfigFloorPlan | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('weddings')
+      .select('floor_plan')
+      .eq('id', weddingId)
+      .maybeSingle();
+
+    if (error || !isRecord(data?.floor_plan)) return null;
+    const events = data.floor_plan.events;
+    const chart = eventId ? (isRecord(events) ? events[eventId] : undefined) : data.floor_plan;
+    if (!isRecord(chart) || !isRecord(chart.room)) return null;
+    return parseFloorPlan(chart);
+  }
+
+  /**
+   * Get guests assigned to a specific table
+   */
+  async getGuestsAtTable(
+    tableId: string,
+  ): Promise<Array<{ guestId: string; seatNumber?: number }>> {
+    const assignments = await this.getAssignmentsForTables([tableId]);
+    return assignments.map((a) => ({
+      guestId: a.guestId,
+      seatNumber: a.seatNumber,
+    }));
+  }
+
+  /**
+   * Get a guest's seating assignment in one chart (the main chart unless an event is given)
+   */
+  async getGuestAssignment(guestId: string, eventId?: string): Promise<SeatingAssignment | null> {
+    const supabase = getSupabaseClient();
+
+    const query = supabase
+      .from('seating_assignments')
+      .select('*')
+      .eq('guest_id', guestId);
+
+    const { data, error } = await (eventId ? query.eq('event_id', eventId) : query.is('event_id', null))
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return this.dbAssignmentToAssignment(data as DbSeatingAssignment);
+  }
+
+  /**
+   * Get unassigned guests for a seating chart (attending only)
+   */
+  async getUnassignedGuests(
+    weddingId: string,
+    eventId?: string,
+  ): Promise<Array<{ id: string; name: string }>> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const assignments = await this.getAssignmentsForTables(tables.map((t) => t.id));
+    const assignedGuestIds = new Set(assignments.map((a) => a.guestId));
+
+    const guests = await this.guestService.getGuestsForWedding(weddingId);
     const unassigned: Array<{ id: string; name: string }> = [];
 
     for (const guest of guests) {
       // Only include attending guests as candidates for seating
-      if (guest.rsvpStatus === 'attending' && !this.assignments.has(guest.id)) {
+      if (isSeatable(guest, eventId) && !assignedGuestIds.has(guest.id)) {
         unassigned.push({ id: guest.id, name: guest.name });
       }
     }
@@ -266,58 +763,110 @@ export class SeatingService {
   /**
    * Generate seating config for render_config (public display)
    * NOTE: Guest names are NOT included for privacy - only table info and guest counts
+   * @param events The wedding's events; each event with tables gets its own chart
    */
-  getSeatingConfig(weddingId: string): SeatingConfig {
-    const tables = this.getTablesForWedding(weddingId);
+  async getSeatingConfig(weddingId: string, events: WeddingEvent[] = []): Promise<SeatingConfig> {
+    const eventCharts: NonNullable<SeatingConfig['events']> = [];
+    for (const event of events) {
+      const tables = await this.getSeatingConfigTables(weddingId, event.id);
+      if (tables.length > 0) {
+        eventCharts.push({
+          eventId: event.id,
+          eventName: event.name,
+          tables,
+          floorPlan: (await this.getSavedFloorPlan(weddingId, event.id)) ?? undefined,
+        });
+      }
+    }
 
     return {
-      tables: tables.map((table) => {
-        const guestAssignments = this.getGuestsAtTable(table.id);
-
-        return {
-          id: table.id,
-          name: table.name,
-          capacity: table.capacity,
-          notes: table.notes,
-          order: table.order,
-          guestCount: guestAssignments.length,
-        };
-      }),
+      tables: await this.getSeatingConfigTables(weddingId),
+      floorPlan: (await this.getSavedFloorPlan(weddingId)) ?? undefined,
+      events: eventCharts.length > 0 ? eventCharts : undefined,
     };
   }
 
   /**
-   * Get a guest's table assignment for RSVP view
-   * Returns null if guest is not assigned to any table
+   * One chart's tables for the public seating config, with guest counts
    */
-  getGuestTableAssignment(guestId: string): {
-    tableName: string;
-    tableId: string;
-    seatNumber?: number;
-    tableNotes?: string;
-  } | null {
-    const assignment = this.assignments.get(guestId);
-    if (!assignment) {
-      return null;
-    }
+  private async getSeatingConfigTables(
+    weddingId: string,
+    eventId?: string,
+  ): Promise<SeatingConfigTable[]> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const assignments = await this.getAssignmentsForTables(tables.map((t) => t.id));
+
+    return tables.map((table) => ({
+        id: table.id,
+        name: table.name,
+        capacity: table.capacity,
+        notes: table.notes,
+        order: table.order,
+        guestCount: assignments.filter((a) => a.tableId === table.id).length,
+        shape: table.shape,
+        width: table.width,
+        height: table.height,
+        placement: table.placement,
+        seats: table.seats,
+    }));
+  }
 
-    const table = this.tables.get(assignment.tableId);
-    if (!table) {
-      return null;
-    }
+  /**
+   * Get a guest's table assignments for RSVP view, one per chart they are seated in
+   * Main chart first, then events in the order given; tables of events no
+   * longer in the list are left out. Empty if the guest has no table.
+   * @param events The wedding's events
+   */
+  async getGuestTableAssignments(
+    guestId: string,
+    events: WeddingEvent[] = [],
+  ): Promise<GuestTableAssignment[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('seating_assignments')
+      .select('*')
+      .eq('guest_id', guestId);
+
+    if (error || !data || data.length === 0) return [];
+    const assignments = data.map((a) => this.dbAssignmentToAssignment(a as DbSeatingAssignment));
+
+    const { data: tableRows, error: tablesError } = await supabase
+      .from('seating_tables')
+      .select('*')
+      .in('id', assignments.map((a) => a.tableId));
+
+    if (tablesError || !tableRows) return [];
+    const tablesById = new Map(
+      tableRows.map((t) => [t.id as string, this.dbTableToTable(t as DbSeatingTable)]),
+    );
 
-    return {
-      tableName: table.name,
-      tableId: table.id,
-      seatNumber: assignment.seatNumber,
-      tableNotes: table.notes,
-    };
+    const chartOrder = (eventId?: string) =>
+      eventId === undefined ? -1 : events.findIndex((event) => event.id === eventId);
+
+    return assignments
+      .flatMap((assignment): GuestTableAssignment[] => {
+        const table = tablesById.get(assignment.tableId);
+        if (!table) return [];
+        const event = events.find((e) => e.id === table.eventId);
+        if (table.eventId !== undefined && !event) return [];
+        return [{
+          eventId: event?.id,
+          eventName: event?.name,
+          tableName: table.name,
+          tableId: table.id,
+          seatNumber: assignment.seatNumber,
+          seatLabel: table.seats.find((seat) => seat.number === assignment.seatNumber)?.label,
+          tableNotes: table.notes,
+        }];
+      })
+      .sort((a, b) => chartOrder(a.eventId) - chartOrder(b.eventId));
   }
 
   /**
-   * Get complete seating overview for admin
+   * Get complete seating overview of one chart for admin (the main chart unless an event is given)
    */
-  getSeatingOverview(weddingId: string): {
+  async getSeatingOverview(weddingId: string, eventId?: string): Promise<{
     tables: Array<{
       table: SeatingTable;
       guests: Array<{ id: string; name: string; seatNumber?: number }>;
@@ -330,19 +879,22 @@ export class SeatingService {
       totalAssigned: number;
       totalUnassigned: number;
     };
-  } {
-    const tables = this.getTablesForWedding(weddingId);
-    const unassignedGuests = this.getUnassignedGuests(weddingId);
+  }> {
+    const tables = await this.getTablesForWedding(weddingId, eventId);
+    const assignments = await this.getAssignmentsForTables(tables.map((t) => t.id));
+    const weddingGuests = await this.guestService.getGuestsForWedding(weddingId);
+    const guestsById = new Map(weddingGuests.map((g) => [g.id, g]));
+    const assignedGuestIds = new Set(assignments.map((a) => a.guestId));
 
     let totalCapacity = 0;
     let totalAssigned = 0;
 
     const tableData = tables.map((table) => {
-      const guestAssignments = this.getGuestsAtTable(table.id);
       const guests: Array<{ id: string; name: string; seatNumber?: number }> = [];
 
-      for (const a of guestAssignments) {
-        const guest = this.guestService.getGuest(a.guestId);
+      for (const a of assignments) {
+        if (a.tableId !== table.id) continue;
+        const guest = guestsById.get(a.guestId);
         if (guest) {
           guests.push({
             id: guest.id,
@@ -364,6 +916,12 @@ export class SeatingService {
       };
     });
 
+    // Only include attending (and, for events, invited) guests as candidates for seating
+    const unassignedGuests = weddingGuests
+      .filter((g) => isSeatable(g, eventId) && !assignedGuestIds.has(g.id))
+      .map((g) => ({ id: g.id, name: g.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
     return {
       tables: tableData,
       unassignedGuests,
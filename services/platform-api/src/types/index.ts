@@ -1,5 +1,7 @@
 // Types for platform-api service
 
+import type { EmailAttachment } from '@wedding-bestie/email';
+
 /**
  * Feature flags that can be enabled/disabled per wedding
  */
@@ -477,6 +479,8 @@ export interface ModerateGuestbookMessageRequest {
  */
 export interface GuestbookMessagesResponse {
   messages: GuestbookMessage[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -501,6 +505,8 @@ export interface RenderConfig {
   ogImageUrl?: string;
   /** Meal options for RSVP form (if configured) */
   mealConfig?: MealConfig;
+  /** RSVP-by date (YYYY-MM-DD, inclusive), if the couple set one */
+  rsvpDeadline?: string;
   /** Gift registry links */
   registry?: RegistryConfig;
   /** Accommodations and travel info */
@@ -515,6 +521,8 @@ export interface RenderConfig {
   video?: VideoConfig;
   /** Site language for UI labels (defaults to 'en') */
   language?: string;
+  /** Wedding's IANA time zone; the site shows dates and times in it */
+  timezone?: string;
   wedding: {
     slug: string;
     partnerNames: [string, string];
@@ -695,6 +703,8 @@ export interface WeddingEvent {
   timezone?: string;
   /** Order for display in timeline */
   order?: number;
+  /** RSVP-by date for this event (YYYY-MM-DD, inclusive); falls back to the wedding deadline */
+  rsvpDeadline?: string;
 }
 
 // ============================================================================
@@ -756,6 +766,11 @@ export interface EventAssignmentsResponse {
  */
 export const GUEST_NOT_INVITED_TO_EVENT = 'GUEST_NOT_INVITED_TO_EVENT' as const;
 
+/**
+ * Guest declined this event error code
+ */
+export const GUEST_NOT_ATTENDING_EVENT = 'GUEST_NOT_ATTENDING_EVENT' as const;
+
 /**
  * Event not found error code
  */
@@ -772,7 +787,10 @@ export interface EventDetailsData {
   venue: string;
   address: string;
   city: string;
+  /** Superseded by Wedding.timezone; still used for weddings that never set one */
   timezone?: string;
+  /** Show each event time in the visitor's own time zone too, when it differs */
+  showLocalTime?: boolean;
   /** Array of individual events (ceremony, reception, etc.) */
   events?: WeddingEvent[];
 }
@@ -804,6 +822,14 @@ export interface Wedding {
   passcodeConfig?: PasscodeConfigBase;
   /** Meal options configuration */
   mealConfig?: MealConfig;
+  /** Custom RSVP questions */
+  rsvpQuestions?: RsvpQuestionsConfig;
+  /** RSVP deadline and automatic reminder cadence */
+  rsvpDeadline?: RsvpDeadlineConfig;
+  /** How the couple hears about new and changed RSVPs (defaults to 'instant') */
+  rsvpNotifications?: RsvpNotificationPreference;
+  /** What happens when a guest finds their invitation on the site (defaults to 'email_link') */
+  rsvpLookup?: RsvpLookupMode;
   /** Gift registry configuration */
   registry?: RegistryConfig;
   /** Accommodations and travel info */
@@ -820,6 +846,11 @@ export interface Wedding {
   socialConfig?: SocialConfig;
   /** Site language (defaults to 'en' if not set) */
   language?: string;
+  /**
+   * IANA time zone of the venue. Event times, RSVP deadlines and scheduled
+   * sends are wall-clock times in this zone (falls back to eventDetails.timezone, then UTC)
+   */
+  timezone?: string;
   /** Custom domain configuration */
   customDomain?: CustomDomainConfig;
   createdAt: string;
@@ -921,7 +952,10 @@ export interface Guest {
   id: string;
   weddingId: string;
   name: string;
-  email: string;
+  /** Unset only for household members; the household contact receives their emails */
+  email?: string;
+  /** Household (invitation party) this guest belongs to */
+  householdId?: string;
   partySize: number;
   rsvpStatus: RsvpStatus;
   dietaryNotes?: string;
@@ -941,6 +975,8 @@ export interface Guest {
   plusOneGuests?: PlusOneGuest[];
   /** Selected meal option ID for the primary guest (if meal selection is enabled) */
   mealOptionId?: string;
+  /** Answers to the wedding's custom RSVP questions */
+  rsvpAnswers?: RsvpAnswerMap;
   /**
    * Per-event RSVP responses (when multi-event is enabled)
    * Maps event ID to RSVP data for that specific event
@@ -956,20 +992,37 @@ export interface Guest {
    * PRD: "Guest can opt out of photo display"
    */
   photoOptOut?: boolean;
+  /** Mailing postal code; lets guests verify themselves when looking up their invitation */
+  postalCode?: string;
+  /** Language for the guest's emails; unset means the wedding site's language */
+  preferredLanguage?: SupportedLanguage;
+  /** Signed into the guest's calendar feed URL; incremented to revoke old URLs */
+  calendarFeedVersion?: number;
   inviteSentAt?: string;
   rsvpSubmittedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * A guest who can be emailed directly.
+ * Household members without an email are reached through their household contact.
+ */
+export type EmailableGuest = Guest & { email: string };
+
 /**
  * Request body for creating a guest
  */
 export interface CreateGuestRequest {
   name: string;
-  email: string;
+  /** Required unless the guest is added to a household */
+  email?: string;
   partySize?: number;
   plusOneAllowance?: number;
+  /** Add the guest as a member of this household */
+  householdId?: string;
+  postalCode?: string;
+  preferredLanguage?: SupportedLanguage;
 }
 
 /**
@@ -981,6 +1034,17 @@ export interface UpdateGuestRequest {
   partySize?: number;
   dietaryNotes?: string;
   plusOneAllowance?: number;
+  postalCode?: string;
+  /** null clears the preference */
+  preferredLanguage?: SupportedLanguage | null;
+}
+
+/**
+ * A guest's subscribable calendar feed
+ */
+export interface CalendarFeedResponse {
+  /** webcal:// URL; earlier URLs stop working once the feed is reset */
+  calendarFeedUrl: string;
 }
 
 /**
@@ -991,6 +1055,54 @@ export interface GuestListResponse {
   total: number;
 }
 
+// ============================================================================
+// Household Types (Invitation Parties)
+// ============================================================================
+
+/**
+ * A household / invitation party: several named guests sharing one invitation
+ * and one RSVP link. Each member is a Guest with their own RSVP answers; the
+ * contact receives emails and holds the shared RSVP token.
+ */
+export interface Household {
+  id: string;
+  weddingId: string;
+  name: string;
+  /** Member who receives the invitation and holds the shared RSVP token */
+  primaryGuestId?: string;
+  /** Guest IDs of every member, including the contact */
+  memberIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request body for creating a household from existing guests
+ */
+export interface CreateHouseholdRequest {
+  name: string;
+  guestIds: string[];
+  /** Defaults to the first listed guest with an email */
+  primaryGuestId?: string;
+}
+
+/**
+ * Request body for updating a household
+ * `guestIds` replaces the member list; removed members must have an email
+ */
+export interface UpdateHouseholdRequest {
+  name?: string;
+  guestIds?: string[];
+  primaryGuestId?: string;
+}
+
+/**
+ * Household list response
+ */
+export interface HouseholdListResponse {
+  households: Household[];
+}
+
 /**
  * Guest not found error code
  */
@@ -1011,6 +1123,31 @@ export const WEDDING_NOT_FOUND = 'WEDDING_NOT_FOUND' as const;
  */
 export const PLUS_ONE_LIMIT_EXCEEDED = 'PLUS_ONE_LIMIT_EXCEEDED' as const;
 
+/**
+ * Household not found error code
+ */
+export const HOUSEHOLD_NOT_FOUND = 'HOUSEHOLD_NOT_FOUND' as const;
+
+/**
+ * Household contact must be a member with an email address
+ */
+export const HOUSEHOLD_CONTACT_INVALID = 'HOUSEHOLD_CONTACT_INVALID' as const;
+
+/**
+ * A member without an email cannot leave (or outlive) their household
+ */
+export const HOUSEHOLD_MEMBER_WITHOUT_EMAIL = 'HOUSEHOLD_MEMBER_WITHOUT_EMAIL' as const;
+
+/**
+ * Guest already belongs to a different household
+ */
+export const GUEST_IN_OTHER_HOUSEHOLD = 'GUEST_IN_OTHER_HOUSEHOLD' as const;
+
+/**
+ * RSVP answered for someone outside the token holder's household
+ */
+export const GUEST_NOT_IN_HOUSEHOLD = 'GUEST_NOT_IN_HOUSEHOLD' as const;
+
 // ============================================================================
 // RSVP View Types (Guest-Facing)
 // ============================================================================
@@ -1021,7 +1158,7 @@ export const PLUS_ONE_LIMIT_EXCEEDED = 'PLUS_ONE_LIMIT_EXCEEDED' as const;
 export interface RsvpGuestView {
   id: string;
   name: string;
-  email: string;
+  email?: string;
   partySize: number;
   rsvpStatus: RsvpStatus;
   dietaryNotes?: string;
@@ -1031,17 +1168,17 @@ export interface RsvpGuestView {
   plusOneGuests?: PlusOneGuest[];
   /** Selected meal option ID (if meal selection is enabled and previously submitted) */
   mealOptionId?: string;
+  /** Answers to custom RSVP questions (if previously submitted) */
+  rsvpAnswers?: RsvpAnswerMap;
   /** Per-event RSVP responses (for multi-event weddings) */
   eventRsvps?: EventRsvpMap;
   /** Event IDs this guest is invited to (if not invited to all) */
   invitedEventIds?: string[];
-  /** Table assignment (if seating chart is enabled and guest is assigned) */
-  tableAssignment?: {
-    tableName: string;
-    tableId: string;
-    seatNumber?: number;
-    tableNotes?: string;
-  };
+  /**
+   * Table assignments, one per seating chart the guest is seated in
+   * (if seating chart is enabled). Multi-event weddings have a chart per event.
+   */
+  tableAssignments?: GuestTableAssignment[];
   /**
    * Guest has opted out of being shown in photos
    * PRD: "Guest can opt out of photo display"
@@ -1049,6 +1186,30 @@ export interface RsvpGuestView {
   photoOptOut?: boolean;
 }
 
+/**
+ * Household data for RSVP view: every member the token holder can answer for
+ */
+export interface RsvpHouseholdView {
+  id: string;
+  name: string;
+  /** All members, including the token holder */
+  members: RsvpGuestView[];
+}
+
+/**
+ * RSVP answer for another member of the token holder's household
+ */
+export interface RsvpMemberResponse {
+  guestId: string;
+  rsvpStatus: RsvpStatus;
+  dietaryNotes?: string;
+  mealOptionId?: string;
+  /** Per-event RSVP responses (for multi-event weddings) */
+  eventRsvps?: EventRsvpMap;
+  /** Answers to custom RSVP questions, keyed by question ID */
+  answers?: RsvpAnswerMap;
+}
+
 /**
  * Wedding data for RSVP view (minimal needed for display)
  */
@@ -1074,6 +1235,19 @@ export interface RsvpViewData {
    * Only populated when the wedding has multiple events
    */
   events?: WeddingEvent[];
+  /**
+   * Custom RSVP questions, sorted by order
+   * Event questions are only included if the guest or a household member is invited to the event
+   */
+  questions?: RsvpQuestion[];
+  /** The token holder's household, if they answer for a whole invitation party */
+  household?: RsvpHouseholdView;
+  /** RSVP-by date (YYYY-MM-DD, inclusive), if the couple set one */
+  rsvpDeadline?: string;
+  /** Whether the deadline has passed and late responses are not accepted */
+  rsvpClosed?: boolean;
+  /** webcal:// feed of the guest's events (when calendar invites are enabled) */
+  calendarFeedUrl?: string;
 }
 
 /**
@@ -1098,6 +1272,10 @@ export interface RsvpSubmitRequest {
    * PRD: "Guest can opt out of photo display"
    */
   photoOptOut?: boolean;
+  /** Answers to custom RSVP questions, keyed by question ID */
+  answers?: RsvpAnswerMap;
+  /** Answers for other members of the token holder's household */
+  householdMembers?: RsvpMemberResponse[];
 }
 
 /**
@@ -1106,6 +1284,7 @@ export interface RsvpSubmitRequest {
 export interface RsvpSubmitResponse {
   message: string;
   guest: RsvpGuestView;
+  household?: RsvpHouseholdView;
 }
 
 // ============================================================================
@@ -1217,6 +1396,10 @@ export interface PhotoMetadata {
   moderationStatus: PhotoModerationStatus;
   /** When the photo was moderated */
   moderatedAt?: string;
+  /** Signed URL for viewing the photo (expires at urlExpiresAt) */
+  url?: string;
+  /** ISO timestamp when the signed URL stops working */
+  urlExpiresAt?: string;
 }
 
 /**
@@ -1262,11 +1445,15 @@ export interface PhotoSummaryResponse {
  * RSVP summary counts for admin dashboard
  */
 export interface RsvpSummary {
+  /** People invited: every household member counts, not just the email recipient */
   total: number;
   attending: number;
   notAttending: number;
   pending: number;
+  /** Attending headcount */
   totalPartySize: number;
+  /** Invitations sent out: households plus guests not in a household */
+  invitations: number;
 }
 
 /**
@@ -1275,6 +1462,8 @@ export interface RsvpSummary {
 export interface RsvpSummaryResponse {
   summary: RsvpSummary;
   guests: Guest[];
+  /** Custom RSVP questions, so answers on each guest can be tallied */
+  questions: RsvpQuestion[];
 }
 
 // ============================================================================
@@ -1288,6 +1477,7 @@ export interface CsvGuestRow {
   name: string;
   email: string;
   partySize?: number;
+  postalCode?: string;
 }
 
 /**
@@ -1341,13 +1531,18 @@ export type EmailStatus = 'pending' | 'sent' | 'delivered' | 'bounced' | 'failed
 /**
  * Email type identifier
  */
-export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update';
+export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update' | 'rsvp_confirmation';
 
 /**
  * Bounce type from SendGrid webhooks
  */
 export type BounceType = 'hard' | 'soft';
 
+/**
+ * Recipient engagement recorded from SendGrid webhooks
+ */
+export type EmailEngagementEvent = 'open' | 'click' | 'spamreport' | 'unsubscribe';
+
 /**
  * Email outbox record for tracking sent emails
  */
@@ -1373,6 +1568,18 @@ export interface EmailOutbox {
   /** SendGrid message ID for tracking */
   messageId?: string;
   attempts: number;
+  /** Bulk send this email belongs to (invitations, save-the-dates, thank-yous) */
+  campaignId?: string;
+  /** First open (from webhook); a click without a tracked open also counts */
+  openedAt?: string;
+  openCount: number;
+  /** First link click (from webhook) */
+  clickedAt?: string;
+  clickCount: number;
+  /** Recipient marked the email as spam (from webhook) */
+  spamReportedAt?: string;
+  /** Recipient unsubscribed through the email (from webhook) */
+  unsubscribedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -1384,26 +1591,11 @@ export interface SendInvitationsRequest {
   guestIds: string[];
 }
 
-/**
- * Result of sending a single invitation
- */
-export interface SendInvitationResult {
-  guestId: string;
-  guestName: string;
-  email: string;
-  success: boolean;
-  error?: string;
-}
-
 /**
  * Response from send invitations endpoint
+ * Invitations are sent by the worker; poll the campaign for progress.
  */
-export interface SendInvitationsResponse {
-  sent: number;
-  failed: number;
-  total: number;
-  results: SendInvitationResult[];
-}
+export type SendInvitationsResponse = EmailCampaignStartedResponse;
 
 /**
  * Request body for sending RSVP reminders
@@ -1425,17 +1617,39 @@ export interface EmailStatistics {
   delivered: number;
   failed: number;
   pending: number;
+  opened: number;
+  clicked: number;
+  spamReports: number;
+  unsubscribes: number;
   /** Open rate - percentage of delivered emails that were opened (if tracking enabled) */
   openRate?: number;
+  /** Click rate - percentage of delivered emails with a link clicked */
+  clickRate?: number;
   /** Breakdown by email type */
   byType: {
-    invitation: { sent: number; delivered: number; failed: number };
-    reminder: { sent: number; delivered: number; failed: number };
-    save_the_date: { sent: number; delivered: number; failed: number };
-    thank_you: { sent: number; delivered: number; failed: number };
+    invitation: EmailTypeStatistics;
+    reminder: EmailTypeStatistics;
+    save_the_date: EmailTypeStatistics;
+    thank_you: EmailTypeStatistics;
   };
 }
 
+/**
+ * Delivery and engagement statistics for one email type
+ * Rates are whole percentages of delivered emails, left out until one is delivered.
+ */
+export interface EmailTypeStatistics {
+  sent: number;
+  delivered: number;
+  failed: number;
+  opened: number;
+  clicked: number;
+  openRate?: number;
+  clickRate?: number;
+  /** Median minutes from sending to first open, once an email has been opened */
+  medianMinutesToOpen?: number;
+}
+
 /**
  * Response from email statistics endpoint
  */
@@ -1459,7 +1673,36 @@ export type EmailMergeField =
   | '{{wedding_date}}'
   | '{{wedding_venue}}'
   | '{{wedding_city}}'
-  | '{{rsvp_link}}';
+  | '{{rsvp_link}}'
+  | '{{rsvp_deadline}}'
+  | '{{table_name}}'
+  | '{{meal_choice}}'
+  | '{{plus_one_names}}'
+  | '{{event_list}}';
+
+/**
+ * Email template type, as keyed in EmailTemplateSet
+ */
+export type EmailTemplateType = keyof EmailTemplateSet;
+
+/**
+ * Guest details for merge fields that the guest record does not carry
+ */
+export interface EmailMergeDetails {
+  /** The guest's table assignments, main chart first (for {{table_name}}) */
+  tableAssignments?: GuestTableAssignment[];
+}
+
+/**
+ * A problem with one part of a custom email template
+ */
+export interface EmailTemplateError {
+  templateType: EmailTemplateType;
+  field: keyof EmailTemplateContent;
+  /** Set when the problem is in a language variant */
+  language?: SupportedLanguage;
+  message: string;
+}
 
 /**
  * A single email template for a specific email type
@@ -1476,10 +1719,9 @@ export interface EmailTemplateContent {
 }
 
 /**
- * Email templates configuration for a wedding
- * Each email type can have its own customized template
+ * One customized template per email type
  */
-export interface EmailTemplatesConfig {
+export interface EmailTemplateSet {
   /** Custom invitation email template */
   invitation?: EmailTemplateContent;
   /** Custom reminder email template */
@@ -1492,6 +1734,16 @@ export interface EmailTemplatesConfig {
   thankYouNotAttended?: EmailTemplateContent;
 }
 
+/**
+ * Email templates configuration for a wedding
+ * Each email type can have its own customized template. Guests whose language
+ * has a variant get that one; everyone else gets the top-level template.
+ */
+export interface EmailTemplatesConfig extends EmailTemplateSet {
+  /** Templates for guests who read a particular language */
+  byLanguage?: Partial<Record<SupportedLanguage, EmailTemplateSet>>;
+}
+
 /**
  * Request to update email templates for a wedding
  */
@@ -1510,7 +1762,13 @@ export interface UpdateEmailTemplatesResponse {
  * Preview request for testing email templates with merge fields
  */
 export interface PreviewEmailTemplateRequest {
-  templateType: 'invitation' | 'reminder' | 'saveTheDate' | 'thankYouAttended' | 'thankYouNotAttended';
+  templateType: EmailTemplateType;
+  /** Guest whose details fill the merge fields */
+  guestId: string;
+  /** Unsaved template to preview (defaults to the saved one) */
+  template?: EmailTemplateContent;
+  /** Language variant being previewed (defaults to the guest's language) */
+  language?: SupportedLanguage;
 }
 
 /**
@@ -1530,6 +1788,8 @@ export interface SendRemindersResponse {
   total: number;
   guestIds: string[];
   jobIds: string[];
+  /** Guests not reminded because their address is suppressed */
+  suppressed: SuppressedRecipient[];
 }
 
 // ============================================================================
@@ -1537,20 +1797,36 @@ export interface SendRemindersResponse {
 // PRD: "Admin can schedule emails for future send"
 // ============================================================================
 
+/**
+ * Scheduled email lifecycle status.
+ * 'orphaned' marks sends interrupted before runs could be resumed; boot
+ * reconciliation now re-queues interrupted sends instead, so it is no longer set.
+ * 'failed' means every attempt failed; the job waits in the dead-letter queue.
+ */
+export type ScheduledEmailStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'cancelled'
+  | 'orphaned'
+  | 'failed';
+
 /**
  * A scheduled email record for tracking scheduled sends
  */
 export interface ScheduledEmail {
   id: string;
   weddingId: string;
-  /** Array of guest IDs to send to */
+  /** Array of guest IDs to send to (empty when sent to a segment) */
   guestIds: string[];
+  /** Segment evaluated at send time instead of guestIds */
+  segmentId?: string;
   /** Type of email to send */
   emailType: EmailType;
   /** ISO timestamp when the email should be sent */
   scheduledAt: string;
   /** Status of the scheduled email */
-  status: 'pending' | 'processing' | 'completed' | 'cancelled';
+  status: ScheduledEmailStatus;
   /** When the scheduled email was created */
   createdAt: string;
   /** When the scheduled email was last updated */
@@ -1563,15 +1839,24 @@ export interface ScheduledEmail {
     failed: number;
     total: number;
   };
+  /** Created by the RSVP deadline reminder cadence rather than by the couple */
+  automatic?: boolean;
+  /** Campaign a bulk send started; a retried run resumes it */
+  campaignId?: string;
 }
 
 /**
  * Request body for scheduling emails
+ * Either guestIds or segmentId; a segment's guests are worked out when the email is sent.
  */
 export interface ScheduleEmailRequest {
-  guestIds: string[];
+  guestIds?: string[];
+  segmentId?: string;
   emailType: EmailType;
-  /** ISO timestamp when the email should be sent */
+  /**
+   * When the email should be sent: an ISO timestamp, or a local date and time
+   * (YYYY-MM-DDTHH:MM) in the wedding's time zone
+   */
   scheduledAt: string;
 }
 
@@ -1603,6 +1888,8 @@ export interface CancelScheduledEmailResponse {
  */
 export interface ScheduledEmailsListResponse {
   scheduledEmails: ScheduledEmail[];
+  /** Wedding's time zone, for showing send times as the couple scheduled them */
+  timezone: string;
 }
 
 /**
@@ -1647,6 +1934,10 @@ export interface ReminderJobData {
   subject: string;
   htmlBody: string;
   textBody: string;
+  /** List-Unsubscribe headers for non-essential mail */
+  headers?: Record<string, string>;
+  /** Calendar invite for the guest's events */
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -1740,26 +2031,11 @@ export interface SendSaveTheDateRequest {
   guestIds: string[];
 }
 
-/**
- * Result of sending a single save-the-date email
- */
-export interface SendSaveTheDateResult {
-  guestId: string;
-  guestName: string;
-  email: string;
-  success: boolean;
-  error?: string;
-}
-
 /**
  * Response from send save-the-date endpoint
+ * Save-the-dates are sent by the worker; poll the campaign for progress.
  */
-export interface SendSaveTheDateResponse {
-  sent: number;
-  failed: number;
-  total: number;
-  results: SendSaveTheDateResult[];
-}
+export type SendSaveTheDateResponse = EmailCampaignStartedResponse;
 
 // ============================================================================
 // Thank-You Email Types
@@ -1773,140 +2049,351 @@ export interface SendThankYouRequest {
 }
 
 /**
- * Result of sending a single thank-you email
+ * Response from send thank-you endpoint
+ * Thank-yous are sent by the worker; poll the campaign for progress.
  */
-export interface SendThankYouResult {
-  guestId: string;
-  guestName: string;
-  email: string;
-  success: boolean;
-  error?: string;
-}
+export type SendThankYouResponse = EmailCampaignStartedResponse;
+
+// ============================================================================
+// Email Campaign Types
+// Bulk sends (invitations, save-the-dates, thank-yous) run on the worker queue
+// ============================================================================
 
 /**
- * Response from send thank-you endpoint
+ * Email types sent as a campaign
  */
-export interface SendThankYouResponse {
-  sent: number;
-  failed: number;
+export type CampaignEmailType = 'invitation' | 'save_the_date' | 'thank_you';
+
+/**
+ * Response when a bulk send has been queued
+ */
+export interface EmailCampaignStartedResponse {
+  campaignId: string;
+  /** Number of guests selected (one queue job each) */
   total: number;
-  results: SendThankYouResult[];
 }
 
-// ============================================================================
-// Invitation Content Types
-// ============================================================================
+/**
+ * Delivery state of one selected guest in a campaign
+ * - pending: not prepared yet, or waiting for the worker to send
+ * - sent: accepted by the email provider (a household member shares their contact's email)
+ * - failed: could not be sent; see error
+ * - suppressed: skipped because the address is on the suppression list; see error
+ */
+export type EmailCampaignRecipientStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
 
 /**
- * Invitation content data
+ * Outcome for one selected guest
  */
-export interface HeroContentData {
-  /** Main headline (typically partner names) */
-  headline: string;
-  /** Optional subheadline (e.g., "We're getting married!") */
-  subheadline?: string;
-  /** Invitation style identifier for future designs */
-  invitationStyle?: string;
-  /** Optional invitation message displayed above the headline */
-  invitationMessage?: string;
-  /** Toggle for showing the wedding date in the invitation */
-  showDate?: boolean;
+export interface EmailCampaignRecipientResult {
+  guestId: string;
+  guestName: string;
+  /** Address the email went to (the household contact's for household members) */
+  email: string;
+  status: EmailCampaignRecipientStatus;
+  error?: string;
 }
 
 /**
- * Request to update hero section content
+ * Progress of a campaign, polled by the dashboard
  */
-export interface UpdateHeroContentRequest {
-  heroContent: HeroContentData;
+export interface EmailCampaignProgress {
+  campaignId: string;
+  emailType: CampaignEmailType;
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  /** True once every selected guest is sent, failed or suppressed */
+  completed: boolean;
+  /** Guests prepared so far; guests still waiting for the worker are not listed */
+  results: EmailCampaignRecipientResult[];
+  createdAt: string;
 }
 
 /**
- * Response after updating hero content
+ * Campaign job payload for the worker queue (one per selected guest)
  */
-export interface UpdateHeroContentResponse {
-  wedding: Wedding;
-  renderConfig: RenderConfig;
+export interface EmailCampaignJobData {
+  campaignId: string;
+  weddingId: string;
+  guestId: string;
+  emailType: CampaignEmailType;
 }
 
-// ============================================================================
-// Calendar Invite Types
-// ============================================================================
-
 /**
- * Request to update event details for a wedding
+ * Email the worker should send for a campaign job (worker <- platform API)
  */
-export interface UpdateEventDetailsRequest {
-  eventDetails: EventDetailsData;
+export interface PreparedCampaignEmail {
+  outboxId: string;
+  toEmail: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /** List-Unsubscribe headers for non-essential mail */
+  headers?: Record<string, string>;
+  /** Calendar invite for the guest's events */
+  attachments?: EmailAttachment[];
 }
 
 /**
- * Response after updating event details
+ * Response from the prepare endpoint
+ * email is null when the guest needs no email of their own: already handled,
+ * covered by their household contact's email, or failed (recorded on the campaign).
  */
-export interface UpdateEventDetailsResponse {
-  wedding: Wedding;
-  renderConfig: RenderConfig;
+export interface PrepareCampaignEmailResponse {
+  email: PreparedCampaignEmail | null;
 }
 
 /**
- * Response for ICS calendar file download
+ * Queue name for campaign emails
  */
-export interface CalendarIcsResponse {
-  icsContent: string;
-  filename: string;
-}
+export const CAMPAIGN_EMAIL_QUEUE_NAME = 'email-campaigns' as const;
 
 /**
- * Calendar invite feature disabled error code
+ * Email campaign not found error code
  */
-export const CALENDAR_INVITE_DISABLED = 'CALENDAR_INVITE_DISABLED' as const;
+export const EMAIL_CAMPAIGN_NOT_FOUND = 'EMAIL_CAMPAIGN_NOT_FOUND' as const;
 
 /**
- * Event details not configured error code
+ * Campaign queue enqueue failed error code
  */
-export const EVENT_DETAILS_NOT_CONFIGURED = 'EVENT_DETAILS_NOT_CONFIGURED' as const;
+export const EMAIL_CAMPAIGN_QUEUE_FAILED = 'EMAIL_CAMPAIGN_QUEUE_FAILED' as const;
 
 // ============================================================================
-// Passcode Site Protection Types
+// Dead-Lettered Email Types
+// Jobs the worker gave up on: a permanent failure, or every retry used up
 // ============================================================================
 
 /**
- * Request to update passcode settings for a wedding
+ * Queues whose jobs move to the dead-letter queue after their final failure
  */
-export interface UpdatePasscodeRequest {
-  enabled: boolean;
-  /** Raw passcode to set (will be hashed before storage) */
-  passcode?: string;
-}
+export type DeadLetterSourceQueue =
+  | typeof REMINDER_QUEUE_NAME
+  | typeof CAMPAIGN_EMAIL_QUEUE_NAME
+  | typeof SCHEDULED_EMAIL_QUEUE_NAME
+  | typeof RSVP_NOTIFICATION_QUEUE_NAME;
 
 /**
- * Response after updating passcode settings
+ * Dead-letter job payload, written by the worker
+ * Keeps the original job so it can be put back on its queue unchanged.
  */
-export interface UpdatePasscodeResponse {
-  wedding: Wedding;
-  renderConfig: RenderConfig;
+export interface DeadLetterJobData {
+  queueName: DeadLetterSourceQueue;
+  jobId: string;
+  jobName: string;
+  /** Missing for jobs that belong to no wedding */
+  weddingId?: string;
+  data: unknown;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
 }
 
 /**
- * Request body for verifying a site passcode (guest-facing)
+ * A dead-lettered email as shown to the couple
  */
-export interface VerifyPasscodeRequest {
-  slug: string;
-  passcode: string;
+export interface DeadLetteredEmail {
+  id: string;
+  queueName: DeadLetterSourceQueue;
+  /** 'rsvp_notification' is a new-RSVP notification to the couple */
+  emailType: EmailType | 'rsvp_notification';
+  /** Recipient, when the job was for a single email */
+  toEmail?: string;
+  toName?: string;
+  subject?: string;
+  /** Number of guests, for scheduled sends */
+  guestCount?: number;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
 }
 
 /**
- * Response from passcode verification
+ * Queue name for jobs that failed permanently or ran out of retries
+ * Nothing consumes it: jobs wait there until retried or discarded.
  */
-export interface VerifyPasscodeResponse {
-  valid: boolean;
-  /** Token for session persistence (only returned if valid) */
-  sessionToken?: string;
-}
+export const EMAIL_DEAD_LETTER_QUEUE_NAME = 'email-dead-letters' as const;
 
 /**
- * Invalid passcode error code
+ * Dead-lettered job not found error code
  */
-export const INVALID_PASSCODE = 'INVALID_PASSCODE' as const;
+export const DEAD_LETTER_JOB_NOT_FOUND = 'DEAD_LETTER_JOB_NOT_FOUND' as const;
+
+// ============================================================================
+// Email Suppression Types
+// Addresses a wedding no longer emails. Every send path checks the list.
+// ============================================================================
+
+/**
+ * Why an address is suppressed
+ * - hard_bounce: the address does not exist (hard bounce or provider drop); stops all mail
+ * - spam_report: the guest marked an email as spam; stops all mail
+ * - unsubscribed: the guest opted out; stops non-essential mail only
+ */
+export type EmailSuppressionReason = 'hard_bounce' | 'spam_report' | 'unsubscribed';
+
+/**
+ * An address on a wedding's suppression list
+ */
+export interface EmailSuppression {
+  id: string;
+  weddingId: string;
+  /** Lowercased address */
+  email: string;
+  reason: EmailSuppressionReason;
+  /** Provider bounce reason, when there is one */
+  detail?: string;
+  createdAt: string;
+}
+
+/**
+ * A guest skipped because their address is suppressed
+ */
+export interface SuppressedRecipient {
+  guestId: string;
+  guestName: string;
+  email: string;
+  reason: EmailSuppressionReason;
+}
+
+/**
+ * One-click unsubscribe request (guest -> platform API)
+ */
+export interface UnsubscribeRequest {
+  token: string;
+}
+
+/**
+ * Response after unsubscribing, so the page can name the wedding
+ */
+export interface UnsubscribeResponse {
+  partnerNames: [string, string];
+}
+
+/**
+ * Suppression not found error code
+ */
+export const EMAIL_SUPPRESSION_NOT_FOUND = 'EMAIL_SUPPRESSION_NOT_FOUND' as const;
+
+// ============================================================================
+// Invitation Content Types
+// ============================================================================
+
+/**
+ * Invitation content data
+ */
+export interface HeroContentData {
+  /** Main headline (typically partner names) */
+  headline: string;
+  /** Optional subheadline (e.g., "We're getting married!") */
+  subheadline?: string;
+  /** Invitation style identifier for future designs */
+  invitationStyle?: string;
+  /** Optional invitation message displayed above the headline */
+  invitationMessage?: string;
+  /** Toggle for showing the wedding date in the invitation */
+  showDate?: boolean;
+  /** Toggle for a days-to-go countdown, counted in the wedding's time zone */
+  showCountdown?: boolean;
+}
+
+/**
+ * Request to update hero section content
+ */
+export interface UpdateHeroContentRequest {
+  heroContent: HeroContentData;
+}
+
+/**
+ * Response after updating hero content
+ */
+export interface UpdateHeroContentResponse {
+  wedding: Wedding;
+  renderConfig: RenderConfig;
+}
+
+// ============================================================================
+// Calendar Invite Types
+// ============================================================================
+
+/**
+ * Request to update event details for a wedding
+ */
+export interface UpdateEventDetailsRequest {
+  eventDetails: EventDetailsData;
+}
+
+/**
+ * Response after updating event details
+ */
+export interface UpdateEventDetailsResponse {
+  wedding: Wedding;
+  renderConfig: RenderConfig;
+}
+
+/**
+ * Response for ICS calendar file download
+ */
+export interface CalendarIcsResponse {
+  icsContent: string;
+  filename: string;
+}
+
+/**
+ * Calendar invite feature disabled error code
+ */
+export const CALENDAR_INVITE_DISABLED = 'CALENDAR_INVITE_DISABLED' as const;
+
+/**
+ * Event details not configured error code
+ */
+export const EVENT_DETAILS_NOT_CONFIGURED = 'EVENT_DETAILS_NOT_CONFIGURED' as const;
+
+// ============================================================================
+// Passcode Site Protection Types
+// ============================================================================
+
+/**
+ * Request to update passcode settings for a wedding
+ */
+export interface UpdatePasscodeRequest {
+  enabled: boolean;
+  /** Raw passcode to set (will be hashed before storage) */
+  passcode?: string;
+}
+
+/**
+ * Response after updating passcode settings
+ */
+export interface UpdatePasscodeResponse {
+  wedding: Wedding;
+  renderConfig: RenderConfig;
+}
+
+/**
+ * Request body for verifying a site passcode (guest-facing)
+ */
+export interface VerifyPasscodeRequest {
+  slug: string;
+  passcode: string;
+}
+
+/**
+ * Response from passcode verification
+ */
+export interface VerifyPasscodeResponse {
+  valid: boolean;
+  /** Token for session persistence (only returned if valid) */
+  sessionToken?: string;
+}
+
+/**
+ * Invalid passcode error code
+ */
+export const INVALID_PASSCODE = 'INVALID_PASSCODE' as const;
 
 /**
  * Passcode not configured error code
@@ -1969,6 +2456,110 @@ export const TAG_NOT_FOUND = 'TAG_NOT_FOUND' as const;
  */
 export const TAG_ALREADY_EXISTS = 'TAG_ALREADY_EXISTS' as const;
 
+// ============================================================================
+// Guest Segment Types
+// Saved audiences defined by rules and evaluated whenever they are used
+// ============================================================================
+
+/**
+ * Where a guest's latest invitation email stands.
+ * 'delivered' covers sent and delivered emails that have not been opened.
+ */
+export type SegmentEmailStatus =
+  | 'not_sent'
+  | 'pending'
+  | 'delivered'
+  | 'opened'
+  | 'bounced'
+  | 'failed';
+
+/**
+ * Rules a guest must match to be in a segment.
+ * Every rule that is set must match; a list matches if any of its values does.
+ * Empty rules match every guest.
+ */
+export interface GuestSegmentRules {
+  /** RSVP status is one of these */
+  rsvpStatuses?: RsvpStatus[];
+  /** Has at least one of these tags */
+  tagIds?: string[];
+  /** Invited to at least one of these events */
+  invitedEventIds?: string[];
+  /** Invited to none of these events */
+  notInvitedEventIds?: string[];
+  /** Invitation has (true) or has not (false) been sent */
+  inviteSent?: boolean;
+  /** Latest invitation email status is one of these */
+  emailStatuses?: SegmentEmailStatus[];
+}
+
+/**
+ * A saved guest segment
+ */
+export interface GuestSegment {
+  id: string;
+  weddingId: string;
+  name: string;
+  rules: GuestSegmentRules;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A segment with the number of guests currently in it
+ */
+export interface GuestSegmentSummary extends GuestSegment {
+  guestCount: number;
+}
+
+/**
+ * Request body for creating a segment
+ */
+export interface CreateSegmentRequest {
+  name: string;
+  rules: GuestSegmentRules;
+}
+
+/**
+ * Request body for updating a segment
+ */
+export interface UpdateSegmentRequest {
+  name?: string;
+  rules?: GuestSegmentRules;
+}
+
+/**
+ * Response containing segment list
+ */
+export interface SegmentListResponse {
+  segments: GuestSegmentSummary[];
+}
+
+/**
+ * Request body for previewing who a set of rules matches
+ */
+export interface SegmentPreviewRequest {
+  rules: GuestSegmentRules;
+}
+
+/**
+ * Guests matching a set of rules right now
+ */
+export interface SegmentPreviewResponse {
+  count: number;
+  guestIds: string[];
+}
+
+/**
+ * Segment not found error code
+ */
+export const SEGMENT_NOT_FOUND = 'SEGMENT_NOT_FOUND' as const;
+
+/**
+ * Segment still used by a pending scheduled email error code
+ */
+export const SEGMENT_IN_USE = 'SEGMENT_IN_USE' as const;
+
 // ============================================================================
 // Generic Error Codes
 // ============================================================================
@@ -2078,6 +2669,250 @@ export const INVALID_MEAL_OPTION = 'INVALID_MEAL_OPTION' as const;
  */
 export const MEAL_OPTIONS_NOT_CONFIGURED = 'MEAL_OPTIONS_NOT_CONFIGURED' as const;
 
+// ============================================================================
+// Custom RSVP Question Types
+// ============================================================================
+
+/**
+ * Answer format for a custom RSVP question
+ */
+export type RsvpQuestionType = 'text' | 'single_choice' | 'multi_choice' | 'number';
+
+/**
+ * A question the couple adds to the RSVP form (e.g., "Will you use the shuttle?")
+ */
+export interface RsvpQuestion {
+  id: string;
+  label: string;
+  type: RsvpQuestionType;
+  /** Choices for single_choice and multi_choice questions */
+  options?: string[];
+  /** Guests attending (the question's event, if set) must answer */
+  required: boolean;
+  /** Only ask guests invited to this event; unset asks everyone */
+  eventId?: string;
+  /** Order for display (lower numbers first) */
+  order: number;
+}
+
+/**
+ * Custom RSVP question configuration for a wedding
+ */
+export interface RsvpQuestionsConfig {
+  questions: RsvpQuestion[];
+}
+
+/**
+ * A guest's answer: text and single_choice are strings, multi_choice a list of options
+ */
+export type RsvpAnswerValue = string | number | string[];
+
+/**
+ * A guest's answers keyed by question ID
+ */
+export type RsvpAnswerMap = Record<string, RsvpAnswerValue>;
+
+/**
+ * Request to update custom RSVP questions for a wedding
+ */
+export interface UpdateRsvpQuestionsRequest {
+  rsvpQuestions: RsvpQuestionsConfig;
+}
+
+/**
+ * Response after updating custom RSVP questions
+ */
+export interface UpdateRsvpQuestionsResponse {
+  wedding: Wedding;
+}
+
+/**
+ * Invalid or missing answer to a custom RSVP question error code
+ */
+export const INVALID_RSVP_ANSWER = 'INVALID_RSVP_ANSWER' as const;
+
+// ============================================================================
+// RSVP Deadline Types
+// ============================================================================
+
+/**
+ * Days before the RSVP deadline that automatic reminders go out by default
+ */
+export const DEFAULT_RSVP_REMINDER_DAYS = [21, 7, 2] as const;
+
+/**
+ * RSVP deadline configuration for a wedding
+ */
+export interface RsvpDeadlineConfig {
+  /** Last day to respond (YYYY-MM-DD, inclusive, in the wedding's timezone) */
+  date: string;
+  /** Keep accepting responses and edits after the deadline */
+  allowLateEdits: boolean;
+  /** Send a reminder to guests who haven't responded this many days before the deadline */
+  reminderDaysBefore: number[];
+}
+
+/**
+ * Request to set or clear the RSVP deadline
+ */
+export interface UpdateRsvpDeadlineRequest {
+  /** null removes the deadline and its automatic reminders */
+  rsvpDeadline: RsvpDeadlineConfig | null;
+}
+
+/**
+ * Response after updating the RSVP deadline
+ */
+export interface UpdateRsvpDeadlineResponse {
+  wedding: Wedding;
+  /** Automatic reminders now scheduled for the deadline */
+  scheduledReminders: ScheduledEmail[];
+}
+
+/**
+ * RSVP submitted after the deadline when late responses are not allowed error code
+ */
+export const RSVP_DEADLINE_PASSED = 'RSVP_DEADLINE_PASSED' as const;
+
+// ============================================================================
+// RSVP Notification Types
+// ============================================================================
+
+/**
+ * How the couple is told about new and changed RSVPs
+ * - instant: one email per submission
+ * - daily: one digest email per day with every response since the last one
+ * - off: no emails
+ */
+export type RsvpNotificationPreference = 'instant' | 'daily' | 'off';
+
+/**
+ * Whether a submission was a guest's first response or a change to an earlier one
+ */
+export type RsvpChangeKind = 'new' | 'updated';
+
+/**
+ * A guest's response as it appears in confirmation and notification emails
+ */
+export interface RsvpChange {
+  guest: RsvpGuestView;
+  change: RsvpChangeKind;
+}
+
+/**
+ * Request to update the couple's RSVP notification preference
+ */
+export interface UpdateRsvpNotificationsRequest {
+  rsvpNotifications: RsvpNotificationPreference;
+}
+
+/**
+ * Response after updating the RSVP notification preference
+ */
+export interface UpdateRsvpNotificationsResponse {
+  wedding: Wedding;
+}
+
+/**
+ * Result of a daily digest run (worker -> platform API)
+ */
+export interface RsvpDigestRunResponse {
+  /** Weddings that were sent a digest */
+  sent: number;
+  /** Weddings whose digest could not be queued */
+  failed: number;
+}
+
+/**
+ * RSVP confirmation, calendar update or couple notification job payload for the worker queue
+ * Guest emails are tracked in the email outbox; couple notifications are not
+ */
+export interface RsvpNotificationJobData {
+  /** Outbox record to report delivery to (guest emails only) */
+  outboxId?: string;
+  weddingId: string;
+  toEmail: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /** Calendar cancellation for removed events */
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Queue name for RSVP confirmations, calendar updates and couple notifications
+ */
+export const RSVP_NOTIFICATION_QUEUE_NAME = 'rsvp-notifications' as const;
+
+/**
+ * Queue name for the repeating daily RSVP digest job
+ */
+export const RSVP_DIGEST_QUEUE_NAME = 'rsvp-digests' as const;
+
+// ============================================================================
+// RSVP Lookup Types (Find Your Invitation)
+// ============================================================================
+
+/**
+ * What happens when a guest finds their invitation on the wedding site
+ * - email_link: a short-lived RSVP link is emailed to the guest (or their household contact)
+ * - show_form: the guest is taken straight to the RSVP form once their postal code or email checks out
+ */
+export type RsvpLookupMode = 'email_link' | 'show_form';
+
+/**
+ * Guest-facing invitation lookup (public, rate limited)
+ * Guests enter their name; a last name plus postal code or email tells apart guests who share one
+ */
+export interface RsvpLookupRequest {
+  slug: string;
+  name: string;
+  lastName?: string;
+  postalCode?: string;
+  email?: string;
+  /** Site passcode, required when the site is passcode protected */
+  passcode?: string;
+}
+
+/**
+ * Outcome of an invitation lookup
+ * - link_sent: if the guest is on the list, a short-lived RSVP link is on its way
+ *   (the same answer whether or not the name matched)
+ * - found: the RSVP form can be shown with the returned token
+ * - needs_verification: more than one guest matched, or the form needs the guest's postal code or email;
+ *   ask for a last name plus postal code or email
+ */
+export type RsvpLookupStatus = 'link_sent' | 'found' | 'needs_verification';
+
+/**
+ * Response from an invitation lookup
+ */
+export interface RsvpLookupResponse {
+  status: RsvpLookupStatus;
+  /** Short-lived RSVP token for the form (found only) */
+  token?: string;
+}
+
+/**
+ * Request to update what happens when a guest finds their invitation
+ */
+export interface UpdateRsvpLookupRequest {
+  rsvpLookup: RsvpLookupMode;
+}
+
+/**
+ * Response after updating the invitation lookup setting
+ */
+export interface UpdateRsvpLookupResponse {
+  wedding: Wedding;
+}
+
+/**
+ * No guest on the list matches the lookup
+ */
+export const RSVP_LOOKUP_NO_MATCH = 'RSVP_LOOKUP_NO_MATCH' as const;
+
 // ============================================================================
 // Music Requests Types
 // ============================================================================
@@ -2117,7 +2952,10 @@ export interface SubmitSongRequestResponse {
  */
 export interface SongRequestListResponse {
   songRequests: SongRequest[];
+  /** Total number of song requests for the wedding (across all pages) */
   total: number;
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -2144,6 +2982,8 @@ export const MUSIC_REQUESTS_DISABLED = 'MUSIC_REQUESTS_DISABLED' as const;
 export interface SeatingTable {
   id: string;
   weddingId: string;
+  /** WeddingEvent this table belongs to; absent for the main chart */
+  eventId?: string;
   /** Table name or number (e.g., "Table 1", "Head Table", "Family Table") */
   name: string;
   /** Maximum capacity for this table */
@@ -2152,15 +2992,140 @@ export interface SeatingTable {
   notes?: string;
   /** Order for display */
   order: number;
+  /** Table shape on the floor plan */
+  shape: SeatingTableShape;
+  /** Footprint in floor plan units (round tables use width as the diameter) */
+  width: number;
+  height: number;
+  /** Where the table sits in the room; absent until the table is placed on the floor plan */
+  placement?: FloorPlanPlacement;
+  /** Fixed named seats; empty when guests are seated at the table without seat numbers */
+  seats: SeatingSeat[];
   createdAt: string;
 }
 
+/**
+ * Table shape on the floor plan
+ * - head: long table with guests seated along one side, facing the room
+ */
+export type SeatingTableShape = 'round' | 'rectangle' | 'head';
+
+/**
+ * Position of a table or fixture on the floor plan
+ * x/y are the center in floor plan units from the room's top-left corner;
+ * rotation is clockwise in degrees
+ */
+export interface FloorPlanPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+/**
+ * A fixed seat at a table
+ * x/y are relative to the table's center, before the table is rotated
+ */
+export interface SeatingSeat {
+  /** Seat number within the table, matched by SeatingAssignment.seatNumber */
+  number: number;
+  /** Optional name shown instead of the number (e.g., "Bride", "Groom") */
+  label?: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Kind of venue fixture
+ */
+export type VenueFixtureKind = 'dance_floor' | 'stage' | 'bar' | 'other';
+
+/**
+ * Something in the room that isn't a table (dance floor, stage, bar)
+ */
+export interface VenueFixture {
+  id: string;
+  kind: VenueFixtureKind;
+  label?: string;
+  width: number;
+  height: number;
+  placement: FloorPlanPlacement;
+}
+
+/**
+ * Room size in floor plan units
+ */
+export interface FloorPlanRoom {
+  width: number;
+  height: number;
+}
+
+/**
+ * A table's floor plan settings, saved together with the rest of the layout
+ */
+export interface FloorPlanTableLayout {
+  tableId: string;
+  shape: SeatingTableShape;
+  width: number;
+  height: number;
+  placement?: FloorPlanPlacement;
+  seats: SeatingSeat[];
+}
+
+/**
+ * The wedding's floor plan: room, table layouts and venue fixtures
+ */
+export interface FloorPlanLayout {
+  room: FloorPlanRoom;
+  tables: FloorPlanTableLayout[];
+  fixtures: VenueFixture[];
+}
+
+/**
+ * Request to save the floor plan
+ * Tables not listed keep their current layout
+ */
+export type SaveFloorPlanRequest = FloorPlanLayout;
+
+/**
+ * Request to seat an assigned guest in one of their table's named seats
+ * (null clears the seat, leaving the guest at the table)
+ */
+export interface AssignSeatRequest {
+  seatNumber: number | null;
+}
+
+/**
+ * Printable seating stationery
+ * - escort-cards: alphabetical cards telling each guest their table
+ * - place-cards: folded cards for each seat, with the guest's meal icon
+ * - table-signs: one number sign per table
+ */
+export type SeatingPrintKind = 'escort-cards' | 'place-cards' | 'table-signs';
+
+/**
+ * Paper to print on
+ * - letter / a4: sheets of cards with cut and fold marks (table signs fill the page)
+ * - tent-3.5x2: pre-cut tented cards, one card per page, folded to 3.5 x 2 inches
+ */
+export type SeatingPrintPaperSize = 'letter' | 'a4' | 'tent-3.5x2';
+
+/**
+ * Generated seating stationery, ready to download
+ */
+export interface SeatingPrintResponse {
+  content: Buffer;
+  filename: string;
+  contentType: 'application/pdf';
+}
+
 /**
  * A guest's seating assignment
  */
 export interface SeatingAssignment {
   guestId: string;
   tableId: string;
+  /** WeddingEvent of the table's chart; absent for the main chart */
+  eventId?: string;
   /** Optional seat number within the table */
   seatNumber?: number;
   assignedAt: string;
@@ -2172,28 +3137,61 @@ export interface SeatingAssignment {
  * NOTE: Guest names are NOT included for privacy - guests look up their own table via RSVP token
  */
 export interface SeatingConfig {
-  /** All tables (without guest names for privacy) */
-  tables: Array<{
-    id: string;
-    name: string;
-    capacity: number;
-    notes?: string;
-    order: number;
-    /** Number of guests assigned to this table (not names) */
-    guestCount: number;
+  /** Tables of the main chart (without guest names for privacy) */
+  tables: SeatingConfigTable[];
+  /** Room and fixtures, present once the couple has saved a floor plan */
+  floorPlan?: SeatingConfigFloorPlan;
+  /** Per-event charts of multi-event weddings, in event order (only events with tables) */
+  events?: Array<{
+    eventId: string;
+    eventName: string;
+    tables: SeatingConfigTable[];
+    floorPlan?: SeatingConfigFloorPlan;
   }>;
 }
 
+/**
+ * A table in the public seating config
+ */
+export interface SeatingConfigTable {
+  id: string;
+  name: string;
+  capacity: number;
+  notes?: string;
+  order: number;
+  /** Number of guests assigned to this table (not names) */
+  guestCount: number;
+  shape: SeatingTableShape;
+  width: number;
+  height: number;
+  placement?: FloorPlanPlacement;
+  seats: SeatingSeat[];
+}
+
+/**
+ * A chart's room and fixtures in the public seating config
+ */
+export interface SeatingConfigFloorPlan {
+  room: FloorPlanRoom;
+  fixtures: VenueFixture[];
+}
+
 /**
  * A guest's table assignment information (for RSVP view)
  */
 export interface GuestTableAssignment {
+  /** Event of the seating chart; absent for the main chart */
+  eventId?: string;
+  /** Event name, for showing the table per event */
+  eventName?: string;
   /** Table name the guest is assigned to */
   tableName: string;
   /** Table ID */
   tableId: string;
   /** Optional seat number within the table */
   seatNumber?: number;
+  /** Name of the seat, if the table's seats are named */
+  seatLabel?: string;
   /** Optional table notes (e.g., "Near the dance floor") */
   tableNotes?: string;
 }
@@ -2205,6 +3203,8 @@ export interface CreateTableRequest {
   name: string;
   capacity: number;
   notes?: string;
+  /** WeddingEvent whose chart gets the table (omit for the main chart) */
+  eventId?: string;
 }
 
 /**
@@ -2231,6 +3231,76 @@ export interface UnassignGuestsRequest {
   guestIds: string[];
 }
 
+/**
+ * Constraints for the automatic seating planner (all optional)
+ * Constraints are soft: the planner returns its best plan and lists any it had to break
+ */
+export interface AutoSeatConstraints {
+  /** Seat each household at one table (default true) */
+  keepHouseholdsTogether?: boolean;
+  /** Groups to seat together: everyone with a tag (e.g. "College Friends"), or a hand-picked set of guests */
+  keepTogether?: Array<{ tagId?: string; guestIds?: string[] }>;
+  /** Pairs of guests who must not share a table */
+  keepApart?: Array<{ guestIds: [string, string] }>;
+  /** Guests who must sit at a specific table */
+  pins?: Array<{ guestId: string; tableId: string }>;
+  /** Fill tables one at a time in display order instead of spreading guests out */
+  fillInOrder?: boolean;
+}
+
+/**
+ * Request to preview an automatic seating plan
+ */
+export interface AutoSeatRequest {
+  constraints?: AutoSeatConstraints;
+  /** Also seat guests who haven't responded yet (default: attending guests only) */
+  includePending?: boolean;
+  /** Keep guests who are already seated at their current table */
+  keepCurrentSeats?: boolean;
+}
+
+/**
+ * One guest's table in a seating plan
+ */
+export interface SeatingPlanAssignment {
+  guestId: string;
+  tableId: string;
+}
+
+/**
+ * Kind of constraint a seating plan could not meet
+ * - capacity: not enough free seats for everyone
+ */
+export type UnmetSeatingConstraintType = 'capacity' | 'keep_together' | 'keep_apart' | 'pin';
+
+/**
+ * A constraint the seating plan breaks, with the guests involved
+ */
+export interface UnmetSeatingConstraint {
+  type: UnmetSeatingConstraintType;
+  guestIds: string[];
+  message: string;
+}
+
+/**
+ * Proposed seating from the automatic planner (nothing is saved until it is applied)
+ */
+export interface SeatingPlan {
+  assignments: SeatingPlanAssignment[];
+  /** Guests the plan could not find a seat for */
+  unseatedGuestIds: string[];
+  /** 0-100: share of guests seated and constraints met */
+  score: number;
+  unmetConstraints: UnmetSeatingConstraint[];
+}
+
+/**
+ * Request to apply a seating plan, replacing every current table assignment of the chart
+ */
+export interface ApplySeatingPlanRequest {
+  assignments: SeatingPlanAssignment[];
+}
+
 /**
  * Response containing table list
  */
@@ -2301,6 +3371,21 @@ export const TABLE_CAPACITY_EXCEEDED = 'TABLE_CAPACITY_EXCEEDED' as const;
  */
 export const GUEST_ALREADY_ASSIGNED = 'GUEST_ALREADY_ASSIGNED' as const;
 
+/**
+ * Seat number is not one of the table's seats error code
+ */
+export const SEAT_NOT_FOUND = 'SEAT_NOT_FOUND' as const;
+
+/**
+ * Seat already taken by another guest error code
+ */
+export const SEAT_TAKEN = 'SEAT_TAKEN' as const;
+
+/**
+ * Guest has no table assignment error code
+ */
+export const GUEST_NOT_SEATED = 'GUEST_NOT_SEATED' as const;
+
 /**
  * Seating chart feature disabled error code
  */
@@ -2321,6 +3406,11 @@ export type ErrorCode =
   | typeof GUEST_ALREADY_EXISTS
   | typeof WEDDING_NOT_FOUND
   | typeof PLUS_ONE_LIMIT_EXCEEDED
+  | typeof HOUSEHOLD_NOT_FOUND
+  | typeof HOUSEHOLD_CONTACT_INVALID
+  | typeof HOUSEHOLD_MEMBER_WITHOUT_EMAIL
+  | typeof GUEST_IN_OTHER_HOUSEHOLD
+  | typeof GUEST_NOT_IN_HOUSEHOLD
   | typeof PHOTO_UPLOAD_VALIDATION_ERROR
   | typeof PHOTO_UPLOAD_INVALID
   | typeof CSV_IMPORT_VALIDATION_ERROR
@@ -2333,6 +3423,8 @@ export type ErrorCode =
   | typeof PASSCODE_NOT_CONFIGURED
   | typeof TAG_NOT_FOUND
   | typeof TAG_ALREADY_EXISTS
+  | typeof SEGMENT_NOT_FOUND
+  | typeof SEGMENT_IN_USE
   | typeof SENDGRID_WEBHOOK_INVALID
   | typeof VALIDATION_ERROR
   | typeof UNAUTHORIZED
@@ -2342,13 +3434,20 @@ export type ErrorCode =
   | typeof RATE_LIMIT_EXCEEDED
   | typeof INVALID_MEAL_OPTION
   | typeof MEAL_OPTIONS_NOT_CONFIGURED
+  | typeof INVALID_RSVP_ANSWER
+  | typeof RSVP_DEADLINE_PASSED
+  | typeof RSVP_LOOKUP_NO_MATCH
   | typeof GUESTBOOK_MESSAGE_NOT_FOUND
   | typeof MUSIC_REQUESTS_DISABLED
   | typeof TABLE_NOT_FOUND
   | typeof TABLE_CAPACITY_EXCEEDED
   | typeof GUEST_ALREADY_ASSIGNED
+  | typeof SEAT_NOT_FOUND
+  | typeof SEAT_TAKEN
+  | typeof GUEST_NOT_SEATED
   | typeof SEATING_CHART_DISABLED
   | typeof GUEST_NOT_INVITED_TO_EVENT
+  | typeof GUEST_NOT_ATTENDING_EVENT
   | typeof EVENT_NOT_FOUND
   | typeof GALLERY_PHOTO_NOT_FOUND
   | typeof GALLERY_UPLOAD_VALIDATION_ERROR
@@ -2356,6 +3455,10 @@ export type ErrorCode =
   | typeof VIDEO_NOT_FOUND
   | typeof SCHEDULED_EMAIL_NOT_FOUND
   | typeof SCHEDULED_EMAIL_ALREADY_SENT
+  | typeof EMAIL_CAMPAIGN_NOT_FOUND
+  | typeof EMAIL_CAMPAIGN_QUEUE_FAILED
+  | typeof DEAD_LETTER_JOB_NOT_FOUND
+  | typeof EMAIL_SUPPRESSION_NOT_FOUND
   | typeof INVALID_SCHEDULE_TIME
   | typeof OG_IMAGE_UPLOAD_VALIDATION_ERROR
   | typeof OG_IMAGE_UPLOAD_INVALID
@@ -2363,6 +3466,7 @@ export type ErrorCode =
   | typeof NO_DRAFT_EXISTS
   | typeof NO_CHANGES_TO_PUBLISH
   | typeof INVALID_LANGUAGE
+  | typeof INVALID_TIMEZONE
   | typeof CUSTOM_DOMAIN_ALREADY_EXISTS
   | typeof CUSTOM_DOMAIN_NOT_CONFIGURED
   | typeof CUSTOM_DOMAIN_VERIFICATION_FAILED
@@ -2407,6 +3511,8 @@ export interface GuestDataExport {
     plusOneGuests?: PlusOneGuest[];
     mealOptionId?: string;
     photoOptOut?: boolean;
+    postalCode?: string;
+    preferredLanguage?: SupportedLanguage;
     inviteSentAt?: string;
     rsvpSubmittedAt?: string;
     createdAt: string;
@@ -2417,18 +3523,28 @@ export interface GuestDataExport {
     date?: string;
     venue?: string;
     city?: string;
+    /** Site language, for guests without a preferred language */
+    language?: string;
+    /** IANA timezone that timestamps in the export are shown in */
+    timezone?: string;
   };
-  /** Table assignment if applicable */
-  tableAssignment?: {
+  /** Table assignments if applicable, one per seating chart */
+  tableAssignments?: Array<{
+    eventName?: string;
     tableName: string;
     seatNumber?: number;
-  };
+  }>;
   /** Per-event RSVP responses if applicable */
   eventRsvps?: Array<{
     eventName: string;
     eventDate: string;
     rsvpStatus: RsvpStatus;
   }>;
+  /** Answers to custom RSVP questions if any */
+  rsvpAnswers?: Array<{
+    question: string;
+    answer: string;
+  }>;
 }
 
 /**
@@ -2564,6 +3680,33 @@ export interface LanguageListResponse {
  */
 export const INVALID_LANGUAGE = 'INVALID_LANGUAGE' as const;
 
+// ============================================================================
+// Time Zone Types
+// ============================================================================
+
+/**
+ * Request to set the wedding's time zone
+ */
+export interface UpdateTimeZoneRequest {
+  /** IANA time zone name, e.g. Europe/Lisbon */
+  timezone: string;
+}
+
+/**
+ * Response after setting the time zone
+ */
+export interface UpdateTimeZoneResponse {
+  wedding: Wedding;
+  renderConfig: RenderConfig;
+  /** Automatic deadline reminders, rescheduled for the new zone */
+  scheduledReminders: ScheduledEmail[];
+}
+
+/**
+ * Unknown time zone error
+ */
+export const INVALID_TIMEZONE = 'INVALID_TIMEZONE' as const;
+
 // ============================================================================
 // Custom Domain Types
 // PRD: "Admin can connect custom domain"
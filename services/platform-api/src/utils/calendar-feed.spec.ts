@@ -0,0 +1,19 @@
+import { createCalendarFeedToken, toWebcalUrl, verifyCalendarFeedToken } from './calendar-feed';
+
+describe('Calendar Feed', () => {
+  it('should round-trip tokens signed with the same secret only', () => {
+    const token = createCalendarFeedToken('guest-1', 3, 'secret');
+
+    expect(verifyCalendarFeedToken(token, 'secret')).toEqual({ guestId: 'guest-1', version: 3 });
+    expect(verifyCalendarFeedToken(token, 'other-secret')).toBeNull();
+    expect(verifyCalendarFeedToken(`${token}x`, 'secret')).toBeNull();
+    expect(verifyCalendarFeedToken('not-a-token', 'secret')).toBeNull();
+  });
+
+  it('should turn web URLs into subscription URLs', () => {
+    expect(toWebcalUrl('https://example.com/api/calendar/feed/abc/calendar.ics')).toBe(
+      'webcal://example.com/api/calendar/feed/abc/calendar.ics',
+    );
+    expect(toWebcalUrl('http://localhost:4321/x')).toBe('webcal://localhost:4321/x');
+  });
+});
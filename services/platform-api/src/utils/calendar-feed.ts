@@ -0,0 +1,56 @@
+/**
+ * Calendar feed helpers.
+ *
+ * Guests can subscribe to a personal feed of the events they are invited to,
+ * so schedule changes reach their calendar without another email. The feed URL
+ * carries a signed token naming the guest and a version number; resetting the
+ * feed bumps the version, which revokes every earlier URL. Nothing secret is
+ * stored.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Signed token identifying a guest and their current feed version
+ */
+export function createCalendarFeedToken(guestId: string, version: number, secret: string): string {
+  const payload = Buffer.from(`${guestId}:${version}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Guest and feed version from a token, or null if it was not signed with this secret
+ */
+export function verifyCalendarFeedToken(
+  token: string,
+  secret: string,
+): { guestId: string; version: number } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const match = /^([^:]+):(\d+)$/.exec(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (!match) {
+    return null;
+  }
+
+  return { guestId: match[1], version: Number(match[2]) };
+}
+
+/**
+ * webcal:// form of an http(s) URL, which calendar apps open as a subscription
+ */
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
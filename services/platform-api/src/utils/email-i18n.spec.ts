@@ -0,0 +1,28 @@
+import { formatString, getEmailStrings, isSupportedLanguage, resolveEmailLanguage } from './email-i18n';
+
+describe('Email i18n', () => {
+  it('should prefer the guest language, then the site language, then English', () => {
+    expect(resolveEmailLanguage('fr', 'es')).toBe('fr');
+    expect(resolveEmailLanguage(undefined, 'es')).toBe('es');
+    expect(resolveEmailLanguage('xx', 'yy')).toBe('en');
+  });
+
+  it('should not accept inherited object keys as languages', () => {
+    expect(isSupportedLanguage('de')).toBe(true);
+    expect(isSupportedLanguage('constructor')).toBe(false);
+    expect(isSupportedLanguage('toString')).toBe(false);
+    expect(isSupportedLanguage('__proto__')).toBe(false);
+    expect(resolveEmailLanguage('constructor', 'toString')).toBe('en');
+  });
+
+  it('should fall back to English wording for languages without a translation', () => {
+    expect(getEmailStrings('ja')).toBe(getEmailStrings('en'));
+    expect(getEmailStrings('de').unsubscribe).toBe('Abmelden');
+  });
+
+  it('should fill known placeholders and leave unknown ones', () => {
+    expect(formatString('Seat {number} for {name} {other}', { number: 4, name: 'Ana' })).toBe(
+      'Seat 4 for Ana {other}',
+    );
+  });
+});
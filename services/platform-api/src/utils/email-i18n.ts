@@ -0,0 +1,662 @@
+/**
+ * Built-in wording of guest emails, per language.
+ *
+ * Guests get emails in their preferred language, else the wedding site's
+ * language. Strings use {name}-style placeholders, filled by formatString.
+ * Languages without a translation yet fall back to English copy but still
+ * format dates in their own locale.
+ */
+
+import type { SupportedLanguage } from '../types';
+
+export interface EmailStrings {
+  dateToBeAnnounced: string;
+  /** {name} is the guest's name */
+  dear: string;
+  /** {name} is the guest's name */
+  hi: string;
+  withLove: string;
+  linkFallback: string;
+  unsubscribePrompt: string;
+  unsubscribe: string;
+  statusAttending: string;
+  statusNotAttending: string;
+  statusPending: string;
+
+  /** {partners} is the couple's names */
+  invitationSubject: string;
+  invitationBody: string;
+  invitationClosing: string;
+  invitationButton: string;
+  invitationRsvpPrompt: string;
+
+  /** {partners} is the couple's names */
+  reminderSubject: string;
+  reminderBody: string;
+  /** {date} is the formatted RSVP deadline */
+  reminderDeadline: string;
+  reminderClosing: string;
+  reminderButton: string;
+  reminderRsvpPrompt: string;
+
+  /** {partners} is the couple's names */
+  saveTheDateSubject: string;
+  saveTheDateBadge: string;
+  saveTheDateIntro: string;
+  saveTheDateMessage: string;
+  saveTheDateNote: string;
+  saveTheDateClosing: string;
+  siteButton: string;
+  siteLink: string;
+
+  /** {partners} is the couple's names */
+  thankYouSubject: string;
+  thankYouBadge: string;
+  thankYouAttendedBody: string;
+  thankYouNotAttendedBody: string;
+  thankYouClosing: string;
+
+  /** {partners} is the couple's names */
+  confirmationSubject: string;
+  confirmationIntro: string;
+  /** {date} is the formatted RSVP deadline */
+  confirmationChangeUntil: string;
+  confirmationChangeAnytime: string;
+  confirmationButton: string;
+  confirmationClosingAttending: string;
+  confirmationClosingNotAttending: string;
+  rsvpLabel: string;
+  mealLabel: string;
+  dietaryNotesLabel: string;
+  plusOnesLabel: string;
+  tableLabel: string;
+  /** {event} is the event name */
+  tableForEventLabel: string;
+  /** {number} is the seat number */
+  seat: string;
+
+  /** {partners} is the couple's names */
+  linkSubject: string;
+  linkIntro: string;
+  linkNotice: string;
+  linkButton: string;
+
+  /** {partners} is the couple's names */
+  calendarTitle: string;
+  /** {partners} is the couple's names */
+  calendarDescription: string;
+  /** {partners} is the couple's names */
+  calendarCancelSubject: string;
+  /** {events} lists the cancelled events */
+  calendarCancelBody: string;
+
+  /** {partners} is the couple's names */
+  exportSubject: string;
+  exportHeading: string;
+  /** {partners} is the couple's names */
+  exportTitle: string;
+  exportIntro: string;
+  exportYourInformation: string;
+  exportName: string;
+  exportEmail: string;
+  exportPartySize: string;
+  exportRsvpStatus: string;
+  exportDietaryNotes: string;
+  exportMealSelection: string;
+  exportPhotoOptOut: string;
+  exportYes: string;
+  exportInviteSent: string;
+  exportRsvpSubmitted: string;
+  exportProfileCreated: string;
+  exportPlusOnes: string;
+  exportDietary: string;
+  exportTableAssignment: string;
+  exportEventRsvps: string;
+  exportWeddingInformation: string;
+  exportCouple: string;
+  exportDate: string;
+  exportVenue: string;
+  exportCity: string;
+  /** {date} is when the export was generated */
+  exportGeneratedOn: string;
+  exportContact: string;
+  exportNotSpecified: string;
+}
+
+const en: EmailStrings = {
+  dateToBeAnnounced: 'Date to be announced',
+  dear: 'Dear {name},',
+  hi: 'Hi {name},',
+  withLove: 'With love,',
+  linkFallback: 'If the button doesn\'t work, copy and paste this link into your browser:',
+  unsubscribePrompt: 'Don\'t want these emails?',
+  unsubscribe: 'Unsubscribe',
+  statusAttending: 'Attending',
+  statusNotAttending: 'Not Attending',
+  statusPending: 'Awaiting Response',
+
+  invitationSubject: 'You\'re Invited: {partners}\'s Wedding',
+  invitationBody: 'We\'re overjoyed to invite you to celebrate our wedding!\n\nYour presence would mean the world to us as we begin this new chapter together.',
+  invitationClosing: 'We can\'t wait to see you there!',
+  invitationButton: 'View Invitation & RSVP',
+  invitationRsvpPrompt: 'Please RSVP by visiting:',
+
+  reminderSubject: 'A gentle reminder: RSVP for {partners}\'s wedding',
+  reminderBody: 'We hope you\'re doing well. If you haven\'t had a chance to RSVP yet, we\'d love to hear from you.\n\nYour response helps us finalize the details and celebrate with care.',
+  reminderDeadline: 'Please let us know by {date}.',
+  reminderClosing: 'With gratitude,',
+  reminderButton: 'RSVP Now',
+  reminderRsvpPrompt: 'Please RSVP here:',
+
+  saveTheDateSubject: 'Save the Date: {partners}\'s Wedding',
+  saveTheDateBadge: 'Save the Date',
+  saveTheDateIntro: 'We\'re thrilled to share some wonderful news with you!',
+  saveTheDateMessage: 'We would be honored to have you join us as we celebrate our love and begin our new journey together.',
+  saveTheDateNote: 'A formal invitation will follow with all the details.',
+  saveTheDateClosing: 'With love and excitement,',
+  siteButton: 'Visit Our Wedding Site',
+  siteLink: 'Visit our wedding site',
+
+  thankYouSubject: 'Thank You from {partners}',
+  thankYouBadge: 'Thank You',
+  thankYouAttendedBody: 'What a beautiful celebration it was, and having you there made it even more special.\n\nWe are so grateful for your presence, your warm wishes, and your love.\n\nThe memories we made together will be cherished forever.',
+  thankYouNotAttendedBody: 'Although we missed you at our wedding, we want you to know that you were in our hearts.\n\nThank you for your kind thoughts and warm wishes. They meant the world to us.\n\nWe hope to celebrate with you soon!',
+  thankYouClosing: 'With all our love and gratitude,',
+
+  confirmationSubject: 'Your RSVP for {partners}\'s wedding',
+  confirmationIntro: 'Thank you for your RSVP! Here\'s what we received:',
+  confirmationChangeUntil: 'Need to make a change? You can update your response until {date}.',
+  confirmationChangeAnytime: 'Need to make a change? You can update your response at any time.',
+  confirmationButton: 'Update your RSVP',
+  confirmationClosingAttending: 'We can\'t wait to celebrate with you!',
+  confirmationClosingNotAttending: 'Thank you for letting us know. You\'ll be missed!',
+  rsvpLabel: 'RSVP',
+  mealLabel: 'Meal',
+  dietaryNotesLabel: 'Dietary notes',
+  plusOnesLabel: 'Plus-ones',
+  tableLabel: 'Table',
+  tableForEventLabel: 'Table ({event})',
+  seat: 'Seat {number}',
+
+  linkSubject: 'Your RSVP link for {partners}\'s wedding',
+  linkIntro: 'You asked for a link to your RSVP. Use the button below to respond or update your answers.',
+  linkNotice: 'This link works for 3 days, and any RSVP link we sent you before still works. If you didn\'t ask for this, you can ignore this email.',
+  linkButton: 'Open your RSVP',
+
+  calendarTitle: '{partners}\'s Wedding',
+  calendarDescription: 'Join us to celebrate the wedding of {partners}.',
+  calendarCancelSubject: 'Schedule Change - {partners}\'s Wedding',
+  calendarCancelBody: '{events} is no longer part of our wedding plans.\n\nThe attached calendar update removes it from your calendar. We\'re sorry for any inconvenience.',
+
+  exportSubject: 'Your Data Export - {partners}\'s Wedding',
+  exportHeading: 'Data Export Request',
+  exportTitle: '{partners}\'s Wedding',
+  exportIntro: 'As requested, here is a copy of all the data we have stored about you for this wedding.',
+  exportYourInformation: 'Your Information',
+  exportName: 'Name',
+  exportEmail: 'Email',
+  exportPartySize: 'Party Size',
+  exportRsvpStatus: 'RSVP Status',
+  exportDietaryNotes: 'Dietary Notes',
+  exportMealSelection: 'Meal Selection ID',
+  exportPhotoOptOut: 'Photo Opt-Out',
+  exportYes: 'Yes',
+  exportInviteSent: 'Invite Sent',
+  exportRsvpSubmitted: 'RSVP Submitted',
+  exportProfileCreated: 'Profile Created',
+  exportPlusOnes: 'Plus-One Guests',
+  exportDietary: 'Dietary',
+  exportTableAssignment: 'Table Assignment',
+  exportEventRsvps: 'Event RSVPs',
+  exportWeddingInformation: 'Wedding Information',
+  exportCouple: 'Couple',
+  exportDate: 'Date',
+  exportVenue: 'Venue',
+  exportCity: 'City',
+  exportGeneratedOn: 'This export was generated on {date}.',
+  exportContact: 'If you have any questions about your data or wish to have it removed, please contact the wedding organizers directly.',
+  exportNotSpecified: 'Not specified',
+};
+
+const es: EmailStrings = {
+  dateToBeAnnounced: 'Fecha por confirmar',
+  dear: 'Querido/a {name}:',
+  hi: 'Hola, {name}:',
+  withLove: 'Con cariño,',
+  linkFallback: 'Si el botón no funciona, copia y pega este enlace en tu navegador:',
+  unsubscribePrompt: '¿No quieres recibir estos correos?',
+  unsubscribe: 'Darse de baja',
+  statusAttending: 'Asistirá',
+  statusNotAttending: 'No asistirá',
+  statusPending: 'Pendiente de respuesta',
+
+  invitationSubject: 'Estás invitado/a: boda de {partners}',
+  invitationBody: '¡Nos hace muchísima ilusión invitarte a celebrar nuestra boda!\n\nTu presencia significaría muchísimo para nosotros al comenzar esta nueva etapa juntos.',
+  invitationClosing: '¡Tenemos muchas ganas de verte allí!',
+  invitationButton: 'Ver invitación y confirmar',
+  invitationRsvpPrompt: 'Confirma tu asistencia aquí:',
+
+  reminderSubject: 'Un recordatorio: confirma tu asistencia a la boda de {partners}',
+  reminderBody: 'Esperamos que estés muy bien. Si aún no has podido confirmar tu asistencia, nos encantaría saber de ti.\n\nTu respuesta nos ayuda a cerrar los detalles y preparar la celebración con cariño.',
+  reminderDeadline: 'Por favor, avísanos antes del {date}.',
+  reminderClosing: 'Con gratitud,',
+  reminderButton: 'Confirmar ahora',
+  reminderRsvpPrompt: 'Confirma tu asistencia aquí:',
+
+  saveTheDateSubject: 'Reserva la fecha: boda de {partners}',
+  saveTheDateBadge: 'Reserva la fecha',
+  saveTheDateIntro: '¡Estamos felices de compartir una noticia maravillosa contigo!',
+  saveTheDateMessage: 'Sería un honor que nos acompañaras a celebrar nuestro amor y el comienzo de este nuevo camino juntos.',
+  saveTheDateNote: 'Pronto recibirás la invitación formal con todos los detalles.',
+  saveTheDateClosing: 'Con amor e ilusión,',
+  siteButton: 'Visita nuestra web de boda',
+  siteLink: 'Visita nuestra web de boda',
+
+  thankYouSubject: 'Gracias de parte de {partners}',
+  thankYouBadge: 'Gracias',
+  thankYouAttendedBody: 'Qué celebración tan bonita fue, y tenerte allí la hizo aún más especial.\n\nEstamos muy agradecidos por tu presencia, tus buenos deseos y tu cariño.\n\nGuardaremos para siempre los recuerdos que creamos juntos.',
+  thankYouNotAttendedBody: 'Aunque te echamos de menos en nuestra boda, queremos que sepas que estuviste en nuestros corazones.\n\nGracias por tus palabras y tus buenos deseos. Significaron muchísimo para nosotros.\n\n¡Esperamos celebrar contigo muy pronto!',
+  thankYouClosing: 'Con todo nuestro amor y gratitud,',
+
+  confirmationSubject: 'Tu confirmación para la boda de {partners}',
+  confirmationIntro: '¡Gracias por tu respuesta! Esto es lo que recibimos:',
+  confirmationChangeUntil: '¿Necesitas cambiar algo? Puedes actualizar tu respuesta hasta el {date}.',
+  confirmationChangeAnytime: '¿Necesitas cambiar algo? Puedes actualizar tu respuesta en cualquier momento.',
+  confirmationButton: 'Actualizar mi respuesta',
+  confirmationClosingAttending: '¡Tenemos muchas ganas de celebrar contigo!',
+  confirmationClosingNotAttending: 'Gracias por avisarnos. ¡Te echaremos de menos!',
+  rsvpLabel: 'Asistencia',
+  mealLabel: 'Menú',
+  dietaryNotesLabel: 'Notas alimentarias',
+  plusOnesLabel: 'Acompañantes',
+  tableLabel: 'Mesa',
+  tableForEventLabel: 'Mesa ({event})',
+  seat: 'Asiento {number}',
+
+  linkSubject: 'Tu enlace de confirmación para la boda de {partners}',
+  linkIntro: 'Pediste un enlace para confirmar tu asistencia. Usa el botón de abajo para responder o actualizar tus respuestas.',
+  linkNotice: 'Este enlace funciona durante 3 días, y los enlaces que te enviamos antes siguen funcionando. Si no lo pediste, puedes ignorar este correo.',
+  linkButton: 'Abrir mi confirmación',
+
+  calendarTitle: 'Boda de {partners}',
+  calendarDescription: 'Acompáñanos a celebrar la boda de {partners}.',
+  calendarCancelSubject: 'Cambio de programa - Boda de {partners}',
+  calendarCancelBody: '{events} ya no forma parte de los planes de nuestra boda.\n\nLa actualización adjunta lo elimina de tu calendario. Disculpa las molestias.',
+
+  exportSubject: 'Exportación de tus datos - boda de {partners}',
+  exportHeading: 'Solicitud de exportación de datos',
+  exportTitle: 'Boda de {partners}',
+  exportIntro: 'Como solicitaste, aquí tienes una copia de todos los datos que guardamos sobre ti para esta boda.',
+  exportYourInformation: 'Tu información',
+  exportName: 'Nombre',
+  exportEmail: 'Correo electrónico',
+  exportPartySize: 'Número de personas',
+  exportRsvpStatus: 'Estado de la confirmación',
+  exportDietaryNotes: 'Notas alimentarias',
+  exportMealSelection: 'ID del menú elegido',
+  exportPhotoOptOut: 'No aparecer en fotos',
+  exportYes: 'Sí',
+  exportInviteSent: 'Invitación enviada',
+  exportRsvpSubmitted: 'Confirmación enviada',
+  exportProfileCreated: 'Perfil creado',
+  exportPlusOnes: 'Acompañantes',
+  exportDietary: 'Alimentación',
+  exportTableAssignment: 'Mesa asignada',
+  exportEventRsvps: 'Confirmaciones por evento',
+  exportWeddingInformation: 'Información de la boda',
+  exportCouple: 'Pareja',
+  exportDate: 'Fecha',
+  exportVenue: 'Lugar',
+  exportCity: 'Ciudad',
+  exportGeneratedOn: 'Esta exportación se generó el {date}.',
+  exportContact: 'Si tienes preguntas sobre tus datos o quieres que los eliminemos, contacta directamente con los organizadores de la boda.',
+  exportNotSpecified: 'No especificado',
+};
+
+const fr: EmailStrings = {
+  dateToBeAnnounced: 'Date à venir',
+  dear: 'Cher·e {name},',
+  hi: 'Bonjour {name},',
+  withLove: 'Avec tout notre amour,',
+  linkFallback: 'Si le bouton ne fonctionne pas, copiez et collez ce lien dans votre navigateur :',
+  unsubscribePrompt: 'Vous ne souhaitez plus recevoir ces e-mails ?',
+  unsubscribe: 'Se désabonner',
+  statusAttending: 'Présent·e',
+  statusNotAttending: 'Absent·e',
+  statusPending: 'En attente de réponse',
+
+  invitationSubject: 'Vous êtes invité·e : le mariage de {partners}',
+  invitationBody: 'Nous sommes ravis de vous inviter à célébrer notre mariage !\n\nVotre présence compterait énormément pour nous alors que nous commençons ce nouveau chapitre ensemble.',
+  invitationClosing: 'Nous avons hâte de vous y voir !',
+  invitationButton: 'Voir l\'invitation et répondre',
+  invitationRsvpPrompt: 'Merci de répondre ici :',
+
+  reminderSubject: 'Petit rappel : répondez pour le mariage de {partners}',
+  reminderBody: 'Nous espérons que vous allez bien. Si vous n\'avez pas encore eu l\'occasion de répondre, nous aimerions beaucoup avoir de vos nouvelles.\n\nVotre réponse nous aide à finaliser les détails et à tout préparer avec soin.',
+  reminderDeadline: 'Merci de nous répondre avant le {date}.',
+  reminderClosing: 'Avec gratitude,',
+  reminderButton: 'Répondre maintenant',
+  reminderRsvpPrompt: 'Merci de répondre ici :',
+
+  saveTheDateSubject: 'Réservez la date : le mariage de {partners}',
+  saveTheDateBadge: 'Réservez la date',
+  saveTheDateIntro: 'Nous sommes heureux de partager une merveilleuse nouvelle avec vous !',
+  saveTheDateMessage: 'Ce serait un honneur de vous compter parmi nous pour célébrer notre amour et le début de notre nouvelle vie à deux.',
+  saveTheDateNote: 'Une invitation officielle suivra avec tous les détails.',
+  saveTheDateClosing: 'Avec amour et impatience,',
+  siteButton: 'Visiter notre site de mariage',
+  siteLink: 'Visitez notre site de mariage',
+
+  thankYouSubject: 'Merci de la part de {partners}',
+  thankYouBadge: 'Merci',
+  thankYouAttendedBody: 'Quelle belle fête ce fut, et votre présence l\'a rendue encore plus spéciale.\n\nNous vous sommes très reconnaissants pour votre présence, vos vœux chaleureux et votre affection.\n\nNous chérirons à jamais les souvenirs créés ensemble.',
+  thankYouNotAttendedBody: 'Même si vous nous avez manqué à notre mariage, sachez que vous étiez dans nos cœurs.\n\nMerci pour vos pensées et vos vœux chaleureux. Ils ont beaucoup compté pour nous.\n\nNous espérons fêter cela avec vous très bientôt !',
+  thankYouClosing: 'Avec tout notre amour et notre gratitude,',
+
+  confirmationSubject: 'Votre réponse pour le mariage de {partners}',
+  confirmationIntro: 'Merci pour votre réponse ! Voici ce que nous avons reçu :',
+  confirmationChangeUntil: 'Un changement ? Vous pouvez modifier votre réponse jusqu\'au {date}.',
+  confirmationChangeAnytime: 'Un changement ? Vous pouvez modifier votre réponse à tout moment.',
+  confirmationButton: 'Modifier ma réponse',
+  confirmationClosingAttending: 'Nous avons hâte de célébrer avec vous !',
+  confirmationClosingNotAttending: 'Merci de nous avoir prévenus. Vous nous manquerez !',
+  rsvpLabel: 'Réponse',
+  mealLabel: 'Repas',
+  dietaryNotesLabel: 'Régime alimentaire',
+  plusOnesLabel: 'Accompagnants',
+  tableLabel: 'Table',
+  tableForEventLabel: 'Table ({event})',
+  seat: 'Place {number}',
+
+  linkSubject: 'Votre lien de réponse pour le mariage de {partners}',
+  linkIntro: 'Vous avez demandé un lien de réponse. Utilisez le bouton ci-dessous pour répondre ou modifier vos réponses.',
+  linkNotice: 'Ce lien est valable 3 jours, et les liens envoyés précédemment fonctionnent toujours. Si vous n\'êtes pas à l\'origine de cette demande, ignorez cet e-mail.',
+  linkButton: 'Ouvrir ma réponse',
+
+  calendarTitle: 'Mariage de {partners}',
+  calendarDescription: 'Rejoignez-nous pour célébrer le mariage de {partners}.',
+  calendarCancelSubject: 'Changement de programme - Mariage de {partners}',
+  calendarCancelBody: '{events} ne fait plus partie du programme de notre mariage.\n\nLa mise à jour jointe le retire de votre agenda. Veuillez nous excuser pour ce changement.',
+
+  exportSubject: 'Export de vos données - mariage de {partners}',
+  exportHeading: 'Demande d\'export de données',
+  exportTitle: 'Mariage de {partners}',
+  exportIntro: 'Comme demandé, voici une copie de toutes les données que nous conservons à votre sujet pour ce mariage.',
+  exportYourInformation: 'Vos informations',
+  exportName: 'Nom',
+  exportEmail: 'E-mail',
+  exportPartySize: 'Nombre de personnes',
+  exportRsvpStatus: 'Statut de la réponse',
+  exportDietaryNotes: 'Régime alimentaire',
+  exportMealSelection: 'ID du repas choisi',
+  exportPhotoOptOut: 'Exclusion des photos',
+  exportYes: 'Oui',
+  exportInviteSent: 'Invitation envoyée',
+  exportRsvpSubmitted: 'Réponse envoyée',
+  exportProfileCreated: 'Profil créé',
+  exportPlusOnes: 'Accompagnants',
+  exportDietary: 'Régime',
+  exportTableAssignment: 'Table attribuée',
+  exportEventRsvps: 'Réponses par événement',
+  exportWeddingInformation: 'Informations sur le mariage',
+  exportCouple: 'Couple',
+  exportDate: 'Date',
+  exportVenue: 'Lieu',
+  exportCity: 'Ville',
+  exportGeneratedOn: 'Cet export a été généré le {date}.',
+  exportContact: 'Pour toute question sur vos données ou pour demander leur suppression, contactez directement les organisateurs du mariage.',
+  exportNotSpecified: 'Non précisé',
+};
+
+const pt: EmailStrings = {
+  dateToBeAnnounced: 'Data a confirmar',
+  dear: 'Querido(a) {name},',
+  hi: 'Olá, {name},',
+  withLove: 'Com carinho,',
+  linkFallback: 'Se o botão não funcionar, copie e cole este link no seu navegador:',
+  unsubscribePrompt: 'Não quer receber estes e-mails?',
+  unsubscribe: 'Cancelar inscrição',
+  statusAttending: 'Vai comparecer',
+  statusNotAttending: 'Não vai comparecer',
+  statusPending: 'Aguardando resposta',
+
+  invitationSubject: 'Você está convidado(a): casamento de {partners}',
+  invitationBody: 'Estamos muito felizes em convidar você para celebrar o nosso casamento!\n\nSua presença significaria o mundo para nós neste começo de um novo capítulo juntos.',
+  invitationClosing: 'Mal podemos esperar para ver você lá!',
+  invitationButton: 'Ver convite e confirmar presença',
+  invitationRsvpPrompt: 'Confirme sua presença aqui:',
+
+  reminderSubject: 'Um lembrete carinhoso: confirme sua presença no casamento de {partners}',
+  reminderBody: 'Esperamos que você esteja bem. Se ainda não teve a chance de confirmar sua presença, adoraríamos saber de você.\n\nSua resposta nos ajuda a fechar os detalhes e preparar tudo com carinho.',
+  reminderDeadline: 'Por favor, responda até {date}.',
+  reminderClosing: 'Com gratidão,',
+  reminderButton: 'Confirmar agora',
+  reminderRsvpPrompt: 'Confirme sua presença aqui:',
+
+  saveTheDateSubject: 'Reserve a data: casamento de {partners}',
+  saveTheDateBadge: 'Reserve a data',
+  saveTheDateIntro: 'Estamos muito felizes em compartilhar uma notícia maravilhosa com você!',
+  saveTheDateMessage: 'Seria uma honra ter você conosco para celebrar o nosso amor e o começo da nossa nova jornada juntos.',
+  saveTheDateNote: 'Um convite formal chegará em breve com todos os detalhes.',
+  saveTheDateClosing: 'Com amor e alegria,',
+  siteButton: 'Visite o nosso site do casamento',
+  siteLink: 'Visite o nosso site do casamento',
+
+  thankYouSubject: 'Obrigado de {partners}',
+  thankYouBadge: 'Obrigado',
+  thankYouAttendedBody: 'Que celebração linda foi, e ter você lá a tornou ainda mais especial.\n\nSomos muito gratos pela sua presença, pelos seus votos e pelo seu carinho.\n\nAs memórias que criamos juntos serão guardadas para sempre.',
+  thankYouNotAttendedBody: 'Embora tenhamos sentido sua falta no nosso casamento, queremos que saiba que você esteve em nossos corações.\n\nObrigado pelo carinho e pelos seus votos. Eles significaram muito para nós.\n\nEsperamos celebrar com você em breve!',
+  thankYouClosing: 'Com todo o nosso amor e gratidão,',
+
+  confirmationSubject: 'Sua confirmação para o casamento de {partners}',
+  confirmationIntro: 'Obrigado pela sua resposta! Isto é o que recebemos:',
+  confirmationChangeUntil: 'Precisa mudar algo? Você pode atualizar sua resposta até {date}.',
+  confirmationChangeAnytime: 'Precisa mudar algo? Você pode atualizar sua resposta a qualquer momento.',
+  confirmationButton: 'Atualizar minha resposta',
+  confirmationClosingAttending: 'Mal podemos esperar para celebrar com você!',
+  confirmationClosingNotAttending: 'Obrigado por nos avisar. Sentiremos sua falta!',
+  rsvpLabel: 'Presença',
+  mealLabel: 'Refeição',
+  dietaryNotesLabel: 'Restrições alimentares',
+  plusOnesLabel: 'Acompanhantes',
+  tableLabel: 'Mesa',
+  tableForEventLabel: 'Mesa ({event})',
+  seat: 'Lugar {number}',
+
+  linkSubject: 'Seu link de confirmação para o casamento de {partners}',
+  linkIntro: 'Você pediu um link para confirmar sua presença. Use o botão abaixo para responder ou atualizar suas respostas.',
+  linkNotice: 'Este link vale por 3 dias, e os links enviados anteriormente continuam funcionando. Se você não fez este pedido, pode ignorar este e-mail.',
+  linkButton: 'Abrir minha confirmação',
+
+  calendarTitle: 'Casamento de {partners}',
+  calendarDescription: 'Venha celebrar o casamento de {partners} conosco.',
+  calendarCancelSubject: 'Mudança na programação - Casamento de {partners}',
+  calendarCancelBody: '{events} não faz mais parte da programação do nosso casamento.\n\nA atualização anexa remove o evento da sua agenda. Pedimos desculpas pelo transtorno.',
+
+  exportSubject: 'Exportação dos seus dados - casamento de {partners}',
+  exportHeading: 'Pedido de exportação de dados',
+  exportTitle: 'Casamento de {partners}',
+  exportIntro: 'Conforme solicitado, aqui está uma cópia de todos os dados que guardamos sobre você para este casamento.',
+  exportYourInformation: 'Suas informações',
+  exportName: 'Nome',
+  exportEmail: 'E-mail',
+  exportPartySize: 'Número de pessoas',
+  exportRsvpStatus: 'Status da confirmação',
+  exportDietaryNotes: 'Restrições alimentares',
+  exportMealSelection: 'ID da refeição escolhida',
+  exportPhotoOptOut: 'Não aparecer nas fotos',
+  exportYes: 'Sim',
+  exportInviteSent: 'Convite enviado',
+  exportRsvpSubmitted: 'Confirmação enviada',
+  exportProfileCreated: 'Perfil criado',
+  exportPlusOnes: 'Acompanhantes',
+  exportDietary: 'Alimentação',
+  exportTableAssignment: 'Mesa atribuída',
+  exportEventRsvps: 'Confirmações por evento',
+  exportWeddingInformation: 'Informações do casamento',
+  exportCouple: 'Casal',
+  exportDate: 'Data',
+  exportVenue: 'Local',
+  exportCity: 'Cidade',
+  exportGeneratedOn: 'Esta exportação foi gerada em {date}.',
+  exportContact: 'Se tiver dúvidas sobre seus dados ou quiser que sejam removidos, fale diretamente com os organizadores do casamento.',
+  exportNotSpecified: 'Não informado',
+};
+
+const de: EmailStrings = {
+  dateToBeAnnounced: 'Datum wird noch bekanntgegeben',
+  dear: 'Liebe/r {name},',
+  hi: 'Hallo {name},',
+  withLove: 'Alles Liebe,',
+  linkFallback: 'Falls der Button nicht funktioniert, kopiere diesen Link in deinen Browser:',
+  unsubscribePrompt: 'Du möchtest diese E-Mails nicht mehr erhalten?',
+  unsubscribe: 'Abmelden',
+  statusAttending: 'Nimmt teil',
+  statusNotAttending: 'Nimmt nicht teil',
+  statusPending: 'Antwort ausstehend',
+
+  invitationSubject: 'Du bist eingeladen: Hochzeit von {partners}',
+  invitationBody: 'Wir freuen uns riesig, dich zu unserer Hochzeit einzuladen!\n\nDeine Anwesenheit würde uns unglaublich viel bedeuten, wenn wir dieses neue Kapitel gemeinsam beginnen.',
+  invitationClosing: 'Wir können es kaum erwarten, dich dort zu sehen!',
+  invitationButton: 'Einladung ansehen & antworten',
+  invitationRsvpPrompt: 'Bitte antworte hier:',
+
+  reminderSubject: 'Eine kleine Erinnerung: Antworte auf die Einladung zur Hochzeit von {partners}',
+  reminderBody: 'Wir hoffen, es geht dir gut. Falls du noch nicht dazu gekommen bist zu antworten, würden wir uns sehr freuen, von dir zu hören.\n\nDeine Antwort hilft uns, die letzten Details zu planen.',
+  reminderDeadline: 'Bitte gib uns bis {date} Bescheid.',
+  reminderClosing: 'Mit Dank,',
+  reminderButton: 'Jetzt antworten',
+  reminderRsvpPrompt: 'Bitte antworte hier:',
+
+  saveTheDateSubject: 'Save the Date: Hochzeit von {partners}',
+  saveTheDateBadge: 'Save the Date',
+  saveTheDateIntro: 'Wir haben wunderbare Neuigkeiten für dich!',
+  saveTheDateMessage: 'Es wäre uns eine Ehre, wenn du mit uns unsere Liebe und den Beginn unseres gemeinsamen Weges feierst.',
+  saveTheDateNote: 'Eine offizielle Einladung mit allen Details folgt.',
+  saveTheDateClosing: 'In Liebe und Vorfreude,',
+  siteButton: 'Zu unserer Hochzeitswebsite',
+  siteLink: 'Besuche unsere Hochzeitswebsite',
+
+  thankYouSubject: 'Danke von {partners}',
+  thankYouBadge: 'Danke',
+  thankYouAttendedBody: 'Was für ein wunderschönes Fest es war – und mit dir war es noch besonderer.\n\nWir sind so dankbar für deine Anwesenheit, deine lieben Wünsche und deine Zuneigung.\n\nDie gemeinsamen Erinnerungen werden wir für immer in Ehren halten.',
+  thankYouNotAttendedBody: 'Auch wenn wir dich auf unserer Hochzeit vermisst haben, sollst du wissen, dass du in unseren Herzen warst.\n\nDanke für deine lieben Gedanken und Wünsche. Sie haben uns sehr viel bedeutet.\n\nWir hoffen, bald mit dir zu feiern!',
+  thankYouClosing: 'In Liebe und Dankbarkeit,',
+
+  confirmationSubject: 'Deine Antwort zur Hochzeit von {partners}',
+  confirmationIntro: 'Danke für deine Antwort! Das haben wir erhalten:',
+  confirmationChangeUntil: 'Möchtest du etwas ändern? Du kannst deine Antwort bis {date} anpassen.',
+  confirmationChangeAnytime: 'Möchtest du etwas ändern? Du kannst deine Antwort jederzeit anpassen.',
+  confirmationButton: 'Antwort ändern',
+  confirmationClosingAttending: 'Wir können es kaum erwarten, mit dir zu feiern!',
+  confirmationClosingNotAttending: 'Danke, dass du uns Bescheid gegeben hast. Wir werden dich vermissen!',
+  rsvpLabel: 'Antwort',
+  mealLabel: 'Essen',
+  dietaryNotesLabel: 'Ernährungshinweise',
+  plusOnesLabel: 'Begleitpersonen',
+  tableLabel: 'Tisch',
+  tableForEventLabel: 'Tisch ({event})',
+  seat: 'Platz {number}',
+
+  linkSubject: 'Dein Antwort-Link zur Hochzeit von {partners}',
+  linkIntro: 'Du hast einen Link zu deiner Antwort angefordert. Über den Button unten kannst du antworten oder deine Angaben ändern.',
+  linkNotice: 'Dieser Link ist 3 Tage gültig, und frühere Links, die wir dir geschickt haben, funktionieren weiterhin. Falls du das nicht angefordert hast, kannst du diese E-Mail ignorieren.',
+  linkButton: 'Antwort öffnen',
+
+  calendarTitle: 'Hochzeit von {partners}',
+  calendarDescription: 'Feiere mit uns die Hochzeit von {partners}.',
+  calendarCancelSubject: 'Programmänderung - Hochzeit von {partners}',
+  calendarCancelBody: '{events} findet im Rahmen unserer Hochzeit nicht mehr statt.\n\nDie angehängte Aktualisierung entfernt den Termin aus deinem Kalender. Entschuldige die Umstände.',
+
+  exportSubject: 'Export deiner Daten - Hochzeit von {partners}',
+  exportHeading: 'Anfrage zum Datenexport',
+  exportTitle: 'Hochzeit von {partners}',
+  exportIntro: 'Wie angefordert, findest du hier eine Kopie aller Daten, die wir für diese Hochzeit über dich gespeichert haben.',
+  exportYourInformation: 'Deine Angaben',
+  exportName: 'Name',
+  exportEmail: 'E-Mail',
+  exportPartySize: 'Anzahl Personen',
+  exportRsvpStatus: 'Antwortstatus',
+  exportDietaryNotes: 'Ernährungshinweise',
+  exportMealSelection: 'ID der Menüauswahl',
+  exportPhotoOptOut: 'Nicht auf Fotos',
+  exportYes: 'Ja',
+  exportInviteSent: 'Einladung gesendet',
+  exportRsvpSubmitted: 'Antwort gesendet',
+  exportProfileCreated: 'Profil erstellt',
+  exportPlusOnes: 'Begleitpersonen',
+  exportDietary: 'Ernährung',
+  exportTableAssignment: 'Tischzuordnung',
+  exportEventRsvps: 'Antworten pro Veranstaltung',
+  exportWeddingInformation: 'Angaben zur Hochzeit',
+  exportCouple: 'Paar',
+  exportDate: 'Datum',
+  exportVenue: 'Ort',
+  exportCity: 'Stadt',
+  exportGeneratedOn: 'Dieser Export wurde am {date} erstellt.',
+  exportContact: 'Bei Fragen zu deinen Daten oder wenn du sie löschen lassen möchtest, wende dich bitte direkt an das Hochzeitspaar.',
+  exportNotSpecified: 'Nicht angegeben',
+};
+
+// Languages without a translation yet fall back to English copy
+const translations: Record<SupportedLanguage, EmailStrings> = {
+  en,
+  es,
+  fr,
+  pt,
+  de,
+  it: en,
+  nl: en,
+  ja: en,
+  zh: en,
+  ko: en,
+};
+
+/**
+ * Locale used to format dates, times and lists for each language
+ */
+export const EMAIL_LOCALES: Record<SupportedLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  pt: 'pt-BR',
+  de: 'de-DE',
+  it: 'it-IT',
+  nl: 'nl-NL',
+  ja: 'ja-JP',
+  zh: 'zh-CN',
+  ko: 'ko-KR',
+};
+
+/**
+ * Whether a value is one of the supported language codes
+ */
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_LOCALES, value);
+}
+
+/**
+ * Language to email a guest in: their preference, else the wedding site's language, else English
+ */
+export function resolveEmailLanguage(
+  preferredLanguage: string | undefined,
+  weddingLanguage: string | undefined,
+): SupportedLanguage {
+  if (isSupportedLanguage(preferredLanguage)) {
+    return preferredLanguage;
+  }
+  return isSupportedLanguage(weddingLanguage) ? weddingLanguage : 'en';
+}
+
+export function getEmailStrings(language: SupportedLanguage): EmailStrings {
+  return translations[language] ?? translations.en;
+}
+
+/**
+ * Fill {placeholder}s in a string
+ */
+export function formatString(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
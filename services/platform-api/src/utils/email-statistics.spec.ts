@@ -0,0 +1,70 @@
+import { buildEmailStatistics } from './email-statistics';
+import type { EmailOutbox } from '../types';
+
+function outbox(overrides: Partial<EmailOutbox>): EmailOutbox {
+  return {
+    id: 'outbox-1',
+    weddingId: 'wedding-1',
+    guestId: 'guest-1',
+    emailType: 'invitation',
+    status: 'delivered',
+    toEmail: 'guest@example.com',
+    toName: 'Guest',
+    subject: 'You are invited',
+    sentAt: '2026-05-01T10:00:00.000Z',
+    attempts: 1,
+    openCount: 0,
+    clickCount: 0,
+    createdAt: '2026-05-01T10:00:00.000Z',
+    updatedAt: '2026-05-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Email Statistics', () => {
+  it('should report open and click rates against delivered emails', () => {
+    const stats = buildEmailStatistics([
+      outbox({
+        openedAt: '2026-05-01T10:30:00.000Z',
+        openCount: 2,
+        clickedAt: '2026-05-01T10:31:00.000Z',
+        clickCount: 1,
+      }),
+      outbox({ openedAt: '2026-05-01T11:00:00.000Z', openCount: 1 }),
+      outbox({}),
+      outbox({ status: 'bounced' }),
+    ]);
+
+    expect(stats.delivered).toBe(3);
+    expect(stats.failed).toBe(1);
+    expect(stats.opened).toBe(2);
+    expect(stats.openRate).toBe(67);
+    expect(stats.clickRate).toBe(33);
+    expect(stats.byType.invitation).toMatchObject({
+      opened: 2,
+      clicked: 1,
+      openRate: 67,
+      clickRate: 33,
+      medianMinutesToOpen: 45,
+    });
+  });
+
+  it('should leave rates out until an email of that type is delivered', () => {
+    const stats = buildEmailStatistics([outbox({ emailType: 'reminder', status: 'pending' })]);
+
+    expect(stats.pending).toBe(1);
+    expect(stats.openRate).toBeUndefined();
+    expect(stats.byType.reminder.openRate).toBeUndefined();
+    expect(stats.byType.reminder.medianMinutesToOpen).toBeUndefined();
+  });
+
+  it('should count spam reports and unsubscribes', () => {
+    const stats = buildEmailStatistics([
+      outbox({ spamReportedAt: '2026-05-02T09:00:00.000Z' }),
+      outbox({ unsubscribedAt: '2026-05-02T09:00:00.000Z' }),
+    ]);
+
+    expect(stats.spamReports).toBe(1);
+    expect(stats.unsubscribes).toBe(1);
+  });
+});
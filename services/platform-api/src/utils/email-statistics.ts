@@ -0,0 +1,117 @@
+/**
+ * Email statistics helpers.
+ *
+ * Delivery counts come from each outbox row's status; engagement (opens,
+ * clicks, spam reports, unsubscribes) from the timestamps recorded by the
+ * SendGrid event webhook. Rates are whole percentages of delivered emails.
+ */
+
+import type { EmailOutbox, EmailStatistics, EmailTypeStatistics } from '../types';
+
+function emptyTypeStatistics(): EmailTypeStatistics {
+  return { sent: 0, delivered: 0, failed: 0, opened: 0, clicked: 0 };
+}
+
+/**
+ * Whole percentage, or undefined when there is nothing to divide by
+ */
+function percentage(count: number, total: number): number | undefined {
+  return total > 0 ? Math.round((count / total) * 100) : undefined;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Minutes from sending to the first open, if both are known
+ */
+function minutesToOpen(record: EmailOutbox): number | undefined {
+  if (!record.sentAt || !record.openedAt) {
+    return undefined;
+  }
+  const minutes = (Date.parse(record.openedAt) - Date.parse(record.sentAt)) / 60000;
+  return Number.isFinite(minutes) ? Math.max(0, minutes) : undefined;
+}
+
+/**
+ * Summarize a wedding's outbox records for the statistics dashboard
+ */
+export function buildEmailStatistics(records: EmailOutbox[]): EmailStatistics {
+  const stats: EmailStatistics = {
+    totalSent: 0,
+    delivered: 0,
+    failed: 0,
+    pending: 0,
+    opened: 0,
+    clicked: 0,
+    spamReports: 0,
+    unsubscribes: 0,
+    byType: {
+      invitation: emptyTypeStatistics(),
+      reminder: emptyTypeStatistics(),
+      save_the_date: emptyTypeStatistics(),
+      thank_you: emptyTypeStatistics(),
+    },
+  };
+  const openDelays = new Map<EmailTypeStatistics, number[]>();
+
+  for (const record of records) {
+    const delivered = record.status === 'sent' || record.status === 'delivered';
+    const failed = record.status === 'failed' || record.status === 'bounced';
+
+    stats.totalSent++;
+    if (delivered) {
+      stats.delivered++;
+    } else if (failed) {
+      stats.failed++;
+    } else if (record.status === 'pending') {
+      stats.pending++;
+    }
+
+    if (record.openedAt) stats.opened++;
+    if (record.clickedAt) stats.clicked++;
+    if (record.spamReportedAt) stats.spamReports++;
+    if (record.unsubscribedAt) stats.unsubscribes++;
+
+    const typeStats = stats.byType[record.emailType as keyof typeof stats.byType];
+    if (!typeStats) {
+      continue;
+    }
+
+    typeStats.sent++;
+    if (delivered) {
+      typeStats.delivered++;
+    } else if (failed) {
+      typeStats.failed++;
+    }
+    if (record.openedAt) typeStats.opened++;
+    if (record.clickedAt) typeStats.clicked++;
+
+    const delay = minutesToOpen(record);
+    if (delay !== undefined) {
+      openDelays.set(typeStats, [...(openDelays.get(typeStats) ?? []), delay]);
+    }
+  }
+
+  stats.openRate = percentage(stats.opened, stats.delivered);
+  stats.clickRate = percentage(stats.clicked, stats.delivered);
+
+  for (const typeStats of Object.values(stats.byType)) {
+    typeStats.openRate = percentage(typeStats.opened, typeStats.delivered);
+    typeStats.clickRate = percentage(typeStats.clicked, typeStats.delivered);
+    const medianDelay = median(openDelays.get(typeStats) ?? []);
+    if (medianDelay !== undefined) {
+      typeStats.medianMinutesToOpen = Math.round(medianDelay);
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,39 @@
+import {
+  createUnsubscribeToken,
+  isEssentialEmail,
+  suppressionApplies,
+  verifyUnsubscribeToken,
+} from './email-suppression';
+
+describe('Email Suppression', () => {
+  it('should stop everything for bounces and spam reports but only optional mail for unsubscribes', () => {
+    expect(suppressionApplies('hard_bounce', true)).toBe(true);
+    expect(suppressionApplies('spam_report', true)).toBe(true);
+    expect(suppressionApplies('unsubscribed', false)).toBe(true);
+    expect(suppressionApplies('unsubscribed', true)).toBe(false);
+
+    expect(isEssentialEmail('invitation')).toBe(true);
+    expect(isEssentialEmail('rsvp_confirmation')).toBe(true);
+    expect(isEssentialEmail('reminder')).toBe(false);
+    expect(isEssentialEmail('thank_you')).toBe(false);
+  });
+
+  it('should round-trip unsubscribe tokens with a lowercased address', () => {
+    const token = createUnsubscribeToken('wedding-1', ' Guest@Example.com', 'secret');
+
+    expect(verifyUnsubscribeToken(token, 'secret')).toEqual({
+      weddingId: 'wedding-1',
+      email: 'guest@example.com',
+    });
+  });
+
+  it('should reject tampered tokens and tokens signed with another secret', () => {
+    const token = createUnsubscribeToken('wedding-1', 'guest@example.com', 'secret');
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from('wedding-2:guest@example.com').toString('base64url')}.${signature}`;
+
+    expect(verifyUnsubscribeToken(token, 'other-secret')).toBeNull();
+    expect(verifyUnsubscribeToken(forged, 'secret')).toBeNull();
+    expect(verifyUnsubscribeToken('not-a-token', 'secret')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Email suppression helpers.
+ *
+ * Hard bounces and spam reports stop all mail to an address. Unsubscribes
+ * stop non-essential mail only: the invitation and the guest's own RSVP
+ * confirmation still go out. Unsubscribe links carry a signed token, so the
+ * endpoint needs no login and no stored state.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { EmailSuppressionReason, EmailType } from '../types';
+
+/**
+ * Email types guests cannot unsubscribe from
+ */
+const ESSENTIAL_EMAIL_TYPES: ReadonlySet<EmailType> = new Set<EmailType>([
+  'invitation',
+  'rsvp_confirmation',
+  'update',
+]);
+
+/**
+ * Whether guests may still get this email type after unsubscribing
+ */
+export function isEssentialEmail(emailType: EmailType): boolean {
+  return ESSENTIAL_EMAIL_TYPES.has(emailType);
+}
+
+/**
+ * Whether a suppression stops an email
+ */
+export function suppressionApplies(reason: EmailSuppressionReason, essential: boolean): boolean {
+  return reason !== 'unsubscribed' || !essential;
+}
+
+/**
+ * Reason shown to the couple for a skipped guest
+ */
+export function describeSuppression(reason: EmailSuppressionReason): string {
+  switch (reason) {
+    case 'hard_bounce':
+      return 'Suppressed: the address bounced';
+    case 'spam_report':
+      return 'Suppressed: the guest reported an email as spam';
+    case 'unsubscribed':
+      return 'Suppressed: the guest unsubscribed';
+  }
+}
+
+/**
+ * Suppression lookups ignore case and surrounding whitespace
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Signed token identifying a wedding and address for the unsubscribe link
+ */
+export function createUnsubscribeToken(weddingId: string, email: string, secret: string): string {
+  const payload = Buffer.from(`${weddingId}:${normalizeEmail(email)}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Wedding and address from an unsubscribe token, or null if it was not signed with this secret
+ */
+export function verifyUnsubscribeToken(
+  token: string,
+  secret: string,
+): { weddingId: string; email: string } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const decoded = Buffer.from(payload, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0 || separator === decoded.length - 1) {
+    return null;
+  }
+
+  return { weddingId: decoded.slice(0, separator), email: decoded.slice(separator + 1) };
+}
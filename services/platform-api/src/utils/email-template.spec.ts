@@ -0,0 +1,78 @@
+import {
+  renderTemplate,
+  validateEmailTemplates,
+  validateTemplate,
+  type TemplateContext,
+} from './email-template';
+
+function context(overrides: Partial<TemplateContext['fields']> = {}): TemplateContext {
+  return {
+    fields: {
+      guest_name: 'Alice',
+      partner_names: 'John & Jane',
+      wedding_date: 'Sunday, June 15, 2025',
+      wedding_venue: 'Grand Ballroom',
+      wedding_city: 'New York',
+      rsvp_link: 'https://example.com/rsvp?token=abc',
+      rsvp_deadline: '',
+      table_name: 'Table 4',
+      meal_choice: '',
+      plus_one_names: 'Bob',
+      event_list: 'Ceremony, Reception',
+      ...overrides,
+    },
+    flags: { attending: true, not_attending: false, pending: false },
+    events: [
+      { event_name: 'Ceremony', event_date: 'June 15', event_time: '2:00 PM', event_venue: 'Chapel', event_city: 'New York' },
+      { event_name: 'Reception', event_date: 'June 15', event_time: '6:00 PM', event_venue: 'Ballroom', event_city: 'New York' },
+    ],
+  };
+}
+
+describe('Email Template', () => {
+  it('should render fields, conditions and event loops', () => {
+    const template =
+      'Hi {{guest_name}}!{{#if attending}} You are at {{table_name}}.{{else}} Sorry!{{/if}}' +
+      '{{#if meal_choice}} Meal: {{meal_choice}}{{else}} Pick a meal.{{/if}}' +
+      '{{#each events}} [{{event_name}} {{event_time}}]{{/each}}';
+
+    expect(validateTemplate(template)).toEqual([]);
+    expect(renderTemplate(template, context())).toBe(
+      'Hi Alice! You are at Table 4. Pick a meal. [Ceremony 2:00 PM] [Reception 6:00 PM]',
+    );
+  });
+
+  it('should escape the template and field values only when rendering HTML', () => {
+    const template = '<b>{{guest_name}}</b> & {{plus_one_names}}';
+    const values = context({ guest_name: '<script>x</script>', plus_one_names: "O'Neil" });
+
+    expect(renderTemplate(template, values)).toBe("<b><script>x</script></b> & O'Neil");
+    expect(renderTemplate(template, values, { escapeHtml: true })).toBe(
+      '&lt;b&gt;&lt;script&gt;x&lt;/script&gt;&lt;/b&gt; &amp; O&#39;Neil',
+    );
+  });
+
+  it('should report invalid tags and keep them as text when rendering', () => {
+    expect(validateTemplate('{{#if attending}}Yes')).toEqual(['{{#if attending}} is never closed']);
+    expect(validateTemplate('{{unknown}} {{event_name}} {{/each}} {{#each guests}}')).toEqual([
+      'Unknown merge field {{unknown}}',
+      '{{event_name}} can only be used inside {{#each events}}',
+      '{{/each}} has no matching {{#each}}',
+      '{{#each guests}} can only loop over events',
+    ]);
+    expect(validateTemplate('{{#if constructor}}Yes {{guest_name')).toHaveLength(2);
+
+    expect(renderTemplate('Hi {{guest_name}} {{unknown}}', context())).toBe('Hi Alice {{unknown}}');
+  });
+
+  it('should report which language variant a problem is in', () => {
+    const errors = validateEmailTemplates({
+      invitation: { subject: 'Hi {{guest_name}}', bodyText: 'Welcome' },
+      byLanguage: { es: { invitation: { subject: 'Hola {{nombre}}', bodyText: 'Bienvenido' } } },
+    });
+
+    expect(errors).toEqual([
+      { templateType: 'invitation', field: 'subject', language: 'es', message: 'Unknown merge field {{nombre}}' },
+    ]);
+  });
+});
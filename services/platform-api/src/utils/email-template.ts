@@ -0,0 +1,299 @@
+/**
+ * Email template language.
+ *
+ * Couples write templates as plain text with merge tags:
+ *   {{guest_name}}                          a field
+ *   {{#if attending}}...{{else}}...{{/if}}  a condition (flags, or any field that is not empty)
+ *   {{#each events}}{{event_name}}{{/each}} one copy per event the guest is invited to
+ *
+ * Templates are parsed, never evaluated, so they can only read the fields
+ * listed here. Rendering is lenient: a tag that fails validation is kept as
+ * literal text, so templates saved before a field existed still send.
+ */
+
+import type {
+  EmailTemplateContent,
+  EmailTemplateError,
+  EmailTemplateSet,
+  EmailTemplatesConfig,
+  EmailTemplateType,
+  SupportedLanguage,
+} from '../types';
+import { isSupportedLanguage } from './email-i18n';
+
+/**
+ * Email types a couple can customize
+ */
+export const EMAIL_TEMPLATE_TYPES: EmailTemplateType[] = [
+  'invitation',
+  'reminder',
+  'saveTheDate',
+  'thankYouAttended',
+  'thankYouNotAttended',
+];
+
+/**
+ * Fields available anywhere in a template
+ */
+export const TEMPLATE_FIELDS = [
+  'guest_name',
+  'partner_names',
+  'wedding_date',
+  'wedding_venue',
+  'wedding_city',
+  'rsvp_link',
+  'rsvp_deadline',
+  'table_name',
+  'meal_choice',
+  'plus_one_names',
+  'event_list',
+] as const;
+
+/**
+ * Fields available inside {{#each events}}
+ */
+export const TEMPLATE_EVENT_FIELDS = [
+  'event_name',
+  'event_date',
+  'event_time',
+  'event_venue',
+  'event_city',
+] as const;
+
+/**
+ * Yes/no conditions for {{#if}}, from the guest's RSVP
+ */
+export const TEMPLATE_FLAGS = ['attending', 'not_attending', 'pending'] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+export type TemplateEventField = (typeof TEMPLATE_EVENT_FIELDS)[number];
+export type TemplateFlag = (typeof TEMPLATE_FLAGS)[number];
+
+/**
+ * Everything a template can read for one guest
+ */
+export interface TemplateContext {
+  fields: Record<TemplateField, string>;
+  flags: Record<TemplateFlag, boolean>;
+  events: Array<Record<TemplateEventField, string>>;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; body: TemplateNode[] };
+
+interface OpenBlock {
+  kind: 'if' | 'each' | 'root';
+  tag: string;
+  node?: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  /** Where new nodes go: the root, an each body, or an if branch */
+  target: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const NAME_PATTERN = /^[a-z_]+$/;
+
+function isKnown<T extends string>(list: readonly T[], name: string): name is T {
+  return (list as readonly string[]).includes(name);
+}
+
+/**
+ * Parse a template into nodes, collecting a message for every tag that is not valid
+ */
+function parseTemplate(source: string): { nodes: TemplateNode[]; errors: string[] } {
+  const nodes: TemplateNode[] = [];
+  const errors: string[] = [];
+  const stack: OpenBlock[] = [{ kind: 'root', tag: '', target: nodes }];
+  const current = () => stack[stack.length - 1];
+  const insideEach = () => stack.some((block) => block.kind === 'each');
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    if (value.includes('{{')) {
+      errors.push(`"${value.slice(value.indexOf('{{')).slice(0, 20)}" is missing its closing }}`);
+    }
+    current().target.push({ type: 'text', value });
+  };
+  const invalid = (raw: string, message: string) => {
+    errors.push(message);
+    current().target.push({ type: 'text', value: raw });
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(source.slice(position, index));
+    position = index + match[0].length;
+
+    const raw = match[0];
+    const tag = match[1].trim();
+    const [keyword, argument, ...extra] = tag.split(/\s+/);
+
+    if (keyword === '#if') {
+      const known = argument !== undefined && extra.length === 0 && (
+        isKnown(TEMPLATE_FLAGS, argument) ||
+        isKnown(TEMPLATE_FIELDS, argument) ||
+        (insideEach() && isKnown(TEMPLATE_EVENT_FIELDS, argument))
+      );
+      if (!known) {
+        invalid(raw, `Unknown condition in ${raw}`);
+        continue;
+      }
+      const node: TemplateNode = { type: 'if', name: argument, then: [], otherwise: [] };
+      current().target.push(node);
+      stack.push({ kind: 'if', tag: raw, node, target: node.then });
+    } else if (keyword === '#each') {
+      if (argument !== 'events' || extra.length > 0) {
+        invalid(raw, `${raw} can only loop over events`);
+        continue;
+      }
+      if (insideEach()) {
+        invalid(raw, `${raw} cannot be placed inside another {{#each}}`);
+        continue;
+      }
+      const node: TemplateNode = { type: 'each', body: [] };
+      current().target.push(node);
+      stack.push({ kind: 'each', tag: raw, node, target: node.body });
+    } else if (tag === 'else') {
+      const block = current();
+      if (block.kind !== 'if' || block.node?.type !== 'if' || block.target === block.node.otherwise) {
+        invalid(raw, '{{else}} must be inside an {{#if}} block, once');
+        continue;
+      }
+      block.target = block.node.otherwise;
+    } else if (tag === '/if' || tag === '/each') {
+      const kind = tag.slice(1);
+      if (current().kind !== kind) {
+        invalid(raw, `${raw} has no matching {{#${kind}}}`);
+        continue;
+      }
+      stack.pop();
+    } else if (NAME_PATTERN.test(tag)) {
+      if (isKnown(TEMPLATE_EVENT_FIELDS, tag) && !insideEach()) {
+        invalid(raw, `${raw} can only be used inside {{#each events}}`);
+      } else if (!isKnown(TEMPLATE_FIELDS, tag) && !isKnown(TEMPLATE_EVENT_FIELDS, tag)) {
+        invalid(raw, `Unknown merge field ${raw}`);
+      } else {
+        current().target.push({ type: 'field', name: tag });
+      }
+    } else {
+      invalid(raw, `Unrecognized tag ${raw}`);
+    }
+  }
+  pushText(source.slice(position));
+
+  // Blocks left open run to the end of the template
+  for (const block of stack.slice(1).reverse()) {
+    errors.push(`${block.tag} is never closed`);
+  }
+
+  return { nodes, errors };
+}
+
+/**
+ * Problems with a template, empty when it is valid
+ */
+export function validateTemplate(source: string): string[] {
+  return parseTemplate(source).errors;
+}
+
+/**
+ * Problems with every part of a set of custom email templates, empty when all are valid
+ * Language variants are checked too; unsupported language keys are skipped.
+ */
+export function validateEmailTemplates(templates: EmailTemplatesConfig): EmailTemplateError[] {
+  const variants = Object.entries(templates.byLanguage ?? {}).flatMap(([language, set]) =>
+    isSupportedLanguage(language) && set ? validateTemplateSet(set, language) : [],
+  );
+  return [...validateTemplateSet(templates), ...variants];
+}
+
+function validateTemplateSet(
+  templates: EmailTemplateSet,
+  language?: SupportedLanguage,
+): EmailTemplateError[] {
+  const fields: Array<keyof EmailTemplateContent> = ['subject', 'greeting', 'bodyText', 'closing'];
+  return EMAIL_TEMPLATE_TYPES.flatMap((templateType) =>
+    fields.flatMap((field) => {
+      const value = templates[templateType]?.[field];
+      return typeof value === 'string'
+        ? validateTemplate(value).map((message) => ({
+            templateType,
+            field,
+            ...(language ? { language } : {}),
+            message,
+          }))
+        : [];
+    }),
+  );
+}
+
+/**
+ * The custom template a guest gets: their language's variant, else the default one
+ */
+export function selectEmailTemplate(
+  templates: EmailTemplatesConfig | undefined,
+  templateType: EmailTemplateType,
+  language: SupportedLanguage,
+): EmailTemplateContent | undefined {
+  return templates?.byLanguage?.[language]?.[templateType] ?? templates?.[templateType];
+}
+
+/**
+ * Escape text before placing it in email HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a template for one guest
+ * With escapeHtml set, the couple's text and every field value are escaped for HTML.
+ */
+export function renderTemplate(
+  source: string,
+  context: TemplateContext,
+  options: { escapeHtml?: boolean } = {},
+): string {
+  const output = (value: string) => (options.escapeHtml ? escapeHtml(value) : value);
+
+  const render = (nodes: TemplateNode[], event?: Record<TemplateEventField, string>): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return output(node.value);
+          case 'field':
+            return output(lookup(context, node.name, event));
+          case 'if': {
+            const value = isKnown(TEMPLATE_FLAGS, node.name)
+              ? context.flags[node.name]
+              : lookup(context, node.name, event).trim() !== '';
+            return render(value ? node.then : node.otherwise, event);
+          }
+          case 'each':
+            return context.events.map((item) => render(node.body, item)).join('');
+        }
+      })
+      .join('');
+
+  return render(parseTemplate(source).nodes);
+}
+
+function lookup(
+  context: TemplateContext,
+  name: string,
+  event: Record<TemplateEventField, string> | undefined,
+): string {
+  if (isKnown(TEMPLATE_EVENT_FIELDS, name)) {
+    return event?.[name] ?? '';
+  }
+  return isKnown(TEMPLATE_FIELDS, name) ? context.fields[name] : '';
+}
@@ -0,0 +1,56 @@
+import { matchesSegment, parseSegmentRules, segmentEmailStatus } from './guest-segments';
+import type { Guest } from '../types';
+
+function guest(overrides: Partial<Guest>): Guest {
+  return {
+    id: 'guest-1',
+    weddingId: 'wedding-1',
+    name: 'Guest',
+    email: 'guest@example.com',
+    partySize: 1,
+    rsvpStatus: 'pending',
+    createdAt: '2026-05-01T10:00:00.000Z',
+    updatedAt: '2026-05-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Guest Segments', () => {
+  it('should require every rule that is set and any value within a rule', () => {
+    const rules = {
+      rsvpStatuses: ['pending' as const],
+      tagIds: ['family', 'friends'],
+      inviteSent: true,
+    };
+
+    expect(matchesSegment(guest({ tagIds: ['friends'], inviteSentAt: '2026-05-01' }), rules, 'delivered')).toBe(true);
+    expect(matchesSegment(guest({ tagIds: ['work'], inviteSentAt: '2026-05-01' }), rules, 'delivered')).toBe(false);
+    expect(matchesSegment(guest({ tagIds: ['family'] }), rules, 'not_sent')).toBe(false);
+    expect(
+      matchesSegment(guest({ tagIds: ['family'], inviteSentAt: '2026-05-01', rsvpStatus: 'attending' }), rules, 'opened'),
+    ).toBe(false);
+    expect(matchesSegment(guest({}), {}, 'not_sent')).toBe(true);
+  });
+
+  it('should treat guests without event assignments as invited to every event', () => {
+    const everyEvent = guest({});
+    const ceremonyOnly = guest({ invitedEventIds: ['ceremony'] });
+
+    expect(matchesSegment(everyEvent, { invitedEventIds: ['rehearsal'] }, 'not_sent')).toBe(true);
+    expect(matchesSegment(ceremonyOnly, { invitedEventIds: ['rehearsal'] }, 'not_sent')).toBe(false);
+    expect(matchesSegment(everyEvent, { notInvitedEventIds: ['rehearsal'] }, 'not_sent')).toBe(false);
+    expect(matchesSegment(ceremonyOnly, { notInvitedEventIds: ['rehearsal'] }, 'not_sent')).toBe(true);
+  });
+
+  it('should match on the invitation email status and reject malformed rules', () => {
+    expect(segmentEmailStatus(undefined)).toBe('not_sent');
+    expect(segmentEmailStatus({ status: 'sent' })).toBe('delivered');
+    expect(segmentEmailStatus({ status: 'delivered', openedAt: '2026-05-01T11:00:00.000Z' })).toBe('opened');
+    expect(matchesSegment(guest({}), { emailStatuses: ['bounced'] }, segmentEmailStatus({ status: 'bounced' }))).toBe(true);
+
+    expect(parseSegmentRules({ rsvpStatuses: ['pending'], unknown: 1 })).toEqual({ rsvpStatuses: ['pending'] });
+    expect(parseSegmentRules({ rsvpStatuses: ['maybe'] })).toBeNull();
+    expect(parseSegmentRules({ inviteSent: 'yes' })).toBeNull();
+    expect(parseSegmentRules([])).toBeNull();
+  });
+});
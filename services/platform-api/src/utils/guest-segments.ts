@@ -0,0 +1,142 @@
+/**
+ * Guest segment helpers.
+ *
+ * A segment is a saved set of rules rather than a list of guests, so it is
+ * evaluated each time it is used: a reminder scheduled for "guests who haven't
+ * responded" skips anyone who RSVP'd in the meantime. Every rule that is set
+ * must match; a list rule matches if any of its values does.
+ */
+
+import type {
+  EmailOutbox,
+  Guest,
+  GuestSegmentRules,
+  RsvpStatus,
+  SegmentEmailStatus,
+} from '../types';
+
+const RSVP_STATUSES: readonly RsvpStatus[] = ['pending', 'attending', 'not_attending'];
+
+const SEGMENT_EMAIL_STATUSES: readonly SegmentEmailStatus[] = [
+  'not_sent',
+  'pending',
+  'delivered',
+  'opened',
+  'bounced',
+  'failed',
+];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isListOf<T extends string>(value: unknown, allowed: readonly T[]): value is T[] {
+  return isStringList(value) && value.every((item) => (allowed as readonly string[]).includes(item));
+}
+
+/**
+ * Check segment rules from a request, keeping only the known rules
+ * Returns null if any rule has the wrong shape.
+ */
+export function parseSegmentRules(input: unknown): GuestSegmentRules | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return null;
+  }
+  const raw = input as Record<string, unknown>;
+  const rules: GuestSegmentRules = {};
+
+  if (raw.rsvpStatuses !== undefined) {
+    if (!isListOf(raw.rsvpStatuses, RSVP_STATUSES)) return null;
+    rules.rsvpStatuses = raw.rsvpStatuses;
+  }
+  if (raw.tagIds !== undefined) {
+    if (!isStringList(raw.tagIds)) return null;
+    rules.tagIds = raw.tagIds;
+  }
+  if (raw.invitedEventIds !== undefined) {
+    if (!isStringList(raw.invitedEventIds)) return null;
+    rules.invitedEventIds = raw.invitedEventIds;
+  }
+  if (raw.notInvitedEventIds !== undefined) {
+    if (!isStringList(raw.notInvitedEventIds)) return null;
+    rules.notInvitedEventIds = raw.notInvitedEventIds;
+  }
+  if (raw.inviteSent !== undefined && raw.inviteSent !== null) {
+    if (typeof raw.inviteSent !== 'boolean') return null;
+    rules.inviteSent = raw.inviteSent;
+  }
+  if (raw.emailStatuses !== undefined) {
+    if (!isListOf(raw.emailStatuses, SEGMENT_EMAIL_STATUSES)) return null;
+    rules.emailStatuses = raw.emailStatuses;
+  }
+
+  return rules;
+}
+
+/**
+ * Where an invitation email stands, from the guest's latest invitation outbox record
+ */
+export function segmentEmailStatus(
+  record: Pick<EmailOutbox, 'status' | 'openedAt'> | undefined,
+): SegmentEmailStatus {
+  if (!record) {
+    return 'not_sent';
+  }
+  if (record.openedAt) {
+    return 'opened';
+  }
+  switch (record.status) {
+    case 'sent':
+    case 'delivered':
+      return 'delivered';
+    default:
+      return record.status;
+  }
+}
+
+/**
+ * Whether a guest is invited to an event
+ * Guests without invitedEventIds are invited to every event.
+ */
+export function isInvitedToEvent(guest: Guest, eventId: string): boolean {
+  if (!guest.invitedEventIds || guest.invitedEventIds.length === 0) {
+    return true;
+  }
+  return guest.invitedEventIds.includes(eventId);
+}
+
+/**
+ * Whether a guest is in a segment
+ * @param emailStatus where the guest's invitation email stands
+ */
+export function matchesSegment(
+  guest: Guest,
+  rules: GuestSegmentRules,
+  emailStatus: SegmentEmailStatus,
+): boolean {
+  if (rules.rsvpStatuses?.length && !rules.rsvpStatuses.includes(guest.rsvpStatus)) {
+    return false;
+  }
+  if (rules.tagIds?.length && !guest.tagIds?.some((tagId) => rules.tagIds!.includes(tagId))) {
+    return false;
+  }
+  if (
+    rules.invitedEventIds?.length &&
+    !rules.invitedEventIds.some((eventId) => isInvitedToEvent(guest, eventId))
+  ) {
+    return false;
+  }
+  if (
+    rules.notInvitedEventIds?.length &&
+    rules.notInvitedEventIds.some((eventId) => isInvitedToEvent(guest, eventId))
+  ) {
+    return false;
+  }
+  if (rules.inviteSent !== undefined && Boolean(guest.inviteSentAt) !== rules.inviteSent) {
+    return false;
+  }
+  if (rules.emailStatuses?.length && !rules.emailStatuses.includes(emailStatus)) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,170 @@
+import {
+  buildGoogleCalendarUrl,
+  buildIcsCalendar,
+  buildOutlookCalendarUrl,
+  buildYahooCalendarUrl,
+  getCalendarEvents,
+  getGuestCalendarEvents,
+  MAIN_EVENT_ID,
+} from './ics';
+import type { Guest, Wedding } from '../types';
+
+const wedding: Pick<Wedding, 'id' | 'eventDetails'> = {
+  id: 'wedding-1',
+  eventDetails: {
+    date: '2026-06-20',
+    startTime: '16:00',
+    endTime: '23:00',
+    venue: 'Rose Hall',
+    address: '1 Garden Way',
+    city: 'Lisbon',
+    timezone: 'Europe/Lisbon',
+    events: [
+      {
+        id: 'reception',
+        type: 'reception',
+        name: 'Reception',
+        date: '2026-06-20',
+        startTime: '18:00',
+        endTime: '23:00',
+        venue: 'Rose Hall',
+        address: '1 Garden Way',
+        city: 'Lisbon',
+        order: 2,
+      },
+      {
+        id: 'ceremony',
+        type: 'ceremony',
+        name: 'Ceremony',
+        date: '2026-06-20',
+        startTime: '16:00',
+        endTime: '17:00',
+        venue: 'St. Mary, Chapel; East',
+        address: '2 Church St',
+        city: 'Lisbon',
+        timezone: 'Europe/Madrid',
+        order: 1,
+      },
+    ],
+  },
+};
+
+function guest(overrides: Partial<Guest>): Guest {
+  return {
+    id: 'guest-1',
+    weddingId: 'wedding-1',
+    name: 'Guest',
+    email: 'guest@example.com',
+    partySize: 1,
+    rsvpStatus: 'pending',
+    createdAt: '2026-05-01T10:00:00.000Z',
+    updatedAt: '2026-05-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ICS', () => {
+  it('should list the events in order and only those a guest is invited to', () => {
+    const events = getCalendarEvents(wedding, "Alex & Sam's Wedding", 'Join us');
+
+    expect(events.map((event) => event.id)).toEqual(['ceremony', 'reception']);
+    expect(events[0]).toMatchObject({ title: "Ceremony - Alex & Sam's Wedding", timezone: 'Europe/Madrid' });
+    expect(events[1].timezone).toBe('Europe/Lisbon');
+    expect(getGuestCalendarEvents(guest({ invitedEventIds: ['reception'] }), events).map((e) => e.id)).toEqual([
+      'reception',
+    ]);
+    expect(getGuestCalendarEvents(guest({}), events)).toHaveLength(2);
+
+    const single = getCalendarEvents({ ...wedding, eventDetails: { ...wedding.eventDetails!, events: [] } }, 'Wedding', '');
+    expect(single.map((event) => event.id)).toEqual([MAIN_EVENT_ID]);
+  });
+
+  it('should give each guest stable UIDs and mark cancellations', () => {
+    const events = getCalendarEvents(wedding, 'Wedding', 'Join us');
+    const first = buildIcsCalendar(events, { guestId: 'guest-1', now: new Date('2026-05-01T10:00:00Z') });
+    const second = buildIcsCalendar(events, { guestId: 'guest-1', now: new Date('2026-05-02T10:00:00Z') });
+    const cancel = buildIcsCalendar(events.slice(0, 1), {
+      method: 'CANCEL',
+      guestId: 'guest-1',
+      now: new Date('2026-05-03T10:00:00Z'),
+    });
+
+    const uids = (ics: string) => ics.match(/^UID:.*$/gm);
+    const sequence = (ics: string) => Number(ics.match(/^SEQUENCE:(\d+)/m)![1]);
+
+    expect(uids(first)).toEqual([
+      'UID:wedding-1.ceremony.guest-1@wedding-bestie',
+      'UID:wedding-1.reception.guest-1@wedding-bestie',
+    ]);
+    expect(uids(second)).toEqual(uids(first));
+    expect(sequence(second)).toBeGreaterThan(sequence(first));
+    expect(first).toContain('METHOD:PUBLISH\r\n');
+    expect(first).toContain('DTSTART;TZID=Europe/Madrid:20260620T160000\r\n');
+    expect(first).toContain('LOCATION:St. Mary\\, Chapel\\; East\\, 2 Church St\\, Lisbon\r\n');
+
+    expect(cancel).toContain('METHOD:CANCEL\r\n');
+    expect(cancel).toContain('STATUS:CANCELLED\r\n');
+    expect(uids(cancel)).toEqual(['UID:wedding-1.ceremony.guest-1@wedding-bestie']);
+  });
+
+  it('should name the organizer and attendee on emailed copies, so a CANCEL removes the invite', () => {
+    const [ceremony] = getCalendarEvents(wedding, 'Wedding', 'Join us');
+    const participants = {
+      guestId: 'guest-1',
+      organizer: { email: 'invites@example.com', name: 'Alex & Sam' },
+      attendee: { email: 'jane@example.com', name: 'Jane "JD" Doe' },
+    };
+    const invite = buildIcsCalendar([ceremony], participants);
+    const cancel = buildIcsCalendar([ceremony], { ...participants, method: 'CANCEL' });
+    const uid = (ics: string) => ics.match(/^UID:.*$/m)![0];
+    const unfolded = (ics: string) => ics.replace(/\r\n /g, '');
+
+    expect(uid(cancel)).toBe(uid(invite));
+    for (const ics of [invite, cancel]) {
+      expect(ics).toContain('ORGANIZER;CN="Alex & Sam":mailto:invites@example.com\r\n');
+      expect(unfolded(ics)).toContain(
+        'ATTENDEE;CN="Jane JD Doe";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE:mailto:jane@example.com\r\n',
+      );
+    }
+
+    // Feeds and site downloads have no recipient
+    expect(buildIcsCalendar([ceremony])).not.toMatch(/^(ORGANIZER|ATTENDEE)/m);
+  });
+
+  it('should describe each time zone the events use', () => {
+    const ics = buildIcsCalendar(getCalendarEvents(wedding, 'Wedding', ''));
+    const madrid = ics.slice(ics.indexOf('TZID:Europe/Madrid'), ics.indexOf('END:VTIMEZONE'));
+
+    expect(ics.match(/^BEGIN:VTIMEZONE/gm)).toHaveLength(2);
+    expect(madrid).toContain(
+      'BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200\r\nEND:DAYLIGHT',
+    );
+    expect(madrid).toContain(
+      'BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100\r\nEND:STANDARD',
+    );
+
+    const noZone = { ...wedding, eventDetails: { ...wedding.eventDetails!, timezone: undefined, events: [] } };
+    expect(buildIcsCalendar(getCalendarEvents(noZone, 'Wedding', ''))).toContain(
+      'TZID:UTC\r\nBEGIN:STANDARD\r\nDTSTART:19700101T000000\r\nTZOFFSETFROM:+0000\r\nTZOFFSETTO:+0000',
+    );
+  });
+
+  it('should build add-to-calendar links in venue time', () => {
+    const [ceremony, reception] = getCalendarEvents(wedding, 'Wedding', 'Join us');
+    const overnight = { ...reception, endTime: '01:00' };
+
+    expect(buildGoogleCalendarUrl(ceremony)).toContain('dates=20260620T160000%2F20260620T170000&ctz=Europe%2FMadrid');
+    expect(buildOutlookCalendarUrl(ceremony)).toContain('startdt=2026-06-20T14%3A00%3A00.000Z&enddt=2026-06-20T15%3A00%3A00.000Z');
+    expect(buildYahooCalendarUrl(overnight)).toContain('st=20260620T170000Z&et=20260621T000000Z');
+    expect(buildIcsCalendar([overnight])).toContain('DTEND;TZID=Europe/Lisbon:20260621T010000');
+  });
+
+  it('should fold long lines without splitting characters', () => {
+    const [event] = getCalendarEvents(wedding, 'Wedding', 'é'.repeat(60));
+    const ics = buildIcsCalendar([event]);
+    const lines = ics.split('\r\n');
+
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * iCalendar (RFC 5545) helpers for calendar invites.
+ *
+ * Every entry has a stable UID built from the wedding, the event and, for
+ * emailed invites, the guest. Sending an invite again updates the entry already
+ * in the guest's calendar instead of adding a second one, and a CANCEL with the
+ * same UID removes it. Weddings without an events list have a single event for
+ * their top-level event details.
+ *
+ * Times are wall-clock times at the venue. Each calendar carries a VTIMEZONE
+ * for every zone it uses, built from the runtime's time zone data, so clients
+ * place events correctly without knowing the IANA name.
+ */
+
+import type { Guest, Wedding } from '../types';
+import { isInvitedToEvent } from './guest-segments';
+import { addDays, timeZoneOffset, zonedTimeToUtc } from './rsvp-deadline';
+import { getEventTimeZone, getWeddingTimeZone } from './wedding-time-zone';
+
+/**
+ * Event ID of the single event of weddings without an events list
+ */
+export const MAIN_EVENT_ID = 'main';
+
+/**
+ * Calendars order updates of an entry by SEQUENCE. Seconds since this date
+ * grow with every send, so the newest copy always wins without storing a count.
+ */
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+
+/**
+ * Content lines longer than this many octets are folded
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * How often subscribed calendars should check the feed for changes
+ */
+const FEED_REFRESH_INTERVAL = 'PT6H';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Offset changes are searched for week by week; zones never change twice in one week
+ */
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+/**
+ * One calendar entry
+ */
+export interface CalendarEvent {
+  /** Wedding event ID, or MAIN_EVENT_ID */
+  id: string;
+  /** Stable across sends; the recipient's ID is added for personal copies */
+  uid: string;
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM, local to timezone */
+  startTime: string;
+  /** HH:MM, local to timezone; an end before the start is on the next day */
+  endTime: string;
+  location: string;
+  description: string;
+  /** IANA time zone of the venue */
+  timezone: string;
+}
+
+/**
+ * PUBLISH adds or updates entries; CANCEL removes them
+ */
+export type IcsMethod = 'PUBLISH' | 'CANCEL';
+
+/**
+ * A calendar user, written as a mailto: address
+ */
+export interface IcsParticipant {
+  email: string;
+  name?: string;
+}
+
+export interface IcsOptions {
+  method?: IcsMethod;
+  /** Recipient of a personal copy */
+  guestId?: string;
+  /**
+   * Sender and recipient of an emailed copy, written on every entry
+   * Calendar apps ignore a CANCEL that does not name its organizer and attendee.
+   */
+  organizer?: IcsParticipant;
+  attendee?: IcsParticipant;
+  /** When the calendar is generated */
+  now?: Date;
+  /** Name of a subscribable feed, shown by calendar apps */
+  feedName?: string;
+}
+
+/**
+ * A change of UTC offset in a time zone
+ */
+interface OffsetTransition {
+  /** UTC instant of the change, in milliseconds */
+  at: number;
+  /** Offsets before and after, in milliseconds */
+  from: number;
+  to: number;
+}
+
+/**
+ * The wedding's events as calendar entries, in timeline order
+ * @param title Calendar title of the wedding; events of a multi-event wedding
+ *   are titled "<event name> - <title>"
+ * @param description Description shared by every entry
+ */
+export function getCalendarEvents(
+  wedding: Pick<Wedding, 'id' | 'timezone' | 'eventDetails'>,
+  title: string,
+  description: string,
+): CalendarEvent[] {
+  const details = wedding.eventDetails;
+  if (!details) {
+    return [];
+  }
+
+  if (details.events && details.events.length > 0) {
+    return [...details.events]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((event) => ({
+        id: event.id,
+        uid: `${wedding.id}.${event.id}`,
+        title: `${event.name} - ${title}`,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        location: `${event.venue}, ${event.address}, ${event.city}`,
+        description,
+        timezone: getEventTimeZone(wedding, event),
+      }));
+  }
+
+  if (!details.date || !details.startTime || !details.endTime) {
+    return [];
+  }
+  return [
+    {
+      id: MAIN_EVENT_ID,
+      uid: `${wedding.id}.${MAIN_EVENT_ID}`,
+      title,
+      date: details.date,
+      startTime: details.startTime,
+      endTime: details.endTime,
+      location: `${details.venue}, ${details.address}, ${details.city}`,
+      description,
+      timezone: getWeddingTimeZone(wedding),
+    },
+  ];
+}
+
+/**
+ * The entries a guest is invited to (per invitedEventIds)
+ */
+export function getGuestCalendarEvents(guest: Guest, events: CalendarEvent[]): CalendarEvent[] {
+  return events.filter((event) => event.id === MAIN_EVENT_ID || isInvitedToEvent(guest, event.id));
+}
+
+/**
+ * Build an iCalendar file with one VEVENT per entry
+ */
+export function buildIcsCalendar(events: CalendarEvent[], options: IcsOptions = {}): string {
+  const method = options.method ?? 'PUBLISH';
+  const now = options.now ?? new Date();
+  const timestamp = formatUtcDateTime(now.getTime());
+  const sequence = Math.max(0, Math.floor((now.getTime() - SEQUENCE_EPOCH) / 1000));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Wedding Bestie//Calendar Invite//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+  if (options.feedName) {
+    lines.push(
+      `X-WR-CALNAME:${escapeIcsText(options.feedName)}`,
+      `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    );
+  }
+
+  const zones = new Map<string, number[]>();
+  for (const event of events) {
+    const years = zones.get(event.timezone) ?? [];
+    years.push(Number(event.date.slice(0, 4)));
+    zones.set(event.timezone, years);
+  }
+  for (const [timeZone, years] of zones) {
+    lines.push(...buildVTimezone(timeZone, Math.min(...years), Math.max(...years)));
+  }
+
+  for (const event of events) {
+    const uid = options.guestId ? `${event.uid}.${options.guestId}` : event.uid;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}@wedding-bestie`,
+      `SEQUENCE:${sequence}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART;TZID=${event.timezone}:${formatLocalDateTime(event.date, event.startTime)}`,
+      `DTEND;TZID=${event.timezone}:${formatLocalDateTime(endDate(event), event.endTime)}`,
+      `SUMMARY:${escapeIcsText(event.title)}`,
+      `DESCRIPTION:${escapeIcsText(event.description)}`,
+      `LOCATION:${escapeIcsText(event.location)}`,
+      `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:OPAQUE',
+    );
+    if (options.organizer) {
+      lines.push(`ORGANIZER${formatCommonName(options.organizer)}:mailto:${options.organizer.email}`);
+    }
+    if (options.attendee) {
+      // Guests RSVP on the wedding site, not by replying from their calendar
+      lines.push(
+        `ATTENDEE${formatCommonName(options.attendee)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE:mailto:${options.attendee.email}`,
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * "Add to calendar" link for Google Calendar
+ * Google reads the wall-clock times in the event's zone (ctz).
+ */
+export function buildGoogleCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${formatLocalDateTime(event.date, event.startTime)}/${formatLocalDateTime(endDate(event), event.endTime)}`,
+    ctz: event.timezone,
+    location: event.location,
+    details: event.description,
+  });
+  return `https://www.google.com/calendar/render?${params.toString()}`;
+}
+
+/**
+ * "Add to calendar" link for Outlook.com
+ */
+export function buildOutlookCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: zonedTimeToUtc(event.date, event.startTime, event.timezone).toISOString(),
+    enddt: zonedTimeToUtc(endDate(event), event.endTime, event.timezone).toISOString(),
+    location: event.location,
+    body: event.description,
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+}
+
+/**
+ * "Add to calendar" link for Yahoo Calendar
+ */
+export function buildYahooCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    v: '60',
+    title: event.title,
+    st: formatUtcDateTime(zonedTimeToUtc(event.date, event.startTime, event.timezone).getTime()),
+    et: formatUtcDateTime(zonedTimeToUtc(endDate(event), event.endTime, event.timezone).getTime()),
+    in_loc: event.location,
+    desc: event.description,
+  });
+  return `https://calendar.yahoo.com/?${params.toString()}`;
+}
+
+/**
+ * VTIMEZONE for a zone, covering the years the events fall in
+ * Lists every offset change from the year before the first event (so events
+ * early in a year have the previous change to go by) to the end of the last.
+ */
+function buildVTimezone(timeZone: string, firstYear: number, lastYear: number): string[] {
+  const start = Date.UTC(firstYear - 1, 0, 1);
+  const end = Date.UTC(lastYear + 1, 0, 1);
+  const transitions = findOffsetTransitions(timeZone, start, end);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(timeZoneOffset(new Date(start), timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+    );
+  } else {
+    // Offsets above the zone's lowest one are daylight saving time
+    const standardOffset = Math.min(...transitions.flatMap((transition) => [transition.from, transition.to]));
+    for (const transition of transitions) {
+      const component = transition.to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${component}`,
+        // Onsets are written in the local time before the change
+        `DTSTART:${formatUtcDateTime(transition.at + transition.from).slice(0, -1)}`,
+        `TZOFFSETFROM:${formatUtcOffset(transition.from)}`,
+        `TZOFFSETTO:${formatUtcOffset(transition.to)}`,
+        `END:${component}`,
+      );
+    }
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Every change of UTC offset in a zone between two instants, to the minute
+ */
+function findOffsetTransitions(timeZone: string, start: number, end: number): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let previous = timeZoneOffset(new Date(start), timeZone);
+
+  for (let from = start; from < end; from += WEEK_MS) {
+    const to = Math.min(from + WEEK_MS, end);
+    const offset = timeZoneOffset(new Date(to), timeZone);
+    if (offset === previous) {
+      continue;
+    }
+
+    // Narrow down to the first minute with the new offset
+    let before = from;
+    let after = to;
+    while (after - before > MINUTE_MS) {
+      const middle = before + Math.max(MINUTE_MS, Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS);
+      if (timeZoneOffset(new Date(middle), timeZone) === previous) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    transitions.push({ at: after, from: previous, to: offset });
+    previous = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Milliseconds to an ICS UTC offset (+HHMM / -HHMM)
+ */
+function formatUtcOffset(offset: number): string {
+  const minutes = Math.round(Math.abs(offset) / MINUTE_MS);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * UTC milliseconds to an ICS UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+function formatUtcDateTime(instant: number): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Date the event ends on: events ending at or before their start time run past midnight
+ */
+function endDate(event: CalendarEvent): string {
+  return event.endTime <= event.startTime ? addDays(event.date, 1) : event.date;
+}
+
+/**
+ * YYYY-MM-DD and HH:MM to an ICS local date-time (YYYYMMDDTHHMMSS)
+ */
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * CN parameter for a participant's name, quoted so it may hold commas and colons
+ */
+function formatCommonName(participant: IcsParticipant): string {
+  const name = participant.name?.replace(/["\r\n]/g, '').trim();
+  return name ? `;CN="${name}"` : '';
+}
+
+/**
+ * Escape text values (backslash, comma, semicolon, newline)
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line is longer than 75 octets
+ * Continuation lines start with a space; multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
@@ -0,0 +1,55 @@
+import {
+  levenshtein,
+  matchName,
+  nameTokens,
+  normalizeName,
+  normalizePostalCode,
+} from './name-match';
+
+describe('Name Matching Utilities', () => {
+  describe('normalizeName', () => {
+    it('should strip accents, punctuation and case', () => {
+      expect(normalizeName('  José  O’Brien-Núñez ')).toBe('jose obrien nunez');
+    });
+  });
+
+  describe('nameTokens', () => {
+    it('should return no tokens for blank input', () => {
+      expect(nameTokens('  ...  ')).toEqual([]);
+    });
+  });
+
+  describe('levenshtein', () => {
+    it('should count single edits', () => {
+      expect(levenshtein('katherine', 'katharine')).toBe(1);
+      expect(levenshtein('smith', 'smyth')).toBe(1);
+      expect(levenshtein('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('matchName', () => {
+    it('should match typed words in any order', () => {
+      expect(matchName('smith jane', 'Jane Smith')).toBe('exact');
+      expect(matchName('jane', 'Jane Smith')).toBe('exact');
+    });
+
+    it('should tolerate small misspellings in longer words', () => {
+      expect(matchName('Katharine Jonson', 'Katherine Johnson')).toBe('fuzzy');
+    });
+
+    it('should require short words to match exactly', () => {
+      expect(matchName('Jon', 'Jim Smith')).toBeNull();
+      expect(matchName('Ann', 'Amy Lee')).toBeNull();
+    });
+
+    it('should not reuse one word of the name for two typed words', () => {
+      expect(matchName('Jane Jane', 'Jane Smith')).toBeNull();
+    });
+  });
+
+  describe('normalizePostalCode', () => {
+    it('should ignore case and spacing', () => {
+      expect(normalizePostalCode('sw1a 1aa')).toBe(normalizePostalCode('SW1A1AA'));
+    });
+  });
+});
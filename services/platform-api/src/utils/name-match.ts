@@ -0,0 +1,106 @@
+/**
+ * Guest name matching for the invitation lookup.
+ *
+ * Guests type their own name, so spelling, accents, capitalization and
+ * punctuation rarely line up with the guest list exactly. Names are compared
+ * token by token: every word the guest typed has to match a different word of
+ * the guest's name, either exactly or within a small edit distance.
+ */
+
+export type NameMatchKind = 'exact' | 'fuzzy';
+
+/**
+ * Allowed edit distance for a word of this length (short words must match exactly)
+ */
+function allowedDistance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a name into normalized words
+ */
+export function nameTokens(value: string): string[] {
+  const normalized = normalizeName(value);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Match what a guest typed against a name on the guest list.
+ * Returns 'exact' when every typed word appears in the name, 'fuzzy' when
+ * every typed word is a near miss of a different word, or null otherwise.
+ */
+export function matchName(query: string, candidate: string): NameMatchKind | null {
+  const queryTokens = nameTokens(query);
+  const candidateTokens = nameTokens(candidate);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) {
+    return null;
+  }
+
+  const used = new Set<number>();
+  let exact = true;
+
+  for (const token of queryTokens) {
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    candidateTokens.forEach((candidateToken, index) => {
+      if (used.has(index)) return;
+      const distance = levenshtein(token, candidateToken);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1 || bestDistance > allowedDistance(Math.max(token.length, candidateTokens[bestIndex].length))) {
+      return null;
+    }
+    if (bestDistance > 0) {
+      exact = false;
+    }
+    used.add(bestIndex);
+  }
+
+  return exact ? 'exact' : 'fuzzy';
+}
+
+/**
+ * Normalize a postal code for comparison (case and spacing insensitive)
+ */
+export function normalizePostalCode(value: string): string {
+  return value.replace(/[\s-]+/g, '').toUpperCase();
+}
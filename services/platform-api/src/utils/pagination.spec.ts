@@ -0,0 +1,85 @@
+import {
+  afterCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  parsePageOptions,
+  toPage,
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+} from './pagination';
+
+const CURSOR = {
+  createdAt: '2026-10-19T12:30:00.123456+00:00',
+  id: '8f14e45f-ceea-467f-a0b6-0c8a9b6c1e2d',
+};
+
+describe('Pagination Utilities', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip a cursor', () => {
+      expect(decodeCursor(encodeCursor(CURSOR))).toEqual(CURSOR);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toBeNull();
+    });
+
+    it('should reject cursors that could inject filter syntax', () => {
+      const raw = Buffer.from(JSON.stringify([CURSOR.createdAt, 'x),id.gt.0'])).toString('base64url');
+      expect(decodeCursor(raw)).toBeNull();
+
+      const badDate = Buffer.from(JSON.stringify(['2026-10-19",or(', CURSOR.id])).toString('base64url');
+      expect(decodeCursor(badDate)).toBeNull();
+    });
+  });
+
+  describe('parsePageOptions', () => {
+    it('should default the limit', () => {
+      expect(parsePageOptions()).toEqual({ limit: DEFAULT_PAGE_LIMIT });
+    });
+
+    it('should accept a limit and cursor', () => {
+      expect(parsePageOptions('20', encodeCursor(CURSOR))).toEqual({ limit: 20, cursor: CURSOR });
+    });
+
+    it('should reject out-of-range or non-numeric limits', () => {
+      expect(parsePageOptions('0')).toBeNull();
+      expect(parsePageOptions(String(MAX_PAGE_LIMIT + 1))).toBeNull();
+      expect(parsePageOptions('ten')).toBeNull();
+    });
+
+    it('should reject an invalid cursor', () => {
+      expect(parsePageOptions('10', 'garbage')).toBeNull();
+    });
+  });
+
+  describe('afterCursorFilter', () => {
+    it('should select rows strictly after the cursor', () => {
+      expect(afterCursorFilter(CURSOR)).toBe(
+        `created_at.lt."${CURSOR.createdAt}",and(created_at.eq."${CURSOR.createdAt}",id.lt.${CURSOR.id})`,
+      );
+    });
+  });
+
+  describe('toPage', () => {
+    const rows = [
+      { id: 'c', created_at: '2026-10-19T12:00:03Z' },
+      { id: 'b', created_at: '2026-10-19T12:00:02Z' },
+      { id: 'a', created_at: '2026-10-19T12:00:01Z' },
+    ];
+
+    it('should return no cursor on the last page', () => {
+      expect(toPage(rows, 3)).toEqual({ rows });
+    });
+
+    it('should trim the extra row and point the cursor at the last returned row', () => {
+      const page = toPage(rows, 2);
+
+      expect(page.rows).toEqual(rows.slice(0, 2));
+      expect(JSON.parse(Buffer.from(page.nextCursor!, 'base64url').toString('utf8'))).toEqual([
+        rows[1].created_at,
+        rows[1].id,
+      ]);
+    });
+  });
+});
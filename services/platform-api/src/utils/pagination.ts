@@ -0,0 +1,122 @@
+/**
+ * Cursor-based (keyset) pagination helpers.
+ *
+ * Lists are ordered newest first by (created_at DESC, id DESC). A cursor is an
+ * opaque base64url token identifying the last row of the previous page, so
+ * rows inserted while a client scrolls never shift or duplicate entries.
+ */
+
+/**
+ * Page size used when the client does not ask for one
+ */
+export const DEFAULT_PAGE_LIMIT = 50;
+
+/**
+ * Largest page size a client may request
+ */
+export const MAX_PAGE_LIMIT = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^[0-9T:.+\- Z]+$/;
+
+/**
+ * Position of the last row on a page
+ */
+export interface PageCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Parsed pagination parameters for a list query
+ */
+export interface PageOptions {
+  limit: number;
+  cursor?: PageCursor;
+}
+
+/**
+ * Encode the position of a row as an opaque cursor
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * Returns null for anything malformed so callers can reject it as a validation error
+ */
+export function decodeCursor(raw: string): PageCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 2) {
+      return null;
+    }
+
+    const [createdAt, id] = parsed;
+    if (
+      typeof createdAt !== 'string' ||
+      typeof id !== 'string' ||
+      !TIMESTAMP_PATTERN.test(createdAt) ||
+      Number.isNaN(Date.parse(createdAt)) ||
+      !UUID_PATTERN.test(id)
+    ) {
+      return null;
+    }
+
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse raw `limit` and `cursor` query parameters
+ * Returns null if either is invalid
+ */
+export function parsePageOptions(limit?: string, cursor?: string): PageOptions | null {
+  let pageLimit = DEFAULT_PAGE_LIMIT;
+  if (limit !== undefined && limit !== '') {
+    if (!/^\d+$/.test(limit)) {
+      return null;
+    }
+    pageLimit = Number(limit);
+    if (pageLimit < 1 || pageLimit > MAX_PAGE_LIMIT) {
+      return null;
+    }
+  }
+
+  if (cursor === undefined || cursor === '') {
+    return { limit: pageLimit };
+  }
+
+  const decoded = decodeCursor(cursor);
+  return decoded ? { limit: pageLimit, cursor: decoded } : null;
+}
+
+/**
+ * PostgREST `or` filter selecting rows that sort after the cursor
+ * in (created_at DESC, id DESC) order
+ */
+export function afterCursorFilter(cursor: PageCursor, column = 'created_at'): string {
+  return `${column}.lt."${cursor.createdAt}",and(${column}.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+}
+
+/**
+ * Split a result fetched with `limit + 1` rows into the page and the next cursor
+ */
+export function toPage<T extends { created_at: string; id: string }>(
+  rows: T[],
+  limit: number,
+): { rows: T[]; nextCursor?: string } {
+  if (rows.length <= limit) {
+    return { rows };
+  }
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    rows: page,
+    nextCursor: encodeCursor({ createdAt: last.created_at, id: last.id }),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Redis connection settings shared by the API's BullMQ queues.
+ *
+ * REDIS_URL wins when set (redis:// or rediss:// for TLS); otherwise
+ * REDIS_HOST, REDIS_PORT and REDIS_PASSWORD are used.
+ */
+
+export type RedisConnection = {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  db?: number;
+  tls?: Record<string, unknown>;
+};
+
+export const DEFAULT_REDIS_PORT = 6379;
+
+/**
+ * Connection options for a BullMQ queue, read from the environment
+ */
+export function getRedisConnection(): RedisConnection {
+  const redisUrl = process.env.REDIS_URL;
+  if (redisUrl) {
+    const url = new URL(redisUrl);
+    const connection: RedisConnection = {
+      host: url.hostname,
+      port: url.port ? Number(url.port) : DEFAULT_REDIS_PORT,
+    };
+
+    if (url.username) {
+      connection.username = decodeURIComponent(url.username);
+    }
+
+    if (url.password) {
+      connection.password = decodeURIComponent(url.password);
+    }
+
+    if (url.pathname && url.pathname !== '/') {
+      const db = Number(url.pathname.slice(1));
+      if (!Number.isNaN(db)) {
+        connection.db = db;
+      }
+    }
+
+    if (url.protocol === 'rediss:') {
+      connection.tls = {};
+    }
+
+    return connection;
+  }
+
+  const port = Number(process.env.REDIS_PORT || DEFAULT_REDIS_PORT);
+  const connection: RedisConnection = {
+    host: process.env.REDIS_HOST || '127.0.0.1',
+    port,
+  };
+
+  if (process.env.REDIS_PASSWORD) {
+    connection.password = process.env.REDIS_PASSWORD;
+  }
+
+  return connection;
+}
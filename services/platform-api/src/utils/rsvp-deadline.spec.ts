@@ -0,0 +1,80 @@
+import {
+  addDays,
+  isDeadlinePassed,
+  isValidDateString,
+  reminderSendTimes,
+  resolveTimeZone,
+  todayInTimeZone,
+  zonedTimeToUtc,
+  FALLBACK_TIME_ZONE,
+} from './rsvp-deadline';
+
+describe('RSVP Deadline Utilities', () => {
+  describe('isValidDateString', () => {
+    it('should accept real calendar dates', () => {
+      expect(isValidDateString('2026-10-19')).toBe(true);
+      expect(isValidDateString('2028-02-29')).toBe(true);
+    });
+
+    it('should reject malformed or impossible dates', () => {
+      expect(isValidDateString('2026-02-30')).toBe(false);
+      expect(isValidDateString('19/10/2026')).toBe(false);
+      expect(isValidDateString(20261019)).toBe(false);
+    });
+  });
+
+  describe('resolveTimeZone', () => {
+    it('should fall back for missing or unknown zones', () => {
+      expect(resolveTimeZone(undefined)).toBe(FALLBACK_TIME_ZONE);
+      expect(resolveTimeZone('Mars/Olympus_Mons')).toBe(FALLBACK_TIME_ZONE);
+      expect(resolveTimeZone('America/New_York')).toBe('America/New_York');
+    });
+  });
+
+  describe('todayInTimeZone', () => {
+    it('should use the calendar date in the given zone', () => {
+      const now = new Date('2026-10-20T02:00:00Z');
+      expect(todayInTimeZone('UTC', now)).toBe('2026-10-20');
+      expect(todayInTimeZone('America/Los_Angeles', now)).toBe('2026-10-19');
+    });
+  });
+
+  describe('addDays', () => {
+    it('should cross month and year boundaries', () => {
+      expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+      expect(addDays('2026-12-30', 7)).toBe('2027-01-06');
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall-clock time on either side of a DST change', () => {
+      expect(zonedTimeToUtc('2026-07-01', '10:00', 'America/New_York').toISOString())
+        .toBe('2026-07-01T14:00:00.000Z');
+      expect(zonedTimeToUtc('2026-12-01', '10:00', 'America/New_York').toISOString())
+        .toBe('2026-12-01T15:00:00.000Z');
+    });
+  });
+
+  describe('isDeadlinePassed', () => {
+    it('should keep the deadline day open in the wedding timezone', () => {
+      const now = new Date('2026-10-20T02:00:00Z');
+      expect(isDeadlinePassed('2026-10-19', 'America/Los_Angeles', now)).toBe(false);
+      expect(isDeadlinePassed('2026-10-19', 'UTC', now)).toBe(true);
+    });
+
+    it('should never lock out without a deadline', () => {
+      expect(isDeadlinePassed(undefined, 'UTC')).toBe(false);
+    });
+  });
+
+  describe('reminderSendTimes', () => {
+    it('should schedule future reminders only, earliest first', () => {
+      const now = new Date('2026-10-11T00:00:00Z');
+      const times = reminderSendTimes('2026-10-31', [2, 21, 7, 7], 'UTC', now);
+      expect(times.map((t) => t.toISOString())).toEqual([
+        '2026-10-24T10:00:00.000Z',
+        '2026-10-29T10:00:00.000Z',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * RSVP deadline helpers.
+ *
+ * Deadlines are calendar dates (YYYY-MM-DD) and are inclusive: guests can
+ * respond until the end of that day in the wedding's timezone. Dates compare
+ * correctly as strings, so no Date parsing is needed for the lockout check.
+ */
+
+/**
+ * Timezone used when a wedding has none (or an unknown one) configured
+ */
+export const FALLBACK_TIME_ZONE = 'UTC';
+
+/**
+ * Local time of day that automatic deadline reminders go out
+ */
+export const REMINDER_SEND_TIME = '10:00';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Return the timezone if the runtime knows it, otherwise the fallback
+ */
+export function resolveTimeZone(timeZone: string | undefined): string {
+  if (!timeZone) {
+    return FALLBACK_TIME_ZONE;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone
+ */
+export function todayInTimeZone(timeZone: string | undefined, now: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: resolveTimeZone(timeZone),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+export function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date and time (HH:MM) in a timezone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string | undefined): Date {
+  const zone = resolveTimeZone(timeZone);
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  // Guess with the offset at the wall-clock time, then correct once for DST changes in between
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), zone);
+  return new Date(wallClock - timeZoneOffset(new Date(guess), zone));
+}
+
+/**
+ * Whether a deadline has passed (responses are still accepted on the deadline day itself)
+ */
+export function isDeadlinePassed(
+  deadline: string | undefined,
+  timeZone: string | undefined,
+  now: Date = new Date(),
+): boolean {
+  return !!deadline && todayInTimeZone(timeZone, now) > deadline;
+}
+
+/**
+ * Send times for reminders a number of days before a deadline, skipping any already in the past
+ */
+export function reminderSendTimes(
+  deadline: string,
+  daysBefore: number[],
+  timeZone: string | undefined,
+  now: Date = new Date(),
+): Date[] {
+  return [...new Set(daysBefore)]
+    .sort((a, b) => b - a)
+    .map((days) => zonedTimeToUtc(addDays(deadline, -days), REMINDER_SEND_TIME, timeZone))
+    .filter((sendAt) => sendAt.getTime() > now.getTime());
+}
@@ -0,0 +1,22 @@
+import { createRsvpSessionToken, verifyRsvpSessionToken } from './rsvp-session';
+
+describe('RSVP Session', () => {
+  const now = new Date('2026-05-01T10:00:00Z');
+  const expiresAt = new Date('2026-05-01T11:00:00Z');
+
+  it('should round-trip tokens signed with the same secret only', () => {
+    const token = createRsvpSessionToken('guest-1', expiresAt, 'secret');
+
+    expect(verifyRsvpSessionToken(token, 'secret', now)).toEqual({ guestId: 'guest-1', expiresAt });
+    expect(verifyRsvpSessionToken(token, 'other-secret', now)).toBeNull();
+    expect(verifyRsvpSessionToken(`${token}x`, 'secret', now)).toBeNull();
+    expect(verifyRsvpSessionToken('a'.repeat(64), 'secret', now)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createRsvpSessionToken('guest-1', expiresAt, 'secret');
+
+    expect(verifyRsvpSessionToken(token, 'secret', expiresAt)).toBeNull();
+    expect(verifyRsvpSessionToken(token, 'secret', new Date('2026-05-02T10:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * RSVP session helpers.
+ *
+ * Only the hash of a guest's RSVP token is stored, so finding an invitation on
+ * the site cannot hand back the link that was emailed, and minting a new one
+ * would break it. Lookups instead issue a short-lived signed token naming the
+ * guest, which the RSVP endpoints accept in place of the stored token until it
+ * expires. Nothing secret is stored.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Signed token identifying a guest until an expiry time
+ */
+export function createRsvpSessionToken(guestId: string, expiresAt: Date, secret: string): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const payload = Buffer.from(`${guestId}:${expires}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Guest a session token names, or null if it was not signed with this secret or has expired
+ */
+export function verifyRsvpSessionToken(
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): { guestId: string; expiresAt: Date } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const match = /^([^:]+):(\d+)$/.exec(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (!match) {
+    return null;
+  }
+
+  const expiresAt = new Date(Number(match[2]) * 1000);
+  return expiresAt > now ? { guestId: match[1], expiresAt } : null;
+}
@@ -0,0 +1,107 @@
+import { keepSeatNumbers, planSeating, PlannerGuest, PlannerTable } from './seating-planner';
+
+const table = (id: string, capacity: number, order: number): PlannerTable => ({
+  id,
+  name: `Table ${id}`,
+  capacity,
+  order,
+});
+
+const guest = (id: string, extra: Partial<PlannerGuest> = {}): PlannerGuest => ({
+  id,
+  name: `Guest ${id}`,
+  ...extra,
+});
+
+const tableOf = (plan: ReturnType<typeof planSeating>, guestId: string) =>
+  plan.assignments.find((a) => a.guestId === guestId)?.tableId;
+
+describe('Seating Planner', () => {
+  it('should seat everyone and score 100 when nothing is constrained', () => {
+    const plan = planSeating([table('1', 4, 1), table('2', 4, 2)], ['a', 'b', 'c'].map((id) => guest(id)), {});
+
+    expect(plan.assignments).toHaveLength(3);
+    expect(plan.unseatedGuestIds).toEqual([]);
+    expect(plan.unmetConstraints).toEqual([]);
+    expect(plan.score).toBe(100);
+  });
+
+  it('should keep households and tag groups at one table', () => {
+    const guests = [
+      guest('a', { householdId: 'h1' }),
+      guest('b', { householdId: 'h1' }),
+      guest('c', { tagIds: ['college'] }),
+      guest('d', { tagIds: ['college'] }),
+      guest('e'),
+    ];
+    const plan = planSeating([table('1', 3, 1), table('2', 3, 2)], guests, {
+      keepTogether: [{ tagId: 'college' }],
+    });
+
+    expect(tableOf(plan, 'a')).toBe(tableOf(plan, 'b'));
+    expect(tableOf(plan, 'c')).toBe(tableOf(plan, 'd'));
+    expect(plan.unmetConstraints).toEqual([]);
+  });
+
+  it('should keep apart pairs at different tables', () => {
+    const plan = planSeating([table('1', 4, 1), table('2', 4, 2)], [guest('a'), guest('b')], {
+      keepApart: [{ guestIds: ['a', 'b'] }],
+      fillInOrder: true,
+    });
+
+    expect(tableOf(plan, 'a')).not.toBe(tableOf(plan, 'b'));
+  });
+
+  it('should honor pins and fill tables in order', () => {
+    const plan = planSeating(
+      [table('1', 2, 1), table('2', 2, 2), table('3', 2, 3)],
+      ['a', 'b', 'c'].map((id) => guest(id)),
+      { pins: [{ guestId: 'c', tableId: '3' }], fillInOrder: true },
+    );
+
+    expect(tableOf(plan, 'c')).toBe('3');
+    expect(tableOf(plan, 'a')).toBe('1');
+    expect(tableOf(plan, 'b')).toBe('1');
+  });
+
+  it('should report guests who do not fit and lower the score', () => {
+    const plan = planSeating([table('1', 2, 1)], ['a', 'b', 'c'].map((id) => guest(id)), {});
+
+    expect(plan.unseatedGuestIds).toHaveLength(1);
+    expect(plan.unmetConstraints[0].type).toBe('capacity');
+    expect(plan.score).toBe(67);
+  });
+
+  it('should split a group that is larger than any table and report it', () => {
+    const guests = ['a', 'b', 'c', 'd'].map((id) => guest(id, { tagIds: ['family'] }));
+    const plan = planSeating([table('1', 3, 1), table('2', 3, 2)], guests, {
+      keepTogether: [{ tagId: 'family' }],
+    }, new Map([['family', 'Family']]));
+
+    expect(plan.unseatedGuestIds).toEqual([]);
+    expect(plan.unmetConstraints).toEqual([
+      expect.objectContaining({ type: 'keep_together', message: expect.stringContaining('Tag "Family"') }),
+    ]);
+  });
+
+  it('should keep named seats only for guests who stay at their table', () => {
+    const current = [
+      { guestId: 'a', tableId: '1', seatNumber: 3 },
+      { guestId: 'b', tableId: '1', seatNumber: 4 },
+      { guestId: 'c', tableId: '2' },
+    ];
+    const assignments = [
+      { guestId: 'a', tableId: '1' },
+      { guestId: 'b', tableId: '2' },
+      { guestId: 'c', tableId: '2' },
+      { guestId: 'd', tableId: '1' },
+    ];
+
+    expect(keepSeatNumbers(assignments, current)).toEqual([
+      { guestId: 'a', tableId: '1', seatNumber: 3 },
+      { guestId: 'b', tableId: '2', seatNumber: null },
+      { guestId: 'c', tableId: '2', seatNumber: null },
+      { guestId: 'd', tableId: '1', seatNumber: null },
+    ]);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Automatic seating planner.
+ *
+ * Guests that must sit together (households, tag groups, hand-picked groups)
+ * are merged into units, and units are placed largest first so big parties
+ * still find room. Each unit goes to its pinned table if it has one, otherwise
+ * to a table with enough free seats that doesn't hold anyone it must be kept
+ * apart from: the first such table when filling in order, or the emptiest one
+ * to spread guests out. Constraints are soft: when they can't all be met the
+ * planner still returns its best assignment and lists what it had to break.
+ *
+ * Every guest takes one seat, matching the capacity check on manual assignment.
+ */
+
+import type {
+  AutoSeatConstraints,
+  SeatingPlan,
+  SeatingPlanAssignment,
+  UnmetSeatingConstraint,
+} from '../types';
+
+export interface PlannerTable {
+  id: string;
+  name: string;
+  capacity: number;
+  order: number;
+}
+
+export interface PlannerGuest {
+  id: string;
+  name: string;
+  householdId?: string;
+  tagIds?: string[];
+}
+
+/**
+ * A group of guests that should share a table, with a label for unmet-constraint messages
+ */
+interface TogetherGroup {
+  label: string;
+  guestIds: string[];
+}
+
+/**
+ * Union-find over guest IDs, used to merge overlapping keep-together groups into units
+ */
+class GuestUnion {
+  private readonly parent = new Map<string, string>();
+
+  find(id: string): string {
+    let root = id;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    this.parent.set(id, root);
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parent.set(rootB, rootA);
+    }
+  }
+}
+
+/**
+ * Build the keep-together groups that apply to these guests
+ * Groups with fewer than two seatable guests are dropped
+ */
+function buildTogetherGroups(
+  guests: PlannerGuest[],
+  constraints: AutoSeatConstraints,
+  tagNames: Map<string, string>,
+): TogetherGroup[] {
+  const groups: TogetherGroup[] = [];
+  const guestIds = new Set(guests.map((guest) => guest.id));
+
+  if (constraints.keepHouseholdsTogether !== false) {
+    const households = new Map<string, string[]>();
+    for (const guest of guests) {
+      if (!guest.householdId) continue;
+      households.set(guest.householdId, [...(households.get(guest.householdId) ?? []), guest.id]);
+    }
+    for (const members of households.values()) {
+      groups.push({ label: 'Household', guestIds: members });
+    }
+  }
+
+  for (const group of constraints.keepTogether ?? []) {
+    if (group.tagId) {
+      groups.push({
+        label: `Tag "${tagNames.get(group.tagId) ?? 'Unknown tag'}"`,
+        guestIds: guests.filter((guest) => guest.tagIds?.includes(group.tagId!)).map((guest) => guest.id),
+      });
+    } else if (group.guestIds) {
+      groups.push({
+        label: 'Keep together',
+        guestIds: [...new Set(group.guestIds)].filter((id) => guestIds.has(id)),
+      });
+    }
+  }
+
+  return groups.filter((group) => group.guestIds.length > 1);
+}
+
+/**
+ * Split a unit that is too big for any table into chunks that fit, keeping
+ * the smaller groups inside it (e.g. households) whole where possible
+ */
+function splitUnit(unit: string[], maxSize: number, groups: TogetherGroup[]): string[][] {
+  const inUnit = new Set(unit);
+  const placed = new Set<string>();
+  const pieces: string[][] = [];
+
+  // Smallest groups first so households stay whole before tag groups are considered
+  const subGroups = groups
+    .map((group) => group.guestIds.filter((id) => inUnit.has(id)))
+    .filter((ids) => ids.length > 1 && ids.length <= maxSize)
+    .sort((a, b) => a.length - b.length);
+
+  for (const ids of subGroups) {
+    const remaining = ids.filter((id) => !placed.has(id));
+    if (remaining.length === 0) continue;
+    remaining.forEach((id) => placed.add(id));
+    pieces.push(remaining);
+  }
+  for (const id of unit) {
+    if (!placed.has(id)) pieces.push([id]);
+  }
+
+  // Pack pieces into chunks, largest first
+  const chunks: string[][] = [];
+  for (const piece of pieces.sort((a, b) => b.length - a.length)) {
+    const chunk = chunks.find((c) => c.length + piece.length <= maxSize);
+    if (chunk) {
+      chunk.push(...piece);
+    } else {
+      chunks.push([...piece]);
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Propose a seating assignment for the given guests and tables
+ * @param tables Tables in display order, with their full capacity
+ * @param guests Guests to seat (already filtered to attending, plus pending if requested)
+ * @param constraints Keep-together, keep-apart, pin and fill-order constraints
+ * @param tagNames Tag names by ID, for unmet-constraint messages
+ */
+export function planSeating(
+  tables: PlannerTable[],
+  guests: PlannerGuest[],
+  constraints: AutoSeatConstraints,
+  tagNames: Map<string, string> = new Map(),
+): SeatingPlan {
+  const orderedTables = [...tables].sort((a, b) => a.order - b.order);
+  const tableIds = new Set(orderedTables.map((table) => table.id));
+  const guestIds = new Set(guests.map((guest) => guest.id));
+  const maxCapacity = orderedTables.reduce((max, table) => Math.max(max, table.capacity), 0);
+
+  const groups = buildTogetherGroups(guests, constraints, tagNames);
+  const pins = new Map<string, string>();
+  for (const pin of constraints.pins ?? []) {
+    if (guestIds.has(pin.guestId) && tableIds.has(pin.tableId)) {
+      pins.set(pin.guestId, pin.tableId);
+    }
+  }
+  const apart = new Map<string, Set<string>>();
+  for (const { guestIds: [a, b] } of constraints.keepApart ?? []) {
+    if (!guestIds.has(a) || !guestIds.has(b) || a === b) continue;
+    apart.set(a, (apart.get(a) ?? new Set()).add(b));
+    apart.set(b, (apart.get(b) ?? new Set()).add(a));
+  }
+
+  // Merge overlapping groups into units
+  const union = new GuestUnion();
+  for (const group of groups) {
+    for (const id of group.guestIds.slice(1)) {
+      union.union(group.guestIds[0], id);
+    }
+  }
+  const unitsByRoot = new Map<string, string[]>();
+  for (const guest of guests) {
+    const root = union.find(guest.id);
+    unitsByRoot.set(root, [...(unitsByRoot.get(root) ?? []), guest.id]);
+  }
+  let units = [...unitsByRoot.values()].flatMap((unit) =>
+    unit.length > maxCapacity && maxCapacity > 0 ? splitUnit(unit, maxCapacity, groups) : [unit],
+  );
+
+  // Pinned units first, then largest first; ties keep guest list order
+  const pinOf = (unit: string[]) => unit.map((id) => pins.get(id)).find(Boolean);
+  units = units
+    .map((unit, index) => ({ unit, index }))
+    .sort((a, b) =>
+      Number(!!pinOf(b.unit)) - Number(!!pinOf(a.unit)) ||
+      b.unit.length - a.unit.length ||
+      a.index - b.index,
+    )
+    .map(({ unit }) => unit);
+
+  const free = new Map(orderedTables.map((table) => [table.id, table.capacity]));
+  const seated = new Map<string, string[]>(orderedTables.map((table) => [table.id, []]));
+  const tableOf = new Map<string, string>();
+
+  const conflicts = (tableId: string, ids: string[]) =>
+    seated.get(tableId)!.some((seatedId) => ids.some((id) => apart.get(id)?.has(seatedId)));
+
+  const chooseTable = (ids: string[]): string | undefined => {
+    const fits = orderedTables.filter((table) => free.get(table.id)! >= ids.length);
+    const candidates = fits.filter((table) => !conflicts(table.id, ids));
+    const pool = candidates.length > 0 ? candidates : fits;
+    if (pool.length === 0) return undefined;
+    if (constraints.fillInOrder) return pool[0].id;
+    return pool.reduce((best, table) => (free.get(table.id)! > free.get(best.id)! ? table : best)).id;
+  };
+
+  const seat = (ids: string[], tableId: string) => {
+    seated.get(tableId)!.push(...ids);
+    free.set(tableId, free.get(tableId)! - ids.length);
+    ids.forEach((id) => tableOf.set(id, tableId));
+  };
+
+  for (const unit of units) {
+    const pinned = pinOf(unit);
+    if (pinned && free.get(pinned)! >= unit.length) {
+      seat(unit, pinned);
+      continue;
+    }
+
+    const tableId = chooseTable(unit);
+    if (tableId) {
+      seat(unit, tableId);
+      continue;
+    }
+
+    // No table has room for the whole unit: seat its guests wherever they fit
+    for (const id of unit) {
+      const pinnedTable = pins.get(id);
+      const single = pinnedTable && free.get(pinnedTable)! >= 1 ? pinnedTable : chooseTable([id]);
+      if (single) seat([id], single);
+    }
+  }
+
+  const assignments: SeatingPlanAssignment[] = guests
+    .filter((guest) => tableOf.has(guest.id))
+    .map((guest) => ({ guestId: guest.id, tableId: tableOf.get(guest.id)! }));
+
+  return {
+    assignments,
+    ...evaluatePlan(guests, orderedTables, assignments, groups, pins, apart),
+  };
+}
+
+/**
+ * Score a seating assignment and list the constraints it breaks
+ * Every seated guest and every met constraint counts one point; the score is the
+ * percentage of points earned (100 when everyone is seated and nothing is broken).
+ */
+function evaluatePlan(
+  guests: PlannerGuest[],
+  tables: PlannerTable[],
+  assignments: SeatingPlanAssignment[],
+  groups: TogetherGroup[],
+  pins: Map<string, string>,
+  apart: Map<string, Set<string>>,
+): Pick<SeatingPlan, 'score' | 'unseatedGuestIds' | 'unmetConstraints'> {
+  const tableOf = new Map(assignments.map((a) => [a.guestId, a.tableId]));
+  const names = new Map(guests.map((guest) => [guest.id, guest.name]));
+  const tableNames = new Map(tables.map((table) => [table.id, table.name]));
+  const unmetConstraints: UnmetSeatingConstraint[] = [];
+
+  const unseatedGuestIds = guests.filter((guest) => !tableOf.has(guest.id)).map((guest) => guest.id);
+  if (unseatedGuestIds.length > 0) {
+    unmetConstraints.push({
+      type: 'capacity',
+      guestIds: unseatedGuestIds,
+      message: `${unseatedGuestIds.length} guest${unseatedGuestIds.length === 1 ? '' : 's'} could not be seated: not enough free seats`,
+    });
+  }
+
+  for (const group of groups) {
+    const groupTables = new Set(group.guestIds.map((id) => tableOf.get(id)));
+    if (groupTables.size > 1) {
+      unmetConstraints.push({
+        type: 'keep_together',
+        guestIds: group.guestIds,
+        message: `${group.label} (${group.guestIds.map((id) => names.get(id)).join(', ')}) is split across tables`,
+      });
+    }
+  }
+
+  const apartPairs: Array<[string, string]> = [];
+  for (const [a, others] of apart) {
+    for (const b of others) {
+      if (a < b) apartPairs.push([a, b]);
+    }
+  }
+  for (const [a, b] of apartPairs) {
+    if (tableOf.has(a) && tableOf.get(a) === tableOf.get(b)) {
+      unmetConstraints.push({
+        type: 'keep_apart',
+        guestIds: [a, b],
+        message: `${names.get(a)} and ${names.get(b)} are both at ${tableNames.get(tableOf.get(a)!)}`,
+      });
+    }
+  }
+
+  for (const [guestId, tableId] of pins) {
+    if (tableOf.get(guestId) !== tableId) {
+      unmetConstraints.push({
+        type: 'pin',
+        guestIds: [guestId],
+        message: `${names.get(guestId)} could not be seated at ${tableNames.get(tableId)}`,
+      });
+    }
+  }
+
+  const total = guests.length + groups.length + apartPairs.length + pins.size;
+  const broken = unseatedGuestIds.length + unmetConstraints.filter((c) => c.type !== 'capacity').length;
+  const score = total === 0 ? 100 : Math.round((100 * (total - broken)) / total);
+
+  return { score, unseatedGuestIds, unmetConstraints };
+}
+
+/**
+ * Carry named seats over to an applied plan: a guest who keeps their table
+ * keeps their seat number; a guest who moves tables has no seat yet.
+ */
+export function keepSeatNumbers(
+  assignments: SeatingPlanAssignment[],
+  current: Array<{ guestId: string; tableId: string; seatNumber?: number }>,
+): Array<SeatingPlanAssignment & { seatNumber: number | null }> {
+  const seats = new Map(current.map((a) => [a.guestId, a]));
+
+  return assignments.map(({ guestId, tableId }) => {
+    const seat = seats.get(guestId);
+    return {
+      guestId,
+      tableId,
+      seatNumber: seat?.tableId === tableId && seat.seatNumber !== undefined ? seat.seatNumber : null,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+import { renderSeatingPrint, SeatingPrintInput } from './seating-print';
+
+const theme = { primary: '#8b7355', accent: '#a89078', neutralLight: '#f9f7f4', neutralDark: '#2f2f2f' };
+
+const input = (overrides: Partial<SeatingPrintInput>): SeatingPrintInput => ({
+  kind: 'escort-cards',
+  paper: 'letter',
+  templateId: 'classic-001',
+  theme,
+  coupleNames: 'Alex & Sam',
+  tables: [
+    {
+      name: 'Table 1',
+      guests: Array.from({ length: 11 }, (_, i) => ({ name: `Guest ${i + 1}`, mealOptionId: 'fish' })),
+    },
+    { name: 'Head Table', guests: [] },
+  ],
+  mealOptions: [{ id: 'fish', name: 'Fish', order: 1 }],
+  ...overrides,
+});
+
+const pageCount = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length;
+
+describe('Seating Print', () => {
+  it('should fit ten escort cards on a letter sheet', async () => {
+    const pdf = await renderSeatingPrint(input({}));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pageCount(pdf)).toBe(2);
+  });
+
+  it('should print one tented place card per page and add a meal key', async () => {
+    const pdf = await renderSeatingPrint(input({ kind: 'place-cards', paper: 'tent-3.5x2' }));
+
+    expect(pageCount(pdf)).toBe(12);
+  });
+
+  it('should print a sign for every table, including empty ones', async () => {
+    const pdf = await renderSeatingPrint(input({ kind: 'table-signs', paper: 'a4' }));
+
+    expect(pageCount(pdf)).toBe(2);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Printable seating stationery: escort cards, place cards and table signs.
+ *
+ * Cards are drawn with PDFKit's built-in fonts, so names must use Latin
+ * characters. Letter and A4 output imposes several cards per sheet with light
+ * cut lines (and a dotted fold line on tented cards); tented paper prints one
+ * pre-cut 3.5 x 4 inch card per page that folds to 3.5 x 2.
+ */
+
+import PDFDocument from 'pdfkit';
+import type { MealOption, SeatingPrintKind, SeatingPrintPaperSize, Theme } from '../types';
+
+export interface PrintGuest {
+  name: string;
+  seatLabel?: string;
+  mealOptionId?: string;
+}
+
+export interface PrintTable {
+  name: string;
+  guests: PrintGuest[];
+}
+
+export interface SeatingPrintInput {
+  kind: SeatingPrintKind;
+  paper: SeatingPrintPaperSize;
+  templateId: string;
+  theme: Theme;
+  /** Shown on table signs, e.g. "Alex & Sam" */
+  coupleNames: string;
+  /** Tables in display order, guests in seat order */
+  tables: PrintTable[];
+  /** Meal options for place card icons (empty when meal selection is off) */
+  mealOptions: MealOption[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Fonts and decoration per site template, so the stationery matches the site
+ */
+interface PrintStyle {
+  headingFont: string;
+  bodyFont: string;
+  uppercase: boolean;
+  ornament: 'rule' | 'frame' | 'bar' | 'none';
+}
+
+const PRINT_STYLES: Record<string, PrintStyle> = {
+  // Serene
+  'minimal-001': { headingFont: 'Helvetica', bodyFont: 'Helvetica', uppercase: false, ornament: 'rule' },
+  // Whisper
+  'minimal-002': { headingFont: 'Times-Italic', bodyFont: 'Times-Roman', uppercase: false, ornament: 'none' },
+  // Heritage
+  'classic-001': { headingFont: 'Times-Roman', bodyFont: 'Times-Italic', uppercase: false, ornament: 'frame' },
+  // Edge
+  'modern-001': { headingFont: 'Helvetica-Bold', bodyFont: 'Helvetica', uppercase: true, ornament: 'bar' },
+};
+
+const DEFAULT_PRINT_STYLE = PRINT_STYLES['minimal-001'];
+
+/** Points per inch */
+const INCH = 72;
+
+const PAPER_SIZES: Record<Exclude<SeatingPrintPaperSize, 'tent-3.5x2'>, [number, number]> = {
+  letter: [8.5 * INCH, 11 * INCH],
+  a4: [595.28, 841.89],
+};
+
+/** Flat escort card */
+const FLAT_CARD: [number, number] = [3.5 * INCH, 2 * INCH];
+
+/** Tented card before folding (folds to 3.5 x 2) */
+const TENT_CARD: [number, number] = [3.5 * INCH, 4 * INCH];
+
+/** Sheet margin around the card grid */
+const SHEET_MARGIN = 0.5 * INCH;
+
+const CUT_LINE_COLOR = '#cccccc';
+
+const MEAL_ICON_SHAPES = ['circle', 'square', 'triangle', 'diamond'] as const;
+
+/**
+ * Render seating stationery as a PDF
+ */
+export function renderSeatingPrint(input: SeatingPrintInput): Promise<Buffer> {
+  const doc = new PDFDocument({ autoFirstPage: false, margin: 0 });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const style = PRINT_STYLES[input.templateId] ?? DEFAULT_PRINT_STYLE;
+  const ctx = { doc, style, theme: input.theme };
+
+  if (input.kind === 'escort-cards') {
+    const cards = escortCardGuests(input.tables);
+    layoutCards(doc, input.paper, cards.length, false, (box, i) =>
+      drawEscortCard(ctx, box, cards[i].name, cards[i].tableName),
+    );
+  } else if (input.kind === 'place-cards') {
+    const cards = input.tables.flatMap((table) => table.guests);
+    const meals = [...input.mealOptions].sort((a, b) => a.order - b.order);
+    layoutCards(doc, input.paper, cards.length, true, (box, i) =>
+      drawPlaceCard(ctx, box, cards[i], meals),
+    );
+    const used = meals.filter((meal) => cards.some((guest) => guest.mealOptionId === meal.id));
+    if (used.length > 0) {
+      drawMealKey(ctx, input.paper, meals, used);
+    }
+  } else {
+    drawTableSigns(ctx, input.paper, input.tables, input.coupleNames);
+  }
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Escort cards are sorted by last name, then full name
+ */
+function escortCardGuests(tables: PrintTable[]): Array<{ name: string; tableName: string }> {
+  const lastName = (name: string) => name.trim().split(/\s+/).pop() ?? name;
+  return tables
+    .flatMap((table) => table.guests.map((guest) => ({ name: guest.name, tableName: table.name })))
+    .sort(
+      (a, b) =>
+        lastName(a.name).localeCompare(lastName(b.name), undefined, { sensitivity: 'base' }) ||
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+    );
+}
+
+type DrawContext = { doc: PDFKit.PDFDocument; style: PrintStyle; theme: Theme };
+
+/**
+ * Place cards on pages: a grid per sheet on letter/A4, one per page on tented paper.
+ * Tented cards pass the front half (below the fold) to draw.
+ */
+function layoutCards(
+  doc: PDFKit.PDFDocument,
+  paper: SeatingPrintPaperSize,
+  count: number,
+  tented: boolean,
+  draw: (box: Box, index: number) => void,
+): void {
+  if (paper === 'tent-3.5x2') {
+    for (let i = 0; i < count; i++) {
+      doc.addPage({ size: TENT_CARD, margin: 0 });
+      drawFoldLine(doc, { x: 0, y: 0, w: TENT_CARD[0], h: TENT_CARD[1] });
+      draw(frontHalf({ x: 0, y: 0, w: TENT_CARD[0], h: TENT_CARD[1] }), i);
+    }
+    return;
+  }
+
+  const [pageW, pageH] = PAPER_SIZES[paper];
+  const [cardW, cardH] = tented ? TENT_CARD : FLAT_CARD;
+  const cols = Math.floor((pageW - 2 * SHEET_MARGIN) / cardW);
+  const rows = Math.floor((pageH - 2 * SHEET_MARGIN) / cardH);
+  const offsetX = (pageW - cols * cardW) / 2;
+  const offsetY = (pageH - rows * cardH) / 2;
+
+  for (let i = 0; i < count; i++) {
+    const slot = i % (cols * rows);
+    if (slot === 0) {
+      doc.addPage({ size: [pageW, pageH], margin: 0 });
+    }
+    const card = {
+      x: offsetX + (slot % cols) * cardW,
+      y: offsetY + Math.floor(slot / cols) * cardH,
+      w: cardW,
+      h: cardH,
+    };
+    doc.save().lineWidth(0.5).strokeColor(CUT_LINE_COLOR).rect(card.x, card.y, card.w, card.h).stroke().restore();
+    if (tented) {
+      drawFoldLine(doc, card);
+    }
+    draw(tented ? frontHalf(card) : card, i);
+  }
+}
+
+function frontHalf(card: Box): Box {
+  return { x: card.x, y: card.y + card.h / 2, w: card.w, h: card.h / 2 };
+}
+
+function drawFoldLine(doc: PDFKit.PDFDocument, card: Box): void {
+  const y = card.y + card.h / 2;
+  doc.save()
+    .lineWidth(0.5)
+    .strokeColor(CUT_LINE_COLOR)
+    .dash(2, { space: 3 })
+    .moveTo(card.x, y)
+    .lineTo(card.x + card.w, y)
+    .stroke()
+    .undash()
+    .restore();
+}
+
+/**
+ * Write one line of text centered in the box, shrinking the font until it fits
+ */
+function fitText(
+  ctx: DrawContext,
+  text: string,
+  font: string,
+  maxSize: number,
+  box: Box,
+  y: number,
+  color: string,
+): void {
+  const { doc } = ctx;
+  const value = ctx.style.uppercase ? text.toUpperCase() : text;
+  let size = maxSize;
+  doc.font(font).fontSize(size);
+  while (size > 6 && doc.widthOfString(value) > box.w) {
+    size -= 1;
+    doc.fontSize(size);
+  }
+  doc.fillColor(color).text(value, box.x, y - size / 2, {
+    width: box.w,
+    align: 'center',
+    lineBreak: false,
+  });
+}
+
+/**
+ * Template decoration around a card's content
+ */
+function drawOrnament(ctx: DrawContext, box: Box, dividerY: number): void {
+  const { doc, style, theme } = ctx;
+  switch (style.ornament) {
+    case 'rule':
+      doc.save().lineWidth(0.75).strokeColor(theme.accent)
+        .moveTo(box.x + box.w * 0.4, dividerY).lineTo(box.x + box.w * 0.6, dividerY).stroke().restore();
+      break;
+    case 'frame': {
+      const inset = Math.min(box.w, box.h) * 0.06;
+      doc.save().lineWidth(0.75).strokeColor(theme.primary)
+        .rect(box.x + inset, box.y + inset, box.w - 2 * inset, box.h - 2 * inset).stroke()
+        .rect(box.x + inset + 3, box.y + inset + 3, box.w - 2 * inset - 6, box.h - 2 * inset - 6).stroke()
+        .restore();
+      break;
+    }
+    case 'bar':
+      doc.save().fillColor(theme.primary).rect(box.x, box.y, 6, box.h).fill().restore();
+      break;
+    case 'none':
+      break;
+  }
+}
+
+function inset(box: Box, amount: number): Box {
+  return { x: box.x + amount, y: box.y + amount, w: box.w - 2 * amount, h: box.h - 2 * amount };
+}
+
+function drawEscortCard(ctx: DrawContext, box: Box, guestName: string, tableName: string): void {
+  const content = inset(box, box.h * 0.15);
+  drawOrnament(ctx, box, box.y + box.h * 0.55);
+  fitText(ctx, guestName, ctx.style.headingFont, 18, content, box.y + box.h * 0.4, ctx.theme.neutralDark);
+  fitText(ctx, tableName, ctx.style.bodyFont, 12, content, box.y + box.h * 0.7, ctx.theme.primary);
+}
+
+function drawPlaceCard(ctx: DrawContext, box: Box, guest: PrintGuest, meals: MealOption[]): void {
+  const content = inset(box, box.h * 0.15);
+  drawOrnament(ctx, box, box.y + box.h * 0.65);
+  fitText(ctx, guest.name, ctx.style.headingFont, 20, content, box.y + box.h * 0.45, ctx.theme.neutralDark);
+  if (guest.seatLabel) {
+    fitText(ctx, guest.seatLabel, ctx.style.bodyFont, 9, content, box.y + box.h * 0.78, ctx.theme.primary);
+  }
+
+  const mealIndex = meals.findIndex((meal) => meal.id === guest.mealOptionId);
+  if (mealIndex >= 0) {
+    drawMealIcon(ctx, box.x + box.w - 18, box.y + box.h - 18, mealIndex, meals[mealIndex]);
+  }
+}
+
+/**
+ * A small shape (by option position) with the meal's initial, so caterers can
+ * tell meals apart at a glance; the meal key page explains each icon
+ */
+function drawMealIcon(ctx: DrawContext, cx: number, cy: number, index: number, meal: MealOption): void {
+  const { doc, theme } = ctx;
+  const r = 7;
+  const shape = MEAL_ICON_SHAPES[index % MEAL_ICON_SHAPES.length];
+  // Past the fourth option, shapes repeat as outlines
+  const outlined = index >= MEAL_ICON_SHAPES.length;
+
+  doc.save().fillColor(theme.accent).strokeColor(theme.accent).lineWidth(1);
+  switch (shape) {
+    case 'circle':
+      doc.circle(cx, cy, r);
+      break;
+    case 'square':
+      doc.rect(cx - r, cy - r, 2 * r, 2 * r);
+      break;
+    case 'triangle':
+      doc.polygon([cx, cy - r - 1], [cx + r + 1, cy + r], [cx - r - 1, cy + r]);
+      break;
+    case 'diamond':
+      doc.polygon([cx, cy - r - 1], [cx + r + 1, cy], [cx, cy + r + 1], [cx - r - 1, cy]);
+      break;
+  }
+  if (outlined) {
+    doc.stroke();
+  } else {
+    doc.fill();
+  }
+
+  const initial = meal.name.trim().charAt(0).toUpperCase();
+  doc.font('Helvetica-Bold').fontSize(7).fillColor(outlined ? theme.accent : '#ffffff')
+    .text(initial, cx - r, cy - 3, { width: 2 * r, align: 'center', lineBreak: false });
+  doc.restore();
+}
+
+/**
+ * Final page listing what each meal icon means
+ */
+function drawMealKey(ctx: DrawContext, paper: SeatingPrintPaperSize, meals: MealOption[], used: MealOption[]): void {
+  const { doc, theme } = ctx;
+  const size = paper === 'tent-3.5x2' ? TENT_CARD : PAPER_SIZES[paper];
+  doc.addPage({ size, margin: 0 });
+
+  const left = paper === 'tent-3.5x2' ? 18 : SHEET_MARGIN;
+  let y = paper === 'tent-3.5x2' ? 24 : SHEET_MARGIN;
+  doc.font(ctx.style.headingFont).fontSize(14).fillColor(theme.neutralDark)
+    .text('Meal key', left, y, { lineBreak: false });
+  y += 30;
+
+  for (const meal of used) {
+    drawMealIcon(ctx, left + 8, y + 6, meals.indexOf(meal), meal);
+    doc.font(ctx.style.bodyFont).fontSize(11).fillColor(theme.neutralDark)
+      .text(meal.name, left + 24, y + 1, { lineBreak: false });
+    y += 22;
+  }
+}
+
+/**
+ * One sign per table: a full page on letter/A4, or a tent card readable from
+ * both sides (the back half is printed upside down)
+ */
+function drawTableSigns(ctx: DrawContext, paper: SeatingPrintPaperSize, tables: PrintTable[], coupleNames: string): void {
+  const { doc } = ctx;
+
+  for (const table of tables) {
+    if (paper === 'tent-3.5x2') {
+      const card = { x: 0, y: 0, w: TENT_CARD[0], h: TENT_CARD[1] };
+      doc.addPage({ size: TENT_CARD, margin: 0 });
+      drawFoldLine(doc, card);
+      const front = frontHalf(card);
+      const back = { ...front, y: card.y };
+      drawTableSign(ctx, front, table.name, coupleNames, 40);
+      doc.save().rotate(180, { origin: [back.x + back.w / 2, back.y + back.h / 2] });
+      drawTableSign(ctx, back, table.name, coupleNames, 40);
+      doc.restore();
+      continue;
+    }
+
+    const [pageW, pageH] = PAPER_SIZES[paper];
+    doc.addPage({ size: [pageW, pageH], margin: 0 });
+    drawTableSign(ctx, inset({ x: 0, y: 0, w: pageW, h: pageH }, SHEET_MARGIN), table.name, coupleNames, 120);
+  }
+}
+
+function drawTableSign(ctx: DrawContext, box: Box, tableName: string, coupleNames: string, maxSize: number): void {
+  const content = inset(box, Math.min(box.w, box.h) * 0.12);
+  drawOrnament(ctx, box, box.y + box.h * 0.68);
+  fitText(ctx, tableName, ctx.style.headingFont, maxSize, content, box.y + box.h * 0.45, ctx.theme.neutralDark);
+  fitText(ctx, coupleNames, ctx.style.bodyFont, maxSize / 5, content, box.y + box.h * 0.8, ctx.theme.primary);
+}
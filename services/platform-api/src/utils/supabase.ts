@@ -73,6 +73,10 @@ export interface DbWedding {
   event_details: Record<string, unknown> | null;
   faq: Record<string, unknown> | null;
   meal_config: Record<string, unknown> | null;
+  rsvp_questions: Record<string, unknown> | null;
+  rsvp_deadline: Record<string, unknown> | null;
+  rsvp_notifications: string;
+  rsvp_lookup: string;
   passcode_config: Record<string, unknown> | null;
   registry: Record<string, unknown> | null;
   accommodations: Record<string, unknown> | null;
@@ -82,7 +86,9 @@ export interface DbWedding {
   photo_moderation_config: Record<string, unknown> | null;
   video: Record<string, unknown> | null;
   social_config: Record<string, unknown> | null;
+  floor_plan: Record<string, unknown> | null;
   language: string | null;
+  timezone: string | null;
   stripe_subscription_id: string | null;
   created_at: string;
   updated_at: string;
@@ -106,7 +112,8 @@ export interface DbGuest {
   id: string;
   wedding_id: string;
   name: string;
-  email: string;
+  email: string | null;
+  household_id: string | null;
   party_size: number;
   plus_one_allowance: number;
   plus_one_guests: Record<string, unknown>[];
@@ -118,11 +125,196 @@ export interface DbGuest {
   rsvp_submitted_at: string | null;
   dietary_notes: string | null;
   meal_option_id: string | null;
+  rsvp_answers: Record<string, unknown>;
   event_rsvps: Record<string, unknown>;
   invited_event_ids: string[] | null;
   tag_ids: string[];
   photo_opt_out: boolean;
+  postal_code: string | null;
+  preferred_language: string | null;
+  calendar_feed_version: number;
   invite_sent_at: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export interface DbHousehold {
+  id: string;
+  wedding_id: string;
+  name: string;
+  primary_guest_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbEventGuestAssignment {
+  id: string;
+  wedding_id: string;
+  guest_id: string;
+  event_id: string;
+  assigned_at: string;
+}
+
+export interface DbSeatingTable {
+  id: string;
+  wedding_id: string;
+  event_id: string | null;
+  name: string;
+  capacity: number;
+  notes: string | null;
+  order: number;
+  shape: string;
+  width: number;
+  height: number;
+  position_x: number | null;
+  position_y: number | null;
+  rotation: number;
+  seats: unknown;
+  created_at: string;
+}
+
+export interface DbSeatingAssignment {
+  id: string;
+  guest_id: string;
+  table_id: string;
+  event_id: string | null;
+  seat_number: number | null;
+  assigned_at: string;
+}
+
+export interface DbEmailOutbox {
+  id: string;
+  wedding_id: string;
+  guest_id: string;
+  email_type: string;
+  status: string;
+  to_email: string;
+  to_name: string;
+  subject: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  bounced_at: string | null;
+  bounce_type: string | null;
+  bounce_reason: string | null;
+  error_message: string | null;
+  message_id: string | null;
+  attempts: number;
+  campaign_id: string | null;
+  scheduled_email_id: string | null;
+  opened_at: string | null;
+  open_count: number;
+  clicked_at: string | null;
+  click_count: number;
+  spam_reported_at: string | null;
+  unsubscribed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbEmailCampaign {
+  id: string;
+  wedding_id: string;
+  email_type: string;
+  total: number;
+  created_at: string;
+}
+
+export interface DbEmailCampaignRecipient {
+  campaign_id: string;
+  guest_id: string;
+  guest_name: string;
+  outbox_id: string | null;
+  error: string | null;
+  suppressed: boolean;
+  created_at: string;
+}
+
+export interface DbEmailSuppression {
+  id: string;
+  wedding_id: string;
+  email: string;
+  reason: string;
+  detail: string | null;
+  created_at: string;
+}
+
+export interface DbGuestSegment {
+  id: string;
+  wedding_id: string;
+  name: string;
+  rules: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbScheduledEmail {
+  id: string;
+  wedding_id: string;
+  guest_ids: string[];
+  segment_id: string | null;
+  email_type: string;
+  scheduled_at: string;
+  status: string;
+  job_id: string | null;
+  results: { sent: number; failed: number; total: number } | null;
+  automatic: boolean;
+  campaign_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbRsvpActivity {
+  id: string;
+  wedding_id: string;
+  guest_id: string;
+  change: string;
+  digested_at: string | null;
+  created_at: string;
+}
+
+export interface DbPhotoUpload {
+  id: string;
+  wedding_id: string;
+  file_name: string;
+  content_type: string;
+  file_size: number;
+  storage_path: string;
+  moderation_required: boolean;
+  expires_at: string;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface DbPhoto {
+  id: string;
+  wedding_id: string;
+  file_name: string;
+  content_type: string;
+  file_size: number;
+  storage_path: string;
+  moderation_status: string;
+  moderated_at: string | null;
+  uploader_name: string | null;
+  uploader_email: string | null;
+  uploaded_at: string;
+  created_at: string;
+}
+
+export interface DbGuestbookMessage {
+  id: string;
+  wedding_id: string;
+  guest_name: string;
+  message: string;
+  status: string;
+  moderated_at: string | null;
+  created_at: string;
+}
+
+export interface DbSongRequest {
+  id: string;
+  wedding_id: string;
+  song_title: string;
+  artist_name: string;
+  requester_name: string | null;
+  created_at: string;
+}
@@ -0,0 +1,54 @@
+import {
+  endOfDayInTimeZone,
+  getEventTimeZone,
+  getWeddingTimeZone,
+  isValidTimeZone,
+  parseScheduledTime,
+} from './wedding-time-zone';
+
+describe('Wedding Time Zone Utilities', () => {
+  describe('getWeddingTimeZone', () => {
+    it('should prefer the wedding setting, then the event details, then UTC', () => {
+      const eventDetails = {
+        date: '2026-06-20',
+        startTime: '16:00',
+        endTime: '23:00',
+        venue: 'Rose Hall',
+        address: '1 Garden Way',
+        city: 'Lisbon',
+        timezone: 'Europe/Lisbon',
+      };
+
+      expect(getWeddingTimeZone({ timezone: 'Europe/Madrid', eventDetails })).toBe('Europe/Madrid');
+      expect(getWeddingTimeZone({ eventDetails })).toBe('Europe/Lisbon');
+      expect(getWeddingTimeZone({ timezone: 'Not/AZone' })).toBe('UTC');
+      expect(getEventTimeZone({ eventDetails }, { timezone: 'America/New_York' })).toBe('America/New_York');
+      expect(getEventTimeZone({ eventDetails }, { timezone: 'Not/AZone' })).toBe('Europe/Lisbon');
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+  });
+
+  describe('parseScheduledTime', () => {
+    it('should read local times in the wedding zone and keep exact instants', () => {
+      expect(parseScheduledTime('2026-06-01T09:30', 'Europe/Lisbon')?.toISOString()).toBe('2026-06-01T08:30:00.000Z');
+      expect(parseScheduledTime('2026-12-01T09:30', 'Europe/Lisbon')?.toISOString()).toBe('2026-12-01T09:30:00.000Z');
+      expect(parseScheduledTime('2026-06-01T09:30:00-04:00', 'Europe/Lisbon')?.toISOString()).toBe(
+        '2026-06-01T13:30:00.000Z',
+      );
+    });
+
+    it('should reject anything else', () => {
+      expect(parseScheduledTime('2026-02-30T09:30', 'UTC')).toBeNull();
+      expect(parseScheduledTime('2026-06-01T24:00', 'UTC')).toBeNull();
+      expect(parseScheduledTime('June 1st', 'UTC')).toBeNull();
+      expect(parseScheduledTime(1780000000000, 'UTC')).toBeNull();
+    });
+  });
+
+  describe('endOfDayInTimeZone', () => {
+    it('should end the day at local midnight', () => {
+      expect(endOfDayInTimeZone('2026-06-20', 'America/Los_Angeles').toISOString()).toBe('2026-06-21T07:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Wedding time zone helpers.
+ *
+ * Everything a couple plans is wall-clock time at the venue: event times,
+ * RSVP deadlines, scheduled sends. The wedding's IANA time zone turns those
+ * into instants. Weddings that never chose one fall back to the zone on their
+ * event details, then UTC.
+ */
+
+import type { Wedding, WeddingEvent } from '../types';
+import { addDays, isValidDateString, resolveTimeZone, zonedTimeToUtc } from './rsvp-deadline';
+
+/**
+ * Local date and time without an offset, e.g. 2026-06-20T09:30
+ */
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T([01]\d|2[0-3]):([0-5]\d)(?::00)?$/;
+
+/**
+ * ISO timestamp with a UTC offset, e.g. 2026-06-20T07:30:00.000Z
+ */
+const OFFSET_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Whether a string is an IANA time zone the runtime knows
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  return typeof value === 'string' && value !== '' && resolveTimeZone(value) === value;
+}
+
+/**
+ * The wedding's time zone
+ */
+export function getWeddingTimeZone(wedding: Pick<Wedding, 'timezone' | 'eventDetails'>): string {
+  return resolveTimeZone(wedding.timezone || wedding.eventDetails?.timezone);
+}
+
+/**
+ * Time zone of one event; events elsewhere than the wedding set their own
+ */
+export function getEventTimeZone(
+  wedding: Pick<Wedding, 'timezone' | 'eventDetails'>,
+  event: Pick<WeddingEvent, 'timezone'> | undefined,
+): string {
+  const timeZone = event?.timezone;
+  return isValidTimeZone(timeZone) ? timeZone : getWeddingTimeZone(wedding);
+}
+
+/**
+ * Parse a send time. A timestamp with an offset is an exact instant; a local
+ * date and time (YYYY-MM-DDTHH:MM) is wall-clock time in the given time zone.
+ *
+ * @returns null if the value is neither
+ */
+export function parseScheduledTime(value: unknown, timeZone: string): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const local = LOCAL_DATE_TIME_PATTERN.exec(value);
+  if (local) {
+    const [, date, hours, minutes] = local;
+    return isValidDateString(date) ? zonedTimeToUtc(date, `${hours}:${minutes}`, timeZone) : null;
+  }
+
+  if (!OFFSET_DATE_TIME_PATTERN.test(value)) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Instant a calendar day (YYYY-MM-DD) ends in a time zone
+ */
+export function endOfDayInTimeZone(date: string, timeZone: string): Date {
+  return zonedTimeToUtc(addDays(date, 1), '00:00', timeZone);
+}
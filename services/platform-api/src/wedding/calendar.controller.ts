@@ -2,42 +2,90 @@ import {
   Controller,
   Get,
   Param,
+  Query,
   NotFoundException,
   ForbiddenException,
   Res,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { Response } from 'express';
 import { WeddingService } from './wedding.service';
-import { FEATURE_DISABLED, EVENT_DETAILS_NOT_CONFIGURED, WEDDING_NOT_FOUND } from '../types';
+import { GuestService } from '../guest/guest.service';
+import {
+  FEATURE_DISABLED,
+  EVENT_DETAILS_NOT_CONFIGURED,
+  EVENT_NOT_FOUND,
+  INVALID_TOKEN,
+  WEDDING_NOT_FOUND,
+} from '../types';
+import type { SupportedLanguage, Wedding } from '../types';
+import {
+  buildGoogleCalendarUrl,
+  buildIcsCalendar,
+  buildOutlookCalendarUrl,
+  buildYahooCalendarUrl,
+  getCalendarEvents,
+  getGuestCalendarEvents,
+  type CalendarEvent,
+} from '../utils/ics';
+import { formatString, getEmailStrings, resolveEmailLanguage } from '../utils/email-i18n';
 
 /**
  * Public controller for calendar invite functionality
- * Provides ICS file download and Google Calendar links
+ * Provides ICS file download, per-event add-to-calendar links and
+ * each guest's personal calendar feed
  */
 @Controller('calendar')
 export class CalendarController {
-  constructor(private readonly weddingService: WeddingService) {}
+  constructor(
+    private readonly weddingService: WeddingService,
+    @Inject(forwardRef(() => GuestService))
+    private readonly guestService: GuestService,
+  ) {}
 
   /**
    * Generate and download ICS calendar file for a wedding
-   * Requires CALENDAR_INVITE feature to be enabled and event details to be configured
+   * Contains every event of the wedding, each in its venue's time zone
    */
   @Get(':slug/download.ics')
   async downloadIcs(
     @Param('slug') slug: string,
     @Res() res: Response,
   ): Promise<void> {
-    const wedding = await this.weddingService.getWeddingBySlug(slug);
+    const { wedding, events } = await this.getPublicCalendarEvents(slug);
 
-    if (!wedding) {
-      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    const icsContent = buildIcsCalendar(events);
+
+    // Set response headers for ICS file download
+    const filename = `${wedding.slug}-wedding.ics`;
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(icsContent);
+  }
+
+  /**
+   * Personal calendar feed with the events a guest is invited to
+   * Calendar apps poll it, so schedule changes reach the guest without another
+   * email. Resetting the guest's feed revokes the token.
+   */
+  @Get('feed/:token/calendar.ics')
+  async getCalendarFeed(
+    @Param('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const guest = await this.guestService.getGuestByCalendarFeedToken(token);
+
+    if (!guest) {
+      throw new NotFoundException({ ok: false, error: INVALID_TOKEN });
     }
 
-    if (wedding.status !== 'active') {
+    const wedding = await this.weddingService.getWedding(guest.weddingId);
+
+    if (!wedding || wedding.status !== 'active') {
       throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
     }
 
-    // Check if CALENDAR_INVITE feature is enabled
     if (!wedding.features.CALENDAR_INVITE) {
       throw new ForbiddenException({
         ok: false,
@@ -45,44 +93,66 @@ export class CalendarController {
       });
     }
 
-    // Check if event details are configured
-    if (!wedding.eventDetails) {
-      throw new ForbiddenException({
-        ok: false,
-        error: EVENT_DETAILS_NOT_CONFIGURED,
-      });
-    }
+    const language = resolveEmailLanguage(guest.preferredLanguage, wedding.language);
+    const { title, events } = this.getCalendarEvents(wedding, language);
 
-    const { date, startTime, endTime, venue, address, city, timezone } =
-      wedding.eventDetails;
-
-    // Generate ICS content
-    const icsContent = this.generateIcsContent({
-      title: `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}'s Wedding`,
-      date,
-      startTime,
-      endTime,
-      location: `${venue}, ${address}, ${city}`,
-      description: `Join us to celebrate the wedding of ${wedding.partnerNames[0]} and ${wedding.partnerNames[1]}.`,
-      timezone: timezone || 'UTC',
+    const icsContent = buildIcsCalendar(getGuestCalendarEvents(guest, events), {
+      guestId: guest.id,
+      feedName: title,
     });
 
-    // Set response headers for ICS file download
-    const filename = `${wedding.slug}-wedding.ics`;
     res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.send(icsContent);
   }
 
   /**
-   * Get Google Calendar link for a wedding
-   * Returns a redirect URL that opens Google Calendar with prefilled event details
+   * Get Google Calendar link for a wedding event
+   * Redirects to Google Calendar with the event prefilled; the first event
+   * is used when none is given
    */
   @Get(':slug/google')
   async getGoogleCalendarLink(
     @Param('slug') slug: string,
+    @Query('event') eventId: string | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    const event = await this.getPublicCalendarEvent(slug, eventId);
+    res.redirect(buildGoogleCalendarUrl(event));
+  }
+
+  /**
+   * Get Outlook.com calendar link for a wedding event
+   */
+  @Get(':slug/outlook')
+  async getOutlookCalendarLink(
+    @Param('slug') slug: string,
+    @Query('event') eventId: string | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    const event = await this.getPublicCalendarEvent(slug, eventId);
+    res.redirect(buildOutlookCalendarUrl(event));
+  }
+
+  /**
+   * Get Yahoo Calendar link for a wedding event
+   */
+  @Get(':slug/yahoo')
+  async getYahooCalendarLink(
+    @Param('slug') slug: string,
+    @Query('event') eventId: string | undefined,
     @Res() res: Response,
   ): Promise<void> {
+    const event = await this.getPublicCalendarEvent(slug, eventId);
+    res.redirect(buildYahooCalendarUrl(event));
+  }
+
+  /**
+   * Calendar entries of a published wedding
+   * Requires CALENDAR_INVITE feature to be enabled and event details to be configured
+   */
+  private async getPublicCalendarEvents(
+    slug: string,
+  ): Promise<{ wedding: Wedding; events: CalendarEvent[] }> {
     const wedding = await this.weddingService.getWeddingBySlug(slug);
 
     if (!wedding) {
@@ -101,116 +171,57 @@ export class CalendarController {
       });
     }
 
+    const { events } = this.getCalendarEvents(
+      wedding,
+      resolveEmailLanguage(undefined, wedding.language),
+    );
+
     // Check if event details are configured
-    if (!wedding.eventDetails) {
+    if (events.length === 0) {
       throw new ForbiddenException({
         ok: false,
         error: EVENT_DETAILS_NOT_CONFIGURED,
       });
     }
 
-    const { date, startTime, endTime, venue, address, city } =
-      wedding.eventDetails;
-
-    // Build Google Calendar URL
-    const googleCalendarUrl = this.buildGoogleCalendarUrl({
-      title: `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}'s Wedding`,
-      date,
-      startTime,
-      endTime,
-      location: `${venue}, ${address}, ${city}`,
-      description: `Join us to celebrate the wedding of ${wedding.partnerNames[0]} and ${wedding.partnerNames[1]}.`,
-    });
-
-    res.redirect(googleCalendarUrl);
+    return { wedding, events };
   }
 
   /**
-   * Generate ICS file content
+   * Single calendar entry for an add-to-calendar link
    */
-  private generateIcsContent(params: {
-    title: string;
-    date: string;
-    startTime: string;
-    endTime: string;
-    location: string;
-    description: string;
-    timezone: string;
-  }): string {
-    const { title, date, startTime, endTime, location, description, timezone } =
-      params;
-
-    // Convert date and time to ICS format (YYYYMMDDTHHMMSS)
-    const dateNoHyphens = date.replace(/-/g, '');
-    const startTimeNoColon = startTime.replace(':', '') + '00';
-    const endTimeNoColon = endTime.replace(':', '') + '00';
-
-    const dtStart = `${dateNoHyphens}T${startTimeNoColon}`;
-    const dtEnd = `${dateNoHyphens}T${endTimeNoColon}`;
-
-    // Generate a unique ID for the event
-    const uid = `${dateNoHyphens}-${Date.now()}@wedding-bestie`;
-
-    // Escape special characters for ICS
-    const escapeIcs = (str: string) =>
-      str.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\n/g, '\\n');
-
-    const now = new Date()
-      .toISOString()
-      .replace(/[-:]/g, '')
-      .replace(/\.\d{3}/, '');
-
-    const lines = [
-      'BEGIN:VCALENDAR',
-      'VERSION:2.0',
-      'PRODID:-//Wedding Bestie//Calendar Invite//EN',
-      'CALSCALE:GREGORIAN',
-      'METHOD:PUBLISH',
-      'BEGIN:VEVENT',
-      `UID:${uid}`,
-      `DTSTAMP:${now}`,
-      `DTSTART;TZID=${timezone}:${dtStart}`,
-      `DTEND;TZID=${timezone}:${dtEnd}`,
-      `SUMMARY:${escapeIcs(title)}`,
-      `DESCRIPTION:${escapeIcs(description)}`,
-      `LOCATION:${escapeIcs(location)}`,
-      'STATUS:CONFIRMED',
-      'TRANSP:OPAQUE',
-      'END:VEVENT',
-      'END:VCALENDAR',
-    ];
-
-    return lines.join('\r\n');
+  private async getPublicCalendarEvent(
+    slug: string,
+    eventId: string | undefined,
+  ): Promise<CalendarEvent> {
+    const { events } = await this.getPublicCalendarEvents(slug);
+    const event = eventId ? events.find((e) => e.id === eventId) : events[0];
+
+    if (!event) {
+      throw new NotFoundException({ ok: false, error: EVENT_NOT_FOUND });
+    }
+
+    return event;
   }
 
   /**
-   * Build Google Calendar event URL
+   * Calendar entries with titles in the given language
    */
-  private buildGoogleCalendarUrl(params: {
-    title: string;
-    date: string;
-    startTime: string;
-    endTime: string;
-    location: string;
-    description: string;
-  }): string {
-    const { title, date, startTime, endTime, location, description } = params;
-
-    // Convert to Google Calendar date format (YYYYMMDDTHHMMSS)
-    const dateNoHyphens = date.replace(/-/g, '');
-    const startTimeNoColon = startTime.replace(':', '') + '00';
-    const endTimeNoColon = endTime.replace(':', '') + '00';
-
-    const dates = `${dateNoHyphens}T${startTimeNoColon}/${dateNoHyphens}T${endTimeNoColon}`;
-
-    const params_obj = new URLSearchParams({
-      action: 'TEMPLATE',
-      text: title,
-      dates,
-      location,
-      details: description,
-    });
-
-    return `https://www.google.com/calendar/render?${params_obj.toString()}`;
+  private getCalendarEvents(
+    wedding: Wedding,
+    language: SupportedLanguage,
+  ): { title: string; events: CalendarEvent[] } {
+    const strings = getEmailStrings(language);
+    const partners = `${wedding.partnerNames[0]} & ${wedding.partnerNames[1]}`;
+    const title = formatString(strings.calendarTitle, { partners });
+
+    return {
+      title,
+      events: getCalendarEvents(
+        wedding,
+        title,
+        formatString(strings.calendarDescription, { partners }),
+      ),
+    };
   }
 }
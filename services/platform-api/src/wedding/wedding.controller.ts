@@ -10,9 +10,13 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  Inject,
+  Logger,
+  forwardRef,
 } from '@nestjs/common';
 import { WeddingService } from './wedding.service';
 import { AdminAuthService } from '../auth/admin-auth.service';
+import { InvitationService } from '../invitation/invitation.service';
 import type {
   ApiResponse,
   Wedding,
@@ -33,6 +37,10 @@ import type {
   UpdateHeroContentResponse,
   UpdateMealOptionsRequest,
   UpdateMealOptionsResponse,
+  UpdateRsvpQuestionsRequest,
+  UpdateRsvpQuestionsResponse,
+  RsvpQuestion,
+  RsvpQuestionType,
   UpdateRegistryRequest,
   UpdateRegistryResponse,
   UpdateAccommodationsRequest,
@@ -55,6 +63,8 @@ import type {
   PublishDraftResponse,
   DiscardDraftResponse,
   DraftRenderConfigResponse,
+  UpdateTimeZoneRequest,
+  UpdateTimeZoneResponse,
 } from '../types';
 import {
   TEMPLATE_NOT_FOUND,
@@ -68,6 +78,7 @@ import {
   NO_DRAFT_EXISTS,
   NO_CHANGES_TO_PUBLISH,
   INVALID_LANGUAGE,
+  INVALID_TIMEZONE,
   CUSTOM_DOMAIN_ALREADY_EXISTS,
   CUSTOM_DOMAIN_NOT_CONFIGURED,
   INVALID_DOMAIN_FORMAT,
@@ -79,12 +90,29 @@ import type {
   RemoveCustomDomainResponse,
   GetCustomDomainResponse,
 } from '../types';
+import { isValidDateString } from '../utils/rsvp-deadline';
+import { isValidTimeZone } from '../utils/wedding-time-zone';
+import { EMAIL_TEMPLATE_TYPES, validateEmailTemplates } from '../utils/email-template';
+
+/**
+ * Answer formats a custom RSVP question can use
+ */
+const RSVP_QUESTION_TYPES: RsvpQuestionType[] = ['text', 'single_choice', 'multi_choice', 'number'];
+
+/**
+ * Upper bound on custom RSVP questions, to keep the RSVP form short
+ */
+const MAX_RSVP_QUESTIONS = 20;
 
 @Controller('weddings')
 export class WeddingController {
+  private readonly logger = new Logger(WeddingController.name);
+
   constructor(
     private readonly weddingService: WeddingService,
     private readonly adminAuthService: AdminAuthService,
+    @Inject(forwardRef(() => InvitationService))
+    private readonly invitationService: InvitationService,
   ) {}
 
   /**
@@ -342,6 +370,7 @@ export class WeddingController {
     const hasInvitationStyle = Object.prototype.hasOwnProperty.call(body.heroContent, 'invitationStyle');
     const hasInvitationMessage = Object.prototype.hasOwnProperty.call(body.heroContent, 'invitationMessage');
     const hasShowDate = Object.prototype.hasOwnProperty.call(body.heroContent, 'showDate');
+    const hasShowCountdown = Object.prototype.hasOwnProperty.call(body.heroContent, 'showCountdown');
 
     if (!headline) {
       throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
@@ -353,6 +382,7 @@ export class WeddingController {
       ...(hasInvitationStyle ? { invitationStyle: invitationStyle || 'classic' } : {}),
       ...(hasInvitationMessage ? { invitationMessage: invitationMessage ?? '' } : {}),
       ...(hasShowDate ? { showDate: Boolean(body.heroContent.showDate) } : {}),
+      ...(hasShowCountdown ? { showCountdown: Boolean(body.heroContent.showCountdown) } : {}),
     };
 
     const result = await this.weddingService.updateHeroContent(id, heroContent);
@@ -368,6 +398,7 @@ export class WeddingController {
    * Update event details for a wedding
    * Required for calendar invites to work properly
    * Supports both single-event (legacy) and multi-event configurations
+   * Events removed here are cancelled in the calendars of invited guests
    */
   @Put(':id/event-details')
   async updateEventDetails(
@@ -410,6 +441,14 @@ export class WeddingController {
         if (!/^\d{2}:\d{2}$/.test(event.startTime) || !/^\d{2}:\d{2}$/.test(event.endTime)) {
           throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
         }
+        // Validate optional per-event RSVP deadline
+        if (event.rsvpDeadline !== undefined && !isValidDateString(event.rsvpDeadline)) {
+          throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
+        }
+        // Validate optional per-event time zone
+        if (event.timezone && !isValidTimeZone(event.timezone)) {
+          throw new BadRequestException({ ok: false, error: INVALID_TIMEZONE });
+        }
       }
     } else {
       // Legacy single-event validation
@@ -434,6 +473,13 @@ export class WeddingController {
       throw new NotFoundException({ ok: false, error: NOT_FOUND });
     }
 
+    // Guests already sent a calendar invite get removed events cancelled
+    try {
+      await this.invitationService.queueCalendarCancellations(wedding, result.wedding);
+    } catch (error) {
+      this.logger.error(`Failed to queue calendar updates for wedding ${id}`, error);
+    }
+
     return { ok: true, data: result };
   }
 
@@ -561,6 +607,112 @@ export class WeddingController {
     return { ok: true, data: result };
   }
 
+  /**
+   * Update custom RSVP questions for a wedding
+   * Questions can be text, single choice, multi choice or number, optionally
+   * scoped to one event and optionally required for attending guests
+   */
+  @Put(':id/rsvp-questions')
+  async updateRsvpQuestions(
+    @Headers('authorization') authHeader: string,
+    @Param('id') id: string,
+    @Body() body: UpdateRsvpQuestionsRequest,
+  ): Promise<ApiResponse<UpdateRsvpQuestionsResponse>> {
+    const user = await this.requireAuth(authHeader);
+    const wedding = await this.weddingService.getWedding(id);
+
+    if (!wedding || wedding.userId !== user.id) {
+      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    }
+
+    // Custom questions are part of the RSVP form
+    if (!wedding.features.RSVP) {
+      throw new ForbiddenException({
+        ok: false,
+        error: FEATURE_DISABLED,
+      });
+    }
+
+    const questions = body.rsvpQuestions?.questions;
+    if (!Array.isArray(questions)) {
+      throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
+    }
+    if (questions.length > MAX_RSVP_QUESTIONS) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: `An RSVP form can have at most ${MAX_RSVP_QUESTIONS} custom questions`,
+      });
+    }
+
+    const eventIds = new Set((wedding.eventDetails?.events ?? []).map((event) => event.id));
+    const normalizedQuestions: RsvpQuestion[] = questions.map((question, index) => {
+      const label = question.label?.trim();
+      if (!label) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: 'Each question needs a label',
+        });
+      }
+      if (!RSVP_QUESTION_TYPES.includes(question.type)) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: `Question "${label}" has an unknown type`,
+        });
+      }
+      if (question.eventId && !eventIds.has(question.eventId)) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: `Question "${label}" refers to an event that does not exist`,
+        });
+      }
+
+      let options: string[] | undefined;
+      if (question.type === 'single_choice' || question.type === 'multi_choice') {
+        options = (question.options ?? []).map((option) => option?.trim()).filter(Boolean);
+        if (options.length < 2 || new Set(options).size !== options.length) {
+          throw new BadRequestException({
+            ok: false,
+            error: VALIDATION_ERROR,
+            message: `Question "${label}" needs at least two distinct choices`,
+          });
+        }
+      }
+
+      return {
+        id: question.id || `question-${Date.now()}-${index}`,
+        label,
+        type: question.type,
+        options,
+        required: question.required === true,
+        eventId: question.eventId || undefined,
+        order: question.order ?? index,
+      };
+    });
+
+    // Answers are keyed by question ID
+    if (new Set(normalizedQuestions.map((question) => question.id)).size !== normalizedQuestions.length) {
+      throw new BadRequestException({
+        ok: false,
+        error: VALIDATION_ERROR,
+        message: 'Question IDs must be unique',
+      });
+    }
+
+    const updated = await this.weddingService.updateRsvpQuestions(id, {
+      questions: normalizedQuestions,
+    });
+
+    if (!updated) {
+      throw new NotFoundException({ ok: false, error: NOT_FOUND });
+    }
+
+    return { ok: true, data: { wedding: updated } };
+  }
+
   /**
    * Update gift registry links for a wedding
    * PRD: "Admin can add gift registry links"
@@ -1372,6 +1524,47 @@ export class WeddingController {
     return { ok: true, data: result };
   }
 
+  /**
+   * Set the wedding's time zone
+   * Event times, RSVP deadlines and scheduled sends are read as wall-clock
+   * times in it, so automatic deadline reminders are rescheduled
+   */
+  @Put(':id/timezone')
+  async updateTimeZone(
+    @Headers('authorization') authHeader: string,
+    @Param('id') id: string,
+    @Body() body: UpdateTimeZoneRequest,
+  ): Promise<ApiResponse<UpdateTimeZoneResponse>> {
+    const user = await this.requireAuth(authHeader);
+    const wedding = await this.weddingService.getWedding(id);
+
+    if (!wedding) {
+      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    }
+
+    if (wedding.userId !== user.id) {
+      throw new NotFoundException({ ok: false, error: WEDDING_NOT_FOUND });
+    }
+
+    if (!body?.timezone) {
+      throw new BadRequestException({ ok: false, error: VALIDATION_ERROR });
+    }
+
+    if (!isValidTimeZone(body.timezone)) {
+      throw new BadRequestException({ ok: false, error: INVALID_TIMEZONE });
+    }
+
+    const result = await this.weddingService.updateTimeZone(id, body.timezone);
+
+    if (!result) {
+      throw new NotFoundException({ ok: false, error: NOT_FOUND });
+    }
+
+    const scheduledReminders = await this.invitationService.scheduleDeadlineReminders(result.wedding);
+
+    return { ok: true, data: { ...result, scheduledReminders } };
+  }
+
   // ============================================================================
   // Preview / Draft Workflow Endpoints
   // PRD: "Admin can preview site before publishing"
@@ -1606,6 +1799,35 @@ export class WeddingController {
           });
         }
       }
+
+      // Language variants need a language guests can choose, and the same required parts
+      for (const [language, variants] of Object.entries(templates.byLanguage ?? {})) {
+        if (!this.weddingService.isValidLanguage(language)) {
+          throw new BadRequestException({ ok: false, error: INVALID_LANGUAGE });
+        }
+        const incomplete = EMAIL_TEMPLATE_TYPES.find((type) => {
+          const variant = variants?.[type];
+          return variant && (!variant.subject || !variant.bodyText);
+        });
+        if (incomplete) {
+          throw new BadRequestException({
+            ok: false,
+            error: VALIDATION_ERROR,
+            message: `The ${language} ${incomplete} template requires subject and bodyText`,
+          });
+        }
+      }
+
+      // PRD: "Email templates support merge fields" - reject tags that would not render
+      const errors = validateEmailTemplates(templates);
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          ok: false,
+          error: VALIDATION_ERROR,
+          message: errors[0].message,
+          errors,
+        });
+      }
     }
 
     const result = await this.weddingService.updateEmailTemplates(id, body.emailTemplates);
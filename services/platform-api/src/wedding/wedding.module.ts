@@ -4,9 +4,15 @@ import { SiteConfigController } from './site-config.controller';
 import { CalendarController } from './calendar.controller';
 import { WeddingService } from './wedding.service';
 import { AuthModule } from '../auth/auth.module';
+import { InvitationModule } from '../invitation/invitation.module';
+import { GuestModule } from '../guest/guest.module';
 
 @Module({
-  imports: [forwardRef(() => AuthModule)],
+  imports: [
+    forwardRef(() => AuthModule),
+    forwardRef(() => InvitationModule),
+    forwardRef(() => GuestModule),
+  ],
   controllers: [WeddingController, SiteConfigController, CalendarController],
   providers: [WeddingService],
   exports: [WeddingService],
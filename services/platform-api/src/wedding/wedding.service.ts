@@ -3,6 +3,7 @@ import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
 import { verifyDnsRecords, generateVerificationToken } from '../utils/dns-verification';
 import { getSupabaseClient, DbWedding, DbWeddingSite } from '../utils/supabase';
+import { getWeddingTimeZone } from '../utils/wedding-time-zone';
 import type {
   Wedding,
   WeddingStatus,
@@ -21,6 +22,10 @@ import type {
   PasscodeConfigBase,
   HeroContentData,
   MealConfig,
+  RsvpQuestionsConfig,
+  RsvpDeadlineConfig,
+  RsvpNotificationPreference,
+  RsvpLookupMode,
   RegistryLink,
   RegistryConfig,
   Hotel,
@@ -407,6 +412,10 @@ export class WeddingService {
       eventDetails: db.event_details as unknown as EventDetailsData | undefined,
       faq: parseFaq(db.faq),
       mealConfig: db.meal_config as unknown as MealConfig | undefined,
+      rsvpQuestions: (db.rsvp_questions ?? undefined) as unknown as RsvpQuestionsConfig | undefined,
+      rsvpDeadline: (db.rsvp_deadline ?? undefined) as unknown as RsvpDeadlineConfig | undefined,
+      rsvpNotifications: (db.rsvp_notifications ?? 'instant') as RsvpNotificationPreference,
+      rsvpLookup: (db.rsvp_lookup ?? 'email_link') as RsvpLookupMode,
       passcodeConfig: db.passcode_config as unknown as PasscodeConfigBase | undefined,
       registry: parseRegistry(db.registry),
       accommodations: parseAccommodations(db.accommodations),
@@ -419,6 +428,7 @@ export class WeddingService {
       video: parseVideo(db.video),
       socialConfig: db.social_config as SocialConfig | undefined,
       language: db.language || undefined,
+      timezone: db.timezone || undefined,
     };
   }
 
@@ -499,6 +509,9 @@ export class WeddingService {
       config.mealConfig = wedding.mealConfig;
     }
 
+    config.rsvpDeadline = wedding.rsvpDeadline?.date;
+    config.timezone = getWeddingTimeZone(wedding);
+
     return config;
   }
 
@@ -908,6 +921,103 @@ export class WeddingService {
     return wedding ? { wedding, renderConfig: config } : null;
   }
 
+  /**
+   * Update custom RSVP questions
+   * Questions are served with each guest's RSVP view, not the render config
+   */
+  async updateRsvpQuestions(
+    weddingId: string,
+    rsvpQuestions: RsvpQuestionsConfig,
+  ): Promise<Wedding | null> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('weddings')
+      .update({ rsvp_questions: rsvpQuestions, updated_at: new Date().toISOString() })
+      .eq('id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to update RSVP questions for wedding ${weddingId}`, error);
+      throw new Error('Failed to update RSVP questions');
+    }
+
+    return this.getWedding(weddingId);
+  }
+
+  /**
+   * Set or clear the RSVP deadline
+   * The date is shown on the site; reminders are scheduled separately by InvitationService
+   */
+  async updateRsvpDeadline(
+    weddingId: string,
+    rsvpDeadline: RsvpDeadlineConfig | null,
+  ): Promise<{ wedding: Wedding; renderConfig: RenderConfig } | null> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('weddings')
+      .update({ rsvp_deadline: rsvpDeadline, updated_at: new Date().toISOString() })
+      .eq('id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to update RSVP deadline for wedding ${weddingId}`, error);
+      throw new Error('Failed to update RSVP deadline');
+    }
+
+    const config = await this.getDraftRenderConfig(weddingId);
+    if (!config) return null;
+
+    config.rsvpDeadline = rsvpDeadline?.date;
+    await this.updateRenderConfig(weddingId, config);
+
+    const wedding = await this.getWedding(weddingId);
+    return wedding ? { wedding, renderConfig: config } : null;
+  }
+
+  /**
+   * Set how the couple hears about new and changed RSVPs
+   */
+  async updateRsvpNotifications(
+    weddingId: string,
+    rsvpNotifications: RsvpNotificationPreference,
+  ): Promise<Wedding | null> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('weddings')
+      .update({ rsvp_notifications: rsvpNotifications, updated_at: new Date().toISOString() })
+      .eq('id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to update RSVP notifications for wedding ${weddingId}`, error);
+      throw new Error('Failed to update RSVP notifications');
+    }
+
+    return this.getWedding(weddingId);
+  }
+
+  /**
+   * Set what happens when a guest finds their invitation on the site
+   */
+  async updateRsvpLookup(
+    weddingId: string,
+    rsvpLookup: RsvpLookupMode,
+  ): Promise<Wedding | null> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('weddings')
+      .update({ rsvp_lookup: rsvpLookup, updated_at: new Date().toISOString() })
+      .eq('id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to update RSVP lookup for wedding ${weddingId}`, error);
+      throw new Error('Failed to update RSVP lookup');
+    }
+
+    return this.getWedding(weddingId);
+  }
+
   /**
    * Update passcode
    */
@@ -1044,6 +1154,36 @@ export class WeddingService {
     return wedding ? { wedding, renderConfig: config } : null;
   }
 
+  /**
+   * Set the wedding's time zone
+   * The site shows dates and times in it, so the render config gets it too
+   */
+  async updateTimeZone(
+    weddingId: string,
+    timezone: string,
+  ): Promise<{ wedding: Wedding; renderConfig: RenderConfig } | null> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('weddings')
+      .update({ timezone, updated_at: new Date().toISOString() })
+      .eq('id', weddingId);
+
+    if (error) {
+      this.logger.error(`Failed to update time zone for wedding ${weddingId}`, error);
+      throw new Error('Failed to update time zone');
+    }
+
+    const config = await this.getDraftRenderConfig(weddingId);
+    if (!config) return null;
+
+    config.timezone = timezone;
+    await this.updateRenderConfig(weddingId, config);
+
+    const wedding = await this.getWedding(weddingId);
+    return wedding ? { wedding, renderConfig: config } : null;
+  }
+
   // Video parsing helper
   parseVideoUrl(url: string): { platform: VideoEmbedPlatform; videoId: string } | null {
     try {
@@ -1256,6 +1396,9 @@ export class WeddingService {
         if ('showDate' in heroContent) {
           nextData.showDate = heroContent.showDate;
         }
+        if ('showCountdown' in heroContent) {
+          nextData.showCountdown = heroContent.showCountdown;
+        }
 
         return {
           ...section,
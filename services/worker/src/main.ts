@@ -1,10 +1,26 @@
-import { Worker } from 'bullmq';
+import { Queue, UnrecoverableError, Worker, type Job } from 'bullmq';
+import {
+  createEmailTransport,
+  isRetryableStatus,
+  type EmailSendResult,
+} from '@wedding-bestie/email';
 import type {
+  DeadLetterJobData,
+  EmailCampaignJobData,
+  PreparedCampaignEmail,
   ReminderJobData,
+  RsvpNotificationJobData,
   ScheduledEmailJobData,
   UpdateOutboxStatusRequest,
 } from './types.js';
-import { REMINDER_QUEUE_NAME, SCHEDULED_EMAIL_QUEUE_NAME } from './types.js';
+import {
+  CAMPAIGN_EMAIL_QUEUE_NAME,
+  EMAIL_DEAD_LETTER_QUEUE_NAME,
+  REMINDER_QUEUE_NAME,
+  RSVP_DIGEST_QUEUE_NAME,
+  RSVP_NOTIFICATION_QUEUE_NAME,
+  SCHEDULED_EMAIL_QUEUE_NAME,
+} from './types.js';
 
 type RedisConnection = {
   host: string;
@@ -15,15 +31,13 @@ type RedisConnection = {
   tls?: Record<string, unknown>;
 };
 
-interface SendEmailResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
-}
-
 const DEFAULT_REDIS_PORT = 6379;
 const DEFAULT_CONCURRENCY = 5;
 const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+const DEFAULT_SCHEDULED_EMAIL_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_RSVP_DIGEST_CRON = '0 8 * * *';
+const DEFAULT_EMAIL_RATE_LIMIT_MAX = 10;
+const DEFAULT_EMAIL_RATE_LIMIT_DURATION_MS = 1000;
 
 function getRequestTimeoutMs(): number {
   const timeoutMs = Number(process.env.WORKER_REQUEST_TIMEOUT_MS);
@@ -33,6 +47,36 @@ function getRequestTimeoutMs(): number {
   return DEFAULT_REQUEST_TIMEOUT_MS;
 }
 
+/**
+ * How long to wait for the API to run a scheduled send
+ * Much longer than other requests: the API prepares every guest's reminder or
+ * campaign job before it answers. A retry after a timeout is still safe, since
+ * the API lets only one run of a send start and resumes what an earlier one queued.
+ */
+function getScheduledEmailTimeoutMs(): number {
+  const timeoutMs = Number(process.env.WORKER_SCHEDULED_EMAIL_TIMEOUT_MS);
+  if (Number.isFinite(timeoutMs) && timeoutMs > 0) {
+    return timeoutMs;
+  }
+  return DEFAULT_SCHEDULED_EMAIL_TIMEOUT_MS;
+}
+
+/**
+ * BullMQ limiter for queues that send bulk email, so sends stay under the
+ * provider's rate limit. Applies per queue: at most EMAIL_RATE_LIMIT_MAX jobs
+ * every EMAIL_RATE_LIMIT_DURATION_MS across all worker processes.
+ */
+function getEmailRateLimit(): { max: number; duration: number } {
+  const max = Number(process.env.EMAIL_RATE_LIMIT_MAX);
+  const duration = Number(process.env.EMAIL_RATE_LIMIT_DURATION_MS);
+  return {
+    max: Number.isInteger(max) && max > 0 ? max : DEFAULT_EMAIL_RATE_LIMIT_MAX,
+    duration: Number.isFinite(duration) && duration > 0
+      ? duration
+      : DEFAULT_EMAIL_RATE_LIMIT_DURATION_MS,
+  };
+}
+
 function getRedisConnection(): RedisConnection {
   const redisUrl = process.env.REDIS_URL;
   if (redisUrl) {
@@ -77,68 +121,97 @@ function getRedisConnection(): RedisConnection {
   return connection;
 }
 
-async function sendEmail(data: ReminderJobData): Promise<SendEmailResult> {
-  const sendgridApiKey = process.env.SENDGRID_API_KEY;
-  const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'invites@everbloom.wedding';
-  const fromName = process.env.SENDGRID_FROM_NAME || 'Everbloom Weddings';
-  const isProduction = process.env.NODE_ENV === 'production';
-
-  if (!sendgridApiKey) {
-    if (isProduction) {
-      const errorMessage = 'SENDGRID_API_KEY is missing in production.';
-      console.error(errorMessage);
-      return { success: false, error: errorMessage };
-    }
+// Same transport as the platform API, selected by EMAIL_PROVIDER
+const emailTransport = createEmailTransport({ timeoutMs: getRequestTimeoutMs() });
+
+async function sendEmail(
+  data: ReminderJobData | RsvpNotificationJobData | PreparedCampaignEmail,
+): Promise<EmailSendResult> {
+  return emailTransport.send({
+    to: data.toEmail,
+    toName: data.toName,
+    subject: data.subject,
+    htmlBody: data.htmlBody,
+    textBody: data.textBody,
+    headers: 'headers' in data ? data.headers : undefined,
+    attachments: data.attachments,
+  });
+}
 
-    console.log('DEVELOPMENT MODE - Reminder email would be sent.');
-    console.log(`To: ${data.toName} <${data.toEmail}>`);
-    console.log(`Subject: ${data.subject}`);
-    return {
-      success: true,
-      messageId: `dev-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
-    };
+// ============================================================================
+// Retries and Dead Letters
+// Jobs carry their retry policy (attempts, exponential backoff) from the API.
+// Transient failures throw a plain Error so BullMQ retries them; permanent ones
+// throw UnrecoverableError to skip the remaining attempts. Once a job has failed
+// for good it moves to the dead-letter queue for the couple to retry or discard.
+// ============================================================================
+
+/**
+ * Whether this run is the job's last chance
+ */
+function isFinalAttempt(job: Job): boolean {
+  return job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Error for a failed send: retried unless the provider refused the email outright
+ */
+function sendError(result: EmailSendResult, fallbackMessage: string): Error {
+  const message = result.error || fallbackMessage;
+  return result.retryable === false ? new UnrecoverableError(message) : new Error(message);
+}
+
+/**
+ * Error for a failed platform API call: retried for timeouts, 429 and 5xx only
+ */
+async function apiError(response: Response, context: string): Promise<Error> {
+  const errorText = await response.text();
+  const message = `${context}: ${response.status} - ${errorText}`;
+  return isRetryableStatus(response.status) ? new Error(message) : new UnrecoverableError(message);
+}
+
+const deadLetterQueue = new Queue<DeadLetterJobData>(EMAIL_DEAD_LETTER_QUEUE_NAME, {
+  connection: getRedisConnection(),
+});
+
+/**
+ * Move a job that failed for good to the dead-letter queue
+ * The original is removed so the API can put it back under the same job ID.
+ */
+async function deadLetter(
+  queueName: string,
+  job: Job<{ weddingId?: string }> | undefined,
+  error: Error,
+): Promise<void> {
+  if (!job?.id) {
+    return;
+  }
+
+  const retriesLeft = job.attemptsMade < (job.opts.attempts ?? 1);
+  if (retriesLeft && error.name !== 'UnrecoverableError') {
+    return;
   }
 
   try {
-    const timeoutSignal = AbortSignal.timeout(getRequestTimeoutMs());
-    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${sendgridApiKey}`,
-        'Content-Type': 'application/json',
+    await deadLetterQueue.add(
+      job.name,
+      {
+        queueName,
+        jobId: job.id,
+        jobName: job.name,
+        weddingId: job.data.weddingId,
+        data: job.data,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade,
+        failedAt: new Date().toISOString(),
       },
-      signal: timeoutSignal,
-      body: JSON.stringify({
-        personalizations: [
-          {
-            to: [{ email: data.toEmail, name: data.toName }],
-          },
-        ],
-        from: { email: fromEmail, name: fromName },
-        subject: data.subject,
-        content: [
-          { type: 'text/plain', value: data.textBody },
-          { type: 'text/html', value: data.htmlBody },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`SendGrid API error: ${response.status} - ${errorText}`);
-      return {
-        success: false,
-        error: `SendGrid API error: ${response.status}`,
-      };
-    }
-
-    const messageId = response.headers.get('X-Message-Id') || `sg-${Date.now()}`;
-    console.log(`Reminder email sent to ${data.toEmail}, messageId: ${messageId}`);
-    return { success: true, messageId };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`Failed to send reminder email: ${errorMessage}`);
-    return { success: false, error: errorMessage };
+      { jobId: `${queueName}_${job.id}` },
+    );
+    await job.remove();
+    console.warn(`Moved ${queueName} job ${job.id} to ${EMAIL_DEAD_LETTER_QUEUE_NAME}.`);
+  } catch (deadLetterError) {
+    const errorMessage = deadLetterError instanceof Error ? deadLetterError.message : 'Unknown error';
+    console.error(`Failed to dead-letter ${queueName} job ${job.id}: ${errorMessage}`);
   }
 }
 
@@ -197,20 +270,27 @@ const reminderWorker = new Worker<ReminderJobData>(
     const sendResult = await sendEmail(job.data);
 
     if (sendResult.success) {
-      await reportOutboxStatus(job.data.weddingId, job.data.outboxId, { status: 'sent' });
+      await reportOutboxStatus(job.data.weddingId, job.data.outboxId, {
+        status: 'sent',
+        messageId: sendResult.messageId,
+      });
       return { status: 'sent' };
     }
 
-    await reportOutboxStatus(job.data.weddingId, job.data.outboxId, {
-      status: 'failed',
-      errorMessage: sendResult.error,
-    });
+    // Keep the outbox pending while retries remain
+    if (sendResult.retryable === false || isFinalAttempt(job)) {
+      await reportOutboxStatus(job.data.weddingId, job.data.outboxId, {
+        status: 'failed',
+        errorMessage: sendResult.error,
+      });
+    }
 
-    throw new Error(sendResult.error || 'Failed to send reminder');
+    throw sendError(sendResult, 'Failed to send reminder');
   },
   {
     connection: getRedisConnection(),
     concurrency,
+    limiter: getEmailRateLimit(),
   },
 );
 
@@ -224,6 +304,102 @@ reminderWorker.on('completed', (job) => {
 
 reminderWorker.on('failed', (job, error) => {
   console.error(`Reminder job ${job?.id} failed: ${error.message}`);
+  void deadLetter(REMINDER_QUEUE_NAME, job, error);
+});
+
+// ============================================================================
+// Campaign Email Worker
+// Invitations, save-the-dates and thank-yous: one job per selected guest
+// ============================================================================
+
+async function prepareCampaignEmail(
+  data: EmailCampaignJobData,
+): Promise<PreparedCampaignEmail | null> {
+  const apiBaseUrl = process.env.PLATFORM_API_URL || 'http://localhost:3001/api';
+  const workerToken = process.env.WORKER_TOKEN;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (workerToken) {
+    headers['x-worker-token'] = workerToken;
+  }
+
+  const response = await fetch(
+    `${apiBaseUrl}/weddings/${data.weddingId}/invitations/campaigns/${data.campaignId}/prepare`,
+    {
+      method: 'POST',
+      headers,
+      signal: AbortSignal.timeout(getRequestTimeoutMs()),
+      body: JSON.stringify({ guestId: data.guestId }),
+    },
+  );
+
+  if (!response.ok) {
+    throw await apiError(response, 'Failed to prepare campaign email');
+  }
+
+  const result = await response.json() as {
+    ok: boolean;
+    data?: { email: PreparedCampaignEmail | null };
+  };
+
+  return result.data?.email ?? null;
+}
+
+const campaignEmailWorker = new Worker<EmailCampaignJobData>(
+  CAMPAIGN_EMAIL_QUEUE_NAME,
+  async (job) => {
+    const { weddingId } = job.data;
+
+    let email = job.data.prepared;
+    if (!email) {
+      email = await prepareCampaignEmail(job.data) ?? undefined;
+      if (!email) {
+        // Nothing to send: shares a household email, already handled, or failed in the API
+        return { status: 'skipped' };
+      }
+      await job.updateData({ ...job.data, prepared: email });
+    }
+
+    const sendResult = await sendEmail(email);
+
+    if (sendResult.success) {
+      await reportOutboxStatus(weddingId, email.outboxId, {
+        status: 'sent',
+        messageId: sendResult.messageId,
+      });
+      return { status: 'sent' };
+    }
+
+    // Keep the outbox pending while retries remain, so progress does not flip to failed
+    if (sendResult.retryable === false || isFinalAttempt(job)) {
+      await reportOutboxStatus(weddingId, email.outboxId, {
+        status: 'failed',
+        errorMessage: sendResult.error,
+      });
+    }
+
+    throw sendError(sendResult, 'Failed to send campaign email');
+  },
+  {
+    connection: getRedisConnection(),
+    concurrency,
+    limiter: getEmailRateLimit(),
+  },
+);
+
+console.log(
+  `Campaign email worker listening on queue "${CAMPAIGN_EMAIL_QUEUE_NAME}" with concurrency ${concurrency}.`,
+);
+
+campaignEmailWorker.on('completed', (job) => {
+  console.log(`Campaign email job ${job.id} completed.`);
+});
+
+campaignEmailWorker.on('failed', (job, error) => {
+  console.error(`Campaign email job ${job?.id} failed: ${error.message}`);
+  void deadLetter(CAMPAIGN_EMAIL_QUEUE_NAME, job, error);
 });
 
 // ============================================================================
@@ -233,6 +409,7 @@ reminderWorker.on('failed', (job, error) => {
 
 async function executeScheduledEmail(
   data: ScheduledEmailJobData,
+  finalAttempt: boolean,
 ): Promise<{ sent: number; failed: number; total: number }> {
   const apiBaseUrl = process.env.PLATFORM_API_URL || 'http://localhost:3001/api';
   const workerToken = process.env.WORKER_TOKEN;
@@ -245,63 +422,45 @@ async function executeScheduledEmail(
   }
 
   // The platform API handles the actual email sending
-  // We just trigger it by calling a special endpoint
-  try {
-    const response = await fetch(
-      `${apiBaseUrl}/weddings/${data.weddingId}/invitations/execute-scheduled`,
-      {
-        method: 'POST',
-        headers,
-        signal: AbortSignal.timeout(getRequestTimeoutMs()),
-        body: JSON.stringify({
-          scheduledEmailId: data.scheduledEmailId,
-          guestIds: data.guestIds,
-          emailType: data.emailType,
-        }),
-      },
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(
-        `Failed to execute scheduled email ${data.scheduledEmailId}: ${response.status} - ${errorText}`,
-      );
-      return { sent: 0, failed: data.guestIds.length, total: data.guestIds.length };
-    }
+  // We just trigger it by calling a special endpoint. Network errors throw and
+  // are retried; the API only marks the send failed on the final attempt.
+  const response = await fetch(
+    `${apiBaseUrl}/weddings/${data.weddingId}/invitations/execute-scheduled`,
+    {
+      method: 'POST',
+      headers,
+      signal: AbortSignal.timeout(getScheduledEmailTimeoutMs()),
+      body: JSON.stringify({
+        scheduledEmailId: data.scheduledEmailId,
+        guestIds: data.guestIds,
+        emailType: data.emailType,
+        finalAttempt,
+      }),
+    },
+  );
 
-    const result = await response.json() as {
-      ok: boolean;
-      data?: { sent: number; failed: number; total: number };
-    };
+  if (!response.ok) {
+    throw await apiError(response, `Failed to execute scheduled email ${data.scheduledEmailId}`);
+  }
 
-    if (result.ok && result.data) {
-      return result.data;
-    }
+  const result = await response.json() as {
+    ok: boolean;
+    data?: { sent: number; failed: number; total: number };
+  };
 
-    return { sent: 0, failed: data.guestIds.length, total: data.guestIds.length };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(
-      `Failed to execute scheduled email ${data.scheduledEmailId}: ${errorMessage}`,
-    );
-    return { sent: 0, failed: data.guestIds.length, total: data.guestIds.length };
-  }
+  return result.data ?? { sent: 0, failed: 0, total: 0 };
 }
 
 const scheduledEmailWorker = new Worker<ScheduledEmailJobData>(
   SCHEDULED_EMAIL_QUEUE_NAME,
   async (job) => {
     console.log(`Processing scheduled email ${job.data.scheduledEmailId}...`);
-    const result = await executeScheduledEmail(job.data);
+    const result = await executeScheduledEmail(job.data, isFinalAttempt(job));
 
     console.log(
       `Scheduled email ${job.data.scheduledEmailId} completed: ${result.sent} sent, ${result.failed} failed`,
     );
 
-    if (result.failed > 0 && result.sent === 0) {
-      throw new Error(`All ${result.failed} emails failed to send`);
-    }
-
     return result;
   },
   {
@@ -320,6 +479,123 @@ scheduledEmailWorker.on('completed', (job) => {
 
 scheduledEmailWorker.on('failed', (job, error) => {
   console.error(`Scheduled email job ${job?.id} failed: ${error.message}`);
+  void deadLetter(SCHEDULED_EMAIL_QUEUE_NAME, job, error);
+});
+
+// ============================================================================
+// RSVP Notification Workers
+// Guest confirmations and couple notifications, plus the daily couple digest
+// ============================================================================
+
+const rsvpNotificationWorker = new Worker<RsvpNotificationJobData>(
+  RSVP_NOTIFICATION_QUEUE_NAME,
+  async (job) => {
+    const { outboxId, weddingId } = job.data;
+    const sendResult = await sendEmail(job.data);
+
+    if (sendResult.success) {
+      if (outboxId) {
+        await reportOutboxStatus(weddingId, outboxId, {
+          status: 'sent',
+          messageId: sendResult.messageId,
+        });
+      }
+      return { status: 'sent' };
+    }
+
+    if (outboxId && (sendResult.retryable === false || isFinalAttempt(job))) {
+      await reportOutboxStatus(weddingId, outboxId, {
+        status: 'failed',
+        errorMessage: sendResult.error,
+      });
+    }
+
+    throw sendError(sendResult, 'Failed to send RSVP notification');
+  },
+  {
+    connection: getRedisConnection(),
+    concurrency,
+  },
+);
+
+console.log(
+  `RSVP notification worker listening on queue "${RSVP_NOTIFICATION_QUEUE_NAME}" with concurrency ${concurrency}.`,
+);
+
+rsvpNotificationWorker.on('completed', (job) => {
+  console.log(`RSVP notification job ${job.id} completed.`);
+});
+
+rsvpNotificationWorker.on('failed', (job, error) => {
+  console.error(`RSVP notification job ${job?.id} failed: ${error.message}`);
+  void deadLetter(RSVP_NOTIFICATION_QUEUE_NAME, job, error);
+});
+
+async function sendRsvpDigests(): Promise<{ sent: number; failed: number }> {
+  const apiBaseUrl = process.env.PLATFORM_API_URL || 'http://localhost:3001/api';
+  const workerToken = process.env.WORKER_TOKEN;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (workerToken) {
+    headers['x-worker-token'] = workerToken;
+  }
+
+  // The platform API gathers the day's RSVPs and queues one digest per wedding
+  const response = await fetch(`${apiBaseUrl}/rsvp/notifications/digests`, {
+    method: 'POST',
+    headers,
+    signal: AbortSignal.timeout(getRequestTimeoutMs()),
+  });
+
+  if (!response.ok) {
+    throw await apiError(response, 'Failed to send RSVP digests');
+  }
+
+  const result = await response.json() as {
+    ok: boolean;
+    data?: { sent: number; failed: number };
+  };
+
+  return result.data ?? { sent: 0, failed: 0 };
+}
+
+// A single repeatable job drives the digest; re-adding it on boot is a no-op
+const rsvpDigestCron = process.env.RSVP_DIGEST_CRON || DEFAULT_RSVP_DIGEST_CRON;
+const rsvpDigestQueue = new Queue(RSVP_DIGEST_QUEUE_NAME, {
+  connection: getRedisConnection(),
+});
+
+void rsvpDigestQueue
+  .add('send-rsvp-digests', {}, {
+    repeat: { pattern: rsvpDigestCron },
+    removeOnComplete: true,
+    removeOnFail: 100,
+  })
+  .catch((error: Error) => {
+    console.error(`Failed to schedule RSVP digests: ${error.message}`);
+  });
+
+const rsvpDigestWorker = new Worker(
+  RSVP_DIGEST_QUEUE_NAME,
+  async () => {
+    const result = await sendRsvpDigests();
+    console.log(`RSVP digests completed: ${result.sent} sent, ${result.failed} failed`);
+    return result;
+  },
+  {
+    connection: getRedisConnection(),
+    concurrency: 1,
+  },
+);
+
+console.log(
+  `RSVP digest worker listening on queue "${RSVP_DIGEST_QUEUE_NAME}" (schedule "${rsvpDigestCron}").`,
+);
+
+rsvpDigestWorker.on('failed', (job, error) => {
+  console.error(`RSVP digest job ${job?.id} failed: ${error.message}`);
 });
 
 let shuttingDown = false;
@@ -330,7 +606,12 @@ const handleShutdown = async (signal: string) => {
   shuttingDown = true;
   console.log(`Received ${signal}. Closing workers...`);
   await reminderWorker.close();
+  await campaignEmailWorker.close();
   await scheduledEmailWorker.close();
+  await rsvpNotificationWorker.close();
+  await rsvpDigestWorker.close();
+  await rsvpDigestQueue.close();
+  await deadLetterQueue.close();
   process.exit(0);
 };
 
@@ -1,7 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import {
+  CAMPAIGN_EMAIL_QUEUE_NAME,
+  EMAIL_DEAD_LETTER_QUEUE_NAME,
   REMINDER_QUEUE_NAME,
   SCHEDULED_EMAIL_QUEUE_NAME,
+  RSVP_NOTIFICATION_QUEUE_NAME,
+  RSVP_DIGEST_QUEUE_NAME,
   type EmailStatus,
   type EmailType,
   type ReminderJobData,
@@ -15,9 +19,22 @@ describe('Worker Types', () => {
       expect(REMINDER_QUEUE_NAME).toBe('email-reminders');
     });
 
+    it('should have correct campaign email queue name', () => {
+      expect(CAMPAIGN_EMAIL_QUEUE_NAME).toBe('email-campaigns');
+    });
+
+    it('should have correct dead-letter queue name', () => {
+      expect(EMAIL_DEAD_LETTER_QUEUE_NAME).toBe('email-dead-letters');
+    });
+
     it('should have correct scheduled email queue name', () => {
       expect(SCHEDULED_EMAIL_QUEUE_NAME).toBe('scheduled-emails');
     });
+
+    it('should have correct RSVP notification queue names', () => {
+      expect(RSVP_NOTIFICATION_QUEUE_NAME).toBe('rsvp-notifications');
+      expect(RSVP_DIGEST_QUEUE_NAME).toBe('rsvp-digests');
+    });
   });
 
   describe('Type Validation', () => {
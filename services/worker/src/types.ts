@@ -1,5 +1,7 @@
 // Types for worker service
 
+import type { EmailAttachment } from '@wedding-bestie/email';
+
 /**
  * Email status in the email_outbox
  */
@@ -8,7 +10,7 @@ export type EmailStatus = 'pending' | 'sent' | 'failed';
 /**
  * Email type identifier
  */
-export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update';
+export type EmailType = 'invitation' | 'reminder' | 'save_the_date' | 'thank_you' | 'update' | 'rsvp_confirmation';
 
 /**
  * Reminder job payload for the worker queue
@@ -22,6 +24,27 @@ export interface ReminderJobData {
   subject: string;
   htmlBody: string;
   textBody: string;
+  /** List-Unsubscribe headers for non-essential mail */
+  headers?: Record<string, string>;
+  /** Calendar invite for the guest's events */
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * RSVP confirmation, calendar update or couple notification job payload for the worker queue
+ * Guest emails are tracked in the email outbox; couple notifications are not
+ */
+export interface RsvpNotificationJobData {
+  /** Outbox record to report delivery to (guest emails only) */
+  outboxId?: string;
+  weddingId: string;
+  toEmail: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /** Calendar cancellation for removed events */
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -35,12 +58,62 @@ export interface ScheduledEmailJobData {
   emailType: EmailType;
 }
 
+/**
+ * Email types sent as a campaign (bulk sends)
+ */
+export type CampaignEmailType = 'invitation' | 'save_the_date' | 'thank_you';
+
+/**
+ * Email prepared by the platform API for one campaign job
+ */
+export interface PreparedCampaignEmail {
+  outboxId: string;
+  toEmail: string;
+  toName: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /** List-Unsubscribe headers for non-essential mail */
+  headers?: Record<string, string>;
+  /** Calendar invite for the guest's events */
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Campaign job payload for the worker queue (one per selected guest)
+ */
+export interface EmailCampaignJobData {
+  campaignId: string;
+  weddingId: string;
+  guestId: string;
+  emailType: CampaignEmailType;
+  /** Set by the worker once prepared, so retries resend the same email and RSVP link */
+  prepared?: PreparedCampaignEmail;
+}
+
+/**
+ * Dead-letter job payload, read back by the platform API
+ * Keeps the original job so it can be put back on its queue unchanged.
+ */
+export interface DeadLetterJobData {
+  queueName: string;
+  jobId: string;
+  jobName: string;
+  weddingId?: string;
+  data: unknown;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
 /**
  * Outbox status update payload (worker -> platform API)
  */
 export interface UpdateOutboxStatusRequest {
   status: EmailStatus;
   errorMessage?: string;
+  /** Provider message ID for delivery tracking */
+  messageId?: string;
 }
 
 /**
@@ -52,3 +125,24 @@ export const REMINDER_QUEUE_NAME = 'email-reminders' as const;
  * Queue name for scheduled emails
  */
 export const SCHEDULED_EMAIL_QUEUE_NAME = 'scheduled-emails' as const;
+
+/**
+ * Queue name for campaign emails (invitations, save-the-dates, thank-yous)
+ */
+export const CAMPAIGN_EMAIL_QUEUE_NAME = 'email-campaigns' as const;
+
+/**
+ * Queue name for RSVP confirmations, calendar updates and couple notifications
+ */
+export const RSVP_NOTIFICATION_QUEUE_NAME = 'rsvp-notifications' as const;
+
+/**
+ * Queue name for the repeating daily RSVP digest job
+ */
+export const RSVP_DIGEST_QUEUE_NAME = 'rsvp-digests' as const;
+
+/**
+ * Queue name for jobs that failed permanently or ran out of retries
+ * Nothing consumes it: the platform API lists, retries and discards its jobs.
+ */
+export const EMAIL_DEAD_LETTER_QUEUE_NAME = 'email-dead-letters' as const;
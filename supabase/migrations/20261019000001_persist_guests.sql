@@ -0,0 +1,27 @@
+-- Persist guests and event assignments (GuestService no longer keeps them in memory).
+-- Event IDs and tag IDs are app-generated strings (e.g. "event-1736..."), not UUIDs.
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ALTER COLUMN invited_event_ids TYPE TEXT[] USING invited_event_ids::TEXT[],
+  ALTER COLUMN tag_ids TYPE TEXT[] USING tag_ids::TEXT[];
+
+-- Duplicate checks are case-insensitive ("Jane@x.com" == "jane@x.com")
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_wedding_email_lower
+  ON guests(wedding_id, LOWER(email));
+
+-- Tag filters use array overlap (tag_ids && ARRAY[...])
+CREATE INDEX IF NOT EXISTS idx_guests_tag_ids ON guests USING GIN (tag_ids);
+
+-- Wedding guest lists are always read sorted by name
+CREATE INDEX IF NOT EXISTS idx_guests_wedding_name ON guests(wedding_id, name);
+
+COMMENT ON COLUMN guests.rsvp_token_hash IS 'SHA-256 of the RSVP token. Looked up by equality via idx_guests_rsvp_token_hash.';
+
+-- ============================================================================
+-- EVENT GUEST ASSIGNMENTS TABLE
+-- ============================================================================
+ALTER TABLE event_guest_assignments
+  ALTER COLUMN event_id TYPE TEXT USING event_id::TEXT;
@@ -0,0 +1,134 @@
+-- Persist seating (SeatingService no longer keeps tables/assignments in memory).
+-- Assign, unassign and reorder run as single Postgres functions so capacity and
+-- GUEST_ALREADY_ASSIGNED checks hold when several planners edit the chart at once.
+
+-- ============================================================================
+-- ASSIGN GUESTS TO TABLE
+-- Locks the table row so concurrent assigns to the same table serialize on the
+-- capacity check. A guest can only hold one seat (seating_assignments.guest_id
+-- is UNIQUE), so a guest seated anywhere is reported as GUEST_ALREADY_ASSIGNED.
+-- Guest IDs are TEXT so malformed IDs surface as GUEST_NOT_FOUND, not a cast error.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION assign_guests_to_table(
+  p_wedding_id UUID,
+  p_table_id UUID,
+  p_guest_ids TEXT[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_count INTEGER;
+  v_guest_id TEXT;
+  v_guest_uuid UUID;
+  v_inserted UUID;
+  v_assigned JSONB := '[]'::JSONB;
+  v_errors JSONB := '[]'::JSONB;
+BEGIN
+  SELECT capacity INTO v_capacity
+  FROM seating_tables
+  WHERE id = p_table_id AND wedding_id = p_wedding_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM seating_assignments
+  WHERE table_id = p_table_id;
+
+  FOREACH v_guest_id IN ARRAY p_guest_ids LOOP
+    SELECT id INTO v_guest_uuid
+    FROM guests
+    WHERE wedding_id = p_wedding_id AND id::TEXT = v_guest_id;
+
+    IF NOT FOUND THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_FOUND');
+      CONTINUE;
+    END IF;
+
+    IF v_count >= v_capacity THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'TABLE_CAPACITY_EXCEEDED');
+      CONTINUE;
+    END IF;
+
+    v_inserted := NULL;
+    INSERT INTO seating_assignments (guest_id, table_id)
+    VALUES (v_guest_uuid, p_table_id)
+    ON CONFLICT (guest_id) DO NOTHING
+    RETURNING id INTO v_inserted;
+
+    IF v_inserted IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_ALREADY_ASSIGNED');
+      CONTINUE;
+    END IF;
+
+    v_count := v_count + 1;
+    v_assigned := v_assigned || to_jsonb(v_guest_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('assigned', v_assigned, 'errors', v_errors);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- UNASSIGN GUESTS
+-- Scoped to the wedding so one couple cannot clear another couple's seats.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION unassign_seating_guests(
+  p_wedding_id UUID,
+  p_guest_ids TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_rows INTEGER;
+BEGIN
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND sa.guest_id::TEXT = ANY(p_guest_ids);
+
+  GET DIAGNOSTICS affected_rows = ROW_COUNT;
+  RETURN affected_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- REORDER TABLES
+-- Locks every table of the wedding, rejects unknown IDs, then rewrites "order"
+-- from each ID's position. Tables not listed keep their current order.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION reorder_seating_tables(
+  p_wedding_id UUID,
+  p_table_ids TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_table_ids) AS requested(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id AND st.id::TEXT = requested.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  UPDATE seating_tables st
+  SET "order" = requested.position
+  FROM unnest(p_table_ids) WITH ORDINALITY AS requested(id, position)
+  WHERE st.wedding_id = p_wedding_id
+    AND st.id::TEXT = requested.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tables are always listed in display order
+CREATE INDEX IF NOT EXISTS idx_seating_tables_wedding_order ON seating_tables(wedding_id, "order");
@@ -0,0 +1,29 @@
+-- Persist email outbox and scheduled emails (InvitationService no longer keeps them in memory).
+-- On boot the API reconciles these rows with the BullMQ queues; a scheduled send that
+-- was mid-flight when its job disappeared is marked 'orphaned' instead of being resent.
+
+-- ============================================================================
+-- SCHEDULED EMAILS TABLE
+-- ============================================================================
+ALTER TABLE scheduled_emails DROP CONSTRAINT IF EXISTS scheduled_emails_status_check;
+ALTER TABLE scheduled_emails
+  ADD CONSTRAINT scheduled_emails_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'cancelled', 'orphaned'));
+
+-- Reconciliation only looks at rows that still expect a queue job
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_open
+  ON scheduled_emails(status)
+  WHERE status IN ('pending', 'processing');
+
+-- ============================================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================================
+
+-- Outbox and statistics are read per wedding, newest first
+CREATE INDEX IF NOT EXISTS idx_email_outbox_wedding_created
+  ON email_outbox(wedding_id, created_at DESC);
+
+-- Reminder reconciliation scans pending reminders
+CREATE INDEX IF NOT EXISTS idx_email_outbox_pending_reminders
+  ON email_outbox(created_at)
+  WHERE email_type = 'reminder' AND status = 'pending';
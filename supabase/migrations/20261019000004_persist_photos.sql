@@ -0,0 +1,22 @@
+-- Persist photo uploads and metadata (PhotosService no longer keeps them in memory).
+-- Photo bytes live in the configured storage backend (local disk, Supabase Storage or S3);
+-- photos.storage_path holds the object key, never a URL.
+
+-- ============================================================================
+-- PHOTO UPLOADS TABLE
+-- ============================================================================
+ALTER TABLE photo_uploads
+  ADD COLUMN IF NOT EXISTS moderation_required BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN photo_uploads.storage_path IS 'Object key the upload will be stored under (<wedding_id>/<upload_id>-<file_name>)';
+COMMENT ON COLUMN photo_uploads.completed_at IS 'Set when the bytes are stored; a completed upload cannot be reused';
+
+-- ============================================================================
+-- PHOTOS TABLE
+-- ============================================================================
+
+-- Photo lists and dashboard summaries are read per wedding, newest first
+CREATE INDEX IF NOT EXISTS idx_photos_wedding_uploaded
+  ON photos(wedding_id, uploaded_at DESC);
+
+COMMENT ON COLUMN photos.storage_path IS 'Object key in the photo storage backend; served via signed, expiring URLs';
@@ -0,0 +1,22 @@
+-- Persist guestbook messages and song requests (GuestbookService and MusicService
+-- no longer keep them in memory) and support cursor-based pagination.
+-- List endpoints page newest first by (created_at DESC, id DESC); the cursor is the
+-- (created_at, id) of the last row on the previous page.
+
+-- ============================================================================
+-- GUESTBOOK MESSAGES TABLE
+-- ============================================================================
+
+-- Admin list filtered by moderation status, public list of approved messages
+CREATE INDEX IF NOT EXISTS idx_guestbook_messages_wedding_status_created
+  ON guestbook_messages(wedding_id, status, created_at DESC, id DESC);
+
+-- Admin list across all statuses
+CREATE INDEX IF NOT EXISTS idx_guestbook_messages_wedding_created
+  ON guestbook_messages(wedding_id, created_at DESC, id DESC);
+
+-- ============================================================================
+-- SONG REQUESTS TABLE
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_song_requests_wedding_created
+  ON song_requests(wedding_id, created_at DESC, id DESC);
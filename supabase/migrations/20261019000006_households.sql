@@ -0,0 +1,168 @@
+-- Households (invitation parties): several named guests share one invitation and
+-- one RSVP link. Every member is a guests row with their own meal, dietary and
+-- per-event answers; only the household contact holds the RSVP token and receives
+-- emails, so members such as children do not need an email address.
+
+-- ============================================================================
+-- HOUSEHOLDS TABLE
+-- ============================================================================
+CREATE TABLE households (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wedding_id UUID NOT NULL REFERENCES weddings(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- Member who receives the invitation and holds the shared RSVP token
+    primary_guest_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_households_wedding_id ON households(wedding_id);
+
+CREATE TRIGGER update_households_updated_at
+    BEFORE UPDATE ON households
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_guests_household_id ON guests(household_id) WHERE household_id IS NOT NULL;
+
+ALTER TABLE households
+  ADD CONSTRAINT households_primary_guest_id_fkey
+  FOREIGN KEY (primary_guest_id) REFERENCES guests(id) ON DELETE SET NULL;
+
+-- Household members may have no email; everyone else still needs one.
+-- This also blocks deleting a household that still has members without an email.
+ALTER TABLE guests ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE guests
+  ADD CONSTRAINT guests_email_or_household CHECK (email IS NOT NULL OR household_id IS NOT NULL);
+
+COMMENT ON COLUMN guests.household_id IS 'Invitation party this guest belongs to; only the household contact holds an RSVP token';
+
+-- ============================================================================
+-- SET HOUSEHOLD MEMBERS
+-- Replaces a household's members and contact in one transaction. The contact must
+-- be a member with an email. If the contact changes, the existing RSVP token moves
+-- with it so the link already emailed keeps working; every other member's token is
+-- cleared so the household has exactly one RSVP link. Guests removed from the
+-- household must have an email to stand on their own.
+-- Guest IDs are TEXT so malformed IDs surface as GUEST_NOT_FOUND, not a cast error.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION set_household_members(
+  p_wedding_id UUID,
+  p_household_id UUID,
+  p_guest_ids TEXT[],
+  p_primary_guest_id TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_previous_primary UUID;
+  v_primary UUID;
+  v_found INTEGER;
+  v_token_hash TEXT;
+  v_token_expires_at TIMESTAMPTZ;
+  v_token_created_at TIMESTAMPTZ;
+  v_token_last_used_at TIMESTAMPTZ;
+BEGIN
+  SELECT primary_guest_id INTO v_previous_primary
+  FROM households
+  WHERE id = p_household_id AND wedding_id = p_wedding_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'HOUSEHOLD_NOT_FOUND';
+  END IF;
+
+  IF COALESCE(array_length(p_guest_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'HOUSEHOLD_CONTACT_INVALID';
+  END IF;
+
+  -- Lock the members so concurrent edits cannot move a guest into two households
+  SELECT COUNT(*) INTO v_found
+  FROM (
+    SELECT id FROM guests
+    WHERE wedding_id = p_wedding_id AND id::TEXT = ANY(p_guest_ids)
+    FOR UPDATE
+  ) AS members;
+
+  IF v_found <> (SELECT COUNT(DISTINCT g) FROM unnest(p_guest_ids) AS g) THEN
+    RAISE EXCEPTION 'GUEST_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM guests
+    WHERE id::TEXT = ANY(p_guest_ids)
+      AND household_id IS NOT NULL
+      AND household_id <> p_household_id
+  ) THEN
+    RAISE EXCEPTION 'GUEST_IN_OTHER_HOUSEHOLD';
+  END IF;
+
+  SELECT id INTO v_primary
+  FROM guests
+  WHERE id::TEXT = p_primary_guest_id
+    AND p_primary_guest_id = ANY(p_guest_ids)
+    AND email IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'HOUSEHOLD_CONTACT_INVALID';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM guests
+    WHERE household_id = p_household_id
+      AND NOT (id::TEXT = ANY(p_guest_ids))
+      AND email IS NULL
+  ) THEN
+    RAISE EXCEPTION 'HOUSEHOLD_MEMBER_WITHOUT_EMAIL';
+  END IF;
+
+  -- Carry the shared token over to a new contact (cleared first: rsvp_token_hash is UNIQUE)
+  IF v_previous_primary IS NOT NULL AND v_previous_primary <> v_primary THEN
+    SELECT rsvp_token_hash, rsvp_token_expires_at, rsvp_token_created_at, rsvp_token_last_used_at
+    INTO v_token_hash, v_token_expires_at, v_token_created_at, v_token_last_used_at
+    FROM guests
+    WHERE id = v_previous_primary;
+
+    IF v_token_hash IS NOT NULL THEN
+      UPDATE guests
+      SET rsvp_token_hash = NULL,
+          rsvp_token_expires_at = NULL,
+          rsvp_token_created_at = NULL,
+          rsvp_token_last_used_at = NULL
+      WHERE id = v_previous_primary;
+
+      UPDATE guests
+      SET rsvp_token_hash = v_token_hash,
+          rsvp_token_expires_at = v_token_expires_at,
+          rsvp_token_created_at = v_token_created_at,
+          rsvp_token_last_used_at = v_token_last_used_at
+      WHERE id = v_primary;
+    END IF;
+  END IF;
+
+  UPDATE guests
+  SET household_id = NULL
+  WHERE household_id = p_household_id AND NOT (id::TEXT = ANY(p_guest_ids));
+
+  UPDATE guests
+  SET household_id = p_household_id
+  WHERE id::TEXT = ANY(p_guest_ids);
+
+  UPDATE guests
+  SET rsvp_token_hash = NULL,
+      rsvp_token_expires_at = NULL,
+      rsvp_token_created_at = NULL,
+      rsvp_token_last_used_at = NULL
+  WHERE household_id = p_household_id AND id <> v_primary;
+
+  UPDATE households
+  SET primary_guest_id = v_primary
+  WHERE id = p_household_id;
+END;
+$$ LANGUAGE plpgsql;
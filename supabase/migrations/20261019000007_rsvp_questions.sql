@@ -0,0 +1,20 @@
+-- Custom RSVP questions: couples add their own questions to the RSVP form
+-- ("Will you use the shuttle?", "Arrival date"). The questions live on the
+-- wedding as JSONB like meal_config; each guest's answers are stored on their
+-- own row keyed by question ID, so household members answer individually.
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN rsvp_questions JSONB;
+
+COMMENT ON COLUMN weddings.rsvp_questions IS 'Custom RSVP questions: {questions: [{id, label, type, options, required, eventId, order}]}';
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN rsvp_answers JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN guests.rsvp_answers IS 'Answers to custom RSVP questions, keyed by question ID';
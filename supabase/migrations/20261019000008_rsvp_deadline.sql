@@ -0,0 +1,25 @@
+-- RSVP deadline: an RSVP-by date per wedding (events may override it in
+-- event_details), an option to keep accepting late responses, and a reminder
+-- cadence. Cadence reminders are ordinary scheduled emails flagged as automatic
+-- so they can be replaced whenever the deadline changes without touching
+-- emails the couple scheduled by hand.
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN rsvp_deadline JSONB;
+
+COMMENT ON COLUMN weddings.rsvp_deadline IS 'RSVP deadline: {date, allowLateEdits, reminderDaysBefore}';
+
+-- ============================================================================
+-- SCHEDULED EMAILS TABLE
+-- ============================================================================
+ALTER TABLE scheduled_emails
+  ADD COLUMN automatic BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN scheduled_emails.automatic IS 'Created by the RSVP deadline reminder cadence';
+
+CREATE INDEX idx_scheduled_emails_automatic
+  ON scheduled_emails(wedding_id)
+  WHERE automatic AND status = 'pending';
@@ -0,0 +1,40 @@
+-- RSVP notifications: guests get a confirmation of their answers with an edit
+-- link after submitting, and couples choose whether to hear about new and
+-- changed RSVPs instantly, once a day, or not at all. Daily digests are built
+-- from rsvp_activity rows that have not been included in a digest yet.
+
+-- ============================================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================================
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS email_outbox_email_type_check;
+ALTER TABLE email_outbox
+  ADD CONSTRAINT email_outbox_email_type_check
+  CHECK (email_type IN ('invitation', 'reminder', 'save_the_date', 'thank_you', 'update', 'rsvp_confirmation'));
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN rsvp_notifications TEXT NOT NULL DEFAULT 'instant'
+  CHECK (rsvp_notifications IN ('instant', 'daily', 'off'));
+
+COMMENT ON COLUMN weddings.rsvp_notifications IS 'How the couple hears about new and changed RSVPs';
+
+-- ============================================================================
+-- RSVP ACTIVITY TABLE
+-- ============================================================================
+CREATE TABLE rsvp_activity (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wedding_id UUID NOT NULL REFERENCES weddings(id) ON DELETE CASCADE,
+    guest_id UUID NOT NULL REFERENCES guests(id) ON DELETE CASCADE,
+    change TEXT NOT NULL CHECK (change IN ('new', 'updated')),
+    -- Set once the change has gone out in a daily digest
+    digested_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rsvp_activity_pending
+  ON rsvp_activity(wedding_id, created_at)
+  WHERE digested_at IS NULL;
+
+ALTER TABLE rsvp_activity ENABLE ROW LEVEL SECURITY;
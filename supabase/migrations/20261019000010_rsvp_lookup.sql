@@ -0,0 +1,21 @@
+-- Find your invitation: guests who lost their invitation email look themselves
+-- up by name on the wedding site. Couples choose whether a match is emailed a
+-- fresh RSVP link or taken straight to the RSVP form. A postal code on the guest
+-- lets guests who share a name tell themselves apart without an email address.
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN rsvp_lookup TEXT NOT NULL DEFAULT 'email_link'
+  CHECK (rsvp_lookup IN ('email_link', 'show_form'));
+
+COMMENT ON COLUMN weddings.rsvp_lookup IS 'What happens when a guest finds their invitation on the site';
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN postal_code TEXT;
+
+COMMENT ON COLUMN guests.postal_code IS 'Mailing postal code, used to verify guests who look up their invitation';
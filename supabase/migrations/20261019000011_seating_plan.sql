@@ -0,0 +1,77 @@
+-- Automatic seating: the planner proposes a full seating chart that the couple
+-- previews and then applies. Applying replaces every assignment of the wedding
+-- in one transaction, so a half-applied plan is never visible.
+
+-- ============================================================================
+-- APPLY SEATING PLAN
+-- Locks every table of the wedding (same order as reorder_seating_tables), then
+-- validates the whole plan before touching anything: unknown tables or guests,
+-- a guest listed twice, or a table over capacity (e.g. shrunk since the preview)
+-- abort the transaction. p_assignments is a JSON array of {guestId, tableId}.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION apply_seating_plan(
+  p_wedding_id UUID,
+  p_assignments JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id AND st.id::TEXT = p."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM guests g
+      WHERE g.wedding_id = p_wedding_id AND g.id::TEXT = p."guestId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    GROUP BY p."guestId"
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'GUEST_ALREADY_ASSIGNED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN seating_tables st ON st.id::TEXT = p."tableId"
+    GROUP BY st.id, st.capacity
+    HAVING COUNT(*) > st.capacity
+  ) THEN
+    RAISE EXCEPTION 'TABLE_CAPACITY_EXCEEDED';
+  END IF;
+
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id;
+
+  INSERT INTO seating_assignments (guest_id, table_id)
+  SELECT p."guestId"::UUID, p."tableId"::UUID
+  FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT);
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
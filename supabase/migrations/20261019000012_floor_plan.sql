@@ -0,0 +1,97 @@
+-- Floor plan: venues hand couples a room layout, so tables get a shape, a size,
+-- a position and rotation in the room, and optional fixed named seats. Venue
+-- fixtures (dance floor, stage, bar) and the room size live on the wedding.
+
+-- ============================================================================
+-- SEATING TABLES
+-- position_x/position_y are NULL until the table is placed on the floor plan.
+-- seats is a JSON array of {number, label?, x, y}, offsets from the table center.
+-- ============================================================================
+ALTER TABLE seating_tables
+  ADD COLUMN shape TEXT NOT NULL DEFAULT 'round'
+    CHECK (shape IN ('round', 'rectangle', 'head')),
+  ADD COLUMN width REAL NOT NULL DEFAULT 80 CHECK (width > 0),
+  ADD COLUMN height REAL NOT NULL DEFAULT 80 CHECK (height > 0),
+  ADD COLUMN position_x REAL,
+  ADD COLUMN position_y REAL,
+  ADD COLUMN rotation REAL NOT NULL DEFAULT 0,
+  ADD COLUMN seats JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN seating_tables.seats IS 'Fixed named seats: [{number, label?, x, y}] relative to the table center';
+
+-- ============================================================================
+-- SEATING ASSIGNMENTS
+-- Two guests can't hold the same named seat at a table.
+-- ============================================================================
+CREATE UNIQUE INDEX idx_seating_assignments_table_seat
+  ON seating_assignments(table_id, seat_number)
+  WHERE seat_number IS NOT NULL;
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN floor_plan JSONB;
+
+COMMENT ON COLUMN weddings.floor_plan IS 'Floor plan room size and venue fixtures: {room: {width, height}, fixtures: [...]}';
+
+-- ============================================================================
+-- SAVE FLOOR PLAN
+-- Saves the room, fixtures and every listed table's layout in one transaction.
+-- p_tables is a JSON array of {tableId, shape, width, height, x, y, rotation, seats};
+-- x/y are null for tables taken off the floor plan. Guests whose seat number no
+-- longer exists at their table keep the table but lose the seat.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION save_floor_plan(
+  p_wedding_id UUID,
+  p_floor_plan JSONB,
+  p_tables JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_tables) AS t("tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id AND st.id::TEXT = t."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  UPDATE seating_tables st
+  SET shape = t.shape,
+      width = t.width,
+      height = t.height,
+      position_x = t.x,
+      position_y = t.y,
+      rotation = t.rotation,
+      seats = t.seats
+  FROM jsonb_to_recordset(p_tables) AS t(
+    "tableId" TEXT, shape TEXT, width REAL, height REAL,
+    x REAL, y REAL, rotation REAL, seats JSONB
+  )
+  WHERE st.id::TEXT = t."tableId";
+
+  UPDATE seating_assignments sa
+  SET seat_number = NULL
+  FROM seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND sa.seat_number IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(st.seats) AS seat
+      WHERE (seat->>'number')::INTEGER = sa.seat_number
+    );
+
+  UPDATE weddings
+  SET floor_plan = p_floor_plan
+  WHERE id = p_wedding_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,299 @@
+-- Per-event seating: multi-event weddings (rehearsal dinner, reception, brunch)
+-- get one seating chart per event. Tables carry the event they belong to, and a
+-- guest holds at most one seat per chart instead of one seat per wedding.
+-- event_id NULL is the wedding's main chart (weddings without events).
+
+-- ============================================================================
+-- SEATING TABLES
+-- Table names are unique within a chart, not across the wedding.
+-- ============================================================================
+ALTER TABLE seating_tables
+  ADD COLUMN event_id TEXT;
+
+ALTER TABLE seating_tables
+  DROP CONSTRAINT seating_tables_wedding_id_name_key;
+
+CREATE UNIQUE INDEX idx_seating_tables_chart_name
+  ON seating_tables(wedding_id, COALESCE(event_id, ''), name);
+
+COMMENT ON COLUMN seating_tables.event_id IS 'WeddingEvent ID this table belongs to; NULL for the main chart';
+
+-- ============================================================================
+-- SEATING ASSIGNMENTS
+-- event_id mirrors the table's event so "one seat per guest per chart" can be
+-- a unique index. Tables never move between charts, so the copy cannot drift.
+-- ============================================================================
+ALTER TABLE seating_assignments
+  ADD COLUMN event_id TEXT;
+
+UPDATE seating_assignments sa
+SET event_id = st.event_id
+FROM seating_tables st
+WHERE sa.table_id = st.id;
+
+ALTER TABLE seating_assignments
+  DROP CONSTRAINT seating_assignments_guest_id_key;
+
+CREATE UNIQUE INDEX idx_seating_assignments_guest_chart
+  ON seating_assignments(guest_id, COALESCE(event_id, ''));
+
+-- ============================================================================
+-- ASSIGN GUESTS TO TABLE
+-- Same as before, but a guest seated elsewhere in the same chart is
+-- GUEST_ALREADY_ASSIGNED, and event tables only take guests invited to the
+-- event (invited_event_ids NULL or empty means invited to every event).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION assign_guests_to_table(
+  p_wedding_id UUID,
+  p_table_id UUID,
+  p_guest_ids TEXT[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_event_id TEXT;
+  v_count INTEGER;
+  v_guest_id TEXT;
+  v_guest_uuid UUID;
+  v_invited_event_ids TEXT[];
+  v_inserted UUID;
+  v_assigned JSONB := '[]'::JSONB;
+  v_errors JSONB := '[]'::JSONB;
+BEGIN
+  SELECT capacity, event_id INTO v_capacity, v_event_id
+  FROM seating_tables
+  WHERE id = p_table_id AND wedding_id = p_wedding_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM seating_assignments
+  WHERE table_id = p_table_id;
+
+  FOREACH v_guest_id IN ARRAY p_guest_ids LOOP
+    SELECT id, invited_event_ids INTO v_guest_uuid, v_invited_event_ids
+    FROM guests
+    WHERE wedding_id = p_wedding_id AND id::TEXT = v_guest_id;
+
+    IF NOT FOUND THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_FOUND');
+      CONTINUE;
+    END IF;
+
+    IF v_event_id IS NOT NULL
+      AND COALESCE(cardinality(v_invited_event_ids), 0) > 0
+      AND NOT v_event_id = ANY(v_invited_event_ids) THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_INVITED_TO_EVENT');
+      CONTINUE;
+    END IF;
+
+    IF v_count >= v_capacity THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'TABLE_CAPACITY_EXCEEDED');
+      CONTINUE;
+    END IF;
+
+    v_inserted := NULL;
+    INSERT INTO seating_assignments (guest_id, table_id, event_id)
+    VALUES (v_guest_uuid, p_table_id, v_event_id)
+    ON CONFLICT (guest_id, COALESCE(event_id, '')) DO NOTHING
+    RETURNING id INTO v_inserted;
+
+    IF v_inserted IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_ALREADY_ASSIGNED');
+      CONTINUE;
+    END IF;
+
+    v_count := v_count + 1;
+    v_assigned := v_assigned || to_jsonb(v_guest_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('assigned', v_assigned, 'errors', v_errors);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- UNASSIGN GUESTS
+-- Now scoped to one chart: leaving the reception chart keeps the brunch seat.
+-- ============================================================================
+DROP FUNCTION unassign_seating_guests(UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION unassign_seating_guests(
+  p_wedding_id UUID,
+  p_event_id TEXT,
+  p_guest_ids TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_rows INTEGER;
+BEGIN
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND st.event_id IS NOT DISTINCT FROM p_event_id
+    AND sa.guest_id::TEXT = ANY(p_guest_ids);
+
+  GET DIAGNOSTICS affected_rows = ROW_COUNT;
+  RETURN affected_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- APPLY SEATING PLAN
+-- Replaces the assignments of one chart only. Tables outside the chart are
+-- TABLE_NOT_FOUND; the other validations are unchanged.
+-- ============================================================================
+DROP FUNCTION apply_seating_plan(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION apply_seating_plan(
+  p_wedding_id UUID,
+  p_event_id TEXT,
+  p_assignments JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id
+        AND st.event_id IS NOT DISTINCT FROM p_event_id
+        AND st.id::TEXT = p."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM guests g
+      WHERE g.wedding_id = p_wedding_id AND g.id::TEXT = p."guestId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    GROUP BY p."guestId"
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'GUEST_ALREADY_ASSIGNED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN seating_tables st ON st.id::TEXT = p."tableId"
+    GROUP BY st.id, st.capacity
+    HAVING COUNT(*) > st.capacity
+  ) THEN
+    RAISE EXCEPTION 'TABLE_CAPACITY_EXCEEDED';
+  END IF;
+
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND st.event_id IS NOT DISTINCT FROM p_event_id;
+
+  INSERT INTO seating_assignments (guest_id, table_id, event_id)
+  SELECT p."guestId"::UUID, p."tableId"::UUID, p_event_id
+  FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT);
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- Each chart has its own room and fixtures; the main chart keeps the top-level
+-- {room, fixtures} and event charts live under events.<eventId>.
+-- ============================================================================
+COMMENT ON COLUMN weddings.floor_plan IS 'Floor plan room size and venue fixtures: {room, fixtures, events: {<eventId>: {room, fixtures}}}';
+
+-- ============================================================================
+-- SAVE FLOOR PLAN
+-- Same as before, scoped to one chart: listed tables must belong to it, and
+-- only that chart's room and fixtures are replaced.
+-- ============================================================================
+DROP FUNCTION save_floor_plan(UUID, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION save_floor_plan(
+  p_wedding_id UUID,
+  p_event_id TEXT,
+  p_floor_plan JSONB,
+  p_tables JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_tables) AS t("tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id
+        AND st.event_id IS NOT DISTINCT FROM p_event_id
+        AND st.id::TEXT = t."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  UPDATE seating_tables st
+  SET shape = t.shape,
+      width = t.width,
+      height = t.height,
+      position_x = t.x,
+      position_y = t.y,
+      rotation = t.rotation,
+      seats = t.seats
+  FROM jsonb_to_recordset(p_tables) AS t(
+    "tableId" TEXT, shape TEXT, width REAL, height REAL,
+    x REAL, y REAL, rotation REAL, seats JSONB
+  )
+  WHERE st.id::TEXT = t."tableId";
+
+  UPDATE seating_assignments sa
+  SET seat_number = NULL
+  FROM seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND sa.seat_number IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(st.seats) AS seat
+      WHERE (seat->>'number')::INTEGER = sa.seat_number
+    );
+
+  UPDATE weddings
+  SET floor_plan = CASE
+    WHEN p_event_id IS NULL THEN
+      p_floor_plan || jsonb_build_object('events', COALESCE(floor_plan->'events', '{}'::jsonb))
+    ELSE
+      COALESCE(floor_plan, '{}'::jsonb) || jsonb_build_object(
+        'events',
+        COALESCE(floor_plan->'events', '{}'::jsonb) || jsonb_build_object(p_event_id, p_floor_plan)
+      )
+  END
+  WHERE id = p_wedding_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,52 @@
+-- Bulk sends through the worker: invitations, save-the-dates and thank-yous no
+-- longer go out inside the HTTP request. Each send creates a campaign and one
+-- queue job per selected guest; the worker asks the API to prepare each email
+-- (outbox row, fresh RSVP token), sends it and reports back. Progress is read
+-- from the campaign's recipient rows and their outbox records.
+
+-- ============================================================================
+-- EMAIL CAMPAIGNS TABLE
+-- ============================================================================
+CREATE TABLE email_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wedding_id UUID NOT NULL REFERENCES weddings(id) ON DELETE CASCADE,
+    email_type TEXT NOT NULL CHECK (email_type IN ('invitation', 'save_the_date', 'thank_you')),
+    -- Number of guests selected (one queue job each)
+    total INTEGER NOT NULL CHECK (total >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_campaigns_wedding_created
+  ON email_campaigns(wedding_id, created_at DESC);
+
+ALTER TABLE email_campaigns ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- EMAIL OUTBOX TABLE
+-- A campaign emails each recipient once: household members selected together
+-- share their contact's outbox row.
+-- ============================================================================
+ALTER TABLE email_outbox
+  ADD COLUMN campaign_id UUID REFERENCES email_campaigns(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_email_outbox_campaign_recipient
+  ON email_outbox(campaign_id, guest_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- ============================================================================
+-- EMAIL CAMPAIGN RECIPIENTS TABLE
+-- One row per selected guest once the worker has prepared it: either the
+-- outbox row that reaches the guest, or the reason no email could be sent.
+-- ============================================================================
+CREATE TABLE email_campaign_recipients (
+    campaign_id UUID NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+    -- Not a foreign key: the selected ID may not be a guest of the wedding
+    guest_id TEXT NOT NULL,
+    guest_name TEXT NOT NULL,
+    outbox_id UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (campaign_id, guest_id)
+);
+
+ALTER TABLE email_campaign_recipients ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,11 @@
+-- Scheduled sends now retry with backoff in the worker. A send that fails on every
+-- attempt is marked 'failed' and its job moves to the dead-letter queue, where the
+-- couple can retry (back to 'pending') or discard it.
+
+-- ============================================================================
+-- SCHEDULED EMAILS TABLE
+-- ============================================================================
+ALTER TABLE scheduled_emails DROP CONSTRAINT IF EXISTS scheduled_emails_status_check;
+ALTER TABLE scheduled_emails
+  ADD CONSTRAINT scheduled_emails_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'cancelled', 'orphaned', 'failed'));
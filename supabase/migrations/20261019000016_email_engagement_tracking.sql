@@ -0,0 +1,16 @@
+-- Engagement tracking from SendGrid events: opens, clicks, spam reports and
+-- unsubscribes are recorded on the outbox row they belong to. They sit next to
+-- the delivery status rather than replacing it, so an opened email still counts
+-- as delivered.
+
+-- ============================================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================================
+ALTER TABLE email_outbox
+  -- First open / click; later ones only bump the counts
+  ADD COLUMN opened_at TIMESTAMPTZ,
+  ADD COLUMN open_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN clicked_at TIMESTAMPTZ,
+  ADD COLUMN click_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN spam_reported_at TIMESTAMPTZ,
+  ADD COLUMN unsubscribed_at TIMESTAMPTZ;
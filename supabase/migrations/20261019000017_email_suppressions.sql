@@ -0,0 +1,32 @@
+-- Per-wedding suppression list: addresses that hard-bounced, reported an email
+-- as spam, or unsubscribed. Every send path checks it before emailing a guest.
+-- Hard bounces and spam reports stop all mail to the address; unsubscribes stop
+-- non-essential mail (reminders, save-the-dates, thank-yous) only, so the guest
+-- still gets their invitation and RSVP confirmation.
+
+-- ============================================================================
+-- EMAIL SUPPRESSIONS TABLE
+-- One row per wedding and address. Couples delete the row to un-suppress
+-- someone after fixing the address.
+-- ============================================================================
+CREATE TABLE email_suppressions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wedding_id UUID NOT NULL REFERENCES weddings(id) ON DELETE CASCADE,
+    -- Stored lowercase so lookups ignore case
+    email TEXT NOT NULL CHECK (email = LOWER(email)),
+    reason TEXT NOT NULL CHECK (reason IN ('hard_bounce', 'spam_report', 'unsubscribed')),
+    -- Provider bounce reason, when there is one
+    detail TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (wedding_id, email)
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- EMAIL CAMPAIGN RECIPIENTS TABLE
+-- Guests skipped because their address is suppressed are reported apart from
+-- failures; the reason is in error.
+-- ============================================================================
+ALTER TABLE email_campaign_recipients
+  ADD COLUMN suppressed BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,34 @@
+-- Saved guest segments: audiences defined by rules (RSVP status, tags, event
+-- invitations, invite sent, invitation email status) rather than a fixed list
+-- of guests. Rules are evaluated whenever the segment is used, so a scheduled
+-- email addressed to a segment reaches whoever matches at send time.
+
+-- ============================================================================
+-- GUEST SEGMENTS TABLE
+-- ============================================================================
+CREATE TABLE guest_segments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wedding_id UUID NOT NULL REFERENCES weddings(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- GuestSegmentRules; every rule that is set must match
+    rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_guest_segments_wedding_id ON guest_segments(wedding_id);
+
+CREATE TRIGGER update_guest_segments_updated_at
+    BEFORE UPDATE ON guest_segments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE guest_segments ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- SCHEDULED EMAILS TABLE
+-- A scheduled email addresses either guest_ids or a segment. The API refuses
+-- to delete a segment that pending emails still use; completed ones keep their
+-- results when the segment goes away.
+-- ============================================================================
+ALTER TABLE scheduled_emails
+  ADD COLUMN segment_id UUID REFERENCES guest_segments(id) ON DELETE SET NULL;
@@ -0,0 +1,12 @@
+-- Per-guest email language. Guests without a preference get emails in the
+-- wedding site's language. Custom templates can have a variant per language,
+-- stored in weddings.email_templates under "byLanguage".
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN preferred_language TEXT
+    CHECK (preferred_language IN ('en', 'es', 'fr', 'pt', 'de', 'it', 'nl', 'ja', 'zh', 'ko'));
+
+COMMENT ON COLUMN guests.preferred_language IS 'Language for the guest''s emails; NULL means the wedding site''s language';
@@ -0,0 +1,11 @@
+-- Personal calendar feeds. Each guest can subscribe to a webcal:// feed of the
+-- events they are invited to. Feed URLs carry a signed token with the guest's
+-- feed version; bumping the version revokes every URL issued before.
+
+-- ============================================================================
+-- GUESTS TABLE
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN calendar_feed_version INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN guests.calendar_feed_version IS 'Version signed into the guest''s calendar feed URL; incremented to revoke old URLs';
@@ -0,0 +1,15 @@
+-- Wedding time zone. Event times, RSVP deadlines and scheduled sends are
+-- wall-clock times at the venue; this IANA zone turns them into instants.
+-- Existing weddings take the zone they set on their event details.
+
+-- ============================================================================
+-- WEDDINGS TABLE
+-- ============================================================================
+ALTER TABLE weddings
+  ADD COLUMN timezone TEXT;
+
+UPDATE weddings
+SET timezone = event_details->>'timezone'
+WHERE COALESCE(event_details->>'timezone', '') <> '';
+
+COMMENT ON COLUMN weddings.timezone IS 'IANA time zone of the venue; NULL means UTC';
@@ -0,0 +1,87 @@
+-- Applying a seating plan keeps named seats: guests who stay at their table
+-- keep their seat number instead of losing it when the chart is rewritten.
+
+-- ============================================================================
+-- APPLY SEATING PLAN
+-- Plan entries may carry a seatNumber (the service passes the guest's current
+-- seat when they keep their table). A seat the table no longer has is dropped,
+-- like save_floor_plan does. The other validations are unchanged.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION apply_seating_plan(
+  p_wedding_id UUID,
+  p_event_id TEXT,
+  p_assignments JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id
+        AND st.event_id IS NOT DISTINCT FROM p_event_id
+        AND st.id::TEXT = p."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM guests g
+      WHERE g.wedding_id = p_wedding_id AND g.id::TEXT = p."guestId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    GROUP BY p."guestId"
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'GUEST_ALREADY_ASSIGNED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN seating_tables st ON st.id::TEXT = p."tableId"
+    GROUP BY st.id, st.capacity
+    HAVING COUNT(*) > st.capacity
+  ) THEN
+    RAISE EXCEPTION 'TABLE_CAPACITY_EXCEEDED';
+  END IF;
+
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND st.event_id IS NOT DISTINCT FROM p_event_id;
+
+  INSERT INTO seating_assignments (guest_id, table_id, event_id, seat_number)
+  SELECT
+    p."guestId"::UUID,
+    p."tableId"::UUID,
+    p_event_id,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(st.seats) AS seat
+      WHERE (seat->>'number')::INTEGER = p."seatNumber"
+    ) THEN p."seatNumber" END
+  FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT, "seatNumber" INTEGER)
+  JOIN seating_tables st ON st.id::TEXT = p."tableId";
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
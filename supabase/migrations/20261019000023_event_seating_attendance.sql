@@ -0,0 +1,188 @@
+-- Event seating only takes guests who can come: a guest who declined an event
+-- cannot be seated at its tables, by hand or by an applied plan. Their answer
+-- for the event counts, falling back to their wedding RSVP when they gave none.
+
+-- ============================================================================
+-- ASSIGN GUESTS TO TABLE
+-- Guests who declined the table's event are GUEST_NOT_ATTENDING_EVENT.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION assign_guests_to_table(
+  p_wedding_id UUID,
+  p_table_id UUID,
+  p_guest_ids TEXT[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_event_id TEXT;
+  v_count INTEGER;
+  v_guest_id TEXT;
+  v_guest_uuid UUID;
+  v_invited_event_ids TEXT[];
+  v_rsvp_status TEXT;
+  v_inserted UUID;
+  v_assigned JSONB := '[]'::JSONB;
+  v_errors JSONB := '[]'::JSONB;
+BEGIN
+  SELECT capacity, event_id INTO v_capacity, v_event_id
+  FROM seating_tables
+  WHERE id = p_table_id AND wedding_id = p_wedding_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM seating_assignments
+  WHERE table_id = p_table_id;
+
+  FOREACH v_guest_id IN ARRAY p_guest_ids LOOP
+    SELECT id, invited_event_ids, COALESCE(event_rsvps->v_event_id->>'rsvpStatus', rsvp_status)
+    INTO v_guest_uuid, v_invited_event_ids, v_rsvp_status
+    FROM guests
+    WHERE wedding_id = p_wedding_id AND id::TEXT = v_guest_id;
+
+    IF NOT FOUND THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_FOUND');
+      CONTINUE;
+    END IF;
+
+    IF v_event_id IS NOT NULL
+      AND COALESCE(cardinality(v_invited_event_ids), 0) > 0
+      AND NOT v_event_id = ANY(v_invited_event_ids) THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_INVITED_TO_EVENT');
+      CONTINUE;
+    END IF;
+
+    IF v_event_id IS NOT NULL AND v_rsvp_status = 'not_attending' THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_NOT_ATTENDING_EVENT');
+      CONTINUE;
+    END IF;
+
+    IF v_count >= v_capacity THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'TABLE_CAPACITY_EXCEEDED');
+      CONTINUE;
+    END IF;
+
+    v_inserted := NULL;
+    INSERT INTO seating_assignments (guest_id, table_id, event_id)
+    VALUES (v_guest_uuid, p_table_id, v_event_id)
+    ON CONFLICT (guest_id, COALESCE(event_id, '')) DO NOTHING
+    RETURNING id INTO v_inserted;
+
+    IF v_inserted IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('guestId', v_guest_id, 'error', 'GUEST_ALREADY_ASSIGNED');
+      CONTINUE;
+    END IF;
+
+    v_count := v_count + 1;
+    v_assigned := v_assigned || to_jsonb(v_guest_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('assigned', v_assigned, 'errors', v_errors);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- APPLY SEATING PLAN
+-- Event charts reject plans seating a guest who is not invited to the event
+-- (GUEST_NOT_INVITED_TO_EVENT) or who declined it (GUEST_NOT_ATTENDING_EVENT).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION apply_seating_plan(
+  p_wedding_id UUID,
+  p_event_id TEXT,
+  p_assignments JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  PERFORM 1
+  FROM seating_tables
+  WHERE wedding_id = p_wedding_id
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM seating_tables st
+      WHERE st.wedding_id = p_wedding_id
+        AND st.event_id IS NOT DISTINCT FROM p_event_id
+        AND st.id::TEXT = p."tableId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'TABLE_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM guests g
+      WHERE g.wedding_id = p_wedding_id AND g.id::TEXT = p."guestId"
+    )
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_FOUND';
+  END IF;
+
+  IF p_event_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN guests g ON g.id::TEXT = p."guestId"
+    WHERE COALESCE(cardinality(g.invited_event_ids), 0) > 0
+      AND NOT p_event_id = ANY(g.invited_event_ids)
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_INVITED_TO_EVENT';
+  END IF;
+
+  IF p_event_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN guests g ON g.id::TEXT = p."guestId"
+    WHERE COALESCE(g.event_rsvps->p_event_id->>'rsvpStatus', g.rsvp_status) = 'not_attending'
+  ) THEN
+    RAISE EXCEPTION 'GUEST_NOT_ATTENDING_EVENT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    GROUP BY p."guestId"
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'GUEST_ALREADY_ASSIGNED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT)
+    JOIN seating_tables st ON st.id::TEXT = p."tableId"
+    GROUP BY st.id, st.capacity
+    HAVING COUNT(*) > st.capacity
+  ) THEN
+    RAISE EXCEPTION 'TABLE_CAPACITY_EXCEEDED';
+  END IF;
+
+  DELETE FROM seating_assignments sa
+  USING seating_tables st
+  WHERE sa.table_id = st.id
+    AND st.wedding_id = p_wedding_id
+    AND st.event_id IS NOT DISTINCT FROM p_event_id;
+
+  INSERT INTO seating_assignments (guest_id, table_id, event_id, seat_number)
+  SELECT
+    p."guestId"::UUID,
+    p."tableId"::UUID,
+    p_event_id,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(st.seats) AS seat
+      WHERE (seat->>'number')::INTEGER = p."seatNumber"
+    ) THEN p."seatNumber" END
+  FROM jsonb_to_recordset(p_assignments) AS p("guestId" TEXT, "tableId" TEXT, "seatNumber" INTEGER)
+  JOIN seating_tables st ON st.id::TEXT = p."tableId";
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
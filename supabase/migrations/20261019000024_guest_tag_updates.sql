@@ -0,0 +1,58 @@
+-- Bulk tag changes update every selected guest in one statement instead of one
+-- round trip per guest.
+
+-- ============================================================================
+-- ADD GUEST TAGS
+-- Appends the tags each guest does not have yet, keeping their existing order.
+-- Guests outside the wedding are ignored. Returns the updated guests.
+-- Guest IDs are TEXT so malformed IDs are skipped, not a cast error.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION add_guest_tags(
+  p_wedding_id UUID,
+  p_guest_ids TEXT[],
+  p_tag_ids TEXT[]
+)
+RETURNS SETOF guests AS $$
+  UPDATE guests g
+  SET
+    tag_ids = COALESCE(g.tag_ids, '{}') || ARRAY(
+      SELECT t
+      FROM unnest(p_tag_ids) WITH ORDINALITY AS new_tags(t, position)
+      WHERE NOT t = ANY(COALESCE(g.tag_ids, '{}'))
+      GROUP BY t
+      ORDER BY MIN(position)
+    ),
+    updated_at = NOW()
+  WHERE g.wedding_id = p_wedding_id
+    AND g.id::TEXT = ANY(p_guest_ids)
+  RETURNING g.*;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- REMOVE GUEST TAGS
+-- Removes the tags from the listed guests, or from every guest in the wedding
+-- that has one of them when p_guest_ids is NULL (deleting a tag).
+-- Returns the updated guests.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION remove_guest_tags(
+  p_wedding_id UUID,
+  p_guest_ids TEXT[],
+  p_tag_ids TEXT[]
+)
+RETURNS SETOF guests AS $$
+  UPDATE guests g
+  SET
+    tag_ids = ARRAY(
+      SELECT t
+      FROM unnest(g.tag_ids) WITH ORDINALITY AS old_tags(t, position)
+      WHERE NOT t = ANY(p_tag_ids)
+      ORDER BY position
+    ),
+    updated_at = NOW()
+  WHERE g.wedding_id = p_wedding_id
+    AND CASE
+      WHEN p_guest_ids IS NULL THEN g.tag_ids && p_tag_ids
+      ELSE g.id::TEXT = ANY(p_guest_ids)
+    END
+  RETURNING g.*;
+$$ LANGUAGE sql;
@@ -0,0 +1,25 @@
+-- Scheduled sends can be retried without emailing guests twice. A run claims its
+-- row ('pending' -> 'processing') so only one run is ever in flight, and records
+-- what it queued before queueing it: the campaign a bulk send started, and the
+-- scheduled email each reminder was sent for. A retry resumes that work instead
+-- of starting over.
+
+-- ============================================================================
+-- SCHEDULED EMAILS TABLE
+-- ============================================================================
+ALTER TABLE scheduled_emails
+  ADD COLUMN campaign_id UUID REFERENCES email_campaigns(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN scheduled_emails.campaign_id IS 'Campaign started by this send; a retried run queues its guests again instead of starting a new one';
+
+-- ============================================================================
+-- EMAIL OUTBOX TABLE
+-- ============================================================================
+ALTER TABLE email_outbox
+  ADD COLUMN scheduled_email_id UUID REFERENCES scheduled_emails(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN email_outbox.scheduled_email_id IS 'Scheduled reminder this email was queued for; a retried run skips recipients it already reached';
+
+CREATE INDEX idx_email_outbox_scheduled_email
+  ON email_outbox(scheduled_email_id)
+  WHERE scheduled_email_id IS NOT NULL;